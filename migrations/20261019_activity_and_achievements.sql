@@ -0,0 +1,35 @@
+-- ══════════════════════════════════════════════════
+-- Activity Events & Achievements
+-- Created: 2026-10-19
+-- Purpose: Record the user activity achievements are
+--          computed from (journal entries, RSVPs,
+--          check-ins, quiz passes, group joins, framework
+--          completions) and the achievements unlocked
+-- ══════════════════════════════════════════════════
+
+CREATE TABLE IF NOT EXISTS activity_events (
+  id UUID PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  activity_type TEXT NOT NULL CHECK (activity_type IN (
+    'journal_entry', 'event_rsvp', 'event_check_in', 'quiz_passed', 'group_joined', 'framework_completed'
+  )),
+  -- `<type>:<source id>`; makes recording the same action twice a no-op
+  dedupe_key TEXT NOT NULL,
+  metadata JSONB NOT NULL DEFAULT '{}'::jsonb,
+  occurred_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (user_id, dedupe_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_activity_events_user_occurred ON activity_events(user_id, occurred_at DESC);
+
+-- One row per unlocked achievement; the primary key makes unlocking idempotent
+CREATE TABLE IF NOT EXISTS user_achievements (
+  user_id TEXT NOT NULL,
+  achievement_id TEXT NOT NULL,
+  unlocked_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (user_id, achievement_id)
+);
+
+-- Activity history is personal data: service role only
+ALTER TABLE activity_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE user_achievements ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,71 @@
+-- ══════════════════════════════════════════════════
+-- Event Analytics Pipeline
+-- Created: 2026-10-19
+-- Purpose: Raw log of event views, clicks, RSVPs, check-ins
+--          and ticket sales, rolled up nightly into the
+--          event_analytics and platform_analytics daily rows
+-- ══════════════════════════════════════════════════
+
+CREATE TABLE IF NOT EXISTS event_analytics_log (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- Recurring events are logged against their series; occurrence_id keeps the date
+  event_id TEXT NOT NULL,
+  occurrence_id TEXT,
+  kind TEXT NOT NULL CHECK (kind IN ('view', 'click', 'share', 'save', 'rsvp', 'rsvp_cancelled', 'check_in', 'ticket_sale')),
+  -- User id or anonymous session, for unique view counts
+  actor_key TEXT,
+  quantity INTEGER NOT NULL DEFAULT 1,
+  amount_pence INTEGER NOT NULL DEFAULT 0,
+  source TEXT,
+  occurred_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  -- Europe/London calendar day, which the nightly rollup reads by
+  occurred_on DATE NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_event_analytics_log_day
+  ON event_analytics_log(occurred_on, id);
+CREATE INDEX IF NOT EXISTS idx_event_analytics_log_event
+  ON event_analytics_log(event_id, occurred_at DESC);
+
+-- ══════════════════════════════════════════════════
+-- Daily aggregates
+-- ══════════════════════════════════════════════════
+
+-- The organizer read policy compares event ids, so it is rebuilt around the text column
+DROP POLICY IF EXISTS "Organizers can read their event analytics" ON event_analytics;
+
+-- Recurring series and demo events use text ids
+ALTER TABLE event_analytics ALTER COLUMN event_id TYPE TEXT USING event_id::text;
+ALTER TABLE event_analytics ADD COLUMN IF NOT EXISTS clicks INTEGER DEFAULT 0;
+ALTER TABLE event_analytics ADD COLUMN IF NOT EXISTS tickets_sold INTEGER DEFAULT 0;
+ALTER TABLE event_analytics ADD COLUMN IF NOT EXISTS revenue_pence INTEGER DEFAULT 0;
+
+CREATE POLICY "Organizers can read their event analytics" ON event_analytics
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM events e
+      WHERE e.id::text = event_analytics.event_id
+      AND e.submitted_by = auth.uid()::text
+    )
+  );
+
+-- The day's activity across every event, alongside the existing platform totals
+ALTER TABLE platform_analytics ADD COLUMN IF NOT EXISTS views INTEGER DEFAULT 0;
+ALTER TABLE platform_analytics ADD COLUMN IF NOT EXISTS unique_views INTEGER DEFAULT 0;
+ALTER TABLE platform_analytics ADD COLUMN IF NOT EXISTS clicks INTEGER DEFAULT 0;
+ALTER TABLE platform_analytics ADD COLUMN IF NOT EXISTS shares INTEGER DEFAULT 0;
+ALTER TABLE platform_analytics ADD COLUMN IF NOT EXISTS saves INTEGER DEFAULT 0;
+ALTER TABLE platform_analytics ADD COLUMN IF NOT EXISTS rsvps INTEGER DEFAULT 0;
+ALTER TABLE platform_analytics ADD COLUMN IF NOT EXISTS cancellations INTEGER DEFAULT 0;
+ALTER TABLE platform_analytics ADD COLUMN IF NOT EXISTS check_ins INTEGER DEFAULT 0;
+ALTER TABLE platform_analytics ADD COLUMN IF NOT EXISTS tickets_sold INTEGER DEFAULT 0;
+ALTER TABLE platform_analytics ADD COLUMN IF NOT EXISTS revenue_pence INTEGER DEFAULT 0;
+
+ALTER TABLE event_analytics_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role full access to event analytics log"
+  ON event_analytics_log FOR ALL USING (auth.role() = 'service_role');
+
+COMMENT ON TABLE event_analytics_log IS
+  'Raw event analytics: views, clicks, RSVPs, check-ins and ticket sales, rolled up nightly into event_analytics';
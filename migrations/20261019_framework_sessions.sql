@@ -0,0 +1,26 @@
+-- ══════════════════════════════════════════════════
+-- Framework Sessions
+-- Created: 2026-10-19
+-- Purpose: Persist step-by-step problem-solving framework
+--          sessions so users can resume them and export a
+--          summary once every step is complete
+-- ══════════════════════════════════════════════════
+
+CREATE TABLE IF NOT EXISTS framework_sessions (
+  id UUID PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  framework_id TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'completed')),
+  current_step_index INTEGER NOT NULL DEFAULT 0,
+  -- { [stepId]: { response, reflection, reflectionSource, submittedAt } }
+  responses JSONB NOT NULL DEFAULT '{}'::jsonb,
+  started_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  completed_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_framework_sessions_user_updated ON framework_sessions(user_id, updated_at DESC);
+CREATE INDEX IF NOT EXISTS idx_framework_sessions_user_active ON framework_sessions(user_id, framework_id) WHERE status = 'active';
+
+-- Sessions hold personal reflections: service role only
+ALTER TABLE framework_sessions ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,126 @@
+-- ══════════════════════════════════════════════════
+-- Group Discussions
+-- Created: 2026-10-19
+-- Purpose: Threaded posts and replies inside community
+--          groups, members' reactions, and reports of
+--          posts for the platform moderators
+-- ══════════════════════════════════════════════════
+
+-- Thread starters have no thread_id; replies point at their thread and at the
+-- post they answer. Posts moderation holds back wait as pending_review.
+CREATE TABLE IF NOT EXISTS group_posts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  group_id UUID NOT NULL REFERENCES community_groups(id) ON DELETE CASCADE,
+  author_id TEXT NOT NULL,
+  thread_id UUID REFERENCES group_posts(id) ON DELETE CASCADE,
+  parent_id UUID REFERENCES group_posts(id) ON DELETE CASCADE,
+  title TEXT CHECK (char_length(title) <= 200),
+  body TEXT NOT NULL CHECK (char_length(body) BETWEEN 1 AND 5000),
+  status TEXT NOT NULL DEFAULT 'pending_review'
+    CHECK (status IN ('published', 'pending_review', 'rejected', 'removed', 'deleted')),
+  moderation JSONB,
+  pinned_at TIMESTAMPTZ,
+  pinned_by TEXT,
+  reply_count INTEGER NOT NULL DEFAULT 0,
+  reaction_counts JSONB NOT NULL DEFAULT '{}',
+  last_activity_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  edited_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- The feed: a group's published threads by latest activity
+CREATE INDEX IF NOT EXISTS idx_group_posts_feed
+  ON group_posts(group_id, last_activity_at DESC)
+  WHERE thread_id IS NULL AND status = 'published';
+
+CREATE INDEX IF NOT EXISTS idx_group_posts_thread
+  ON group_posts(thread_id, created_at)
+  WHERE thread_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_group_posts_pending
+  ON group_posts(group_id, created_at)
+  WHERE status = 'pending_review';
+
+CREATE TABLE IF NOT EXISTS group_post_reactions (
+  post_id UUID NOT NULL REFERENCES group_posts(id) ON DELETE CASCADE,
+  user_id TEXT NOT NULL,
+  reaction TEXT NOT NULL CHECK (reaction IN ('heart', 'fist', 'celebrate', 'hug', 'laugh', 'thinking')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (post_id, user_id, reaction)
+);
+
+CREATE INDEX IF NOT EXISTS idx_group_post_reactions_user
+  ON group_post_reactions(user_id, post_id);
+
+-- One report per member per post
+CREATE TABLE IF NOT EXISTS group_post_reports (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  post_id UUID NOT NULL REFERENCES group_posts(id) ON DELETE CASCADE,
+  group_id UUID NOT NULL REFERENCES community_groups(id) ON DELETE CASCADE,
+  reporter_id TEXT NOT NULL,
+  reason TEXT NOT NULL
+    CHECK (reason IN ('spam', 'inappropriate', 'misleading', 'harassment', 'safety', 'scam', 'duplicate', 'other')),
+  description TEXT,
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'reviewing', 'resolved', 'dismissed')),
+  resolved_by TEXT,
+  resolved_at TIMESTAMPTZ,
+  resolution_notes TEXT,
+  action_taken TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (post_id, reporter_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_group_post_reports_status
+  ON group_post_reports(status, created_at DESC);
+
+-- Recount a thread's published replies and latest activity in one statement,
+-- so replies arriving together can't leave a stale count behind
+CREATE OR REPLACE FUNCTION refresh_group_thread(p_thread_id UUID)
+RETURNS VOID AS $$
+BEGIN
+    UPDATE group_posts t
+    SET reply_count = r.replies,
+        last_activity_at = GREATEST(t.created_at, COALESCE(r.latest, t.created_at))
+    FROM (
+      SELECT COUNT(*)::INTEGER AS replies, MAX(created_at) AS latest
+      FROM group_posts
+      WHERE thread_id = p_thread_id AND status = 'published'
+    ) r
+    WHERE t.id = p_thread_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Recount a post's reactions into reaction_counts and return them
+CREATE OR REPLACE FUNCTION refresh_group_post_reactions(p_post_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+    v_counts JSONB;
+BEGIN
+    SELECT COALESCE(jsonb_object_agg(reaction, total), '{}')
+    INTO v_counts
+    FROM (
+      SELECT reaction, COUNT(*) AS total
+      FROM group_post_reactions
+      WHERE post_id = p_post_id
+      GROUP BY reaction
+    ) counts;
+
+    UPDATE group_posts SET reaction_counts = v_counts WHERE id = p_post_id;
+    RETURN v_counts;
+END;
+$$ LANGUAGE plpgsql;
+
+ALTER TABLE group_posts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE group_post_reactions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE group_post_reports ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role full access to group posts"
+  ON group_posts FOR ALL USING (auth.role() = 'service_role');
+
+CREATE POLICY "Service role full access to group post reactions"
+  ON group_post_reactions FOR ALL USING (auth.role() = 'service_role');
+
+CREATE POLICY "Service role full access to group post reports"
+  ON group_post_reports FOR ALL USING (auth.role() = 'service_role');
@@ -0,0 +1,45 @@
+-- ══════════════════════════════════════════════════
+-- Group Events
+-- Created: 2026-10-19
+-- Purpose: Events owned by a community group, group calendar
+--          feeds, and community_groups.event_count kept in
+--          step with the group's published events
+-- ══════════════════════════════════════════════════
+
+-- An event may belong to one group; deleting the group leaves its events standing
+ALTER TABLE events ADD COLUMN IF NOT EXISTS group_id UUID REFERENCES community_groups(id) ON DELETE SET NULL;
+-- Who submitted a group event, so they aren't notified about their own event
+ALTER TABLE events ADD COLUMN IF NOT EXISTS submitted_by TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_events_group
+  ON events(group_id, date) WHERE group_id IS NOT NULL;
+
+-- Personal feeds of every group the user belongs to
+ALTER TABLE calendar_feeds DROP CONSTRAINT IF EXISTS calendar_feeds_feed_type_check;
+ALTER TABLE calendar_feeds ADD CONSTRAINT calendar_feeds_feed_type_check
+  CHECK (feed_type IN ('rsvp', 'saved', 'all', 'organizer', 'groups'));
+
+-- Recount a group's approved events whenever one is added, approved, moved or removed
+CREATE OR REPLACE FUNCTION refresh_group_event_count()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP <> 'INSERT' AND OLD.group_id IS NOT NULL THEN
+      UPDATE community_groups
+      SET event_count = (SELECT COUNT(*) FROM events WHERE group_id = OLD.group_id AND status = 'approved')
+      WHERE id = OLD.group_id;
+    END IF;
+
+    IF TG_OP <> 'DELETE' AND NEW.group_id IS NOT NULL THEN
+      UPDATE community_groups
+      SET event_count = (SELECT COUNT(*) FROM events WHERE group_id = NEW.group_id AND status = 'approved')
+      WHERE id = NEW.group_id;
+    END IF;
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_events_group_count ON events;
+CREATE TRIGGER trg_events_group_count
+  AFTER INSERT OR DELETE OR UPDATE OF group_id, status ON events
+  FOR EACH ROW EXECUTE FUNCTION refresh_group_event_count();
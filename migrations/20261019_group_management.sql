@@ -0,0 +1,88 @@
+-- ══════════════════════════════════════════════════
+-- Group Management
+-- Created: 2026-10-19
+-- Purpose: Owner/admin/member roles, join requests, expiring
+--          invite links, bans and a membership audit log
+--          for community_groups
+-- ══════════════════════════════════════════════════
+
+-- Roles are owner, admin and member; existing moderators become admins.
+-- Bans replace suspensions: a banned user can't rejoin until an admin lifts it.
+UPDATE group_memberships SET role = 'admin' WHERE role = 'moderator';
+UPDATE group_memberships SET status = 'banned' WHERE status = 'suspended';
+
+ALTER TABLE group_memberships DROP CONSTRAINT IF EXISTS group_memberships_role_check;
+ALTER TABLE group_memberships ADD CONSTRAINT group_memberships_role_check
+  CHECK (role IN ('member', 'admin', 'owner'));
+
+ALTER TABLE group_memberships DROP CONSTRAINT IF EXISTS group_memberships_status_check;
+ALTER TABLE group_memberships ADD CONSTRAINT group_memberships_status_check
+  CHECK (status IN ('pending', 'active', 'banned'));
+
+-- Member lists put owners, then admins, first
+ALTER TABLE group_memberships ADD COLUMN IF NOT EXISTS role_rank SMALLINT
+  GENERATED ALWAYS AS (CASE role WHEN 'owner' THEN 0 WHEN 'admin' THEN 1 ELSE 2 END) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_memberships_group_status
+  ON group_memberships(group_id, status, role_rank, joined_at);
+
+-- Invite links; max_uses NULL means unlimited
+CREATE TABLE IF NOT EXISTS group_invites (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  group_id UUID NOT NULL REFERENCES community_groups(id) ON DELETE CASCADE,
+  code TEXT NOT NULL UNIQUE,
+  created_by TEXT NOT NULL,
+  expires_at TIMESTAMPTZ NOT NULL,
+  max_uses INTEGER CHECK (max_uses IS NULL OR max_uses > 0),
+  uses INTEGER NOT NULL DEFAULT 0,
+  revoked_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_group_invites_group
+  ON group_invites(group_id, created_at DESC) WHERE revoked_at IS NULL;
+
+-- Count one use of an invite if it is still good. The conditional update takes
+-- the row lock, so concurrent joins can't push uses past max_uses.
+CREATE OR REPLACE FUNCTION use_group_invite(p_invite_id UUID, p_now TIMESTAMPTZ)
+RETURNS BOOLEAN AS $$
+DECLARE
+    v_updated INTEGER;
+BEGIN
+    UPDATE group_invites
+    SET uses = uses + 1
+    WHERE id = p_invite_id
+      AND revoked_at IS NULL
+      AND expires_at > p_now
+      AND (max_uses IS NULL OR uses < max_uses);
+
+    GET DIAGNOSTICS v_updated = ROW_COUNT;
+    RETURN v_updated > 0;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Who changed whose membership, and how
+CREATE TABLE IF NOT EXISTS group_audit_log (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  group_id UUID NOT NULL REFERENCES community_groups(id) ON DELETE CASCADE,
+  action TEXT NOT NULL CHECK (action IN (
+    'created', 'updated', 'joined', 'requested', 'approved', 'rejected', 'left',
+    'removed', 'banned', 'unbanned', 'role_changed', 'invite_created', 'invite_revoked'
+  )),
+  actor_id TEXT NOT NULL,
+  target_user_id TEXT,
+  details JSONB NOT NULL DEFAULT '{}',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_group_audit_group
+  ON group_audit_log(group_id, created_at DESC);
+
+ALTER TABLE group_invites ENABLE ROW LEVEL SECURITY;
+ALTER TABLE group_audit_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role full access to group invites"
+  ON group_invites FOR ALL USING (auth.role() = 'service_role');
+
+CREATE POLICY "Service role full access to group audit log"
+  ON group_audit_log FOR ALL USING (auth.role() = 'service_role');
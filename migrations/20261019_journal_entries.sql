@@ -0,0 +1,29 @@
+-- ══════════════════════════════════════════════════
+-- Journal Entries
+-- Created: 2026-10-19
+-- Purpose: Persist personal journal entries. Title and
+--          content are AES-256-GCM encrypted by ivor-core
+--          before insert; sentiment stays queryable for
+--          mood trends
+-- ══════════════════════════════════════════════════
+
+CREATE TABLE IF NOT EXISTS journal_entries (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  title_encrypted TEXT,
+  content_encrypted TEXT NOT NULL,
+  mood TEXT,
+  tags TEXT[] DEFAULT '{}',
+  prompt_day INTEGER CHECK (prompt_day BETWEEN 1 AND 90),
+  sentiment_label TEXT NOT NULL CHECK (sentiment_label IN ('positive', 'neutral', 'challenging', 'mixed')),
+  sentiment_score NUMERIC(3, 2) NOT NULL CHECK (sentiment_score BETWEEN -1 AND 1),
+  emotions TEXT[] DEFAULT '{}',
+  sentiment_source TEXT NOT NULL DEFAULT 'lexicon' CHECK (sentiment_source IN ('llm', 'lexicon')),
+  word_count INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_journal_entries_user_created ON journal_entries(user_id, created_at DESC);
+
+-- Journals are private: service role only
+ALTER TABLE journal_entries ENABLE ROW LEVEL SECURITY;
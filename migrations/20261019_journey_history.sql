@@ -0,0 +1,61 @@
+-- ══════════════════════════════════════════════════
+-- Journey History
+-- Created: 2026-10-19
+-- Purpose: Persist every detected journey context so
+--          stage progression survives restarts and is
+--          shared across instances
+-- ══════════════════════════════════════════════════
+
+-- One row per detected JourneyContext
+CREATE TABLE IF NOT EXISTS journey_history (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  session_id TEXT,
+  stage TEXT NOT NULL CHECK (stage IN ('crisis', 'stabilization', 'growth', 'community_healing', 'advocacy')),
+  emotional_state TEXT NOT NULL,
+  urgency_level TEXT NOT NULL,
+  location TEXT NOT NULL DEFAULT 'unknown',
+  community_connection TEXT NOT NULL,
+  detected_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_journey_history_user_detected ON journey_history(user_id, detected_at DESC);
+CREATE INDEX IF NOT EXISTS idx_journey_history_detected ON journey_history(detected_at);
+
+-- Per-user retention windows (users without a row use the service default)
+CREATE TABLE IF NOT EXISTS journey_history_retention (
+  user_id TEXT PRIMARY KEY,
+  retention_days INTEGER NOT NULL CHECK (retention_days > 0),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- ══════════════════════════════════════════════════
+-- FUNCTION: Purge expired journey history
+-- Deletes rows older than each user's retention window
+-- ══════════════════════════════════════════════════
+CREATE OR REPLACE FUNCTION purge_expired_journey_history(
+  p_default_days INTEGER DEFAULT 365,
+  p_now TIMESTAMPTZ DEFAULT NOW()
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_deleted INTEGER;
+BEGIN
+  DELETE FROM journey_history jh
+  USING (
+    SELECT h.id
+    FROM journey_history h
+    LEFT JOIN journey_history_retention r ON r.user_id = h.user_id
+    WHERE h.detected_at < p_now - make_interval(days => COALESCE(r.retention_days, p_default_days))
+  ) expired
+  WHERE jh.id = expired.id;
+
+  GET DIAGNOSTICS v_deleted = ROW_COUNT;
+  RETURN v_deleted;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Journey history is personal data: service role only
+ALTER TABLE journey_history ENABLE ROW LEVEL SECURITY;
+ALTER TABLE journey_history_retention ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,51 @@
+-- ══════════════════════════════════════════════════
+-- Knowledge Embeddings
+-- Created: 2026-10-19
+-- Purpose: pgvector index over every UKResource and
+--          KnowledgeEntry from the regional providers,
+--          for hybrid keyword + semantic retrieval.
+--          ivor-core re-embeds only rows whose
+--          content_hash has changed
+-- ══════════════════════════════════════════════════
+
+CREATE EXTENSION IF NOT EXISTS vector;
+
+CREATE TABLE IF NOT EXISTS knowledge_embeddings (
+  id TEXT PRIMARY KEY,                       -- '<kind>:<source id>'
+  kind TEXT NOT NULL CHECK (kind IN ('resource', 'knowledge')),
+  source_id TEXT NOT NULL,
+  journey_stages TEXT[] NOT NULL DEFAULT '{}',
+  locations TEXT[] NOT NULL DEFAULT '{}',
+  content_hash TEXT NOT NULL,
+  embedding vector(1536) NOT NULL,           -- text-embedding-3-small
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_knowledge_embeddings_embedding
+  ON knowledge_embeddings USING hnsw (embedding vector_cosine_ops);
+CREATE INDEX IF NOT EXISTS idx_knowledge_embeddings_stages ON knowledge_embeddings USING GIN (journey_stages);
+CREATE INDEX IF NOT EXISTS idx_knowledge_embeddings_locations ON knowledge_embeddings USING GIN (locations);
+
+-- ══════════════════════════════════════════════════
+-- FUNCTION: Nearest documents by cosine similarity
+-- Optional filters: kind, journey stage, any of a set of locations
+-- ══════════════════════════════════════════════════
+CREATE OR REPLACE FUNCTION match_knowledge_embeddings(
+  query_embedding vector(1536),
+  match_count INTEGER DEFAULT 20,
+  filter_kind TEXT DEFAULT NULL,
+  filter_stage TEXT DEFAULT NULL,
+  filter_locations TEXT[] DEFAULT NULL
+)
+RETURNS TABLE (id TEXT, similarity DOUBLE PRECISION) AS $$
+  SELECT ke.id, 1 - (ke.embedding <=> query_embedding) AS similarity
+  FROM knowledge_embeddings ke
+  WHERE (filter_kind IS NULL OR ke.kind = filter_kind)
+    AND (filter_stage IS NULL OR filter_stage = ANY (ke.journey_stages))
+    AND (filter_locations IS NULL OR ke.locations && filter_locations)
+  ORDER BY ke.embedding <=> query_embedding
+  LIMIT match_count;
+$$ LANGUAGE sql STABLE;
+
+-- Public knowledge, but writes are service role only
+ALTER TABLE knowledge_embeddings ENABLE ROW LEVEL SECURITY;
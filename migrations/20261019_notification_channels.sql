@@ -0,0 +1,26 @@
+-- ══════════════════════════════════════════════════
+-- Notification Channel Preferences
+-- Created: 2026-10-19
+-- Purpose: Per-user email/push channel choices, topics muted
+--          from unsubscribe links, and the all-channel opt-out
+-- ══════════════════════════════════════════════════
+
+CREATE TABLE IF NOT EXISTS notification_channel_preferences (
+  user_id TEXT PRIMARY KEY,
+  -- Where notification emails go; transactional email uses the order/RSVP address
+  email TEXT,
+  -- Email notifications are opt-in
+  email_enabled BOOLEAN NOT NULL DEFAULT FALSE,
+  push_enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  muted_topics TEXT[] NOT NULL DEFAULT '{}',
+  unsubscribed_all BOOLEAN NOT NULL DEFAULT FALSE,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_notification_channel_email
+  ON notification_channel_preferences(user_id) WHERE email_enabled AND NOT unsubscribed_all;
+CREATE INDEX IF NOT EXISTS idx_notification_channel_muted
+  ON notification_channel_preferences USING GIN (muted_topics);
+
+-- Holds email addresses: service role only
+ALTER TABLE notification_channel_preferences ENABLE ROW LEVEL SECURITY;
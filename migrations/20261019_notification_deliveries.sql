@@ -0,0 +1,28 @@
+-- ══════════════════════════════════════════════════
+-- Notification Deliveries
+-- Created: 2026-10-19
+-- Purpose: Per-subscription Web Push results and
+--          completion counts on notification_log
+-- ══════════════════════════════════════════════════
+
+ALTER TABLE notification_log ADD COLUMN IF NOT EXISTS pruned_count INTEGER DEFAULT 0;
+ALTER TABLE notification_log ADD COLUMN IF NOT EXISTS skipped_count INTEGER DEFAULT 0;
+ALTER TABLE notification_log ADD COLUMN IF NOT EXISTS completed_at TIMESTAMPTZ;
+
+-- One row per subscription per notification; pruned = push service reported 404/410
+CREATE TABLE IF NOT EXISTS notification_deliveries (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  notification_id UUID NOT NULL REFERENCES notification_log(id) ON DELETE CASCADE,
+  endpoint TEXT NOT NULL,
+  user_id TEXT NOT NULL,
+  status TEXT NOT NULL CHECK (status IN ('sent', 'failed', 'pruned', 'skipped')),
+  status_code INTEGER,
+  error TEXT,
+  attempted_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_notification_deliveries_notification ON notification_deliveries(notification_id);
+CREATE INDEX IF NOT EXISTS idx_notification_deliveries_user ON notification_deliveries(user_id, attempted_at DESC);
+
+-- Endpoints identify devices: service role only
+ALTER TABLE notification_deliveries ENABLE ROW LEVEL SECURITY;
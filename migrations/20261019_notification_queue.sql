@@ -0,0 +1,44 @@
+-- ══════════════════════════════════════════════════
+-- Notification Queue
+-- Created: 2026-10-19
+-- Purpose: Durable queue for scheduled, deduplicated and
+--          digested notifications, drained by the scheduler
+-- ══════════════════════════════════════════════════
+
+CREATE TABLE IF NOT EXISTS notification_queue (
+  id UUID PRIMARY KEY,
+  -- NULL = broadcast to everyone subscribed to the topic
+  user_id TEXT,
+  topic TEXT NOT NULL DEFAULT 'general',
+  title TEXT NOT NULL,
+  body TEXT NOT NULL,
+  url TEXT,
+  data JSONB NOT NULL DEFAULT '{}'::jsonb,
+  priority TEXT NOT NULL DEFAULT 'normal' CHECK (priority IN ('high', 'normal', 'low')),
+  priority_rank SMALLINT GENERATED ALWAYS AS (
+    CASE priority WHEN 'high' THEN 0 WHEN 'normal' THEN 1 ELSE 2 END
+  ) STORED,
+  scheduled_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  dedupe_key TEXT,
+  -- Held for the recipient's daily digest
+  digest BOOLEAN NOT NULL DEFAULT FALSE,
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'sending', 'sent', 'failed', 'cancelled')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 3,
+  last_error TEXT,
+  notification_id UUID REFERENCES notification_log(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  sent_at TIMESTAMPTZ
+);
+
+-- One live item per dedupe key; a cancelled item frees its key
+CREATE UNIQUE INDEX IF NOT EXISTS idx_notification_queue_dedupe
+  ON notification_queue(dedupe_key) WHERE dedupe_key IS NOT NULL AND status <> 'cancelled';
+CREATE INDEX IF NOT EXISTS idx_notification_queue_due
+  ON notification_queue(digest, priority_rank, scheduled_at) WHERE status IN ('pending', 'sending');
+CREATE INDEX IF NOT EXISTS idx_notification_queue_user ON notification_queue(user_id, created_at DESC);
+
+-- Queued messages name their recipients: service role only
+ALTER TABLE notification_queue ENABLE ROW LEVEL SECURITY;
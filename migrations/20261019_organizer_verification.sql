@@ -0,0 +1,68 @@
+-- ══════════════════════════════════════════════════
+-- Organizer Verification and Event Teams
+-- Created: 2026-10-19
+-- Purpose: Verification applications reviewed by moderators,
+--          and event collaborators invited by the event's
+--          owner into role-scoped permissions
+-- ══════════════════════════════════════════════════
+
+CREATE TABLE IF NOT EXISTS organizer_verifications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id TEXT NOT NULL,
+  -- [{ type, url?, description? }]
+  evidence JSONB NOT NULL DEFAULT '[]'::jsonb,
+  notes TEXT,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected', 'revoked')),
+  reviewed_by TEXT,
+  reviewed_at TIMESTAMPTZ,
+  review_notes TEXT,
+  revoked_by TEXT,
+  revoked_at TIMESTAMPTZ,
+  revocation_reason TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_organizer_verifications_user
+  ON organizer_verifications(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_organizer_verifications_status
+  ON organizer_verifications(status, created_at);
+-- One application under review per organizer
+CREATE UNIQUE INDEX IF NOT EXISTS idx_organizer_verifications_pending
+  ON organizer_verifications(user_id) WHERE status = 'pending';
+
+-- ══════════════════════════════════════════════════
+-- Event collaborators: invitations and scoped roles
+-- ══════════════════════════════════════════════════
+
+-- Recurring occurrences and demo events use text ids
+ALTER TABLE event_collaborators ALTER COLUMN event_id TYPE TEXT USING event_id::text;
+ALTER TABLE event_collaborators ADD COLUMN IF NOT EXISTS email TEXT;
+ALTER TABLE event_collaborators ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'invited'
+  CHECK (status IN ('invited', 'active', 'declined'));
+
+-- Rows from before invitations were already working on their events
+UPDATE event_collaborators SET status = 'active', accepted_at = COALESCE(accepted_at, created_at)
+  WHERE status = 'invited' AND (accepted_at IS NOT NULL OR role = 'owner');
+
+-- Permissions now follow from the role rather than per-row flags
+ALTER TABLE event_collaborators DROP CONSTRAINT IF EXISTS event_collaborators_role_check;
+UPDATE event_collaborators SET role = CASE role
+    WHEN 'collaborator' THEN 'co_host'
+    WHEN 'volunteer' THEN 'check_in'
+    WHEN 'promoter' THEN 'analyst'
+    ELSE role
+  END;
+ALTER TABLE event_collaborators ALTER COLUMN role SET DEFAULT 'co_host';
+ALTER TABLE event_collaborators ADD CONSTRAINT event_collaborators_role_check
+  CHECK (role IN ('owner', 'co_host', 'check_in', 'analyst'));
+
+CREATE INDEX IF NOT EXISTS idx_collaborators_invitations
+  ON event_collaborators(user_id, created_at DESC) WHERE status = 'invited';
+
+ALTER TABLE organizer_verifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role full access to organizer verifications"
+  ON organizer_verifications FOR ALL USING (auth.role() = 'service_role');
+
+COMMENT ON TABLE organizer_verifications IS
+  'Organizer verification applications; approval sets event_organizers.is_verified and grants the organizer role';
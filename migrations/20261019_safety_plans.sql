@@ -0,0 +1,24 @@
+-- ══════════════════════════════════════════════════
+-- Safety Plans
+-- Created: 2026-10-19
+-- Purpose: Persist each user's current personal safety
+--          plan (warning signs, coping steps, contacts,
+--          professional services) generated from crisis
+--          triage so they can come back to it
+-- ══════════════════════════════════════════════════
+
+-- One current plan per user; saving again replaces it
+CREATE TABLE IF NOT EXISTS safety_plans (
+  id UUID PRIMARY KEY,
+  user_id TEXT NOT NULL UNIQUE,
+  risk_tier TEXT NOT NULL CHECK (risk_tier IN ('emergency', 'high', 'moderate', 'low')),
+  location TEXT NOT NULL DEFAULT 'unknown',
+  nation TEXT NOT NULL CHECK (nation IN ('england', 'scotland', 'wales', 'northern_ireland')),
+  -- { warningSigns, copingStrategies, contacts, professionalServices, saferEnvironment, reasonsForLiving, suggestedSections }
+  plan JSONB NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Safety plans are sensitive personal data: service role only
+ALTER TABLE safety_plans ENABLE ROW LEVEL SECURITY;
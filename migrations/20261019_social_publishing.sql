@@ -0,0 +1,56 @@
+-- ══════════════════════════════════════════════════
+-- Social Publishing
+-- Created: 2026-10-19
+-- Purpose: Persist the social content calendar and every
+--          publish attempt, replacing n8n in-memory state
+-- ══════════════════════════════════════════════════
+
+-- One row per platform post: draft → approved → scheduled → posting → posted
+CREATE TABLE IF NOT EXISTS social_posts (
+  id UUID PRIMARY KEY,
+  platform TEXT NOT NULL CHECK (platform IN ('linkedin', 'instagram', 'bluesky', 'mastodon')),
+  content TEXT NOT NULL,
+  image_url TEXT,
+  status TEXT NOT NULL DEFAULT 'draft'
+    CHECK (status IN ('draft', 'approved', 'scheduled', 'posting', 'posted', 'failed', 'cancelled')),
+  source TEXT NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'n8n', 'emergency')),
+  urgent BOOLEAN NOT NULL DEFAULT FALSE,
+  scheduled_for TIMESTAMPTZ,
+  next_attempt_at TIMESTAMPTZ,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 4,
+  last_error TEXT,
+  platform_post_id TEXT,
+  platform_url TEXT,
+  created_by TEXT,
+  approved_by TEXT,
+  approved_at TIMESTAMPTZ,
+  posted_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  -- Calendar position: planned time, or creation time for unscheduled drafts
+  calendar_at TIMESTAMPTZ GENERATED ALWAYS AS (COALESCE(scheduled_for, created_at)) STORED
+);
+
+CREATE INDEX IF NOT EXISTS idx_social_posts_calendar ON social_posts(calendar_at);
+CREATE INDEX IF NOT EXISTS idx_social_posts_status ON social_posts(status);
+CREATE INDEX IF NOT EXISTS idx_social_posts_due ON social_posts(next_attempt_at) WHERE status = 'scheduled';
+
+-- One row per publish attempt, kept for retry and error reporting
+CREATE TABLE IF NOT EXISTS social_post_attempts (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  post_id UUID NOT NULL REFERENCES social_posts(id) ON DELETE CASCADE,
+  platform TEXT NOT NULL,
+  attempt INTEGER NOT NULL,
+  status TEXT NOT NULL CHECK (status IN ('posted', 'failed')),
+  error TEXT,
+  platform_post_id TEXT,
+  attempted_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_social_post_attempts_post ON social_post_attempts(post_id, attempted_at);
+CREATE INDEX IF NOT EXISTS idx_social_post_attempts_failed ON social_post_attempts(attempted_at) WHERE status = 'failed';
+
+-- Drafts and platform errors are admin-only: service role only
+ALTER TABLE social_posts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE social_post_attempts ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,34 @@
+-- ══════════════════════════════════════════════════
+-- Ticket Check-Ins
+-- Created: 2026-10-19
+-- Purpose: Signed QR tickets for RSVPs and paid tickets, one
+--          check-in per ticket across every door device
+-- ══════════════════════════════════════════════════
+
+-- ticket_id is the event_rsvps id (kind 'rsvp') or the shop_order_items id (kind 'ticket').
+-- Unique, so two devices scanning the same ticket can't both let it in.
+CREATE TABLE IF NOT EXISTS ticket_checkins (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  ticket_id UUID NOT NULL UNIQUE,
+  event_id UUID NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('rsvp', 'ticket')),
+  admits INTEGER NOT NULL DEFAULT 1 CHECK (admits >= 1),
+  -- When the door scanned it; earlier than recorded_at for offline devices
+  scanned_at TIMESTAMPTZ NOT NULL,
+  device_id TEXT,
+  recorded_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ticket_checkins_event
+  ON ticket_checkins(event_id, scanned_at);
+
+-- Paid tickets: which event a ticket product admits to, and the token issued per order item
+ALTER TABLE shop_products ADD COLUMN IF NOT EXISTS event_id UUID;
+ALTER TABLE shop_order_items ADD COLUMN IF NOT EXISTS event_id UUID;
+ALTER TABLE shop_order_items ADD COLUMN IF NOT EXISTS ticket_token TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_order_items_event
+  ON shop_order_items(event_id) WHERE event_id IS NOT NULL;
+
+-- Written by the API with the service role; organisers read through the roster endpoint
+ALTER TABLE ticket_checkins ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,26 @@
+-- ══════════════════════════════════════════════════
+-- User Roles
+-- Created: 2026-10-19
+-- Purpose: Platform roles granted to users beyond the
+--          default member role, read by the auth
+--          middleware alongside token app_metadata
+-- ══════════════════════════════════════════════════
+
+CREATE TABLE IF NOT EXISTS user_roles (
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  role TEXT NOT NULL CHECK (role IN ('member', 'organizer', 'moderator', 'vendor', 'admin')),
+  granted_by UUID REFERENCES auth.users(id),
+  granted_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (user_id, role)
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_roles_role ON user_roles(role);
+
+-- ══════════════════════════════════════════════════
+-- RLS: users can read their own roles; only the
+-- service role (ivor-core) grants or revokes them
+-- ══════════════════════════════════════════════════
+ALTER TABLE user_roles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own roles" ON user_roles
+  FOR SELECT USING (auth.uid() = user_id);
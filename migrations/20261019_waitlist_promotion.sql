@@ -0,0 +1,118 @@
+-- ══════════════════════════════════════════════════
+-- Waitlist Promotion
+-- Created: 2026-10-19
+-- Purpose: First-come-first-served waitlist offers with an
+--          acceptance window, promoted under a per-event lock
+-- ══════════════════════════════════════════════════
+
+-- 'offered': holding a place until offer_expires_at; 'offer_expired': let it lapse;
+-- 'expired': stale RSVP cleared by the scheduler
+ALTER TABLE event_rsvps DROP CONSTRAINT IF EXISTS event_rsvps_status_check;
+ALTER TABLE event_rsvps ADD CONSTRAINT event_rsvps_status_check CHECK (status IN (
+  'confirmed', 'waitlist', 'offered', 'offer_expired', 'cancelled', 'no_show', 'expired'
+));
+
+ALTER TABLE event_rsvps ADD COLUMN IF NOT EXISTS offered_at TIMESTAMPTZ;
+ALTER TABLE event_rsvps ADD COLUMN IF NOT EXISTS offer_expires_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_rsvps_waitlist_queue
+  ON event_rsvps(event_id, created_at) WHERE status = 'waitlist';
+CREATE INDEX IF NOT EXISTS idx_rsvps_offer_expiry
+  ON event_rsvps(offer_expires_at) WHERE status = 'offered';
+
+-- Places held by open offers, so new RSVPs can't take them
+ALTER TABLE event_capacity ADD COLUMN IF NOT EXISTS offered_count INTEGER DEFAULT 0;
+
+CREATE OR REPLACE FUNCTION update_capacity_counts()
+RETURNS TRIGGER AS $$
+BEGIN
+    UPDATE event_capacity
+    SET confirmed_count = (
+        SELECT COALESCE(SUM(1 + guest_count), 0)
+        FROM event_rsvps
+        WHERE event_id = COALESCE(NEW.event_id, OLD.event_id)
+        AND status = 'confirmed'
+    ),
+    offered_count = (
+        SELECT COALESCE(SUM(1 + guest_count), 0)
+        FROM event_rsvps
+        WHERE event_id = COALESCE(NEW.event_id, OLD.event_id)
+        AND status = 'offered'
+    ),
+    waitlist_count = (
+        SELECT COUNT(*)
+        FROM event_rsvps
+        WHERE event_id = COALESCE(NEW.event_id, OLD.event_id)
+        AND status = 'waitlist'
+    ),
+    updated_at = NOW()
+    WHERE event_id = COALESCE(NEW.event_id, OLD.event_id);
+
+    RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql;
+
+-- Offer free places to the front of the waitlist. The event_capacity row lock
+-- serialises concurrent calls for an event (two cancellations landing together),
+-- and places are counted from event_rsvps inside the lock rather than from the
+-- denormalised counts. Strictly first-come-first-served: a party too large for
+-- the free places waits at the front rather than being skipped.
+-- The event id takes event_capacity's column type, so running this again after
+-- 20261020_recurring_events.sql (which makes it TEXT) replaces that function
+-- instead of adding a UUID overload beside it.
+DROP FUNCTION IF EXISTS promote_waitlist(UUID, TIMESTAMPTZ);
+
+CREATE OR REPLACE FUNCTION promote_waitlist(p_event_id event_capacity.event_id%TYPE, p_offer_expires_at TIMESTAMPTZ)
+RETURNS SETOF event_rsvps AS $$
+DECLARE
+    v_capacity event_capacity%ROWTYPE;
+    v_free INTEGER;
+    v_next event_rsvps%ROWTYPE;
+BEGIN
+    SELECT * INTO v_capacity FROM event_capacity WHERE event_id = p_event_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN;
+    END IF;
+
+    IF v_capacity.max_capacity IS NULL THEN
+        v_free := NULL;
+    ELSE
+        SELECT v_capacity.max_capacity - COALESCE(SUM(1 + guest_count), 0) INTO v_free
+        FROM event_rsvps
+        WHERE event_id = p_event_id AND status IN ('confirmed', 'offered');
+    END IF;
+
+    LOOP
+        SELECT * INTO v_next
+        FROM event_rsvps
+        WHERE event_id = p_event_id AND status = 'waitlist'
+        ORDER BY created_at ASC, id ASC
+        LIMIT 1
+        FOR UPDATE;
+
+        EXIT WHEN NOT FOUND;
+        EXIT WHEN v_free IS NOT NULL AND v_free < 1 + v_next.guest_count;
+
+        UPDATE event_rsvps
+        SET status = 'offered', offered_at = NOW(), offer_expires_at = p_offer_expires_at
+        WHERE id = v_next.id
+        RETURNING * INTO v_next;
+
+        IF v_free IS NOT NULL THEN
+            v_free := v_free - (1 + v_next.guest_count);
+        END IF;
+
+        RETURN NEXT v_next;
+    END LOOP;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Lapse every offer past its window; the caller promotes the next people for each event
+CREATE OR REPLACE FUNCTION expire_waitlist_offers(p_now TIMESTAMPTZ)
+RETURNS SETOF event_rsvps AS $$
+    UPDATE event_rsvps
+    SET status = 'offer_expired'
+    WHERE status = 'offered' AND offer_expires_at <= p_now
+    RETURNING *;
+$$ LANGUAGE sql;
@@ -0,0 +1,25 @@
+-- ══════════════════════════════════════════════════
+-- Wellness Assessment Results
+-- Created: 2026-10-19
+-- Purpose: Persist scored wellness assessment sections
+--          so progress reflects real history
+-- ══════════════════════════════════════════════════
+
+-- One row per completed section; retakes add new rows
+CREATE TABLE IF NOT EXISTS wellness_assessment_results (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  section_id TEXT NOT NULL,
+  score NUMERIC(5, 1) NOT NULL CHECK (score >= 0 AND score <= 100),
+  answers JSONB NOT NULL DEFAULT '{}'::jsonb,
+  insights JSONB NOT NULL DEFAULT '[]'::jsonb,
+  recommendations JSONB NOT NULL DEFAULT '[]'::jsonb,
+  completed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_wellness_results_user_completed ON wellness_assessment_results(user_id, completed_at);
+CREATE INDEX IF NOT EXISTS idx_wellness_results_section ON wellness_assessment_results(section_id);
+
+-- Wellness answers are personal data: service role only
+ALTER TABLE wellness_assessment_results ENABLE ROW LEVEL SECURITY;
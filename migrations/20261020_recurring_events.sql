@@ -0,0 +1,73 @@
+-- ══════════════════════════════════════════════════
+-- Recurring Events
+-- Created: 2026-10-20
+-- Purpose: RRULE series with excluded dates, and RSVPs, capacity
+--          and check-ins per occurrence
+-- ══════════════════════════════════════════════════
+
+-- RFC 5545 RRULE body (e.g. FREQ=WEEKLY;BYDAY=TH), expanded from events.date.
+-- recurrence_until is the last occurrence, NULL for a series with no end,
+-- so upcoming queries can skip finished series without expanding them.
+ALTER TABLE events ADD COLUMN IF NOT EXISTS recurrence_rule TEXT;
+ALTER TABLE events ADD COLUMN IF NOT EXISTS recurrence_exdates DATE[] NOT NULL DEFAULT '{}';
+ALTER TABLE events ADD COLUMN IF NOT EXISTS recurrence_until DATE;
+
+CREATE INDEX IF NOT EXISTS idx_events_recurring
+  ON events(recurrence_until) WHERE recurrence_rule IS NOT NULL;
+
+-- An occurrence is booked under '<series id>~YYYY-MM-DD', so each date keeps
+-- its own RSVPs, capacity counts, waitlist and check-ins
+ALTER TABLE event_rsvps ALTER COLUMN event_id TYPE TEXT USING event_id::text;
+ALTER TABLE event_capacity ALTER COLUMN event_id TYPE TEXT USING event_id::text;
+ALTER TABLE ticket_checkins ALTER COLUMN event_id TYPE TEXT USING event_id::text;
+ALTER TABLE shop_products ALTER COLUMN event_id TYPE TEXT USING event_id::text;
+ALTER TABLE shop_order_items ALTER COLUMN event_id TYPE TEXT USING event_id::text;
+
+-- Unchanged apart from taking the TEXT event id
+DROP FUNCTION IF EXISTS promote_waitlist(UUID, TIMESTAMPTZ);
+
+CREATE OR REPLACE FUNCTION promote_waitlist(p_event_id TEXT, p_offer_expires_at TIMESTAMPTZ)
+RETURNS SETOF event_rsvps AS $$
+DECLARE
+    v_capacity event_capacity%ROWTYPE;
+    v_free INTEGER;
+    v_next event_rsvps%ROWTYPE;
+BEGIN
+    SELECT * INTO v_capacity FROM event_capacity WHERE event_id = p_event_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN;
+    END IF;
+
+    IF v_capacity.max_capacity IS NULL THEN
+        v_free := NULL;
+    ELSE
+        SELECT v_capacity.max_capacity - COALESCE(SUM(1 + guest_count), 0) INTO v_free
+        FROM event_rsvps
+        WHERE event_id = p_event_id AND status IN ('confirmed', 'offered');
+    END IF;
+
+    LOOP
+        SELECT * INTO v_next
+        FROM event_rsvps
+        WHERE event_id = p_event_id AND status = 'waitlist'
+        ORDER BY created_at ASC, id ASC
+        LIMIT 1
+        FOR UPDATE;
+
+        EXIT WHEN NOT FOUND;
+        EXIT WHEN v_free IS NOT NULL AND v_free < 1 + v_next.guest_count;
+
+        UPDATE event_rsvps
+        SET status = 'offered', offered_at = NOW(), offer_expires_at = p_offer_expires_at
+        WHERE id = v_next.id
+        RETURNING * INTO v_next;
+
+        IF v_free IS NOT NULL THEN
+            v_free := v_free - (1 + v_next.guest_count);
+        END IF;
+
+        RETURN NEXT v_next;
+    END LOOP;
+END;
+$$ LANGUAGE plpgsql;
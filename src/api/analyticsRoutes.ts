@@ -6,12 +6,14 @@
  */
 
 import { Router, Request, Response } from 'express';
+import { hasRole } from '../lib/auth.js';
+import { AnalyticsError, AnalyticsReport, TrendPoint, getAnalyticsService } from '../services/AnalyticsService.js';
+import { OrganizerError, getOrganizerService } from '../services/OrganizerService.js';
 
 const router = Router();
 
 // In-memory stores for demo mode
 const platformAnalytics = new Map<string, any>();
-const eventAnalytics = new Map<string, any>();
 const userAnalytics = new Map<string, any>();
 const geographicAnalytics = new Map<string, any>();
 const categoryAnalytics = new Map<string, any>();
@@ -23,6 +25,16 @@ function getDateKey(date: Date = new Date()): string {
   return date.toISOString().split('T')[0];
 }
 
+// Helper to turn a period query ('7d', '30d', '90d') into days
+function periodDays(period: string, fallback: number): number {
+  return period === '7d' ? 7 : period === '30d' ? 30 : period === '90d' ? 90 : fallback;
+}
+
+// Helper to pick one series out of an aggregated report's trend
+function trendSeries(report: AnalyticsReport, metric: keyof Omit<TrendPoint, 'date'>) {
+  return report.trends.map(point => ({ date: point.date, value: point[metric] }));
+}
+
 // Helper to generate historical data
 function generateHistoricalData(days: number = 30) {
   const data = [];
@@ -112,8 +124,8 @@ router.get('/platform', async (req: Request, res: Response) => {
     const today = getDateKey();
     const current = platformAnalytics.get(today) || {};
 
-    // Generate trend data
-    const days = period === '7d' ? 7 : period === '90d' ? 90 : 30;
+    // Trends come from the nightly rollup of tracked activity
+    const report = await getAnalyticsService().platformReport({ days: periodDays(period, 30) });
 
     const analytics = {
       current: {
@@ -127,11 +139,13 @@ router.get('/platform', async (req: Request, res: Response) => {
         liberationScore: current.liberationScore || 87.5,
         engagementRate: current.engagementRate || 0.68
       },
+      activity: report.totals,
+      funnel: report.funnel,
       trends: {
-        users: generateHistoricalData(days),
-        events: generateHistoricalData(days),
-        rsvps: generateHistoricalData(days),
-        engagement: generateHistoricalData(days).map(d => ({ ...d, value: (d.value / 100).toFixed(2) }))
+        views: trendSeries(report, 'views'),
+        rsvps: trendSeries(report, 'rsvps'),
+        checkIns: trendSeries(report, 'checkIns'),
+        ticketsSold: trendSeries(report, 'ticketsSold')
       },
       growth: {
         usersGrowth: 12.5,
@@ -139,7 +153,9 @@ router.get('/platform', async (req: Request, res: Response) => {
         rsvpsGrowth: 15.2,
         engagementGrowth: 5.8
       },
-      period
+      period,
+      from: report.from,
+      to: report.to
     };
 
     res.json({ success: true, analytics });
@@ -179,51 +195,53 @@ router.get('/platform/summary', async (req: Request, res: Response) => {
 
 /**
  * GET /api/analytics/event/:eventId
- * Get analytics for a specific event
+ * Get analytics for a specific event (its owner, co-hosts and analysts, or moderators)
+ * Query: period ('7d' | '30d' | '90d')
  */
 router.get('/event/:eventId', async (req: Request, res: Response) => {
   try {
     const { eventId } = req.params;
     const period = req.query.period as string || '7d';
-    const days = period === '7d' ? 7 : period === '30d' ? 30 : 90;
 
-    // Generate demo event analytics
+    if (!hasRole(req.auth, ['moderator'])) {
+      await getOrganizerService().requirePermission(eventId, req.auth?.userId, 'view_analytics');
+    }
+
+    const report = await getAnalyticsService().eventReport(eventId, { days: periodDays(period, 90) });
+    const { totals } = report;
+
     const analytics = {
       eventId,
       overview: {
-        totalViews: Math.floor(Math.random() * 500) + 100,
-        uniqueViews: Math.floor(Math.random() * 300) + 50,
-        totalRsvps: Math.floor(Math.random() * 100) + 20,
-        checkIns: Math.floor(Math.random() * 80) + 15,
-        shares: Math.floor(Math.random() * 50) + 5,
-        saves: Math.floor(Math.random() * 30) + 3,
-        conversionRate: (Math.random() * 0.3 + 0.1).toFixed(2),
-        liberationImpact: (Math.random() * 20 + 75).toFixed(1)
+        totalViews: totals.views,
+        uniqueViews: totals.uniqueViews,
+        clicks: totals.clicks,
+        totalRsvps: totals.rsvps,
+        cancellations: totals.cancellations,
+        checkIns: totals.checkIns,
+        ticketsSold: totals.ticketsSold,
+        revenue: (totals.revenuePence / 100).toFixed(2),
+        shares: totals.shares,
+        saves: totals.saves,
+        conversionRate: report.funnel[1].rate
       },
+      funnel: report.funnel,
       trends: {
-        views: generateHistoricalData(days),
-        rsvps: generateHistoricalData(days).map(d => ({ ...d, value: Math.floor(d.value / 10) })),
-        engagement: generateHistoricalData(days).map(d => ({ ...d, value: (d.value / 100).toFixed(2) }))
-      },
-      demographics: {
-        regions: [
-          { name: 'London', percentage: 45 },
-          { name: 'Manchester', percentage: 20 },
-          { name: 'Birmingham', percentage: 15 },
-          { name: 'Other', percentage: 20 }
-        ],
-        referrals: [
-          { source: 'Direct', percentage: 35 },
-          { source: 'Social Media', percentage: 30 },
-          { source: 'Email', percentage: 20 },
-          { source: 'Partner Sites', percentage: 15 }
-        ]
+        views: trendSeries(report, 'views'),
+        rsvps: trendSeries(report, 'rsvps'),
+        checkIns: trendSeries(report, 'checkIns'),
+        ticketsSold: trendSeries(report, 'ticketsSold')
       },
-      period
+      period,
+      from: report.from,
+      to: report.to
     };
 
     res.json({ success: true, analytics });
   } catch (error) {
+    if (error instanceof OrganizerError) {
+      return res.status(error.status).json({ success: false, error: error.message });
+    }
     console.error('[Analytics] Event error:', error);
     res.status(500).json({ success: false, error: 'Failed to fetch event analytics' });
   }
@@ -231,32 +249,30 @@ router.get('/event/:eventId', async (req: Request, res: Response) => {
 
 /**
  * POST /api/analytics/event/:eventId/track
- * Track an event interaction (view, share, save)
+ * Track an event interaction (view, share, save, click)
+ * Body: { action, userId?, sessionId?, source? }
  */
 router.post('/event/:eventId/track', async (req: Request, res: Response) => {
   try {
     const { eventId } = req.params;
-    const { action, userId } = req.body;
+    const { action, userId, sessionId, source } = req.body;
 
     if (!['view', 'share', 'save', 'click'].includes(action)) {
       return res.status(400).json({ success: false, error: 'Invalid action' });
     }
 
-    const key = `${eventId}-${getDateKey()}`;
-    const existing = eventAnalytics.get(key) || {
+    const tracked = await getAnalyticsService().track({
       eventId,
-      date: getDateKey(),
-      views: 0,
-      shares: 0,
-      saves: 0,
-      clicks: 0
-    };
-
-    existing[`${action}s`] = (existing[`${action}s`] || 0) + 1;
-    eventAnalytics.set(key, existing);
+      kind: action,
+      actorKey: req.auth?.userId || userId || sessionId,
+      source
+    });
 
-    res.json({ success: true, tracked: { eventId, action, timestamp: new Date().toISOString() } });
+    res.json({ success: true, tracked: { eventId, action, timestamp: tracked.occurredAt.toISOString() } });
   } catch (error) {
+    if (error instanceof AnalyticsError) {
+      return res.status(error.status).json({ success: false, error: error.message });
+    }
     res.status(500).json({ success: false, error: 'Failed to track event' });
   }
 });
@@ -693,15 +709,19 @@ router.get('/export', async (req: Request, res: Response) => {
     let data: any = {};
 
     switch (type) {
-      case 'platform':
+      case 'platform': {
+        const report = await getAnalyticsService().platformReport({ days });
         data = {
           type: 'platform',
           period: `${days} days`,
           exportedAt: new Date().toISOString(),
           metrics: platformAnalytics.get(getDateKey()) || {},
-          trends: generateHistoricalData(days)
+          activity: report.totals,
+          funnel: report.funnel,
+          trends: report.trends
         };
         break;
+      }
       case 'liberation':
         data = {
           type: 'liberation',
@@ -13,6 +13,15 @@
 import express from 'express';
 import axios from 'axios';
 import crypto from 'crypto';
+import {
+  LONDON_VTIMEZONE,
+  expandEventRows,
+  icsTimingLines,
+  isOccurrence,
+  parseOccurrenceId,
+  upcomingEventsFilter
+} from '../lib/recurrence.js';
+import { GroupError, getGroupService } from '../services/GroupService.js';
 
 const router = express.Router();
 
@@ -26,6 +35,47 @@ const BASE_URL = process.env.BASE_URL || 'https://ivor.blkoutuk.cloud';
 // In-memory feeds for demo mode
 const demoFeeds: Map<string, any> = new Map();
 
+const FEED_SELECT = 'id,title,description,date,end_date,start_time,end_time,location,organizer_name,recurrence_rule,recurrence_exdates';
+
+/**
+ * One date of a recurring event as a standalone event, for RSVP feeds and
+ * downloads of a single occurrence
+ */
+function asOccurrence(event: any, date: string): any | null {
+  if (!isOccurrence(event, date)) return null;
+  const [occurrence] = expandEventRows([event], { from: date, to: date });
+  return { ...occurrence, id: occurrence.occurrence_id, recurrence_rule: null, recurrence_exdates: [] };
+}
+
+/** The VTIMEZONE a calendar needs when any of its events uses London local time */
+function timezoneLines(timingLines: string[]): string[] {
+  return timingLines.some(line => line.includes(';TZID=')) ? LONDON_VTIMEZONE : [];
+}
+
+/** Upcoming approved events owned by any of the groups */
+async function fetchGroupEvents(groupIds: string[]): Promise<any[]> {
+  if (groupIds.length === 0) return [];
+
+  const response = await axios.get(
+    `${SUPABASE_URL}/rest/v1/events`,
+    {
+      params: {
+        group_id: `in.(${groupIds.join(',')})`,
+        status: 'eq.approved',
+        or: `(${upcomingEventsFilter(new Date().toISOString().slice(0, 10))})`,
+        select: FEED_SELECT,
+        order: 'date.asc',
+        limit: 100
+      },
+      headers: {
+        'apikey': SUPABASE_KEY,
+        'Authorization': `Bearer ${SUPABASE_KEY}`
+      }
+    }
+  );
+  return response.data || [];
+}
+
 /**
  * Generate ICS content for an event
  */
@@ -38,8 +88,7 @@ function generateICS(event: any, includeReminder = true): string {
     return date.toISOString().replace(/[-:]/g, '').split('.')[0] + 'Z';
   };
 
-  const eventDate = new Date(event.date);
-  const endDate = new Date(eventDate.getTime() + 3 * 60 * 60 * 1000); // Default 3 hours
+  const timing = icsTimingLines(event);
 
   // Escape special characters
   const escapeICS = (text: string) => {
@@ -59,11 +108,11 @@ function generateICS(event: any, includeReminder = true): string {
     'METHOD:PUBLISH',
     'X-WR-CALNAME:BLKOUT Events',
     'X-WR-CALDESC:Black queer liberation events',
+    ...timezoneLines(timing),
     'BEGIN:VEVENT',
     `UID:${uid}`,
     `DTSTAMP:${formatICSDate(now)}`,
-    `DTSTART:${formatICSDate(eventDate)}`,
-    `DTEND:${formatICSDate(endDate)}`,
+    ...timing,
     `SUMMARY:${escapeICS(event.title)}`,
     `DESCRIPTION:${escapeICS(event.description || event.excerpt || '')}\\n\\n🏴‍☠️ BLKOUT Liberation Event`,
     `LOCATION:${escapeICS(event.location || 'TBA')}`,
@@ -123,17 +172,17 @@ function generateFeedICS(events: any[], feedName = 'BLKOUT Events'): string {
     'REFRESH-INTERVAL;VALUE=DURATION:PT1H'
   ];
 
-  events.forEach(event => {
+  const timings = events.map(event => icsTimingLines(event));
+  ics.push(...timezoneLines(timings.flat()));
+
+  events.forEach((event, i) => {
     const uid = `${event.id}@blkoutuk.cloud`;
-    const eventDate = new Date(event.date);
-    const endDate = new Date(eventDate.getTime() + 3 * 60 * 60 * 1000);
 
     ics.push(
       'BEGIN:VEVENT',
       `UID:${uid}`,
       `DTSTAMP:${formatICSDate(now)}`,
-      `DTSTART:${formatICSDate(eventDate)}`,
-      `DTEND:${formatICSDate(endDate)}`,
+      ...timings[i],
       `SUMMARY:${escapeICS(event.title)}`,
       `DESCRIPTION:${escapeICS(event.description || event.excerpt || '')}`,
       `LOCATION:${escapeICS(event.location || 'TBA')}`,
@@ -155,6 +204,8 @@ function generateFeedICS(events: any[], feedName = 'BLKOUT Events'): string {
 router.get('/event/:eventId.ics', async (req, res) => {
   try {
     const { eventId } = req.params;
+    // A single date of a recurring event downloads on its own; the series id gets the whole series
+    const occurrence = parseOccurrenceId(eventId);
 
     if (!SUPABASE_URL || !SUPABASE_KEY) {
       // Demo event
@@ -179,7 +230,7 @@ router.get('/event/:eventId.ics', async (req, res) => {
       `${SUPABASE_URL}/rest/v1/events`,
       {
         params: {
-          id: `eq.${eventId}`,
+          id: `eq.${occurrence.eventId}`,
           select: '*',
           limit: 1
         },
@@ -190,7 +241,8 @@ router.get('/event/:eventId.ics', async (req, res) => {
       }
     );
 
-    const event = response.data?.[0];
+    const series = response.data?.[0];
+    const event = series && occurrence.date ? asOccurrence(series, occurrence.date) : series;
 
     if (!event) {
       return res.status(404).json({
@@ -252,8 +304,8 @@ router.get('/feed/public', async (req, res) => {
       {
         params: {
           status: 'in.(approved,published)',
-          date: `gte.${new Date().toISOString()}`,
-          select: 'id,title,description,date,location,organizer_name',
+          or: `(${upcomingEventsFilter(new Date().toISOString().slice(0, 10))})`,
+          select: FEED_SELECT,
           order: 'date.asc',
           limit
         },
@@ -280,6 +332,47 @@ router.get('/feed/public', async (req, res) => {
   }
 });
 
+/**
+ * GET /api/calendar/feed/group/:groupId
+ * Calendar feed of a public group's upcoming events. Members of private groups
+ * subscribe to a personal feed of type 'groups' instead.
+ */
+router.get('/feed/group/:groupId', async (req, res) => {
+  try {
+    if (!SUPABASE_URL || !SUPABASE_KEY) {
+      const ics = generateFeedICS([], 'BLKOUT Group Events');
+      res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+      return res.send(ics);
+    }
+
+    // Feed readers can't sign in, so only public groups have an open feed
+    const group = await getGroupService().requireGroup(req.params.groupId);
+    if (group.visibility !== 'public') {
+      return res.status(404).json({
+        success: false,
+        error: 'Feed not found'
+      });
+    }
+
+    const events = await fetchGroupEvents([group.id]);
+    const ics = generateFeedICS(events, `${group.name} | BLKOUT`);
+
+    res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+    return res.send(ics);
+
+  } catch (error: any) {
+    if (error instanceof GroupError) {
+      return res.status(error.status).json({ success: false, error: error.message });
+    }
+    console.error('[Calendar] Group feed error:', error.message);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to generate calendar feed',
+      message: error.message
+    });
+  }
+});
+
 /**
  * GET /api/calendar/feed/:token
  * Get personalized calendar feed by token
@@ -363,15 +456,17 @@ router.get('/feed/:token', async (req, res) => {
         }
       );
 
-      const eventIds = (rsvpResponse.data || []).map((r: any) => r.event_id);
+      // RSVPs to a recurring event are to one date of it, held as an occurrence id
+      const rsvps = (rsvpResponse.data || []).map((r: any) => parseOccurrenceId(r.event_id));
+      const seriesIds = [...new Set(rsvps.map((r: any) => r.eventId))];
 
-      if (eventIds.length > 0) {
+      if (seriesIds.length > 0) {
         const eventsResponse = await axios.get(
           `${SUPABASE_URL}/rest/v1/events`,
           {
             params: {
-              id: `in.(${eventIds.join(',')})`,
-              select: 'id,title,description,date,location,organizer_name',
+              id: `in.(${seriesIds.join(',')})`,
+              select: FEED_SELECT,
               order: 'date.asc'
             },
             headers: {
@@ -380,8 +475,22 @@ router.get('/feed/:token', async (req, res) => {
             }
           }
         );
-        events = eventsResponse.data || [];
+        const byId = new Map((eventsResponse.data || []).map((e: any) => [e.id, e]));
+        events = rsvps
+          .map((r: any) => {
+            const event = byId.get(r.eventId);
+            return event && r.date ? asOccurrence(event, r.date) : event;
+          })
+          .filter(Boolean)
+          .sort((a: any, b: any) => a.date.localeCompare(b.date));
       }
+    } else if (feed.feed_type === 'groups') {
+      // Events of every group the user is an active member of, private ones included
+      const memberships = await getGroupService().listForUser(feed.user_id);
+      const groupIds = memberships
+        .filter(({ membership }) => membership.status === 'active')
+        .map(({ group }) => group.id);
+      events = await fetchGroupEvents(groupIds);
     } else {
       // Get all upcoming events
       const eventsResponse = await axios.get(
@@ -389,8 +498,8 @@ router.get('/feed/:token', async (req, res) => {
         {
           params: {
             status: 'in.(approved,published)',
-            date: `gte.${new Date().toISOString()}`,
-            select: 'id,title,description,date,location,organizer_name',
+            or: `(${upcomingEventsFilter(new Date().toISOString().slice(0, 10))})`,
+            select: FEED_SELECT,
             order: 'date.asc',
             limit: 100
           },
@@ -403,7 +512,8 @@ router.get('/feed/:token', async (req, res) => {
       events = eventsResponse.data || [];
     }
 
-    const feedName = feed.feed_type === 'rsvp' ? 'My BLKOUT Events' : 'BLKOUT Events';
+    const feedName = feed.feed_type === 'rsvp' ? 'My BLKOUT Events'
+      : feed.feed_type === 'groups' ? 'My BLKOUT Groups' : 'BLKOUT Events';
     const ics = generateFeedICS(events, feedName);
 
     res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
@@ -508,10 +618,11 @@ router.get('/links/:eventId', async (req, res) => {
         location: 'London, UK'
       };
     } else {
+      const occurrence = parseOccurrenceId(eventId);
       const response = await axios.get(
         `${SUPABASE_URL}/rest/v1/events`,
         {
-          params: { id: `eq.${eventId}`, select: '*', limit: 1 },
+          params: { id: `eq.${occurrence.eventId}`, select: '*', limit: 1 },
           headers: {
             'apikey': SUPABASE_KEY,
             'Authorization': `Bearer ${SUPABASE_KEY}`
@@ -519,6 +630,9 @@ router.get('/links/:eventId', async (req, res) => {
         }
       );
       event = response.data?.[0];
+      if (event && occurrence.date) {
+        event = asOccurrence(event, occurrence.date);
+      }
     }
 
     if (!event) {
@@ -13,6 +13,8 @@
 
 import express from 'express';
 import axios from 'axios';
+import { expandEventRows, upcomingEventsFilter } from '../lib/recurrence.js';
+import { trackEventMetric } from '../services/AnalyticsService.js';
 
 const router = express.Router();
 
@@ -24,6 +26,9 @@ const SUPABASE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.SUPABA
 const demoInteractions: any[] = [];
 const demoPreferences: Map<string, any> = new Map();
 
+// Interactions with events that also feed event analytics (RSVPs are logged by the RSVP routes)
+const EVENT_METRIC_INTERACTIONS = ['view', 'click', 'share', 'save'] as const;
+
 // Liberation score thresholds
 const LIBERATION_THRESHOLDS = {
   HIGH_ALIGNMENT: 70,    // Content strongly aligned with values
@@ -31,6 +36,15 @@ const LIBERATION_THRESHOLDS = {
   BOOST_MULTIPLIER: 1.5  // Boost for high-liberation content
 };
 
+// Recurring events are recommended once, at their next occurrence within a year
+const nextOccurrences = (events: any[]) => {
+  const today = new Date().toISOString().split('T')[0];
+  const yearAhead = new Date(Date.now() + 366 * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+  return events.flatMap(event => event.recurrence_rule
+    ? expandEventRows([event], { from: today, to: yearAhead, perSeries: 1 })
+    : [{ ...event, occurrence_id: event.id }]);
+};
+
 /**
  * POST /api/discover/track
  * Track user interaction with content
@@ -67,6 +81,11 @@ router.post('/track', async (req, res) => {
       created_at: new Date().toISOString()
     };
 
+    const metric = EVENT_METRIC_INTERACTIONS.find(kind => kind === interactionType);
+    if (contentType === 'event' && metric) {
+      await trackEventMetric(String(contentId), metric, { actorKey: interaction.user_id, source: interaction.source });
+    }
+
     if (!SUPABASE_URL || !SUPABASE_KEY) {
       // Demo mode
       demoInteractions.push(interaction);
@@ -146,7 +165,7 @@ router.get('/events/for-you', async (req, res) => {
       }
     );
 
-    let events = eventsResponse.data || [];
+    let events = nextOccurrences(eventsResponse.data || []);
 
     // Get user preferences if userId provided
     let userPrefs = null;
@@ -275,7 +294,7 @@ router.get('/events/trending', async (req, res) => {
         params: {
           status: 'in.(approved,published)',
           select: '*',
-          'date': `gte.${new Date().toISOString()}`,
+          or: `(${upcomingEventsFilter(new Date().toISOString().split('T')[0])})`,
           order: 'created_at.desc',
           limit: 50
         },
@@ -312,7 +331,7 @@ router.get('/events/trending', async (req, res) => {
     });
 
     // Score events
-    const scoredEvents = (eventsResponse.data || []).map((event: any) => ({
+    const scoredEvents = nextOccurrences(eventsResponse.data || []).map((event: any) => ({
       ...event,
       _trendingScore: (interactionCounts[event.id] || 0) +
         ((event.liberation_score || 50) / 10) // Liberation boost
@@ -374,7 +393,7 @@ router.get('/events/nearby', async (req, res) => {
         params: {
           status: 'in.(approved,published)',
           select: '*',
-          'date': `gte.${new Date().toISOString()}`,
+          or: `(${upcomingEventsFilter(new Date().toISOString().split('T')[0])})`,
           limit: 100
         },
         headers: {
@@ -388,7 +407,7 @@ router.get('/events/nearby', async (req, res) => {
     // (In production, use proper geocoding)
     const ukCities = ['london', 'manchester', 'birmingham', 'leeds', 'glasgow', 'liverpool', 'bristol', 'nottingham'];
 
-    const nearbyEvents = (eventsResponse.data || []).filter((event: any) => {
+    const nearbyEvents = nextOccurrences(eventsResponse.data || []).filter((event: any) => {
       if (!event.location) return false;
       const loc = event.location.toLowerCase();
       return ukCities.some(city => loc.includes(city));
@@ -642,9 +661,9 @@ router.get('/news/digest', async (req, res) => {
       {
         params: {
           status: 'in.(approved,published)',
-          'date': `gte.${new Date().toISOString()}`,
+          or: `(${upcomingEventsFilter(new Date().toISOString().split('T')[0])})`,
           'liberation_score': `gte.${LIBERATION_THRESHOLDS.MEDIUM_ALIGNMENT}`,
-          select: 'id,title,date,location,liberation_score',
+          select: 'id,title,date,location,liberation_score,recurrence_rule,recurrence_exdates',
           order: 'liberation_score.desc,date.asc',
           limit: 5
         },
@@ -661,7 +680,7 @@ router.get('/news/digest', async (req, res) => {
         period: 'weekly',
         generatedAt: new Date().toISOString(),
         articles: articlesResponse.data || [],
-        events: eventsResponse.data || [],
+        events: nextOccurrences(eventsResponse.data || []),
         message: '🏴‍☠️ Your weekly liberation digest - content centered on Black queer joy and power'
       }
     });
@@ -164,7 +164,10 @@ router.put('/reports/:reportId', async (req, res) => {
  */
 router.post('/action', async (req, res) => {
   try {
-    const { eventId, action, reason, notes, moderatorId, moderatorName } = req.body
+    const { eventId, action, reason, notes } = req.body
+    // Attribute the action to the authenticated moderator rather than trusting the body
+    const moderatorId = req.auth?.userId || req.body.moderatorId
+    const moderatorName = req.body.moderatorName || req.auth?.email
 
     if (!eventId || !action || !moderatorId) {
       return res.status(400).json({
@@ -12,6 +12,20 @@
 
 import express from 'express';
 import axios from 'axios';
+import {
+  RecurrenceError,
+  expandEventRows,
+  expandOccurrences,
+  formatRRule,
+  lastOccurrence,
+  parseOccurrenceId,
+  parseRRule,
+  upcomingEventsFilter
+} from '../lib/recurrence.js';
+import { hasRole } from '../lib/auth.js';
+import { GroupEventRow, getGroupEventService } from '../services/GroupEventService.js';
+import { GroupError } from '../services/GroupService.js';
+import { getOrganizerService } from '../services/OrganizerService.js';
 
 const router = express.Router();
 
@@ -19,6 +33,45 @@ const router = express.Router();
 const SUPABASE_URL = process.env.SUPABASE_URL || '';
 const SUPABASE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.SUPABASE_ANON_KEY || '';
 
+/**
+ * Let a group's members know about its newly published event. A failure is
+ * logged rather than failing the submission or approval.
+ */
+async function notifyGroup(event: GroupEventRow | undefined): Promise<void> {
+  if (!event?.group_id) return;
+  try {
+    await getGroupEventService().notifyMembers(event);
+  } catch (error: any) {
+    console.error('[Events] Group notification failed:', error.message);
+  }
+}
+
+interface RecurrenceColumns {
+  recurrence_rule: string | null;
+  recurrence_exdates: string[];
+  recurrence_until: string | null;
+}
+
+/**
+ * Recurring events: an RFC 5545 rule (e.g. FREQ=WEEKLY;BYDAY=TU) from `date`,
+ * minus any cancelled dates. Throws RecurrenceError for a bad rule or date.
+ */
+function recurrenceColumns(date: string, rrule: string | null | undefined, exdates: unknown = []): RecurrenceColumns {
+  if (!rrule) {
+    return { recurrence_rule: null, recurrence_exdates: [], recurrence_until: null };
+  }
+
+  const rule = parseRRule(rrule);
+  const exdateList: string[] = (Array.isArray(exdates) ? exdates : [exdates]).map((d: string) => String(d).slice(0, 10));
+  // Reads the start and exception dates, so bad ones fail here
+  expandOccurrences(date, rule, { exdates: exdateList, limit: 1 });
+  return {
+    recurrence_rule: formatRRule(rule),
+    recurrence_exdates: exdateList,
+    recurrence_until: lastOccurrence(date, rule, exdateList)
+  };
+}
+
 /**
  * Liberation validation for event submissions
  */
@@ -75,6 +128,7 @@ function validateEventLiberation(event: {
 /**
  * POST /api/events/submit
  * Submit a new event with liberation validation
+ * Body may include groupId to submit the event for a community group (group members only)
  */
 router.post('/submit', async (req, res) => {
   try {
@@ -90,7 +144,10 @@ router.post('/submit', async (req, res) => {
       source = 'community-submission',
       sourceUrl,
       submittedBy = 'community-member',
-      moreInfoUrl
+      moreInfoUrl,
+      rrule,
+      exdates = [],
+      groupId
     } = req.body;
 
     // Validation
@@ -102,6 +159,36 @@ router.post('/submit', async (req, res) => {
       });
     }
 
+    let recurrence: RecurrenceColumns;
+    try {
+      recurrence = recurrenceColumns(date, rrule, exdates);
+    } catch (error: any) {
+      if (!(error instanceof RecurrenceError)) throw error;
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        message: `Invalid recurrence: ${error.message}`
+      });
+    }
+
+    // Group events: any member can submit one for their group; those from the
+    // group's owners and admins are published without the moderation queue.
+    // Mock mode has no groups to check against.
+    let groupSubmission: { groupId: string; autoApprove: boolean } | null = null;
+    if (groupId && SUPABASE_URL && SUPABASE_KEY) {
+      try {
+        const { group, autoApprove } = await getGroupEventService().authorizeSubmission(String(groupId), req.auth?.userId);
+        groupSubmission = { groupId: group.id, autoApprove };
+      } catch (error) {
+        if (!(error instanceof GroupError)) throw error;
+        return res.status(error.status).json({
+          success: false,
+          error: 'Group event not allowed',
+          message: error.message
+        });
+      }
+    }
+
     // Liberation validation
     const liberationCheck = validateEventLiberation({
       title,
@@ -111,6 +198,8 @@ router.post('/submit', async (req, res) => {
 
     console.log('🏴‍☠️ [Events] Liberation validation:', liberationCheck);
 
+    const autoApproved = liberationCheck.recommendation === 'auto-approve' || !!groupSubmission?.autoApprove;
+
     // Prepare event data with liberation score
     const eventData = {
       title: title || 'Untitled Event',
@@ -124,8 +213,12 @@ router.post('/submit', async (req, res) => {
       tags: Array.isArray(tags) ? tags : (tags ? [tags] : []),
       organizer: organizer || 'Community',
       source: source,
-      status: liberationCheck.recommendation === 'auto-approve' ? 'approved' : 'pending',
+      status: autoApproved ? 'approved' : 'pending',
       liberation_score: Math.round(liberationCheck.liberationScore * 100), // Store as 0-100
+      ...recurrence,
+      // The signed-in submitter owns the event's organizing team
+      ...(req.auth?.userId ? { submitted_by: req.auth.userId } : {}),
+      ...(groupSubmission ? { group_id: groupSubmission.groupId } : {}),
       created_at: new Date().toISOString()
     };
 
@@ -141,6 +234,8 @@ router.post('/submit', async (req, res) => {
           id: `mock-${Date.now()}`,
           title,
           date,
+          recurrenceRule: recurrence.recurrence_rule,
+          groupId: groupId || null,
           status: eventData.status
         },
         liberation: {
@@ -167,15 +262,23 @@ router.post('/submit', async (req, res) => {
 
     console.log('✅ [Events] Event submitted:', response.data?.[0]?.id);
 
+    if (autoApproved) {
+      await notifyGroup(response.data?.[0]);
+    }
+
     return res.status(201).json({
       success: true,
-      message: liberationCheck.recommendation === 'auto-approve'
-        ? 'Event auto-approved (liberation-compliant community event)'
-        : 'Event submitted successfully and is pending approval',
+      message: groupSubmission?.autoApprove
+        ? 'Event published to your group'
+        : liberationCheck.recommendation === 'auto-approve'
+          ? 'Event auto-approved (liberation-compliant community event)'
+          : 'Event submitted successfully and is pending approval',
       data: {
         id: response.data?.[0]?.id,
         title,
         date,
+        recurrenceRule: recurrence.recurrence_rule,
+        groupId: groupSubmission?.groupId || null,
         status: eventData.status
       },
       liberation: {
@@ -197,7 +300,9 @@ router.post('/submit', async (req, res) => {
 
 /**
  * GET /api/events/upcoming
- * Get upcoming events
+ * Get upcoming events, with each occurrence of a recurring event listed
+ * separately (occurrence_id identifies it for RSVPs)
+ * Query: days (how far ahead to expand recurring events, default 90)
  */
 router.get('/upcoming', async (req, res) => {
   try {
@@ -210,15 +315,18 @@ router.get('/upcoming', async (req, res) => {
     }
 
     const today = new Date().toISOString().split('T')[0];
+    const days = Math.min(Math.max(parseInt(String(req.query.days || '')) || 90, 1), 366);
+    const horizon = new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
 
     const response = await axios.get(
       `${SUPABASE_URL}/rest/v1/events`,
       {
         params: {
           status: 'eq.approved',  // Database constraint allows: pending, approved
-          date: `gte.${today}`,
+          or: `(${upcomingEventsFilter(today)})`,
+          date: `lte.${horizon}`,
           order: 'date.asc',
-          limit: 50
+          limit: 100
         },
         headers: {
           'apikey': SUPABASE_KEY,
@@ -227,10 +335,12 @@ router.get('/upcoming', async (req, res) => {
       }
     );
 
+    const events = expandEventRows(response.data || [], { from: today, to: horizon }).slice(0, 50);
+
     return res.status(200).json({
       success: true,
-      events: response.data || [],
-      count: response.data?.length || 0
+      events,
+      count: events.length
     });
 
   } catch (error: any) {
@@ -288,6 +398,140 @@ router.get('/pending', async (req, res) => {
   }
 });
 
+/**
+ * PATCH /api/events/:id
+ * Edit an event's details (the event's owner and co-hosts, or moderators).
+ * A recurring event is edited as a whole series; sending `rrule: null` makes
+ * it a one-off. Changed text from anyone but a moderator is screened again,
+ * and goes back to the moderation queue if it raises concerns.
+ * Body: any of title, date, time, end_date, location, description, url, tags,
+ * organizer, rrule, exdates
+ */
+router.patch('/:id', async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    if (parseOccurrenceId(id).date) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        message: 'Edit the series rather than a single date'
+      });
+    }
+
+    const isModerator = hasRole(req.auth, ['moderator']);
+    if (!isModerator && !(await getOrganizerService().can(id, req.auth?.userId, 'edit'))) {
+      return res.status(403).json({
+        success: false,
+        error: 'Edit not allowed',
+        message: "Only the event's owner, its co-hosts or a moderator can edit it"
+      });
+    }
+
+    const body = req.body || {};
+    const changes: Record<string, any> = {};
+    for (const field of ['title', 'date', 'end_date', 'location', 'description', 'url', 'organizer']) {
+      if (body[field] !== undefined) changes[field] = body[field];
+    }
+    if (body.time !== undefined) changes.start_time = body.time || null;
+    if (body.tags !== undefined) changes.tags = Array.isArray(body.tags) ? body.tags : (body.tags ? [body.tags] : []);
+
+    if (changes.title !== undefined && !changes.title) {
+      return res.status(400).json({ success: false, error: 'Validation failed', message: 'Title cannot be empty' });
+    }
+    if (changes.date !== undefined && !changes.date) {
+      return res.status(400).json({ success: false, error: 'Validation failed', message: 'Date cannot be empty' });
+    }
+
+    if (!SUPABASE_URL || !SUPABASE_KEY) {
+      return res.status(200).json({
+        success: true,
+        message: 'Event updated (mock mode)',
+        data: { id, ...changes }
+      });
+    }
+
+    const headers = {
+      'apikey': SUPABASE_KEY,
+      'Authorization': `Bearer ${SUPABASE_KEY}`
+    };
+
+    const current = await axios.get(`${SUPABASE_URL}/rest/v1/events`, {
+      params: { id: `eq.${id}`, select: 'id,title,description,organizer,date,status,recurrence_rule,recurrence_exdates' },
+      headers
+    });
+    const event = current.data?.[0];
+    if (!event) {
+      return res.status(404).json({ success: false, error: 'Event not found' });
+    }
+
+    // The recurrence runs from the event's date, so a new date or rule is checked against both
+    if (body.rrule !== undefined || body.exdates !== undefined || (changes.date && event.recurrence_rule)) {
+      try {
+        Object.assign(changes, recurrenceColumns(
+          changes.date || event.date,
+          body.rrule !== undefined ? body.rrule : event.recurrence_rule,
+          body.exdates !== undefined ? body.exdates : event.recurrence_exdates || []
+        ));
+      } catch (error: any) {
+        if (!(error instanceof RecurrenceError)) throw error;
+        return res.status(400).json({
+          success: false,
+          error: 'Validation failed',
+          message: `Invalid recurrence: ${error.message}`
+        });
+      }
+    }
+
+    let liberation: ReturnType<typeof validateEventLiberation> | null = null;
+    if (!isModerator && ['title', 'description', 'organizer'].some(field => changes[field] !== undefined)) {
+      liberation = validateEventLiberation({
+        title: changes.title ?? event.title,
+        description: changes.description ?? event.description ?? '',
+        organizer: changes.organizer ?? event.organizer
+      });
+      if (!liberation.passed && event.status === 'approved') {
+        changes.status = 'pending';
+      }
+    }
+
+    if (Object.keys(changes).length === 0) {
+      return res.status(400).json({ success: false, error: 'Validation failed', message: 'No changes given' });
+    }
+
+    const response = await axios.patch(
+      `${SUPABASE_URL}/rest/v1/events`,
+      changes,
+      {
+        params: { id: `eq.${id}` },
+        headers: {
+          ...headers,
+          'Content-Type': 'application/json',
+          'Prefer': 'return=representation'
+        }
+      }
+    );
+
+    console.log('✏️ [Events] Event updated:', id);
+
+    return res.status(200).json({
+      success: true,
+      message: changes.status === 'pending'
+        ? 'Event updated and sent back for review'
+        : 'Event updated',
+      data: response.data?.[0] || { id, ...changes },
+      ...(liberation ? { liberation: { score: liberation.liberationScore, concerns: liberation.concerns } } : {})
+    });
+
+  } catch (error: any) {
+    console.error('[Events] Update error:', error.message);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to update event'
+    });
+  }
+});
+
 /**
  * POST /api/events/:id/approve
  * Approve a pending event
@@ -303,7 +547,7 @@ router.post('/:id/approve', async (req, res) => {
       });
     }
 
-    await axios.patch(
+    const response = await axios.patch(
       `${SUPABASE_URL}/rest/v1/events`,
       { status: 'approved' },  // Database constraint allows: pending, approved
       {
@@ -311,13 +555,17 @@ router.post('/:id/approve', async (req, res) => {
         headers: {
           'apikey': SUPABASE_KEY,
           'Authorization': `Bearer ${SUPABASE_KEY}`,
-          'Content-Type': 'application/json'
+          'Content-Type': 'application/json',
+          'Prefer': 'return=representation'
         }
       }
     );
 
     console.log('✅ [Events] Event approved:', id);
 
+    // Group events are announced to the group once they're published
+    await notifyGroup(response.data?.[0]);
+
     return res.status(200).json({
       success: true,
       message: 'Event approved and published'
@@ -1,15 +1,12 @@
 import express from 'express'
-import Groq from 'groq-sdk'
 import axios from 'axios'
+import { getLLMGateway } from '../lib/llmGateway.js'
 
 const router = express.Router()
 
 const WEBHOOK_SECRET = process.env.WEBHOOK_SECRET_TOKEN || ''
 
-// Initialize Groq client
-const groq = new Groq({
-  apiKey: process.env.GROQ_API_KEY || ''
-})
+const llm = getLLMGateway()
 
 // Supabase REST API configuration
 const SUPABASE_URL = (process.env.SUPABASE_URL || '').trim()
@@ -170,8 +167,8 @@ async function moderateEventContent(content: IncomingEvent): Promise<any> {
   const prompt = buildModerationPrompt(content)
 
   try {
-    const completion = await groq.chat.completions.create({
-      model: 'llama-3.3-70b-versatile',
+    const completion = await llm.complete({
+      useCase: 'event-moderation',
       messages: [
         {
           role: 'system',
@@ -181,13 +178,10 @@ async function moderateEventContent(content: IncomingEvent): Promise<any> {
           role: 'user',
           content: prompt
         }
-      ],
-      temperature: 0.3,
-      max_tokens: 600,
-      response_format: { type: 'json_object' }
+      ]
     })
 
-    const aiResponse = completion.choices[0]?.message?.content
+    const aiResponse = completion.content
     if (!aiResponse) {
       throw new Error('No response from AI model')
     }
@@ -0,0 +1,171 @@
+/**
+ * Problem-Solving Framework Routes
+ * Framework definitions, resumable step-by-step sessions with reflections,
+ * and exportable summaries of completed sessions.
+ *
+ * Session endpoints require sign-in (see routePermissions); a session can
+ * only be read or continued by the user who started it, or an admin.
+ */
+
+import { Router, Request, Response } from 'express'
+import { FrameworkRunnerService, FrameworkSessionError, StepSubmissionResult } from '../services/FrameworkRunnerService.js'
+import { trackActivity } from '../services/AchievementService.js'
+import { hasRole } from '../lib/auth.js'
+
+const router = Router()
+const frameworkRunner = new FrameworkRunnerService()
+
+/** Session-completing answers count towards achievements */
+async function trackCompletion(result: StepSubmissionResult) {
+  if (!result.accepted || !result.completed) return []
+  return trackActivity(result.session.userId, 'framework_completed', {
+    sourceId: result.session.id,
+    metadata: { frameworkId: result.session.frameworkId }
+  })
+}
+
+function handleError(res: Response, error: unknown, fallbackMessage: string) {
+  if (error instanceof FrameworkSessionError) {
+    return res.status(error.status).json({ success: false, error: error.message })
+  }
+  console.error(`[Frameworks] ${fallbackMessage}:`, error)
+  res.status(500).json({ success: false, error: fallbackMessage })
+}
+
+/** Owner check is skipped for admins */
+function ownerFilter(req: Request): string | undefined {
+  return req.auth && hasRole(req.auth, ['admin']) ? undefined : req.auth?.userId
+}
+
+/**
+ * GET /api/frameworks
+ * List available frameworks
+ */
+router.get('/', (req, res) => {
+  res.json({ success: true, frameworks: frameworkRunner.listFrameworks() })
+})
+
+/**
+ * GET /api/frameworks/sessions/user/:userId
+ * A user's sessions, most recent first (?status=active|completed)
+ */
+router.get('/sessions/user/:userId', async (req, res) => {
+  try {
+    const status = req.query.status === 'active' || req.query.status === 'completed' ? req.query.status : undefined
+    const sessions = await frameworkRunner.listSessions(req.params.userId, status)
+
+    res.json({ success: true, sessions })
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch framework sessions')
+  }
+})
+
+/**
+ * GET /api/frameworks/sessions/:sessionId
+ * Resume a session: progress, answers so far and the current step
+ */
+router.get('/sessions/:sessionId', async (req, res) => {
+  try {
+    const session = await frameworkRunner.getSession(req.params.sessionId, ownerFilter(req))
+
+    res.json({ success: true, session: frameworkRunner.describeSession(session) })
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch framework session')
+  }
+})
+
+/**
+ * POST /api/frameworks/sessions/:sessionId/steps/:stepId
+ * Answer a step. Body: { response }
+ */
+router.post('/sessions/:sessionId/steps/:stepId', async (req, res) => {
+  try {
+    const result = await frameworkRunner.submitStep(req.params.sessionId, ownerFilter(req), {
+      stepId: req.params.stepId,
+      response: req.body?.response
+    })
+
+    const achievementsUnlocked = await trackCompletion(result)
+
+    res.json({ success: true, ...result, achievementsUnlocked })
+  } catch (error) {
+    handleError(res, error, 'Failed to save framework step')
+  }
+})
+
+/**
+ * GET /api/frameworks/sessions/:sessionId/export?format=markdown|html
+ * Download the summary of a completed session
+ */
+router.get('/sessions/:sessionId/export', async (req, res) => {
+  try {
+    const format = req.query.format === 'html' ? 'html' : 'markdown'
+    const session = await frameworkRunner.getSession(req.params.sessionId, ownerFilter(req))
+    const summary = frameworkRunner.exportSummary(session, format)
+
+    res.setHeader('Content-Type', summary.contentType)
+    res.setHeader('Content-Disposition', `attachment; filename="${summary.filename}"`)
+    res.send(summary.body)
+  } catch (error) {
+    handleError(res, error, 'Failed to export framework summary')
+  }
+})
+
+/**
+ * GET /api/frameworks/:frameworkId
+ * Full framework definition with steps, guiding questions and criteria
+ */
+router.get('/:frameworkId', (req, res) => {
+  try {
+    res.json({ success: true, framework: frameworkRunner.getFramework(req.params.frameworkId) })
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch framework')
+  }
+})
+
+/**
+ * POST /api/frameworks/:frameworkId/sessions
+ * Start a session, or resume the active one for this framework
+ */
+router.post('/:frameworkId/sessions', async (req, res) => {
+  try {
+    const userId = req.auth?.userId || req.body?.userId
+    if (!userId) {
+      return res.status(400).json({ success: false, error: 'userId is required' })
+    }
+
+    const { session, resumed } = await frameworkRunner.startSession(userId, req.params.frameworkId)
+
+    res.status(resumed ? 200 : 201).json({ success: true, resumed, session })
+  } catch (error) {
+    handleError(res, error, 'Failed to start framework session')
+  }
+})
+
+/**
+ * POST /api/frameworks/:frameworkId/progress
+ * Legacy single-call progress: answers a step in the user's active session
+ * for this framework, starting one if needed. Body: { stepId?, response }
+ */
+router.post('/:frameworkId/progress', async (req, res) => {
+  try {
+    const userId = req.auth?.userId || req.body?.userId
+    if (!userId) {
+      return res.status(400).json({ success: false, error: 'userId is required' })
+    }
+
+    const { session } = await frameworkRunner.startSession(userId, req.params.frameworkId)
+    const result = await frameworkRunner.submitStep(session.id, userId, {
+      stepId: req.body?.stepId,
+      response: req.body?.response
+    })
+
+    const achievementsUnlocked = await trackCompletion(result)
+
+    res.json({ success: true, ...result, achievementsUnlocked })
+  } catch (error) {
+    handleError(res, error, 'Failed to save framework progress')
+  }
+})
+
+export default router
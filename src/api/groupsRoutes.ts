@@ -5,85 +5,214 @@
  * Liberation Feature: Collective organizing spaces
  */
 
-import { Router } from 'express'
+import { Response, Router } from 'express'
+import { trackActivity } from '../services/AchievementService.js'
+import { GroupDiscussionService, getGroupDiscussionService } from '../services/GroupDiscussionService.js'
+import { GroupPost, InMemoryGroupDiscussionStore, PostReport, REPORT_STATUSES, ReportStatus } from '../services/GroupDiscussionStore.js'
+import { GroupEventService, getGroupEventService } from '../services/GroupEventService.js'
+import { GroupError, GroupService, getGroupService } from '../services/GroupService.js'
+import { Group, GroupInvite, InMemoryGroupStore, Membership, MembershipStatus } from '../services/GroupStore.js'
+import { isSupabaseConfigured } from '../lib/supabaseClient.js'
 
 const router = Router()
 
-// In-memory stores for demo mode
-const groups = new Map<string, any>()
-const memberships = new Map<string, any[]>()
+const APP_URL = process.env.VITE_APP_URL || 'https://blkoutuk.com'
+const BASE_URL = process.env.BASE_URL || 'https://ivor.blkoutuk.cloud'
+
+// Demo mode keeps groups in memory, seeded with a few to browse
+let demoGroups: GroupService | null = null
+const getGroups = () => {
+  if (isSupabaseConfigured()) return getGroupService()
+  if (!demoGroups) {
+    const store = new InMemoryGroupStore()
+    seedGroups(store)
+    demoGroups = new GroupService(store)
+  }
+  return demoGroups
+}
 
-// Seed some demo groups
-const seedGroups = () => {
-  if (groups.size > 0) return
+let demoDiscussions: GroupDiscussionService | null = null
+const getDiscussions = () => {
+  if (isSupabaseConfigured()) return getGroupDiscussionService()
+  if (!demoDiscussions) {
+    demoDiscussions = new GroupDiscussionService(new InMemoryGroupDiscussionStore(), getGroups())
+  }
+  return demoDiscussions
+}
 
+// Demo mode has no events table, so demo groups list no events
+let demoEvents: GroupEventService | null = null
+const getGroupEvents = () => {
+  if (isSupabaseConfigured()) return getGroupEventService()
+  if (!demoEvents) {
+    demoEvents = new GroupEventService(getGroups(), null)
+  }
+  return demoEvents
+}
+
+// Seed some demo groups
+const seedGroups = (store: InMemoryGroupStore) => {
   const demoGroups = [
     {
       id: 'grp_london',
       name: 'BLKOUT London',
       slug: 'blkout-london',
       description: 'Community hub for Black queer folks in London',
-      visibility: 'public',
-      join_policy: 'open',
+      joinPolicy: 'open',
       category: 'Regional',
-      location_focus: 'London',
-      member_count: 234,
-      event_count: 45,
-      liberation_aligned: true,
-      created_by: 'system',
-      created_at: new Date('2024-01-01').toISOString()
+      locationFocus: 'London',
+      memberCount: 234,
+      eventCount: 45,
+      createdAt: new Date('2024-01-01')
     },
     {
       id: 'grp_manchester',
       name: 'BLKOUT Manchester',
       slug: 'blkout-manchester',
       description: 'Black queer community in Manchester',
-      visibility: 'public',
-      join_policy: 'open',
+      joinPolicy: 'open',
       category: 'Regional',
-      location_focus: 'Manchester',
-      member_count: 156,
-      event_count: 28,
-      liberation_aligned: true,
-      created_by: 'system',
-      created_at: new Date('2024-02-01').toISOString()
+      locationFocus: 'Manchester',
+      memberCount: 156,
+      eventCount: 28,
+      createdAt: new Date('2024-02-01')
     },
     {
       id: 'grp_creatives',
       name: 'Black Queer Creatives',
       slug: 'black-queer-creatives',
       description: 'Artists, writers, musicians, and creators',
-      visibility: 'public',
-      join_policy: 'open',
+      joinPolicy: 'open',
       category: 'Interest',
-      location_focus: 'UK-wide',
-      member_count: 89,
-      event_count: 12,
-      liberation_aligned: true,
-      created_by: 'system',
-      created_at: new Date('2024-03-01').toISOString()
+      locationFocus: 'UK-wide',
+      memberCount: 89,
+      eventCount: 12,
+      createdAt: new Date('2024-03-01')
     },
     {
       id: 'grp_wellness',
       name: 'Wellness & Healing',
       slug: 'wellness-healing',
       description: 'Mental health, self-care, and healing practices',
-      visibility: 'public',
-      join_policy: 'approval',
+      joinPolicy: 'approval',
       category: 'Wellness',
-      location_focus: 'UK-wide',
-      member_count: 67,
-      event_count: 18,
-      liberation_aligned: true,
-      created_by: 'system',
-      created_at: new Date('2024-04-01').toISOString()
+      locationFocus: 'UK-wide',
+      memberCount: 67,
+      eventCount: 18,
+      createdAt: new Date('2024-04-01')
     }
-  ]
+  ] as const
+
+  demoGroups.forEach(g => store.createGroup({
+    ...g,
+    visibility: 'public',
+    tags: [],
+    createdBy: 'system',
+    updatedAt: g.createdAt
+  }))
+}
+
+function handleGroupError(res: Response, error: unknown, fallbackMessage: string) {
+  if (error instanceof GroupError) {
+    return res.status(error.status).json({ success: false, error: error.message })
+  }
+  console.error(`[Groups] ${fallbackMessage}:`, error)
+  res.status(500).json({ success: false, error: fallbackMessage })
+}
+
+// Responses keep the community_groups row shape clients already read
+function groupJson(group: Group) {
+  return {
+    id: group.id,
+    name: group.name,
+    slug: group.slug,
+    description: group.description ?? null,
+    cover_image: group.coverImage ?? null,
+    visibility: group.visibility,
+    join_policy: group.joinPolicy,
+    category: group.category ?? null,
+    tags: group.tags,
+    location_focus: group.locationFocus ?? null,
+    community_guidelines: group.guidelines ?? null,
+    member_count: group.memberCount,
+    event_count: group.eventCount,
+    liberation_aligned: true,
+    created_by: group.createdBy,
+    created_at: group.createdAt.toISOString(),
+    updated_at: group.updatedAt.toISOString()
+  }
+}
+
+function membershipJson(membership: Membership) {
+  return {
+    group_id: membership.groupId,
+    user_id: membership.userId,
+    role: membership.role,
+    status: membership.status,
+    joined_at: membership.joinedAt.toISOString()
+  }
+}
+
+function inviteJson(invite: GroupInvite) {
+  return {
+    id: invite.id,
+    code: invite.code,
+    url: `${APP_URL}/groups/invite/${invite.code}`,
+    expiresAt: invite.expiresAt,
+    maxUses: invite.maxUses ?? null,
+    uses: invite.uses,
+    createdBy: invite.createdBy,
+    createdAt: invite.createdAt
+  }
+}
+
+function postJson(post: GroupPost) {
+  return {
+    id: post.id,
+    group_id: post.groupId,
+    author_id: post.authorId,
+    thread_id: post.threadId ?? null,
+    parent_id: post.parentId ?? null,
+    title: post.title ?? null,
+    body: post.body,
+    status: post.status,
+    pinned: !!post.pinnedAt,
+    pinned_at: post.pinnedAt?.toISOString() ?? null,
+    reply_count: post.replyCount,
+    reaction_counts: post.reactionCounts,
+    last_activity_at: post.lastActivityAt.toISOString(),
+    edited_at: post.editedAt?.toISOString() ?? null,
+    created_at: post.createdAt.toISOString()
+  }
+}
 
-  demoGroups.forEach(g => groups.set(g.id, g))
+function reportJson(report: PostReport) {
+  return {
+    id: report.id,
+    post_id: report.postId,
+    group_id: report.groupId,
+    reporter_id: report.reporterId,
+    reason: report.reason,
+    description: report.description ?? null,
+    status: report.status,
+    resolved_by: report.resolvedBy ?? null,
+    resolved_at: report.resolvedAt?.toISOString() ?? null,
+    resolution_notes: report.resolutionNotes ?? null,
+    action_taken: report.actionTaken ?? null,
+    created_at: report.createdAt.toISOString()
+  }
 }
 
-seedGroups()
+// Tells the author whether their post went up or is waiting for an admin
+const POST_MESSAGES: Record<string, string> = {
+  published: 'Posted',
+  pending_review: 'Your post is waiting for a group admin to review it',
+  rejected: 'Your post wasn\'t published because it may break the community guidelines'
+}
+
+function pagination(page: number, limit: number, total: number) {
+  return { page, limit, total, hasMore: page * limit < total }
+}
 
 // ============================================
 // Group Discovery Endpoints
@@ -91,212 +220,191 @@ seedGroups()
 
 /**
  * GET /api/groups
- * List all public groups
+ * List public and private groups (hidden groups are reached by invite)
  */
 router.get('/', async (req, res) => {
   try {
-    const { category, location, search, page = 1, limit = 20 } = req.query
+    const { category, location, search } = req.query
+    const page = Math.max(1, Number(req.query.page) || 1)
+    const limit = Math.min(100, Math.max(1, Number(req.query.limit) || 20))
+
+    const result = await getGroups().list({
+      category: category ? String(category) : undefined,
+      location: location ? String(location) : undefined,
+      search: search ? String(search) : undefined,
+      limit,
+      offset: (page - 1) * limit
+    })
 
-    let allGroups = Array.from(groups.values())
-      .filter(g => g.visibility === 'public')
+    res.json({
+      success: true,
+      groups: result.items.map(groupJson),
+      pagination: pagination(page, limit, result.total),
+      categories: ['Regional', 'Interest', 'Wellness', 'Professional', 'Social']
+    })
+  } catch (error) {
+    handleGroupError(res, error, 'Failed to fetch groups')
+  }
+})
 
-    // Filter by category
-    if (category) {
-      allGroups = allGroups.filter(g => g.category === category)
-    }
+// ============================================
+// Invite Links
+// ============================================
 
-    // Filter by location
-    if (location) {
-      allGroups = allGroups.filter(g =>
-        g.location_focus?.toLowerCase().includes((location as string).toLowerCase())
-      )
-    }
+/**
+ * GET /api/groups/invites/:code
+ * What an invite link leads to
+ */
+router.get('/invites/:code', async (req, res) => {
+  try {
+    const { group, expiresAt } = await getGroups().previewInvite(req.params.code)
 
-    // Search
-    if (search) {
-      const searchLower = (search as string).toLowerCase()
-      allGroups = allGroups.filter(g =>
-        g.name.toLowerCase().includes(searchLower) ||
-        g.description?.toLowerCase().includes(searchLower)
-      )
-    }
+    res.json({
+      success: true,
+      group: {
+        id: group.id,
+        name: group.name,
+        slug: group.slug,
+        description: group.description ?? null,
+        cover_image: group.coverImage ?? null,
+        member_count: group.memberCount
+      },
+      expiresAt
+    })
+  } catch (error) {
+    handleGroupError(res, error, 'Failed to fetch invite')
+  }
+})
 
-    // Sort by member count
-    allGroups.sort((a, b) => b.member_count - a.member_count)
+/**
+ * POST /api/groups/invites/:code/accept
+ * Join through an invite link, without waiting for approval
+ */
+router.post('/invites/:code/accept', async (req, res) => {
+  try {
+    const userId = req.auth!.userId
+    const { outcome, membership, group } = await getGroups().acceptInvite(req.params.code, userId)
 
-    const start = (Number(page) - 1) * Number(limit)
-    const paginatedGroups = allGroups.slice(start, start + Number(limit))
+    const achievementsUnlocked = outcome === 'joined'
+      ? await trackActivity(userId, 'group_joined', { sourceId: group.id, metadata: { groupName: group.name } })
+      : []
 
     res.json({
       success: true,
-      groups: paginatedGroups,
-      pagination: {
-        page: Number(page),
-        limit: Number(limit),
-        total: allGroups.length,
-        hasMore: start + Number(limit) < allGroups.length
-      },
-      categories: ['Regional', 'Interest', 'Wellness', 'Professional', 'Social']
+      message: outcome === 'joined' ? 'Joined group' : 'Already a member of this group',
+      group: groupJson(group),
+      membership: membershipJson(membership),
+      achievementsUnlocked
     })
   } catch (error) {
-    console.error('[Groups] List error:', error)
-    res.status(500).json({ success: false, error: 'Failed to fetch groups' })
+    handleGroupError(res, error, 'Failed to accept invite')
   }
 })
 
 /**
- * GET /api/groups/:groupId
- * Get group details
+ * GET /api/groups/user/:userId
+ * Get groups a user belongs to
  */
-router.get('/:groupId', async (req, res) => {
+router.get('/user/:userId', async (req, res) => {
   try {
-    const { groupId } = req.params
-
-    // Try to find by ID or slug
-    let group = groups.get(groupId)
-    if (!group) {
-      group = Array.from(groups.values()).find(g => g.slug === groupId)
-    }
+    const memberships = await getGroups().listForUser(req.params.userId)
 
-    if (!group) {
-      return res.status(404).json({
-        success: false,
-        error: 'Group not found'
-      })
-    }
+    res.json({
+      success: true,
+      groups: memberships
+        .filter(({ membership, group }) => membership.status === 'active' && (group.visibility !== 'hidden' || req.auth?.userId === req.params.userId))
+        .map(({ membership, group }) => ({
+          ...groupJson(group),
+          membership: {
+            role: membership.role,
+            joined_at: membership.joinedAt.toISOString()
+          }
+        }))
+    })
+  } catch (error) {
+    handleGroupError(res, error, 'Failed to fetch user groups')
+  }
+})
 
-    // Get recent events (mock)
-    const recentEvents = [
-      {
-        id: 'evt_1',
-        name: 'Monthly Meetup',
-        date: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString()
-      }
-    ]
+/**
+ * GET /api/groups/:groupId
+ * Get group details, by id or slug
+ */
+router.get('/:groupId', async (req, res) => {
+  try {
+    const { group, admins, membership } = await getGroups().get(req.params.groupId, req.auth?.userId)
 
     res.json({
       success: true,
       group: {
-        ...group,
-        recentEvents,
-        admins: [
-          { id: 'admin_1', name: 'Group Admin', role: 'owner' }
-        ]
+        ...groupJson(group),
+        admins: admins.map(m => ({ id: m.userId, role: m.role })),
+        membership: membership && membership.status !== 'banned' ? membershipJson(membership) : null
       }
     })
   } catch (error) {
-    console.error('[Groups] Get error:', error)
-    res.status(500).json({ success: false, error: 'Failed to fetch group' })
+    handleGroupError(res, error, 'Failed to fetch group')
   }
 })
 
 /**
  * POST /api/groups
- * Create a new group
+ * Create a new group; the creator becomes its owner
  */
 router.post('/', async (req, res) => {
   try {
-    const { name, description, visibility, joinPolicy, category, locationFocus, createdBy } = req.body
-
-    if (!name || !createdBy) {
-      return res.status(400).json({
-        success: false,
-        error: 'Name and creator are required'
-      })
-    }
-
-    // Generate slug
-    const slug = name.toLowerCase()
-      .replace(/[^a-z0-9]+/g, '-')
-      .replace(/(^-|-$)/g, '')
-
-    // Check if slug exists
-    const existingSlug = Array.from(groups.values()).find(g => g.slug === slug)
-    if (existingSlug) {
-      return res.status(400).json({
-        success: false,
-        error: 'A group with a similar name already exists'
-      })
-    }
-
-    const group = {
-      id: `grp_${Date.now()}`,
-      name,
-      slug,
-      description: description || null,
-      visibility: visibility || 'public',
-      join_policy: joinPolicy || 'open',
-      category: category || 'Social',
-      location_focus: locationFocus || 'UK-wide',
-      member_count: 1,
-      event_count: 0,
-      liberation_aligned: true,
-      created_by: createdBy,
-      created_at: new Date().toISOString()
-    }
-
-    groups.set(group.id, group)
-
-    // Add creator as owner
-    const membership = {
-      id: `mem_${Date.now()}`,
-      group_id: group.id,
-      user_id: createdBy,
-      role: 'owner',
-      status: 'active',
-      joined_at: new Date().toISOString()
-    }
-
-    memberships.set(group.id, [membership])
-
-    console.log(`🏴 [Groups] Created: ${name}`)
+    const { name, description, coverImage, visibility, joinPolicy, category, tags, locationFocus, guidelines } = req.body
+    const group = await getGroups().create(
+      { name, description, coverImage, visibility, joinPolicy, category, tags, locationFocus, guidelines },
+      req.auth!.userId
+    )
 
     res.json({
       success: true,
       message: 'Group created',
-      group
+      group: groupJson(group)
     })
   } catch (error) {
-    console.error('[Groups] Create error:', error)
-    res.status(500).json({ success: false, error: 'Failed to create group' })
+    handleGroupError(res, error, 'Failed to create group')
   }
 })
 
 /**
  * PUT /api/groups/:groupId
- * Update group settings
+ * Update group settings (owners and admins)
  */
 router.put('/:groupId', async (req, res) => {
   try {
-    const { groupId } = req.params
-    const updates = req.body
-
-    const group = groups.get(groupId)
-    if (!group) {
-      return res.status(404).json({
-        success: false,
-        error: 'Group not found'
-      })
-    }
-
-    const updatedGroup = {
-      ...group,
-      ...updates,
-      updated_at: new Date().toISOString()
-    }
-
-    groups.set(groupId, updatedGroup)
+    const { name, description, coverImage, visibility, joinPolicy, category, tags, locationFocus, guidelines } = req.body
+    const changes = Object.fromEntries(
+      Object.entries({ name, description, coverImage, visibility, joinPolicy, category, tags, locationFocus, guidelines })
+        .filter(([, value]) => value !== undefined)
+    )
+    const group = await getGroups().update(req.params.groupId, changes, req.auth!.userId)
 
     console.log(`📝 [Groups] Updated: ${group.name}`)
 
     res.json({
       success: true,
       message: 'Group updated',
-      group: updatedGroup
+      group: groupJson(group)
     })
   } catch (error) {
-    console.error('[Groups] Update error:', error)
-    res.status(500).json({ success: false, error: 'Failed to update group' })
+    handleGroupError(res, error, 'Failed to update group')
+  }
+})
+
+/**
+ * GET /api/groups/:groupId/audit
+ * Membership changes, newest first (owners and admins)
+ */
+router.get('/:groupId/audit', async (req, res) => {
+  try {
+    const entries = await getGroups().auditLog(req.params.groupId, req.auth!.userId, Number(req.query.limit) || 100)
+
+    res.json({ success: true, entries })
+  } catch (error) {
+    handleGroupError(res, error, 'Failed to fetch audit log')
   }
 })
 
@@ -306,248 +414,512 @@ router.put('/:groupId', async (req, res) => {
 
 /**
  * POST /api/groups/:groupId/join
- * Join a group
+ * Join a group, or ask to when it needs approval
  */
 router.post('/:groupId/join', async (req, res) => {
   try {
-    const { groupId } = req.params
-    const { userId } = req.body
-
-    if (!userId) {
-      return res.status(400).json({
-        success: false,
-        error: 'User ID is required'
-      })
+    const userId = req.auth!.userId
+    const { outcome, membership, group } = await getGroups().join(req.params.groupId, userId)
+
+    const achievementsUnlocked = outcome === 'joined'
+      ? await trackActivity(userId, 'group_joined', { sourceId: group.id, metadata: { groupName: group.name } })
+      : []
+
+    const messages = {
+      joined: 'Joined group',
+      requested: 'Join request submitted',
+      already_member: 'Already a member of this group',
+      already_requested: 'Join request already submitted'
     }
 
-    const group = groups.get(groupId)
-    if (!group) {
-      return res.status(404).json({
-        success: false,
-        error: 'Group not found'
-      })
-    }
+    res.json({
+      success: true,
+      message: messages[outcome],
+      membership: membershipJson(membership),
+      achievementsUnlocked
+    })
+  } catch (error) {
+    handleGroupError(res, error, 'Failed to join group')
+  }
+})
 
-    // Check if already a member
-    const groupMemberships = memberships.get(groupId) || []
-    const existingMembership = groupMemberships.find(m => m.user_id === userId)
+/**
+ * DELETE /api/groups/:groupId/leave
+ * Leave a group, or withdraw a join request
+ */
+router.delete('/:groupId/leave', async (req, res) => {
+  try {
+    await getGroups().leave(req.params.groupId, req.auth!.userId)
 
-    if (existingMembership) {
-      return res.status(400).json({
-        success: false,
-        error: 'Already a member of this group'
-      })
+    res.json({
+      success: true,
+      message: 'Left group'
+    })
+  } catch (error) {
+    handleGroupError(res, error, 'Failed to leave group')
+  }
+})
+
+/**
+ * GET /api/groups/:groupId/events
+ * The group's upcoming events, each occurrence of a recurring event listed
+ * separately. Events of private groups are visible to members only.
+ * Query: days (how far ahead to expand recurring events, default 90), limit
+ */
+router.get('/:groupId/events', async (req, res) => {
+  try {
+    const { group, events } = await getGroupEvents().upcoming(req.params.groupId, req.auth?.userId, {
+      days: Number(req.query.days) || undefined,
+      limit: Number(req.query.limit) || undefined
+    })
+
+    res.json({
+      success: true,
+      events,
+      count: events.length,
+      // Open calendar feeds are for public groups; members subscribe to their groups' feed instead
+      calendarFeedUrl: group.visibility === 'public' ? `${BASE_URL}/api/calendar/feed/group/${group.slug}` : null
+    })
+  } catch (error) {
+    handleGroupError(res, error, 'Failed to fetch group events')
+  }
+})
+
+/**
+ * GET /api/groups/:groupId/members
+ * Get group members. status=pending (join requests) and status=banned are for
+ * admins; members of private groups are visible to fellow members only.
+ */
+router.get('/:groupId/members', async (req, res) => {
+  try {
+    const status = String(req.query.status || 'active') as MembershipStatus
+    if (!['active', 'pending', 'banned'].includes(status)) {
+      return res.status(400).json({ success: false, error: 'status must be active, pending or banned' })
     }
+    const page = Math.max(1, Number(req.query.page) || 1)
+    const limit = Math.min(100, Math.max(1, Number(req.query.limit) || 50))
+
+    const result = await getGroups().members(req.params.groupId, req.auth?.userId, { status, limit, offset: (page - 1) * limit })
 
-    const status = group.join_policy === 'open' ? 'active' : 'pending'
+    res.json({
+      success: true,
+      members: result.items.map(membershipJson),
+      pagination: pagination(page, limit, result.total)
+    })
+  } catch (error) {
+    handleGroupError(res, error, 'Failed to fetch members')
+  }
+})
 
-    const membership = {
-      id: `mem_${Date.now()}`,
-      group_id: groupId,
-      user_id: userId,
-      role: 'member',
-      status,
-      joined_at: new Date().toISOString()
+/**
+ * POST /api/groups/:groupId/requests/:userId/approve
+ * POST /api/groups/:groupId/requests/:userId/reject
+ * Decide a join request (owners and admins)
+ */
+router.post('/:groupId/requests/:userId/:decision(approve|reject)', async (req, res) => {
+  try {
+    const { groupId, userId, decision } = req.params
+    const groups = getGroups()
+
+    if (decision === 'approve') {
+      const membership = await groups.approve(groupId, userId, req.auth!.userId)
+      const group = await groups.requireGroup(groupId)
+      await trackActivity(userId, 'group_joined', { sourceId: group.id, metadata: { groupName: group.name } })
+
+      return res.json({ success: true, message: 'Join request approved', membership: membershipJson(membership) })
     }
 
-    groupMemberships.push(membership)
-    memberships.set(groupId, groupMemberships)
+    await groups.reject(groupId, userId, req.auth!.userId)
+    res.json({ success: true, message: 'Join request declined' })
+  } catch (error) {
+    handleGroupError(res, error, 'Failed to decide join request')
+  }
+})
 
-    // Update member count
-    if (status === 'active') {
-      group.member_count = (group.member_count || 0) + 1
-      groups.set(groupId, group)
+/**
+ * PUT /api/groups/:groupId/members/:userId
+ * Change a member's role (owner only; role=owner hands the group over)
+ */
+router.put('/:groupId/members/:userId', async (req, res) => {
+  try {
+    const { groupId, userId } = req.params
+    const { role } = req.body
+
+    if (!role) {
+      return res.status(400).json({ success: false, error: 'role required' })
     }
 
-    console.log(`👥 [Groups] ${status === 'active' ? 'Joined' : 'Requested'}: ${userId} -> ${group.name}`)
+    const membership = await getGroups().setRole(groupId, userId, role, req.auth!.userId)
+
+    console.log(`👥 [Groups] Member updated: ${userId} in ${groupId}`)
 
     res.json({
       success: true,
-      message: status === 'active' ? 'Joined group' : 'Join request submitted',
-      membership
+      message: 'Member updated',
+      membership: membershipJson(membership)
     })
   } catch (error) {
-    console.error('[Groups] Join error:', error)
-    res.status(500).json({ success: false, error: 'Failed to join group' })
+    handleGroupError(res, error, 'Failed to update member')
   }
 })
 
 /**
- * DELETE /api/groups/:groupId/leave
- * Leave a group
+ * DELETE /api/groups/:groupId/members/:userId
+ * Remove a member; they can join again (owners and admins)
  */
-router.delete('/:groupId/leave', async (req, res) => {
+router.delete('/:groupId/members/:userId', async (req, res) => {
   try {
-    const { groupId } = req.params
-    const { userId } = req.body
+    await getGroups().remove(req.params.groupId, req.params.userId, req.auth!.userId)
 
-    const group = groups.get(groupId)
-    if (!group) {
-      return res.status(404).json({
-        success: false,
-        error: 'Group not found'
-      })
-    }
+    res.json({ success: true, message: 'Member removed' })
+  } catch (error) {
+    handleGroupError(res, error, 'Failed to remove member')
+  }
+})
 
-    const groupMemberships = memberships.get(groupId) || []
-    const membershipIndex = groupMemberships.findIndex(m => m.user_id === userId)
+/**
+ * POST /api/groups/:groupId/bans/:userId
+ * Remove someone and stop them rejoining (owners and admins)
+ * Body: { reason?: string }
+ */
+router.post('/:groupId/bans/:userId', async (req, res) => {
+  try {
+    const membership = await getGroups().ban(req.params.groupId, req.params.userId, req.auth!.userId, req.body?.reason)
 
-    if (membershipIndex === -1) {
-      return res.status(400).json({
-        success: false,
-        error: 'Not a member of this group'
-      })
-    }
+    res.json({ success: true, message: 'User banned', membership: membershipJson(membership) })
+  } catch (error) {
+    handleGroupError(res, error, 'Failed to ban user')
+  }
+})
 
-    const membership = groupMemberships[membershipIndex]
+/**
+ * DELETE /api/groups/:groupId/bans/:userId
+ * Lift a ban (owners and admins)
+ */
+router.delete('/:groupId/bans/:userId', async (req, res) => {
+  try {
+    await getGroups().unban(req.params.groupId, req.params.userId, req.auth!.userId)
 
-    // Don't allow owner to leave
-    if (membership.role === 'owner') {
-      return res.status(400).json({
-        success: false,
-        error: 'Group owner cannot leave. Transfer ownership first.'
-      })
-    }
+    res.json({ success: true, message: 'Ban lifted' })
+  } catch (error) {
+    handleGroupError(res, error, 'Failed to lift ban')
+  }
+})
+
+/**
+ * POST /api/groups/:groupId/invites
+ * Create an invite link (owners and admins)
+ * Body: { expiresInHours?: number (default 168, max 720), maxUses?: number }
+ */
+router.post('/:groupId/invites', async (req, res) => {
+  try {
+    const { expiresInHours, maxUses } = req.body || {}
+    const invite = await getGroups().createInvite(req.params.groupId, req.auth!.userId, {
+      expiresInHours: expiresInHours !== undefined ? Number(expiresInHours) : undefined,
+      maxUses: maxUses !== undefined && maxUses !== null ? Number(maxUses) : undefined
+    })
+
+    res.status(201).json({ success: true, invite: inviteJson(invite) })
+  } catch (error) {
+    handleGroupError(res, error, 'Failed to create invite')
+  }
+})
 
-    groupMemberships.splice(membershipIndex, 1)
-    memberships.set(groupId, groupMemberships)
+/**
+ * GET /api/groups/:groupId/invites
+ * Invite links that haven't been revoked (owners and admins)
+ */
+router.get('/:groupId/invites', async (req, res) => {
+  try {
+    const invites = await getGroups().listInvites(req.params.groupId, req.auth!.userId)
 
-    // Update member count
-    if (membership.status === 'active') {
-      group.member_count = Math.max(0, (group.member_count || 1) - 1)
-      groups.set(groupId, group)
+    res.json({ success: true, invites: invites.map(inviteJson) })
+  } catch (error) {
+    handleGroupError(res, error, 'Failed to fetch invites')
+  }
+})
+
+/**
+ * DELETE /api/groups/:groupId/invites/:inviteId
+ * Revoke an invite link (owners and admins)
+ */
+router.delete('/:groupId/invites/:inviteId', async (req, res) => {
+  try {
+    await getGroups().revokeInvite(req.params.groupId, req.params.inviteId, req.auth!.userId)
+
+    res.json({ success: true, message: 'Invite revoked' })
+  } catch (error) {
+    handleGroupError(res, error, 'Failed to revoke invite')
+  }
+})
+
+// ============================================
+// Discussion Endpoints
+// ============================================
+
+/**
+ * GET /api/groups/discussions/reports
+ * Reported group posts (moderator only)
+ * Query: status, page, limit
+ */
+router.get('/discussions/reports', async (req, res) => {
+  try {
+    const status = req.query.status ? String(req.query.status) as ReportStatus : undefined
+    if (status && !REPORT_STATUSES.includes(status)) {
+      return res.status(400).json({ success: false, error: `status must be one of: ${REPORT_STATUSES.join(', ')}` })
     }
+    const page = Math.max(1, Number(req.query.page) || 1)
+    const limit = Math.min(100, Math.max(1, Number(req.query.limit) || 20))
 
-    console.log(`👋 [Groups] Left: ${userId} <- ${group.name}`)
+    const result = await getDiscussions().listReports({ status, limit, offset: (page - 1) * limit })
 
     res.json({
       success: true,
-      message: 'Left group'
+      reports: result.items.map(report => ({ ...reportJson(report), post: report.post && postJson(report.post) })),
+      pagination: pagination(page, limit, result.total),
+      stats: result.counts
     })
   } catch (error) {
-    console.error('[Groups] Leave error:', error)
-    res.status(500).json({ success: false, error: 'Failed to leave group' })
+    handleGroupError(res, error, 'Failed to fetch reports')
   }
 })
 
 /**
- * GET /api/groups/:groupId/members
- * Get group members
+ * PUT /api/groups/discussions/reports/:reportId
+ * Decide a report (moderator only). actionTaken 'remove_post' takes the post down.
+ * Body: { status: 'reviewing' | 'resolved' | 'dismissed', resolutionNotes?, actionTaken? }
  */
-router.get('/:groupId/members', async (req, res) => {
+router.put('/discussions/reports/:reportId', async (req, res) => {
   try {
-    const { groupId } = req.params
-    const { status = 'active', page = 1, limit = 50 } = req.query
+    const { status, resolutionNotes, actionTaken } = req.body || {}
+    const report = await getDiscussions().resolveReport(req.params.reportId, { status, resolutionNotes, actionTaken }, req.auth!.userId)
 
-    const groupMemberships = (memberships.get(groupId) || [])
-      .filter(m => m.status === status)
+    console.log(`✅ [Groups] Report ${report.id} ${report.status}`)
+    res.json({ success: true, message: `Report ${report.status}`, report: reportJson(report) })
+  } catch (error) {
+    handleGroupError(res, error, 'Failed to update report')
+  }
+})
 
-    const start = (Number(page) - 1) * Number(limit)
-    const paginatedMembers = groupMemberships.slice(start, start + Number(limit))
+/**
+ * GET /api/groups/:groupId/posts
+ * Discussion threads, most recently active first; pinned threads on the first page
+ * Query: cursor (nextCursor from the previous page), limit
+ */
+router.get('/:groupId/posts', async (req, res) => {
+  try {
+    const feed = await getDiscussions().feed(req.params.groupId, req.auth?.userId, {
+      cursor: req.query.cursor ? String(req.query.cursor) : undefined,
+      limit: Number(req.query.limit) || undefined
+    })
 
     res.json({
       success: true,
-      members: paginatedMembers,
-      pagination: {
-        page: Number(page),
-        limit: Number(limit),
-        total: groupMemberships.length,
-        hasMore: start + Number(limit) < groupMemberships.length
-      }
+      pinned: feed.pinned.map(postJson),
+      posts: feed.threads.map(postJson),
+      myReactions: feed.myReactions,
+      nextCursor: feed.nextCursor
     })
   } catch (error) {
-    console.error('[Groups] Members error:', error)
-    res.status(500).json({ success: false, error: 'Failed to fetch members' })
+    handleGroupError(res, error, 'Failed to fetch posts')
   }
 })
 
 /**
- * GET /api/groups/user/:userId
- * Get groups a user belongs to
+ * POST /api/groups/:groupId/posts
+ * Start a thread (members). Screened by moderation before it is published.
+ * Body: { title?: string, body: string }
  */
-router.get('/user/:userId', async (req, res) => {
+router.post('/:groupId/posts', async (req, res) => {
   try {
-    const { userId } = req.params
-
-    const userGroups: any[] = []
-
-    memberships.forEach((groupMembers, groupId) => {
-      const membership = groupMembers.find(m => m.user_id === userId && m.status === 'active')
-      if (membership) {
-        const group = groups.get(groupId)
-        if (group) {
-          userGroups.push({
-            ...group,
-            membership: {
-              role: membership.role,
-              joined_at: membership.joined_at
-            }
-          })
-        }
-      }
+    const { title, body } = req.body || {}
+    const post = await getDiscussions().createPost(req.params.groupId, { title, body }, req.auth!.userId)
+
+    res.status(201).json({ success: true, message: POST_MESSAGES[post.status], post: postJson(post) })
+  } catch (error) {
+    handleGroupError(res, error, 'Failed to create post')
+  }
+})
+
+/**
+ * GET /api/groups/:groupId/posts/pending
+ * Posts and replies moderation held back (owners and admins)
+ */
+router.get('/:groupId/posts/pending', async (req, res) => {
+  try {
+    const posts = await getDiscussions().pendingPosts(req.params.groupId, req.auth!.userId)
+
+    res.json({
+      success: true,
+      posts: posts.map(post => ({ ...postJson(post), moderation: post.moderation ?? null }))
+    })
+  } catch (error) {
+    handleGroupError(res, error, 'Failed to fetch posts awaiting review')
+  }
+})
+
+/**
+ * GET /api/groups/:groupId/posts/:postId
+ * A thread with its replies, oldest first
+ * Query: cursor (nextCursor from the previous page), limit
+ */
+router.get('/:groupId/posts/:postId', async (req, res) => {
+  try {
+    const thread = await getDiscussions().thread(req.params.groupId, req.params.postId, req.auth?.userId, {
+      cursor: req.query.cursor ? String(req.query.cursor) : undefined,
+      limit: Number(req.query.limit) || undefined
     })
 
     res.json({
       success: true,
-      groups: userGroups
+      post: postJson(thread.post),
+      replies: thread.replies.map(postJson),
+      myReactions: thread.myReactions,
+      nextCursor: thread.nextCursor
     })
   } catch (error) {
-    console.error('[Groups] User groups error:', error)
-    res.status(500).json({ success: false, error: 'Failed to fetch user groups' })
+    handleGroupError(res, error, 'Failed to fetch thread')
   }
 })
 
 /**
- * PUT /api/groups/:groupId/members/:userId
- * Update member role/status (admin only)
+ * POST /api/groups/:groupId/posts/:postId/replies
+ * Reply to a post (members). Screened by moderation before it is published.
+ * Body: { body: string }
  */
-router.put('/:groupId/members/:userId', async (req, res) => {
+router.post('/:groupId/posts/:postId/replies', async (req, res) => {
   try {
-    const { groupId, userId } = req.params
-    const { role, status } = req.body
+    const reply = await getDiscussions().reply(req.params.groupId, req.params.postId, { body: req.body?.body }, req.auth!.userId)
 
-    const groupMemberships = memberships.get(groupId) || []
-    const membershipIndex = groupMemberships.findIndex(m => m.user_id === userId)
+    res.status(201).json({ success: true, message: POST_MESSAGES[reply.status], post: postJson(reply) })
+  } catch (error) {
+    handleGroupError(res, error, 'Failed to reply')
+  }
+})
 
-    if (membershipIndex === -1) {
-      return res.status(404).json({
-        success: false,
-        error: 'Member not found'
-      })
-    }
+/**
+ * PATCH /api/groups/:groupId/posts/:postId
+ * Edit your own post; it is screened again
+ * Body: { title?: string, body?: string }
+ */
+router.patch('/:groupId/posts/:postId', async (req, res) => {
+  try {
+    const { title, body } = req.body || {}
+    const post = await getDiscussions().editPost(req.params.groupId, req.params.postId, { title, body }, req.auth!.userId)
 
-    if (role) {
-      groupMemberships[membershipIndex].role = role
-    }
+    res.json({ success: true, message: POST_MESSAGES[post.status], post: postJson(post) })
+  } catch (error) {
+    handleGroupError(res, error, 'Failed to edit post')
+  }
+})
 
-    if (status) {
-      const previousStatus = groupMemberships[membershipIndex].status
-      groupMemberships[membershipIndex].status = status
-
-      // Update member count if status changed
-      const group = groups.get(groupId)
-      if (group) {
-        if (previousStatus !== 'active' && status === 'active') {
-          group.member_count = (group.member_count || 0) + 1
-        } else if (previousStatus === 'active' && status !== 'active') {
-          group.member_count = Math.max(0, (group.member_count || 1) - 1)
-        }
-        groups.set(groupId, group)
-      }
+/**
+ * DELETE /api/groups/:groupId/posts/:postId
+ * Delete your own post, or remove someone else's (owners and admins)
+ */
+router.delete('/:groupId/posts/:postId', async (req, res) => {
+  try {
+    await getDiscussions().deletePost(req.params.groupId, req.params.postId, req.auth!.userId)
+
+    res.json({ success: true, message: 'Post deleted' })
+  } catch (error) {
+    handleGroupError(res, error, 'Failed to delete post')
+  }
+})
+
+/**
+ * PUT /api/groups/:groupId/posts/:postId/pin
+ * Pin a thread to the top of the group (owners and admins, up to 3)
+ */
+router.put('/:groupId/posts/:postId/pin', async (req, res) => {
+  try {
+    const post = await getDiscussions().pin(req.params.groupId, req.params.postId, req.auth!.userId)
+
+    res.json({ success: true, message: 'Post pinned', post: postJson(post) })
+  } catch (error) {
+    handleGroupError(res, error, 'Failed to pin post')
+  }
+})
+
+/**
+ * DELETE /api/groups/:groupId/posts/:postId/pin
+ * Unpin a thread (owners and admins)
+ */
+router.delete('/:groupId/posts/:postId/pin', async (req, res) => {
+  try {
+    const post = await getDiscussions().unpin(req.params.groupId, req.params.postId, req.auth!.userId)
+
+    res.json({ success: true, message: 'Post unpinned', post: postJson(post) })
+  } catch (error) {
+    handleGroupError(res, error, 'Failed to unpin post')
+  }
+})
+
+/**
+ * POST /api/groups/:groupId/posts/:postId/review
+ * Publish or reject a post moderation held back (owners and admins)
+ * Body: { decision: 'approve' | 'reject' }
+ */
+router.post('/:groupId/posts/:postId/review', async (req, res) => {
+  try {
+    const decision = req.body?.decision
+    if (decision !== 'approve' && decision !== 'reject') {
+      return res.status(400).json({ success: false, error: 'decision must be approve or reject' })
     }
+    const post = await getDiscussions().review(req.params.groupId, req.params.postId, decision, req.auth!.userId)
 
-    memberships.set(groupId, groupMemberships)
+    res.json({ success: true, message: decision === 'approve' ? 'Post published' : 'Post rejected', post: postJson(post) })
+  } catch (error) {
+    handleGroupError(res, error, 'Failed to review post')
+  }
+})
 
-    console.log(`👥 [Groups] Member updated: ${userId} in ${groupId}`)
+/**
+ * PUT /api/groups/:groupId/posts/:postId/reactions/:reaction
+ * React to a post (members)
+ */
+router.put('/:groupId/posts/:postId/reactions/:reaction', async (req, res) => {
+  try {
+    const reactionCounts = await getDiscussions().react(req.params.groupId, req.params.postId, req.params.reaction, req.auth!.userId, true)
+
+    res.json({ success: true, reactionCounts })
+  } catch (error) {
+    handleGroupError(res, error, 'Failed to add reaction')
+  }
+})
+
+/**
+ * DELETE /api/groups/:groupId/posts/:postId/reactions/:reaction
+ * Take back a reaction
+ */
+router.delete('/:groupId/posts/:postId/reactions/:reaction', async (req, res) => {
+  try {
+    const reactionCounts = await getDiscussions().react(req.params.groupId, req.params.postId, req.params.reaction, req.auth!.userId, false)
+
+    res.json({ success: true, reactionCounts })
+  } catch (error) {
+    handleGroupError(res, error, 'Failed to remove reaction')
+  }
+})
+
+/**
+ * POST /api/groups/:groupId/posts/:postId/report
+ * Report a post to the platform moderators
+ * Body: { reason: 'spam' | 'inappropriate' | 'misleading' | 'harassment' | 'safety' | 'scam' | 'duplicate' | 'other', description?: string }
+ */
+router.post('/:groupId/posts/:postId/report', async (req, res) => {
+  try {
+    const { reason, description } = req.body || {}
+    const report = await getDiscussions().report(req.params.groupId, req.params.postId, { reason, description }, req.auth!.userId)
 
     res.json({
       success: true,
-      message: 'Member updated',
-      membership: groupMemberships[membershipIndex]
+      message: 'Report submitted. Our moderation team will review it within 24 hours.',
+      reportId: report.id,
+      status: report.status
     })
   } catch (error) {
-    console.error('[Groups] Update member error:', error)
-    res.status(500).json({ success: false, error: 'Failed to update member' })
+    handleGroupError(res, error, 'Failed to submit report')
   }
 })
 
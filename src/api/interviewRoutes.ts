@@ -1,38 +1,10 @@
 import { Router, type Request, type Response } from 'express'
-import OpenAI from 'openai'
 import { getInterviewSystemPrompt, getTableConfig } from '../data/interviewPrompts.js'
+import { getLLMGateway, type LLMMessage } from '../lib/llmGateway.js'
 
 const router = Router()
 
-// Initialise LLM client — same pattern as conversationService.ts
-function createLLMClient(): { client: OpenAI; model: string } | null {
-  const groqKey = process.env.GROQ_API_KEY
-  const dashscopeKey = process.env.DASHSCOPE_API_KEY
-
-  if (dashscopeKey && dashscopeKey !== 'your-dashscope-api-key-here') {
-    return {
-      client: new OpenAI({
-        apiKey: dashscopeKey,
-        baseURL: process.env.DASHSCOPE_BASE_URL || 'https://dashscope-intl.aliyuncs.com/compatible-mode/v1',
-      }),
-      model: process.env.DASHSCOPE_MODEL || 'qwen-max',
-    }
-  }
-
-  if (groqKey && groqKey !== 'your-groq-api-key-here') {
-    return {
-      client: new OpenAI({
-        apiKey: groqKey,
-        baseURL: 'https://api.groq.com/openai/v1',
-      }),
-      model: 'llama-3.3-70b-versatile',
-    }
-  }
-
-  return null
-}
-
-const llm = createLLMClient()
+const llm = getLLMGateway()
 
 /**
  * POST /api/interview
@@ -58,13 +30,13 @@ router.post('/', async (req: Request, res: Response) => {
     return res.status(400).json({ error: `No configuration for table ${tableId}` })
   }
 
-  if (!llm) {
+  if (!llm.isAvailable()) {
     return res.status(503).json({ error: 'LLM service not available' })
   }
 
   try {
     // Build message history
-    const messages: OpenAI.ChatCompletionMessageParam[] = [
+    const messages: LLMMessage[] = [
       { role: 'system', content: systemPrompt },
       ...(Array.isArray(sessionMessages)
         ? sessionMessages
@@ -77,14 +49,9 @@ router.post('/', async (req: Request, res: Response) => {
       { role: 'user', content: message.trim() },
     ]
 
-    const completion = await llm.client.chat.completions.create({
-      model: llm.model,
-      messages,
-      max_tokens: 500,
-      temperature: 0.7,
-    })
+    const completion = await llm.complete({ useCase: 'interview', messages })
 
-    const response = completion.choices[0]?.message?.content || 'The archive could not produce a response.'
+    const response = completion.content || 'The archive could not produce a response.'
 
     return res.json({ response, tableId })
   } catch (err) {
@@ -0,0 +1,64 @@
+/**
+ * Knowledge Search Routes
+ * Hybrid keyword + semantic search over the UK knowledge base
+ */
+
+import { Router } from 'express'
+import { getKnowledgeRetrievalService } from '../services/KnowledgeRetrievalService.js'
+import { JourneyStage, UKLocation } from '../types/journey.js'
+
+const router = Router()
+
+const JOURNEY_STAGES: JourneyStage[] = ['crisis', 'stabilization', 'growth', 'community_healing', 'advocacy']
+
+/**
+ * GET /api/knowledge/search?q=&stage=&location=&kind=resource|knowledge&emergency=true&limit=
+ * Ranked resources and knowledge entries for a free-text query
+ */
+router.get('/search', async (req, res) => {
+  try {
+    const query = typeof req.query.q === 'string' ? req.query.q.trim() : ''
+    if (!query) {
+      return res.status(400).json({ success: false, error: 'q is required' })
+    }
+
+    const stage = JOURNEY_STAGES.includes(req.query.stage as JourneyStage) ? req.query.stage as JourneyStage : undefined
+    const kind = req.query.kind === 'resource' || req.query.kind === 'knowledge' ? req.query.kind : undefined
+    const retrieval = getKnowledgeRetrievalService()
+
+    const results = await retrieval.search(query, {
+      stage,
+      kind,
+      location: typeof req.query.location === 'string' ? req.query.location as UKLocation : undefined,
+      emergencyOnly: req.query.emergency === 'true',
+      limit: Math.min(parseInt(req.query.limit as string) || 10, 50)
+    })
+
+    res.json({
+      success: true,
+      ranking: retrieval.isSemanticEnabled() ? 'hybrid' : 'keyword',
+      count: results.length,
+      results
+    })
+  } catch (error) {
+    console.error('[Knowledge] Search error:', error)
+    res.status(500).json({ success: false, error: 'Failed to search knowledge base' })
+  }
+})
+
+/**
+ * POST /api/knowledge/reindex
+ * Re-embed any resources or entries that changed since the last sync
+ */
+router.post('/reindex', async (req, res) => {
+  try {
+    const result = await getKnowledgeRetrievalService().ensureIndex()
+
+    res.json({ success: true, ...result })
+  } catch (error) {
+    console.error('[Knowledge] Reindex error:', error)
+    res.status(500).json({ success: false, error: 'Failed to rebuild knowledge index' })
+  }
+})
+
+export default router
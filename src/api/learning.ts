@@ -5,6 +5,7 @@
 
 import { Router, Request, Response } from 'express';
 import learningService from '../services/learningService';
+import { trackActivity } from '../services/AchievementService.js';
 
 const router = Router();
 
@@ -216,10 +217,15 @@ router.post('/quiz/submit', async (req: Request, res: Response) => {
       passingScore || 70
     );
 
+    const achievementsUnlocked = passed
+      ? await trackActivity(userId, 'quiz_passed', { sourceId: moduleId, metadata: { moduleId, score } })
+      : [];
+
     res.json({
       success: true,
       passed,
       score,
+      achievementsUnlocked,
       message: passed ? 'Congratulations! You passed!' : 'Keep learning, you\'ll get it!'
     });
   } catch (error) {
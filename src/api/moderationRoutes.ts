@@ -1,37 +1,10 @@
 import express from 'express'
-import Groq from 'groq-sdk'
+import { getLLMGateway } from '../lib/llmGateway.js'
+import { ModerationRequest, buildModerationPrompt, moderateContent } from '../services/ContentModerationService.js'
 
 const router = express.Router()
 
-// Initialize Groq client
-const groq = new Groq({
-  apiKey: process.env.GROQ_API_KEY || ''
-})
-
-interface ModerationRequest {
-  content: {
-    type: 'event' | 'news'
-    title: string
-    description: string
-    organizer_name?: string
-    tags?: string[]
-    source_url: string
-    location?: string
-    event_date?: string
-  }
-  moderation_type: 'event_relevance' | 'news_relevance'
-}
-
-interface ModerationResult {
-  confidence: number // 0-1 scale
-  relevance: 'high' | 'medium' | 'low'
-  quality: 'high' | 'medium' | 'low'
-  liberation_score: number // 0-1 scale
-  reasoning: string
-  recommendation: 'auto-approve' | 'review' | 'reject'
-  processing_time_ms: number
-  flags?: string[] // Any warnings or issues detected
-}
+const llm = getLLMGateway()
 
 /**
  * IVOR AI Moderation Endpoint
@@ -51,63 +24,18 @@ router.post('/moderate', async (req, res) => {
       })
     }
 
-    // Build moderation prompt based on content type
-    const prompt = buildModerationPrompt(content, moderation_type)
-
-    // Call Groq API for AI moderation
-    const completion = await groq.chat.completions.create({
-      model: 'llama-3.1-70b-versatile',
-      messages: [
-        {
-          role: 'system',
-          content: 'You are IVOR, an AI moderator for the BLKOUT Liberation Platform. You analyze content for relevance to Black queer and trans communities in the UK. Always respond with valid JSON only.'
-        },
-        {
-          role: 'user',
-          content: prompt
-        }
-      ],
-      temperature: 0.3, // Low temperature for consistent moderation decisions
-      max_tokens: 600,
-      response_format: { type: 'json_object' }
-    })
-
-    // Parse AI response
-    const aiResponse = completion.choices[0]?.message?.content
-    if (!aiResponse) {
-      throw new Error('No response from AI model')
-    }
-
-    let moderationResult: ModerationResult
-    try {
-      const parsed = JSON.parse(aiResponse)
-      moderationResult = {
-        confidence: parsed.confidence || 0,
-        relevance: parsed.relevance || 'low',
-        quality: parsed.quality || 'low',
-        liberation_score: parsed.liberation_score || 0,
-        reasoning: parsed.reasoning || 'No reasoning provided',
-        recommendation: parsed.recommendation || 'review',
-        processing_time_ms: Date.now() - startTime,
-        flags: parsed.flags || []
-      }
-    } catch (parseError) {
-      console.error('Failed to parse AI response:', aiResponse)
-      throw new Error('Invalid AI response format')
-    }
+    const { model_used, provider_used, ...moderationResult } = await moderateContent(content, moderation_type)
 
     // Add metadata
     const response = {
       ...moderationResult,
       content_type: content.type,
       analyzed_at: new Date().toISOString(),
-      model_used: 'llama-3.1-70b-versatile',
+      model_used,
+      provider_used,
       source_url: content.source_url
     }
 
-    // Log moderation for training data collection
-    logModerationDecision(content, moderationResult)
-
     res.json(response)
 
   } catch (error) {
@@ -128,83 +56,6 @@ router.post('/moderate', async (req, res) => {
   }
 })
 
-/**
- * Build moderation prompt based on content type
- */
-function buildModerationPrompt(content: any, type: string): string {
-  const baseContext = `
-You are IVOR, the AI moderator for BLKOUT - a liberation platform for and by Black queer and trans people in the UK.
-
-Your role: Analyze this ${content.type} to determine if it's relevant and valuable for Black QTIPOC+ communities.
-
-Content to analyze:
-- Title: "${content.title}"
-- Description: "${content.description}"
-- Organizer/Source: "${content.organizer_name || 'Unknown'}"
-- Tags: ${content.tags?.join(', ') || 'None'}
-- Location: "${content.location || 'Not specified'}"
-- Source URL: "${content.source_url}"
-${content.event_date ? `- Date: "${content.event_date}"` : ''}
-
-Evaluation criteria:
-
-1. **Relevance** (Is this specifically for Black QTIPOC+ people?):
-   - HIGH: Explicitly mentions Black + LGBTQ+ (e.g., "Black Trans Liberation", "QTIPOC gathering", "African/Caribbean queer community")
-   - MEDIUM: Mentions one but not both (e.g., "Black community event" or "LGBTQ+ gathering" but not specifically for Black people)
-   - LOW: General diversity/inclusion with no specific focus on Black queer/trans people
-
-2. **Quality** (Is this legitimate and safe?):
-   - HIGH: Verified organization (LGBT Foundation, UK Black Pride, Stonewall, known community groups)
-   - MEDIUM: Known local community group or grassroots organization
-   - LOW: Unknown source, suspicious content, potential spam
-
-3. **Liberation Focus** (Does this align with Black queer liberation values?):
-   - HIGH: Explicitly anti-racist, anti-capitalist, community-led, mutual aid, activism, healing, grassroots organizing
-   - MEDIUM: Generally progressive, inclusive, supportive but not explicitly liberation-focused
-   - LOW: Corporate/commercial, apolitical, or potentially harmful to marginalized communities
-
-4. **Red Flags** (Check for these issues):
-   - Fetishization or exoticization of Black bodies
-   - Corporate Pride-washing or rainbow capitalism
-   - TERFs, SWERFs, or other exclusionary groups
-   - "Diversity training" for corporations (not community-focused)
-   - Events requiring high cost that exclude working-class people
-   - Vague descriptions that could be spam
-
-Based on your analysis, provide a confidence score (0-1) and recommendation:
-- confidence ≥0.90 + HIGH relevance + HIGH quality = "auto-approve"
-- confidence 0.70-0.89 + MEDIUM/HIGH relevance = "review" (curator quick check)
-- confidence <0.70 or any red flags = "reject" or "review" (curator deep check)
-
-RESPOND ONLY WITH THIS JSON FORMAT (no other text):
-{
-  "confidence": 0.95,
-  "relevance": "high",
-  "quality": "high",
-  "liberation_score": 0.90,
-  "reasoning": "This event is explicitly for Black trans people, organized by LGBT Foundation Manchester (trusted org with history of serving POC communities). Strong liberation focus on community organizing and self-care. No red flags detected.",
-  "recommendation": "auto-approve",
-  "flags": []
-}
-`
-
-  return baseContext
-}
-
-/**
- * Log moderation decisions for future training
- */
-function logModerationDecision(content: any, result: ModerationResult): void {
-  // TODO: Store in database for future fine-tuning
-  // For now, just log to console
-  console.log('[IVOR Moderation]', {
-    title: content.title,
-    confidence: result.confidence,
-    recommendation: result.recommendation,
-    timestamp: new Date().toISOString()
-  })
-}
-
 /**
  * Batch moderation endpoint (for processing multiple events at once)
  */
@@ -238,8 +89,8 @@ router.post('/moderate/batch', async (req, res) => {
 
           const prompt = buildModerationPrompt(content, moderationRequest.moderation_type)
 
-          const completion = await groq.chat.completions.create({
-            model: 'llama-3.1-70b-versatile',
+          const completion = await llm.complete({
+            useCase: 'moderation',
             messages: [
               {
                 role: 'system',
@@ -249,14 +100,10 @@ router.post('/moderate/batch', async (req, res) => {
                 role: 'user',
                 content: prompt
               }
-            ],
-            temperature: 0.3,
-            max_tokens: 600,
-            response_format: { type: 'json_object' }
+            ]
           })
 
-          const aiResponse = completion.choices[0]?.message?.content
-          const parsed = JSON.parse(aiResponse || '{}')
+          const parsed = JSON.parse(completion.content || '{}')
 
           return {
             index,
@@ -359,8 +206,8 @@ router.post('/moderate/test', async (req, res) => {
       testEvents.map(async (content) => {
         const prompt = buildModerationPrompt(content, 'event_relevance')
 
-        const completion = await groq.chat.completions.create({
-          model: 'llama-3.1-70b-versatile',
+        const completion = await llm.complete({
+          useCase: 'moderation',
           messages: [
             {
               role: 'system',
@@ -370,13 +217,10 @@ router.post('/moderate/test', async (req, res) => {
               role: 'user',
               content: prompt
             }
-          ],
-          temperature: 0.3,
-          max_tokens: 600,
-          response_format: { type: 'json_object' }
+          ]
         })
 
-        const parsed = JSON.parse(completion.choices[0]?.message?.content || '{}')
+        const parsed = JSON.parse(completion.content || '{}')
         return {
           title: content.title,
           result: parsed
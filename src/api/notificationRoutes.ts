@@ -1,29 +1,57 @@
 /**
  * Push Notification API Routes for IVOR Core
- * Handles subscription management and notification delivery
+ * Handles subscription management, the notification queue (NotificationQueueService),
+ * Web Push delivery (PushNotificationService) and per-user channel choices and
+ * unsubscribe links for push and email (EmailService)
  *
  * Liberation Features:
  * - Community-controlled notifications
  * - Opt-in consent for all notifications
+ * - Topic preferences, quiet hours and daily digests respected on every send
+ * - One unsubscribe link works for every channel
  * - Event reminders for Black queer gatherings
  *
  * BLKOUT Community Liberation Platform
  */
 
-import express from 'express';
-import axios from 'axios';
+import express, { Response } from 'express';
+import { getVapidDetails } from '../lib/webPush.js';
+import { getPushNotificationService, NotificationError } from '../services/PushNotificationService.js';
+import { getNotificationQueueService } from '../services/NotificationQueueService.js';
+import { NOTIFICATION_PRIORITIES, QueueItemStatus } from '../services/NotificationQueueStore.js';
+import { getEmailService, EmailError } from '../services/EmailService.js';
+import { escapeHtml } from '../services/EmailTemplates.js';
 
 const router = express.Router();
 
-// Supabase configuration
-const SUPABASE_URL = process.env.SUPABASE_URL || '';
-const SUPABASE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.SUPABASE_ANON_KEY || '';
+function handleError(res: Response, error: unknown, fallbackMessage: string) {
+  if (error instanceof NotificationError || error instanceof EmailError) {
+    return res.status(error.status).json({ success: false, error: error.message });
+  }
+  console.error(`[Notifications] ${fallbackMessage}:`, error);
+  return res.status(500).json({
+    success: false,
+    error: fallbackMessage,
+    message: error instanceof Error ? error.message : String(error)
+  });
+}
 
-// Firebase configuration (for push notifications)
-const FIREBASE_SERVER_KEY = process.env.FIREBASE_SERVER_KEY || '';
+/**
+ * GET /api/notifications/vapid-public-key
+ * Application server key for PushManager.subscribe()
+ */
+router.get('/vapid-public-key', (req, res) => {
+  const vapid = getVapidDetails();
 
-// In-memory store for demo mode
-const demoSubscriptions: Map<string, any> = new Map();
+  if (!vapid) {
+    return res.status(503).json({
+      success: false,
+      error: 'Push notifications are not configured'
+    });
+  }
+
+  return res.status(200).json({ success: true, publicKey: vapid.publicKey });
+});
 
 /**
  * POST /api/notifications/subscribe
@@ -40,62 +68,25 @@ router.post('/subscribe', async (req, res) => {
       });
     }
 
-    const subscriptionData = {
-      user_id: userId || 'anonymous',
+    const service = getPushNotificationService();
+    await service.subscribe({
       endpoint: subscription.endpoint,
       p256dh: subscription.keys?.p256dh || '',
       auth: subscription.keys?.auth || '',
-      preferences: preferences || {
-        events: true,
-        news: true,
-        community: true,
-        reminders: true
-      },
-      created_at: new Date().toISOString(),
-      updated_at: new Date().toISOString()
-    };
-
-    if (!SUPABASE_URL || !SUPABASE_KEY) {
-      // Demo mode
-      demoSubscriptions.set(subscription.endpoint, subscriptionData);
-      console.log('[Notifications] Demo mode - subscription stored in memory');
-
-      return res.status(201).json({
-        success: true,
-        message: 'Subscription registered (demo mode)',
-        subscriptionId: subscription.endpoint.slice(-20)
-      });
-    }
-
-    // Store in Supabase
-    const response = await axios.post(
-      `${SUPABASE_URL}/rest/v1/notification_subscriptions`,
-      subscriptionData,
-      {
-        headers: {
-          'apikey': SUPABASE_KEY,
-          'Authorization': `Bearer ${SUPABASE_KEY}`,
-          'Content-Type': 'application/json',
-          'Prefer': 'return=representation'
-        }
-      }
-    );
+      userId: req.auth?.userId || userId,
+      preferences
+    });
 
     console.log('🔔 [Notifications] New subscription registered');
 
     return res.status(201).json({
       success: true,
-      message: 'Subscription registered',
-      subscriptionId: response.data?.[0]?.id
+      message: service.backend === 'memory' ? 'Subscription registered (demo mode)' : 'Subscription registered',
+      subscriptionId: subscription.endpoint.slice(-20)
     });
 
-  } catch (error: any) {
-    console.error('[Notifications] Subscribe error:', error.message);
-    return res.status(500).json({
-      success: false,
-      error: 'Failed to register subscription',
-      message: error.message
-    });
+  } catch (error) {
+    return handleError(res, error, 'Failed to register subscription');
   }
 });
 
@@ -114,27 +105,7 @@ router.delete('/unsubscribe', async (req, res) => {
       });
     }
 
-    if (!SUPABASE_URL || !SUPABASE_KEY) {
-      // Demo mode
-      demoSubscriptions.delete(endpoint);
-      return res.status(200).json({
-        success: true,
-        message: 'Unsubscribed (demo mode)'
-      });
-    }
-
-    await axios.delete(
-      `${SUPABASE_URL}/rest/v1/notification_subscriptions`,
-      {
-        params: {
-          endpoint: `eq.${endpoint}`
-        },
-        headers: {
-          'apikey': SUPABASE_KEY,
-          'Authorization': `Bearer ${SUPABASE_KEY}`
-        }
-      }
-    );
+    await getPushNotificationService().unsubscribe(endpoint);
 
     console.log('🔕 [Notifications] Subscription removed');
 
@@ -143,13 +114,8 @@ router.delete('/unsubscribe', async (req, res) => {
       message: 'Unsubscribed successfully'
     });
 
-  } catch (error: any) {
-    console.error('[Notifications] Unsubscribe error:', error.message);
-    return res.status(500).json({
-      success: false,
-      error: 'Failed to unsubscribe',
-      message: error.message
-    });
+  } catch (error) {
+    return handleError(res, error, 'Failed to unsubscribe');
   }
 });
 
@@ -168,64 +134,26 @@ router.get('/preferences', async (req, res) => {
       });
     }
 
-    if (!SUPABASE_URL || !SUPABASE_KEY) {
-      // Demo mode
-      const sub = demoSubscriptions.get(endpoint as string);
-      return res.status(200).json({
-        success: true,
-        preferences: sub?.preferences || {
-          events: true,
-          news: true,
-          community: true,
-          reminders: true
-        }
-      });
-    }
-
-    const params: any = {};
-    if (endpoint) params.endpoint = `eq.${endpoint}`;
-    if (userId) params.user_id = `eq.${userId}`;
-
-    const response = await axios.get(
-      `${SUPABASE_URL}/rest/v1/notification_subscriptions`,
-      {
-        params: {
-          ...params,
-          select: 'preferences',
-          limit: 1
-        },
-        headers: {
-          'apikey': SUPABASE_KEY,
-          'Authorization': `Bearer ${SUPABASE_KEY}`
-        }
-      }
-    );
-
-    const preferences = response.data?.[0]?.preferences || {
-      events: true,
-      news: true,
-      community: true,
-      reminders: true
-    };
+    const preferences = await getPushNotificationService().getPreferences({
+      endpoint: endpoint as string | undefined,
+      userId: userId as string | undefined
+    });
 
     return res.status(200).json({
       success: true,
       preferences
     });
 
-  } catch (error: any) {
-    console.error('[Notifications] Get preferences error:', error.message);
-    return res.status(500).json({
-      success: false,
-      error: 'Failed to get preferences',
-      message: error.message
-    });
+  } catch (error) {
+    return handleError(res, error, 'Failed to get preferences');
   }
 });
 
 /**
  * PUT /api/notifications/preferences
  * Update notification preferences
+ * Body: { endpoint | userId, preferences: { events, news, community, reminders, quietHours?, digest? } }
+ * quietHours: { start: "22:00", end: "07:00", timezone?: "Europe/London" }
  */
 router.put('/preferences', async (req, res) => {
   try {
@@ -245,163 +173,175 @@ router.put('/preferences', async (req, res) => {
       });
     }
 
-    if (!SUPABASE_URL || !SUPABASE_KEY) {
-      // Demo mode
-      const sub = demoSubscriptions.get(endpoint);
-      if (sub) {
-        sub.preferences = preferences;
-        sub.updated_at = new Date().toISOString();
-      }
-      return res.status(200).json({
-        success: true,
-        message: 'Preferences updated (demo mode)',
-        preferences
-      });
-    }
-
-    const params: any = {};
-    if (endpoint) params.endpoint = `eq.${endpoint}`;
-    if (userId) params.user_id = `eq.${userId}`;
-
-    await axios.patch(
-      `${SUPABASE_URL}/rest/v1/notification_subscriptions`,
-      {
-        preferences,
-        updated_at: new Date().toISOString()
-      },
-      {
-        params,
-        headers: {
-          'apikey': SUPABASE_KEY,
-          'Authorization': `Bearer ${SUPABASE_KEY}`,
-          'Content-Type': 'application/json'
-        }
-      }
-    );
+    const updated = await getPushNotificationService().updatePreferences({ endpoint, userId }, preferences);
 
     console.log('🔔 [Notifications] Preferences updated');
 
     return res.status(200).json({
       success: true,
       message: 'Preferences updated',
-      preferences
+      preferences,
+      updated
     });
 
-  } catch (error: any) {
-    console.error('[Notifications] Update preferences error:', error.message);
-    return res.status(500).json({
-      success: false,
-      error: 'Failed to update preferences',
-      message: error.message
+  } catch (error) {
+    return handleError(res, error, 'Failed to update preferences');
+  }
+});
+
+/**
+ * GET /api/notifications/channels
+ * The signed-in user's channel choices: email (opt-in) and push
+ */
+router.get('/channels', async (req, res) => {
+  try {
+    const service = getEmailService();
+    const channels = await service.getChannels(req.auth!.userId);
+
+    return res.status(200).json({ success: true, channels, emailConfigured: service.isConfigured() });
+
+  } catch (error) {
+    return handleError(res, error, 'Failed to get channel preferences');
+  }
+});
+
+/**
+ * PUT /api/notifications/channels
+ * Body: { email?, emailEnabled?, pushEnabled?, mutedTopics?, unsubscribedAll? }
+ */
+router.put('/channels', async (req, res) => {
+  try {
+    const { email, emailEnabled, pushEnabled, mutedTopics, unsubscribedAll } = req.body;
+
+    const channels = await getEmailService().updateChannels(req.auth!.userId, {
+      email: typeof email === 'string' ? email.trim() : undefined,
+      emailEnabled: typeof emailEnabled === 'boolean' ? emailEnabled : undefined,
+      pushEnabled: typeof pushEnabled === 'boolean' ? pushEnabled : undefined,
+      mutedTopics,
+      unsubscribedAll: typeof unsubscribedAll === 'boolean' ? unsubscribedAll : undefined
     });
+
+    return res.status(200).json({ success: true, message: 'Channel preferences updated', channels });
+
+  } catch (error) {
+    return handleError(res, error, 'Failed to update channel preferences');
   }
 });
 
+function unsubscribePage(title: string, body: string): string {
+  return `<!DOCTYPE html><html lang="en"><head><meta charset="utf-8"><meta name="viewport" content="width=device-width,initial-scale=1"><title>${escapeHtml(title)}</title></head>` +
+    `<body style="font-family:Helvetica,Arial,sans-serif;max-width:480px;margin:48px auto;padding:0 16px;color:#1a1a1a">` +
+    `<h1 style="font-size:22px">${escapeHtml(title)}</h1>${body}</body></html>`;
+}
+
+function describeScope(topic: string): string {
+  return topic === 'all' ? 'all BLKOUT notifications, by email and push' : `${topic} notifications, by email and push`;
+}
+
 /**
- * POST /api/notifications/send
- * Send a push notification (admin only)
+ * GET /api/notifications/unsubscribe/:token
+ * Confirmation page for an email unsubscribe link. Link scanners follow GETs,
+ * so nothing changes until the form is submitted.
  */
-router.post('/send', async (req, res) => {
+router.get('/unsubscribe/:token', (req, res) => {
   try {
-    const { title, body, icon, url, topic, data } = req.body;
+    const scope = getEmailService().describeUnsubscribe(req.params.token);
 
-    if (!title || !body) {
-      return res.status(400).json({
-        success: false,
-        error: 'Title and body required'
-      });
+    return res.status(200).type('html').send(unsubscribePage('Unsubscribe',
+      `<p>Stop receiving ${escapeHtml(describeScope(scope.topic))}? Tickets and order receipts will still be emailed.</p>` +
+      `<form method="post"><button type="submit" style="background:#FFD700;border:0;padding:12px 24px;font-weight:bold;cursor:pointer">Unsubscribe</button></form>`
+    ));
+
+  } catch (error) {
+    if (error instanceof EmailError) {
+      return res.status(error.status).type('html').send(unsubscribePage('Link not valid', `<p>${escapeHtml(error.message)}.</p>`));
     }
+    return handleError(res, error, 'Failed to load unsubscribe page');
+  }
+});
 
-    // Build notification payload
-    const notification = {
-      title,
-      body,
-      icon: icon || '/pwa-192x192.png',
-      badge: '/favicon-32x32.png',
-      data: {
-        url: url || '/',
-        ...data
-      }
-    };
+/**
+ * POST /api/notifications/unsubscribe/:token
+ * Applies the unsubscribe; also the one-click target of the List-Unsubscribe header (RFC 8058)
+ */
+router.post('/unsubscribe/:token', async (req, res) => {
+  try {
+    const scope = await getEmailService().unsubscribe(req.params.token);
 
-    if (!SUPABASE_URL || !SUPABASE_KEY) {
-      // Demo mode - just log
-      console.log('🔔 [Notifications] Demo mode - would send:', notification);
-      return res.status(200).json({
-        success: true,
-        message: 'Notification queued (demo mode)',
-        notification,
-        sentTo: demoSubscriptions.size
-      });
-    }
+    return res.status(200).type('html').send(unsubscribePage('You have been unsubscribed',
+      `<p>You won't receive ${escapeHtml(describeScope(scope.topic))} any more. You can turn them back on from your notification settings.</p>`
+    ));
 
-    // Get subscriptions filtered by topic/preferences
-    const params: any = { select: 'endpoint,p256dh,auth,preferences' };
-    if (topic) {
-      params[`preferences->>${topic}`] = 'eq.true';
+  } catch (error) {
+    if (error instanceof EmailError) {
+      return res.status(error.status).type('html').send(unsubscribePage('Link not valid', `<p>${escapeHtml(error.message)}.</p>`));
     }
+    return handleError(res, error, 'Failed to unsubscribe');
+  }
+});
 
-    const subsResponse = await axios.get(
-      `${SUPABASE_URL}/rest/v1/notification_subscriptions`,
-      {
-        params,
-        headers: {
-          'apikey': SUPABASE_KEY,
-          'Authorization': `Bearer ${SUPABASE_KEY}`
-        }
-      }
-    );
-
-    const subscriptions = subsResponse.data || [];
-
-    // Log notification attempt
-    await axios.post(
-      `${SUPABASE_URL}/rest/v1/notification_log`,
-      {
-        title,
-        body,
-        topic: topic || 'general',
-        sent_count: subscriptions.length,
-        created_at: new Date().toISOString()
-      },
-      {
-        headers: {
-          'apikey': SUPABASE_KEY,
-          'Authorization': `Bearer ${SUPABASE_KEY}`,
-          'Content-Type': 'application/json'
-        }
-      }
-    );
+function parseScheduledAt(value: unknown): Date | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  const date = new Date(String(value));
+  if (Number.isNaN(date.getTime())) {
+    throw new NotificationError('scheduledAt must be a valid date');
+  }
+  return date;
+}
 
-    console.log(`🔔 [Notifications] Queued for ${subscriptions.length} subscribers`);
+// Send anything already due straight away rather than waiting for the scheduler
+function drainQueue() {
+  getNotificationQueueService().processDue().catch(error => {
+    console.error('[Notifications] Queue processing failed:', error);
+  });
+}
 
-    // In a production system, you would send via web-push library or Firebase
-    // This is a placeholder for the actual push mechanism
+/**
+ * POST /api/notifications/send
+ * Queue a push notification (admin only)
+ * Body: { title, body, icon?, url?, topic?, data?, userIds?, priority?, scheduledAt?, dedupeKey? }
+ * Due notifications start sending immediately; follow them with GET /api/notifications/queue/:itemId.
+ */
+router.post('/send', async (req, res) => {
+  try {
+    const { title, body, icon, url, topic, data, userIds, priority, scheduledAt, dedupeKey } = req.body;
 
-    return res.status(200).json({
-      success: true,
-      message: 'Notification queued',
-      notification,
-      sentTo: subscriptions.length
+    const { items, duplicates } = await getNotificationQueueService().enqueue({
+      title,
+      body,
+      url,
+      topic,
+      data: icon ? { ...data, icon } : data,
+      userIds: Array.isArray(userIds) ? userIds : undefined,
+      priority: NOTIFICATION_PRIORITIES.includes(priority) ? priority : undefined,
+      scheduledAt: parseScheduledAt(scheduledAt),
+      dedupeKey
     });
+    drainQueue();
 
-  } catch (error: any) {
-    console.error('[Notifications] Send error:', error.message);
-    return res.status(500).json({
-      success: false,
-      error: 'Failed to send notification',
-      message: error.message
+    console.log(`🔔 [Notifications] Queued ${items.length} notification(s)`);
+
+    return res.status(202).json({
+      success: true,
+      message: duplicates === items.length ? 'Notification already queued' : 'Notification queued',
+      queued: items.map(item => ({ id: item.id, status: item.status, scheduledAt: item.scheduledAt, digest: item.digest })),
+      duplicates,
+      pushConfigured: getPushNotificationService().isConfigured()
     });
+
+  } catch (error) {
+    return handleError(res, error, 'Failed to send notification');
   }
 });
 
 /**
  * POST /api/notifications/event-reminder
  * Send event reminder notification
+ * The scheduler also queues 24h/1h reminders for RSVP'd events automatically.
  */
 router.post('/event-reminder', async (req, res) => {
   try {
-    const { eventId, eventTitle, eventDate, reminderType } = req.body;
+    const { eventId, eventTitle, eventDate, reminderType, userIds } = req.body;
 
     if (!eventId || !eventTitle) {
       return res.status(400).json({
@@ -419,36 +359,95 @@ router.post('/event-reminder', async (req, res) => {
     const notification = {
       title: '🏴‍☠️ BLKOUT Event Reminder',
       body: reminderMessages[reminderType] || `Don't miss: ${eventTitle}`,
-      icon: '/pwa-192x192.png',
+      url: `/events/${eventId}`,
       data: {
-        url: `/events/${eventId}`,
         eventId,
+        eventDate,
         type: 'event-reminder'
       }
     };
 
-    // Forward to main send endpoint
-    const sendResponse = await axios.post(
-      `http://localhost:${process.env.PORT || 3021}/api/notifications/send`,
-      {
-        ...notification,
-        topic: 'reminders'
-      }
-    );
+    const { items, duplicates } = await getNotificationQueueService().enqueue({
+      ...notification,
+      topic: 'reminders',
+      userIds: Array.isArray(userIds) ? userIds : undefined,
+      priority: reminderType === '24h' ? 'normal' : 'high',
+      // The same reminder can't be sent twice
+      dedupeKey: `event-reminder:${eventId}:${reminderType || 'manual'}`
+    });
+    drainQueue();
 
-    return res.status(200).json({
+    return res.status(202).json({
       success: true,
-      message: 'Event reminder queued',
+      message: duplicates > 0 ? 'Event reminder already queued' : 'Event reminder queued',
+      queued: items.map(item => item.id),
       notification
     });
 
-  } catch (error: any) {
-    console.error('[Notifications] Event reminder error:', error.message);
-    return res.status(500).json({
-      success: false,
-      error: 'Failed to send event reminder',
-      message: error.message
+  } catch (error) {
+    return handleError(res, error, 'Failed to send event reminder');
+  }
+});
+
+/**
+ * GET /api/notifications/queue?status=&userId=&limit=
+ * Queued notifications, newest first
+ */
+router.get('/queue', async (req, res) => {
+  try {
+    const { status, userId, limit } = req.query;
+
+    const items = await getNotificationQueueService().list({
+      status: status as QueueItemStatus | undefined,
+      userId: userId as string | undefined,
+      limit: limit ? Math.min(parseInt(limit as string) || 100, 500) : undefined
     });
+
+    return res.status(200).json({ success: true, count: items.length, items });
+
+  } catch (error) {
+    return handleError(res, error, 'Failed to list queued notifications');
+  }
+});
+
+router.get('/queue/:itemId', async (req, res) => {
+  try {
+    const item = await getNotificationQueueService().get(req.params.itemId);
+
+    return res.status(200).json({ success: true, item });
+
+  } catch (error) {
+    return handleError(res, error, 'Failed to get queued notification');
+  }
+});
+
+/**
+ * DELETE /api/notifications/queue/:itemId
+ * Cancel a notification that hasn't gone out yet
+ */
+router.delete('/queue/:itemId', async (req, res) => {
+  try {
+    const item = await getNotificationQueueService().cancel(req.params.itemId);
+
+    return res.status(200).json({ success: true, message: 'Notification cancelled', item });
+
+  } catch (error) {
+    return handleError(res, error, 'Failed to cancel notification');
+  }
+});
+
+/**
+ * GET /api/notifications/log/:notificationId
+ * A sent notification with its per-subscription delivery results
+ */
+router.get('/log/:notificationId', async (req, res) => {
+  try {
+    const result = await getPushNotificationService().getNotification(req.params.notificationId);
+
+    return res.status(200).json({ success: true, ...result });
+
+  } catch (error) {
+    return handleError(res, error, 'Failed to get notification');
   }
 });
 
@@ -458,66 +457,20 @@ router.post('/event-reminder', async (req, res) => {
  */
 router.get('/stats', async (req, res) => {
   try {
-    if (!SUPABASE_URL || !SUPABASE_KEY) {
-      return res.status(200).json({
-        success: true,
-        message: 'Demo mode',
-        stats: {
-          totalSubscriptions: demoSubscriptions.size,
-          notificationsSent: 0
-        }
-      });
-    }
-
-    // Get subscription count
-    const subsResponse = await axios.get(
-      `${SUPABASE_URL}/rest/v1/notification_subscriptions`,
-      {
-        params: { select: 'id' },
-        headers: {
-          'apikey': SUPABASE_KEY,
-          'Authorization': `Bearer ${SUPABASE_KEY}`,
-          'Prefer': 'count=exact'
-        }
-      }
-    );
-
-    // Get recent notification log
-    const logResponse = await axios.get(
-      `${SUPABASE_URL}/rest/v1/notification_log`,
-      {
-        params: {
-          select: 'id,title,topic,sent_count,created_at',
-          order: 'created_at.desc',
-          limit: 10
-        },
-        headers: {
-          'apikey': SUPABASE_KEY,
-          'Authorization': `Bearer ${SUPABASE_KEY}`
-        }
-      }
-    );
-
-    const totalSent = (logResponse.data || []).reduce(
-      (sum: number, log: any) => sum + (log.sent_count || 0), 0
-    );
+    const service = getPushNotificationService();
+    const stats = await service.getStats();
 
     return res.status(200).json({
       success: true,
+      ...(service.backend === 'memory' ? { message: 'Demo mode' } : {}),
       stats: {
-        totalSubscriptions: parseInt(subsResponse.headers['content-range']?.split('/')[1] || '0'),
-        notificationsSent: totalSent,
-        recentNotifications: logResponse.data || []
+        ...stats,
+        pushConfigured: service.isConfigured()
       }
     });
 
-  } catch (error: any) {
-    console.error('[Notifications] Stats error:', error.message);
-    return res.status(500).json({
-      success: false,
-      error: 'Failed to get notification stats',
-      message: error.message
-    });
+  } catch (error) {
+    return handleError(res, error, 'Failed to get notification stats');
   }
 });
 
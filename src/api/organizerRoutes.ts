@@ -1,18 +1,92 @@
 /**
  * Organizer Management Routes
- * Dashboard and analytics for event organizers
+ * Profiles, verification, event teams, dashboard and analytics for event organizers
  *
  * Liberation Feature: Empowering Black queer event creators
  */
 
-import { Router } from 'express'
+import { Response, Router } from 'express'
+import { hasRole } from '../lib/auth.js'
+import { getAnalyticsService } from '../services/AnalyticsService.js'
+import { OrganizerError, ROLE_PERMISSIONS, getOrganizerService } from '../services/OrganizerService.js'
+import {
+  Collaborator,
+  OrganizerProfile,
+  VERIFICATION_STATUSES,
+  VerificationRequest,
+  VerificationStatus
+} from '../services/OrganizerStore.js'
 
 const router = Router()
 
-// In-memory store for demo mode
-const organizers = new Map<string, any>()
-const collaborators = new Map<string, any[]>()
-const analytics = new Map<string, any[]>()
+function handleOrganizerError(res: Response, error: unknown, fallbackMessage: string) {
+  if (error instanceof OrganizerError) {
+    return res.status(error.status).json({ success: false, error: error.message })
+  }
+  console.error(`[Organizer] ${fallbackMessage}:`, error)
+  res.status(500).json({ success: false, error: fallbackMessage })
+}
+
+// Responses keep the event_organizers row shape clients already read
+function profileJson(profile: OrganizerProfile) {
+  return {
+    id: profile.id,
+    user_id: profile.userId,
+    display_name: profile.displayName,
+    bio: profile.bio ?? null,
+    avatar_url: profile.avatarUrl ?? null,
+    website_url: profile.websiteUrl ?? null,
+    social_links: profile.socialLinks,
+    is_verified: profile.isVerified,
+    verified_at: profile.verifiedAt?.toISOString() ?? null,
+    can_create_events: profile.canCreateEvents,
+    can_feature_events: profile.canFeatureEvents,
+    can_moderate: profile.canModerate,
+    max_events_per_month: profile.maxEventsPerMonth,
+    total_events: profile.totalEvents,
+    total_attendees: profile.totalAttendees,
+    average_rating: profile.averageRating,
+    liberation_score: profile.liberationScore,
+    community_impact_score: profile.communityImpactScore,
+    created_at: profile.createdAt.toISOString(),
+    updated_at: profile.updatedAt.toISOString()
+  }
+}
+
+function verificationJson(request: VerificationRequest) {
+  return {
+    id: request.id,
+    user_id: request.userId,
+    evidence: request.evidence,
+    notes: request.notes ?? null,
+    status: request.status,
+    reviewed_by: request.reviewedBy ?? null,
+    reviewed_at: request.reviewedAt?.toISOString() ?? null,
+    review_notes: request.reviewNotes ?? null,
+    revoked_at: request.revokedAt?.toISOString() ?? null,
+    revocation_reason: request.revocationReason ?? null,
+    created_at: request.createdAt.toISOString()
+  }
+}
+
+function collaboratorJson(collaborator: Collaborator) {
+  const permissions = ROLE_PERMISSIONS[collaborator.role]
+  return {
+    id: collaborator.id,
+    event_id: collaborator.eventId,
+    user_id: collaborator.userId,
+    email: collaborator.email ?? null,
+    role: collaborator.role,
+    status: collaborator.status,
+    can_edit: permissions.includes('edit'),
+    can_manage_rsvps: permissions.includes('manage_rsvps'),
+    can_check_in: permissions.includes('check_in'),
+    can_view_analytics: permissions.includes('view_analytics'),
+    invited_by: collaborator.invitedBy ?? null,
+    accepted_at: collaborator.acceptedAt?.toISOString() ?? null,
+    invited_at: collaborator.createdAt.toISOString()
+  }
+}
 
 // ============================================
 // Organizer Profile Endpoints
@@ -20,102 +94,163 @@ const analytics = new Map<string, any[]>()
 
 /**
  * GET /api/organizer/profile/:userId
- * Get organizer profile
+ * Get organizer profile (defaults for someone who hasn't set one up)
  */
 router.get('/profile/:userId', async (req, res) => {
   try {
-    const { userId } = req.params
-
-    let organizer = organizers.get(userId)
-
-    if (!organizer) {
-      // Return default profile for new organizers
-      organizer = {
-        id: `org_${Date.now()}`,
-        user_id: userId,
-        display_name: 'New Organizer',
-        bio: null,
-        is_verified: false,
-        can_create_events: true,
-        can_feature_events: false,
-        can_moderate: false,
-        max_events_per_month: 10,
-        total_events: 0,
-        total_attendees: 0,
-        average_rating: 0,
-        liberation_score: 50,
-        community_impact_score: 50,
-        created_at: new Date().toISOString()
-      }
-    }
+    const profile = await getOrganizerService().getProfile(req.params.userId)
 
     res.json({
       success: true,
-      organizer
+      organizer: profileJson(profile)
     })
   } catch (error) {
-    console.error('[Organizer] Profile error:', error)
-    res.status(500).json({ success: false, error: 'Failed to fetch profile' })
+    handleOrganizerError(res, error, 'Failed to fetch profile')
   }
 })
 
 /**
  * PUT /api/organizer/profile/:userId
  * Update organizer profile
+ * Body: { display_name?, bio?, avatar_url?, website_url?, social_links? }
+ * Admins may also set can_create_events, can_feature_events, can_moderate, max_events_per_month
  */
 router.put('/profile/:userId', async (req, res) => {
   try {
-    const { userId } = req.params
-    const updates = req.body
-
-    let organizer = organizers.get(userId) || {
-      id: `org_${Date.now()}`,
-      user_id: userId,
-      created_at: new Date().toISOString()
-    }
-
-    organizer = {
-      ...organizer,
-      ...updates,
-      updated_at: new Date().toISOString()
-    }
-
-    organizers.set(userId, organizer)
-
-    console.log(`📝 [Organizer] Profile updated: ${userId}`)
+    const body = req.body || {}
+    const profile = await getOrganizerService().updateProfile(req.params.userId, {
+      displayName: body.display_name,
+      bio: body.bio,
+      avatarUrl: body.avatar_url,
+      websiteUrl: body.website_url,
+      socialLinks: body.social_links,
+      canCreateEvents: body.can_create_events,
+      canFeatureEvents: body.can_feature_events,
+      canModerate: body.can_moderate,
+      maxEventsPerMonth: body.max_events_per_month
+    }, hasRole(req.auth, ['admin']))
 
     res.json({
       success: true,
       message: 'Profile updated',
-      organizer
+      organizer: profileJson(profile)
     })
   } catch (error) {
-    console.error('[Organizer] Update error:', error)
-    res.status(500).json({ success: false, error: 'Failed to update profile' })
+    handleOrganizerError(res, error, 'Failed to update profile')
   }
 })
 
+// ============================================
+// Verification Endpoints
+// ============================================
+
 /**
  * POST /api/organizer/verify/:userId
- * Request organizer verification
+ * Apply for organizer verification
+ * Body: { evidence: [{ type: 'website' | 'social' | 'past_event' | 'press' | 'reference' | 'other', url?, description? }], notes? }
  */
 router.post('/verify/:userId', async (req, res) => {
   try {
-    const { userId } = req.params
-    const { evidence, notes } = req.body
-
-    // In production, this would create a verification request
-    console.log(`🔍 [Organizer] Verification requested: ${userId}`)
+    const { evidence, notes } = req.body || {}
+    const request = await getOrganizerService().applyForVerification(req.params.userId, { evidence, notes })
 
     res.json({
       success: true,
       message: 'Verification request submitted',
-      status: 'pending',
+      status: request.status,
+      request: verificationJson(request),
       estimatedReviewTime: '2-3 business days'
     })
   } catch (error) {
-    console.error('[Organizer] Verify error:', error)
-    res.status(500).json({ success: false, error: 'Failed to submit verification' })
+    handleOrganizerError(res, error, 'Failed to submit verification')
+  }
+})
+
+/**
+ * GET /api/organizer/verify/:userId
+ * Verification badge and the latest application (the organizer, or moderators)
+ */
+router.get('/verify/:userId', async (req, res) => {
+  try {
+    const { isVerified, request } = await getOrganizerService().verificationStatus(req.params.userId)
+
+    res.json({
+      success: true,
+      isVerified,
+      request: request && verificationJson(request)
+    })
+  } catch (error) {
+    handleOrganizerError(res, error, 'Failed to fetch verification status')
+  }
+})
+
+/**
+ * DELETE /api/organizer/verify/:userId
+ * Revoke an organizer's verification (moderator only)
+ * Body: { reason: string }
+ */
+router.delete('/verify/:userId', async (req, res) => {
+  try {
+    const profile = await getOrganizerService().revokeVerification(req.params.userId, req.auth!.userId, req.body?.reason)
+
+    res.json({
+      success: true,
+      message: 'Verification revoked',
+      organizer: profileJson(profile)
+    })
+  } catch (error) {
+    handleOrganizerError(res, error, 'Failed to revoke verification')
+  }
+})
+
+/**
+ * GET /api/organizer/verifications
+ * Verification applications, oldest first (moderator only)
+ * Query: status (default pending), page, limit
+ */
+router.get('/verifications', async (req, res) => {
+  try {
+    const status = String(req.query.status || 'pending') as VerificationStatus
+    if (!VERIFICATION_STATUSES.includes(status)) {
+      return res.status(400).json({ success: false, error: `status must be one of: ${VERIFICATION_STATUSES.join(', ')}` })
+    }
+    const page = Math.max(1, Number(req.query.page) || 1)
+    const limit = Math.min(100, Math.max(1, Number(req.query.limit) || 20))
+
+    const result = await getOrganizerService().listVerifications({ status, limit, offset: (page - 1) * limit })
+
+    res.json({
+      success: true,
+      requests: result.items.map(verificationJson),
+      pagination: { page, limit, total: result.total, hasMore: page * limit < result.total }
+    })
+  } catch (error) {
+    handleOrganizerError(res, error, 'Failed to fetch verification requests')
+  }
+})
+
+/**
+ * POST /api/organizer/verifications/:requestId/review
+ * Approve or reject an application (moderator only). Approval grants the
+ * verified badge and the organizer role.
+ * Body: { decision: 'approve' | 'reject', notes? }
+ */
+router.post('/verifications/:requestId/review', async (req, res) => {
+  try {
+    const { decision, notes } = req.body || {}
+    if (decision !== 'approve' && decision !== 'reject') {
+      return res.status(400).json({ success: false, error: 'decision must be approve or reject' })
+    }
+
+    const request = await getOrganizerService().reviewVerification(req.params.requestId, decision, req.auth!.userId, notes)
+
+    res.json({
+      success: true,
+      message: decision === 'approve' ? 'Organizer verified' : 'Verification request rejected',
+      request: verificationJson(request)
+    })
+  } catch (error) {
+    handleOrganizerError(res, error, 'Failed to review verification request')
   }
 })
 
@@ -132,7 +267,7 @@ router.get('/dashboard/:userId', async (req, res) => {
     const { userId } = req.params
 
     // Get organizer profile
-    const organizer = organizers.get(userId)
+    const organizer = profileJson(await getOrganizerService().getProfile(userId))
 
     // Get user's events (mock data for demo)
     const upcomingEvents = [
@@ -161,11 +296,11 @@ router.get('/dashboard/:userId', async (req, res) => {
     ]
 
     const stats = {
-      totalEvents: organizer?.total_events || 5,
-      totalAttendees: organizer?.total_attendees || 234,
+      totalEvents: organizer.total_events || 5,
+      totalAttendees: organizer.total_attendees || 234,
       upcomingEvents: upcomingEvents.length,
-      averageRating: organizer?.average_rating || 4.8,
-      liberationScore: organizer?.liberation_score || 75,
+      averageRating: organizer.average_rating || 4.8,
+      liberationScore: organizer.liberation_score || 75,
       thisMonth: {
         events: 2,
         rsvps: 73,
@@ -266,78 +401,38 @@ router.get('/events/:userId', async (req, res) => {
 
 /**
  * GET /api/organizer/analytics/:userId
- * Get organizer analytics overview
+ * Analytics across the events an organizer submitted, from the nightly rollup
+ * Query: period ('7d' | '30d' | '90d')
  */
 router.get('/analytics/:userId', async (req, res) => {
   try {
     const { userId } = req.params
     const { period = '30d' } = req.query
 
-    // Generate mock analytics
     const periodDays = period === '7d' ? 7 : period === '30d' ? 30 : 90
-
-    const dailyData = Array.from({ length: periodDays }, (_, i) => {
-      const date = new Date(Date.now() - (periodDays - i - 1) * 24 * 60 * 60 * 1000)
-      return {
-        date: date.toISOString().split('T')[0],
-        views: Math.floor(Math.random() * 50) + 10,
-        rsvps: Math.floor(Math.random() * 10),
-        checkIns: Math.floor(Math.random() * 8)
-      }
-    })
-
-    const totals = dailyData.reduce((acc, day) => ({
-      views: acc.views + day.views,
-      rsvps: acc.rsvps + day.rsvps,
-      checkIns: acc.checkIns + day.checkIns
-    }), { views: 0, rsvps: 0, checkIns: 0 })
-
-    const topEvents = [
-      { id: 'evt_1', name: 'Liberation Gathering', views: 234, rsvps: 45 },
-      { id: 'evt_2', name: 'Community Mixer', views: 156, rsvps: 28 },
-      { id: 'evt_3', name: 'Past Workshop', views: 189, rsvps: 35 }
-    ]
-
-    const demographics = {
-      ageGroups: [
-        { range: '18-24', percentage: 15 },
-        { range: '25-34', percentage: 45 },
-        { range: '35-44', percentage: 28 },
-        { range: '45+', percentage: 12 }
-      ],
-      locations: [
-        { city: 'London', percentage: 55 },
-        { city: 'Manchester', percentage: 20 },
-        { city: 'Birmingham', percentage: 15 },
-        { city: 'Other', percentage: 10 }
-      ]
-    }
-
-    const liberationImpact = {
-      score: 78,
-      trend: '+5',
-      metrics: {
-        communityReach: 456,
-        engagementRate: 0.72,
-        returnAttendees: 0.45,
-        diversityScore: 0.85
-      }
-    }
+    const report = await getAnalyticsService().organizerReport(userId, { days: periodDays })
+
+    const topEvents = report.events.slice(0, 5).map(event => ({
+      id: event.id,
+      name: event.title,
+      date: event.date,
+      views: event.totals.views,
+      rsvps: event.totals.rsvps,
+      checkIns: event.totals.checkIns,
+      ticketsSold: event.totals.ticketsSold,
+      funnel: event.funnel
+    }))
 
     res.json({
       success: true,
       analytics: {
         period,
-        totals,
-        dailyData,
-        topEvents,
-        demographics,
-        liberationImpact,
-        insights: [
-          { type: 'success', message: 'Your events have 23% higher attendance than average' },
-          { type: 'tip', message: 'Events on Saturdays tend to get more RSVPs' },
-          { type: 'growth', message: 'Liberation impact score increased by 5 points this month' }
-        ]
+        from: report.from,
+        to: report.to,
+        totals: report.totals,
+        funnel: report.funnel,
+        dailyData: report.trends,
+        topEvents
       }
     })
   } catch (error) {
@@ -348,50 +443,50 @@ router.get('/analytics/:userId', async (req, res) => {
 
 /**
  * GET /api/organizer/analytics/event/:eventId
- * Get analytics for a specific event
+ * Get analytics for a specific event (its owner, co-hosts and analysts, or moderators)
+ * Query: period ('7d' | '30d' | '90d')
  */
 router.get('/analytics/event/:eventId', async (req, res) => {
   try {
     const { eventId } = req.params
+    const { period = '30d' } = req.query
 
-    const eventAnalytics = {
-      eventId,
-      overview: {
-        views: 234,
-        uniqueVisitors: 189,
-        rsvps: 45,
-        waitlist: 5,
-        checkIns: 0,
-        cancellations: 3,
-        conversionRate: 0.19
-      },
-      timeline: [
-        { date: '2025-12-10', views: 45, rsvps: 12 },
-        { date: '2025-12-11', views: 67, rsvps: 15 },
-        { date: '2025-12-12', views: 89, rsvps: 10 },
-        { date: '2025-12-13', views: 33, rsvps: 8 }
-      ],
-      sources: [
-        { source: 'direct', count: 89, percentage: 38 },
-        { source: 'social', count: 78, percentage: 33 },
-        { source: 'search', count: 45, percentage: 19 },
-        { source: 'referral', count: 22, percentage: 10 }
-      ],
-      engagement: {
-        calendarAdds: 38,
-        shares: 12,
-        saves: 23,
-        comments: 5
-      }
+    if (!hasRole(req.auth, ['moderator'])) {
+      await getOrganizerService().requirePermission(eventId, req.auth?.userId, 'view_analytics')
     }
 
+    const periodDays = period === '7d' ? 7 : period === '30d' ? 30 : 90
+    const report = await getAnalyticsService().eventReport(eventId, { days: periodDays })
+    const { totals } = report
+
     res.json({
       success: true,
-      analytics: eventAnalytics
+      analytics: {
+        eventId,
+        period,
+        from: report.from,
+        to: report.to,
+        overview: {
+          views: totals.views,
+          uniqueVisitors: totals.uniqueViews,
+          rsvps: totals.rsvps,
+          checkIns: totals.checkIns,
+          cancellations: totals.cancellations,
+          ticketsSold: totals.ticketsSold,
+          revenue: (totals.revenuePence / 100).toFixed(2),
+          conversionRate: report.funnel[1].rate
+        },
+        funnel: report.funnel,
+        timeline: report.trends,
+        engagement: {
+          clicks: totals.clicks,
+          shares: totals.shares,
+          saves: totals.saves
+        }
+      }
     })
   } catch (error) {
-    console.error('[Organizer] Event analytics error:', error)
-    res.status(500).json({ success: false, error: 'Failed to fetch event analytics' })
+    handleOrganizerError(res, error, 'Failed to fetch event analytics')
   }
 })
 
@@ -399,87 +494,117 @@ router.get('/analytics/event/:eventId', async (req, res) => {
 // Collaborator Endpoints
 // ============================================
 
+/**
+ * GET /api/organizer/invitations
+ * Invitations to help run events, waiting for the caller's answer
+ */
+router.get('/invitations', async (req, res) => {
+  try {
+    const invitations = await getOrganizerService().listInvitations(req.auth!.userId)
+
+    res.json({
+      success: true,
+      invitations: invitations.map(collaboratorJson)
+    })
+  } catch (error) {
+    handleOrganizerError(res, error, 'Failed to fetch invitations')
+  }
+})
+
+/**
+ * POST /api/organizer/invitations/:collaboratorId/:decision
+ * Accept or decline an invitation to help run an event (the invitee)
+ */
+router.post('/invitations/:collaboratorId/:decision(accept|decline)', async (req, res) => {
+  try {
+    const accept = req.params.decision === 'accept'
+    const collaborator = await getOrganizerService().respondToInvitation(req.params.collaboratorId, req.auth!.userId, accept)
+
+    res.json({
+      success: true,
+      message: accept ? 'Invitation accepted' : 'Invitation declined',
+      collaborator: collaboratorJson(collaborator)
+    })
+  } catch (error) {
+    handleOrganizerError(res, error, 'Failed to answer invitation')
+  }
+})
+
 /**
  * GET /api/organizer/collaborators/:eventId
- * Get event collaborators
+ * The event's team and outstanding invitations (anyone on the team)
  */
 router.get('/collaborators/:eventId', async (req, res) => {
   try {
-    const { eventId } = req.params
-
-    const eventCollaborators = collaborators.get(eventId) || []
+    const collaborators = await getOrganizerService().listCollaborators(req.params.eventId, req.auth!.userId)
 
     res.json({
       success: true,
-      collaborators: eventCollaborators
+      collaborators: collaborators.map(collaboratorJson)
     })
   } catch (error) {
-    console.error('[Organizer] Collaborators error:', error)
-    res.status(500).json({ success: false, error: 'Failed to fetch collaborators' })
+    handleOrganizerError(res, error, 'Failed to fetch collaborators')
   }
 })
 
 /**
  * POST /api/organizer/collaborators/:eventId
- * Add a collaborator to an event
+ * Invite someone to help run the event (event owner). They join once they accept.
+ * Body: { userId, email?, role: 'co_host' | 'check_in' | 'analyst' }
  */
 router.post('/collaborators/:eventId', async (req, res) => {
   try {
-    const { eventId } = req.params
-    const { userId, email, role = 'collaborator', permissions } = req.body
-
-    const collaborator = {
-      id: `collab_${Date.now()}`,
-      event_id: eventId,
-      user_id: userId,
-      email,
-      role,
-      can_edit: permissions?.canEdit ?? false,
-      can_manage_rsvps: permissions?.canManageRsvps ?? false,
-      can_check_in: permissions?.canCheckIn ?? true,
-      can_view_analytics: permissions?.canViewAnalytics ?? false,
-      status: 'pending',
-      invited_at: new Date().toISOString()
-    }
+    const { userId, email, role } = req.body || {}
+    const collaborator = await getOrganizerService().invite(req.params.eventId, req.auth!.userId, { userId, email, role })
 
-    const eventCollaborators = collaborators.get(eventId) || []
-    eventCollaborators.push(collaborator)
-    collaborators.set(eventId, eventCollaborators)
+    res.json({
+      success: true,
+      message: 'Collaborator invited',
+      collaborator: collaboratorJson(collaborator)
+    })
+  } catch (error) {
+    handleOrganizerError(res, error, 'Failed to add collaborator')
+  }
+})
 
-    console.log(`👥 [Organizer] Collaborator added: ${email} to ${eventId}`)
+/**
+ * PUT /api/organizer/collaborators/:eventId/:collaboratorId
+ * Change a collaborator's role (event owner)
+ * Body: { role: 'co_host' | 'check_in' | 'analyst' }
+ */
+router.put('/collaborators/:eventId/:collaboratorId', async (req, res) => {
+  try {
+    const collaborator = await getOrganizerService().changeRole(
+      req.params.eventId,
+      req.params.collaboratorId,
+      req.body?.role,
+      req.auth!.userId
+    )
 
     res.json({
       success: true,
-      message: 'Collaborator invited',
-      collaborator
+      message: 'Role updated',
+      collaborator: collaboratorJson(collaborator)
     })
   } catch (error) {
-    console.error('[Organizer] Add collaborator error:', error)
-    res.status(500).json({ success: false, error: 'Failed to add collaborator' })
+    handleOrganizerError(res, error, 'Failed to update collaborator')
   }
 })
 
 /**
  * DELETE /api/organizer/collaborators/:eventId/:collaboratorId
- * Remove a collaborator
+ * Remove a collaborator or withdraw an invitation (event owner), or step down yourself
  */
 router.delete('/collaborators/:eventId/:collaboratorId', async (req, res) => {
   try {
-    const { eventId, collaboratorId } = req.params
-
-    const eventCollaborators = collaborators.get(eventId) || []
-    const filtered = eventCollaborators.filter(c => c.id !== collaboratorId)
-    collaborators.set(eventId, filtered)
-
-    console.log(`👥 [Organizer] Collaborator removed: ${collaboratorId} from ${eventId}`)
+    await getOrganizerService().removeCollaborator(req.params.eventId, req.params.collaboratorId, req.auth!.userId)
 
     res.json({
       success: true,
       message: 'Collaborator removed'
     })
   } catch (error) {
-    console.error('[Organizer] Remove collaborator error:', error)
-    res.status(500).json({ success: false, error: 'Failed to remove collaborator' })
+    handleOrganizerError(res, error, 'Failed to remove collaborator')
   }
 })
 
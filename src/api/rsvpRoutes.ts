@@ -14,6 +14,18 @@
 import express from 'express';
 import axios from 'axios';
 import crypto from 'crypto';
+import { trackActivity } from '../services/AchievementService.js';
+import { trackEventMetric } from '../services/AnalyticsService.js';
+import { getNotificationQueueService } from '../services/NotificationQueueService.js';
+import { getEmailService } from '../services/EmailService.js';
+import { WaitlistService, WaitlistError, getWaitlistService } from '../services/WaitlistService.js';
+import { InMemoryWaitlistStore } from '../services/WaitlistStore.js';
+import { TicketService, TicketError, getTicketService } from '../services/TicketService.js';
+import { InMemoryTicketCheckInStore } from '../services/TicketCheckInStore.js';
+import { createTicketToken, ticketPublicKeyJwk } from '../lib/ticketTokens.js';
+import { isOccurrence, parseOccurrenceId } from '../lib/recurrence.js';
+import { hasRole } from '../lib/auth.js';
+import { getOrganizerService } from '../services/OrganizerService.js';
 
 const router = express.Router();
 
@@ -25,11 +37,159 @@ const SUPABASE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.SUPABA
 const demoRsvps: Map<string, any> = new Map();
 const demoCapacity: Map<string, any> = new Map();
 
+// Demo mode promotes from the in-memory maps above
+let demoWaitlist: WaitlistService | null = null;
+const getWaitlist = () => {
+  if (SUPABASE_URL && SUPABASE_KEY) return getWaitlistService();
+  if (!demoWaitlist) demoWaitlist = new WaitlistService(new InMemoryWaitlistStore(demoRsvps, demoCapacity));
+  return demoWaitlist;
+};
+
+// Demo mode check-ins mark the in-memory RSVPs
+let demoTickets: TicketService | null = null;
+const getTickets = () => {
+  if (SUPABASE_URL && SUPABASE_KEY) return getTicketService();
+  if (!demoTickets) demoTickets = new TicketService(new InMemoryTicketCheckInStore(demoRsvps));
+  return demoTickets;
+};
+
+// Signed QR ticket for a confirmed RSVP, admitting the attendee and their guests
+const rsvpTicket = (rsvp: { id?: string; eventId: string; guestCount?: number }) => {
+  if (!rsvp.id) return null;
+  const token = createTicketToken({
+    ticketId: rsvp.id,
+    eventId: rsvp.eventId,
+    kind: 'rsvp',
+    admits: 1 + (rsvp.guestCount || 0),
+    issuedAt: new Date()
+  });
+  return {
+    token,
+    qrSvgUrl: `/api/rsvp/tickets/${token}/qr.svg`,
+    qrPngUrl: `/api/rsvp/tickets/${token}/qr.png`
+  };
+};
+
+// Fill places freed by a cancellation or capacity change; failures don't fail the request
+const promoteWaitlist = async (eventId: string) => {
+  try {
+    return await getWaitlist().promote(eventId);
+  } catch (error: any) {
+    console.error('[RSVP] Waitlist promotion failed:', error.message);
+    return [];
+  }
+};
+
+// Each date of a recurring event has its own RSVPs and counts (its event_id is
+// the occurrence id) but takes the series' capacity settings until an organiser
+// sets that date's own
+const CAPACITY_SETTINGS = ['max_capacity', 'waitlist_enabled', 'max_waitlist', 'allow_guests', 'max_guests_per_rsvp', 'require_approval'];
+
+const inheritedCapacity = (series: any, eventId: string) => ({
+  event_id: eventId,
+  ...Object.fromEntries(CAPACITY_SETTINGS.filter(key => key in series).map(key => [key, series[key]]))
+});
+
+const demoCapacityFor = (eventId: string) => {
+  const seriesCapacity = demoCapacity.get(parseOccurrenceId(eventId).eventId);
+  if (!demoCapacity.has(eventId) && seriesCapacity) {
+    demoCapacity.set(eventId, { ...inheritedCapacity(seriesCapacity, eventId), confirmed_count: 0, waitlist_count: 0 });
+  }
+  return demoCapacity.get(eventId);
+};
+
+const loadCapacity = async (eventId: string) => {
+  const headers = {
+    'apikey': SUPABASE_KEY,
+    'Authorization': `Bearer ${SUPABASE_KEY}`
+  };
+  const fetchRow = async (id: string) => {
+    const response = await axios.get(`${SUPABASE_URL}/rest/v1/event_capacity`, {
+      params: { event_id: `eq.${id}`, select: '*' },
+      headers
+    });
+    return response.data?.[0];
+  };
+
+  const capacity = await fetchRow(eventId);
+  const { eventId: seriesId, date } = parseOccurrenceId(eventId);
+  if (capacity || !date) return capacity;
+
+  const seriesCapacity = await fetchRow(seriesId);
+  if (!seriesCapacity) return undefined;
+
+  // Two first RSVPs for a date can race here; whichever insert loses reads the winner's row
+  const response = await axios.post(
+    `${SUPABASE_URL}/rest/v1/event_capacity`,
+    inheritedCapacity(seriesCapacity, eventId),
+    {
+      params: { on_conflict: 'event_id' },
+      headers: { ...headers, 'Content-Type': 'application/json', 'Prefer': 'resolution=ignore-duplicates,return=representation' }
+    }
+  );
+  return response.data?.[0] || await fetchRow(eventId);
+};
+
+// RSVPs to a recurring event are to one of its dates
+const occurrenceError = async (eventId: string): Promise<{ status: number; error: string } | null> => {
+  const { eventId: seriesId, date } = parseOccurrenceId(eventId);
+  const response = await axios.get(`${SUPABASE_URL}/rest/v1/events`, {
+    params: { id: `eq.${seriesId}`, select: 'id,date,recurrence_rule,recurrence_exdates', limit: 1 },
+    headers: {
+      'apikey': SUPABASE_KEY,
+      'Authorization': `Bearer ${SUPABASE_KEY}`
+    }
+  });
+  const event = response.data?.[0];
+
+  if (!date) {
+    return event?.recurrence_rule ? { status: 400, error: 'Choose a date: RSVPs to a recurring event are per occurrence' } : null;
+  }
+  if (!event || !isOccurrence(event, date)) {
+    return { status: 404, error: 'Event does not take place on that date' };
+  }
+  return null;
+};
+
 // Helper to generate check-in code
 const generateCheckInCode = () => {
   return 'BLK-' + crypto.randomBytes(4).toString('hex').toUpperCase();
 };
 
+// Email the attendee their confirmation without holding up the response
+const emailConfirmation = (eventId: string, attendee: { email?: string; name?: string; checkInCode?: string; ticketToken?: string }) => {
+  if (!attendee.email) return;
+
+  (async () => {
+    let event: any = null;
+    const occurrence = parseOccurrenceId(eventId);
+    if (SUPABASE_URL && SUPABASE_KEY) {
+      const response = await axios.get(`${SUPABASE_URL}/rest/v1/events`, {
+        params: { id: `eq.${occurrence.eventId}`, select: 'title,date,start_time,location' },
+        headers: {
+          'apikey': SUPABASE_KEY,
+          'Authorization': `Bearer ${SUPABASE_KEY}`
+        }
+      });
+      event = response.data?.[0];
+      if (event && occurrence.date) event.date = occurrence.date;
+    }
+
+    await getEmailService().sendRsvpConfirmation({
+      to: attendee.email!,
+      name: attendee.name,
+      eventId,
+      eventTitle: event?.title || 'your BLKOUT event',
+      when: event?.date ? [event.date, event.start_time?.slice(0, 5)].filter(Boolean).join(' ') : undefined,
+      location: event?.location || undefined,
+      checkInCode: attendee.checkInCode,
+      ticketToken: attendee.ticketToken
+    });
+  })().catch(error => {
+    console.error('[RSVP] Confirmation email failed:', error.message);
+  });
+};
+
 /**
  * POST /api/events/:eventId/rsvp
  * Create or update RSVP for an event
@@ -76,13 +236,16 @@ router.post('/:eventId/rsvp', async (req, res) => {
       const rsvpId = `rsvp_${Date.now()}`;
 
       // Check capacity
-      const capacity = demoCapacity.get(eventId);
+      const capacity = demoCapacityFor(eventId);
       if (capacity?.max_capacity) {
-        const currentCount = Array.from(demoRsvps.values())
-          .filter(r => r.event_id === eventId && r.status === 'confirmed')
+        // Places held by open waitlist offers are taken too
+        const eventRsvps = Array.from(demoRsvps.values()).filter(r => r.event_id === eventId);
+        const currentCount = eventRsvps
+          .filter(r => r.status === 'confirmed' || r.status === 'offered')
           .reduce((sum, r) => sum + 1 + (r.guest_count || 0), 0);
+        const queueing = eventRsvps.some(r => r.status === 'waitlist');
 
-        if (currentCount + 1 + guestCount > capacity.max_capacity) {
+        if (queueing || currentCount + 1 + guestCount > capacity.max_capacity) {
           if (capacity.waitlist_enabled) {
             rsvpData.status = 'waitlist';
           } else {
@@ -98,6 +261,14 @@ router.post('/:eventId/rsvp', async (req, res) => {
 
       console.log(`🎟️ [RSVP] ${rsvpData.status === 'waitlist' ? 'Waitlisted' : 'Confirmed'}: ${eventId}`);
 
+      const ticket = rsvpData.status === 'confirmed' ? rsvpTicket({ id: rsvpId, eventId, guestCount: rsvpData.guest_count }) : null;
+
+      if (rsvpData.status === 'confirmed') {
+        await trackActivity(userId, 'event_rsvp', { sourceId: eventId, metadata: { eventId } });
+        await trackEventMetric(eventId, 'rsvp', { actorKey: userId });
+        emailConfirmation(eventId, { email: attendeeEmail, name: attendeeName, checkInCode, ticketToken: ticket?.token });
+      }
+
       return res.status(201).json({
         success: true,
         message: rsvpData.status === 'waitlist' ? 'Added to waitlist' : 'RSVP confirmed',
@@ -106,30 +277,27 @@ router.post('/:eventId/rsvp', async (req, res) => {
           status: rsvpData.status,
           checkInCode: rsvpData.status === 'confirmed' ? checkInCode : null,
           guestCount: rsvpData.guest_count
-        }
+        },
+        ticket
       });
     }
 
-    // Check capacity in database
-    const capacityResponse = await axios.get(
-      `${SUPABASE_URL}/rest/v1/event_capacity`,
-      {
-        params: {
-          event_id: `eq.${eventId}`,
-          select: '*'
-        },
-        headers: {
-          'apikey': SUPABASE_KEY,
-          'Authorization': `Bearer ${SUPABASE_KEY}`
-        }
-      }
-    );
+    const invalid = await occurrenceError(eventId);
+    if (invalid) {
+      return res.status(invalid.status).json({
+        success: false,
+        error: invalid.error
+      });
+    }
 
-    const capacity = capacityResponse.data?.[0];
+    // Check capacity in database
+    const capacity = await loadCapacity(eventId);
     let status = 'confirmed';
 
     if (capacity?.max_capacity) {
-      if (capacity.confirmed_count + 1 + guestCount > capacity.max_capacity) {
+      // Nobody jumps the waitlist, and places held by open offers are taken
+      const held = capacity.confirmed_count + (capacity.offered_count || 0);
+      if (capacity.waitlist_count > 0 || held + 1 + guestCount > capacity.max_capacity) {
         if (capacity.waitlist_enabled && capacity.waitlist_count < capacity.max_waitlist) {
           status = 'waitlist';
         } else {
@@ -161,6 +329,14 @@ router.post('/:eventId/rsvp', async (req, res) => {
 
     console.log(`🎟️ [RSVP] ${status === 'waitlist' ? 'Waitlisted' : 'Confirmed'}: ${eventId}`);
 
+    const ticket = status === 'confirmed' ? rsvpTicket({ id: rsvp?.id, eventId, guestCount: rsvp?.guest_count }) : null;
+
+    if (status === 'confirmed') {
+      await trackActivity(userId, 'event_rsvp', { sourceId: eventId, metadata: { eventId } });
+      await trackEventMetric(eventId, 'rsvp', { actorKey: userId });
+      emailConfirmation(eventId, { email: attendeeEmail, name: attendeeName, checkInCode: rsvp?.check_in_code, ticketToken: ticket?.token });
+    }
+
     return res.status(201).json({
       success: true,
       message: status === 'waitlist' ? 'Added to waitlist' : 'RSVP confirmed',
@@ -169,7 +345,8 @@ router.post('/:eventId/rsvp', async (req, res) => {
         status,
         checkInCode: status === 'confirmed' ? rsvp?.check_in_code : null,
         guestCount: rsvp?.guest_count
-      }
+      },
+      ticket
     });
 
   } catch (error: any) {
@@ -203,16 +380,21 @@ router.delete('/:eventId/rsvp', async (req, res) => {
       const key = `${eventId}_${userId}`;
       const rsvp = demoRsvps.get(key);
 
+      const freedPlace = rsvp?.status === 'confirmed' || rsvp?.status === 'offered';
       if (rsvp) {
         rsvp.status = 'cancelled';
         rsvp.updated_at = new Date().toISOString();
+        await trackEventMetric(eventId, 'rsvp_cancelled', { actorKey: userId });
       }
 
+      const offers = freedPlace ? await promoteWaitlist(eventId) : [];
+
       console.log(`🎟️ [RSVP] Cancelled: ${eventId}`);
 
       return res.status(200).json({
         success: true,
-        message: 'RSVP cancelled'
+        message: 'RSVP cancelled',
+        waitlistOffers: offers.length
       });
     }
 
@@ -235,13 +417,20 @@ router.delete('/:eventId/rsvp', async (req, res) => {
       }
     );
 
-    // TODO: Promote from waitlist if capacity available
+    await trackEventMetric(eventId, 'rsvp_cancelled', { actorKey: userId });
+
+    const offers = await promoteWaitlist(eventId);
+
+    await getNotificationQueueService().cancelEventReminders(eventId, userId).catch(error => {
+      console.error('[RSVP] Failed to cancel event reminders:', error.message);
+    });
 
     console.log(`🎟️ [RSVP] Cancelled: ${eventId}`);
 
     return res.status(200).json({
       success: true,
-      message: 'RSVP cancelled'
+      message: 'RSVP cancelled',
+      waitlistOffers: offers.length
     });
 
   } catch (error: any) {
@@ -254,13 +443,109 @@ router.delete('/:eventId/rsvp', async (req, res) => {
   }
 });
 
+const handleWaitlistError = (res: express.Response, error: any, fallbackMessage: string) => {
+  if (error instanceof WaitlistError) {
+    return res.status(error.status).json({ success: false, error: error.message });
+  }
+  console.error(`[RSVP] ${fallbackMessage}:`, error.message);
+  return res.status(500).json({
+    success: false,
+    error: fallbackMessage,
+    message: error.message
+  });
+};
+
+/**
+ * GET /api/rsvp/:eventId/waitlist/:userId
+ * Where someone is on the waitlist, or the offer they're holding
+ */
+router.get('/:eventId/waitlist/:userId', async (req, res) => {
+  try {
+    const { entry, position } = await getWaitlist().status(req.params.eventId, req.params.userId);
+
+    return res.status(200).json({
+      success: true,
+      status: entry.status,
+      position,
+      offerExpiresAt: entry.status === 'offered' ? entry.offerExpiresAt : null
+    });
+
+  } catch (error: any) {
+    return handleWaitlistError(res, error, 'Failed to get waitlist status');
+  }
+});
+
+/**
+ * POST /api/rsvp/:eventId/waitlist/accept
+ * Take up a waitlist offer before it expires
+ */
+router.post('/:eventId/waitlist/accept', async (req, res) => {
+  try {
+    // Only the person holding the offer can answer it
+    const userId = req.auth!.userId;
+
+    const entry = await getWaitlist().accept(req.params.eventId, userId);
+    await trackEventMetric(entry.eventId, 'rsvp', { actorKey: userId });
+
+    return res.status(200).json({
+      success: true,
+      message: 'RSVP confirmed',
+      rsvp: {
+        id: entry.id,
+        status: entry.status,
+        checkInCode: entry.checkInCode || null,
+        guestCount: entry.guestCount
+      },
+      ticket: rsvpTicket({ id: entry.id, eventId: entry.eventId, guestCount: entry.guestCount })
+    });
+
+  } catch (error: any) {
+    return handleWaitlistError(res, error, 'Failed to accept waitlist offer');
+  }
+});
+
+/**
+ * POST /api/rsvp/:eventId/waitlist/decline
+ * Pass a waitlist offer on to the next person
+ */
+router.post('/:eventId/waitlist/decline', async (req, res) => {
+  try {
+    // Only the person holding the offer can answer it
+    const userId = req.auth!.userId;
+
+    const offers = await getWaitlist().decline(req.params.eventId, userId);
+
+    return res.status(200).json({
+      success: true,
+      message: 'Offer declined',
+      waitlistOffers: offers.length
+    });
+
+  } catch (error: any) {
+    return handleWaitlistError(res, error, 'Failed to decline waitlist offer');
+  }
+});
+
+/**
+ * Attendee lists and capacity belong to the event's owner and co-hosts;
+ * moderators can step in on any event
+ */
+const canManageRsvps = async (req: express.Request, eventId: string): Promise<boolean> => {
+  if (hasRole(req.auth, ['moderator'])) return true;
+  return getOrganizerService().can(eventId, req.auth?.userId, 'manage_rsvps');
+};
+
 /**
  * GET /api/events/:eventId/rsvps
- * Get RSVPs for an event (organizer view)
+ * Get RSVPs for an event (the event's owner and co-hosts, or moderators)
  */
 router.get('/:eventId/rsvps', async (req, res) => {
   try {
     const { eventId } = req.params;
+
+    if (!(await canManageRsvps(req, eventId))) {
+      return res.status(403).json({ success: false, error: 'RSVP management access required for this event' });
+    }
     const { status, limit = 100 } = req.query;
 
     if (!SUPABASE_URL || !SUPABASE_KEY) {
@@ -275,6 +560,7 @@ router.get('/:eventId/rsvps', async (req, res) => {
         counts: {
           confirmed: rsvps.filter(r => r.status === 'confirmed').length,
           waitlist: rsvps.filter(r => r.status === 'waitlist').length,
+          offered: rsvps.filter(r => r.status === 'offered').length,
           cancelled: rsvps.filter(r => r.status === 'cancelled').length
         }
       });
@@ -310,6 +596,7 @@ router.get('/:eventId/rsvps', async (req, res) => {
       counts: {
         confirmed: rsvps.filter((r: any) => r.status === 'confirmed').length,
         waitlist: rsvps.filter((r: any) => r.status === 'waitlist').length,
+        offered: rsvps.filter((r: any) => r.status === 'offered').length,
         total: rsvps.length
       }
     });
@@ -324,92 +611,121 @@ router.get('/:eventId/rsvps', async (req, res) => {
   }
 });
 
+const CHECK_IN_ERRORS: Record<string, string> = {
+  already_checked_in: 'Already checked in',
+  invalid: 'Invalid ticket',
+  wrong_event: 'Ticket is for a different event',
+  revoked: 'Ticket is no longer valid'
+};
+
+// The RSVP row behind a ticket, for the attendee's name and activity tracking
+const findRsvpById = async (rsvpId: string) => {
+  if (!SUPABASE_URL || !SUPABASE_KEY) {
+    return Array.from(demoRsvps.values()).find(r => r.id === rsvpId) || null;
+  }
+  const response = await axios.get(`${SUPABASE_URL}/rest/v1/event_rsvps`, {
+    params: { id: `eq.${rsvpId}`, select: '*', limit: 1 },
+    headers: {
+      'apikey': SUPABASE_KEY,
+      'Authorization': `Bearer ${SUPABASE_KEY}`
+    }
+  });
+  return response.data?.[0] || null;
+};
+
+/**
+ * Door devices are run by the event's team members whose role covers
+ * check-in; moderators can step in on any event
+ */
+const canRunDoor = async (req: express.Request, eventId: string): Promise<boolean> => {
+  if (hasRole(req.auth, ['moderator'])) return true;
+  return getOrganizerService().can(eventId, req.auth?.userId, 'check_in');
+};
+
 /**
  * POST /api/events/:eventId/check-in
- * Check in an attendee via QR code
+ * Check in an attendee via QR code: a signed ticket, or the older check-in code
+ * (the event's check-in team, or moderators)
  */
 router.post('/:eventId/check-in', async (req, res) => {
   try {
     const { eventId } = req.params;
-    const { checkInCode, userId } = req.body;
 
-    if (!checkInCode && !userId) {
+    if (!(await canRunDoor(req, eventId))) {
+      return res.status(403).json({ success: false, error: 'Check-in access required for this event' });
+    }
+
+    const { checkInCode, userId, ticket, deviceId } = req.body;
+
+    if (!checkInCode && !userId && !ticket) {
       return res.status(400).json({
         success: false,
-        error: 'checkInCode or userId required'
+        error: 'ticket, checkInCode or userId required'
       });
     }
 
-    if (!SUPABASE_URL || !SUPABASE_KEY) {
-      // Demo mode
-      let rsvp = null;
+    if (ticket) {
+      const result = await getTickets().checkIn(eventId, ticket, { deviceId });
 
-      if (checkInCode) {
-        rsvp = Array.from(demoRsvps.values()).find(
-          r => r.event_id === eventId && r.check_in_code === checkInCode
-        );
-      } else {
-        rsvp = demoRsvps.get(`${eventId}_${userId}`);
-      }
-
-      if (!rsvp) {
-        return res.status(404).json({
+      if (result.status !== 'admitted') {
+        return res.status(result.status === 'already_checked_in' ? 409 : 400).json({
           success: false,
-          error: 'RSVP not found'
+          error: CHECK_IN_ERRORS[result.status],
+          status: result.status,
+          checkedInAt: result.checkedInAt
         });
       }
 
-      if (rsvp.status !== 'confirmed') {
-        return res.status(400).json({
-          success: false,
-          error: 'RSVP not confirmed'
-        });
-      }
-
-      if (rsvp.checked_in) {
-        return res.status(400).json({
-          success: false,
-          error: 'Already checked in',
-          checkedInAt: rsvp.checked_in_at
-        });
+      const rsvp = result.kind === 'rsvp' ? await findRsvpById(result.ticketId!) : null;
+      if (rsvp) {
+        await trackActivity(rsvp.user_id, 'event_check_in', { sourceId: eventId, metadata: { eventId } });
       }
 
-      rsvp.checked_in = true;
-      rsvp.checked_in_at = new Date().toISOString();
-
-      console.log(`✅ [Check-in] ${rsvp.attendee_name || rsvp.user_id} checked in`);
-
       return res.status(200).json({
         success: true,
         message: 'Checked in successfully',
         attendee: {
-          name: rsvp.attendee_name,
-          guestCount: rsvp.guest_count,
-          checkedInAt: rsvp.checked_in_at
+          name: rsvp?.attendee_name,
+          admits: result.admits,
+          kind: result.kind,
+          checkedInAt: result.checkedInAt
         }
       });
     }
 
-    // Find RSVP
-    const params: any = { event_id: `eq.${eventId}` };
-    if (checkInCode) {
-      params.check_in_code = `eq.${checkInCode}`;
+    let rsvp: any = null;
+
+    if (!SUPABASE_URL || !SUPABASE_KEY) {
+      // Demo mode
+      if (checkInCode) {
+        rsvp = Array.from(demoRsvps.values()).find(
+          r => r.event_id === eventId && r.check_in_code === checkInCode
+        );
+      } else {
+        rsvp = demoRsvps.get(`${eventId}_${userId}`);
+      }
     } else {
-      params.user_id = `eq.${userId}`;
-    }
+      // Find RSVP
+      const params: any = { event_id: `eq.${eventId}` };
+      if (checkInCode) {
+        params.check_in_code = `eq.${checkInCode}`;
+      } else {
+        params.user_id = `eq.${userId}`;
+      }
 
-    const findResponse = await axios.get(
-      `${SUPABASE_URL}/rest/v1/event_rsvps`,
-      {
-        params: { ...params, select: '*', limit: 1 },
-        headers: {
-          'apikey': SUPABASE_KEY,
-          'Authorization': `Bearer ${SUPABASE_KEY}`
+      const findResponse = await axios.get(
+        `${SUPABASE_URL}/rest/v1/event_rsvps`,
+        {
+          params: { ...params, select: '*', limit: 1 },
+          headers: {
+            'apikey': SUPABASE_KEY,
+            'Authorization': `Bearer ${SUPABASE_KEY}`
+          }
         }
-      }
-    );
+      );
 
-    const rsvp = findResponse.data?.[0];
+      rsvp = findResponse.data?.[0];
+    }
 
     if (!rsvp) {
       return res.status(404).json({
@@ -433,32 +749,28 @@ router.post('/:eventId/check-in', async (req, res) => {
       });
     }
 
-    // Update check-in status
-    await axios.patch(
-      `${SUPABASE_URL}/rest/v1/event_rsvps`,
-      {
-        checked_in: true,
-        checked_in_at: new Date().toISOString()
-      },
-      {
-        params: { id: `eq.${rsvp.id}` },
-        headers: {
-          'apikey': SUPABASE_KEY,
-          'Authorization': `Bearer ${SUPABASE_KEY}`,
-          'Content-Type': 'application/json'
-        }
-      }
-    );
+    // Recorded as the RSVP ticket's check-in, so its QR code can't be used again
+    const result = await getTickets().checkInRsvp(eventId, { id: rsvp.id, guestCount: rsvp.guest_count }, { deviceId });
+
+    if (result.status !== 'admitted') {
+      return res.status(400).json({
+        success: false,
+        error: 'Already checked in',
+        checkedInAt: result.checkedInAt
+      });
+    }
 
     console.log(`✅ [Check-in] ${rsvp.attendee_name || rsvp.user_id} checked in`);
 
+    await trackActivity(rsvp.user_id, 'event_check_in', { sourceId: eventId, metadata: { eventId } });
+
     return res.status(200).json({
       success: true,
       message: 'Checked in successfully',
       attendee: {
         name: rsvp.attendee_name,
         guestCount: rsvp.guest_count,
-        checkedInAt: new Date().toISOString()
+        checkedInAt: result.checkedInAt
       }
     });
 
@@ -472,6 +784,95 @@ router.post('/:eventId/check-in', async (req, res) => {
   }
 });
 
+const handleTicketError = (res: express.Response, error: any, fallbackMessage: string) => {
+  if (error instanceof TicketError) {
+    return res.status(error.status).json({ success: false, error: error.message });
+  }
+  console.error(`[Tickets] ${fallbackMessage}:`, error.message);
+  return res.status(500).json({
+    success: false,
+    error: fallbackMessage,
+    message: error.message
+  });
+};
+
+/**
+ * POST /api/rsvp/:eventId/check-in/sync
+ * Reconcile check-ins a door device made offline (the event's check-in team, or moderators)
+ */
+router.post('/:eventId/check-in/sync', async (req, res) => {
+  try {
+    if (!(await canRunDoor(req, req.params.eventId))) {
+      return res.status(403).json({ success: false, error: 'Check-in access required for this event' });
+    }
+
+    const { deviceId, scans } = req.body;
+
+    if (!Array.isArray(scans)) {
+      return res.status(400).json({
+        success: false,
+        error: 'scans array required'
+      });
+    }
+
+    const result = await getTickets().sync(
+      req.params.eventId,
+      deviceId,
+      scans.map((scan: any) => ({ token: scan?.token, scannedAt: new Date(scan?.scannedAt) }))
+    );
+
+    return res.status(200).json({ success: true, ...result });
+
+  } catch (error: any) {
+    return handleTicketError(res, error, 'Failed to sync check-ins');
+  }
+});
+
+/**
+ * GET /api/rsvp/:eventId/check-in/roster
+ * Check-ins so far, revoked tickets and the verification key, for offline door devices
+ */
+router.get('/:eventId/check-in/roster', async (req, res) => {
+  try {
+    if (!(await canRunDoor(req, req.params.eventId))) {
+      return res.status(403).json({ success: false, error: 'Check-in access required for this event' });
+    }
+
+    const roster = await getTickets().roster(req.params.eventId);
+
+    return res.status(200).json({ success: true, ...roster });
+
+  } catch (error: any) {
+    return handleTicketError(res, error, 'Failed to get check-in roster');
+  }
+});
+
+/**
+ * GET /api/rsvp/tickets/public-key
+ * Ed25519 key (JWK) for verifying ticket signatures on a door device
+ */
+router.get('/tickets/public-key', (req, res) => {
+  res.set('Cache-Control', 'public, max-age=3600');
+  return res.status(200).json({ success: true, key: ticketPublicKeyJwk() });
+});
+
+/**
+ * GET /api/rsvp/tickets/:token/qr.svg | qr.png
+ * A ticket's QR code
+ */
+router.get('/tickets/:token/qr.:format(svg|png)', (req, res) => {
+  try {
+    const qr = getTickets().renderQr(req.params.token, req.params.format as 'svg' | 'png');
+
+    res.set('Content-Type', qr.contentType);
+    res.set('Cache-Control', 'private, max-age=86400');
+    return res.status(200).send(qr.body);
+
+  } catch (error: any) {
+    return handleTicketError(res, error, 'Failed to render ticket');
+  }
+});
+
 /**
  * GET /api/user/rsvps
  * Get user's RSVPs
@@ -548,7 +949,7 @@ router.get('/:eventId/capacity', async (req, res) => {
     const { eventId } = req.params;
 
     if (!SUPABASE_URL || !SUPABASE_KEY) {
-      const capacity = demoCapacity.get(eventId) || {
+      const capacity = demoCapacityFor(eventId) || {
         max_capacity: null,
         confirmed_count: 0,
         waitlist_count: 0,
@@ -569,21 +970,7 @@ router.get('/:eventId/capacity', async (req, res) => {
       });
     }
 
-    const response = await axios.get(
-      `${SUPABASE_URL}/rest/v1/event_capacity`,
-      {
-        params: {
-          event_id: `eq.${eventId}`,
-          select: '*'
-        },
-        headers: {
-          'apikey': SUPABASE_KEY,
-          'Authorization': `Bearer ${SUPABASE_KEY}`
-        }
-      }
-    );
-
-    const capacity = response.data?.[0] || {
+    const capacity = await loadCapacity(eventId) || {
       max_capacity: null,
       confirmed_count: 0,
       waitlist_count: 0,
@@ -613,4 +1000,79 @@ router.get('/:eventId/capacity', async (req, res) => {
   }
 });
 
+/**
+ * PUT /api/rsvp/:eventId/capacity
+ * Set capacity and waitlist settings (the event's owner and co-hosts, or
+ * moderators). Raising the capacity
+ * offers the new places to the waitlist straight away. For a recurring
+ * event the series id sets the default for dates not yet booked; an
+ * occurrence id sets that date alone.
+ * Body: { maxCapacity?: number | null, waitlistEnabled?: boolean, maxWaitlist?: number }
+ */
+router.put('/:eventId/capacity', async (req, res) => {
+  try {
+    const { eventId } = req.params;
+
+    if (!(await canManageRsvps(req, eventId))) {
+      return res.status(403).json({ success: false, error: 'RSVP management access required for this event' });
+    }
+
+    const { maxCapacity, waitlistEnabled, maxWaitlist } = req.body;
+
+    if (maxCapacity !== undefined && maxCapacity !== null && (!Number.isInteger(maxCapacity) || maxCapacity < 0)) {
+      return res.status(400).json({
+        success: false,
+        error: 'maxCapacity must be a whole number or null'
+      });
+    }
+
+    const changes: Record<string, any> = { event_id: eventId, updated_at: new Date().toISOString() };
+    if (maxCapacity !== undefined) changes.max_capacity = maxCapacity;
+    if (typeof waitlistEnabled === 'boolean') changes.waitlist_enabled = waitlistEnabled;
+    if (Number.isInteger(maxWaitlist)) changes.max_waitlist = maxWaitlist;
+
+    let capacity: any;
+    if (!SUPABASE_URL || !SUPABASE_KEY) {
+      capacity = { confirmed_count: 0, waitlist_count: 0, waitlist_enabled: true, ...demoCapacityFor(eventId), ...changes };
+      demoCapacity.set(eventId, capacity);
+    } else {
+      // A date of a recurring event starts from the series settings
+      await loadCapacity(eventId);
+      const response = await axios.post(
+        `${SUPABASE_URL}/rest/v1/event_capacity`,
+        changes,
+        {
+          params: { on_conflict: 'event_id' },
+          headers: {
+            'apikey': SUPABASE_KEY,
+            'Authorization': `Bearer ${SUPABASE_KEY}`,
+            'Content-Type': 'application/json',
+            'Prefer': 'resolution=merge-duplicates,return=representation'
+          }
+        }
+      );
+      capacity = response.data?.[0];
+    }
+
+    const offers = await promoteWaitlist(eventId);
+
+    console.log(`🎟️ [Capacity] Updated: ${eventId}`);
+
+    return res.status(200).json({
+      success: true,
+      message: 'Capacity updated',
+      capacity,
+      waitlistOffers: offers.length
+    });
+
+  } catch (error: any) {
+    console.error('[Capacity] Update error:', error.message);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to update capacity',
+      message: error.message
+    });
+  }
+});
+
 export default router;
@@ -1,63 +1,202 @@
-import express from 'express'
+/**
+ * Social Media Routes
+ * Content calendar and publishing (SocialPublishingService), the admin
+ * dashboard, and the n8n webhooks kept while the n8n workflows are retired.
+ */
+
+import express, { NextFunction, Request, Response } from 'express'
+import crypto from 'crypto'
 import { getSupabaseClient } from '../lib/supabaseClient.js'
+import { getSocialPublishingService, SocialPublishingError } from '../services/SocialPublishingService.js'
+import { SocialPlatform, SocialPostStatus, SOCIAL_PLATFORMS, SOCIAL_POST_STATUSES } from '../services/SocialPostStore.js'
 
 const router = express.Router()
 
-// Use shared Supabase client
-const supabase = getSupabaseClient()
-if (!supabase) {
-  console.warn('Supabase not configured - using memory-only mode for social media routes')
+function handleError(res: Response, error: unknown, fallbackMessage: string) {
+  if (error instanceof SocialPublishingError) {
+    return res.status(error.status).json({ success: false, error: error.message })
+  }
+  console.error(`[Social] ${fallbackMessage}:`, error)
+  res.status(500).json({ success: false, error: fallbackMessage })
 }
 
-// In-memory storage for workflow status (in production, use Redis or database)
-let workflowStatus = {
-  masterWorkflow: { id: 'RVlayfQOX6SSnY3U', name: 'BLKOUT Media Master', status: 'unknown', lastRun: null },
-  contentGeneration: { id: 'content-gen', name: 'Content Generation', status: 'unknown', lastRun: null },
-  linkedinPosting: { id: 'linkedin-post', name: 'LinkedIn Posting', status: 'unknown', lastRun: null },
-  twitterPosting: { id: 'twitter-post', name: 'Twitter Posting', status: 'unknown', lastRun: null },
-  instagramPosting: { id: 'instagram-post', name: 'Instagram Posting', status: 'unknown', lastRun: null },
-  youtubePosting: { id: 'youtube-post', name: 'YouTube Posting', status: 'unknown', lastRun: null }
+function parseDate(value: unknown, field: string): Date | undefined {
+  if (value === undefined || value === null || value === '') return undefined
+  const date = new Date(String(value))
+  if (Number.isNaN(date.getTime())) {
+    throw new SocialPublishingError(`${field} must be a valid date`)
+  }
+  return date
 }
 
-let contentCalendar: any[] = []
-let socialAnalytics = {
-  postsToday: 0,
-  totalPosts: 0,
-  engagementRate: 0,
-  errors: 0,
-  lastUpdated: new Date().toISOString()
+function parsePlatforms(body: any): SocialPlatform[] {
+  const platforms = Array.isArray(body.platforms) ? body.platforms : body.platform ? [body.platform] : []
+  return platforms.map((platform: unknown) => String(platform).toLowerCase())
 }
 
 // ==========================================
-// N8N WEBHOOK ENDPOINTS
+// CONTENT CALENDAR & PUBLISHING
 // ==========================================
 
+/**
+ * GET /api/social/posts?status=&platform=&from=&to=
+ * Calendar entries in scheduled order
+ */
+router.get('/posts', async (req, res) => {
+  try {
+    const { status, platform } = req.query
+    const posts = await getSocialPublishingService().getCalendar({
+      status: SOCIAL_POST_STATUSES.includes(status as SocialPostStatus) ? status as SocialPostStatus : undefined,
+      platform: SOCIAL_PLATFORMS.includes(platform as SocialPlatform) ? platform as SocialPlatform : undefined,
+      from: parseDate(req.query.from, 'from'),
+      to: parseDate(req.query.to, 'to')
+    })
+
+    res.json({ success: true, count: posts.length, posts })
+  } catch (error) {
+    handleError(res, error, 'Failed to list social posts')
+  }
+})
+
+/**
+ * POST /api/social/posts
+ * Body: { platforms: [...] (or platform), content, imageUrl?, scheduledFor? }
+ * Creates one draft per platform
+ */
+router.post('/posts', async (req, res) => {
+  try {
+    const posts = await getSocialPublishingService().createDrafts({
+      platforms: parsePlatforms(req.body || {}),
+      content: req.body?.content,
+      imageUrl: req.body?.imageUrl,
+      scheduledFor: parseDate(req.body?.scheduledFor, 'scheduledFor'),
+      createdBy: req.auth?.userId
+    })
+
+    res.status(201).json({ success: true, posts })
+  } catch (error) {
+    handleError(res, error, 'Failed to create social post')
+  }
+})
+
+/**
+ * GET /api/social/posts/:postId
+ * A post with every publish attempt
+ */
+router.get('/posts/:postId', async (req, res) => {
+  try {
+    res.json({ success: true, ...(await getSocialPublishingService().getPost(req.params.postId)) })
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch social post')
+  }
+})
+
+/**
+ * PATCH /api/social/posts/:postId
+ * Body: { content?, imageUrl?, scheduledFor? } — approved posts need approving again
+ */
+router.patch('/posts/:postId', async (req, res) => {
+  try {
+    const post = await getSocialPublishingService().updateDraft(req.params.postId, {
+      content: typeof req.body?.content === 'string' ? req.body.content : undefined,
+      imageUrl: req.body?.imageUrl,
+      scheduledFor: parseDate(req.body?.scheduledFor, 'scheduledFor')
+    })
+
+    res.json({ success: true, post })
+  } catch (error) {
+    handleError(res, error, 'Failed to update social post')
+  }
+})
+
+router.post('/posts/:postId/approve', async (req, res) => {
+  try {
+    const post = await getSocialPublishingService().approve(req.params.postId, req.auth?.userId)
+    res.json({ success: true, post })
+  } catch (error) {
+    handleError(res, error, 'Failed to approve social post')
+  }
+})
+
+/**
+ * POST /api/social/posts/:postId/schedule
+ * Body: { scheduledFor? } — defaults to the post's planned time, or now
+ */
+router.post('/posts/:postId/schedule', async (req, res) => {
+  try {
+    const post = await getSocialPublishingService().schedule(req.params.postId, parseDate(req.body?.scheduledFor, 'scheduledFor'))
+    res.json({ success: true, post })
+  } catch (error) {
+    handleError(res, error, 'Failed to schedule social post')
+  }
+})
+
+router.post('/posts/:postId/cancel', async (req, res) => {
+  try {
+    const post = await getSocialPublishingService().cancel(req.params.postId)
+    res.json({ success: true, post })
+  } catch (error) {
+    handleError(res, error, 'Failed to cancel social post')
+  }
+})
+
+router.post('/posts/:postId/retry', async (req, res) => {
+  try {
+    const post = await getSocialPublishingService().retry(req.params.postId)
+    res.json({ success: true, post })
+  } catch (error) {
+    handleError(res, error, 'Failed to retry social post')
+  }
+})
+
+/**
+ * POST /api/social/publish/run
+ * Publish everything due now instead of waiting for the scheduler
+ */
+router.post('/publish/run', async (req, res) => {
+  try {
+    const result = await getSocialPublishingService().publishDue()
+    res.json({ success: true, ...result })
+  } catch (error) {
+    handleError(res, error, 'Failed to run social publisher')
+  }
+})
+
+// ==========================================
+// N8N WEBHOOK ENDPOINTS (legacy)
+// ==========================================
+
+/**
+ * n8n signs in with the shared N8N_WEBHOOK_SECRET in the X-N8N-Webhook-Secret
+ * header. The webhooks stay closed until the secret is configured.
+ */
+function requireN8nSecret(req: Request, res: Response, next: NextFunction) {
+  const secret = process.env.N8N_WEBHOOK_SECRET || ''
+  if (!secret) {
+    return res.status(503).json({ success: false, error: 'n8n webhooks are not configured' })
+  }
+
+  // Hashing first gives equal-length buffers, so the comparison takes the same time for any guess
+  const given = crypto.createHash('sha256').update(String(req.get('x-n8n-webhook-secret') || '')).digest()
+  const expected = crypto.createHash('sha256').update(secret).digest()
+  if (!crypto.timingSafeEqual(given, expected)) {
+    return res.status(401).json({ success: false, error: 'Invalid webhook secret' })
+  }
+  next()
+}
+
+router.use('/webhook/n8n', requireN8nSecret)
+
 // Master webhook for all N8N workflow status updates
 router.post('/webhook/n8n/status', async (req, res) => {
   try {
-    const { workflowId, workflowName, status, executionId, data, timestamp } = req.body
-    
+    const { workflowId, workflowName, status, executionId, data } = req.body
+
     console.log(`N8N Webhook received - Workflow: ${workflowName}, Status: ${status}`)
-    
-    // Update workflow status
-    const workflowKey = Object.keys(workflowStatus).find(key => 
-      workflowStatus[key].id === workflowId || 
-      workflowStatus[key].name.toLowerCase().includes(workflowName?.toLowerCase() || '')
-    )
-    
-    if (workflowKey) {
-      workflowStatus[workflowKey] = {
-        ...workflowStatus[workflowKey],
-        status: status || 'completed',
-        lastRun: timestamp || new Date().toISOString(),
-        executionId: executionId,
-        data: data
-      }
-    }
-    
-    // Store in database for persistence
-    try {
-      await supabase
+
+    const supabase = getSupabaseClient()
+    if (supabase) {
+      const { error: dbError } = await supabase
         .from('n8n_workflow_status')
         .upsert({
           workflow_id: workflowId,
@@ -67,126 +206,74 @@ router.post('/webhook/n8n/status', async (req, res) => {
           data: data,
           updated_at: new Date().toISOString()
         })
-    } catch (dbError) {
-      console.log('Database storage failed, using memory:', dbError.message)
+
+      if (dbError) console.error('[Social] Workflow status storage failed:', dbError.message)
     }
-    
-    res.json({ 
-      success: true, 
+
+    res.json({
+      success: true,
       message: 'Workflow status updated',
       workflowId,
-      status 
+      status
     })
-  } catch (error) {
+  } catch (error: any) {
     console.error('N8N webhook error:', error)
     res.status(500).json({ error: 'Failed to process webhook', details: error.message })
   }
 })
 
-// Content generation webhook - receives AI-generated content
+// Content generation webhook - AI-generated content lands in the calendar as drafts
 router.post('/webhook/n8n/content', async (req, res) => {
   try {
-    const { contentId, platform, content, imageUrl, scheduledTime, status } = req.body
-    
-    console.log(`Content webhook received - Platform: ${platform}, Status: ${status}`)
-    
-    // Add to content calendar
-    const contentItem = {
-      id: contentId || `content_${Date.now()}`,
-      date: new Date().toISOString().split('T')[0],
-      platform: platform,
-      content: content,
-      imageUrl: imageUrl,
-      scheduledTime: scheduledTime,
-      status: status || 'ready',
-      createdAt: new Date().toISOString()
-    }
-    
-    // Update in-memory calendar
-    const existingIndex = contentCalendar.findIndex(item => item.id === contentItem.id)
-    if (existingIndex >= 0) {
-      contentCalendar[existingIndex] = contentItem
-    } else {
-      contentCalendar.push(contentItem)
-    }
-    
-    // Store in database
-    try {
-      await supabase
-        .from('social_content_calendar')
-        .upsert(contentItem)
-    } catch (dbError) {
-      console.log('Calendar storage failed, using memory:', dbError.message)
-    }
-    
-    res.json({ 
-      success: true, 
-      message: 'Content added to calendar',
-      contentId: contentItem.id 
+    const { platform, content, imageUrl, scheduledTime } = req.body
+
+    console.log(`Content webhook received - Platform: ${platform}`)
+
+    const posts = await getSocialPublishingService().createDrafts({
+      platforms: parsePlatforms(req.body || {}),
+      content,
+      imageUrl,
+      scheduledFor: parseDate(scheduledTime, 'scheduledTime'),
+      source: 'n8n'
+    })
+
+    res.json({
+      success: true,
+      message: 'Content added to calendar for approval',
+      contentId: posts[0].id,
+      contentIds: posts.map(post => post.id)
     })
   } catch (error) {
-    console.error('Content webhook error:', error)
-    res.status(500).json({ error: 'Failed to process content', details: error.message })
+    handleError(res, error, 'Failed to process content')
   }
 })
 
-// Posting status webhook - receives posting success/failure updates
+// Posting status webhook - outcome of a post an n8n workflow published itself
 router.post('/webhook/n8n/posting', async (req, res) => {
   try {
-    const { contentId, platform, status, postId, error, metrics } = req.body
-    
+    const { contentId, platform, status, postId, error } = req.body
+
     console.log(`Posting webhook received - Platform: ${platform}, Status: ${status}`)
-    
-    // Update content calendar item
-    const contentIndex = contentCalendar.findIndex(item => item.id === contentId)
-    if (contentIndex >= 0) {
-      contentCalendar[contentIndex] = {
-        ...contentCalendar[contentIndex],
-        postStatus: status,
-        postId: postId,
-        postError: error,
-        metrics: metrics,
-        postedAt: status === 'posted' ? new Date().toISOString() : undefined
-      }
-    }
-    
-    // Update analytics
-    if (status === 'posted') {
-      socialAnalytics.postsToday += 1
-      socialAnalytics.totalPosts += 1
-    } else if (status === 'failed') {
-      socialAnalytics.errors += 1
-    }
-    
-    socialAnalytics.lastUpdated = new Date().toISOString()
-    
-    // Store in database
-    try {
-      await supabase
-        .from('social_posting_log')
-        .insert({
-          content_id: contentId,
-          platform: platform,
-          status: status,
-          post_id: postId,
-          error_message: error,
-          metrics: metrics,
-          posted_at: new Date().toISOString()
-        })
-    } catch (dbError) {
-      console.log('Posting log storage failed:', dbError.message)
+
+    if (status !== 'posted' && status !== 'failed') {
+      return res.json({ success: true, message: 'Status ignored', contentId, status })
     }
-    
-    res.json({ 
-      success: true, 
+
+    await getSocialPublishingService().recordExternalOutcome(contentId, {
+      status,
+      platformPostId: postId,
+      error
+    })
+
+    res.json({
+      success: true,
       message: 'Posting status updated',
       contentId,
       platform,
-      status 
+      status
     })
   } catch (error) {
-    console.error('Posting webhook error:', error)
-    res.status(500).json({ error: 'Failed to process posting status', details: error.message })
+    handleError(res, error, 'Failed to process posting status')
   }
 })
 
@@ -194,122 +281,94 @@ router.post('/webhook/n8n/posting', async (req, res) => {
 // ADMIN DASHBOARD API ENDPOINTS
 // ==========================================
 
-// Get workflow status dashboard
+// Publishing status: counts, retries, recent failures and platform configuration
 router.get('/dashboard/status', async (req, res) => {
   try {
-    // Get latest status from database if available
-    try {
-      const { data: dbStatus } = await supabase
+    const publishing = await getSocialPublishingService().getDashboard()
+
+    // Any n8n workflows still reporting in
+    let workflows: any[] = []
+    const supabase = getSupabaseClient()
+    if (supabase) {
+      const { data, error } = await supabase
         .from('n8n_workflow_status')
-        .select('*')
+        .select('workflow_id, workflow_name, status, updated_at')
         .order('updated_at', { ascending: false })
         .limit(10)
-      
-      if (dbStatus && dbStatus.length > 0) {
-        // Merge database status with memory status
-        dbStatus.forEach(item => {
-          const key = Object.keys(workflowStatus).find(k => 
-            workflowStatus[k].id === item.workflow_id
-          )
-          if (key) {
-            workflowStatus[key] = {
-              ...workflowStatus[key],
-              status: item.status,
-              lastRun: item.updated_at
-            }
-          }
-        })
-      }
-    } catch (dbError) {
-      console.log('Using memory status due to DB error:', dbError.message)
+
+      if (error) console.error('[Social] Workflow status lookup failed:', error.message)
+      workflows = (data || []).map(row => ({
+        id: row.workflow_id,
+        name: row.workflow_name,
+        status: row.status,
+        lastRun: row.updated_at
+      }))
     }
-    
+
     res.json({
-      workflows: workflowStatus,
-      analytics: socialAnalytics,
+      workflows,
+      publishing,
+      analytics: {
+        postsToday: publishing.postsToday,
+        totalPosts: publishing.totalPosts,
+        errors: publishing.errors,
+        errorRate: publishing.errorRate,
+        retrying: publishing.retrying.length,
+        lastUpdated: new Date().toISOString()
+      },
       lastUpdated: new Date().toISOString()
     })
   } catch (error) {
-    console.error('Dashboard status error:', error)
-    res.status(500).json({ error: 'Failed to get dashboard status' })
+    handleError(res, error, 'Failed to get dashboard status')
   }
 })
 
-// Get content calendar
+// Content calendar, optionally for one day (?date=YYYY-MM-DD) or platform
 router.get('/dashboard/calendar', async (req, res) => {
   try {
-    const { date, platform } = req.query
-    
-    let calendar = [...contentCalendar]
-    
-    // Try to get from database too
-    try {
-      const { data: dbCalendar } = await supabase
-        .from('social_content_calendar')
-        .select('*')
-        .order('created_at', { ascending: false })
-        .limit(50)
-      
-      if (dbCalendar && dbCalendar.length > 0) {
-        // Merge and deduplicate
-        const mergedIds = new Set(calendar.map(item => item.id))
-        dbCalendar.forEach(item => {
-          if (!mergedIds.has(item.id)) {
-            calendar.push({
-              id: item.id,
-              date: item.date,
-              platform: item.platform,
-              content: item.content,
-              imageUrl: item.imageUrl,
-              scheduledTime: item.scheduledTime,
-              status: item.status,
-              createdAt: item.createdAt
-            })
-          }
-        })
-      }
-    } catch (dbError) {
-      console.log('Using memory calendar due to DB error:', dbError.message)
-    }
-    
-    // Filter by date if provided
-    if (date) {
-      calendar = calendar.filter(item => item.date === date)
-    }
-    
-    // Filter by platform if provided
-    if (platform) {
-      calendar = calendar.filter(item => item.platform === platform)
-    }
-    
-    // Sort by scheduled time
-    calendar.sort((a, b) => new Date(a.scheduledTime || a.createdAt).getTime() - new Date(b.scheduledTime || b.createdAt).getTime())
-    
+    const { date, platform, status } = req.query
+    const day = parseDate(date, 'date')
+
+    const calendar = await getSocialPublishingService().getCalendar({
+      platform: SOCIAL_PLATFORMS.includes(platform as SocialPlatform) ? platform as SocialPlatform : undefined,
+      status: SOCIAL_POST_STATUSES.includes(status as SocialPostStatus) ? status as SocialPostStatus : undefined,
+      from: day,
+      to: day ? new Date(day.getTime() + 24 * 60 * 60 * 1000 - 1) : undefined
+    })
+
     res.json({
-      calendar: calendar,
+      calendar,
       totalItems: calendar.length,
-      filters: { date, platform }
+      filters: { date, platform, status }
     })
   } catch (error) {
-    console.error('Calendar error:', error)
-    res.status(500).json({ error: 'Failed to get content calendar' })
+    handleError(res, error, 'Failed to get content calendar')
   }
 })
 
-// Manual workflow trigger endpoint
+// Manual workflow trigger endpoint: posting runs natively, content generation is still n8n
 router.post('/workflow/trigger', async (req, res) => {
   try {
     const { workflowType, platform, urgent } = req.body
-    
+
+    if (workflowType === 'posting') {
+      const result = await getSocialPublishingService().publishDue()
+      return res.json({
+        success: true,
+        message: 'Publisher run complete',
+        workflowType,
+        ...result
+      })
+    }
+
     // N8N webhook URLs (these would be configured in your N8N instance)
-    const n8nWebhooks = {
+    const n8nWebhooks: Record<string, string> = {
       contentGeneration: process.env.N8N_CONTENT_WEBHOOK || 'https://your-n8n-instance.com/webhook/content-generation',
-      posting: process.env.N8N_POSTING_WEBHOOK || 'https://your-n8n-instance.com/webhook/posting',
       masterWorkflow: process.env.N8N_MASTER_WEBHOOK || 'https://your-n8n-instance.com/webhook/master-workflow'
     }
-    
+
     const webhookUrl = n8nWebhooks[workflowType] || n8nWebhooks.masterWorkflow
-    
+
     // Trigger N8N workflow
     const triggerData = {
       trigger: 'admin_manual',
@@ -318,7 +377,7 @@ router.post('/workflow/trigger', async (req, res) => {
       timestamp: new Date().toISOString(),
       source: 'blkout_admin_panel'
     }
-    
+
     try {
       const response = await fetch(webhookUrl, {
         method: 'POST',
@@ -327,93 +386,66 @@ router.post('/workflow/trigger', async (req, res) => {
         },
         body: JSON.stringify(triggerData)
       })
-      
+
       if (response.ok) {
-        res.json({ 
-          success: true, 
+        res.json({
+          success: true,
           message: `${workflowType} workflow triggered successfully`,
           workflowType,
-          platform 
+          platform
         })
       } else {
         throw new Error(`N8N responded with status ${response.status}`)
       }
-    } catch (fetchError) {
+    } catch (fetchError: any) {
       // If N8N is not accessible, simulate success for development
       console.log('N8N trigger failed, simulating success:', fetchError.message)
-      res.json({ 
-        success: true, 
+      res.json({
+        success: true,
         message: `${workflowType} workflow triggered (simulated)`,
         workflowType,
         platform,
-        note: 'N8N instance not accessible - simulated response' 
+        note: 'N8N instance not accessible - simulated response'
       })
     }
   } catch (error) {
-    console.error('Workflow trigger error:', error)
-    res.status(500).json({ error: 'Failed to trigger workflow', details: error.message })
+    handleError(res, error, 'Failed to trigger workflow')
   }
 })
 
-// Emergency posting endpoint
+// Emergency posting endpoint: skips approval and publishes immediately
 router.post('/emergency/post', async (req, res) => {
   try {
-    const { content, platforms, urgent } = req.body
-    
-    if (!content || !platforms || platforms.length === 0) {
+    const { content, imageUrl } = req.body
+
+    if (!content || !Array.isArray(req.body.platforms) || req.body.platforms.length === 0) {
       return res.status(400).json({ error: 'Content and platforms are required' })
     }
-    
-    const results = []
-    
-    for (const platform of platforms) {
-      // Create emergency content item
-      const emergencyContent = {
-        id: `emergency_${platform}_${Date.now()}`,
-        date: new Date().toISOString().split('T')[0],
-        platform: platform,
-        content: content,
-        scheduledTime: new Date().toISOString(),
-        status: 'posting',
-        urgent: true,
-        createdAt: new Date().toISOString()
-      }
-      
-      contentCalendar.push(emergencyContent)
-      
-      // Trigger immediate posting workflow
-      const postingWebhook = process.env.N8N_EMERGENCY_WEBHOOK || 'https://your-n8n-instance.com/webhook/emergency-post'
-      
-      try {
-        await fetch(postingWebhook, {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            contentId: emergencyContent.id,
-            platform: platform,
-            content: content,
-            urgent: true,
-            source: 'admin_emergency'
-          })
-        })
-        
-        results.push({ platform, status: 'triggered', contentId: emergencyContent.id })
-      } catch (postError) {
-        console.log(`Emergency post failed for ${platform}:`, postError.message)
-        results.push({ platform, status: 'failed', error: postError.message })
-      }
-    }
-    
+
+    const posts = await getSocialPublishingService().publishUrgent({
+      platforms: parsePlatforms(req.body),
+      content,
+      imageUrl,
+      createdBy: req.auth?.userId
+    })
+
+    const results = posts.map(post => ({
+      platform: post.platform,
+      status: post.status === 'posted' ? 'posted' : post.status === 'scheduled' ? 'retrying' : 'failed',
+      contentId: post.id,
+      url: post.platformUrl,
+      error: post.lastError
+    }))
+
     res.json({
       success: true,
       message: 'Emergency posting initiated',
-      results: results,
-      contentIds: results.map(r => r.contentId).filter(Boolean)
+      results,
+      contentIds: results.map(r => r.contentId)
     })
   } catch (error) {
-    console.error('Emergency posting error:', error)
-    res.status(500).json({ error: 'Failed to initiate emergency posting' })
+    handleError(res, error, 'Failed to initiate emergency posting')
   }
 })
 
-export default router
\ No newline at end of file
+export default router
@@ -1,6 +1,7 @@
 /**
  * Voice Routes for AIvor
  * TTS using Chatterbox (resemble-ai) — self-hosted on Coolify
+ * STT using an OpenAI-compatible Whisper server (see SpeechToTextService)
  * Features: emotion control, voice cloning with Gielgud reference, paralinguistic tags
  * Fallback: Mozilla TTS if Chatterbox unavailable
  */
@@ -8,13 +9,47 @@
 import express from 'express';
 import path from 'path';
 import fs from 'fs';
+import { SupabaseClient } from '@supabase/supabase-js';
 import { getSupabaseClient } from '../lib/supabaseClient.js';
+import { parseMultipartForm } from '../lib/multipart.js';
+import { getSpeechToTextService, SpeechToTextError, MAX_AUDIO_BYTES } from '../services/SpeechToTextService.js';
+import { getVoiceProfileService, applyParalinguisticTags, VoiceProfile } from '../services/VoiceProfileService.js';
+import {
+  LongFormSpeechService,
+  SpeechChunkCache,
+  MAX_LONG_FORM_CHARS,
+  audioContentType,
+  streamPiece
+} from '../services/LongFormSpeechService.js';
 
 const router = express.Router();
 
+/**
+ * Chat pipeline used by voice chat mode; registered by server.ts so the
+ * transcript gets exactly what POST /api/chat would return.
+ */
+export type VoiceChatHandler = (
+  req: express.Request,
+  message: string,
+  userContext: any,
+  sessionId: string
+) => Promise<{ response: string } & Record<string, any>>;
+
+let voiceChatHandler: VoiceChatHandler | null = null;
+
+export function setVoiceChatHandler(handler: VoiceChatHandler | null) {
+  voiceChatHandler = handler;
+}
+
+// Longer text, or any request for streamed audio, is chunked (see LongFormSpeechService)
+const SINGLE_CALL_MAX_CHARS = 1000;
+
+// Recording uploads: multipart/form-data (field "audio" or "file") or a raw audio body
+const AUDIO_BODY_TYPES = ['audio/*', 'video/webm', 'application/ogg', 'application/octet-stream', 'multipart/form-data'];
+
 // Chatterbox TTS (primary) — OpenAI-compatible API
+// Delivery settings (exaggeration, pacing, tags) come from VoiceProfileService
 const CHATTERBOX_URL = process.env.CHATTERBOX_URL || 'https://chatterbox.blkoutuk.cloud';
-const CHATTERBOX_EMOTION = parseFloat(process.env.CHATTERBOX_EMOTION || '0.6');
 // Legacy Mozilla TTS fallback
 const MELOTTS_URL = process.env.MELOTTS_URL || process.env.TTS_URL || 'http://tts.blkoutuk.cloud';
 
@@ -48,13 +83,277 @@ function hashText(text: string): string {
   return Math.abs(hash).toString(36);
 }
 
+/**
+ * Audio cache key for a text rendered in a voice profile. The default profile
+ * keeps the original text-only key so existing cached audio stays valid.
+ */
+function voiceCacheKey(text: string, profile: VoiceProfile): string {
+  const textHash = hashText(text);
+  return profile.name === 'default' ? `voice-${textHash}` : `voice-${textHash}-${hashText(profile.key)}`;
+}
+
+/**
+ * Run text through the TTS engines in order: Chatterbox with the Gielgud
+ * voice, Chatterbox default voice, then Mozilla TTS. Only Chatterbox
+ * honours the voice profile.
+ */
+async function synthesizeSpeech(rawText: string, profile: VoiceProfile): Promise<{ audio: ArrayBuffer; source: string }> {
+  const text = applyParalinguisticTags(rawText, profile);
+  let ttsResponse: Response | null = null;
+  let ttsSource: string = 'unknown';
+
+  // 1. Chatterbox TTS (primary)
+  //    Uses /v1/audio/speech/upload with Gielgud voice_file for voice cloning
+  //    Falls back to /v1/audio/speech (default voice) if no reference audio loaded
+  try {
+    if (gielgudRefBuffer) {
+      // Use multipart upload endpoint with Gielgud voice file for cloning
+      console.log(`[Voice] Trying Chatterbox TTS at ${CHATTERBOX_URL}/v1/audio/speech/upload with Gielgud voice`);
+
+      const boundary = `----VoiceBoundary${Date.now()}`;
+      const parts: Buffer[] = [];
+
+      // Add text input field
+      parts.push(Buffer.from(
+        `--${boundary}\r\nContent-Disposition: form-data; name="input"\r\n\r\n${text}\r\n`
+      ));
+
+      // Add voice profile fields
+      const profileFields: Record<string, number> = {
+        exaggeration: profile.exaggeration,
+        cfg_weight: profile.cfgWeight,
+        temperature: profile.temperature,
+        speed: profile.speed
+      };
+      for (const [name, value] of Object.entries(profileFields)) {
+        parts.push(Buffer.from(
+          `--${boundary}\r\nContent-Disposition: form-data; name="${name}"\r\n\r\n${value}\r\n`
+        ));
+      }
+
+      // Add voice_file (Gielgud reference audio)
+      parts.push(Buffer.from(
+        `--${boundary}\r\nContent-Disposition: form-data; name="voice_file"; filename="gielgud4AIvor.mp3"\r\nContent-Type: audio/mpeg\r\n\r\n`
+      ));
+      parts.push(gielgudRefBuffer);
+      parts.push(Buffer.from(`\r\n--${boundary}--\r\n`));
+
+      const multipartBody = Buffer.concat(parts);
+
+      const chatterboxResponse = await fetch(`${CHATTERBOX_URL}/v1/audio/speech/upload`, {
+        method: 'POST',
+        headers: { 'Content-Type': `multipart/form-data; boundary=${boundary}` },
+        body: multipartBody,
+        signal: AbortSignal.timeout(45000),
+      });
+
+      if (chatterboxResponse.ok) {
+        ttsResponse = chatterboxResponse;
+        ttsSource = 'chatterbox-gielgud';
+        console.log(`[Voice] Chatterbox TTS success with Gielgud voice cloning`);
+      } else {
+        const errText = await chatterboxResponse.text().catch(() => '');
+        console.log(`[Voice] Chatterbox upload returned ${chatterboxResponse.status}: ${errText.substring(0, 200)}, trying JSON endpoint`);
+      }
+    }
+
+    // Fallback: JSON endpoint (uses server default voice — not Gielgud)
+    if (!ttsResponse) {
+      console.log(`[Voice] Trying Chatterbox TTS at ${CHATTERBOX_URL}/v1/audio/speech (default voice)`);
+
+      const chatterboxResponse = await fetch(`${CHATTERBOX_URL}/v1/audio/speech`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          input: text,
+          model: 'chatterbox',
+          exaggeration: profile.exaggeration,
+          cfg_weight: profile.cfgWeight,
+          temperature: profile.temperature,
+          speed: profile.speed,
+        }),
+        signal: AbortSignal.timeout(30000),
+      });
+
+      if (chatterboxResponse.ok) {
+        ttsResponse = chatterboxResponse;
+        ttsSource = 'chatterbox-default';
+        console.log(`[Voice] Chatterbox TTS success (default voice, not Gielgud)`);
+      } else {
+        const errText = await chatterboxResponse.text().catch(() => '');
+        console.log(`[Voice] Chatterbox returned ${chatterboxResponse.status}: ${errText.substring(0, 200)}, trying Mozilla fallback`);
+      }
+    }
+  } catch (e) {
+    console.log(`[Voice] Chatterbox unavailable: ${e}`);
+  }
+
+  // 2. Mozilla TTS fallback
+  if (!ttsResponse) {
+    console.log(`[Voice] Falling back to Mozilla TTS at ${MELOTTS_URL}`);
+    const legacyEndpoints = [
+      `${MELOTTS_URL}/api/tts?text=${encodeURIComponent(text)}`,
+      `${MELOTTS_URL}/?text=${encodeURIComponent(text)}`,
+      `${MELOTTS_URL}/synthesize?text=${encodeURIComponent(text)}`,
+    ];
+
+    for (const url of legacyEndpoints) {
+      try {
+        const response = await fetch(url, { method: 'GET' });
+        if (response.ok) {
+          ttsResponse = response;
+          ttsSource = 'mozilla-tts';
+          console.log(`[Voice] Mozilla TTS success with ${url}`);
+          break;
+        }
+      } catch (e) {
+        // continue to next endpoint
+      }
+    }
+  }
+
+  if (!ttsResponse || !ttsResponse.ok) {
+    throw new Error('No TTS engine available (tried Chatterbox and Mozilla TTS)');
+  }
+
+  return { audio: await ttsResponse.arrayBuffer(), source: ttsSource };
+}
+
+/**
+ * Per-chunk audio cache in the ivor-voice-responses bucket, alongside
+ * whole-text entries.
+ */
+function storageChunkCache(supabase: SupabaseClient): SpeechChunkCache {
+  const bucket = supabase.storage.from('ivor-voice-responses');
+  return {
+    async get(key) {
+      const { data, error } = await bucket.download(`cache/${key}.mp3`);
+      return error || !data ? null : Buffer.from(await data.arrayBuffer());
+    },
+    async put(key, audio) {
+      const { error } = await bucket.upload(`cache/${key}.mp3`, audio, {
+        contentType: audioContentType(audio),
+        cacheControl: '604800',
+        upsert: true
+      });
+      if (error) throw error;
+    }
+  };
+}
+
+function longFormSpeech(profile: VoiceProfile): LongFormSpeechService {
+  const supabase = getSupabaseClient();
+  return new LongFormSpeechService(
+    async chunk => {
+      const { audio, source } = await synthesizeSpeech(chunk, profile);
+      return { audio: Buffer.from(audio), source };
+    },
+    supabase ? storageChunkCache(supabase) : null
+  );
+}
+
+/**
+ * Chunked synthesis for POST /api/voice. Streaming writes each chunk as soon
+ * as it (and every chunk before it) is ready; otherwise the chunks are
+ * stitched, cached as a whole and returned like a single-call response.
+ */
+async function respondWithLongForm(
+  res: express.Response,
+  text: string,
+  profile: VoiceProfile,
+  options: { stream: boolean; sessionId?: string; userId?: string }
+) {
+  const longForm = longFormSpeech(profile);
+  const cacheKeyFor = (chunk: string) => voiceCacheKey(chunk, profile);
+
+  if (options.stream) {
+    let clientGone = false;
+    res.on('close', () => { clientGone = true; });
+
+    let index = 0;
+    try {
+      for await (const chunk of longForm.synthesizeChunks(text, cacheKeyFor)) {
+        if (index === 0) {
+          res.status(200);
+          res.setHeader('Content-Type', audioContentType(chunk.audio));
+          res.setHeader('Cache-Control', 'no-cache');
+          res.setHeader('X-Voice-Chunks', chunk.total.toString());
+          res.setHeader('X-Voice-Profile', profile.name);
+          res.flushHeaders();
+        }
+        if (clientGone) break;
+        res.write(streamPiece(chunk.audio, index++));
+      }
+    } catch (error) {
+      // Nothing sent yet: let the route report a normal error
+      if (!res.headersSent) throw error;
+      console.error(`[Voice] Stream failed after ${index} chunks:`, error);
+      return res.destroy();
+    }
+    console.log(`[Voice] Streamed ${index} chunks (profile: ${profile.name})`);
+    return res.end();
+  }
+
+  const result = await longForm.synthesizeAll(text, cacheKeyFor);
+  const contentType = audioContentType(result.audio);
+  const cacheKey = voiceCacheKey(text, profile);
+  console.log(`[Voice] Stitched ${result.chunks} chunks (${result.cachedChunks} cached) into ${result.audio.length} bytes`);
+
+  const supabase = getSupabaseClient();
+  if (supabase) {
+    const { error: uploadError } = await supabase.storage
+      .from('ivor-voice-responses')
+      .upload(`cache/${cacheKey}.mp3`, result.audio, {
+        contentType,
+        cacheControl: '604800',
+        upsert: true
+      });
+
+    if (!uploadError) {
+      const { data: signedUrl, error: signError } = await supabase.storage
+        .from('ivor-voice-responses')
+        .createSignedUrl(`cache/${cacheKey}.mp3`, 604800);
+
+      if (signError) throw signError;
+
+      return res.status(200).json({
+        success: true,
+        audioUrl: signedUrl.signedUrl,
+        source: result.sources.join(','),
+        cached: false,
+        voiceProfile: profile.name,
+        chunks: result.chunks,
+        cachedChunks: result.cachedChunks,
+        expiresIn: 604800,
+        service: 'ivor-voice',
+        sessionId: options.sessionId || `session-${Date.now()}`,
+        userId: options.userId || 'anonymous',
+        textLength: text.length,
+        audioSize: result.audio.length,
+        timestamp: new Date().toISOString()
+      });
+    }
+    console.error('[Voice] Upload error:', uploadError);
+  }
+
+  res.setHeader('Content-Type', contentType);
+  res.setHeader('Content-Length', result.audio.length.toString());
+  res.setHeader('X-Voice-Chunks', result.chunks.toString());
+  return res.status(200).send(result.audio);
+}
+
 /**
  * POST /api/voice
  * Synthesize text to speech with British accent
+ * Pass the chat response's `journeyContext` (or just its `responseId`) to
+ * match delivery to the user's stage and emotional state.
+ * Text over SINGLE_CALL_MAX_CHARS (lesson content, long replies) is voiced in
+ * sentence chunks; send `stream: true` or `Accept: audio/*` to receive the
+ * audio progressively instead of a stitched file.
  */
 router.post('/', async (req, res) => {
   try {
-    const { text, sessionId, userId } = req.body || {};
+    const { text, sessionId, userId, journeyContext, responseId, stream } = req.body || {};
 
     // Validate request
     if (!text || typeof text !== 'string' || !text.trim()) {
@@ -66,26 +365,33 @@ router.post('/', async (req, res) => {
       });
     }
 
-    // Validate text length (max 5000 characters)
-    if (text.length > 5000) {
+    // Validate text length
+    if (text.length > MAX_LONG_FORM_CHARS) {
       return res.status(400).json({
         success: false,
         error: 'Text too long',
-        message: 'Text must be 5000 characters or less',
+        message: `Text must be ${MAX_LONG_FORM_CHARS} characters or less`,
         service: 'ivor-voice',
-        maxLength: 5000,
+        maxLength: MAX_LONG_FORM_CHARS,
         receivedLength: text.length
       });
     }
 
-    // Check cache first (based on text hash)
+    const { profile } = getVoiceProfileService().resolve({
+      journeyContext,
+      responseId: typeof responseId === 'string' ? responseId : undefined
+    });
+
+    // Check cache first (based on text hash and voice profile)
     const textHash = hashText(text);
-    const cacheKey = `voice-${textHash}`;
+    const cacheKey = voiceCacheKey(text, profile);
 
-    console.log(`[Voice] Processing request for ${text.length} characters (hash: ${textHash})`);
+    console.log(`[Voice] Processing request for ${text.length} characters (hash: ${textHash}, profile: ${profile.name})`);
 
-    // Check Supabase cache if configured
-    const supabaseForCache = getSupabaseClient();
+    const wantsStream = stream === true || (req.headers.accept || '').includes('audio/');
+
+    // Check Supabase cache if configured (streams are rebuilt from cached chunks instead)
+    const supabaseForCache = wantsStream ? null : getSupabaseClient();
     if (supabaseForCache) {
       try {
         const supabase = supabaseForCache;
@@ -109,6 +415,7 @@ router.post('/', async (req, res) => {
               audioUrl: signedUrl.signedUrl,
               source: 'cache',
               cached: true,
+              voiceProfile: profile.name,
               expiresIn: 604800,
               service: 'ivor-voice',
               sessionId: sessionId || `session-${Date.now()}`,
@@ -119,121 +426,15 @@ router.post('/', async (req, res) => {
       } catch (cacheError: any) {
         console.warn('[Voice] Cache check failed:', cacheError.message);
       }
-    } else {
+    } else if (!wantsStream) {
       console.warn('[Voice] Supabase not configured, skipping cache check');
     }
 
-    // Try Chatterbox TTS first (OpenAI-compatible), then Mozilla TTS fallback
-    let ttsResponse: Response | null = null;
-    let ttsSource: string = 'unknown';
-
-    // 1. Chatterbox TTS (primary)
-    //    Uses /v1/audio/speech/upload with Gielgud voice_file for voice cloning
-    //    Falls back to /v1/audio/speech (default voice) if no reference audio loaded
-    try {
-      if (gielgudRefBuffer) {
-        // Use multipart upload endpoint with Gielgud voice file for cloning
-        console.log(`[Voice] Trying Chatterbox TTS at ${CHATTERBOX_URL}/v1/audio/speech/upload with Gielgud voice`);
-
-        const boundary = `----VoiceBoundary${Date.now()}`;
-        const parts: Buffer[] = [];
-
-        // Add text input field
-        parts.push(Buffer.from(
-          `--${boundary}\r\nContent-Disposition: form-data; name="input"\r\n\r\n${text}\r\n`
-        ));
-
-        // Add exaggeration field
-        parts.push(Buffer.from(
-          `--${boundary}\r\nContent-Disposition: form-data; name="exaggeration"\r\n\r\n${CHATTERBOX_EMOTION}\r\n`
-        ));
-
-        // Add voice_file (Gielgud reference audio)
-        parts.push(Buffer.from(
-          `--${boundary}\r\nContent-Disposition: form-data; name="voice_file"; filename="gielgud4AIvor.mp3"\r\nContent-Type: audio/mpeg\r\n\r\n`
-        ));
-        parts.push(gielgudRefBuffer);
-        parts.push(Buffer.from(`\r\n--${boundary}--\r\n`));
-
-        const multipartBody = Buffer.concat(parts);
-
-        const chatterboxResponse = await fetch(`${CHATTERBOX_URL}/v1/audio/speech/upload`, {
-          method: 'POST',
-          headers: { 'Content-Type': `multipart/form-data; boundary=${boundary}` },
-          body: multipartBody,
-          signal: AbortSignal.timeout(45000),
-        });
-
-        if (chatterboxResponse.ok) {
-          ttsResponse = chatterboxResponse;
-          ttsSource = 'chatterbox-gielgud';
-          console.log(`[Voice] Chatterbox TTS success with Gielgud voice cloning`);
-        } else {
-          const errText = await chatterboxResponse.text().catch(() => '');
-          console.log(`[Voice] Chatterbox upload returned ${chatterboxResponse.status}: ${errText.substring(0, 200)}, trying JSON endpoint`);
-        }
-      }
-
-      // Fallback: JSON endpoint (uses server default voice — not Gielgud)
-      if (!ttsResponse) {
-        console.log(`[Voice] Trying Chatterbox TTS at ${CHATTERBOX_URL}/v1/audio/speech (default voice)`);
-
-        const chatterboxResponse = await fetch(`${CHATTERBOX_URL}/v1/audio/speech`, {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            input: text,
-            model: 'chatterbox',
-            exaggeration: CHATTERBOX_EMOTION,
-          }),
-          signal: AbortSignal.timeout(30000),
-        });
-
-        if (chatterboxResponse.ok) {
-          ttsResponse = chatterboxResponse;
-          ttsSource = 'chatterbox-default';
-          console.log(`[Voice] Chatterbox TTS success (default voice, not Gielgud)`);
-        } else {
-          const errText = await chatterboxResponse.text().catch(() => '');
-          console.log(`[Voice] Chatterbox returned ${chatterboxResponse.status}: ${errText.substring(0, 200)}, trying Mozilla fallback`);
-        }
-      }
-    } catch (e) {
-      console.log(`[Voice] Chatterbox unavailable: ${e}`);
-    }
-
-    // 2. Mozilla TTS fallback
-    if (!ttsResponse) {
-      console.log(`[Voice] Falling back to Mozilla TTS at ${MELOTTS_URL}`);
-      const legacyEndpoints = [
-        `${MELOTTS_URL}/api/tts?text=${encodeURIComponent(text)}`,
-        `${MELOTTS_URL}/?text=${encodeURIComponent(text)}`,
-        `${MELOTTS_URL}/synthesize?text=${encodeURIComponent(text)}`,
-      ];
-
-      for (const url of legacyEndpoints) {
-        try {
-          const response = await fetch(url, { method: 'GET' });
-          if (response.ok) {
-            ttsResponse = response;
-            ttsSource = 'mozilla-tts';
-            console.log(`[Voice] Mozilla TTS success with ${url}`);
-            break;
-          }
-        } catch (e) {
-          // continue to next endpoint
-        }
-      }
+    if (wantsStream || text.length > SINGLE_CALL_MAX_CHARS) {
+      return await respondWithLongForm(res, text, profile, { stream: wantsStream, sessionId, userId });
     }
 
-    if (!ttsResponse || !ttsResponse.ok) {
-      throw new Error('No TTS engine available (tried Chatterbox and Mozilla TTS)');
-    }
-
-    const melottsResponse = ttsResponse;
-
-    // Get audio buffer
-    const audioBuffer = await melottsResponse.arrayBuffer();
+    const { audio: audioBuffer, source: ttsSource } = await synthesizeSpeech(text, profile);
     console.log(`[Voice] Generated ${audioBuffer.byteLength} bytes of audio`);
 
     // Upload to Supabase Storage if configured
@@ -278,6 +479,7 @@ router.post('/', async (req, res) => {
       audioUrl: signedUrl.signedUrl,
       source: ttsSource,
       cached: false,
+      voiceProfile: profile.name,
       expiresIn: 604800,
       service: 'ivor-voice',
       serviceName: 'IVOR Voice - British Accent TTS',
@@ -303,6 +505,181 @@ router.post('/', async (req, res) => {
   }
 });
 
+/**
+ * POST /api/voice/transcribe
+ * Speech-to-text for a webm/ogg/wav/mp3 recording via the Whisper backend.
+ * Send multipart/form-data with the recording in "audio" (or "file"), or the
+ * raw audio as the request body with its Content-Type.
+ * Optional fields (form fields or query params): language, prompt, sessionId,
+ * userContext (JSON) and mode=chat, which also answers the transcript through
+ * the /api/chat pipeline and returns IVOR's reply as text and audio.
+ */
+router.post('/transcribe', express.raw({ type: AUDIO_BODY_TYPES, limit: MAX_AUDIO_BYTES + 1024 * 1024 }), async (req, res) => {
+  try {
+    if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'Audio is required',
+        message: 'Send the recording as multipart/form-data (field "audio") or as a raw webm/ogg/wav/mp3 body',
+        service: 'ivor-voice'
+      });
+    }
+
+    let audio: Buffer = req.body;
+    let contentType = req.headers['content-type'];
+    let filename: string | undefined;
+    const fields: Record<string, string | undefined> = {};
+    for (const [key, value] of Object.entries(req.query)) {
+      if (typeof value === 'string') fields[key] = value;
+    }
+
+    if ((contentType || '').startsWith('multipart/form-data')) {
+      const form = parseMultipartForm(req.body, contentType);
+      const file = form.files.find(f => f.field === 'audio') || form.files.find(f => f.field === 'file') || form.files[0];
+      if (!file) {
+        return res.status(400).json({
+          success: false,
+          error: 'Audio is required',
+          message: 'Multipart uploads must include the recording in an "audio" or "file" field',
+          service: 'ivor-voice'
+        });
+      }
+      audio = file.data;
+      contentType = file.contentType;
+      filename = file.filename;
+      Object.assign(fields, form.fields);
+    }
+
+    const transcription = await getSpeechToTextService().transcribe(audio, {
+      contentType,
+      filename,
+      language: fields.language,
+      prompt: fields.prompt
+    });
+    console.log(`[Voice] Transcribed ${audio.length} bytes of ${transcription.format} audio (${transcription.text.length} characters)`);
+
+    const sessionId = fields.sessionId || `session-${Date.now()}`;
+
+    if (fields.mode !== 'chat') {
+      return res.status(200).json({
+        success: true,
+        mode: 'transcribe',
+        transcript: transcription.text,
+        language: transcription.language,
+        durationSeconds: transcription.durationSeconds,
+        format: transcription.format,
+        backend: transcription.backend,
+        service: 'ivor-voice',
+        sessionId,
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    if (!voiceChatHandler) {
+      throw new Error('Voice chat handler not registered');
+    }
+
+    let userContext: any = {};
+    if (fields.userContext) {
+      try {
+        userContext = JSON.parse(fields.userContext);
+      } catch {
+        return res.status(400).json({ success: false, error: 'userContext must be valid JSON', service: 'ivor-voice' });
+      }
+    }
+
+    const chat = await voiceChatHandler(req, transcription.text, userContext, sessionId);
+
+    // A reply without audio is still a reply: fall back to text-only
+    let voice: Record<string, any> = { available: false };
+    try {
+      voice = await voiceReply(chat.response, chat.journeyContext);
+    } catch (ttsError: any) {
+      console.warn('[Voice] Voice chat reply synthesis failed:', ttsError.message);
+    }
+
+    return res.status(200).json({
+      success: true,
+      mode: 'chat',
+      transcript: transcription.text,
+      language: transcription.language,
+      durationSeconds: transcription.durationSeconds,
+      backend: transcription.backend,
+      chat,
+      voice,
+      service: 'ivor-voice',
+      sessionId,
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error: any) {
+    if (error instanceof SpeechToTextError) {
+      return res.status(error.status).json({
+        success: false,
+        error: error.message,
+        service: 'ivor-voice'
+      });
+    }
+
+    console.error('[Voice] Transcription error:', error);
+
+    return res.status(500).json({
+      success: false,
+      error: 'Voice transcription failed',
+      message: error.message,
+      service: 'ivor-voice',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+/**
+ * Synthesise a voice chat reply in the profile for its journey context.
+ * Stored in the voice cache and returned as a signed URL when Supabase is
+ * configured, otherwise inlined as base64.
+ */
+async function voiceReply(text: string, journeyContext: any): Promise<Record<string, any>> {
+  const { profile } = getVoiceProfileService().resolve({ journeyContext });
+  const { audio, source } = text.length > SINGLE_CALL_MAX_CHARS
+    ? await longFormSpeech(profile).synthesizeAll(text, chunk => voiceCacheKey(chunk, profile))
+        .then(result => ({ audio: result.audio, source: result.sources.join(',') }))
+    : await synthesizeSpeech(text, profile).then(result => ({ audio: Buffer.from(result.audio), source: result.source }));
+  const cacheKey = voiceCacheKey(text, profile);
+  const contentType = audioContentType(audio);
+
+  const supabase = getSupabaseClient();
+  if (supabase) {
+    const { error: uploadError } = await supabase.storage
+      .from('ivor-voice-responses')
+      .upload(`cache/${cacheKey}.mp3`, audio, {
+        contentType,
+        cacheControl: '604800',
+        upsert: true
+      });
+
+    if (!uploadError) {
+      const { data: signedUrl } = await supabase.storage
+        .from('ivor-voice-responses')
+        .createSignedUrl(`cache/${cacheKey}.mp3`, 604800);
+
+      if (signedUrl) {
+        return { available: true, audioUrl: signedUrl.signedUrl, expiresIn: 604800, source, voiceProfile: profile.name, audioSize: audio.byteLength };
+      }
+    } else {
+      console.warn('[Voice] Voice chat reply upload failed:', uploadError.message);
+    }
+  }
+
+  return {
+    available: true,
+    audioBase64: audio.toString('base64'),
+    contentType,
+    source,
+    voiceProfile: profile.name,
+    audioSize: audio.byteLength
+  };
+}
+
 /**
  * GET /api/voice/health
  * Health check for voice service
@@ -343,6 +720,9 @@ router.get('/health', async (_req, res) => {
       mozillaError = e.message || 'Connection failed';
     }
 
+    const speechToText = getSpeechToTextService();
+    const whisperHealthy = await speechToText.isHealthy();
+
     return res.status(200).json({
       success: true,
       service: 'ivor-voice',
@@ -359,6 +739,10 @@ router.get('/health', async (_req, res) => {
         healthy: mozillaHealthy,
         error: mozillaError || undefined
       },
+      transcription: {
+        backend: speechToText.backendName,
+        healthy: whisperHealthy
+      },
       supabase: {
         configured: !!getSupabaseClient()
       },
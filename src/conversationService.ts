@@ -1,6 +1,6 @@
-import OpenAI from 'openai'
 import { createClient } from '@supabase/supabase-js'
 import EmbeddingService from './embeddingService.js'
+import { LLMGateway, getLLMGateway } from './lib/llmGateway.js'
 
 interface ConversationContext {
   userId: string
@@ -25,8 +25,7 @@ interface ConversationContext {
 
 // Enhanced Conversation Service with AI and Memory
 class ConversationService {
-  private ai: OpenAI | null = null
-  private aiModel: string = 'qwen-max'
+  private llm: LLMGateway
   private supabase: any
   private embeddingService: EmbeddingService
   private isAIEnabled: boolean = false
@@ -43,27 +42,12 @@ class ConversationService {
 
     this.embeddingService = new EmbeddingService()
 
-    // Primary: Qwen AI via DashScope (OpenAI-compatible)
-    const dashscopeKey = process.env.DASHSCOPE_API_KEY
-    const groqKey = process.env.GROQ_API_KEY
+    // Qwen → Groq → local endpoint, via the shared LLM gateway
+    this.llm = getLLMGateway()
+    this.isAIEnabled = this.llm.isAvailable()
 
-    if (dashscopeKey && dashscopeKey !== 'your-dashscope-api-key-here') {
-      this.ai = new OpenAI({
-        apiKey: dashscopeKey,
-        baseURL: process.env.DASHSCOPE_BASE_URL || 'https://dashscope-intl.aliyuncs.com/compatible-mode/v1'
-      })
-      this.aiModel = process.env.DASHSCOPE_MODEL || 'qwen-max'
-      this.isAIEnabled = true
-      console.log(`ConversationService: Qwen AI enabled (model: ${this.aiModel})`)
-    } else if (groqKey && groqKey !== 'your-groq-api-key-here') {
-      // Fallback: GROQ via OpenAI-compatible interface
-      this.ai = new OpenAI({
-        apiKey: groqKey,
-        baseURL: 'https://api.groq.com/openai/v1'
-      })
-      this.aiModel = 'llama-3.3-70b-versatile'
-      this.isAIEnabled = true
-      console.log('ConversationService: GROQ AI fallback enabled')
+    if (this.isAIEnabled) {
+      console.log(`ConversationService: AI enabled (model: ${this.llm.getPrimaryModel('chat')})`)
     } else {
       console.log('ConversationService: AI disabled, using rule-based responses')
     }
@@ -78,37 +62,69 @@ class ConversationService {
     relevantResources: any[],
     liveDataPrompt?: string
   ): Promise<string> {
-    if (!this.isAIEnabled || !this.ai) {
+    if (!this.isAIEnabled) {
       return this.generateFallbackResponse(message, relevantResources)
     }
 
     try {
-      const systemPrompt = this.createSystemPrompt(context, relevantResources, liveDataPrompt)
-      const conversationHistory = context.conversationHistory.slice(-20)
-
-      const messages = [
-        { role: 'system' as const, content: systemPrompt },
-        ...conversationHistory.map(msg => ({
-          role: msg.role,
-          content: msg.content
-        })),
-        { role: 'user' as const, content: message }
-      ]
-
-      const response = await this.ai.chat.completions.create({
-        model: this.aiModel,
-        messages: messages,
-        max_tokens: 1200,
-        temperature: 0.7
+      const completion = await this.llm.complete({
+        useCase: 'chat',
+        messages: this.buildMessages(message, context, relevantResources, liveDataPrompt),
+        fallback: () => this.generateFallbackResponse(message, relevantResources)
       })
 
-      return response.choices[0]?.message?.content || this.generateFallbackResponse(message, relevantResources)
+      return completion.content
     } catch (error) {
       console.error('Error generating AI response:', error)
       return this.generateFallbackResponse(message, relevantResources)
     }
   }
 
+  /**
+   * Stream an AI-powered response token by token.
+   * Yields the fallback response in one piece when AI is unavailable or
+   * every provider fails before anything has been streamed.
+   */
+  async *streamAIResponse(
+    message: string,
+    context: ConversationContext,
+    relevantResources: any[],
+    liveDataPrompt?: string
+  ): AsyncGenerator<string> {
+    if (!this.isAIEnabled) {
+      yield this.generateFallbackResponse(message, relevantResources)
+      return
+    }
+
+    yield* this.llm.stream({
+      useCase: 'chat',
+      messages: this.buildMessages(message, context, relevantResources, liveDataPrompt),
+      fallback: () => this.generateFallbackResponse(message, relevantResources)
+    })
+  }
+
+  /**
+   * Assemble the chat messages (system prompt, recent history, user message)
+   */
+  private buildMessages(
+    message: string,
+    context: ConversationContext,
+    relevantResources: any[],
+    liveDataPrompt?: string
+  ) {
+    const systemPrompt = this.createSystemPrompt(context, relevantResources, liveDataPrompt)
+    const conversationHistory = context.conversationHistory.slice(-20)
+
+    return [
+      { role: 'system' as const, content: systemPrompt },
+      ...conversationHistory.map(msg => ({
+        role: msg.role,
+        content: msg.content
+      })),
+      { role: 'user' as const, content: message }
+    ]
+  }
+
   /**
    * Create context-aware system prompt
    */
@@ -7,6 +7,11 @@ import cron from 'node-cron'
 import { getSupabaseClient } from '../lib/supabaseClient.js'
 import { CouncilService } from '../services/CouncilService.js'
 import campaignTrackingService from '../services/CampaignTrackingService.js'
+import { createJourneyHistoryStore } from '../services/JourneyHistoryStore.js'
+import { getSocialPublishingService } from '../services/SocialPublishingService.js'
+import { getNotificationQueueService } from '../services/NotificationQueueService.js'
+import { getWaitlistService } from '../services/WaitlistService.js'
+import { getAnalyticsService } from '../services/AnalyticsService.js'
 
 /**
  * Initialize all scheduled tasks
@@ -27,17 +32,17 @@ export function initializeScheduler() {
   })
   console.log('   ├── Subscriber Engagement Sync: daily at 7am')
 
-  // 2. Notification queue processor — every 15 minutes
-  cron.schedule('*/15 * * * *', async () => {
+  // 2. Notification queue processor — every 5 minutes (1h event reminders need the resolution)
+  cron.schedule('*/5 * * * *', async () => {
     try {
       await processNotificationQueue()
     } catch (error) {
       console.error('[CRON] Notification queue processing failed:', error)
     }
   })
-  console.log('   ├── Notification Queue: every 15 minutes')
+  console.log('   ├── Notification Queue: every 5 minutes')
 
-  // 3. Analytics aggregation — daily at 2am
+  // 3. Analytics aggregation — daily at 2am UK time (after the day it rolls up has closed)
   cron.schedule('0 2 * * *', async () => {
     console.log('[CRON] Running analytics aggregation...')
     try {
@@ -46,8 +51,8 @@ export function initializeScheduler() {
     } catch (error) {
       console.error('[CRON] Analytics aggregation failed:', error)
     }
-  })
-  console.log('   ├── Analytics Aggregation: daily at 2am')
+  }, { timezone: 'Europe/London' })
+  console.log('   ├── Analytics Aggregation: daily at 2am UK time')
 
   // 4. Stale RSVP cleanup — weekly Sunday at 3am
   cron.schedule('0 3 * * 0', async () => {
@@ -124,7 +129,57 @@ export function initializeScheduler() {
       console.error('[CRON] Campaign health snapshot failed:', error)
     }
   })
-  console.log('   └── Campaign Health Snapshot: weekly Monday 5am UTC')
+  console.log('   ├── Campaign Health Snapshot: weekly Monday 5am UTC')
+
+  // 10. Journey history retention — daily at 3:30am UTC
+  cron.schedule('30 3 * * *', async () => {
+    console.log('[CRON] Purging expired journey history...')
+    try {
+      const removed = await createJourneyHistoryStore().purgeExpired()
+      console.log(`[CRON] Journey history purge complete: ${removed} entries removed`)
+    } catch (error) {
+      console.error('[CRON] Journey history purge failed:', error)
+    }
+  })
+  console.log('   ├── Journey History Retention: daily at 3:30am UTC')
+
+  // 11. Social publishing — every 5 minutes (replaces the n8n posting workflows)
+  cron.schedule('*/5 * * * *', async () => {
+    try {
+      const result = await getSocialPublishingService().publishDue()
+      if (result.attempted > 0) {
+        console.log(`[CRON] Social publishing: ${result.posted} posted, ${result.retrying} retrying, ${result.failed} failed`)
+      }
+    } catch (error) {
+      console.error('[CRON] Social publishing failed:', error)
+    }
+  })
+  console.log('   ├── Social Publishing: every 5 minutes')
+
+  // 12. Notification digests — daily at 8am UK time
+  cron.schedule('0 8 * * *', async () => {
+    console.log('[CRON] Sending notification digests...')
+    try {
+      const { users, items } = await getNotificationQueueService().sendDigests()
+      console.log(`[CRON] Notification digests complete: ${items} notifications merged for ${users} users`)
+    } catch (error) {
+      console.error('[CRON] Notification digests failed:', error)
+    }
+  }, { timezone: 'Europe/London' })
+  console.log('   ├── Notification Digests: daily at 8am UK time')
+
+  // 13. Waitlist offers — every 5 minutes (lapsed offers pass to the next person waiting)
+  cron.schedule('*/5 * * * *', async () => {
+    try {
+      const { expired, offered } = await getWaitlistService().expireOffers()
+      if (expired > 0) {
+        console.log(`[CRON] Waitlist offers: ${expired} expired, ${offered} passed on`)
+      }
+    } catch (error) {
+      console.error('[CRON] Waitlist offer expiry failed:', error)
+    }
+  })
+  console.log('   └── Waitlist Offers: every 5 minutes')
 
   console.log('')
 }
@@ -202,10 +257,26 @@ async function syncSubscriberEngagement() {
 
 /**
  * Process the notification queue
+ * Queues event reminders that are coming due, then sends every due
+ * notification_queue item
+ */
+async function processNotificationQueue() {
+  const queue = getNotificationQueueService()
+  const reminders = await queue.scheduleEventReminders()
+  const result = await queue.processDue()
+
+  if (reminders > 0 || result.attempted > 0) {
+    console.log(`[CRON] Notification queue: ${reminders} reminders queued, ${result.sent} sent, ${result.retrying} retrying, ${result.failed} failed`)
+  }
+
+  await acknowledgeLoggedNotifications()
+}
+
+/**
  * Picks up entries from notification_log that haven't been sent
  * (RSVP confirmations, welcome emails logged by Supabase triggers)
  */
-async function processNotificationQueue() {
+async function acknowledgeLoggedNotifications() {
   const supabase = getSupabaseClient()
 
   const { data: pending, error } = await supabase
@@ -251,9 +322,17 @@ async function processNotificationQueue() {
 
 /**
  * Aggregate analytics data
- * Replaces n8n "Performance aggregation" flow
+ * Replaces n8n "Performance aggregation" flow, and rolls the event analytics
+ * log (views, clicks, RSVPs, check-ins, ticket sales) up into daily per-event
+ * and platform aggregates
  */
 async function aggregateAnalytics() {
+  // Recent days are rolled up again so late offline check-ins land on the right day
+  const days = await getAnalyticsService().aggregateRecent()
+  for (const { day, events, platform } of days) {
+    console.log(`[CRON] Event analytics ${day}: ${events} events, ${platform.views} views, ${platform.rsvps} RSVPs, ${platform.checkIns} check-ins, ${platform.ticketsSold} tickets`)
+  }
+
   const supabase = getSupabaseClient()
 
   // Count contacts by engagement level
@@ -492,6 +571,14 @@ async function cleanupStaleRsvps() {
       console.error('[CRON] Failed to expire stale RSVPs:', updateErr.message)
     } else {
       console.log(`[CRON] Expired ${ids.length} stale RSVPs`)
+
+      // Expired RSVPs free their places for anyone still waiting
+      const waitlist = getWaitlistService()
+      for (const eventId of new Set<string>(staleRsvps.map((r: any) => r.event_id))) {
+        await waitlist.promote(eventId).catch(error => {
+          console.error(`[CRON] Waitlist promotion for ${eventId} failed:`, error.message)
+        })
+      }
     }
   }
 }
@@ -0,0 +1,71 @@
+/**
+ * Achievements — Definitions
+ *
+ * Each achievement is a rule over the user's activity events:
+ * - count: at least `target` events of a type
+ * - streak: `days` consecutive Europe/London calendar days with an event of
+ *   the type ('any' counts every activity)
+ * - variety: at least `target` different activity types
+ */
+
+export type ActivityType =
+  | 'journal_entry'
+  | 'event_rsvp'
+  | 'event_check_in'
+  | 'quiz_passed'
+  | 'group_joined'
+  | 'framework_completed'
+
+export const ACTIVITY_TYPES: ActivityType[] = [
+  'journal_entry',
+  'event_rsvp',
+  'event_check_in',
+  'quiz_passed',
+  'group_joined',
+  'framework_completed'
+]
+
+export type AchievementRule =
+  | { kind: 'count'; activity: ActivityType; target: number }
+  | { kind: 'streak'; activity: ActivityType | 'any'; days: number }
+  | { kind: 'variety'; target: number }
+
+export interface Achievement {
+  id: string
+  title: string
+  description: string
+  category: 'reflection' | 'community' | 'learning' | 'growth'
+  rarity: 'common' | 'uncommon' | 'rare' | 'legendary'
+  rule: AchievementRule
+}
+
+export const ACHIEVEMENTS: Achievement[] = [
+  // Reflection
+  { id: 'first-journal-entry', title: 'First Steps', description: 'Write your first journal entry', category: 'reflection', rarity: 'common', rule: { kind: 'count', activity: 'journal_entry', target: 1 } },
+  { id: 'journal-10', title: 'Finding Your Voice', description: 'Write 10 journal entries', category: 'reflection', rarity: 'uncommon', rule: { kind: 'count', activity: 'journal_entry', target: 10 } },
+  { id: 'journal-50', title: 'Storyteller', description: 'Write 50 journal entries', category: 'reflection', rarity: 'rare', rule: { kind: 'count', activity: 'journal_entry', target: 50 } },
+  { id: 'week-streak', title: 'Seven Days Strong', description: 'Journal seven days in a row', category: 'reflection', rarity: 'uncommon', rule: { kind: 'streak', activity: 'journal_entry', days: 7 } },
+  { id: 'month-streak', title: 'Thirty Days of Truth', description: 'Journal thirty days in a row', category: 'reflection', rarity: 'legendary', rule: { kind: 'streak', activity: 'journal_entry', days: 30 } },
+
+  // Community
+  { id: 'first-rsvp', title: 'Showing Up', description: 'RSVP to your first community event', category: 'community', rarity: 'common', rule: { kind: 'count', activity: 'event_rsvp', target: 1 } },
+  { id: 'first-check-in', title: 'In the Room', description: 'Check in at a community event', category: 'community', rarity: 'common', rule: { kind: 'count', activity: 'event_check_in', target: 1 } },
+  { id: 'events-5', title: 'Regular Face', description: 'Check in at five community events', category: 'community', rarity: 'uncommon', rule: { kind: 'count', activity: 'event_check_in', target: 5 } },
+  { id: 'events-20', title: 'Pillar of the Community', description: 'Check in at twenty community events', category: 'community', rarity: 'rare', rule: { kind: 'count', activity: 'event_check_in', target: 20 } },
+  { id: 'first-group', title: 'Finding Your People', description: 'Join a community group', category: 'community', rarity: 'common', rule: { kind: 'count', activity: 'group_joined', target: 1 } },
+  { id: 'groups-3', title: 'Connector', description: 'Join three community groups', category: 'community', rarity: 'uncommon', rule: { kind: 'count', activity: 'group_joined', target: 3 } },
+
+  // Learning
+  { id: 'first-quiz', title: 'Knowledge is Power', description: 'Pass your first learning quiz', category: 'learning', rarity: 'common', rule: { kind: 'count', activity: 'quiz_passed', target: 1 } },
+  { id: 'quizzes-5', title: 'Lifelong Learner', description: 'Pass five learning quizzes', category: 'learning', rarity: 'rare', rule: { kind: 'count', activity: 'quiz_passed', target: 5 } },
+
+  // Growth
+  { id: 'first-framework', title: 'Problem Solver', description: 'Complete a problem-solving framework', category: 'growth', rarity: 'uncommon', rule: { kind: 'count', activity: 'framework_completed', target: 1 } },
+  { id: 'frameworks-5', title: 'Strategist', description: 'Complete five problem-solving frameworks', category: 'growth', rarity: 'rare', rule: { kind: 'count', activity: 'framework_completed', target: 5 } },
+  { id: 'explorer', title: 'Explorer', description: 'Try four different parts of IVOR', category: 'growth', rarity: 'uncommon', rule: { kind: 'variety', target: 4 } },
+  { id: 'active-fortnight', title: 'Fortnight of Care', description: 'Do something on IVOR fourteen days in a row', category: 'growth', rarity: 'rare', rule: { kind: 'streak', activity: 'any', days: 14 } }
+]
+
+export function getAchievement(achievementId: string): Achievement | undefined {
+  return ACHIEVEMENTS.find(achievement => achievement.id === achievementId)
+}
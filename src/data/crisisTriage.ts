@@ -0,0 +1,199 @@
+/**
+ * Crisis Triage — Screening Definition
+ *
+ * Screening questions follow the structure of the Columbia Suicide Severity
+ * Rating Scale screener (wish to be dead → thoughts → method → intent → plan
+ * → recent behaviour), with additional questions on immediate danger,
+ * self-harm, safety at home and current distress. Protective factors are
+ * recorded for the safety plan; they never lower a risk tier.
+ *
+ * Urgent NHS routes differ between the four UK nations, so each nation has
+ * its own list alongside the UK-wide lines.
+ */
+
+import { UKResource } from '../types/journey.js'
+
+export type RiskTier = 'emergency' | 'high' | 'moderate' | 'low'
+
+export type UKNation = 'england' | 'scotland' | 'wales' | 'northern_ireland'
+
+export interface ScreeningQuestion {
+  id: string
+  text: string
+  type: 'yes_no' | 'scale'
+  // Only asked when this question was answered yes
+  askIf?: string
+}
+
+export interface ProtectiveFactor {
+  id: string
+  label: string
+}
+
+export const SCREENING_QUESTIONS: ScreeningQuestion[] = [
+  { id: 'immediate_danger', text: 'Are you in danger right now, or have you already hurt yourself or taken something?', type: 'yes_no' },
+  { id: 'wish_dead', text: 'In the past month, have you wished you were dead or wished you could go to sleep and not wake up?', type: 'yes_no' },
+  { id: 'suicidal_thoughts', text: 'In the past month, have you had any thoughts of killing yourself?', type: 'yes_no' },
+  { id: 'method', text: 'Have you been thinking about how you might do this?', type: 'yes_no', askIf: 'suicidal_thoughts' },
+  { id: 'intent', text: 'Have you had these thoughts and had some intention of acting on them?', type: 'yes_no', askIf: 'suicidal_thoughts' },
+  { id: 'plan', text: 'Have you started to work out, or worked out, the details of how to kill yourself, and do you intend to carry out this plan?', type: 'yes_no', askIf: 'suicidal_thoughts' },
+  { id: 'recent_behaviour', text: 'In the past three months, have you done anything, started to do anything, or prepared to do anything to end your life?', type: 'yes_no' },
+  { id: 'self_harm', text: 'Have you hurt yourself on purpose recently?', type: 'yes_no' },
+  { id: 'unsafe_at_home', text: 'Do you feel unsafe where you live — for example because of violence, abuse or being forced to leave?', type: 'yes_no' },
+  { id: 'distress', text: 'On a scale of 0 to 10, how overwhelming do things feel right now?', type: 'scale' }
+]
+
+export const PROTECTIVE_FACTORS: ProtectiveFactor[] = [
+  { id: 'reasons_for_living', label: 'I have reasons for living that matter to me' },
+  { id: 'trusted_person', label: 'There is someone I trust that I can talk to' },
+  { id: 'community_connection', label: 'I feel connected to community, chosen family or friends' },
+  { id: 'future_plans', label: 'I have plans or things I am looking forward to' },
+  { id: 'professional_support', label: 'I am in touch with a GP, therapist or support service' },
+  { id: 'means_restricted', label: 'I do not have easy access to ways of hurting myself' },
+  { id: 'faith_or_spirituality', label: 'Faith, spirituality or my values help me keep going' },
+  { id: 'responsibility_to_others', label: 'I care for someone or something that depends on me (children, family, pets)' }
+]
+
+// Distress at or above this score raises an otherwise low tier to moderate
+export const HIGH_DISTRESS_SCORE = 7
+
+export const TIER_ACTIONS: Record<RiskTier, string[]> = {
+  emergency: [
+    'Call 999 or go to your nearest A&E now',
+    'If you can, stay with someone or let someone know where you are',
+    'Move away from anything you could use to hurt yourself'
+  ],
+  high: [
+    'Talk to someone today — call your urgent NHS mental health line or Samaritans on 116 123',
+    'Let a trusted person know how you are feeling',
+    'Make your surroundings safer by putting distance between you and anything you could use to hurt yourself',
+    'Fill in a safety plan so you know what to do if things get worse'
+  ],
+  moderate: [
+    'Reach out to a helpline or a trusted person this week',
+    'Book an appointment with your GP to talk about how you are feeling',
+    'Write a safety plan while things feel manageable'
+  ],
+  low: [
+    'Keep using what already helps you cope',
+    'Stay connected with people and community who support you',
+    'Come back to this check-in whenever things change'
+  ]
+}
+
+function urgentLine(resource: Pick<UKResource, 'id' | 'title' | 'description' | 'availability'> & Partial<UKResource>): UKResource {
+  return {
+    category: 'Crisis Support',
+    journeyStages: ['crisis'],
+    locations: ['unknown'],
+    specializations: ['crisis support', 'mental health'],
+    accessRequirements: ['none'],
+    cost: 'free',
+    culturalCompetency: { lgbtqSpecific: false, blackSpecific: false, transSpecific: false, disabilityAware: true },
+    emergency: true,
+    languages: ['English'],
+    ...resource
+  }
+}
+
+export const EMERGENCY_SERVICES: UKResource = urgentLine({
+  id: 'emergency-999',
+  title: 'Emergency services (999)',
+  description: 'Call 999 or go to A&E if your life is at risk right now',
+  phone: '999',
+  availability: '24/7'
+})
+
+export const UK_WIDE_CRISIS_LINES: UKResource[] = [
+  urgentLine({
+    id: 'shout-85258',
+    title: 'Shout',
+    description: 'Free, confidential crisis text support',
+    phone: 'Text SHOUT to 85258',
+    website: 'https://giveusashout.org',
+    availability: '24/7'
+  })
+]
+
+export const NATION_URGENT_ROUTES: Record<UKNation, UKResource[]> = {
+  england: [
+    urgentLine({
+      id: 'nhs-111-mental-health',
+      title: 'NHS 111 — mental health option',
+      description: 'Urgent NHS mental health support in England: call 111 and choose the mental health option',
+      phone: '111',
+      website: 'https://www.nhs.uk/nhs-services/mental-health-services/where-to-get-urgent-help-for-mental-health/',
+      availability: '24/7'
+    })
+  ],
+  scotland: [
+    urgentLine({
+      id: 'nhs-24-mental-health-hub',
+      title: 'NHS 24 Mental Health Hub',
+      description: 'Urgent NHS mental health support in Scotland: call 111 and choose the mental health option',
+      phone: '111',
+      website: 'https://www.nhs24.scot',
+      availability: '24/7'
+    }),
+    urgentLine({
+      id: 'breathing-space',
+      title: 'Breathing Space',
+      description: 'Free, confidential phone line for anyone in Scotland feeling low or anxious',
+      phone: '0800 83 85 87',
+      website: 'https://breathingspace.scot',
+      emergency: false,
+      availability: 'Weekdays 6pm-2am, weekends Friday 6pm to Monday 6am'
+    })
+  ],
+  wales: [
+    urgentLine({
+      id: 'nhs-111-wales-press-2',
+      title: 'NHS 111 Wales — press 2',
+      description: 'Urgent NHS mental health support in Wales: call 111 and press 2',
+      phone: '111',
+      website: 'https://111.wales.nhs.uk',
+      languages: ['English', 'Welsh'],
+      availability: '24/7'
+    }),
+    urgentLine({
+      id: 'call-helpline-wales',
+      title: 'C.A.L.L. Mental Health Listening Line',
+      description: 'Emotional support and information for anyone in Wales',
+      phone: '0800 132 737',
+      website: 'https://www.callhelpline.org.uk',
+      languages: ['English', 'Welsh'],
+      availability: '24/7'
+    })
+  ],
+  northern_ireland: [
+    urgentLine({
+      id: 'lifeline-ni',
+      title: 'Lifeline',
+      description: 'Northern Ireland\'s crisis response helpline for people in distress or despair',
+      phone: '0808 808 8000',
+      website: 'https://www.lifelinehelpline.info',
+      availability: '24/7'
+    })
+  ]
+}
+
+export const DEFAULT_COPING_STRATEGIES = [
+  'Slow breathing: in for 4, hold for 4, out for 6, for two minutes',
+  'Name five things you can see, four you can hear and three you can touch',
+  'Step outside or change rooms for a few minutes',
+  'Put on music that has helped you before',
+  'Wrap up warm, have a drink of water or something to eat'
+]
+
+export const DEFAULT_WARNING_SIGNS = [
+  'Withdrawing from people and stopping replying to messages',
+  'Not sleeping, or sleeping much more than usual',
+  'Thoughts that things will never get better',
+  'Feeling like a burden to the people around me'
+]
+
+export const DEFAULT_SAFER_ENVIRONMENT_STEPS = [
+  'Ask someone to hold on to medication or anything you could use to hurt yourself',
+  'Avoid alcohol and drugs when you are feeling this way',
+  'Go somewhere you feel safer, or ask someone to come to you'
+]
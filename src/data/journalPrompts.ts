@@ -0,0 +1,211 @@
+/**
+ * 90-Day Liberation Journal — Prompt Programme
+ *
+ * Twelve weekly themes of seven daily prompts, then a closing six days of
+ * integration. Shared by the printed/digital journal product (JournalService)
+ * and personalised in-app journaling (JournalingService).
+ */
+
+export interface JournalPrompt {
+  day: number
+  week: number
+  theme: string
+  category: string
+  prompt: string
+}
+
+interface JournalTheme {
+  theme: string
+  category: string
+  prompts: string[]
+}
+
+export const JOURNAL_PROGRAMME_DAYS = 90
+
+const THEMES: JournalTheme[] = [
+  {
+    theme: 'Self-Discovery',
+    category: 'Identity',
+    prompts: [
+      'Describe yourself the way someone who loves you would.',
+      'Which parts of yourself do you show freely, and which do you keep close?',
+      'What did you believe about yourself as a child that you no longer believe?',
+      'When did you last feel completely like yourself? Where were you?',
+      'Which of your identities feels loudest today, and why?',
+      'What is something you are still figuring out about who you are?',
+      'Write a short letter to the version of you from five years ago.'
+    ]
+  },
+  {
+    theme: 'Community Connection',
+    category: 'Relationships',
+    prompts: [
+      'Who are the people you call chosen family?',
+      'Describe a moment when community showed up for you.',
+      'Where do you feel most at home among other Black queer people?',
+      'What do you bring to the communities you are part of?',
+      'Who would you like to know better, and what is stopping you?',
+      'What does mutual care look like in your life right now?',
+      'Write a thank-you note to someone who helped you belong.'
+    ]
+  },
+  {
+    theme: 'Ancestors & Legacy',
+    category: 'Heritage',
+    prompts: [
+      'Which ancestor, known or imagined, would you like to sit with today?',
+      'What stories from your family or culture shaped you?',
+      'Which Black queer elders or historical figures inspire you?',
+      'What did your elders survive so that you could be here?',
+      'Which traditions do you want to carry forward, and which to let go?',
+      'What would you like people to remember about you?',
+      'Write to someone who will come after you.'
+    ]
+  },
+  {
+    theme: 'Joy & Celebration',
+    category: 'Wellness',
+    prompts: [
+      'What made you smile today, however small?',
+      'Describe the last time you laughed until it hurt.',
+      'What does Black queer joy look like for you?',
+      'What music, food or place reliably lifts you?',
+      'What are you proud of that you have not celebrated yet?',
+      'Plan a small celebration for yourself this week. What is it?',
+      'List ten things you are grateful for right now.'
+    ]
+  },
+  {
+    theme: 'Boundaries & Protection',
+    category: 'Self-Care',
+    prompts: [
+      'Where in your life do you need a firmer boundary?',
+      'What drains you, and what restores you?',
+      'Describe a time you said no and it felt right.',
+      'How do you protect your peace in spaces that are not built for you?',
+      'What do you need to hear when you feel guilty for resting?',
+      'Who respects your boundaries without being asked?',
+      'Write the boundary you want to set as a kind, clear sentence.'
+    ]
+  },
+  {
+    theme: 'Activism & Action',
+    category: 'Liberation',
+    prompts: [
+      'What injustice do you feel most strongly about?',
+      'What does liberation mean to you in everyday terms?',
+      'What is one action, small or large, you could take this month?',
+      'Whose work for change do you admire, and why?',
+      'How do you look after yourself while fighting for change?',
+      'What skills do you have that a movement could use?',
+      'Describe the world you are working toward.'
+    ]
+  },
+  {
+    theme: 'Rest & Restoration',
+    category: 'Wellness',
+    prompts: [
+      'How rested do you feel today, honestly?',
+      'What does real rest look like for you?',
+      'What keeps you from resting, and whose voice is that?',
+      'Describe your ideal slow day from morning to night.',
+      'What does your body need from you this week?',
+      'What would change if you treated rest as resistance?',
+      'Write a permission slip to rest.'
+    ]
+  },
+  {
+    theme: 'Relationships & Love',
+    category: 'Connection',
+    prompts: [
+      'How do you like to be loved?',
+      'What did you learn about love growing up, and what have you unlearned?',
+      'Describe a relationship that helped you grow.',
+      'Where do you give more than you receive?',
+      'What does a healthy relationship feel like in your body?',
+      'How do you show love to yourself?',
+      'Write to someone you love about what they mean to you.'
+    ]
+  },
+  {
+    theme: 'Creativity & Expression',
+    category: 'Identity',
+    prompts: [
+      'How do you express yourself when words are not enough?',
+      'What creative thing did you love as a child?',
+      'Describe your style and what it says about you.',
+      'What would you make if no one would ever judge it?',
+      'Which Black queer artists move you, and why?',
+      'Spend ten minutes making something, then write about how it felt.',
+      'What story do you want to tell the world?'
+    ]
+  },
+  {
+    theme: 'Healing & Growth',
+    category: 'Transformation',
+    prompts: [
+      'What are you healing from right now?',
+      'What has been hard to forgive, in others or in yourself?',
+      'Describe a way you have grown in the last year.',
+      'What support has helped you heal, and what do you still need?',
+      'Which old pattern are you ready to change?',
+      'What would you say to someone going through what you went through?',
+      'Write about a scar, seen or unseen, and what it taught you.'
+    ]
+  },
+  {
+    theme: 'Future Vision',
+    category: 'Purpose',
+    prompts: [
+      'Where do you want to be a year from now?',
+      'What does a good life look like for you, in detail?',
+      'What is one dream you have been afraid to say out loud?',
+      'What would you do if you knew you would be supported?',
+      'Who do you want beside you in your future?',
+      'What is the first small step toward the future you want?',
+      'Write a diary entry from a day in your future.'
+    ]
+  },
+  {
+    theme: 'Liberation Practice',
+    category: 'Freedom',
+    prompts: [
+      'Where do you feel most free?',
+      'What have you freed yourself from over these weeks?',
+      'What daily practice keeps you connected to your values?',
+      'How does your freedom connect to other people\'s freedom?',
+      'What does it mean to live as if liberation is already possible?',
+      'Who will you bring with you as you grow?',
+      'Write your own definition of freedom.'
+    ]
+  },
+  {
+    theme: 'Integration',
+    category: 'Reflection',
+    prompts: [
+      'Look back at your first week. What has changed?',
+      'Which theme from this journal stayed with you most?',
+      'What did you learn about yourself that surprised you?',
+      'Which practices will you keep after these ninety days?',
+      'What do you want to thank yourself for?',
+      'Write an intention for the next season of your life.'
+    ]
+  }
+]
+
+/**
+ * The full programme, one prompt per day, days 1–90.
+ */
+export const JOURNAL_PROMPTS: JournalPrompt[] = THEMES.flatMap((theme, weekIndex) =>
+  theme.prompts.map((prompt, dayIndex) => ({
+    day: weekIndex * 7 + dayIndex + 1,
+    week: weekIndex + 1,
+    theme: theme.theme,
+    category: theme.category,
+    prompt
+  }))
+)
+
+export function getJournalPromptForDay(day: number): JournalPrompt | undefined {
+  return JOURNAL_PROMPTS[day - 1]
+}
@@ -0,0 +1,271 @@
+/**
+ * Problem-Solving Frameworks — Definitions
+ *
+ * Each framework is an ordered list of steps. A step carries the guiding
+ * questions IVOR asks and the completion criteria a response must meet
+ * before the session moves on (minimum words and/or listed items, where a
+ * list item is a line, bullet or semicolon-separated point).
+ */
+
+export interface StepCompletionCriteria {
+  description: string
+  minWords?: number
+  minListItems?: number
+}
+
+export interface FrameworkStep {
+  id: string
+  title: string
+  description: string
+  guidingQuestions: string[]
+  completionCriteria: StepCompletionCriteria
+}
+
+export interface ProblemSolvingFramework {
+  id: string
+  name: string
+  difficulty: 'beginner' | 'intermediate' | 'advanced'
+  estimatedTime: string
+  description: string
+  bestFor: string[]
+  steps: FrameworkStep[]
+}
+
+export const PROBLEM_SOLVING_FRAMEWORKS: ProblemSolvingFramework[] = [
+  {
+    id: 'design-thinking',
+    name: 'Design Thinking Process',
+    difficulty: 'intermediate',
+    estimatedTime: '2-4 hours',
+    description: 'Human-centered approach to creative problem-solving',
+    bestFor: ['community projects', 'services', 'events'],
+    steps: [
+      {
+        id: 'empathize',
+        title: 'Empathise',
+        description: 'Understand the people affected, in their own words',
+        guidingQuestions: ['Who is affected by this problem?', 'What have they told you, directly or indirectly?', 'What do they need that they are not getting?'],
+        completionCriteria: { description: 'Describe at least two people or groups affected and what they experience', minWords: 40, minListItems: 2 }
+      },
+      {
+        id: 'define',
+        title: 'Define',
+        description: 'Frame the problem as a clear need',
+        guidingQuestions: ['How would you state the problem in one sentence?', 'Whose need is it, and why does it matter?'],
+        completionCriteria: { description: 'A one or two sentence problem statement naming who needs what and why', minWords: 15 }
+      },
+      {
+        id: 'ideate',
+        title: 'Ideate',
+        description: 'Generate many possible solutions without judging them',
+        guidingQuestions: ['What are all the ways this could be solved?', 'What would you try with no budget limits? With no budget at all?'],
+        completionCriteria: { description: 'List at least five ideas', minListItems: 5 }
+      },
+      {
+        id: 'prototype',
+        title: 'Prototype',
+        description: 'Pick an idea and make a small, cheap version of it',
+        guidingQuestions: ['Which idea will you test first, and why?', 'What is the smallest version you could try this week?'],
+        completionCriteria: { description: 'Describe the chosen idea and the small version you will build', minWords: 30 }
+      },
+      {
+        id: 'test',
+        title: 'Test',
+        description: 'Try it with real people and learn',
+        guidingQuestions: ['Who will you test it with?', 'How will you know if it worked?', 'What will you do with what you learn?'],
+        completionCriteria: { description: 'Name who you will test with and what success looks like', minWords: 25 }
+      }
+    ]
+  },
+  {
+    id: 'root-cause-analysis',
+    name: 'Root Cause Analysis',
+    difficulty: 'beginner',
+    estimatedTime: '1-2 hours',
+    description: 'Systematic method to identify underlying causes',
+    bestFor: ['recurring problems', 'personal patterns', 'organisational issues'],
+    steps: [
+      {
+        id: 'describe-problem',
+        title: 'Describe the problem',
+        description: 'Say what is happening, when and how often',
+        guidingQuestions: ['What exactly is happening?', 'When did it start and how often does it happen?'],
+        completionCriteria: { description: 'A concrete description of the problem and when it happens', minWords: 25 }
+      },
+      {
+        id: 'gather-evidence',
+        title: 'Gather evidence',
+        description: 'Collect facts rather than assumptions',
+        guidingQuestions: ['What do you know for certain?', 'What are you assuming?'],
+        completionCriteria: { description: 'List at least three facts or observations', minListItems: 3 }
+      },
+      {
+        id: 'five-whys',
+        title: 'Ask "why?" five times',
+        description: 'Trace each cause back to the one beneath it',
+        guidingQuestions: ['Why does this happen?', 'And why does that happen?', 'Is the last answer something you or others can act on?'],
+        completionCriteria: { description: 'At least three layers of "why", one per line', minListItems: 3 }
+      },
+      {
+        id: 'identify-root-cause',
+        title: 'Identify the root cause',
+        description: 'Name the cause that, if addressed, would stop the problem',
+        guidingQuestions: ['Which cause, if removed, would stop the problem recurring?', 'Is it personal, relational or systemic?'],
+        completionCriteria: { description: 'Name the root cause and whether it is personal, relational or systemic', minWords: 15 }
+      },
+      {
+        id: 'action-plan',
+        title: 'Plan action',
+        description: 'Decide what to change and who can help',
+        guidingQuestions: ['What will you change first?', 'Who can support you?', 'When will you check whether it worked?'],
+        completionCriteria: { description: 'At least two concrete actions', minListItems: 2 }
+      }
+    ]
+  },
+  {
+    id: 'cost-benefit-analysis',
+    name: 'Cost-Benefit Analysis',
+    difficulty: 'intermediate',
+    estimatedTime: '2-3 hours',
+    description: 'Systematic evaluation of decision alternatives',
+    bestFor: ['big decisions', 'money choices', 'comparing options'],
+    steps: [
+      {
+        id: 'define-decision',
+        title: 'Define the decision',
+        description: 'Be clear about what you are choosing between',
+        guidingQuestions: ['What decision are you making?', 'By when do you need to decide?'],
+        completionCriteria: { description: 'State the decision and its deadline', minWords: 15 }
+      },
+      {
+        id: 'list-options',
+        title: 'List the options',
+        description: 'Include doing nothing as an option',
+        guidingQuestions: ['What are the realistic options?', 'What happens if you do nothing?'],
+        completionCriteria: { description: 'At least two options', minListItems: 2 }
+      },
+      {
+        id: 'costs',
+        title: 'Count the costs',
+        description: 'Money, time, energy, relationships and safety',
+        guidingQuestions: ['What does each option cost — not just in money?', 'Which costs fall on you, and which on others?'],
+        completionCriteria: { description: 'At least three costs across your options', minListItems: 3 }
+      },
+      {
+        id: 'benefits',
+        title: 'Count the benefits',
+        description: 'Short- and long-term, personal and collective',
+        guidingQuestions: ['What does each option make possible?', 'Who else benefits?'],
+        completionCriteria: { description: 'At least three benefits across your options', minListItems: 3 }
+      },
+      {
+        id: 'weigh',
+        title: 'Weigh them up',
+        description: 'Compare what matters most to you',
+        guidingQuestions: ['Which costs and benefits matter most to you?', 'Which option fits your values?'],
+        completionCriteria: { description: 'Compare the options against what matters most', minWords: 30 }
+      },
+      {
+        id: 'decide',
+        title: 'Decide and commit',
+        description: 'Choose, and name your first step',
+        guidingQuestions: ['What have you decided?', 'What is your first step, and when?'],
+        completionCriteria: { description: 'State your decision and first step', minWords: 15 }
+      }
+    ]
+  },
+  {
+    id: 'blkout-decision-framework',
+    name: 'BLKOUT Decision Framework',
+    difficulty: 'beginner',
+    estimatedTime: '45-90 minutes',
+    description: 'Community-centred decision making that weighs personal wellbeing alongside collective liberation',
+    bestFor: ['personal decisions', 'community choices', 'values conflicts'],
+    steps: [
+      {
+        id: 'situation',
+        title: 'Name the situation',
+        description: 'What is happening and what is being asked of you',
+        guidingQuestions: ['What decision is in front of you?', 'What makes it hard?'],
+        completionCriteria: { description: 'Describe the situation and what makes it difficult', minWords: 25 }
+      },
+      {
+        id: 'self',
+        title: 'Centre yourself',
+        description: 'Your safety, wellbeing and authenticity',
+        guidingQuestions: ['How does each path affect your safety and wellbeing?', 'Which path lets you be most fully yourself?'],
+        completionCriteria: { description: 'Reflect on how the decision affects your wellbeing and authenticity', minWords: 25 }
+      },
+      {
+        id: 'community',
+        title: 'Consider community',
+        description: 'Chosen family, community and those who come after',
+        guidingQuestions: ['Who else does this decision touch?', 'Who could you talk this through with?'],
+        completionCriteria: { description: 'Name at least two people or groups affected', minListItems: 2 }
+      },
+      {
+        id: 'power',
+        title: 'Look at power',
+        description: 'The systems shaping your options',
+        guidingQuestions: ['What systems or structures are limiting your options?', 'Where do you have power, alone or together?'],
+        completionCriteria: { description: 'Identify the systems at play and where you have power', minWords: 25 }
+      },
+      {
+        id: 'choose',
+        title: 'Choose with care',
+        description: 'Decide, and plan support for yourself',
+        guidingQuestions: ['What will you do?', 'What support will you need afterwards?'],
+        completionCriteria: { description: 'State your choice and the support you need', minWords: 20 }
+      }
+    ]
+  },
+  {
+    id: 'smart-goals',
+    name: 'SMART Goal Setting',
+    difficulty: 'beginner',
+    estimatedTime: '30-60 minutes',
+    description: 'Turn an intention into a specific, measurable, achievable, relevant and time-bound goal',
+    bestFor: ['habits', 'career steps', 'personal growth'],
+    steps: [
+      {
+        id: 'specific',
+        title: 'Specific',
+        description: 'What exactly do you want to achieve?',
+        guidingQuestions: ['What do you want to achieve?', 'Why does it matter to you?'],
+        completionCriteria: { description: 'A specific goal and why it matters', minWords: 20 }
+      },
+      {
+        id: 'measurable',
+        title: 'Measurable',
+        description: 'How will you know you have got there?',
+        guidingQuestions: ['What will you count or notice?', 'What does "done" look like?'],
+        completionCriteria: { description: 'How progress will be measured', minWords: 12 }
+      },
+      {
+        id: 'achievable',
+        title: 'Achievable',
+        description: 'Is it realistic with the resources you have?',
+        guidingQuestions: ['What resources and support do you have?', 'What might get in the way?'],
+        completionCriteria: { description: 'Resources, support and likely obstacles', minWords: 20 }
+      },
+      {
+        id: 'relevant',
+        title: 'Relevant',
+        description: 'Does it fit your values and bigger picture?',
+        guidingQuestions: ['How does this connect to what you care about?'],
+        completionCriteria: { description: 'How the goal connects to your values', minWords: 15 }
+      },
+      {
+        id: 'time-bound',
+        title: 'Time-bound',
+        description: 'When will you check in and finish?',
+        guidingQuestions: ['What is your deadline?', 'What are the milestones along the way?'],
+        completionCriteria: { description: 'A deadline and at least two milestones', minListItems: 2 }
+      }
+    ]
+  }
+]
+
+export function getFramework(frameworkId: string): ProblemSolvingFramework | undefined {
+  return PROBLEM_SOLVING_FRAMEWORKS.find(framework => framework.id === frameworkId)
+}
@@ -0,0 +1,288 @@
+/**
+ * Wellness Assessment — Section Definitions
+ *
+ * Fifteen sections, answered on a 1–5 scale (1 = strongly disagree,
+ * 5 = strongly agree). Reverse-scored items are worded so that agreeing
+ * signals difficulty; the scoring engine flips them before averaging.
+ *
+ * Section weights set each section's share of the overall score.
+ * resourceCategories match UKKnowledgeBase resource categories (substring,
+ * case-insensitive); learningCategories match learning_modules.category.
+ */
+
+export interface WellnessQuestion {
+  id: string
+  text: string
+  reverse?: boolean
+  weight?: number
+}
+
+export interface WellnessSection {
+  id: string
+  title: string
+  description: string
+  weight: number
+  questions: WellnessQuestion[]
+  strengthInsight: string
+  growthInsight: string
+  practices: string[]
+  resourceCategories: string[]
+  learningCategories: string[]
+}
+
+export const WELLNESS_SCALE = { min: 1, max: 5 }
+
+// Section score bands (0–100)
+export const STRENGTH_THRESHOLD = 75
+export const GROWTH_THRESHOLD = 50
+
+export const WELLNESS_SECTIONS: WellnessSection[] = [
+  {
+    id: 'mental-emotional-health',
+    title: 'Mental & emotional health',
+    description: 'Mood, stress and how you cope day to day',
+    weight: 1.5,
+    questions: [
+      { id: 'meh-1', text: 'I can usually name what I am feeling', weight: 1 },
+      { id: 'meh-2', text: 'I have ways to calm myself when stress builds up', weight: 1.5 },
+      { id: 'meh-3', text: 'I feel overwhelmed most days', reverse: true, weight: 1.5 },
+      { id: 'meh-4', text: 'Low mood has been getting in the way of things I care about', reverse: true, weight: 1.5 }
+    ],
+    strengthInsight: 'You have solid emotional awareness and coping tools to lean on.',
+    growthInsight: 'Stress and mood are taking up a lot of room right now; coping support could make a real difference.',
+    practices: ['Try a five-minute grounding practice (5-4-3-2-1) when stress builds', 'Keep a short evening mood check-in for a week'],
+    resourceCategories: ['Mental Health'],
+    learningCategories: ['wellbeing', 'mental-health']
+  },
+  {
+    id: 'identity-authenticity',
+    title: 'Identity & authenticity',
+    description: 'Feeling able to be your whole self as a Black queer person',
+    weight: 1.25,
+    questions: [
+      { id: 'ia-1', text: 'I feel proud of who I am' },
+      { id: 'ia-2', text: 'There are places where I can be fully myself' },
+      { id: 'ia-3', text: 'I hide parts of my identity to stay safe or accepted', reverse: true },
+      { id: 'ia-4', text: 'I feel connected to Black queer history and culture' }
+    ],
+    strengthInsight: 'Your sense of self is a real foundation — pride and authenticity show up clearly.',
+    growthInsight: 'Having to hide parts of yourself is heavy; spaces where you can be whole may help.',
+    practices: ['Explore identity affirmation journaling prompts', 'Spend time in one space where you do not have to code-switch'],
+    resourceCategories: ['QTIPOC', 'LGBTQ+ Support', 'Trans Support'],
+    learningCategories: ['identity', 'history']
+  },
+  {
+    id: 'relationships-social',
+    title: 'Relationships & social connection',
+    description: 'Friends, chosen family and intimate relationships',
+    weight: 1.25,
+    questions: [
+      { id: 'rs-1', text: 'I have people I can call when things are hard' },
+      { id: 'rs-2', text: 'My close relationships feel mutual and respectful' },
+      { id: 'rs-3', text: 'I often feel lonely', reverse: true },
+      { id: 'rs-4', text: 'I feel safe with the people closest to me' }
+    ],
+    strengthInsight: 'You have people around you — chosen family is clearly part of your strength.',
+    growthInsight: 'Connection feels thin at the moment; even one more trusted relationship can shift a lot.',
+    practices: ['Reach out to one person this week just to check in', 'Try a community social or peer group'],
+    resourceCategories: ['Community Support', 'Domestic Abuse'],
+    learningCategories: ['relationships', 'community']
+  },
+  {
+    id: 'career-purpose',
+    title: 'Work & purpose',
+    description: 'Work, study or daily activity that feels meaningful',
+    weight: 1,
+    questions: [
+      { id: 'cp-1', text: 'My work or daily activity feels meaningful to me' },
+      { id: 'cp-2', text: 'I can see a next step I want to take' },
+      { id: 'cp-3', text: 'I face discrimination or exclusion at work or study', reverse: true }
+    ],
+    strengthInsight: 'You have a sense of purpose and direction in what you do.',
+    growthInsight: 'Work or study is not feeling like it serves you right now; clarifying a next step could help.',
+    practices: ['Write down one skill you want to grow and one person who could help'],
+    resourceCategories: ['Legal Rights', 'Support Services'],
+    learningCategories: ['career', 'skills']
+  },
+  {
+    id: 'physical-health',
+    title: 'Physical health',
+    description: 'Sleep, movement, food and access to healthcare',
+    weight: 1,
+    questions: [
+      { id: 'ph-1', text: 'I usually get enough sleep to feel rested' },
+      { id: 'ph-2', text: 'I move my body in ways I enjoy' },
+      { id: 'ph-3', text: 'I put off seeing a doctor when I need to', reverse: true },
+      { id: 'ph-4', text: 'I eat regular meals that sustain me' }
+    ],
+    strengthInsight: 'Your body is getting looked after — rest, movement and care are in place.',
+    growthInsight: 'Sleep, food or healthcare access need some attention; small routines add up.',
+    practices: ['Set a consistent wind-down time for a week', 'Book the health check you have been putting off'],
+    resourceCategories: ['Health & Wellbeing', 'Health Services'],
+    learningCategories: ['health', 'wellbeing']
+  },
+  {
+    id: 'sexual-health',
+    title: 'Sexual health',
+    description: 'Testing, PrEP/PEP, HIV care and sexual wellbeing',
+    weight: 1,
+    questions: [
+      { id: 'sh-1', text: 'I know where to get tested and I do so regularly' },
+      { id: 'sh-2', text: 'I know how to access PrEP or PEP if I need it' },
+      { id: 'sh-3', text: 'I feel anxious or ashamed about my sexual health', reverse: true }
+    ],
+    strengthInsight: 'You are informed and in control of your sexual health.',
+    growthInsight: 'Sexual health feels uncertain; shame-free testing and PrEP information are a good starting point.',
+    practices: ['Look up your nearest sexual health clinic or order a home test kit'],
+    resourceCategories: ['Sexual Health', 'HIV'],
+    learningCategories: ['sexual-health', 'health']
+  },
+  {
+    id: 'financial-security',
+    title: 'Financial security',
+    description: 'Money, debt and being able to cover the basics',
+    weight: 1,
+    questions: [
+      { id: 'fs-1', text: 'I can cover my essential bills each month' },
+      { id: 'fs-2', text: 'I have some savings for emergencies' },
+      { id: 'fs-3', text: 'Money worries keep me up at night', reverse: true }
+    ],
+    strengthInsight: 'Your finances are giving you a stable base.',
+    growthInsight: 'Money stress is real and systemic; free debt and benefits advice could ease the pressure.',
+    practices: ['List your essential outgoings and check benefits eligibility'],
+    resourceCategories: ['Support Services'],
+    learningCategories: ['financial-literacy', 'economics']
+  },
+  {
+    id: 'housing-stability',
+    title: 'Housing & stability',
+    description: 'A safe, secure and affirming place to live',
+    weight: 1.25,
+    questions: [
+      { id: 'hs-1', text: 'I feel safe where I live' },
+      { id: 'hs-2', text: 'I can be open about who I am at home' },
+      { id: 'hs-3', text: 'I worry about losing my home', reverse: true }
+    ],
+    strengthInsight: 'Home is a secure and affirming base for you.',
+    growthInsight: 'Housing feels insecure; LGBTQ+-aware housing support exists and can help.',
+    practices: ['Note down your tenancy situation and key dates so you can get advice quickly'],
+    resourceCategories: ['Housing'],
+    learningCategories: ['housing', 'rights']
+  },
+  {
+    id: 'community-belonging',
+    title: 'Community & belonging',
+    description: 'Feeling part of Black queer community',
+    weight: 1.25,
+    questions: [
+      { id: 'cb-1', text: 'I feel part of a community that understands me' },
+      { id: 'cb-2', text: 'I know where to find Black queer spaces and events' },
+      { id: 'cb-3', text: 'I feel isolated from people like me', reverse: true }
+    ],
+    strengthInsight: 'Community connection is one of your strengths.',
+    growthInsight: 'Belonging feels out of reach right now; community events and groups are a gentle way in.',
+    practices: ['Go to one community event this month', 'Join a community group that matches an interest'],
+    resourceCategories: ['Community Events', 'Community Support', 'Community Centre'],
+    learningCategories: ['community', 'organising']
+  },
+  {
+    id: 'spiritual-meaning',
+    title: 'Spirituality & meaning',
+    description: 'Faith, values and a sense of meaning',
+    weight: 0.75,
+    questions: [
+      { id: 'sm-1', text: 'I have a clear sense of what matters to me' },
+      { id: 'sm-2', text: 'I have practices that help me feel grounded' },
+      { id: 'sm-3', text: 'Faith or family beliefs cause me conflict about who I am', reverse: true }
+    ],
+    strengthInsight: 'You are grounded in your values and what gives life meaning.',
+    growthInsight: 'Meaning and grounding feel shaky; reflecting on your values can be a steadying place to start.',
+    practices: ['Write about three values you want to live by this month'],
+    resourceCategories: ['Community Support'],
+    learningCategories: ['wellbeing', 'identity']
+  },
+  {
+    id: 'creativity-expression',
+    title: 'Creativity & expression',
+    description: 'Making, performing and expressing yourself',
+    weight: 0.75,
+    questions: [
+      { id: 'ce-1', text: 'I make time for creative things I enjoy' },
+      { id: 'ce-2', text: 'I can express how I feel through art, music, writing or style' },
+      { id: 'ce-3', text: 'I rarely do anything just for the joy of it', reverse: true }
+    ],
+    strengthInsight: 'Creativity and self-expression are alive in your life.',
+    growthInsight: 'Joy and creativity have been squeezed out; even small creative moments count.',
+    practices: ['Give yourself thirty minutes this week for something creative with no goal'],
+    resourceCategories: ['Community Events'],
+    learningCategories: ['creative', 'culture']
+  },
+  {
+    id: 'rest-recreation',
+    title: 'Rest & recreation',
+    description: 'Downtime, pleasure and recovery',
+    weight: 0.75,
+    questions: [
+      { id: 'rr-1', text: 'I get real downtime most weeks' },
+      { id: 'rr-2', text: 'I can switch off without feeling guilty' },
+      { id: 'rr-3', text: 'I feel burnt out', reverse: true }
+    ],
+    strengthInsight: 'You protect your rest — that is resistance as well as recovery.',
+    growthInsight: 'Burnout signs are showing; rest is a need, not a reward.',
+    practices: ['Block out one evening this week with nothing scheduled'],
+    resourceCategories: ['Health & Wellbeing'],
+    learningCategories: ['wellbeing']
+  },
+  {
+    id: 'safety-discrimination',
+    title: 'Safety & discrimination',
+    description: 'Racism, homophobia, transphobia and feeling safe in public',
+    weight: 1.25,
+    questions: [
+      { id: 'sd-1', text: 'I feel safe moving around my area' },
+      { id: 'sd-2', text: 'I know what to do if I experience a hate incident' },
+      { id: 'sd-3', text: 'Racism or queerphobia affects my daily life', reverse: true, weight: 1.5 }
+    ],
+    strengthInsight: 'You feel relatively safe and know your options if something happens.',
+    growthInsight: 'Discrimination is weighing on you; you do not have to handle it alone — reporting and support routes exist.',
+    practices: ['Save the number of an LGBTQ+ anti-violence service in your phone'],
+    resourceCategories: ['Legal Rights', 'Crisis Support', 'Asylum & Immigration'],
+    learningCategories: ['rights', 'safety']
+  },
+  {
+    id: 'learning-growth',
+    title: 'Learning & growth',
+    description: 'Curiosity, skills and personal development',
+    weight: 0.75,
+    questions: [
+      { id: 'lg-1', text: 'I am learning something new that interests me' },
+      { id: 'lg-2', text: 'I feel I am growing as a person' },
+      { id: 'lg-3', text: 'I feel stuck where I am', reverse: true }
+    ],
+    strengthInsight: 'You are curious and growing — keep feeding that.',
+    growthInsight: 'Feeling stuck is common; a short learning module is a low-pressure way to get moving.',
+    practices: ['Pick one short learning module to start this week'],
+    resourceCategories: ['Community Support'],
+    learningCategories: ['skills', 'history', 'community']
+  },
+  {
+    id: 'liberation-advocacy',
+    title: 'Liberation & advocacy',
+    description: 'Taking part in collective action and change',
+    weight: 0.75,
+    questions: [
+      { id: 'la-1', text: 'I feel I can contribute to change in my community' },
+      { id: 'la-2', text: 'I know how to get involved in organising or advocacy' },
+      { id: 'la-3', text: 'Activism leaves me drained rather than energised', reverse: true }
+    ],
+    strengthInsight: 'You are connected to collective action and feel your contribution matters.',
+    growthInsight: 'Collective action feels distant or draining; sustainable ways to get involved exist.',
+    practices: ['Find one campaign or group where your skills could help, at a pace that suits you'],
+    resourceCategories: ['Community Support', 'Legal Rights'],
+    learningCategories: ['organising', 'community']
+  }
+]
+
+export function getWellnessSection(sectionId: string): WellnessSection | undefined {
+  return WELLNESS_SECTIONS.find(section => section.id === sectionId)
+}
@@ -0,0 +1,145 @@
+/**
+ * Auth Middleware - Test Suite
+ * Token verification, role resolution and the route permission map,
+ * exercised against real routers with locally signed tokens.
+ */
+
+import { describe, beforeAll, afterAll, test, expect } from '@jest/globals';
+import { verifyAccessToken, rolesFromClaims, signAccessToken, AuthError } from '../auth.js';
+import { authHeader, signTestToken, startAuthTestServer, TestServer, TEST_JWT_SECRET } from '../authTestHarness.js';
+import eventModerationRoutes from '../../api/eventModerationRoutes.js';
+import organizerRoutes from '../../api/organizerRoutes.js';
+
+describe('verifyAccessToken', () => {
+  test('returns the claims of a valid token', () => {
+    const claims = verifyAccessToken(signTestToken('user-1', { roles: ['organizer'] }), TEST_JWT_SECRET);
+
+    expect(claims.sub).toBe('user-1');
+    expect(claims.app_metadata?.roles).toEqual(['organizer']);
+  });
+
+  test('rejects a token signed with another secret', () => {
+    const token = signTestToken('user-1', { secret: 'not-the-secret' });
+
+    expect(() => verifyAccessToken(token, TEST_JWT_SECRET)).toThrow(AuthError);
+  });
+
+  test('rejects an expired token', () => {
+    const token = signTestToken('user-1', { expiresInSeconds: -10 });
+
+    expect(() => verifyAccessToken(token, TEST_JWT_SECRET)).toThrow('Token expired');
+  });
+
+  test('rejects a token with a tampered payload', () => {
+    const [header, , signature] = signTestToken('user-1').split('.');
+    const payload = Buffer.from(JSON.stringify({ sub: 'user-1', app_metadata: { role: 'admin' } })).toString('base64url');
+
+    expect(() => verifyAccessToken(`${header}.${payload}.${signature}`, TEST_JWT_SECRET)).toThrow('Invalid token signature');
+  });
+});
+
+describe('rolesFromClaims', () => {
+  test('every signed-in user is a member, unknown roles are dropped', () => {
+    expect(rolesFromClaims({ sub: 'u', app_metadata: { role: 'vendor', roles: ['superuser', 'moderator'] } }))
+      .toEqual(['member', 'vendor', 'moderator']);
+  });
+
+  test('the service-role key acts as admin', () => {
+    expect(rolesFromClaims({ role: 'service_role' })).toContain('admin');
+  });
+});
+
+describe('route permission map', () => {
+  let server: TestServer;
+
+  beforeAll(async () => {
+    server = await startAuthTestServer([
+      ['/api/event-moderation', eventModerationRoutes],
+      ['/api/organizer', organizerRoutes]
+    ]);
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  const moderationAction = (headers: Record<string, string> = {}) =>
+    fetch(`${server.url}/api/event-moderation/action`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify({ eventId: 'event-1', action: 'flag' })
+    });
+
+  test('rejects anonymous callers with 401', async () => {
+    expect((await moderationAction()).status).toBe(401);
+  });
+
+  test('applies to a path in any letter case, as the router does', async () => {
+    const response = await fetch(`${server.url}/API/Event-Moderation/Action`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ eventId: 'event-1', action: 'flag' })
+    });
+
+    expect(response.status).toBe(401);
+  });
+
+  test('rejects an invalid token with 401', async () => {
+    const token = signAccessToken({ sub: 'user-1' }, 'wrong-secret');
+
+    expect((await moderationAction({ Authorization: `Bearer ${token}` })).status).toBe(401);
+  });
+
+  test('rejects members without the required role with 403', async () => {
+    expect((await moderationAction(authHeader('member-1'))).status).toBe(403);
+  });
+
+  test('lets moderators act and attributes the action to them', async () => {
+    const response = await moderationAction(authHeader('mod-1', { roles: ['moderator'] }));
+    const body: any = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.action.moderator_id).toBe('mod-1');
+  });
+
+  test('admin satisfies any role requirement', async () => {
+    expect((await moderationAction(authHeader('admin-1', { roles: ['admin'] }))).status).toBe(200);
+  });
+
+  test('users may request verification for themselves only', async () => {
+    const apply = (userId: string) => fetch(`${server.url}/api/organizer/verify/${userId}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...authHeader('user-7') },
+      body: JSON.stringify({ evidence: [{ type: 'website', url: 'https://example.org' }] })
+    });
+    const own = await apply('user-7');
+    const other = await apply('user-8');
+
+    expect(own.status).toBe(200);
+    expect(other.status).toBe(403);
+  });
+
+  test('an organizer dashboard is only readable by its organizer', async () => {
+    const dashboard = (userId: string, headers: Record<string, string> = {}) =>
+      fetch(`${server.url}/api/organizer/dashboard/${userId}`, { headers });
+
+    expect((await dashboard('user-7')).status).toBe(401);
+    expect((await dashboard('user-8', authHeader('user-7'))).status).toBe(403);
+  });
+
+  test('rejects a malformed escape in an owner id with 400', async () => {
+    const response = await fetch(`${server.url}/api/organizer/verify/%E0`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...authHeader('user-7') },
+      body: JSON.stringify({ evidence: [{ type: 'website', url: 'https://example.org' }] })
+    });
+
+    expect(response.status).toBe(400);
+  });
+
+  test('unlisted routes stay public', async () => {
+    const response = await fetch(`${server.url}/api/event-moderation/guidelines`);
+
+    expect(response.status).toBe(200);
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * LLM Gateway - Test Suite
+ * Provider failover, rule-based fallback, streaming and usage accounting,
+ * using fake OpenAI-compatible clients.
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { LLMGateway, LLMProviderConfig, LLMProviderId, LLMStreamInterruptedError, LLMUnavailableError } from '../llmGateway.js';
+
+type Behaviour = {
+  fail?: { status?: number; message: string };
+  content?: string;
+  // Streamed replies: the tokens to send, and optionally a failure after them
+  tokens?: string[];
+  failAfterTokens?: { status?: number; message: string };
+};
+
+function fakeProvider(id: LLMProviderId, behaviours: Behaviour[]): LLMProviderConfig & { calls: any[] } {
+  const calls: any[] = [];
+  const client = {
+    chat: {
+      completions: {
+        create: async (params: any) => {
+          calls.push(params);
+          const behaviour = behaviours[Math.min(calls.length - 1, behaviours.length - 1)];
+          if (behaviour.fail) {
+            throw Object.assign(new Error(behaviour.fail.message), { status: behaviour.fail.status });
+          }
+          if (params.stream) {
+            return (async function* () {
+              for (const token of behaviour.tokens || []) {
+                yield { choices: [{ delta: { content: token } }] };
+              }
+              if (behaviour.failAfterTokens) {
+                throw Object.assign(new Error(behaviour.failAfterTokens.message), { status: behaviour.failAfterTokens.status });
+              }
+            })();
+          }
+          return {
+            choices: [{ message: { content: behaviour.content } }],
+            usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 }
+          };
+        }
+      }
+    }
+  };
+  return { id, client: client as any, defaultModel: `${id}-model`, calls };
+}
+
+const messages = [{ role: 'user' as const, content: 'hello' }];
+
+describe('LLMGateway', () => {
+  test('uses the first provider with per-use-case settings', async () => {
+    const qwen = fakeProvider('qwen', [{ content: 'from qwen' }]);
+    const gateway = new LLMGateway([qwen]);
+
+    const result = await gateway.complete({ useCase: 'moderation', messages });
+
+    expect(result.content).toBe('from qwen');
+    expect(result.provider).toBe('qwen');
+    expect(qwen.calls[0].temperature).toBe(0.3);
+    expect(qwen.calls[0].max_tokens).toBe(600);
+    expect(qwen.calls[0].response_format).toEqual({ type: 'json_object' });
+  });
+
+  test('fails over to the next provider on a non-retryable error', async () => {
+    const qwen = fakeProvider('qwen', [{ fail: { status: 400, message: 'bad request' } }]);
+    const groq = fakeProvider('groq', [{ content: 'from groq' }]);
+    const gateway = new LLMGateway([qwen, groq]);
+
+    const result = await gateway.complete({ useCase: 'chat', messages });
+
+    expect(result.provider).toBe('groq');
+    expect(result.model).toBe('groq-model');
+    expect(qwen.calls).toHaveLength(1);
+  });
+
+  test('retries a retryable error before moving on', async () => {
+    const qwen = fakeProvider('qwen', [{ fail: { status: 503, message: 'unavailable' } }, { content: 'second try' }]);
+    const gateway = new LLMGateway([qwen]);
+
+    const result = await gateway.complete({ useCase: 'interview', messages });
+
+    expect(result.content).toBe('second try');
+    expect(result.attempts).toBe(2);
+  });
+
+  test('falls back to the rule-based response when the chain is exhausted', async () => {
+    const groq = fakeProvider('groq', [{ fail: { status: 401, message: 'unauthorised' } }]);
+    const gateway = new LLMGateway([groq]);
+
+    const result = await gateway.complete({ useCase: 'chat', messages, fallback: () => 'rule-based reply' });
+
+    expect(result.provider).toBe('rule-based');
+    expect(result.content).toBe('rule-based reply');
+  });
+
+  test('throws LLMUnavailableError without a fallback', async () => {
+    const gateway = new LLMGateway([]);
+
+    await expect(gateway.complete({ useCase: 'theme-extraction', messages })).rejects.toBeInstanceOf(LLMUnavailableError);
+    expect(gateway.isAvailable()).toBe(false);
+  });
+
+  test('streams a reply token by token', async () => {
+    const qwen = fakeProvider('qwen', [{ tokens: ['Hello', ' there', '.'] }]);
+    const gateway = new LLMGateway([qwen]);
+
+    const tokens: string[] = [];
+    for await (const token of gateway.stream({ useCase: 'chat', messages })) {
+      tokens.push(token);
+    }
+
+    expect(tokens).toEqual(['Hello', ' there', '.']);
+    expect(qwen.calls[0].stream).toBe(true);
+    expect(gateway.getStats()['qwen:chat']).toMatchObject({ calls: 1, failures: 0, completionTokens: 3 });
+  });
+
+  test('throws when a stream fails partway instead of ending it quietly', async () => {
+    const qwen = fakeProvider('qwen', [{ tokens: ['Hello', ' the'], failAfterTokens: { status: 503, message: 'connection reset' } }]);
+    const groq = fakeProvider('groq', [{ tokens: ['from groq'] }]);
+    const gateway = new LLMGateway([qwen, groq]);
+
+    const tokens: string[] = [];
+    const error = await (async () => {
+      for await (const token of gateway.stream({ useCase: 'chat', messages, fallback: () => 'rule-based reply' })) {
+        tokens.push(token);
+      }
+    })().then(() => null, (e: unknown) => e);
+
+    expect(error).toBeInstanceOf(LLMStreamInterruptedError);
+    expect(tokens).toEqual(['Hello', ' the']);
+    expect(groq.calls).toHaveLength(0);
+    expect(gateway.getStats()['qwen:chat']).toMatchObject({ failures: 1 });
+  });
+
+  test('accumulates token and failure accounting per provider and use case', async () => {
+    const qwen = fakeProvider('qwen', [{ fail: { status: 400, message: 'bad request' } }]);
+    const groq = fakeProvider('groq', [{ content: 'ok' }]);
+    const gateway = new LLMGateway([qwen, groq]);
+
+    await gateway.complete({ useCase: 'chat', messages });
+    const stats = gateway.getStats();
+
+    expect(stats['qwen:chat']).toMatchObject({ calls: 1, failures: 1 });
+    expect(stats['groq:chat']).toMatchObject({ calls: 1, failures: 0, promptTokens: 10, completionTokens: 5 });
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * Recurrence - Test Suite
+ * RRULE parsing and expansion, occurrence rows for listings, and the
+ * iCalendar lines calendar feeds carry for a series.
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import {
+  RecurrenceError,
+  expandEventRows,
+  expandOccurrences,
+  icsTimingLines,
+  isOccurrence,
+  lastOccurrence,
+  parseOccurrenceId,
+  parseRRule
+} from '../recurrence.js';
+
+describe('expandOccurrences', () => {
+  test('expands a weekly rule across several weekdays', () => {
+    const rule = parseRRule('FREQ=WEEKLY;BYDAY=TU,TH');
+    expect(expandOccurrences('2026-10-01', rule, { to: '2026-10-15' }))
+      .toEqual(['2026-10-01', '2026-10-06', '2026-10-08', '2026-10-13', '2026-10-15']);
+  });
+
+  test('finds the last Friday of each month', () => {
+    const rule = parseRRule('RRULE:FREQ=MONTHLY;BYDAY=-1FR');
+    expect(expandOccurrences('2026-10-30', rule, { limit: 4 }))
+      .toEqual(['2026-10-30', '2026-11-27', '2026-12-25', '2027-01-29']);
+  });
+
+  test('counts excluded dates towards COUNT', () => {
+    const rule = parseRRule('FREQ=WEEKLY;COUNT=4');
+    expect(expandOccurrences('2026-10-01', rule, { exdates: ['2026-10-08'] }))
+      .toEqual(['2026-10-01', '2026-10-15', '2026-10-22']);
+  });
+
+  test('stops at UNTIL', () => {
+    const rule = parseRRule('FREQ=WEEKLY;UNTIL=20261022');
+    expect(lastOccurrence('2026-10-01', rule)).toBe('2026-10-22');
+    expect(lastOccurrence('2026-10-01', parseRRule('FREQ=WEEKLY'))).toBeNull();
+    expect(isOccurrence({ date: '2026-10-01', recurrence_rule: 'FREQ=WEEKLY;UNTIL=20261022' }, '2026-10-29')).toBe(false);
+  });
+
+  test('rejects rules it cannot expand', () => {
+    expect(() => parseRRule('FREQ=HOURLY')).toThrow(RecurrenceError);
+    expect(() => parseRRule('FREQ=WEEKLY;BYDAY=XX')).toThrow(RecurrenceError);
+    expect(() => expandOccurrences('2026-10-01', parseRRule('FREQ=DAILY'))).toThrow(RecurrenceError);
+  });
+});
+
+describe('expandEventRows', () => {
+  test('lists each occurrence under its own id, one-off events under theirs', () => {
+    const rows = expandEventRows([
+      { id: 'club', date: '2026-10-01', end_date: '2026-10-02', recurrence_rule: 'FREQ=WEEKLY', recurrence_exdates: ['2026-10-08'] },
+      { id: 'picnic', date: '2026-10-10', recurrence_rule: null }
+    ], { from: '2026-10-02', to: '2026-10-20' });
+
+    expect(rows.map(r => [r.occurrence_id, r.date, r.end_date])).toEqual([
+      ['picnic', '2026-10-10', undefined],
+      ['club~2026-10-15', '2026-10-15', '2026-10-16']
+    ]);
+    expect(parseOccurrenceId('club~2026-10-15')).toEqual({ eventId: 'club', date: '2026-10-15' });
+  });
+});
+
+describe('icsTimingLines', () => {
+  test('writes London local times, a UTC UNTIL and excluded dates', () => {
+    const lines = icsTimingLines({
+      date: '2026-10-01',
+      start_time: '19:00:00',
+      end_time: '22:00:00',
+      recurrence_rule: 'FREQ=WEEKLY;BYDAY=TH;UNTIL=20261029',
+      recurrence_exdates: ['2026-10-15']
+    });
+
+    expect(lines[0]).toBe('DTSTART;TZID=Europe/London:20261001T190000');
+    expect(lines[1]).toBe('DTEND;TZID=Europe/London:20261001T220000');
+    // Clocks have gone back by the 29th, so 19:00 in London is 19:00 UTC
+    expect(lines[2]).toMatch(/^RRULE:FREQ=WEEKLY;.*UNTIL=20261029T190000Z/);
+    expect(lines[3]).toBe('EXDATE;TZID=Europe/London:20261015T190000');
+  });
+
+  test('writes all-day events as dates', () => {
+    expect(icsTimingLines({ date: '2026-10-01', recurrence_rule: 'FREQ=MONTHLY;COUNT=3', recurrence_exdates: ['2026-11-01'] })).toEqual([
+      'DTSTART;VALUE=DATE:20261001',
+      'DTEND;VALUE=DATE:20261002',
+      'RRULE:FREQ=MONTHLY;COUNT=3',
+      'EXDATE;VALUE=DATE:20261101'
+    ]);
+  });
+});
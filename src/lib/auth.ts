@@ -0,0 +1,354 @@
+/**
+ * Authentication & Authorization
+ * Verifies Supabase access tokens, resolves platform roles and enforces the
+ * declarative route permission map (see routePermissions.ts).
+ *
+ * Tokens are HS256 JWTs signed with the project's JWT secret
+ * (SUPABASE_JWT_SECRET). Roles come from the token's app_metadata and,
+ * when Supabase is configured, the user_roles table. Every signed-in user
+ * is a member; admin satisfies any role requirement.
+ */
+
+import crypto from 'crypto'
+import { Request, Response, NextFunction, RequestHandler } from 'express'
+import { SupabaseClient } from '@supabase/supabase-js'
+import { getSupabaseClient } from './supabaseClient.js'
+
+export type Role = 'member' | 'organizer' | 'moderator' | 'vendor' | 'admin'
+
+export const ROLES: Role[] = ['member', 'organizer', 'moderator', 'vendor', 'admin']
+
+export interface AccessTokenClaims {
+  sub?: string
+  email?: string
+  role?: string
+  aud?: string | string[]
+  exp?: number
+  nbf?: number
+  iat?: number
+  app_metadata?: { role?: string; roles?: string[]; [key: string]: any }
+  user_metadata?: Record<string, any>
+  [key: string]: any
+}
+
+export interface AuthContext {
+  userId: string
+  email?: string
+  roles: Role[]
+  claims: AccessTokenClaims
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      auth?: AuthContext
+    }
+  }
+}
+
+export class AuthError extends Error {
+  constructor(message: string, public readonly status: 401 | 403 = 401) {
+    super(message)
+    this.name = 'AuthError'
+  }
+}
+
+// ============================================
+// Token signing & verification
+// ============================================
+
+function base64url(input: Buffer | string): string {
+  return Buffer.from(input).toString('base64url')
+}
+
+function hmac(data: string, secret: string): Buffer {
+  return crypto.createHmac('sha256', secret).update(data).digest()
+}
+
+/**
+ * Sign an HS256 access token shaped like Supabase's.
+ * Used by the local test harness and scripts; production tokens are issued by Supabase Auth.
+ */
+export function signAccessToken(claims: AccessTokenClaims, secret: string, expiresInSeconds = 3600): string {
+  const now = Math.floor(Date.now() / 1000)
+  const header = base64url(JSON.stringify({ alg: 'HS256', typ: 'JWT' }))
+  const payload = base64url(JSON.stringify({ aud: 'authenticated', iat: now, exp: now + expiresInSeconds, ...claims }))
+  const signature = base64url(hmac(`${header}.${payload}`, secret))
+  return `${header}.${payload}.${signature}`
+}
+
+/**
+ * Verify an HS256 access token and return its claims.
+ * Throws AuthError for malformed, tampered, expired or not-yet-valid tokens.
+ */
+export function verifyAccessToken(token: string, secret: string, now: number = Date.now()): AccessTokenClaims {
+  const parts = token.split('.')
+  if (parts.length !== 3) {
+    throw new AuthError('Malformed token')
+  }
+
+  const [encodedHeader, encodedPayload, encodedSignature] = parts
+  let header: { alg?: string }
+  let claims: AccessTokenClaims
+  try {
+    header = JSON.parse(Buffer.from(encodedHeader, 'base64url').toString('utf8'))
+    claims = JSON.parse(Buffer.from(encodedPayload, 'base64url').toString('utf8'))
+  } catch {
+    throw new AuthError('Malformed token')
+  }
+
+  if (header.alg !== 'HS256') {
+    throw new AuthError(`Unsupported token algorithm: ${header.alg}`)
+  }
+
+  const expected = hmac(`${encodedHeader}.${encodedPayload}`, secret)
+  const actual = Buffer.from(encodedSignature, 'base64url')
+  if (actual.length !== expected.length || !crypto.timingSafeEqual(actual, expected)) {
+    throw new AuthError('Invalid token signature')
+  }
+
+  const nowSeconds = Math.floor(now / 1000)
+  if (typeof claims.exp === 'number' && claims.exp <= nowSeconds) {
+    throw new AuthError('Token expired')
+  }
+  if (typeof claims.nbf === 'number' && claims.nbf > nowSeconds) {
+    throw new AuthError('Token not yet valid')
+  }
+
+  return claims
+}
+
+// ============================================
+// Role resolution
+// ============================================
+
+function isRole(value: unknown): value is Role {
+  return typeof value === 'string' && (ROLES as string[]).includes(value)
+}
+
+/**
+ * Roles carried by the token itself. The service-role key acts as admin.
+ */
+export function rolesFromClaims(claims: AccessTokenClaims): Role[] {
+  if (claims.role === 'service_role') {
+    return ['member', 'admin']
+  }
+
+  const metadata = claims.app_metadata || {}
+  const declared = [metadata.role, ...(Array.isArray(metadata.roles) ? metadata.roles : [])]
+  return Array.from(new Set<Role>(['member', ...declared.filter(isRole)]))
+}
+
+export function hasRole(auth: AuthContext | undefined, required: Role[]): boolean {
+  if (!auth) return false
+  if (required.length === 0 || auth.roles.includes('admin')) return true
+  return required.some(role => auth.roles.includes(role))
+}
+
+const ROLE_CACHE_TTL_MS = 5 * 60 * 1000
+
+/**
+ * Looks up roles granted in the user_roles table, cached per user.
+ * Returns no extra roles in demo mode or when the lookup fails.
+ */
+export class RoleResolver {
+  private cache = new Map<string, { roles: Role[]; expiresAt: number }>()
+
+  constructor(private supabase: SupabaseClient | null = getSupabaseClient()) {}
+
+  async resolve(claims: AccessTokenClaims): Promise<Role[]> {
+    const roles = rolesFromClaims(claims)
+    if (!claims.sub) return roles
+
+    const granted = await this.lookup(claims.sub)
+    return Array.from(new Set([...roles, ...granted]))
+  }
+
+  invalidate(userId?: string): void {
+    if (userId) {
+      this.cache.delete(userId)
+    } else {
+      this.cache.clear()
+    }
+  }
+
+  private async lookup(userId: string): Promise<Role[]> {
+    if (!this.supabase) return []
+
+    const cached = this.cache.get(userId)
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.roles
+    }
+
+    const { data, error } = await this.supabase
+      .from('user_roles')
+      .select('role')
+      .eq('user_id', userId)
+
+    if (error) {
+      console.warn('[Auth] Role lookup failed:', error.message)
+      return []
+    }
+
+    const roles = (data || []).map((row: any) => row.role).filter(isRole)
+    this.cache.set(userId, { roles, expiresAt: Date.now() + ROLE_CACHE_TTL_MS })
+    return roles
+  }
+}
+
+// ============================================
+// Middleware
+// ============================================
+
+export interface AuthenticateOptions {
+  secret?: string
+  roleResolver?: RoleResolver
+}
+
+function bearerToken(req: Request): string | null {
+  const header = req.headers.authorization
+  if (!header || !header.startsWith('Bearer ')) return null
+  return header.slice('Bearer '.length).trim() || null
+}
+
+function sendAuthError(res: Response, error: AuthError): void {
+  res.status(error.status).json({
+    success: false,
+    error: error.status === 401 ? 'Authentication required' : 'Insufficient permissions',
+    message: error.message
+  })
+}
+
+/**
+ * Attach req.auth when a valid bearer token is present.
+ * Requests without a token pass through anonymously; an invalid token is rejected
+ * so a client never silently loses its identity.
+ */
+export function authenticate(options: AuthenticateOptions = {}): RequestHandler {
+  const secret = options.secret ?? process.env.SUPABASE_JWT_SECRET
+  const roleResolver = options.roleResolver ?? new RoleResolver()
+
+  if (!secret) {
+    console.warn('[Auth] SUPABASE_JWT_SECRET not set - bearer tokens cannot be verified; protected routes will reject all requests')
+  }
+
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const token = bearerToken(req)
+    if (!token) return next()
+
+    try {
+      if (!secret) {
+        throw new AuthError('Authentication is not configured on this server')
+      }
+
+      const claims = verifyAccessToken(token, secret)
+      // Anon keys carry no user; treat them like no token at all
+      if (!claims.sub && claims.role !== 'service_role') return next()
+
+      req.auth = {
+        userId: claims.sub || 'service_role',
+        email: claims.email,
+        roles: await roleResolver.resolve(claims),
+        claims
+      }
+      next()
+    } catch (error) {
+      if (error instanceof AuthError) {
+        return sendAuthError(res, error)
+      }
+      next(error)
+    }
+  }
+}
+
+/**
+ * Require a signed-in caller holding at least one of the given roles
+ * (any signed-in caller when no roles are given).
+ */
+export function requireRoles(...roles: Role[]): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.auth) {
+      return sendAuthError(res, new AuthError('No valid bearer token provided'))
+    }
+    if (!hasRole(req.auth, roles)) {
+      return sendAuthError(res, new AuthError(`Requires one of: ${roles.join(', ')}`, 403))
+    }
+    next()
+  }
+}
+
+export interface RoutePermission {
+  method: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE' | '*'
+  // Express-style path, e.g. /api/events/:id/approve
+  path: string
+  // Roles allowed; an empty list means any signed-in user (or, with self, the owner only)
+  roles: Role[]
+  // Route param that, when equal to the caller's user id, also grants access
+  self?: string
+}
+
+interface CompiledPermission extends RoutePermission {
+  pattern: RegExp
+  params: string[]
+}
+
+function compilePermission(permission: RoutePermission): CompiledPermission {
+  const params: string[] = []
+  const source = permission.path
+    .split('/')
+    .map(segment => {
+      if (segment.startsWith(':')) {
+        params.push(segment.slice(1))
+        return '([^/]+)'
+      }
+      return segment.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+    })
+    .join('/')
+
+  // Express routes match case-insensitively, so the permission map must too
+  return { ...permission, pattern: new RegExp(`^${source}/?$`, 'i'), params }
+}
+
+/**
+ * Enforce a declarative permission map. The first entry matching the request's
+ * method and path applies; requests matching no entry are left to the router.
+ */
+export function authorize(permissions: RoutePermission[]): RequestHandler {
+  const compiled = permissions.map(compilePermission)
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    const path = req.path
+    for (const permission of compiled) {
+      if (permission.method !== '*' && permission.method !== req.method) continue
+
+      const match = permission.pattern.exec(path)
+      if (!match) continue
+
+      if (!req.auth) {
+        return sendAuthError(res, new AuthError('No valid bearer token provided'))
+      }
+
+      if (permission.self) {
+        const index = permission.params.indexOf(permission.self)
+        let owner: string | undefined
+        try {
+          owner = index >= 0 ? decodeURIComponent(match[index + 1]) : undefined
+        } catch {
+          return res.status(400).json({ success: false, error: 'Bad request', message: 'Malformed URL path' })
+        }
+        if (owner === req.auth.userId) {
+          return next()
+        }
+        if (permission.roles.length === 0) {
+          return sendAuthError(res, new AuthError('Only the owner can access this resource', 403))
+        }
+      }
+
+      if (!hasRole(req.auth, permission.roles)) {
+        return sendAuthError(res, new AuthError(`Requires one of: ${permission.roles.join(', ')}`, 403))
+      }
+      return next()
+    }
+    next()
+  }
+}
@@ -0,0 +1,65 @@
+/**
+ * Auth Test Harness
+ * Signs Supabase-shaped access tokens locally and serves an Express app on an
+ * ephemeral port, so protected routes can be exercised without a live Supabase.
+ */
+
+import express, { Router } from 'express'
+import { AddressInfo } from 'net'
+import { Server } from 'http'
+import { authenticate, authorize, signAccessToken, RoleResolver, Role, RoutePermission } from './auth.js'
+import { ROUTE_PERMISSIONS } from './routePermissions.js'
+
+export const TEST_JWT_SECRET = 'ivor-core-test-jwt-secret'
+
+export interface TestTokenOptions {
+  roles?: Role[]
+  email?: string
+  expiresInSeconds?: number
+  secret?: string
+}
+
+export function signTestToken(userId: string, options: TestTokenOptions = {}): string {
+  const { roles = [], email = `${userId}@test.blkoutuk.com`, expiresInSeconds = 3600, secret = TEST_JWT_SECRET } = options
+  return signAccessToken(
+    { sub: userId, email, role: 'authenticated', app_metadata: { roles } },
+    secret,
+    expiresInSeconds
+  )
+}
+
+export function authHeader(userId: string, options: TestTokenOptions = {}): Record<string, string> {
+  return { Authorization: `Bearer ${signTestToken(userId, options)}` }
+}
+
+export interface TestServer {
+  url: string
+  close: () => Promise<void>
+}
+
+/**
+ * Mount routers behind the same auth middleware server.ts uses.
+ * Roles come from token claims only (no user_roles lookup).
+ */
+export async function startAuthTestServer(
+  mounts: Array<[string, Router]>,
+  permissions: RoutePermission[] = ROUTE_PERMISSIONS
+): Promise<TestServer> {
+  const app = express()
+  app.use(express.json())
+  app.use(authenticate({ secret: TEST_JWT_SECRET, roleResolver: new RoleResolver(null) }))
+  app.use(authorize(permissions))
+  for (const [path, router] of mounts) {
+    app.use(path, router)
+  }
+
+  const server: Server = await new Promise(resolve => {
+    const listening = app.listen(0, () => resolve(listening))
+  })
+  const { port } = server.address() as AddressInfo
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    close: () => new Promise<void>((resolve, reject) => server.close(error => (error ? reject(error) : resolve())))
+  }
+}
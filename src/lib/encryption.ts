@@ -0,0 +1,57 @@
+/**
+ * Field Encryption
+ * AES-256-GCM for personal text stored at rest (journal entries).
+ *
+ * Ciphertext is stored as a single string: v1:<iv>:<auth tag>:<ciphertext>,
+ * each part base64. Keys are 32 bytes, supplied as 64 hex characters or base64.
+ */
+
+import crypto from 'crypto'
+
+const ALGORITHM = 'aes-256-gcm'
+const VERSION = 'v1'
+const IV_BYTES = 12
+
+export class EncryptionError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'EncryptionError'
+  }
+}
+
+/**
+ * Parse a 32-byte key from hex or base64; returns null when unset.
+ */
+export function parseEncryptionKey(value: string | undefined): Buffer | null {
+  if (!value) return null
+
+  const key = /^[0-9a-fA-F]{64}$/.test(value) ? Buffer.from(value, 'hex') : Buffer.from(value, 'base64')
+  if (key.length !== 32) {
+    throw new EncryptionError('Encryption key must be 32 bytes (64 hex characters or base64)')
+  }
+  return key
+}
+
+export function encryptText(plaintext: string, key: Buffer): string {
+  const iv = crypto.randomBytes(IV_BYTES)
+  const cipher = crypto.createCipheriv(ALGORITHM, key, iv)
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()])
+  const tag = cipher.getAuthTag()
+
+  return [VERSION, iv.toString('base64'), tag.toString('base64'), ciphertext.toString('base64')].join(':')
+}
+
+export function decryptText(payload: string, key: Buffer): string {
+  const [version, iv, tag, ciphertext] = payload.split(':')
+  if (version !== VERSION || !iv || !tag || ciphertext === undefined) {
+    throw new EncryptionError('Unrecognised ciphertext format')
+  }
+
+  try {
+    const decipher = crypto.createDecipheriv(ALGORITHM, key, Buffer.from(iv, 'base64'))
+    decipher.setAuthTag(Buffer.from(tag, 'base64'))
+    return Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64')), decipher.final()]).toString('utf8')
+  } catch {
+    throw new EncryptionError('Unable to decrypt: wrong key or tampered data')
+  }
+}
@@ -0,0 +1,403 @@
+/**
+ * Shared LLM Gateway
+ * One provider chain for every LLM call in ivor-core:
+ * Qwen (DashScope) → Groq → local OpenAI-compatible endpoint → rule-based fallback.
+ *
+ * All providers speak the OpenAI chat completions API. Each use case carries
+ * its own model/temperature/max-token/timeout settings; failed calls are
+ * retried with backoff before moving down the chain. Token usage and latency
+ * are accumulated per provider and use case for /health/llm.
+ */
+
+import OpenAI from 'openai'
+
+export type LLMProviderId = 'qwen' | 'groq' | 'local'
+
+export type LLMUseCase =
+  | 'chat'
+  | 'interview'
+  | 'council-proposal'
+  | 'council-review'
+  | 'council-synthesis'
+  | 'moderation'
+  | 'event-moderation'
+  | 'theme-extraction'
+  | 'journal-sentiment'
+  | 'journal-prompt'
+  | 'framework-reflection'
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant'
+  content: string
+}
+
+export interface LLMUseCaseConfig {
+  temperature: number
+  maxTokens: number
+  timeoutMs: number
+  retries: number
+  jsonMode?: boolean
+  // Per-provider model overrides; otherwise the provider default is used
+  models?: Partial<Record<LLMProviderId, string>>
+}
+
+export interface LLMCompletionRequest {
+  useCase: LLMUseCase
+  messages: LLMMessage[]
+  temperature?: number
+  maxTokens?: number
+  // Used as the last link of the chain; without it, exhausting the chain throws
+  fallback?: () => string
+}
+
+export interface LLMCompletion {
+  content: string
+  provider: LLMProviderId | 'rule-based'
+  model: string
+  usage: { promptTokens: number; completionTokens: number; totalTokens: number }
+  latencyMs: number
+  attempts: number
+}
+
+export class LLMUnavailableError extends Error {
+  constructor(useCase: LLMUseCase, public readonly causes: string[]) {
+    super(`No LLM provider could serve "${useCase}"${causes.length ? `: ${causes.join('; ')}` : ' (none configured)'}`)
+    this.name = 'LLMUnavailableError'
+  }
+}
+
+/** A stream failed after some of the reply had already been sent */
+export class LLMStreamInterruptedError extends Error {
+  constructor(useCase: LLMUseCase, provider: LLMProviderId, cause: string) {
+    super(`The ${provider} stream for "${useCase}" failed partway through: ${cause}`)
+    this.name = 'LLMStreamInterruptedError'
+  }
+}
+
+export interface LLMProviderConfig {
+  id: LLMProviderId
+  client: OpenAI
+  defaultModel: string
+}
+
+interface UsageStats {
+  calls: number
+  failures: number
+  promptTokens: number
+  completionTokens: number
+  totalLatencyMs: number
+}
+
+const USE_CASE_CONFIG: Record<LLMUseCase, LLMUseCaseConfig> = {
+  'chat': { temperature: 0.7, maxTokens: 1200, timeoutMs: 30000, retries: 1 },
+  'interview': { temperature: 0.7, maxTokens: 500, timeoutMs: 20000, retries: 1 },
+  'council-proposal': { temperature: 0.7, maxTokens: 800, timeoutMs: 45000, retries: 2 },
+  'council-review': { temperature: 0.3, maxTokens: 600, timeoutMs: 45000, retries: 2 },
+  'council-synthesis': { temperature: 0.5, maxTokens: 1200, timeoutMs: 60000, retries: 2 },
+  'moderation': { temperature: 0.3, maxTokens: 600, timeoutMs: 20000, retries: 2, jsonMode: true },
+  'event-moderation': { temperature: 0.3, maxTokens: 600, timeoutMs: 20000, retries: 2, jsonMode: true },
+  'theme-extraction': { temperature: 0.3, maxTokens: 500, timeoutMs: 20000, retries: 1 },
+  'journal-sentiment': { temperature: 0.2, maxTokens: 150, timeoutMs: 15000, retries: 1, jsonMode: true },
+  'journal-prompt': { temperature: 0.8, maxTokens: 200, timeoutMs: 15000, retries: 1 },
+  'framework-reflection': { temperature: 0.6, maxTokens: 250, timeoutMs: 20000, retries: 1 }
+}
+
+const DEFAULT_PROVIDER_ORDER: LLMProviderId[] = ['qwen', 'groq', 'local']
+
+function isRealKey(key: string | undefined, placeholder: string): key is string {
+  return !!key && key !== placeholder
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms))
+}
+
+/**
+ * Only retry errors that might succeed on a second attempt:
+ * timeouts, connection failures, rate limits and server errors.
+ */
+function isRetryable(error: any): boolean {
+  const status = error?.status
+  if (typeof status === 'number') {
+    return status === 408 || status === 429 || status >= 500
+  }
+  return true
+}
+
+function describeError(error: any): string {
+  return error?.status ? `${error.status} ${error.message}` : (error?.message || String(error))
+}
+
+export class LLMGateway {
+  private providers: LLMProviderConfig[]
+  private stats = new Map<string, UsageStats>()
+
+  constructor(providers?: LLMProviderConfig[]) {
+    this.providers = providers || LLMGateway.providersFromEnv()
+  }
+
+  /**
+   * Build the provider chain from environment variables.
+   * LLM_PROVIDER_ORDER (e.g. "groq,qwen") reorders or trims the chain.
+   */
+  static providersFromEnv(): LLMProviderConfig[] {
+    const available: Partial<Record<LLMProviderId, LLMProviderConfig>> = {}
+
+    const dashscopeKey = process.env.DASHSCOPE_API_KEY
+    if (isRealKey(dashscopeKey, 'your-dashscope-api-key-here')) {
+      available.qwen = {
+        id: 'qwen',
+        client: new OpenAI({
+          apiKey: dashscopeKey,
+          baseURL: process.env.DASHSCOPE_BASE_URL || 'https://dashscope-intl.aliyuncs.com/compatible-mode/v1',
+          maxRetries: 0
+        }),
+        defaultModel: process.env.DASHSCOPE_MODEL || 'qwen-max'
+      }
+    }
+
+    const groqKey = process.env.GROQ_API_KEY
+    if (isRealKey(groqKey, 'your-groq-api-key-here')) {
+      available.groq = {
+        id: 'groq',
+        client: new OpenAI({
+          apiKey: groqKey,
+          baseURL: 'https://api.groq.com/openai/v1',
+          maxRetries: 0
+        }),
+        defaultModel: process.env.GROQ_MODEL || 'llama-3.3-70b-versatile'
+      }
+    }
+
+    const localUrl = process.env.LOCAL_LLM_BASE_URL
+    if (localUrl) {
+      available.local = {
+        id: 'local',
+        client: new OpenAI({
+          apiKey: process.env.LOCAL_LLM_API_KEY || 'local',
+          baseURL: localUrl,
+          maxRetries: 0
+        }),
+        defaultModel: process.env.LOCAL_LLM_MODEL || 'llama3.1'
+      }
+    }
+
+    const order = process.env.LLM_PROVIDER_ORDER
+      ? process.env.LLM_PROVIDER_ORDER.split(',').map(p => p.trim() as LLMProviderId)
+      : DEFAULT_PROVIDER_ORDER
+
+    return order.map(id => available[id]).filter((p): p is LLMProviderConfig => !!p)
+  }
+
+  /**
+   * True when at least one real provider is configured
+   */
+  isAvailable(): boolean {
+    return this.providers.length > 0
+  }
+
+  getProviderChain(): LLMProviderId[] {
+    return this.providers.map(p => p.id)
+  }
+
+  /**
+   * Model the first provider in the chain would use for a use case
+   */
+  getPrimaryModel(useCase: LLMUseCase): string | null {
+    const provider = this.providers[0]
+    return provider ? this.modelFor(provider, useCase) : null
+  }
+
+  /**
+   * Run a chat completion through the provider chain
+   */
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletion> {
+    const config = USE_CASE_CONFIG[request.useCase]
+    const started = Date.now()
+    const causes: string[] = []
+    let attempts = 0
+
+    for (const provider of this.providers) {
+      const model = this.modelFor(provider, request.useCase)
+
+      for (let attempt = 0; attempt <= config.retries; attempt++) {
+        attempts++
+        const attemptStarted = Date.now()
+        try {
+          const response = await provider.client.chat.completions.create({
+            model,
+            messages: request.messages,
+            temperature: request.temperature ?? config.temperature,
+            max_tokens: request.maxTokens ?? config.maxTokens,
+            ...(config.jsonMode ? { response_format: { type: 'json_object' as const } } : {})
+          }, { timeout: config.timeoutMs })
+
+          const content = response.choices[0]?.message?.content
+          if (!content) {
+            throw new Error('Empty completion')
+          }
+
+          const usage = {
+            promptTokens: response.usage?.prompt_tokens || 0,
+            completionTokens: response.usage?.completion_tokens || 0,
+            totalTokens: response.usage?.total_tokens || 0
+          }
+          this.recordSuccess(provider.id, request.useCase, usage, Date.now() - attemptStarted)
+
+          return { content, provider: provider.id, model, usage, latencyMs: Date.now() - started, attempts }
+        } catch (error: any) {
+          this.recordFailure(provider.id, request.useCase, Date.now() - attemptStarted)
+          causes.push(`${provider.id}/${model}: ${describeError(error)}`)
+          console.warn(`[LLM] ${request.useCase} via ${provider.id} failed (attempt ${attempt + 1}):`, describeError(error))
+
+          if (!isRetryable(error) || attempt === config.retries) break
+          await sleep(this.backoffMs(attempt))
+        }
+      }
+    }
+
+    if (request.fallback) {
+      return {
+        content: request.fallback(),
+        provider: 'rule-based',
+        model: 'rule-based',
+        usage: { promptTokens: 0, completionTokens: 0, totalTokens: 0 },
+        latencyMs: Date.now() - started,
+        attempts
+      }
+    }
+
+    throw new LLMUnavailableError(request.useCase, causes)
+  }
+
+  /**
+   * Stream a chat completion token by token.
+   * Providers are tried in order until one produces its first token; once
+   * tokens have been yielded a mid-stream failure throws
+   * LLMStreamInterruptedError rather than switching provider (which would
+   * restart the text), so callers know the reply is incomplete.
+   */
+  async *stream(request: LLMCompletionRequest): AsyncGenerator<string> {
+    const config = USE_CASE_CONFIG[request.useCase]
+    const causes: string[] = []
+
+    for (const provider of this.providers) {
+      const model = this.modelFor(provider, request.useCase)
+
+      for (let attempt = 0; attempt <= config.retries; attempt++) {
+        const attemptStarted = Date.now()
+        let streamed = false
+        let completionTokens = 0
+        try {
+          const stream = await provider.client.chat.completions.create({
+            model,
+            messages: request.messages,
+            temperature: request.temperature ?? config.temperature,
+            max_tokens: request.maxTokens ?? config.maxTokens,
+            stream: true
+          }, { timeout: config.timeoutMs })
+
+          for await (const chunk of stream) {
+            const token = chunk.choices[0]?.delta?.content
+            if (token) {
+              streamed = true
+              completionTokens++
+              yield token
+            }
+          }
+
+          // Streams rarely report usage; count content chunks as an approximation
+          this.recordSuccess(provider.id, request.useCase, {
+            promptTokens: 0,
+            completionTokens,
+            totalTokens: completionTokens
+          }, Date.now() - attemptStarted)
+          return
+        } catch (error: any) {
+          this.recordFailure(provider.id, request.useCase, Date.now() - attemptStarted)
+          console.warn(`[LLM] ${request.useCase} stream via ${provider.id} failed (attempt ${attempt + 1}):`, describeError(error))
+          if (streamed) {
+            throw new LLMStreamInterruptedError(request.useCase, provider.id, describeError(error))
+          }
+
+          causes.push(`${provider.id}/${model}: ${describeError(error)}`)
+          if (!isRetryable(error) || attempt === config.retries) break
+          await sleep(this.backoffMs(attempt))
+        }
+      }
+    }
+
+    if (request.fallback) {
+      yield request.fallback()
+      return
+    }
+
+    throw new LLMUnavailableError(request.useCase, causes)
+  }
+
+  /**
+   * Accumulated usage per provider and use case
+   */
+  getStats(): Record<string, UsageStats & { averageLatencyMs: number }> {
+    const result: Record<string, UsageStats & { averageLatencyMs: number }> = {}
+    for (const [key, stats] of this.stats) {
+      result[key] = {
+        ...stats,
+        averageLatencyMs: stats.calls > 0 ? Math.round(stats.totalLatencyMs / stats.calls) : 0
+      }
+    }
+    return result
+  }
+
+  private modelFor(provider: LLMProviderConfig, useCase: LLMUseCase): string {
+    return USE_CASE_CONFIG[useCase].models?.[provider.id] || provider.defaultModel
+  }
+
+  private backoffMs(attempt: number): number {
+    // 500ms, 1s, 2s ... with jitter so parallel callers don't retry in lockstep
+    return 500 * Math.pow(2, attempt) + Math.floor(Math.random() * 250)
+  }
+
+  private statsFor(provider: LLMProviderId, useCase: LLMUseCase): UsageStats {
+    const key = `${provider}:${useCase}`
+    if (!this.stats.has(key)) {
+      this.stats.set(key, { calls: 0, failures: 0, promptTokens: 0, completionTokens: 0, totalLatencyMs: 0 })
+    }
+    return this.stats.get(key)!
+  }
+
+  private recordSuccess(
+    provider: LLMProviderId,
+    useCase: LLMUseCase,
+    usage: LLMCompletion['usage'],
+    latencyMs: number
+  ): void {
+    const stats = this.statsFor(provider, useCase)
+    stats.calls++
+    stats.promptTokens += usage.promptTokens
+    stats.completionTokens += usage.completionTokens
+    stats.totalLatencyMs += latencyMs
+  }
+
+  private recordFailure(provider: LLMProviderId, useCase: LLMUseCase, latencyMs: number): void {
+    const stats = this.statsFor(provider, useCase)
+    stats.calls++
+    stats.failures++
+    stats.totalLatencyMs += latencyMs
+  }
+}
+
+let gateway: LLMGateway | null = null
+
+export function getLLMGateway(): LLMGateway {
+  if (gateway) return gateway
+
+  gateway = new LLMGateway()
+  const chain = gateway.getProviderChain()
+  console.log(chain.length > 0
+    ? `[LLM] Gateway initialized (chain: ${chain.join(' → ')} → rule-based)`
+    : '[LLM] No providers configured — rule-based fallbacks only')
+  return gateway
+}
+
+export default getLLMGateway
@@ -0,0 +1,67 @@
+/**
+ * Minimal multipart/form-data parser for small uploads held in memory
+ * (voice recordings). Reads a Buffer collected by express.raw().
+ */
+
+export interface MultipartFile {
+  field: string
+  filename: string
+  contentType: string
+  data: Buffer
+}
+
+export interface MultipartForm {
+  fields: Record<string, string>
+  files: MultipartFile[]
+}
+
+export function getBoundary(contentType: string | undefined): string | null {
+  const match = /boundary=(?:"([^"]+)"|([^;]+))/i.exec(contentType || '')
+  return match ? (match[1] || match[2]).trim() : null
+}
+
+export function parseMultipartForm(body: Buffer, contentType: string | undefined): MultipartForm {
+  const boundary = getBoundary(contentType)
+  if (!boundary) {
+    throw new Error('Missing multipart boundary')
+  }
+
+  const form: MultipartForm = { fields: {}, files: [] }
+  const delimiter = Buffer.from(`--${boundary}`)
+  const headerEnd = Buffer.from('\r\n\r\n')
+
+  let start = body.indexOf(delimiter)
+  while (start !== -1) {
+    const partStart = start + delimiter.length
+    // `--boundary--` closes the form
+    if (body.subarray(partStart, partStart + 2).toString() === '--') break
+
+    const next = body.indexOf(delimiter, partStart)
+    if (next === -1) break
+
+    // Each part sits between the CRLF after the delimiter and the CRLF before the next one
+    const part = body.subarray(partStart + 2, next - 2)
+    const split = part.indexOf(headerEnd)
+    if (split !== -1) {
+      const headers = part.subarray(0, split).toString('utf8')
+      const data = part.subarray(split + headerEnd.length)
+      const field = /name="([^"]*)"/i.exec(headers)?.[1]
+      const filename = /filename="([^"]*)"/i.exec(headers)?.[1]
+
+      if (field && filename !== undefined) {
+        form.files.push({
+          field,
+          filename,
+          contentType: /content-type:\s*([^\r\n]+)/i.exec(headers)?.[1].trim() || 'application/octet-stream',
+          data: Buffer.from(data)
+        })
+      } else if (field) {
+        form.fields[field] = data.toString('utf8')
+      }
+    }
+
+    start = next
+  }
+
+  return form
+}
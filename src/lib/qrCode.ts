@@ -0,0 +1,404 @@
+/**
+ * QR code encoder for ticket tokens: byte mode, versions 1-40, with SVG and
+ * PNG output. Follows ISO/IEC 18004 (Reed-Solomon error correction, block
+ * interleaving, and the lowest-penalty of the eight masks).
+ */
+
+import { deflateSync } from 'zlib'
+
+export type QrErrorCorrection = 'L' | 'M' | 'Q' | 'H'
+
+/** modules[y][x], true = dark */
+export type QrMatrix = boolean[][]
+
+export interface QrRenderOptions {
+  // Pixels (PNG) or user units (SVG) per module
+  scale?: number
+  // Quiet zone in modules; scanners expect at least 4
+  margin?: number
+}
+
+const ECL_INDEX: Record<QrErrorCorrection, number> = { L: 0, M: 1, Q: 2, H: 3 }
+const ECL_FORMAT_BITS: Record<QrErrorCorrection, number> = { L: 1, M: 0, Q: 3, H: 2 }
+
+// Indexed [error correction level][version]; index 0 is unused
+const ECC_CODEWORDS_PER_BLOCK = [
+  [-1, 7, 10, 15, 20, 26, 18, 20, 24, 30, 18, 20, 24, 26, 30, 22, 24, 28, 30, 28, 28, 28, 28, 30, 30, 26, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  [-1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26, 26, 26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28],
+  [-1, 13, 22, 18, 26, 18, 24, 18, 22, 20, 24, 28, 26, 24, 20, 30, 24, 28, 28, 26, 30, 28, 30, 30, 30, 30, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  [-1, 17, 28, 22, 16, 22, 28, 26, 26, 24, 28, 24, 28, 22, 24, 24, 30, 28, 28, 26, 28, 30, 24, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30]
+]
+const NUM_ERROR_CORRECTION_BLOCKS = [
+  [-1, 1, 1, 1, 1, 1, 2, 2, 2, 2, 4, 4, 4, 4, 4, 6, 6, 6, 6, 7, 8, 8, 9, 9, 10, 12, 12, 12, 13, 14, 15, 16, 17, 18, 19, 19, 20, 21, 22, 24, 25],
+  [-1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16, 17, 17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49],
+  [-1, 1, 1, 2, 2, 4, 4, 6, 6, 8, 8, 8, 10, 12, 16, 12, 17, 16, 18, 21, 20, 23, 23, 25, 27, 29, 34, 34, 35, 38, 40, 43, 45, 48, 51, 53, 56, 59, 62, 65, 68],
+  [-1, 1, 1, 2, 4, 4, 4, 5, 6, 8, 8, 11, 11, 16, 16, 18, 16, 19, 21, 25, 25, 25, 34, 30, 32, 35, 37, 40, 42, 45, 48, 51, 54, 57, 60, 63, 66, 70, 74, 77, 81]
+]
+
+function getBit(value: number, index: number): boolean {
+  return ((value >>> index) & 1) !== 0
+}
+
+/** Data + error correction modules in a symbol, after function patterns */
+function numRawDataModules(version: number): number {
+  let result = (16 * version + 128) * version + 64
+  if (version >= 2) {
+    const numAlign = Math.floor(version / 7) + 2
+    result -= (25 * numAlign - 10) * numAlign - 55
+    if (version >= 7) result -= 36
+  }
+  return result
+}
+
+function numDataCodewords(version: number, ecl: QrErrorCorrection): number {
+  const e = ECL_INDEX[ecl]
+  return Math.floor(numRawDataModules(version) / 8) - ECC_CODEWORDS_PER_BLOCK[e][version] * NUM_ERROR_CORRECTION_BLOCKS[e][version]
+}
+
+function gfMultiply(x: number, y: number): number {
+  let z = 0
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d)
+    z ^= ((y >>> i) & 1) * x
+  }
+  return z
+}
+
+export function reedSolomonDivisor(degree: number): number[] {
+  const result = new Array<number>(degree).fill(0)
+  result[degree - 1] = 1
+  let root = 1
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < result.length; j++) {
+      result[j] = gfMultiply(result[j], root)
+      if (j + 1 < result.length) result[j] ^= result[j + 1]
+    }
+    root = gfMultiply(root, 0x02)
+  }
+  return result
+}
+
+export function reedSolomonRemainder(data: number[], divisor: number[]): number[] {
+  const result = divisor.map(() => 0)
+  for (const byte of data) {
+    const factor = byte ^ result.shift()!
+    result.push(0)
+    divisor.forEach((coefficient, i) => {
+      result[i] ^= gfMultiply(coefficient, factor)
+    })
+  }
+  return result
+}
+
+function encodeData(data: Buffer, version: number, ecl: QrErrorCorrection): number[] {
+  const bits: number[] = []
+  const append = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1)
+  }
+
+  append(0b0100, 4)
+  append(data.length, version <= 9 ? 8 : 16)
+  for (const byte of data) append(byte, 8)
+
+  const capacity = numDataCodewords(version, ecl) * 8
+  append(0, Math.min(4, capacity - bits.length))
+  append(0, (8 - bits.length % 8) % 8)
+  for (let pad = 0xec; bits.length < capacity; pad ^= 0xec ^ 0x11) append(pad, 8)
+
+  const codewords: number[] = []
+  for (let i = 0; i < bits.length; i += 8) {
+    codewords.push(bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | bit, 0))
+  }
+  return codewords
+}
+
+/** Split into blocks, append each block's error correction, and interleave */
+function addErrorCorrection(data: number[], version: number, ecl: QrErrorCorrection): number[] {
+  const e = ECL_INDEX[ecl]
+  const numBlocks = NUM_ERROR_CORRECTION_BLOCKS[e][version]
+  const blockEccLen = ECC_CODEWORDS_PER_BLOCK[e][version]
+  const rawCodewords = Math.floor(numRawDataModules(version) / 8)
+  const numShortBlocks = numBlocks - rawCodewords % numBlocks
+  const shortBlockLen = Math.floor(rawCodewords / numBlocks)
+  const divisor = reedSolomonDivisor(blockEccLen)
+
+  const blocks: number[][] = []
+  for (let i = 0, k = 0; i < numBlocks; i++) {
+    const block = data.slice(k, k + shortBlockLen - blockEccLen + (i < numShortBlocks ? 0 : 1))
+    k += block.length
+    const ecc = reedSolomonRemainder(block, divisor)
+    // Placeholder so short and long blocks line up while interleaving
+    if (i < numShortBlocks) block.push(0)
+    blocks.push(block.concat(ecc))
+  }
+
+  const result: number[] = []
+  for (let i = 0; i < blocks[0].length; i++) {
+    blocks.forEach((block, j) => {
+      if (i !== shortBlockLen - blockEccLen || j >= numShortBlocks) result.push(block[i])
+    })
+  }
+  return result
+}
+
+function alignmentPositions(version: number): number[] {
+  if (version === 1) return []
+  const numAlign = Math.floor(version / 7) + 2
+  const step = Math.floor((version * 8 + numAlign * 3 + 5) / (numAlign * 4 - 4)) * 2
+  const result = [6]
+  for (let pos = version * 4 + 10; result.length < numAlign; pos -= step) {
+    result.splice(1, 0, pos)
+  }
+  return result
+}
+
+class QrSymbol {
+  readonly size: number
+  readonly modules: boolean[][]
+  private isFunction: boolean[][]
+
+  constructor(private version: number, private ecl: QrErrorCorrection, codewords: number[]) {
+    this.size = version * 4 + 17
+    this.modules = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false))
+    this.isFunction = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false))
+
+    this.drawFunctionPatterns()
+    this.drawCodewords(codewords)
+
+    let bestMask = 0
+    let bestPenalty = Infinity
+    for (let mask = 0; mask < 8; mask++) {
+      this.applyMask(mask)
+      this.drawFormatBits(mask)
+      const penalty = this.penalty()
+      if (penalty < bestPenalty) {
+        bestMask = mask
+        bestPenalty = penalty
+      }
+      // Masking is an XOR, so applying it again undoes it
+      this.applyMask(mask)
+    }
+    this.applyMask(bestMask)
+    this.drawFormatBits(bestMask)
+  }
+
+  private setFunction(x: number, y: number, dark: boolean) {
+    this.modules[y][x] = dark
+    this.isFunction[y][x] = true
+  }
+
+  private drawFunctionPatterns() {
+    for (let i = 0; i < this.size; i++) {
+      this.setFunction(6, i, i % 2 === 0)
+      this.setFunction(i, 6, i % 2 === 0)
+    }
+
+    for (const [cx, cy] of [[3, 3], [this.size - 4, 3], [3, this.size - 4]]) {
+      for (let dy = -4; dy <= 4; dy++) {
+        for (let dx = -4; dx <= 4; dx++) {
+          const x = cx + dx
+          const y = cy + dy
+          const distance = Math.max(Math.abs(dx), Math.abs(dy))
+          if (x >= 0 && x < this.size && y >= 0 && y < this.size) {
+            this.setFunction(x, y, distance !== 2 && distance !== 4)
+          }
+        }
+      }
+    }
+
+    const positions = alignmentPositions(this.version)
+    const last = positions.length - 1
+    positions.forEach((cx, i) => positions.forEach((cy, j) => {
+      // The three corners with finder patterns get no alignment pattern
+      if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) return
+      for (let dy = -2; dy <= 2; dy++) {
+        for (let dx = -2; dx <= 2; dx++) {
+          this.setFunction(cx + dx, cy + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1)
+        }
+      }
+    }))
+
+    // Reserve the format areas until the mask is chosen
+    this.drawFormatBits(0)
+
+    if (this.version >= 7) {
+      let remainder = this.version
+      for (let i = 0; i < 12; i++) remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25)
+      const bits = (this.version << 12) | remainder
+      for (let i = 0; i < 18; i++) {
+        const a = this.size - 11 + i % 3
+        const b = Math.floor(i / 3)
+        this.setFunction(a, b, getBit(bits, i))
+        this.setFunction(b, a, getBit(bits, i))
+      }
+    }
+  }
+
+  private drawFormatBits(mask: number) {
+    const data = (ECL_FORMAT_BITS[this.ecl] << 3) | mask
+    let remainder = data
+    for (let i = 0; i < 10; i++) remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537)
+    const bits = ((data << 10) | remainder) ^ 0x5412
+
+    for (let i = 0; i <= 5; i++) this.setFunction(8, i, getBit(bits, i))
+    this.setFunction(8, 7, getBit(bits, 6))
+    this.setFunction(8, 8, getBit(bits, 7))
+    this.setFunction(7, 8, getBit(bits, 8))
+    for (let i = 9; i < 15; i++) this.setFunction(14 - i, 8, getBit(bits, i))
+
+    for (let i = 0; i < 8; i++) this.setFunction(this.size - 1 - i, 8, getBit(bits, i))
+    for (let i = 8; i < 15; i++) this.setFunction(8, this.size - 15 + i, getBit(bits, i))
+    // Always-dark module
+    this.setFunction(8, this.size - 8, true)
+  }
+
+  /** Two-module-wide columns, right to left, zig-zagging up and down */
+  private drawCodewords(codewords: number[]) {
+    let i = 0
+    for (let right = this.size - 1; right >= 1; right -= 2) {
+      if (right === 6) right = 5
+      for (let vertical = 0; vertical < this.size; vertical++) {
+        for (let j = 0; j < 2; j++) {
+          const x = right - j
+          const upward = ((right + 1) & 2) === 0
+          const y = upward ? this.size - 1 - vertical : vertical
+          if (!this.isFunction[y][x] && i < codewords.length * 8) {
+            this.modules[y][x] = getBit(codewords[i >>> 3], 7 - (i & 7))
+            i++
+          }
+        }
+      }
+    }
+  }
+
+  private applyMask(mask: number) {
+    for (let y = 0; y < this.size; y++) {
+      for (let x = 0; x < this.size; x++) {
+        if (this.isFunction[y][x]) continue
+        let invert: boolean
+        switch (mask) {
+          case 0: invert = (x + y) % 2 === 0; break
+          case 1: invert = y % 2 === 0; break
+          case 2: invert = x % 3 === 0; break
+          case 3: invert = (x + y) % 3 === 0; break
+          case 4: invert = (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0; break
+          case 5: invert = (x * y) % 2 + (x * y) % 3 === 0; break
+          case 6: invert = ((x * y) % 2 + (x * y) % 3) % 2 === 0; break
+          default: invert = ((x + y) % 2 + (x * y) % 3) % 2 === 0
+        }
+        if (invert) this.modules[y][x] = !this.modules[y][x]
+      }
+    }
+  }
+
+  /** Penalty rules N1-N4: runs, 2x2 blocks, finder look-alikes and dark/light balance */
+  private penalty(): number {
+    const lines: string[] = []
+    for (let i = 0; i < this.size; i++) {
+      lines.push(this.modules[i].map(dark => (dark ? '1' : '0')).join(''))
+      lines.push(this.modules.map(row => (row[i] ? '1' : '0')).join(''))
+    }
+
+    let result = 0
+    for (const line of lines) {
+      for (const run of line.match(/0{5,}|1{5,}/g) || []) result += run.length - 2
+      for (const pattern of [/(?=10111010000)/g, /(?=00001011101)/g]) {
+        result += (line.match(pattern) || []).length * 40
+      }
+    }
+
+    let dark = 0
+    for (let y = 0; y < this.size; y++) {
+      for (let x = 0; x < this.size; x++) {
+        if (this.modules[y][x]) dark++
+        if (x < this.size - 1 && y < this.size - 1) {
+          const colour = this.modules[y][x]
+          if (colour === this.modules[y][x + 1] && colour === this.modules[y + 1][x] && colour === this.modules[y + 1][x + 1]) result += 3
+        }
+      }
+    }
+
+    const total = this.size * this.size
+    result += Math.ceil(Math.abs(dark * 20 - total * 10) / total - 1) * 10
+    return result
+  }
+}
+
+/** Encode text (UTF-8) in the smallest version that fits */
+export function encodeQr(text: string, ecl: QrErrorCorrection = 'M'): QrMatrix {
+  const data = Buffer.from(text, 'utf8')
+  for (let version = 1; version <= 40; version++) {
+    const needed = 4 + (version <= 9 ? 8 : 16) + data.length * 8
+    if (needed <= numDataCodewords(version, ecl) * 8) {
+      const codewords = addErrorCorrection(encodeData(data, version, ecl), version, ecl)
+      return new QrSymbol(version, ecl, codewords).modules
+    }
+  }
+  throw new Error(`Text is too long for a QR code (${data.length} bytes)`)
+}
+
+export function renderQrSvg(matrix: QrMatrix, options: QrRenderOptions = {}): string {
+  const scale = options.scale ?? 8
+  const margin = options.margin ?? 4
+  const size = (matrix.length + margin * 2) * scale
+
+  const path: string[] = []
+  matrix.forEach((row, y) => row.forEach((dark, x) => {
+    if (dark) path.push(`M${(x + margin) * scale} ${(y + margin) * scale}h${scale}v${scale}h-${scale}z`)
+  }))
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${size} ${size}" width="${size}" height="${size}" shape-rendering="crispEdges">` +
+    `<rect width="100%" height="100%" fill="#FFFFFF"/><path fill="#000000" d="${path.join('')}"/></svg>`
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+  return c >>> 0
+})
+
+function crc32(buffer: Buffer): number {
+  let crc = 0xffffffff
+  for (const byte of buffer) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8)
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+function pngChunk(type: string, data: Buffer): Buffer {
+  const length = Buffer.alloc(4)
+  length.writeUInt32BE(data.length)
+  const body = Buffer.concat([Buffer.from(type, 'ascii'), data])
+  const crc = Buffer.alloc(4)
+  crc.writeUInt32BE(crc32(body))
+  return Buffer.concat([length, body, crc])
+}
+
+/** 8-bit greyscale PNG */
+export function renderQrPng(matrix: QrMatrix, options: QrRenderOptions = {}): Buffer {
+  const scale = options.scale ?? 8
+  const margin = options.margin ?? 4
+  const size = (matrix.length + margin * 2) * scale
+
+  const raw = Buffer.alloc((size + 1) * size, 0xff)
+  for (let py = 0; py < size; py++) {
+    // Filter type 0 (none) at the start of each scanline
+    raw[py * (size + 1)] = 0
+    const y = Math.floor(py / scale) - margin
+    for (let px = 0; px < size; px++) {
+      const x = Math.floor(px / scale) - margin
+      if (matrix[y]?.[x]) raw[py * (size + 1) + 1 + px] = 0
+    }
+  }
+
+  const header = Buffer.alloc(13)
+  header.writeUInt32BE(size, 0)
+  header.writeUInt32BE(size, 4)
+  header[8] = 8 // bit depth
+  header[9] = 0 // greyscale
+
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk('IHDR', header),
+    pngChunk('IDAT', deflateSync(raw)),
+    pngChunk('IEND', Buffer.alloc(0))
+  ])
+}
@@ -0,0 +1,474 @@
+/**
+ * Recurring events: RFC 5545 recurrence rules (RRULE) with exception dates.
+ *
+ * Events keep their start time as London wall-clock time, so occurrences are
+ * expanded as calendar dates and a weekly 7pm group stays at 7pm across the
+ * clock changes. Supported: FREQ=DAILY/WEEKLY/MONTHLY/YEARLY with INTERVAL,
+ * COUNT or UNTIL, BYDAY (with ordinals such as 1FR or -1SA), BYMONTHDAY,
+ * BYMONTH and BYSETPOS.
+ *
+ * Each occurrence has its own id, `${seriesId}~YYYY-MM-DD`, used wherever
+ * an event id keys per-event state (RSVPs, capacity, waitlists, tickets).
+ */
+
+export const EVENT_TIMEZONE = 'Europe/London'
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY'
+
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency
+  interval: number
+  count?: number
+  // Last date an occurrence may fall on (YYYY-MM-DD)
+  until?: string
+  // 0 = Monday; an ordinal picks e.g. the first (1) or last (-1) of the month
+  byDay: { weekday: number; ordinal?: number }[]
+  byMonthDay: number[]
+  byMonth: number[]
+  bySetPos: number[]
+}
+
+/** The recurrence fields stored on an events row */
+export interface RecurringEventFields {
+  date: string
+  recurrence_rule?: string | null
+  recurrence_exdates?: string[] | null
+}
+
+export class RecurrenceError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'RecurrenceError'
+  }
+}
+
+const WEEKDAYS = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU']
+const FREQUENCIES: RecurrenceFrequency[] = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY']
+const DAY_MS = 24 * 60 * 60 * 1000
+// Stops a rule that can never match (e.g. 30 February) from looping forever
+const MAX_PERIODS = 5000
+const OCCURRENCE_SEPARATOR = '~'
+
+// --- Calendar dates as UTC-midnight timestamps ---
+
+function parseDate(value: string): number {
+  const match = /^(\d{4})-?(\d{2})-?(\d{2})/.exec(value || '')
+  if (!match) throw new RecurrenceError(`Invalid date: ${value}`)
+  const time = Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3]))
+  if (new Date(time).getUTCDate() !== Number(match[3])) throw new RecurrenceError(`Invalid date: ${value}`)
+  return time
+}
+
+function formatDate(time: number): string {
+  return new Date(time).toISOString().slice(0, 10)
+}
+
+function weekday(time: number): number {
+  return (new Date(time).getUTCDay() + 6) % 7
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate()
+}
+
+// --- Parsing ---
+
+function parseIntList(key: string, value: string, min: number, max: number, allowNegative = false): number[] {
+  return value.split(',').map(part => {
+    const n = Number(part)
+    if (!Number.isInteger(n) || n === 0 || Math.abs(n) < min || Math.abs(n) > max || (n < 0 && !allowNegative)) {
+      throw new RecurrenceError(`Invalid ${key} value: ${part}`)
+    }
+    return n
+  })
+}
+
+export function parseRRule(value: string): RecurrenceRule {
+  const rule: Partial<RecurrenceRule> & { byDay: RecurrenceRule['byDay'] } = { interval: 1, byDay: [], byMonthDay: [], byMonth: [], bySetPos: [] }
+
+  for (const part of (value || '').trim().replace(/^RRULE:/i, '').split(';').filter(Boolean)) {
+    const [key, raw = ''] = part.split('=')
+    const val = raw.toUpperCase()
+    switch (key.toUpperCase()) {
+      case 'FREQ':
+        if (!FREQUENCIES.includes(val as RecurrenceFrequency)) throw new RecurrenceError(`Unsupported FREQ: ${raw}`)
+        rule.freq = val as RecurrenceFrequency
+        break
+      case 'INTERVAL':
+        rule.interval = parseIntList(key, val, 1, 1000)[0]
+        break
+      case 'COUNT':
+        rule.count = parseIntList(key, val, 1, 1000)[0]
+        break
+      case 'UNTIL':
+        rule.until = formatDate(parseDate(val))
+        break
+      case 'BYDAY':
+        rule.byDay = val.split(',').map(day => {
+          const match = /^([+-]?\d{1,2})?(MO|TU|WE|TH|FR|SA|SU)$/.exec(day)
+          if (!match) throw new RecurrenceError(`Invalid BYDAY value: ${day}`)
+          const ordinal = match[1] ? Number(match[1]) : undefined
+          if (ordinal !== undefined && (ordinal === 0 || Math.abs(ordinal) > 5)) throw new RecurrenceError(`Invalid BYDAY value: ${day}`)
+          return { weekday: WEEKDAYS.indexOf(match[2]), ordinal }
+        })
+        break
+      case 'BYMONTHDAY':
+        rule.byMonthDay = parseIntList(key, val, 1, 31, true)
+        break
+      case 'BYMONTH':
+        rule.byMonth = parseIntList(key, val, 1, 12)
+        break
+      case 'BYSETPOS':
+        rule.bySetPos = parseIntList(key, val, 1, 366, true)
+        break
+      case 'WKST':
+        // Weeks are counted Monday to Sunday
+        if (val !== 'MO') throw new RecurrenceError('Only WKST=MO is supported')
+        break
+      default:
+        throw new RecurrenceError(`Unsupported recurrence part: ${key}`)
+    }
+  }
+
+  if (!rule.freq) throw new RecurrenceError('FREQ is required')
+  if (rule.count && rule.until) throw new RecurrenceError('COUNT and UNTIL cannot both be set')
+  if (rule.byDay.some(day => day.ordinal !== undefined) && rule.freq !== 'MONTHLY' && rule.freq !== 'YEARLY') {
+    throw new RecurrenceError('Numbered BYDAY values need FREQ=MONTHLY or YEARLY')
+  }
+  if (rule.freq === 'YEARLY' && rule.byDay.length && !rule.byMonth.length) {
+    throw new RecurrenceError('BYDAY with FREQ=YEARLY needs BYMONTH')
+  }
+  if (rule.freq === 'WEEKLY' && rule.byMonthDay.length) {
+    throw new RecurrenceError('BYMONTHDAY cannot be used with FREQ=WEEKLY')
+  }
+
+  return rule as RecurrenceRule
+}
+
+/** Canonical RRULE text (without the "RRULE:" prefix); `until` overrides the UNTIL value */
+export function formatRRule(rule: RecurrenceRule, until: string | undefined = rule.until?.replace(/-/g, '')): string {
+  const parts = [`FREQ=${rule.freq}`]
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`)
+  if (rule.count) parts.push(`COUNT=${rule.count}`)
+  if (until) parts.push(`UNTIL=${until}`)
+  if (rule.byMonth.length) parts.push(`BYMONTH=${rule.byMonth.join(',')}`)
+  if (rule.byMonthDay.length) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`)
+  if (rule.byDay.length) parts.push(`BYDAY=${rule.byDay.map(day => `${day.ordinal ?? ''}${WEEKDAYS[day.weekday]}`).join(',')}`)
+  if (rule.bySetPos.length) parts.push(`BYSETPOS=${rule.bySetPos.join(',')}`)
+  return parts.join(';')
+}
+
+// --- Expansion ---
+
+/** Dates in one month matching the rule's BYMONTHDAY / BYDAY, or `fallbackDay` when it has neither */
+function monthCandidates(rule: RecurrenceRule, year: number, month: number, fallbackDay: number): number[] {
+  const length = daysInMonth(year, month)
+  const dayOf = (day: number) => Date.UTC(year, month, day)
+
+  let days: number[] | null = null
+  if (rule.byMonthDay.length) {
+    days = rule.byMonthDay.map(d => (d > 0 ? d : length + d + 1)).filter(d => d >= 1 && d <= length)
+  }
+  if (rule.byDay.length) {
+    const matching = new Set<number>()
+    for (const { weekday: wd, ordinal } of rule.byDay) {
+      const all: number[] = []
+      for (let d = 1; d <= length; d++) if (weekday(dayOf(d)) === wd) all.push(d)
+      if (ordinal === undefined) all.forEach(d => matching.add(d))
+      else {
+        const pick = ordinal > 0 ? all[ordinal - 1] : all[all.length + ordinal]
+        if (pick) matching.add(pick)
+      }
+    }
+    days = days ? days.filter(d => matching.has(d)) : [...matching]
+  }
+  if (!days) days = fallbackDay <= length ? [fallbackDay] : []
+
+  return [...new Set(days)].sort((a, b) => a - b).map(dayOf)
+}
+
+function periodCandidates(rule: RecurrenceRule, start: number, period: number): number[] {
+  const startDate = new Date(start)
+  let candidates: number[]
+
+  switch (rule.freq) {
+    case 'DAILY': {
+      const day = start + period * rule.interval * DAY_MS
+      const date = new Date(day)
+      const matches = (!rule.byDay.length || rule.byDay.some(d => d.weekday === weekday(day))) &&
+        (!rule.byMonthDay.length || rule.byMonthDay.some(d => (d > 0 ? d : daysInMonth(date.getUTCFullYear(), date.getUTCMonth()) + d + 1) === date.getUTCDate()))
+      candidates = matches ? [day] : []
+      break
+    }
+    case 'WEEKLY': {
+      const weekStart = start - weekday(start) * DAY_MS + period * rule.interval * 7 * DAY_MS
+      const days = rule.byDay.length ? [...new Set(rule.byDay.map(d => d.weekday))].sort() : [weekday(start)]
+      candidates = days.map(d => weekStart + d * DAY_MS)
+      break
+    }
+    case 'MONTHLY': {
+      const months = startDate.getUTCFullYear() * 12 + startDate.getUTCMonth() + period * rule.interval
+      candidates = monthCandidates(rule, Math.floor(months / 12), months % 12, startDate.getUTCDate())
+      break
+    }
+    case 'YEARLY': {
+      const year = startDate.getUTCFullYear() + period * rule.interval
+      const months = rule.byMonth.length ? [...rule.byMonth].sort((a, b) => a - b).map(m => m - 1) : [startDate.getUTCMonth()]
+      candidates = months.flatMap(month => monthCandidates(rule, year, month, startDate.getUTCDate()))
+      break
+    }
+  }
+
+  if (rule.byMonth.length) {
+    candidates = candidates.filter(day => rule.byMonth.includes(new Date(day).getUTCMonth() + 1))
+  }
+  if (rule.bySetPos.length) {
+    candidates = rule.bySetPos
+      .map(pos => (pos > 0 ? candidates[pos - 1] : candidates[candidates.length + pos]))
+      .filter((day): day is number => day !== undefined)
+      .sort((a, b) => a - b)
+  }
+  return candidates
+}
+
+/**
+ * Occurrence dates (YYYY-MM-DD) of a series starting on `start`, between
+ * `from` and `to` inclusive. The start date is always the first occurrence;
+ * COUNT includes dates later removed by `exdates`, as RFC 5545 specifies.
+ */
+export function expandOccurrences(
+  start: string,
+  rule: RecurrenceRule,
+  options: { from?: string; to?: string; exdates?: string[]; limit?: number } = {}
+): string[] {
+  const first = parseDate(start)
+  const from = options.from ? parseDate(options.from) : first
+  const until = rule.until ? parseDate(rule.until) : Infinity
+  const to = Math.min(options.to ? parseDate(options.to) : Infinity, until)
+  const excluded = new Set((options.exdates || []).map(d => formatDate(parseDate(d))))
+  const limit = options.limit ?? Infinity
+
+  if (to === Infinity && !rule.count && limit === Infinity) {
+    throw new RecurrenceError('An open-ended series needs a `to` date or a limit')
+  }
+
+  const result: string[] = []
+  let generated = 0
+  const emit = (day: number): boolean => {
+    generated++
+    if (day >= from && !excluded.has(formatDate(day))) result.push(formatDate(day))
+    return (rule.count !== undefined && generated >= rule.count) || result.length >= limit
+  }
+
+  if (first > to || emit(first)) return result
+
+  for (let period = 0; period < MAX_PERIODS; period++) {
+    for (const day of periodCandidates(rule, first, period)) {
+      if (day <= first) continue
+      if (day > to) return result
+      if (emit(day)) return result
+    }
+  }
+  return result
+}
+
+/** Last date of a finite series, or null when it repeats indefinitely */
+export function lastOccurrence(start: string, rule: RecurrenceRule, exdates: string[] = []): string | null {
+  if (!rule.count && !rule.until) return null
+  const dates = expandOccurrences(start, rule, { exdates })
+  return dates[dates.length - 1] || null
+}
+
+// --- Occurrence ids ---
+
+export function occurrenceId(seriesId: string, date: string): string {
+  return `${seriesId}${OCCURRENCE_SEPARATOR}${date}`
+}
+
+/** The series an id belongs to, and the occurrence date when it names one */
+export function parseOccurrenceId(id: string): { eventId: string; date?: string } {
+  const match = /^(.+)~(\d{4}-\d{2}-\d{2})$/.exec(id || '')
+  return match ? { eventId: match[1], date: match[2] } : { eventId: id }
+}
+
+/** Frontend path for an event or one occurrence of a series */
+export function eventPath(id: string, query: Record<string, string> = {}): string {
+  const { eventId, date } = parseOccurrenceId(id)
+  const params = new URLSearchParams(date ? { date, ...query } : query).toString()
+  return `/events/${eventId}${params ? `?${params}` : ''}`
+}
+
+/** Whether `date` is an occurrence of a recurring events row */
+export function isOccurrence(event: RecurringEventFields, date: string): boolean {
+  if (!event.recurrence_rule) return event.date?.slice(0, 10) === date
+  try {
+    return expandOccurrences(event.date, parseRRule(event.recurrence_rule), { from: date, to: date, exdates: event.recurrence_exdates || [] }).length === 1
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Expand events rows into one row per occurrence between `from` and `to`,
+ * sorted by date. Occurrence rows keep the series `id`, take the occurrence's
+ * `date` (shifting `end_date` with it) and gain `occurrence_id`. One-off
+ * events pass through with `occurrence_id` equal to their id.
+ */
+export function expandEventRows<T extends RecurringEventFields & { id: string; end_date?: string | null }>(
+  rows: T[],
+  options: { from: string; to: string; perSeries?: number }
+): (T & { occurrence_id: string })[] {
+  const expanded: (T & { occurrence_id: string })[] = []
+
+  for (const row of rows) {
+    const start = row.date?.slice(0, 10)
+    if (!row.recurrence_rule) {
+      if (start && start >= options.from && start <= options.to) expanded.push({ ...row, occurrence_id: row.id })
+      continue
+    }
+
+    let dates: string[]
+    try {
+      dates = expandOccurrences(start, parseRRule(row.recurrence_rule), {
+        from: options.from,
+        to: options.to,
+        exdates: row.recurrence_exdates || [],
+        limit: options.perSeries
+      })
+    } catch (error) {
+      console.warn(`[Recurrence] Skipping event ${row.id} with an unreadable rule:`, (error as Error).message)
+      continue
+    }
+
+    const lengthMs = row.end_date ? parseDate(row.end_date) - parseDate(start) : 0
+    for (const date of dates) {
+      expanded.push({
+        ...row,
+        date: date + row.date.slice(10),
+        end_date: row.end_date ? formatDate(parseDate(date) + lengthMs) + row.end_date.slice(10) : row.end_date,
+        occurrence_id: occurrenceId(row.id, date)
+      })
+    }
+  }
+
+  return expanded.sort((a, b) => a.date.localeCompare(b.date))
+}
+
+/**
+ * PostgREST filter (for `or=(...)`) matching events with an occurrence on or
+ * after `date`: one-offs from that date, and series that haven't ended.
+ */
+export function upcomingEventsFilter(date: string): string {
+  return `date.gte.${date},and(recurrence_rule.not.is.null,recurrence_until.is.null),recurrence_until.gte.${date}`
+}
+
+// --- Time zones ---
+
+/** UTC instant for a wall-clock date ("YYYY-MM-DD") and time ("HH:MM") in `timeZone` */
+export function zonedTimeToUtc(date: string, time: string, timeZone: string = EVENT_TIMEZONE): Date | null {
+  const dateMatch = /^(\d{4})-(\d{2})-(\d{2})/.exec(date || '')
+  const timeMatch = /^(\d{1,2}):(\d{2})/.exec(time || '')
+  if (!dateMatch || !timeMatch) return null
+
+  const wallClock = Date.UTC(Number(dateMatch[1]), Number(dateMatch[2]) - 1, Number(dateMatch[3]), Number(timeMatch[1]), Number(timeMatch[2]))
+  const parts = Object.fromEntries(new Intl.DateTimeFormat('en-GB', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23'
+  }).formatToParts(new Date(wallClock)).map(p => [p.type, p.value]))
+  const zoned = Date.UTC(Number(parts.year), Number(parts.month) - 1, Number(parts.day), Number(parts.hour), Number(parts.minute))
+
+  return new Date(wallClock - (zoned - wallClock))
+}
+
+// --- iCalendar output ---
+
+/** Europe/London definition for feeds whose events use TZID=Europe/London */
+export const LONDON_VTIMEZONE = [
+  'BEGIN:VTIMEZONE',
+  `TZID:${EVENT_TIMEZONE}`,
+  `X-LIC-LOCATION:${EVENT_TIMEZONE}`,
+  'BEGIN:DAYLIGHT',
+  'TZOFFSETFROM:+0000',
+  'TZOFFSETTO:+0100',
+  'TZNAME:BST',
+  'DTSTART:19700329T010000',
+  'RRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=-1SU',
+  'END:DAYLIGHT',
+  'BEGIN:STANDARD',
+  'TZOFFSETFROM:+0100',
+  'TZOFFSETTO:+0000',
+  'TZNAME:GMT',
+  'DTSTART:19701025T020000',
+  'RRULE:FREQ=YEARLY;BYMONTH=10;BYDAY=-1SU',
+  'END:STANDARD',
+  'END:VTIMEZONE'
+]
+
+function icsLocal(date: string, time: string): string {
+  return `${date.slice(0, 10).replace(/-/g, '')}T${time.slice(0, 5).replace(':', '')}00`
+}
+
+function icsUtc(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').split('.')[0] + 'Z'
+}
+
+/**
+ * DTSTART/DTEND plus RRULE and EXDATE lines for an event. Timed events use
+ * London local time (TZID), all-day ones VALUE=DATE; UNTIL follows RFC 5545
+ * and is a UTC time when DTSTART has a TZID. Older rows that store a full
+ * timestamp in `date` and no start time keep their UTC times.
+ */
+export function icsTimingLines(event: RecurringEventFields & { start_time?: string | null; end_time?: string | null; end_date?: string | null }): string[] {
+  const date = event.date.slice(0, 10)
+  const lines: string[] = []
+  const startTime = event.start_time?.slice(0, 5)
+
+  if (!startTime && event.date.length > 10) {
+    const start = new Date(event.date)
+    const time = start.toISOString().slice(10)
+    lines.push(`DTSTART:${icsUtc(start)}`)
+    lines.push(`DTEND:${icsUtc(new Date(start.getTime() + 3 * 60 * 60 * 1000))}`)
+    if (event.recurrence_rule) {
+      const rule = parseRRule(event.recurrence_rule)
+      lines.push(`RRULE:${formatRRule(rule, rule.until && icsUtc(new Date(rule.until + time)))}`)
+      const exdates = (event.recurrence_exdates || []).map(d => icsUtc(new Date(d.slice(0, 10) + time)))
+      if (exdates.length) lines.push(`EXDATE:${exdates.join(',')}`)
+    }
+    return lines
+  }
+
+  if (startTime) {
+    const endTime = event.end_time?.slice(0, 5)
+    lines.push(`DTSTART;TZID=${EVENT_TIMEZONE}:${icsLocal(date, startTime)}`)
+    // Without an end time, three hours, as calendar downloads have always assumed
+    lines.push(endTime
+      ? `DTEND;TZID=${EVENT_TIMEZONE}:${icsLocal(event.end_date?.slice(0, 10) || date, endTime)}`
+      : 'DURATION:PT3H')
+  } else {
+    const endDate = event.end_date?.slice(0, 10) || date
+    lines.push(`DTSTART;VALUE=DATE:${date.replace(/-/g, '')}`)
+    lines.push(`DTEND;VALUE=DATE:${formatDate(parseDate(endDate) + DAY_MS).replace(/-/g, '')}`)
+  }
+
+  if (event.recurrence_rule) {
+    const rule = parseRRule(event.recurrence_rule)
+    const until = rule.until && startTime
+      ? icsUtc(zonedTimeToUtc(rule.until, startTime)!)
+      : rule.until?.replace(/-/g, '')
+    lines.push(`RRULE:${formatRRule(rule, until)}`)
+
+    const exdates = (event.recurrence_exdates || []).map(d => d.slice(0, 10))
+    if (exdates.length) {
+      lines.push(startTime
+        ? `EXDATE;TZID=${EVENT_TIMEZONE}:${exdates.map(d => icsLocal(d, startTime)).join(',')}`
+        : `EXDATE;VALUE=DATE:${exdates.map(d => d.replace(/-/g, '')).join(',')}`)
+    }
+  }
+
+  return lines
+}
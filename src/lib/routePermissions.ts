@@ -0,0 +1,168 @@
+/**
+ * Route Permission Map
+ * Which roles may call each privileged endpoint. Applied app-wide in server.ts
+ * before the routers are mounted; endpoints not listed here stay public.
+ *
+ * Paths are full Express paths. The first matching entry wins, so list
+ * specific paths before broader ones.
+ */
+
+import { RoutePermission } from './auth.js'
+
+export const ROUTE_PERMISSIONS: RoutePermission[] = [
+  // Admin: knowledge base resources & trust scoring
+  { method: 'POST', path: '/api/admin/resources', roles: ['admin'] },
+  { method: 'PUT', path: '/api/admin/resources/:id', roles: ['admin'] },
+  { method: 'DELETE', path: '/api/admin/resources/:id', roles: ['admin'] },
+  { method: 'POST', path: '/api/admin/scrape-website', roles: ['admin'] },
+  { method: 'POST', path: '/api/admin/trust/recalculate', roles: ['admin'] },
+
+  // Notifications
+  { method: 'POST', path: '/api/notifications/send', roles: ['admin'] },
+  { method: 'GET', path: '/api/notifications/channels', roles: ['member'] },
+  { method: 'PUT', path: '/api/notifications/channels', roles: ['member'] },
+  { method: 'POST', path: '/api/notifications/event-reminder', roles: ['organizer', 'moderator'] },
+  { method: 'GET', path: '/api/notifications/stats', roles: ['admin'] },
+  { method: 'GET', path: '/api/notifications/log/:notificationId', roles: ['admin'] },
+  { method: 'GET', path: '/api/notifications/queue', roles: ['admin'] },
+  { method: 'GET', path: '/api/notifications/queue/:itemId', roles: ['admin'] },
+  { method: 'DELETE', path: '/api/notifications/queue/:itemId', roles: ['admin'] },
+
+  // RSVP lists, capacity and door check-in devices (the handlers check the event's own team)
+  { method: 'GET', path: '/api/rsvp/:eventId/rsvps', roles: [] },
+  { method: 'PUT', path: '/api/rsvp/:eventId/capacity', roles: [] },
+  { method: 'POST', path: '/api/rsvp/:eventId/check-in', roles: [] },
+  { method: 'POST', path: '/api/rsvp/:eventId/check-in/sync', roles: [] },
+  { method: 'GET', path: '/api/rsvp/:eventId/check-in/roster', roles: [] },
+
+  // Waitlist offers are answered, and places looked up, by the person waiting
+  { method: 'GET', path: '/api/rsvp/:eventId/waitlist/:userId', roles: [], self: 'userId' },
+  { method: 'POST', path: '/api/rsvp/:eventId/waitlist/accept', roles: [] },
+  { method: 'POST', path: '/api/rsvp/:eventId/waitlist/decline', roles: [] },
+
+  // Community groups: signed-in users; group roles (owner/admin) are checked by GroupService
+  { method: 'POST', path: '/api/groups', roles: [] },
+  { method: 'POST', path: '/api/groups/invites/:code/accept', roles: [] },
+  { method: 'PUT', path: '/api/groups/:groupId', roles: [] },
+  { method: 'GET', path: '/api/groups/:groupId/audit', roles: [] },
+  { method: 'POST', path: '/api/groups/:groupId/join', roles: [] },
+  { method: 'DELETE', path: '/api/groups/:groupId/leave', roles: [] },
+  { method: 'POST', path: '/api/groups/:groupId/requests/:userId/:decision', roles: [] },
+  { method: '*', path: '/api/groups/:groupId/members/:userId', roles: [] },
+  { method: '*', path: '/api/groups/:groupId/bans/:userId', roles: [] },
+  { method: '*', path: '/api/groups/:groupId/invites', roles: [] },
+  { method: 'DELETE', path: '/api/groups/:groupId/invites/:inviteId', roles: [] },
+  { method: 'POST', path: '/api/groups/:groupId/posts', roles: [] },
+  { method: 'GET', path: '/api/groups/:groupId/posts/pending', roles: [] },
+  { method: 'PATCH', path: '/api/groups/:groupId/posts/:postId', roles: [] },
+  { method: 'DELETE', path: '/api/groups/:groupId/posts/:postId', roles: [] },
+  { method: 'POST', path: '/api/groups/:groupId/posts/:postId/replies', roles: [] },
+  { method: '*', path: '/api/groups/:groupId/posts/:postId/pin', roles: [] },
+  { method: 'POST', path: '/api/groups/:groupId/posts/:postId/review', roles: [] },
+  { method: '*', path: '/api/groups/:groupId/posts/:postId/reactions/:reaction', roles: [] },
+  { method: 'POST', path: '/api/groups/:groupId/posts/:postId/report', roles: [] },
+
+  // Event edits (the handler admits the event's owner and co-hosts, or moderators)
+  { method: 'PATCH', path: '/api/events/:id', roles: [] },
+
+  // Events & news moderation queues
+  { method: 'GET', path: '/api/events/pending', roles: ['moderator'] },
+  { method: 'POST', path: '/api/events/:id/approve', roles: ['moderator'] },
+  { method: 'POST', path: '/api/events/:id/reject', roles: ['moderator'] },
+  { method: 'GET', path: '/api/news/pending', roles: ['moderator'] },
+  { method: 'POST', path: '/api/news/:id/moderate', roles: ['moderator'] },
+
+  // Event moderation
+  { method: 'POST', path: '/api/event-moderation/action', roles: ['moderator'] },
+  { method: 'GET', path: '/api/event-moderation/reports', roles: ['moderator'] },
+  { method: 'PUT', path: '/api/event-moderation/reports/:reportId', roles: ['moderator'] },
+  { method: 'GET', path: '/api/event-moderation/flagged', roles: ['moderator'] },
+  { method: 'GET', path: '/api/event-moderation/dashboard', roles: ['moderator'] },
+  { method: 'GET', path: '/api/groups/discussions/reports', roles: ['moderator'] },
+  { method: 'PUT', path: '/api/groups/discussions/reports/:reportId', roles: ['moderator'] },
+
+  // Organizers: a user may manage their own profile and request their own verification
+  { method: 'PUT', path: '/api/organizer/profile/:userId', roles: ['admin'], self: 'userId' },
+  { method: 'POST', path: '/api/organizer/verify/:userId', roles: ['admin'], self: 'userId' },
+  { method: 'GET', path: '/api/organizer/verify/:userId', roles: ['moderator'], self: 'userId' },
+  { method: 'DELETE', path: '/api/organizer/verify/:userId', roles: ['moderator'] },
+  { method: 'GET', path: '/api/organizer/verifications', roles: ['moderator'] },
+  { method: 'POST', path: '/api/organizer/verifications/:requestId/review', roles: ['moderator'] },
+  // Event teams: the service checks who owns or helps run the event
+  { method: 'GET', path: '/api/organizer/collaborators/:eventId', roles: [] },
+  { method: 'POST', path: '/api/organizer/collaborators/:eventId', roles: [] },
+  { method: 'PUT', path: '/api/organizer/collaborators/:eventId/:collaboratorId', roles: [] },
+  { method: 'DELETE', path: '/api/organizer/collaborators/:eventId/:collaboratorId', roles: [] },
+  { method: 'GET', path: '/api/organizer/invitations', roles: [] },
+  { method: 'POST', path: '/api/organizer/invitations/:collaboratorId/:decision', roles: [] },
+  { method: 'GET', path: '/api/organizer/analytics/event/:eventId', roles: [] },
+  { method: 'GET', path: '/api/organizer/analytics/:userId', roles: ['moderator'], self: 'userId' },
+  { method: 'GET', path: '/api/organizer/dashboard/:userId', roles: ['moderator'], self: 'userId' },
+  { method: 'GET', path: '/api/organizer/events/:userId', roles: ['moderator'], self: 'userId' },
+  { method: 'GET', path: '/api/analytics/event/:eventId', roles: [] },
+
+  // Personal wellness history
+  { method: 'GET', path: '/api/wellness/progress/:userId', roles: ['admin'], self: 'userId' },
+
+  // Journals are private: signed-in writers, and only the owner reads them back
+  { method: 'POST', path: '/api/journal/entries', roles: [] },
+  { method: 'GET', path: '/api/journal/entries/:userId', roles: [], self: 'userId' },
+  { method: 'GET', path: '/api/journal/trends/:userId', roles: [], self: 'userId' },
+  { method: 'GET', path: '/api/journal/prompts/personalized/:userId', roles: [], self: 'userId' },
+
+  // Crisis support stays open to everyone; a saved safety plan is only readable by its owner
+  { method: 'GET', path: '/api/crisis/safety-plan/:userId', roles: [], self: 'userId' },
+
+  // Journey history: only the person it describes can see, shorten or delete it
+  { method: 'GET', path: '/api/journey/history/:userId', roles: [], self: 'userId' },
+  { method: 'PUT', path: '/api/journey/history/:userId/retention', roles: [], self: 'userId' },
+  { method: 'DELETE', path: '/api/journey/history/:userId', roles: [], self: 'userId' },
+
+  // Learning progress and personal analytics
+  { method: 'GET', path: '/api/learning/progress/:userId', roles: ['admin'], self: 'userId' },
+  { method: 'GET', path: '/api/learning/progress/:userId/:moduleId', roles: ['admin'], self: 'userId' },
+  { method: 'GET', path: '/api/analytics/user/:userId', roles: ['admin'], self: 'userId' },
+
+  // Achievements and activity history are personal
+  { method: 'GET', path: '/api/achievements/:userId', roles: ['admin'], self: 'userId' },
+  { method: 'GET', path: '/api/user/:userId/progress', roles: ['admin'], self: 'userId' },
+
+  // Problem-solving framework sessions: signed-in users, own history only
+  { method: 'POST', path: '/api/frameworks/:frameworkId/sessions', roles: [] },
+  { method: 'POST', path: '/api/frameworks/:frameworkId/progress', roles: [] },
+  { method: 'GET', path: '/api/frameworks/sessions/user/:userId', roles: ['admin'], self: 'userId' },
+  { method: 'GET', path: '/api/frameworks/sessions/:sessionId', roles: [] },
+  { method: 'POST', path: '/api/frameworks/sessions/:sessionId/steps/:stepId', roles: [] },
+  { method: 'GET', path: '/api/frameworks/sessions/:sessionId/export', roles: [] },
+
+  // Knowledge index maintenance
+  { method: 'POST', path: '/api/knowledge/reindex', roles: ['admin'] },
+
+  // LLM council
+  { method: 'POST', path: '/api/council/convene', roles: ['admin'] },
+  { method: 'POST', path: '/api/council/sessions/:id/review', roles: ['admin'] },
+
+  // Dashboard, analytics & social automation
+  { method: 'GET', path: '/api/dashboard/moderation-queue', roles: ['moderator'] },
+  { method: 'POST', path: '/api/dashboard/weekly-review', roles: ['admin'] },
+  { method: 'POST', path: '/api/analytics/reports', roles: ['admin'] },
+  { method: 'DELETE', path: '/api/analytics/reports/:reportId', roles: ['admin'] },
+  { method: 'GET', path: '/api/analytics/export', roles: ['admin'] },
+  { method: 'POST', path: '/api/social/workflow/trigger', roles: ['admin'] },
+  { method: 'POST', path: '/api/social/emergency/post', roles: ['admin'] },
+
+  // Social content calendar: moderators draft, admins approve and publish
+  { method: 'GET', path: '/api/social/dashboard/status', roles: ['moderator'] },
+  { method: 'GET', path: '/api/social/dashboard/calendar', roles: ['moderator'] },
+  { method: 'GET', path: '/api/social/posts', roles: ['moderator'] },
+  { method: 'POST', path: '/api/social/posts', roles: ['moderator'] },
+  { method: 'GET', path: '/api/social/posts/:postId', roles: ['moderator'] },
+  { method: 'PATCH', path: '/api/social/posts/:postId', roles: ['moderator'] },
+  { method: 'POST', path: '/api/social/posts/:postId/cancel', roles: ['moderator'] },
+  { method: 'POST', path: '/api/social/posts/:postId/approve', roles: ['admin'] },
+  { method: 'POST', path: '/api/social/posts/:postId/schedule', roles: ['admin'] },
+  { method: 'POST', path: '/api/social/posts/:postId/retry', roles: ['admin'] },
+  { method: 'POST', path: '/api/social/publish/run', roles: ['admin'] }
+]
+
+export default ROUTE_PERMISSIONS
@@ -0,0 +1,234 @@
+/**
+ * Minimal SMTP client for transactional email: EHLO, STARTTLS, AUTH
+ * PLAIN/LOGIN, one message per connection. The message itself is built by
+ * the caller (see buildMimeMessage). Credentials are only ever sent over an
+ * encrypted connection.
+ */
+
+import net from 'net'
+import tls from 'tls'
+import { randomUUID } from 'crypto'
+
+const SMTP_TIMEOUT_MS = 30_000
+
+export interface SmtpConfig {
+  host: string
+  port: number
+  // Implicit TLS (port 465); otherwise STARTTLS is used when offered
+  secure: boolean
+  // Extra certificate authority to trust, for a relay with a private certificate
+  ca?: string
+  user?: string
+  pass?: string
+  // Name sent with EHLO
+  clientName?: string
+}
+
+export interface MimeMessage {
+  from: string
+  to: string
+  subject: string
+  html: string
+  text: string
+  headers?: Record<string, string>
+}
+
+interface SmtpReply {
+  code: number
+  message: string
+}
+
+class SmtpConnection {
+  private buffer = ''
+  private lines: string[] = []
+  private replies: SmtpReply[] = []
+  private waiting: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null = null
+  private error: Error | null = null
+
+  constructor(public socket: net.Socket) {
+    this.attach(socket)
+  }
+
+  attach(socket: net.Socket) {
+    this.socket = socket
+    socket.setEncoding('utf8')
+    socket.setTimeout(SMTP_TIMEOUT_MS)
+    socket.on('data', (chunk: string) => this.onData(chunk))
+    socket.on('error', error => this.fail(error))
+    socket.on('timeout', () => {
+      this.fail(new Error('SMTP connection timed out'))
+      socket.destroy()
+    })
+    socket.on('close', () => this.fail(new Error('SMTP connection closed')))
+  }
+
+  /** Hand the socket over to TLS after STARTTLS */
+  async upgrade(servername: string, ca?: string) {
+    const plain = this.socket
+    plain.removeAllListeners('data')
+    plain.removeAllListeners('timeout')
+    plain.removeAllListeners('close')
+
+    const secure = tls.connect({ socket: plain, servername, ca })
+    await new Promise<void>((resolve, reject) => {
+      secure.once('secureConnect', resolve)
+      secure.once('error', reject)
+    })
+    this.attach(secure)
+  }
+
+  read(): Promise<SmtpReply> {
+    const reply = this.replies.shift()
+    if (reply) return Promise.resolve(reply)
+    if (this.error) return Promise.reject(this.error)
+    return new Promise((resolve, reject) => {
+      this.waiting = { resolve, reject }
+    })
+  }
+
+  async command(line: string, expected: number[], redacted?: string): Promise<SmtpReply> {
+    this.socket.write(`${line}\r\n`)
+    const reply = await this.read()
+    if (!expected.includes(reply.code)) {
+      throw new Error(`SMTP ${redacted || line.split(' ')[0]} failed: ${reply.code} ${reply.message}`)
+    }
+    return reply
+  }
+
+  private onData(chunk: string) {
+    this.buffer += chunk
+    let end: number
+    while ((end = this.buffer.indexOf('\r\n')) !== -1) {
+      const line = this.buffer.slice(0, end)
+      this.buffer = this.buffer.slice(end + 2)
+      this.lines.push(line.slice(4))
+      // "250-..." continues a multi-line reply, "250 ..." ends it
+      if (line[3] === '-') continue
+
+      const reply = { code: Number(line.slice(0, 3)), message: this.lines.join('\n') }
+      this.lines = []
+      if (this.waiting) {
+        const { resolve } = this.waiting
+        this.waiting = null
+        resolve(reply)
+      } else {
+        this.replies.push(reply)
+      }
+    }
+  }
+
+  private fail(error: Error) {
+    if (this.error) return
+    this.error = error
+    if (this.waiting) {
+      const { reject } = this.waiting
+      this.waiting = null
+      reject(error)
+    }
+  }
+}
+
+function connect(config: SmtpConfig): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const socket = config.secure
+      ? tls.connect({ host: config.host, port: config.port, servername: config.host, ca: config.ca }, () => resolve(socket))
+      : net.connect({ host: config.host, port: config.port }, () => resolve(socket))
+    socket.once('error', reject)
+  })
+}
+
+function encodeHeader(value: string): string {
+  // RFC 2047 encoded-word for anything outside printable ASCII
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value).toString('base64')}?=`
+}
+
+function base64Lines(value: string): string {
+  return Buffer.from(value).toString('base64').replace(/.{76}/g, '$&\r\n')
+}
+
+function addressOf(mailbox: string): string {
+  const match = /<([^>]+)>/.exec(mailbox)
+  return (match ? match[1] : mailbox).trim()
+}
+
+/** A multipart/alternative message with base64 bodies, so no line needs dot-stuffing or wrapping */
+export function buildMimeMessage(message: MimeMessage, date: Date = new Date()): string {
+  const boundary = `blkout-${randomUUID()}`
+  const domain = addressOf(message.from).split('@')[1] || 'localhost'
+  const headers: Record<string, string> = {
+    From: message.from,
+    To: message.to,
+    Subject: encodeHeader(message.subject),
+    Date: date.toUTCString(),
+    'Message-ID': `<${randomUUID()}@${domain}>`,
+    'MIME-Version': '1.0',
+    ...message.headers,
+    'Content-Type': `multipart/alternative; boundary="${boundary}"`
+  }
+
+  return [
+    ...Object.entries(headers).map(([name, value]) => `${name}: ${value}`),
+    '',
+    `--${boundary}`,
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    base64Lines(message.text),
+    `--${boundary}`,
+    'Content-Type: text/html; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    base64Lines(message.html),
+    `--${boundary}--`,
+    ''
+  ].join('\r\n')
+}
+
+/** Deliver one message; resolves with the server's reply to DATA (usually the queue id) */
+export async function sendSmtpMail(config: SmtpConfig, from: string, to: string, data: string): Promise<string> {
+  const connection = new SmtpConnection(await connect(config))
+  const clientName = config.clientName || 'localhost'
+
+  try {
+    const greeting = await connection.read()
+    if (greeting.code !== 220) {
+      throw new Error(`SMTP server refused connection: ${greeting.code} ${greeting.message}`)
+    }
+
+    let ehlo = await connection.command(`EHLO ${clientName}`, [250])
+    let encrypted = config.secure
+    if (!encrypted && /^STARTTLS$/im.test(ehlo.message)) {
+      await connection.command('STARTTLS', [220])
+      await connection.upgrade(config.host, config.ca)
+      encrypted = true
+      ehlo = await connection.command(`EHLO ${clientName}`, [250])
+    }
+
+    if (config.user && config.pass) {
+      if (!encrypted) {
+        throw new Error('SMTP server does not offer STARTTLS; refusing to send credentials unencrypted')
+      }
+      const mechanisms = /^AUTH[ =](.*)$/im.exec(ehlo.message)?.[1].toUpperCase().split(/\s+/) || []
+      if (mechanisms.includes('PLAIN') || !mechanisms.includes('LOGIN')) {
+        const credentials = Buffer.from(`\0${config.user}\0${config.pass}`).toString('base64')
+        await connection.command(`AUTH PLAIN ${credentials}`, [235], 'AUTH')
+      } else {
+        await connection.command('AUTH LOGIN', [334])
+        await connection.command(Buffer.from(config.user).toString('base64'), [334], 'AUTH')
+        await connection.command(Buffer.from(config.pass).toString('base64'), [235], 'AUTH')
+      }
+    }
+
+    await connection.command(`MAIL FROM:<${addressOf(from)}>`, [250])
+    await connection.command(`RCPT TO:<${addressOf(to)}>`, [250, 251])
+    await connection.command('DATA', [354])
+
+    const body = data.replace(/\r?\n/g, '\r\n').replace(/^\./gm, '..')
+    const accepted = await connection.command(`${body}${body.endsWith('\r\n') ? '' : '\r\n'}.`, [250], 'message')
+
+    await connection.command('QUIT', [221]).catch(() => undefined)
+    return accepted.message
+  } finally {
+    connection.socket.destroy()
+  }
+}
@@ -0,0 +1,73 @@
+/**
+ * Signed ticket tokens, the content of the QR code on RSVP and paid tickets.
+ * Tokens are Ed25519-signed so a door device holding only the public key can
+ * verify them with no connection; the private key (TICKET_SIGNING_KEY, a
+ * PKCS#8 PEM) never leaves the server.
+ */
+
+import { JsonWebKey, KeyObject, createPrivateKey, createPublicKey, generateKeyPairSync, sign, verify } from 'crypto'
+
+export type TicketKind = 'rsvp' | 'ticket'
+
+export interface TicketClaims {
+  // event_rsvps id for RSVPs, shop_order_items id for paid tickets
+  ticketId: string
+  eventId: string
+  kind: TicketKind
+  // People the ticket lets in: the RSVP plus guests, or the ticket quantity
+  admits: number
+  issuedAt: Date
+}
+
+const TOKEN_VERSION = 1
+
+let signingKey: KeyObject | null = null
+
+function getSigningKey(): KeyObject {
+  if (!signingKey) {
+    const pem = process.env.TICKET_SIGNING_KEY?.replace(/\\n/g, '\n')
+    if (pem) {
+      signingKey = createPrivateKey(pem)
+    } else {
+      console.warn('[Tickets] TICKET_SIGNING_KEY not set - tickets issued now will not verify after a restart')
+      signingKey = generateKeyPairSync('ed25519').privateKey
+    }
+  }
+  return signingKey
+}
+
+export function createTicketToken(claims: TicketClaims, key: KeyObject = getSigningKey()): string {
+  // Short keys keep the QR code small enough to scan from a dim phone screen
+  const payload = Buffer.from(JSON.stringify({
+    v: TOKEN_VERSION,
+    t: claims.ticketId,
+    e: claims.eventId,
+    k: claims.kind,
+    a: claims.admits,
+    i: Math.floor(claims.issuedAt.getTime() / 1000)
+  })).toString('base64url')
+  return `${payload}.${sign(null, Buffer.from(payload), key).toString('base64url')}`
+}
+
+/** The claims a token was issued with, or null when it is malformed or the signature doesn't match */
+export function verifyTicketToken(token: string, key: KeyObject = getSigningKey()): TicketClaims | null {
+  const [payload, signature, extra] = (token || '').trim().split('.')
+  if (!payload || !signature || extra !== undefined) return null
+
+  const publicKey = key.type === 'private' ? createPublicKey(key) : key
+  if (!verify(null, Buffer.from(payload), publicKey, Buffer.from(signature, 'base64url'))) return null
+
+  try {
+    const { v, t, e, k, a, i } = JSON.parse(Buffer.from(payload, 'base64url').toString())
+    if (v !== TOKEN_VERSION || typeof t !== 'string' || typeof e !== 'string' || (k !== 'rsvp' && k !== 'ticket')) return null
+    return { ticketId: t, eventId: e, kind: k, admits: Number(a) || 1, issuedAt: new Date(Number(i) * 1000) }
+  } catch {
+    return null
+  }
+}
+
+/** The verification key as a JWK, for door devices to cache */
+export function ticketPublicKeyJwk(key: KeyObject = getSigningKey()): JsonWebKey {
+  const jwk = createPublicKey(key).export({ format: 'jwk' })
+  return { ...jwk, alg: 'EdDSA', use: 'sig' }
+}
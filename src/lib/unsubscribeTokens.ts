@@ -0,0 +1,52 @@
+/**
+ * Signed unsubscribe tokens for email footers and List-Unsubscribe headers.
+ * A token names a user and a topic (or 'all') and needs no login to use, so
+ * it is HMAC-signed with UNSUBSCRIBE_SECRET.
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto'
+
+export interface UnsubscribeScope {
+  userId: string
+  // A notification topic, or 'all' for every non-transactional message on every channel
+  topic: string
+}
+
+let fallbackSecret: Buffer | null = null
+
+function getSecret(): Buffer {
+  if (process.env.UNSUBSCRIBE_SECRET) {
+    return Buffer.from(process.env.UNSUBSCRIBE_SECRET)
+  }
+  if (!fallbackSecret) {
+    console.warn('[Email] UNSUBSCRIBE_SECRET not set - unsubscribe links will stop working after a restart')
+    fallbackSecret = randomBytes(32)
+  }
+  return fallbackSecret
+}
+
+function sign(payload: string, secret: Buffer): Buffer {
+  return createHmac('sha256', secret).update(payload).digest()
+}
+
+export function createUnsubscribeToken(scope: UnsubscribeScope, secret: Buffer = getSecret()): string {
+  const payload = Buffer.from(JSON.stringify({ u: scope.userId, t: scope.topic })).toString('base64url')
+  return `${payload}.${sign(payload, secret).toString('base64url')}`
+}
+
+/** The scope a token was issued for, or null when it is malformed or the signature doesn't match */
+export function verifyUnsubscribeToken(token: string, secret: Buffer = getSecret()): UnsubscribeScope | null {
+  const [payload, signature] = (token || '').split('.')
+  if (!payload || !signature) return null
+
+  const expected = sign(payload, secret)
+  const given = Buffer.from(signature, 'base64url')
+  if (given.length !== expected.length || !timingSafeEqual(given, expected)) return null
+
+  try {
+    const { u, t } = JSON.parse(Buffer.from(payload, 'base64url').toString())
+    return typeof u === 'string' && typeof t === 'string' ? { userId: u, topic: t } : null
+  } catch {
+    return null
+  }
+}
@@ -0,0 +1,177 @@
+/**
+ * Web Push sender: VAPID authentication (RFC 8292) and aes128gcm payload
+ * encryption (RFC 8291), built on node:crypto so no push SDK is needed.
+ *
+ * Keys are base64url: VAPID_PUBLIC_KEY is the uncompressed P-256 point the
+ * browser subscribes with, VAPID_PRIVATE_KEY the raw 32-byte scalar.
+ * Generate a pair with generateVapidKeys().
+ */
+
+import { ECDH, createECDH, createCipheriv, createPrivateKey, hkdfSync, randomBytes, sign } from 'crypto'
+
+// One record of up to 4096 bytes; most push services also cap the whole body at 4096
+const RECORD_SIZE = 4096
+// Body overhead: salt (16) + record size (4) + key id length (1) + key id (65) + delimiter (1) + tag (16)
+export const MAX_PAYLOAD_BYTES = RECORD_SIZE - 103
+const JWT_LIFETIME_SECONDS = 12 * 60 * 60
+const REQUEST_TIMEOUT_MS = 15000
+
+export interface WebPushSubscription {
+  endpoint: string
+  // Browser's P-256 public key and auth secret, base64url (PushSubscription.toJSON().keys)
+  p256dh: string
+  auth: string
+}
+
+export interface VapidDetails {
+  subject: string
+  publicKey: string
+  privateKey: string
+}
+
+export interface WebPushOptions {
+  // Seconds the push service should hold the message for an offline device
+  ttl?: number
+  urgency?: 'very-low' | 'low' | 'normal' | 'high'
+  // A newer message with the same topic replaces an undelivered older one
+  topic?: string
+}
+
+export interface WebPushResponse {
+  statusCode: number
+  body: string
+}
+
+function base64url(data: Buffer): string {
+  return data.toString('base64url')
+}
+
+function fromBase64url(value: string): Buffer {
+  return Buffer.from(value, 'base64url')
+}
+
+export function generateVapidKeys(): { publicKey: string; privateKey: string } {
+  const ecdh = createECDH('prime256v1')
+  ecdh.generateKeys()
+  // getPrivateKey() drops leading zero bytes; JWK `d` must be exactly 32
+  const privateKey = ecdh.getPrivateKey()
+  return {
+    publicKey: base64url(ecdh.getPublicKey()),
+    privateKey: base64url(Buffer.concat([Buffer.alloc(32 - privateKey.length), privateKey]))
+  }
+}
+
+/** VAPID keys from the environment, or null when push is not configured */
+export function getVapidDetails(): VapidDetails | null {
+  const publicKey = process.env.VAPID_PUBLIC_KEY
+  const privateKey = process.env.VAPID_PRIVATE_KEY
+  if (!publicKey || !privateKey) return null
+
+  return {
+    subject: process.env.VAPID_SUBJECT || 'mailto:events@blkoutuk.com',
+    publicKey,
+    privateKey
+  }
+}
+
+/** The `Authorization: vapid t=..., k=...` header for one push service origin */
+export function createVapidAuthorization(endpoint: string, vapid: VapidDetails, now: Date = new Date()): string {
+  const publicKey = fromBase64url(vapid.publicKey)
+  if (publicKey.length !== 65 || publicKey[0] !== 0x04) {
+    throw new Error('VAPID public key must be an uncompressed P-256 point')
+  }
+
+  const key = createPrivateKey({
+    key: {
+      kty: 'EC',
+      crv: 'P-256',
+      d: vapid.privateKey,
+      x: base64url(publicKey.subarray(1, 33)),
+      y: base64url(publicKey.subarray(33, 65))
+    },
+    format: 'jwk'
+  })
+
+  const header = base64url(Buffer.from(JSON.stringify({ typ: 'JWT', alg: 'ES256' })))
+  const claims = base64url(Buffer.from(JSON.stringify({
+    aud: new URL(endpoint).origin,
+    exp: Math.floor(now.getTime() / 1000) + JWT_LIFETIME_SECONDS,
+    sub: vapid.subject
+  })))
+  const signature = sign('sha256', Buffer.from(`${header}.${claims}`), { key, dsaEncoding: 'ieee-p1363' })
+
+  return `vapid t=${header}.${claims}.${base64url(signature)}, k=${vapid.publicKey}`
+}
+
+/**
+ * Encrypt a payload for one subscription as a single aes128gcm record.
+ * `salt` and `serverKeys` (an ECDH pair with keys generated) are only
+ * passed in by tests.
+ */
+export function encryptPayload(
+  subscription: WebPushSubscription,
+  payload: Buffer,
+  salt: Buffer = randomBytes(16),
+  serverKeys?: ECDH
+): Buffer {
+  if (payload.length > MAX_PAYLOAD_BYTES) {
+    throw new Error(`Push payload is ${payload.length} bytes; the limit is ${MAX_PAYLOAD_BYTES}`)
+  }
+
+  const clientPublicKey = fromBase64url(subscription.p256dh)
+  const authSecret = fromBase64url(subscription.auth)
+  if (clientPublicKey.length !== 65 || authSecret.length < 16) {
+    throw new Error('Invalid push subscription keys')
+  }
+
+  // A fresh key pair per message
+  const keys = serverKeys || createECDH('prime256v1')
+  const serverPublicKey = serverKeys ? keys.getPublicKey() : keys.generateKeys()
+  const sharedSecret = keys.computeSecret(clientPublicKey)
+
+  const keyInfo = Buffer.concat([Buffer.from('WebPush: info\0'), clientPublicKey, serverPublicKey])
+  const ikm = Buffer.from(hkdfSync('sha256', sharedSecret, authSecret, keyInfo, 32))
+  const contentKey = Buffer.from(hkdfSync('sha256', ikm, salt, Buffer.from('Content-Encoding: aes128gcm\0'), 16))
+  const nonce = Buffer.from(hkdfSync('sha256', ikm, salt, Buffer.from('Content-Encoding: nonce\0'), 12))
+
+  const cipher = createCipheriv('aes-128-gcm', contentKey, nonce)
+  // 0x02 marks the last (only) record
+  const ciphertext = Buffer.concat([cipher.update(Buffer.concat([payload, Buffer.from([2])])), cipher.final(), cipher.getAuthTag()])
+
+  const header = Buffer.alloc(21)
+  salt.copy(header, 0)
+  header.writeUInt32BE(RECORD_SIZE, 16)
+  header.writeUInt8(serverPublicKey.length, 20)
+
+  return Buffer.concat([header, serverPublicKey, ciphertext])
+}
+
+/**
+ * POST one encrypted message to a subscription's push service. Resolves with
+ * the push service's status (201 on success; 404/410 mean the subscription is
+ * gone) and rejects only on network errors.
+ */
+export async function sendWebPush(
+  subscription: WebPushSubscription,
+  payload: string,
+  vapid: VapidDetails,
+  options: WebPushOptions = {}
+): Promise<WebPushResponse> {
+  const headers: Record<string, string> = {
+    Authorization: createVapidAuthorization(subscription.endpoint, vapid),
+    'Content-Encoding': 'aes128gcm',
+    'Content-Type': 'application/octet-stream',
+    TTL: String(options.ttl ?? 24 * 60 * 60),
+    Urgency: options.urgency || 'normal'
+  }
+  if (options.topic) headers.Topic = options.topic
+
+  const response = await fetch(subscription.endpoint, {
+    method: 'POST',
+    headers,
+    body: encryptPayload(subscription, Buffer.from(payload, 'utf8')),
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+  })
+
+  return { statusCode: response.status, body: await response.text().catch(() => '') }
+}
@@ -4,9 +4,19 @@ import helmet from 'helmet'
 import path from 'path'
 import dotenv from 'dotenv'
 import ConversationService from './conversationService.js'
-import JourneyAwareConversationService from './services/JourneyAwareConversationService.js'
+import JourneyAwareConversationService, { JourneyHistoryError } from './services/JourneyAwareConversationService.js'
 import { DataContextService } from './services/DataContextService.js'
+import { WellnessAssessmentService, WellnessAssessmentError } from './services/WellnessAssessmentService.js'
+import { JournalingService, JournalValidationError } from './services/JournalingService.js'
+import { CrisisTriageService } from './services/CrisisTriageService.js'
+import { createJourneyHistoryStore } from './services/JourneyHistoryStore.js'
+import { getAchievementService, trackActivity } from './services/AchievementService.js'
+import { getVoiceProfileService } from './services/VoiceProfileService.js'
+import { JourneyResponse } from './types/journey.js'
 import { getSupabaseClient } from './lib/supabaseClient.js'
+import { getLLMGateway } from './lib/llmGateway.js'
+import { authenticate, authorize } from './lib/auth.js'
+import { ROUTE_PERMISSIONS } from './lib/routePermissions.js'
 import feedbackRoutes from './api/feedbackRoutes.js'
 import adminRoutes from './api/adminRoutes.js'
 import socialMediaRoutes from './api/socialMediaRoutes.js'
@@ -22,9 +32,11 @@ import calendarRoutes from './api/calendarRoutes.js'
 import organizerRoutes from './api/organizerRoutes.js'
 import eventModerationRoutes from './api/eventModerationRoutes.js'
 import groupsRoutes from './api/groupsRoutes.js'
+import frameworkRoutes from './api/frameworkRoutes.js'
+import knowledgeRoutes from './api/knowledgeRoutes.js'
 import analyticsRoutes from './api/analyticsRoutes.js'
 import learningRoutes from './api/learning.js'
-import voiceRoutes from './api/voiceRoutes.js'
+import voiceRoutes, { setVoiceChatHandler } from './api/voiceRoutes.js'
 import intelligenceRoutes from './api/intelligenceRoutes.js'
 import shopRoutes from './api/shopRoutes.js'
 import stripeWebhookRoutes from './api/webhooks/stripeWebhook.js'
@@ -68,8 +80,21 @@ const baseConversationService = new ConversationService(
 // Initialize data context service for live Supabase data in prompts
 const dataContextService = new DataContextService(getSupabaseClient())
 
+// Journey history shared by conversations and journaling prompts
+const journeyHistoryStore = createJourneyHistoryStore()
+
 // Initialize journey-aware conversation service with live data
-const journeyConversationService = new JourneyAwareConversationService(baseConversationService, dataContextService)
+const journeyConversationService = new JourneyAwareConversationService(baseConversationService, dataContextService, journeyHistoryStore)
+
+// Shared LLM provider chain (Qwen → Groq → local → rule-based)
+const llmGateway = getLLMGateway()
+
+// 15-section wellness assessment scoring with persisted results
+const wellnessAssessmentService = new WellnessAssessmentService()
+
+// Personal journaling: encrypted entries, personalised prompts, mood trends
+const journalingService = new JournalingService(undefined, journeyHistoryStore, llmGateway)
+const crisisTriageService = new CrisisTriageService()
 
 // Layer 3 Liberation Ecosystem - initialized at startup
 let layer3Ecosystem: Awaited<ReturnType<typeof initializeLayer3EcosystemForIVOR>> | null = null
@@ -114,6 +139,11 @@ app.use('/api/webhooks/stripe', express.raw({ type: 'application/json' }), strip
 app.use(express.json({ limit: '10mb' }))
 app.use(express.urlencoded({ extended: true }))
 
+// Authentication: attach req.auth from Supabase bearer tokens, then enforce
+// the route permission map before any router sees the request
+app.use(authenticate())
+app.use(authorize(ROUTE_PERMISSIONS))
+
 // Serve static files from public/ (reference audio for voice cloning, etc.)
 app.use('/public', express.static(path.join(process.cwd(), 'public')))
 
@@ -136,8 +166,10 @@ app.use('/api/organizer', organizerRoutes)  // Organizer dashboard & analytics A
 app.use('/api/event-moderation', eventModerationRoutes)  // Event moderation & reporting API
 app.use('/api/learning', learningRoutes)  // Learning platform & IVOR education API
 app.use('/api/groups', groupsRoutes)      // Community groups API
+app.use('/api/frameworks', frameworkRoutes)  // Problem-solving framework sessions API
+app.use('/api/knowledge', knowledgeRoutes)    // Knowledge base semantic search API
 app.use('/api/analytics', analyticsRoutes)  // Analytics dashboard & metrics API
-app.use('/api/voice', voiceRoutes)          // Voice synthesis (MeloTTS) API
+app.use('/api/voice', voiceRoutes)          // Voice synthesis (Chatterbox) & transcription (Whisper) API
 app.use('/api/intelligence', intelligenceRoutes)  // Conversation intelligence & community insights API
 app.use('/api/shop', shopRoutes)           // Shop & marketplace API
 app.use('/api/checkout', checkoutRoutes)   // Checkout & order processing API
@@ -170,12 +202,24 @@ app.get('/health', (req, res) => {
       'contextual-responses': 'Stage-appropriate support',
       'liberation-layer-3': layer3Ecosystem ? 'ACTIVE' : 'INITIALIZING',
       'conversation-intelligence': conversationIntelligenceService.isInitialized() ? 'ACTIVE' : 'PENDING',
-      'ai-theme-extraction': conversationIntelligenceService.isAIExtractEnabled() ? 'GROQ' : 'KEYWORD',
+      'ai-theme-extraction': conversationIntelligenceService.isAIExtractEnabled() ? 'LLM' : 'KEYWORD',
+      'llm-providers': llmGateway.isAvailable() ? llmGateway.getProviderChain().join(' → ') : 'RULE-BASED',
       'live-data-context': getSupabaseClient() ? 'ACTIVE' : 'DISABLED'
     }
   })
 })
 
+// LLM gateway health: provider chain plus token/latency accounting per use case
+app.get('/health/llm', (req, res) => {
+  res.json({
+    status: llmGateway.isAvailable() ? 'active' : 'rule-based-only',
+    providerChain: [...llmGateway.getProviderChain(), 'rule-based'],
+    chatModel: llmGateway.getPrimaryModel('chat'),
+    usage: llmGateway.getStats(),
+    timestamp: new Date().toISOString()
+  })
+})
+
 // Liberation Layer 3 Health Check
 app.get('/health/liberation', async (req, res) => {
   if (!layer3Ecosystem) {
@@ -244,202 +288,336 @@ app.get('/health/liberation', async (req, res) => {
   }
 })
 
+const CHAT_ERROR_BODY = {
+  error: 'Internal server error processing your message',
+  communitySupport: '/community/support',
+  liberation: {
+    errorHandled: true,
+    traumaInformed: true,
+    message: 'We encountered an issue. Please try again or reach out for support.'
+  }
+}
+
 // Core AI Chat endpoint with Liberation Layer 3 Integration + Conversation Intelligence
+// Send `Accept: text/event-stream` to receive the response as Server-Sent Events:
+// `token` events while the reply is generated, then one `done` event carrying the
+// same payload the JSON mode returns.
 app.post('/api/chat', async (req, res) => {
   (req as any)._startTime = Date.now()
+  const { message, sessionId, userContext } = req.body
+  const currentSessionId = sessionId || `session-${Date.now()}`
+
+  if (!message || typeof message !== 'string') {
+    return res.status(400).json({
+      error: 'Message is required and must be a string',
+      communitySupport: '/community/support'
+    })
+  }
+
+  if (wantsEventStream(req)) {
+    return streamChatResponse(req, res, message, userContext, currentSessionId)
+  }
+
   try {
-    const { message, sessionId, userContext } = req.body
-    const currentSessionId = sessionId || `session-${Date.now()}`
+    res.json(await runChat(req, message, userContext, currentSessionId))
+  } catch (error) {
+    console.error('Core chat error:', error)
+    res.status(500).json(CHAT_ERROR_BODY)
+  }
+})
 
-    if (!message || typeof message !== 'string') {
-      return res.status(400).json({
-        error: 'Message is required and must be a string',
-        communitySupport: '/community/support'
-      })
-    }
+// Voice chat (POST /api/voice/transcribe?mode=chat) sends transcripts through the same pipeline
+setVoiceChatHandler(runChat)
+
+/**
+ * JSON mode for /api/chat: the full response payload once generation completes.
+ */
+async function runChat(req: express.Request, message: string, userContext: any, sessionId: string) {
+  // Track conversation for intelligence (Self-Improving System)
+  conversationIntelligenceService.addMessage(sessionId, {
+    role: 'user',
+    content: message,
+    timestamp: new Date()
+  })
+
+  const liberationValidation = await validateChatWithLayer3(message, userContext, sessionId)
+
+  // Journey-aware AI response with UK-specific context
+  const journeyResponse = await generateJourneyAwareResponse(message, userContext, sessionId)
 
-    // Track conversation for intelligence (Self-Improving System)
-    conversationIntelligenceService.addMessage(currentSessionId, {
+  const conversationId = recordChatSideEffects(req, message, userContext, sessionId, journeyResponse)
+
+  return buildChatPayload(journeyResponse, sessionId, conversationId, liberationValidation)
+}
+
+function wantsEventStream(req: express.Request): boolean {
+  return (req.headers.accept || '').includes('text/event-stream')
+}
+
+/**
+ * SSE mode for /api/chat: streams tokens as they arrive, then a final `done`
+ * event. Side effects run once the stream completes, even if the client has
+ * already disconnected. A reply cut off partway ends with an `error` event
+ * carrying the text sent so far instead, and nothing is recorded for it.
+ */
+async function streamChatResponse(
+  req: express.Request,
+  res: express.Response,
+  message: string,
+  userContext: any,
+  sessionId: string
+) {
+  res.status(200)
+  res.setHeader('Content-Type', 'text/event-stream')
+  res.setHeader('Cache-Control', 'no-cache, no-transform')
+  res.setHeader('Connection', 'keep-alive')
+  res.setHeader('X-Accel-Buffering', 'no') // stop reverse proxies buffering the stream
+  res.flushHeaders()
+
+  let clientGone = false
+  res.on('close', () => { clientGone = true })
+
+  const send = (event: string, data: unknown) => {
+    if (clientGone) return
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`)
+  }
+
+  let partialResponse = ''
+
+  try {
+    conversationIntelligenceService.addMessage(sessionId, {
       role: 'user',
       content: message,
       timestamp: new Date()
     })
 
-    // Liberation Layer 3 Validation (if ecosystem is initialized)
-    let liberationValidation = null
-    if (layer3Ecosystem) {
-      try {
-        const layer3Response = await layer3Ecosystem.interfaceManager.processLayer2Request({
-          operation: 'community_interaction',
-          userId: userContext?.userId || 'anonymous',
-          sessionId: currentSessionId,
-          data: {
-            message,
-            userContext,
-            interactionType: 'ai_chat',
-            liberationContext: {
-              communityProtectionRequired: true,
-              creatorSovereigntyEnforcement: true,
-              culturalAuthenticityValidation: true,
-              antiOppressionActive: true
-            },
-            metadata: {
-              source: 'ivor-core',
-              endpoint: '/api/chat',
-              timestamp: new Date().toISOString()
-            }
-          }
-        })
-
-        liberationValidation = {
-          validated: true,
-          compliant: layer3Response.liberationValidation?.isValid ?? true,
-          empowermentScore: layer3Response.liberationValidation?.empowermentScore ?? 0.8,
-          creatorSovereignty: '75% ENFORCED',
-          communityProtection: layer3Response.empowermentTracking?.communityBenefit ?? 0.9
-        }
+    send('start', { sessionId })
 
-        // If liberation validation fails critically, provide guidance instead of blocking
-        if (!layer3Response.success && layer3Response.liberationValidation?.violations?.some(
-          (v: any) => v.severity === 'critical'
-        )) {
-          console.warn('Liberation validation concern:', layer3Response.liberationValidation?.violations)
-          // Continue with response but include guidance
-        }
-      } catch (layer3Error) {
-        console.warn('Layer 3 validation error (continuing with fallback):', layer3Error)
-        liberationValidation = {
-          validated: false,
-          reason: 'Layer 3 validation unavailable',
-          fallbackActive: true
-        }
+    const liberationValidation = await validateChatWithLayer3(message, userContext, sessionId)
+
+    const journeyResponse = await generateJourneyAwareResponse(
+      message,
+      userContext,
+      sessionId,
+      token => {
+        partialResponse += token
+        send('token', { token })
       }
-    }
+    )
 
-    // Journey-aware AI response with UK-specific context
-    const journeyResponse = await generateJourneyAwareResponse(message, userContext, currentSessionId)
+    const conversationId = recordChatSideEffects(req, message, userContext, sessionId, journeyResponse)
 
-    // Track assistant response for intelligence
-    conversationIntelligenceService.addMessage(currentSessionId, {
-      role: 'assistant',
-      content: journeyResponse.response,
-      timestamp: new Date()
+    send('done', buildChatPayload(journeyResponse, sessionId, conversationId, liberationValidation))
+  } catch (error) {
+    console.error('Core chat stream error:', error)
+    send('error', partialResponse ? { ...CHAT_ERROR_BODY, partialResponse } : CHAT_ERROR_BODY)
+  } finally {
+    if (!clientGone) res.end()
+  }
+}
+
+/**
+ * Liberation Layer 3 Validation (if ecosystem is initialized)
+ */
+async function validateChatWithLayer3(message: string, userContext: any, sessionId: string) {
+  if (!layer3Ecosystem) return null
+
+  try {
+    const layer3Response = await layer3Ecosystem.interfaceManager.processLayer2Request({
+      operation: 'community_interaction',
+      userId: userContext?.userId || 'anonymous',
+      sessionId,
+      data: {
+        message,
+        userContext,
+        interactionType: 'ai_chat',
+        liberationContext: {
+          communityProtectionRequired: true,
+          creatorSovereigntyEnforcement: true,
+          culturalAuthenticityValidation: true,
+          antiOppressionActive: true
+        },
+        metadata: {
+          source: 'ivor-core',
+          endpoint: '/api/chat',
+          timestamp: new Date().toISOString()
+        }
+      }
     })
 
-    // Persist conversation to ivor_feedback table (non-blocking)
-    const supabaseForFeedback = getSupabaseClient()
-    if (supabaseForFeedback) {
-      const userHash = require('crypto').createHash('sha256')
-        .update((userContext?.userId || req.ip || 'anonymous') + (req.headers['user-agent'] || ''))
-        .digest('hex').substring(0, 16)
-
-      supabaseForFeedback.from('ivor_feedback').insert({
-        message_index: 0, // one row per exchange — ordering is via created_at + session_id
-        session_id: currentSessionId,
-        user_hash: userHash,
-        user_input: message.substring(0, 2000),
-        ivor_response: journeyResponse.response.substring(0, 5000),
-        journey_stage: journeyResponse.journeyContext?.stage || 'general',
-        resources_provided: journeyResponse.resourcesProvided || [],
-        response_time_ms: Date.now() - (req as any)._startTime || null,
-      }).then(({ error: fbError }) => {
-        if (fbError) console.error('[Feedback] Insert failed:', fbError.message)
-      })
+    // If liberation validation fails critically, provide guidance instead of blocking
+    if (!layer3Response.success && layer3Response.liberationValidation?.violations?.some(
+      (v: any) => v.severity === 'critical'
+    )) {
+      console.warn('Liberation validation concern:', layer3Response.liberationValidation?.violations)
+      // Continue with response but include guidance
     }
 
-    // Campaign tracking — classify feature usage and persist metrics (non-blocking)
-    campaignTrackingService.trackConversation({
-      sessionId: currentSessionId,
-      userHash: supabaseForFeedback ? require('crypto').createHash('sha256')
-        .update((userContext?.userId || req.ip || 'anonymous') + (req.headers['user-agent'] || ''))
-        .digest('hex').substring(0, 16) : undefined,
-      message,
-      utmSource: userContext?.utmSource || req.query.utm_source as string,
-      utmMedium: userContext?.utmMedium || req.query.utm_medium as string,
-      utmCampaign: userContext?.utmCampaign || req.query.utm_campaign as string,
-      utmContent: userContext?.utmContent || req.query.utm_content as string,
-    }).catch(err => console.error('[CampaignTracking] Error:', err))
-
-    // Track resources recommended (if any)
-    if (journeyResponse.resourcesProvided && journeyResponse.resourcesProvided.length > 0) {
-      for (const resourceTitle of journeyResponse.resourcesProvided) {
-        conversationIntelligenceService.trackResourceRecommendation(
-          currentSessionId,
-          `resource-${resourceTitle.toLowerCase().replace(/\s+/g, '-')}`,
-          resourceTitle,
-          journeyResponse.journeyContext?.stage || 'general'
-        )
-      }
+    return {
+      validated: true,
+      compliant: layer3Response.liberationValidation?.isValid ?? true,
+      empowermentScore: layer3Response.liberationValidation?.empowermentScore ?? 0.8,
+      creatorSovereignty: '75% ENFORCED',
+      communityProtection: layer3Response.empowermentTracking?.communityBenefit ?? 0.9
     }
+  } catch (layer3Error) {
+    console.warn('Layer 3 validation error (continuing with fallback):', layer3Error)
+    return {
+      validated: false,
+      reason: 'Layer 3 validation unavailable',
+      fallbackActive: true
+    }
+  }
+}
+
+/**
+ * Post-response side effects: intelligence tracking, feedback persistence,
+ * campaign metrics and resource tracking. All non-blocking.
+ * Returns the conversation id used for intelligence storage.
+ */
+function recordChatSideEffects(
+  req: express.Request,
+  message: string,
+  userContext: any,
+  currentSessionId: string,
+  journeyResponse: Awaited<ReturnType<typeof generateJourneyAwareResponse>>
+): string {
+  // Let POST /api/voice pick a matching voice from just the responseId
+  getVoiceProfileService().rememberResponse(journeyResponse.responseId, journeyResponse.journeyContext)
+
+  // Track assistant response for intelligence
+  conversationIntelligenceService.addMessage(currentSessionId, {
+    role: 'assistant',
+    content: journeyResponse.response,
+    timestamp: new Date()
+  })
 
-    // Store conversation intelligence after significant exchanges (5+ messages or follow-up required)
-    // This is non-blocking - fire and forget
-    const conversationId = `conv-${Date.now()}-${currentSessionId.substring(0, 8)}`
-    if (journeyResponse.followUpRequired || journeyResponse.journeyContext?.urgencyLevel === 'critical') {
-      conversationIntelligenceService.storeConversationIntelligence(
-        conversationId,
+  // Persist conversation to ivor_feedback table (non-blocking)
+  const supabaseForFeedback = getSupabaseClient()
+  if (supabaseForFeedback) {
+    const userHash = require('crypto').createHash('sha256')
+      .update((userContext?.userId || req.ip || 'anonymous') + (req.headers['user-agent'] || ''))
+      .digest('hex').substring(0, 16)
+
+    supabaseForFeedback.from('ivor_feedback').insert({
+      message_index: 0, // one row per exchange — ordering is via created_at + session_id
+      session_id: currentSessionId,
+      user_hash: userHash,
+      user_input: message.substring(0, 2000),
+      ivor_response: journeyResponse.response.substring(0, 5000),
+      journey_stage: journeyResponse.journeyContext?.stage || 'general',
+      resources_provided: journeyResponse.resourcesProvided || [],
+      response_time_ms: Date.now() - (req as any)._startTime || null,
+    }).then(({ error: fbError }) => {
+      if (fbError) console.error('[Feedback] Insert failed:', fbError.message)
+    })
+  }
+
+  // Campaign tracking — classify feature usage and persist metrics (non-blocking)
+  campaignTrackingService.trackConversation({
+    sessionId: currentSessionId,
+    userHash: supabaseForFeedback ? require('crypto').createHash('sha256')
+      .update((userContext?.userId || req.ip || 'anonymous') + (req.headers['user-agent'] || ''))
+      .digest('hex').substring(0, 16) : undefined,
+    message,
+    utmSource: userContext?.utmSource || req.query.utm_source as string,
+    utmMedium: userContext?.utmMedium || req.query.utm_medium as string,
+    utmCampaign: userContext?.utmCampaign || req.query.utm_campaign as string,
+    utmContent: userContext?.utmContent || req.query.utm_content as string,
+  }).catch(err => console.error('[CampaignTracking] Error:', err))
+
+  // Track resources recommended (if any)
+  if (journeyResponse.resourcesProvided && journeyResponse.resourcesProvided.length > 0) {
+    for (const resourceTitle of journeyResponse.resourcesProvided) {
+      conversationIntelligenceService.trackResourceRecommendation(
         currentSessionId,
-        userContext?.userId || 'anonymous',
-        journeyResponse.journeyContext?.stage || 'growth'
-      ).catch(err => console.error('Background intelligence storage error:', err))
+        `resource-${resourceTitle.toLowerCase().replace(/\s+/g, '-')}`,
+        resourceTitle,
+        journeyResponse.journeyContext?.stage || 'general'
+      )
     }
+  }
 
-    res.json({
-      response: journeyResponse.response,
-      journeyContext: journeyResponse.journeyContext,
-      nextStageGuidance: journeyResponse.nextStageGuidance,
-      sessionId: currentSessionId,
+  // Store conversation intelligence after significant exchanges (5+ messages or follow-up required)
+  // This is non-blocking - fire and forget
+  const conversationId = `conv-${Date.now()}-${currentSessionId.substring(0, 8)}`
+  if (journeyResponse.followUpRequired || journeyResponse.journeyContext?.urgencyLevel === 'critical') {
+    conversationIntelligenceService.storeConversationIntelligence(
       conversationId,
-      timestamp: new Date().toISOString(),
-      domain: 'core',
-      features: ['wellness', 'problem-solving', 'journaling', 'crisis-support', 'achievements', 'journey-awareness', 'liberation-layer-3', 'conversation-intelligence'],
-      resourcesProvided: journeyResponse.resourcesProvided,
-      followUpRequired: journeyResponse.followUpRequired,
-      // Liberation Layer 3 Compliance
-      liberation: liberationValidation || {
-        validated: false,
-        reason: 'Layer 3 not initialized',
-        degradedMode: true
-      }
-    })
+      currentSessionId,
+      userContext?.userId || 'anonymous',
+      journeyResponse.journeyContext?.stage || 'growth'
+    ).catch(err => console.error('Background intelligence storage error:', err))
+  }
 
-  } catch (error) {
-    console.error('Core chat error:', error)
-    res.status(500).json({
-      error: 'Internal server error processing your message',
-      communitySupport: '/community/support',
-      liberation: {
-        errorHandled: true,
-        traumaInformed: true,
-        message: 'We encountered an issue. Please try again or reach out for support.'
-      }
-    })
+  return conversationId
+}
+
+function buildChatPayload(
+  journeyResponse: Awaited<ReturnType<typeof generateJourneyAwareResponse>>,
+  sessionId: string,
+  conversationId: string,
+  liberationValidation: Awaited<ReturnType<typeof validateChatWithLayer3>>
+) {
+  return {
+    response: journeyResponse.response,
+    journeyContext: journeyResponse.journeyContext,
+    nextStageGuidance: journeyResponse.nextStageGuidance,
+    sessionId,
+    conversationId,
+    timestamp: new Date().toISOString(),
+    domain: 'core',
+    features: ['wellness', 'problem-solving', 'journaling', 'crisis-support', 'achievements', 'journey-awareness', 'liberation-layer-3', 'conversation-intelligence'],
+    resourcesProvided: journeyResponse.resourcesProvided,
+    followUpRequired: journeyResponse.followUpRequired,
+    // Trust scoring for the resources behind this response
+    trust: {
+      responseId: journeyResponse.responseId,
+      score: journeyResponse.trustScore,
+      level: journeyResponse.trustLevel,
+      description: journeyResponse.trustDescription,
+      sourceVerification: journeyResponse.sourceVerification
+    },
+    // Liberation Layer 3 Compliance
+    liberation: liberationValidation || {
+      validated: false,
+      reason: 'Layer 3 not initialized',
+      degradedMode: true
+    }
   }
-})
+}
 
 // Wellness Coaching API
+app.get('/api/wellness/sections', (req, res) => {
+  res.json({ success: true, sections: wellnessAssessmentService.getSections() })
+})
+
 app.post('/api/wellness/assessment', async (req, res) => {
   try {
-    const { userId, answers, sectionId } = req.body
-    
-    // Process wellness assessment data
-    const assessment = {
-      id: `wellness-${Date.now()}`,
-      userId,
+    const { answers, sectionId, location } = req.body
+
+    if (!sectionId || !answers) {
+      return res.status(400).json({ error: 'sectionId and answers are required' })
+    }
+
+    // Anyone can take a section; only signed-in users have results kept in their history
+    const { assessment, nextSection } = await wellnessAssessmentService.submitSection({
+      userId: req.auth?.userId,
       sectionId,
       answers,
-      score: calculateWellnessScore(answers),
-      insights: generateWellnessInsights(answers),
-      recommendations: generateWellnessRecommendations(answers),
-      completedAt: new Date().toISOString()
-    }
+      location
+    })
 
     res.json({
       success: true,
       assessment,
-      nextSection: getNextWellnessSection(sectionId)
+      nextSection,
+      saved: !!req.auth
     })
   } catch (error) {
+    if (error instanceof WellnessAssessmentError) {
+      return res.status(400).json({ error: error.message })
+    }
     console.error('Wellness assessment error:', error)
     res.status(500).json({ error: 'Failed to process wellness assessment' })
   }
@@ -448,16 +626,8 @@ app.post('/api/wellness/assessment', async (req, res) => {
 app.get('/api/wellness/progress/:userId', async (req, res) => {
   try {
     const { userId } = req.params
-    
-    // Mock wellness progress data
-    const progress = {
-      overallScore: 75,
-      sectionsCompleted: 8,
-      totalSections: 15,
-      strengths: ['Self-awareness', 'Emotional regulation', 'Community connection'],
-      growthAreas: ['Physical wellness', 'Financial security', 'Career satisfaction'],
-      lastUpdated: new Date().toISOString()
-    }
+
+    const progress = await wellnessAssessmentService.getProgress(userId)
 
     res.json({ success: true, progress })
   } catch (error) {
@@ -466,80 +636,24 @@ app.get('/api/wellness/progress/:userId', async (req, res) => {
   }
 })
 
-// Problem-Solving Framework API
-app.get('/api/frameworks', async (req, res) => {
-  try {
-    const frameworks = [
-      {
-        id: 'design-thinking',
-        name: 'Design Thinking Process',
-        difficulty: 'intermediate',
-        estimatedTime: '2-4 hours',
-        steps: 5,
-        description: 'Human-centered approach to creative problem-solving'
-      },
-      {
-        id: 'root-cause-analysis', 
-        name: 'Root Cause Analysis',
-        difficulty: 'beginner',
-        estimatedTime: '1-2 hours',
-        steps: 5,
-        description: 'Systematic method to identify underlying causes'
-      },
-      {
-        id: 'cost-benefit-analysis',
-        name: 'Cost-Benefit Analysis',
-        difficulty: 'intermediate', 
-        estimatedTime: '2-3 hours',
-        steps: 6,
-        description: 'Systematic evaluation of decision alternatives'
-      }
-    ]
-
-    res.json({ success: true, frameworks })
-  } catch (error) {
-    console.error('Frameworks error:', error)
-    res.status(500).json({ error: 'Failed to fetch frameworks' })
-  }
-})
-
-app.post('/api/frameworks/:frameworkId/progress', async (req, res) => {
-  try {
-    const { frameworkId } = req.params
-    const { userId, stepId, response } = req.body
-
-    // Store framework progress
-    const progress = {
-      frameworkId,
-      userId,
-      stepId,
-      response,
-      timestamp: new Date().toISOString()
-    }
-
-    res.json({ success: true, progress })
-  } catch (error) {
-    console.error('Framework progress error:', error)
-    res.status(500).json({ error: 'Failed to save framework progress' })
-  }
-})
-
 // Journaling API
 app.post('/api/journal/entries', async (req, res) => {
   try {
-    const { userId, entry } = req.body
+    const userId = req.auth?.userId || req.body.userId
+    const { entry } = req.body
 
-    const savedEntry = {
-      id: `journal-${Date.now()}`,
-      userId,
-      ...entry,
-      createdAt: new Date().toISOString(),
-      wordCount: entry.content?.length || 0,
-      sentiment: analyzeSentiment(entry.content)
+    if (!userId) {
+      return res.status(400).json({ error: 'userId is required' })
     }
 
-    res.json({ success: true, entry: savedEntry })
+    const saved = await journalingService.createEntry(userId, entry)
+    const achievementsUnlocked = await trackActivity(userId, 'journal_entry', { sourceId: saved.id, occurredAt: saved.createdAt })
+
+    res.json({ success: true, entry: saved, achievementsUnlocked })
   } catch (error) {
+    if (error instanceof JournalValidationError) {
+      return res.status(400).json({ error: error.message })
+    }
     console.error('Journal entry error:', error)
     res.status(500).json({ error: 'Failed to save journal entry' })
   }
@@ -548,9 +662,9 @@ app.post('/api/journal/entries', async (req, res) => {
 app.get('/api/journal/entries/:userId', async (req, res) => {
   try {
     const { userId } = req.params
-    
-    // Mock journal entries
-    const entries: any[] = []
+    const limit = Math.min(parseInt(req.query.limit as string) || 50, 200)
+
+    const entries = await journalingService.getEntries(userId, limit)
 
     res.json({ success: true, entries })
   } catch (error) {
@@ -562,14 +676,8 @@ app.get('/api/journal/entries/:userId', async (req, res) => {
 app.get('/api/journal/prompts/personalized/:userId', async (req, res) => {
   try {
     const { userId } = req.params
-    
-    const prompt = {
-      id: 'daily-prompt',
-      prompt: "What are three things you're grateful for today, and how do they connect to your deeper values?",
-      category: 'Gratitude & Values',
-      difficulty: 'gentle',
-      intentedOutcome: 'Build appreciation practice while connecting to personal meaning'
-    }
+
+    const prompt = await journalingService.getPersonalizedPrompt(userId)
 
     res.json({ success: true, prompt })
   } catch (error) {
@@ -578,6 +686,21 @@ app.get('/api/journal/prompts/personalized/:userId', async (req, res) => {
   }
 })
 
+app.get('/api/journal/trends/:userId', async (req, res) => {
+  try {
+    const { userId } = req.params
+    const days = Math.min(Math.max(parseInt(req.query.days as string) || 30, 1), 365)
+    const bucket = req.query.bucket === 'week' ? 'week' : 'day'
+
+    const trend = await journalingService.getSentimentTrend(userId, days, bucket)
+
+    res.json({ success: true, trend })
+  } catch (error) {
+    console.error('Journal trend error:', error)
+    res.status(500).json({ error: 'Failed to fetch journal trends' })
+  }
+})
+
 // Crisis Support API
 app.get('/api/crisis/resources', async (req, res) => {
   try {
@@ -606,17 +729,15 @@ app.get('/api/crisis/resources', async (req, res) => {
   }
 })
 
+app.get('/api/crisis/screening', (req, res) => {
+  res.json({ success: true, ...crisisTriageService.getScreening() })
+})
+
 app.post('/api/crisis/assessment', async (req, res) => {
   try {
-    const { urgency, symptoms, context } = req.body
-    
-    const assessment = {
-      urgency,
-      riskLevel: calculateRiskLevel(urgency, symptoms),
-      recommendedActions: getRecommendedActions(urgency),
-      resources: getCrisisResources().slice(0, 5),
-      timestamp: new Date().toISOString()
-    }
+    const { answers, protectiveFactors, location, urgency } = req.body
+
+    const assessment = crisisTriageService.assess({ answers, protectiveFactors, location, urgency })
 
     res.json({ success: true, assessment })
   } catch (error) {
@@ -625,33 +746,45 @@ app.post('/api/crisis/assessment', async (req, res) => {
   }
 })
 
+app.post('/api/crisis/safety-plan', async (req, res) => {
+  try {
+    const plan = crisisTriageService.generateSafetyPlan(req.body || {})
+
+    // Anyone can generate a plan; signed-in users keep it to come back to
+    if (!req.auth) {
+      return res.json({ success: true, plan, saved: false })
+    }
+
+    const saved = await crisisTriageService.saveSafetyPlan(req.auth.userId, plan)
+
+    res.json({ success: true, plan: saved, saved: true })
+  } catch (error) {
+    console.error('Safety plan error:', error)
+    res.status(500).json({ error: 'Failed to create safety plan' })
+  }
+})
+
+app.get('/api/crisis/safety-plan/:userId', async (req, res) => {
+  try {
+    const plan = await crisisTriageService.getSafetyPlan(req.params.userId)
+
+    if (!plan) {
+      return res.status(404).json({ error: 'No safety plan saved yet' })
+    }
+
+    res.json({ success: true, plan })
+  } catch (error) {
+    console.error('Safety plan fetch error:', error)
+    res.status(500).json({ error: 'Failed to fetch safety plan' })
+  }
+})
+
 // Achievement System API
 app.get('/api/achievements/:userId', async (req, res) => {
   try {
     const { userId } = req.params
-    
-    const achievements = {
-      unlocked: 8,
-      total: 16,
-      recent: [
-        {
-          id: 'first-journal-entry',
-          title: 'First Steps',
-          description: 'Write your first journal entry',
-          unlockedAt: new Date().toISOString(),
-          rarity: 'common'
-        }
-      ],
-      progress: [
-        {
-          id: 'week-streak',
-          title: 'Seven Days Strong', 
-          progress: 60,
-          target: 7,
-          current: 4
-        }
-      ]
-    }
+
+    const achievements = await getAchievementService().getAchievements(userId)
 
     res.json({ success: true, achievements })
   } catch (error) {
@@ -698,21 +831,8 @@ app.post('/api/recommendations/:recommendationId/feedback', async (req, res) =>
 app.get('/api/user/:userId/progress', async (req, res) => {
   try {
     const { userId } = req.params
-    
-    const progress = {
-      wellnessScore: 75,
-      journalEntries: 12,
-      journalStreak: 5,
-      frameworksCompleted: 2,
-      achievementsUnlocked: 8,
-      totalEngagementTime: 450, // minutes
-      lastActive: new Date().toISOString(),
-      strengthsIdentified: ['Self-reflection', 'Community connection', 'Authenticity'],
-      recentActivity: [
-        { type: 'journal', action: 'Morning reflection', timestamp: new Date().toISOString() },
-        { type: 'wellness', action: 'Completed identity section', timestamp: new Date().toISOString() }
-      ]
-    }
+
+    const progress = await getAchievementService().getProgress(userId)
 
     res.json({ success: true, progress })
   } catch (error) {
@@ -721,21 +841,73 @@ app.get('/api/user/:userId/progress', async (req, res) => {
   }
 })
 
+// Journey History API: what IVOR remembers of a user's journey, under their control
+app.get('/api/journey/history/:userId', async (req, res) => {
+  try {
+    const history = await journeyConversationService.getJourneyHistory(req.params.userId)
+
+    res.json({ success: true, ...history })
+  } catch (error) {
+    console.error('Journey history error:', error)
+    res.status(500).json({ error: 'Failed to fetch journey history' })
+  }
+})
+
+app.put('/api/journey/history/:userId/retention', async (req, res) => {
+  try {
+    const result = await journeyConversationService.setJourneyHistoryRetention(req.params.userId, req.body?.days)
+
+    res.json({ success: true, ...result })
+  } catch (error) {
+    if (error instanceof JourneyHistoryError) {
+      return res.status(error.status).json({ error: error.message })
+    }
+    console.error('Journey history retention error:', error)
+    res.status(500).json({ error: 'Failed to update journey history retention' })
+  }
+})
+
+app.delete('/api/journey/history/:userId', async (req, res) => {
+  try {
+    const result = await journeyConversationService.deleteJourneyHistory(req.params.userId)
+
+    res.json({ success: true, ...result })
+  } catch (error) {
+    console.error('Journey history delete error:', error)
+    res.status(500).json({ error: 'Failed to delete journey history' })
+  }
+})
+
 // Helper functions
-async function generateJourneyAwareResponse(message: string, context?: any, sessionId?: string): Promise<{
+async function generateJourneyAwareResponse(
+  message: string,
+  context?: any,
+  sessionId?: string,
+  onToken?: (token: string) => void
+): Promise<{
   response: string
   journeyContext: any
   nextStageGuidance: string
   followUpRequired: boolean
   resourcesProvided: string[]
+  responseId?: string
+  trustScore?: number
+  trustLevel?: JourneyResponse['trustLevel']
+  trustDescription?: string
+  sourceVerification?: JourneyResponse['sourceVerification']
 }> {
+  let streamed = false
   try {
     // JourneyAwareConversationService handles emotion detection,
     // topic extraction, and AI/fallback routing internally
     const journeyResponse = await journeyConversationService.generateJourneyAwareResponse(
       message,
       context || {},
-      sessionId || 'default'
+      sessionId || 'default',
+      onToken && (token => {
+        streamed = true
+        onToken(token)
+      })
     )
 
     return {
@@ -743,12 +915,22 @@ async function generateJourneyAwareResponse(message: string, context?: any, sess
       journeyContext: journeyResponse.journeyContext,
       nextStageGuidance: journeyResponse.nextStageGuidance,
       followUpRequired: journeyResponse.followUpRequired,
-      resourcesProvided: journeyResponse.resourcesProvided
+      resourcesProvided: journeyResponse.resourcesProvided,
+      responseId: journeyResponse.responseId,
+      trustScore: journeyResponse.trustScore,
+      trustLevel: journeyResponse.trustLevel,
+      trustDescription: journeyResponse.trustDescription,
+      sourceVerification: journeyResponse.sourceVerification
     }
   } catch (error) {
+    // Once part of the reply has streamed, the caller reports the failure instead
+    if (streamed) throw error
+
     console.error('Journey-aware AI response error:', error)
+    const fallbackText = generateFallbackResponse(message)
+    onToken?.(fallbackText)
     return {
-      response: generateFallbackResponse(message),
+      response: fallbackText,
       journeyContext: {
         stage: 'growth',
         emotion: 'hopeful',
@@ -802,49 +984,6 @@ I can help you think through building connections, finding community spaces, nav
 I know about wellness coaching, problem-solving frameworks, journaling, crisis support, and community resources across the UK. What do you need?`
 }
 
-function calculateWellnessScore(answers: any): number {
-  // Basic scoring logic - would be more sophisticated in real implementation
-  return Math.floor(Math.random() * 40) + 60 // 60-100 range
-}
-
-function generateWellnessInsights(answers: any): string[] {
-  return [
-    "Your self-awareness shows strong foundation for growth",
-    "Community connection appears to be a key strength",
-    "Consider focusing on stress management techniques"
-  ]
-}
-
-function generateWellnessRecommendations(answers: any): string[] {
-  return [
-    "Try morning intention-setting practice",
-    "Explore identity journaling prompts", 
-    "Connect with local LGBTQ+ community resources"
-  ]
-}
-
-function getNextWellnessSection(currentSectionId: string): string | null {
-  const sections = ['mental-emotional-health', 'identity-authenticity', 'relationships-social', 'career-purpose']
-  const currentIndex = sections.indexOf(currentSectionId)
-  return currentIndex < sections.length - 1 ? sections[currentIndex + 1] : null
-}
-
-function analyzeSentiment(content: string): 'positive' | 'neutral' | 'challenging' | 'mixed' {
-  // Basic sentiment analysis - would use AI in real implementation
-  const positiveWords = ['grateful', 'happy', 'excited', 'love', 'amazing', 'wonderful', 'great']
-  const challengingWords = ['difficult', 'hard', 'struggle', 'stress', 'anxiety', 'worry', 'sad']
-  
-  const words = content.toLowerCase().split(' ')
-  const positiveCount = words.filter(word => positiveWords.includes(word)).length
-  const challengingCount = words.filter(word => challengingWords.includes(word)).length
-  
-  if (positiveCount > challengingCount && positiveCount > 0) return 'positive'
-  if (challengingCount > positiveCount && challengingCount > 0) return 'challenging'
-  if (positiveCount > 0 && challengingCount > 0) return 'mixed'
-  return 'neutral'
-}
-
-
 function getCrisisResources() {
   return [
     {
@@ -894,23 +1033,6 @@ function getCrisisResources() {
   ]
 }
 
-function calculateRiskLevel(urgency: string, symptoms: string[]): string {
-  if (urgency === 'emergency') return 'high'
-  if (urgency === 'high') return 'moderate'
-  return 'low'
-}
-
-function getRecommendedActions(urgency: string): string[] {
-  switch (urgency) {
-    case 'emergency':
-      return ['Call Samaritans: 116 123 (free, 24/7)', 'Call 999 for immediate danger', 'Text SHOUT to 85258']
-    case 'high':
-      return ['Call Switchboard: 0300 330 0630', 'Reach out to a trusted person', 'Contact MindOut: mindout.org.uk']
-    default:
-      return ['Use coping strategies', 'Schedule regular check-ins', 'Build support network']
-  }
-}
-
 function generatePersonalizedRecommendations(userId: string) {
   return [
     {
@@ -965,7 +1087,7 @@ async function initializeAndStart() {
   console.log('')
   console.log('🧠 CONVERSATION INTELLIGENCE STATUS:')
   console.log(`   ├── Database Connected: ${conversationIntelligenceService.isInitialized() ? '✅ YES' : '⚠️ MOCK MODE'}`)
-  console.log(`   ├── AI Theme Extraction: ${conversationIntelligenceService.isAIExtractEnabled() ? '✅ GROQ' : '⚠️ KEYWORD-BASED'}`)
+  console.log(`   ├── AI Theme Extraction: ${conversationIntelligenceService.isAIExtractEnabled() ? '✅ LLM' : '⚠️ KEYWORD-BASED'}`)
   console.log(`   └── Community Insights: ${conversationIntelligenceService.isInitialized() ? 'AVAILABLE' : 'LIMITED'}`)
   console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━')
 
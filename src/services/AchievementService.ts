@@ -0,0 +1,279 @@
+/**
+ * Achievement Service
+ * Records user activity events and unlocks achievements declared as rules
+ * over them (see data/achievements.ts). Streaks count Europe/London calendar
+ * days, so a late-night entry during BST lands on the day the user lived it.
+ *
+ * Unlocking is idempotent: rules are re-evaluated on every recorded event
+ * and read, and an achievement already unlocked is never unlocked again.
+ */
+
+import { randomUUID } from 'crypto'
+import { ActivityEvent, ActivityStore, createActivityStore } from './ActivityStore.js'
+import { ACHIEVEMENTS, ACTIVITY_TYPES, Achievement, AchievementRule, ActivityType } from '../data/achievements.js'
+
+const STREAK_TIME_ZONE = 'Europe/London'
+const RECENT_UNLOCKS = 5
+const ACTIVITY_FEED_LENGTH = 20
+
+const londonDateFormat = new Intl.DateTimeFormat('en-CA', {
+  timeZone: STREAK_TIME_ZONE,
+  year: 'numeric',
+  month: '2-digit',
+  day: '2-digit'
+})
+
+/** Calendar date (YYYY-MM-DD) in Europe/London */
+export function londonDateKey(date: Date): string {
+  return londonDateFormat.format(date)
+}
+
+function previousDateKey(key: string): string {
+  const date = new Date(`${key}T00:00:00Z`)
+  date.setUTCDate(date.getUTCDate() - 1)
+  return date.toISOString().slice(0, 10)
+}
+
+export interface Streak {
+  // Consecutive days ending today, or yesterday if today has no activity yet
+  current: number
+  longest: number
+}
+
+export function computeStreak(dates: Date[], now: Date = new Date()): Streak {
+  const days = new Set(dates.map(londonDateKey))
+  if (days.size === 0) return { current: 0, longest: 0 }
+
+  let longest = 0
+  for (const day of days) {
+    // Only count runs from their first day
+    if (days.has(previousDateKey(day))) continue
+    let length = 1
+    let cursor = day
+    while (true) {
+      const next = new Date(`${cursor}T00:00:00Z`)
+      next.setUTCDate(next.getUTCDate() + 1)
+      cursor = next.toISOString().slice(0, 10)
+      if (!days.has(cursor)) break
+      length++
+    }
+    longest = Math.max(longest, length)
+  }
+
+  const today = londonDateKey(now)
+  let cursor = days.has(today) ? today : previousDateKey(today)
+  let current = 0
+  while (days.has(cursor)) {
+    current++
+    cursor = previousDateKey(cursor)
+  }
+
+  return { current, longest }
+}
+
+interface ActivityStats {
+  counts: Record<ActivityType, number>
+  streaks: Record<ActivityType | 'any', Streak>
+  variety: number
+}
+
+function computeStats(events: ActivityEvent[], now: Date): ActivityStats {
+  const counts = {} as Record<ActivityType, number>
+  const streaks = {} as Record<ActivityType | 'any', Streak>
+
+  for (const type of ACTIVITY_TYPES) {
+    const ofType = events.filter(e => e.type === type)
+    counts[type] = ofType.length
+    streaks[type] = computeStreak(ofType.map(e => e.occurredAt), now)
+  }
+  streaks.any = computeStreak(events.map(e => e.occurredAt), now)
+
+  return { counts, streaks, variety: ACTIVITY_TYPES.filter(type => counts[type] > 0).length }
+}
+
+/**
+ * `met` uses the longest streak ever reached; `current` is what the user is
+ * working on now, so a broken streak shows progress from zero again.
+ */
+function evaluateRule(rule: AchievementRule, stats: ActivityStats): { current: number; target: number; met: boolean } {
+  switch (rule.kind) {
+    case 'count':
+      return { current: stats.counts[rule.activity], target: rule.target, met: stats.counts[rule.activity] >= rule.target }
+    case 'streak': {
+      const streak = stats.streaks[rule.activity]
+      return { current: streak.current, target: rule.days, met: streak.longest >= rule.days }
+    }
+    case 'variety':
+      return { current: stats.variety, target: rule.target, met: stats.variety >= rule.target }
+  }
+}
+
+const ACTIVITY_LABELS: Record<ActivityType, string> = {
+  journal_entry: 'Wrote a journal entry',
+  event_rsvp: 'RSVPed to an event',
+  event_check_in: 'Checked in at an event',
+  quiz_passed: 'Passed a learning quiz',
+  group_joined: 'Joined a community group',
+  framework_completed: 'Completed a problem-solving framework'
+}
+
+export interface RecordActivityOptions {
+  // ID of the underlying record (entry, event, module, group, session)
+  sourceId?: string
+  metadata?: Record<string, any>
+  occurredAt?: Date
+}
+
+export interface AchievementSummary {
+  unlocked: number
+  total: number
+  recent: Array<Pick<Achievement, 'id' | 'title' | 'description' | 'category' | 'rarity'> & { unlockedAt: string }>
+  progress: Array<Pick<Achievement, 'id' | 'title' | 'description' | 'category' | 'rarity'> & { progress: number; target: number; current: number }>
+}
+
+export interface UserProgress {
+  journalEntries: number
+  journalStreak: number
+  longestJournalStreak: number
+  activeDayStreak: number
+  eventRsvps: number
+  eventsAttended: number
+  quizzesPassed: number
+  groupsJoined: number
+  frameworksCompleted: number
+  achievementsUnlocked: number
+  lastActive: string | null
+  recentActivity: Array<{ type: ActivityType; action: string; timestamp: string; metadata: Record<string, any> }>
+}
+
+function describeAchievement(achievement: Achievement) {
+  const { id, title, description, category, rarity } = achievement
+  return { id, title, description, category, rarity }
+}
+
+export class AchievementService {
+  private store: ActivityStore
+
+  constructor(store?: ActivityStore) {
+    this.store = store || createActivityStore()
+  }
+
+  /**
+   * Record an activity and unlock anything it earns. Repeats of the same
+   * source (same type and sourceId) are ignored.
+   */
+  async recordActivity(
+    userId: string,
+    type: ActivityType,
+    options: RecordActivityOptions = {}
+  ): Promise<{ recorded: boolean; unlocked: Achievement[] }> {
+    const event: ActivityEvent = {
+      id: randomUUID(),
+      userId,
+      type,
+      dedupeKey: `${type}:${options.sourceId || randomUUID()}`,
+      metadata: options.metadata || {},
+      occurredAt: options.occurredAt || new Date()
+    }
+
+    const recorded = await this.store.recordEvent(event)
+    const unlocked = recorded ? await this.evaluate(userId) : []
+    return { recorded, unlocked }
+  }
+
+  /** Unlock every achievement whose rule is now met; returns the newly unlocked ones */
+  async evaluate(userId: string, now: Date = new Date()): Promise<Achievement[]> {
+    const [events, unlocked] = await Promise.all([this.store.getEvents(userId), this.store.getUnlocked(userId)])
+    const stats = computeStats(events, now)
+    const alreadyUnlocked = new Set(unlocked.map(u => u.achievementId))
+
+    const newlyUnlocked: Achievement[] = []
+    for (const achievement of ACHIEVEMENTS) {
+      if (alreadyUnlocked.has(achievement.id) || !evaluateRule(achievement.rule, stats).met) continue
+      if (await this.store.unlock({ userId, achievementId: achievement.id, unlockedAt: now })) {
+        newlyUnlocked.push(achievement)
+      }
+    }
+    return newlyUnlocked
+  }
+
+  async getAchievements(userId: string, now: Date = new Date()): Promise<AchievementSummary> {
+    await this.evaluate(userId, now)
+
+    const [events, unlocked] = await Promise.all([this.store.getEvents(userId), this.store.getUnlocked(userId)])
+    const stats = computeStats(events, now)
+    const unlockedAt = new Map(unlocked.map(u => [u.achievementId, u.unlockedAt]))
+
+    const recent = ACHIEVEMENTS
+      .filter(a => unlockedAt.has(a.id))
+      .sort((a, b) => unlockedAt.get(b.id)!.getTime() - unlockedAt.get(a.id)!.getTime())
+      .slice(0, RECENT_UNLOCKS)
+      .map(a => ({ ...describeAchievement(a), unlockedAt: unlockedAt.get(a.id)!.toISOString() }))
+
+    const progress = ACHIEVEMENTS
+      .filter(a => !unlockedAt.has(a.id))
+      .map(a => {
+        const { current, target } = evaluateRule(a.rule, stats)
+        return { ...describeAchievement(a), progress: Math.round((Math.min(current, target) / target) * 100), target, current }
+      })
+      .sort((a, b) => b.progress - a.progress)
+
+    return {
+      unlocked: ACHIEVEMENTS.filter(a => unlockedAt.has(a.id)).length,
+      total: ACHIEVEMENTS.length,
+      recent,
+      progress
+    }
+  }
+
+  async getProgress(userId: string, now: Date = new Date()): Promise<UserProgress> {
+    await this.evaluate(userId, now)
+
+    const [events, unlocked] = await Promise.all([this.store.getEvents(userId), this.store.getUnlocked(userId)])
+    const stats = computeStats(events, now)
+
+    return {
+      journalEntries: stats.counts.journal_entry,
+      journalStreak: stats.streaks.journal_entry.current,
+      longestJournalStreak: stats.streaks.journal_entry.longest,
+      activeDayStreak: stats.streaks.any.current,
+      eventRsvps: stats.counts.event_rsvp,
+      eventsAttended: stats.counts.event_check_in,
+      quizzesPassed: stats.counts.quiz_passed,
+      groupsJoined: stats.counts.group_joined,
+      frameworksCompleted: stats.counts.framework_completed,
+      achievementsUnlocked: unlocked.length,
+      lastActive: events.length > 0 ? events[0].occurredAt.toISOString() : null,
+      recentActivity: events.slice(0, ACTIVITY_FEED_LENGTH).map(event => ({
+        type: event.type,
+        action: ACTIVITY_LABELS[event.type],
+        timestamp: event.occurredAt.toISOString(),
+        metadata: event.metadata
+      }))
+    }
+  }
+}
+
+let achievementService: AchievementService | null = null
+
+export function getAchievementService(): AchievementService {
+  if (!achievementService) {
+    achievementService = new AchievementService()
+  }
+  return achievementService
+}
+
+/**
+ * Fire-and-forget hook for routes: record the activity, but never let a
+ * tracking failure fail the action the user actually took.
+ */
+export async function trackActivity(userId: string, type: ActivityType, options: RecordActivityOptions = {}): Promise<Achievement[]> {
+  try {
+    return (await getAchievementService().recordActivity(userId, type, options)).unlocked
+  } catch (error) {
+    console.error(`[Achievements] Failed to record ${type} for ${userId}:`, error)
+    return []
+  }
+}
+
+export default AchievementService
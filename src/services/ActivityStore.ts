@@ -0,0 +1,173 @@
+/**
+ * Activity Store
+ * Persists the activity events achievements are computed from, and the
+ * achievements each user has unlocked. Both writes are idempotent: an event
+ * with the same dedupe key, or an already-unlocked achievement, is ignored.
+ *
+ * Backends:
+ * - SupabaseActivityStore: activity_events and user_achievements tables (production)
+ * - InMemoryActivityStore: process-local stand-in (tests, demo mode)
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js'
+import { getSupabaseClient } from '../lib/supabaseClient.js'
+import { ActivityType } from '../data/achievements.js'
+
+// Postgres unique_violation
+const UNIQUE_VIOLATION = '23505'
+
+export interface ActivityEvent {
+  id: string
+  userId: string
+  type: ActivityType
+  // Identifies the underlying action (e.g. `event_check_in:<eventId>`) so retries don't double count
+  dedupeKey: string
+  metadata: Record<string, any>
+  occurredAt: Date
+}
+
+export interface UnlockedAchievement {
+  userId: string
+  achievementId: string
+  unlockedAt: Date
+}
+
+export interface ActivityStore {
+  readonly backend: 'supabase' | 'memory'
+
+  /** Returns false when an event with the same dedupe key already exists */
+  recordEvent(event: ActivityEvent): Promise<boolean>
+
+  /** Events for a user, newest first */
+  getEvents(userId: string, limit?: number): Promise<ActivityEvent[]>
+
+  /** Returns false when the achievement was already unlocked */
+  unlock(unlock: UnlockedAchievement): Promise<boolean>
+
+  getUnlocked(userId: string): Promise<UnlockedAchievement[]>
+}
+
+export class InMemoryActivityStore implements ActivityStore {
+  readonly backend = 'memory' as const
+  private events = new Map<string, ActivityEvent[]>()
+  private unlocks = new Map<string, UnlockedAchievement[]>()
+
+  async recordEvent(event: ActivityEvent): Promise<boolean> {
+    const history = this.events.get(event.userId) || []
+    if (history.some(e => e.dedupeKey === event.dedupeKey)) return false
+
+    history.push(event)
+    history.sort((a, b) => b.occurredAt.getTime() - a.occurredAt.getTime())
+    this.events.set(event.userId, history)
+    return true
+  }
+
+  async getEvents(userId: string, limit?: number): Promise<ActivityEvent[]> {
+    const history = this.events.get(userId) || []
+    return limit ? history.slice(0, limit) : [...history]
+  }
+
+  async unlock(unlock: UnlockedAchievement): Promise<boolean> {
+    const unlocked = this.unlocks.get(unlock.userId) || []
+    if (unlocked.some(u => u.achievementId === unlock.achievementId)) return false
+
+    unlocked.push(unlock)
+    this.unlocks.set(unlock.userId, unlocked)
+    return true
+  }
+
+  async getUnlocked(userId: string): Promise<UnlockedAchievement[]> {
+    return [...(this.unlocks.get(userId) || [])]
+  }
+}
+
+export class SupabaseActivityStore implements ActivityStore {
+  readonly backend = 'supabase' as const
+
+  constructor(private supabase: SupabaseClient) {}
+
+  async recordEvent(event: ActivityEvent): Promise<boolean> {
+    const { error } = await this.supabase.from('activity_events').insert({
+      id: event.id,
+      user_id: event.userId,
+      activity_type: event.type,
+      dedupe_key: event.dedupeKey,
+      metadata: event.metadata,
+      occurred_at: event.occurredAt.toISOString()
+    })
+
+    if (error) {
+      if (error.code === UNIQUE_VIOLATION) return false
+      throw new Error(`Failed to record activity: ${error.message}`)
+    }
+    return true
+  }
+
+  async getEvents(userId: string, limit?: number): Promise<ActivityEvent[]> {
+    let request = this.supabase
+      .from('activity_events')
+      .select('*')
+      .eq('user_id', userId)
+      .order('occurred_at', { ascending: false })
+
+    if (limit) {
+      request = request.limit(limit)
+    }
+
+    const { data, error } = await request
+
+    if (error) {
+      throw new Error(`Failed to fetch activity: ${error.message}`)
+    }
+
+    return (data || []).map(row => ({
+      id: row.id,
+      userId: row.user_id,
+      type: row.activity_type,
+      dedupeKey: row.dedupe_key,
+      metadata: row.metadata || {},
+      occurredAt: new Date(row.occurred_at)
+    }))
+  }
+
+  async unlock(unlock: UnlockedAchievement): Promise<boolean> {
+    const { error } = await this.supabase.from('user_achievements').insert({
+      user_id: unlock.userId,
+      achievement_id: unlock.achievementId,
+      unlocked_at: unlock.unlockedAt.toISOString()
+    })
+
+    if (error) {
+      if (error.code === UNIQUE_VIOLATION) return false
+      throw new Error(`Failed to unlock achievement: ${error.message}`)
+    }
+    return true
+  }
+
+  async getUnlocked(userId: string): Promise<UnlockedAchievement[]> {
+    const { data, error } = await this.supabase
+      .from('user_achievements')
+      .select('*')
+      .eq('user_id', userId)
+
+    if (error) {
+      throw new Error(`Failed to fetch achievements: ${error.message}`)
+    }
+
+    return (data || []).map(row => ({
+      userId: row.user_id,
+      achievementId: row.achievement_id,
+      unlockedAt: new Date(row.unlocked_at)
+    }))
+  }
+}
+
+/**
+ * Pick the Supabase-backed store when credentials are configured,
+ * otherwise fall back to the in-memory store.
+ */
+export function createActivityStore(supabase: SupabaseClient | null = getSupabaseClient()): ActivityStore {
+  return supabase ? new SupabaseActivityStore(supabase) : new InMemoryActivityStore()
+}
+
+export default createActivityStore
@@ -0,0 +1,287 @@
+/**
+ * Analytics Service
+ * Event-sourced analytics: views and clicks from the tracking endpoints,
+ * RSVPs, check-ins and ticket sales are logged as they happen, rolled up
+ * into daily per-event and platform aggregates by the scheduler, and read
+ * back as trends and view → RSVP → check-in funnels.
+ *
+ * Days are Europe/London calendar days. Reports run through yesterday, the
+ * last day the nightly rollup has closed.
+ */
+
+import { randomUUID } from 'crypto'
+import { parseOccurrenceId } from '../lib/recurrence.js'
+import { londonDateKey } from './AchievementService.js'
+import {
+  AnalyticsEventSummary,
+  AnalyticsStore,
+  DailyEventStats,
+  DailyPlatformStats,
+  METRIC_KINDS,
+  MetricEvent,
+  MetricKind,
+  createAnalyticsStore
+} from './AnalyticsStore.js'
+
+// The rollup re-reads recent days so offline check-ins synced late are counted
+export const AGGREGATION_LOOKBACK_DAYS = 3
+const ROLLUP_PAGE_SIZE = 1000
+const MAX_REPORT_DAYS = 366
+
+export class AnalyticsError extends Error {
+  constructor(message: string, public status: 400 | 404 = 400) {
+    super(message)
+    this.name = 'AnalyticsError'
+  }
+}
+
+export interface TrackInput {
+  eventId: string
+  kind: MetricKind
+  actorKey?: string
+  quantity?: number
+  amountPence?: number
+  source?: string
+  occurredAt?: Date
+}
+
+export type MetricTotals = Omit<DailyPlatformStats, 'date'>
+
+export interface FunnelStep {
+  step: 'viewed' | 'registered' | 'checked_in'
+  count: number
+  // Share of the previous step that reached this one; null for the first step or an empty previous step
+  rate: number | null
+}
+
+export interface TrendPoint {
+  date: string
+  views: number
+  rsvps: number
+  checkIns: number
+  ticketsSold: number
+}
+
+export interface AnalyticsReport {
+  from: string
+  to: string
+  totals: MetricTotals
+  funnel: FunnelStep[]
+  trends: TrendPoint[]
+}
+
+export interface OrganizerReport extends AnalyticsReport {
+  events: (AnalyticsEventSummary & { totals: MetricTotals; funnel: FunnelStep[] })[]
+}
+
+function emptyTotals(): MetricTotals {
+  return { views: 0, uniqueViews: 0, clicks: 0, shares: 0, saves: 0, rsvps: 0, cancellations: 0, checkIns: 0, ticketsSold: 0, revenuePence: 0 }
+}
+
+function addTotals(into: MetricTotals, row: MetricTotals): MetricTotals {
+  for (const key of Object.keys(into) as (keyof MetricTotals)[]) {
+    into[key] += row[key]
+  }
+  return into
+}
+
+function shiftDay(day: string, days: number): string {
+  const date = new Date(`${day}T00:00:00Z`)
+  date.setUTCDate(date.getUTCDate() + days)
+  return date.toISOString().slice(0, 10)
+}
+
+/** Views lead to RSVPs or tickets, which lead to check-ins */
+export function buildFunnel(totals: MetricTotals): FunnelStep[] {
+  const counts: [FunnelStep['step'], number][] = [
+    ['viewed', totals.uniqueViews],
+    ['registered', Math.max(0, totals.rsvps - totals.cancellations) + totals.ticketsSold],
+    ['checked_in', totals.checkIns]
+  ]
+
+  return counts.map(([step, count], index) => {
+    const previous = index > 0 ? counts[index - 1][1] : 0
+    return { step, count, rate: previous > 0 ? Math.round((count / previous) * 10000) / 10000 : null }
+  })
+}
+
+/** Roll one day's logged events up into per-event counts */
+export function rollup(day: string, events: MetricEvent[]): DailyEventStats[] {
+  const stats = new Map<string, DailyEventStats>()
+  const viewers = new Map<string, Set<string>>()
+
+  for (const event of events) {
+    let row = stats.get(event.eventId)
+    if (!row) {
+      row = { eventId: event.eventId, date: day, ...emptyTotals() }
+      stats.set(event.eventId, row)
+      viewers.set(event.eventId, new Set())
+    }
+
+    switch (event.kind) {
+      case 'view':
+        row.views++
+        // Anonymous views without a session can't be told apart, so each counts once
+        viewers.get(event.eventId)!.add(event.actorKey || event.id)
+        break
+      case 'click': row.clicks++; break
+      case 'share': row.shares++; break
+      case 'save': row.saves++; break
+      case 'rsvp': row.rsvps++; break
+      case 'rsvp_cancelled': row.cancellations++; break
+      case 'check_in': row.checkIns += event.quantity; break
+      case 'ticket_sale':
+        row.ticketsSold += event.quantity
+        row.revenuePence += event.amountPence
+        break
+    }
+  }
+
+  for (const row of stats.values()) {
+    row.uniqueViews = viewers.get(row.eventId)!.size
+  }
+  return [...stats.values()]
+}
+
+export class AnalyticsService {
+  constructor(private store: AnalyticsStore = createAnalyticsStore()) {}
+
+  get backend() {
+    return this.store.backend
+  }
+
+  async track(input: TrackInput, now: Date = new Date()): Promise<MetricEvent> {
+    if (!input.eventId) {
+      throw new AnalyticsError('eventId is required')
+    }
+    if (!METRIC_KINDS.includes(input.kind)) {
+      throw new AnalyticsError(`Invalid action: ${input.kind}`)
+    }
+
+    const { eventId, date } = parseOccurrenceId(String(input.eventId))
+    const occurredAt = input.occurredAt && !isNaN(input.occurredAt.getTime()) ? input.occurredAt : now
+    const event: MetricEvent = {
+      id: randomUUID(),
+      eventId,
+      occurrenceId: date ? String(input.eventId) : undefined,
+      kind: input.kind,
+      actorKey: input.actorKey ? String(input.actorKey).slice(0, 200) : undefined,
+      quantity: Math.max(1, Math.floor(input.quantity || 1)),
+      amountPence: Math.max(0, Math.round(input.amountPence || 0)),
+      source: input.source ? String(input.source).slice(0, 100) : undefined,
+      occurredAt,
+      day: londonDateKey(occurredAt)
+    }
+
+    await this.store.record(event)
+    return event
+  }
+
+  /** Recompute and store one day's aggregates; safe to run again for the same day */
+  async aggregateDay(day: string): Promise<{ day: string; events: number; platform: DailyPlatformStats }> {
+    const logged: MetricEvent[] = []
+    for (let offset = 0; ; offset += ROLLUP_PAGE_SIZE) {
+      const page = await this.store.listDay(day, offset, ROLLUP_PAGE_SIZE)
+      logged.push(...page)
+      if (page.length < ROLLUP_PAGE_SIZE) break
+    }
+
+    const rows = rollup(day, logged)
+    const platform: DailyPlatformStats = { date: day, ...rows.reduce((totals, row) => addTotals(totals, row), emptyTotals()) }
+
+    await this.store.saveDailyStats(rows)
+    await this.store.saveDailyPlatformStats(platform)
+    return { day, events: rows.length, platform }
+  }
+
+  /** The scheduler's nightly run: today so far and the days before it */
+  async aggregateRecent(now: Date = new Date(), days: number = AGGREGATION_LOOKBACK_DAYS) {
+    const today = londonDateKey(now)
+    const results = []
+    for (let back = days - 1; back >= 0; back--) {
+      results.push(await this.aggregateDay(shiftDay(today, -back)))
+    }
+    return results
+  }
+
+  async eventReport(eventId: string, query: { days?: number } = {}, now: Date = new Date()): Promise<AnalyticsReport> {
+    const seriesId = parseOccurrenceId(eventId).eventId
+    const { from, to } = this.window(query.days, now)
+    const rows = await this.store.listDailyStats({ eventIds: [seriesId], from, to })
+    return this.report(from, to, rows)
+  }
+
+  /** Every event the organizer submitted, together and one by one */
+  async organizerReport(userId: string, query: { days?: number } = {}, now: Date = new Date()): Promise<OrganizerReport> {
+    const { from, to } = this.window(query.days, now)
+    const events = await this.store.listEventsSubmittedBy(userId)
+    const rows = await this.store.listDailyStats({ eventIds: events.map(event => event.id), from, to })
+
+    const byEvent = new Map<string, MetricTotals>()
+    for (const row of rows) {
+      byEvent.set(row.eventId, addTotals(byEvent.get(row.eventId) || emptyTotals(), row))
+    }
+
+    return {
+      ...this.report(from, to, rows),
+      events: events
+        .map(event => {
+          const totals = byEvent.get(event.id) || emptyTotals()
+          return { ...event, totals, funnel: buildFunnel(totals) }
+        })
+        .sort((a, b) => b.totals.views - a.totals.views)
+    }
+  }
+
+  async platformReport(query: { days?: number } = {}, now: Date = new Date()): Promise<AnalyticsReport> {
+    const { from, to } = this.window(query.days, now)
+    return this.report(from, to, await this.store.listDailyPlatformStats(from, to))
+  }
+
+  private window(days: number | undefined, now: Date): { from: string; to: string } {
+    const span = Math.min(Math.max(Math.floor(days || 30), 1), MAX_REPORT_DAYS)
+    const to = shiftDay(londonDateKey(now), -1)
+    return { from: shiftDay(to, -(span - 1)), to }
+  }
+
+  private report(from: string, to: string, rows: DailyPlatformStats[]): AnalyticsReport {
+    const totals = emptyTotals()
+    const byDate = new Map<string, MetricTotals>()
+    for (const row of rows) {
+      addTotals(totals, row)
+      byDate.set(row.date, addTotals(byDate.get(row.date) || emptyTotals(), row))
+    }
+
+    // Quiet days show as zero rather than being left out
+    const trends: TrendPoint[] = []
+    for (let day = from; day <= to; day = shiftDay(day, 1)) {
+      const counts = byDate.get(day) || emptyTotals()
+      trends.push({ date: day, views: counts.views, rsvps: counts.rsvps, checkIns: counts.checkIns, ticketsSold: counts.ticketsSold })
+    }
+
+    return { from, to, totals, funnel: buildFunnel(totals), trends }
+  }
+}
+
+let analyticsService: AnalyticsService | null = null
+
+export function getAnalyticsService(): AnalyticsService {
+  if (!analyticsService) {
+    analyticsService = new AnalyticsService()
+  }
+  return analyticsService
+}
+
+/**
+ * Fire-and-forget hook for routes: log what happened, but never let an
+ * analytics failure fail the action the user actually took.
+ */
+export async function trackEventMetric(eventId: string, kind: MetricKind, options: Omit<TrackInput, 'eventId' | 'kind'> = {}): Promise<void> {
+  try {
+    await getAnalyticsService().track({ eventId, kind, ...options })
+  } catch (error) {
+    console.error(`[Analytics] Failed to record ${kind} for ${eventId}:`, error)
+  }
+}
+
+export default AnalyticsService
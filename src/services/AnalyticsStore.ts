@@ -0,0 +1,316 @@
+/**
+ * Analytics Store
+ * The raw log of what happens around each event (views, clicks, RSVPs,
+ * check-ins, ticket sales) and the daily aggregates rolled up from it.
+ * Each logged row carries the Europe/London day it happened on, so the
+ * rollup reads one day's rows without any time zone arithmetic.
+ *
+ * Backends:
+ * - SupabaseAnalyticsStore: event_analytics_log, event_analytics and
+ *   platform_analytics tables (production)
+ * - InMemoryAnalyticsStore: process-local stand-in (tests, demo mode)
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js'
+import { getSupabaseClient } from '../lib/supabaseClient.js'
+
+export const METRIC_KINDS = ['view', 'click', 'share', 'save', 'rsvp', 'rsvp_cancelled', 'check_in', 'ticket_sale'] as const
+
+export type MetricKind = typeof METRIC_KINDS[number]
+
+export interface MetricEvent {
+  id: string
+  // Recurring events are counted against their series
+  eventId: string
+  occurrenceId?: string
+  kind: MetricKind
+  // Signed-in user id or anonymous session, for unique view counts
+  actorKey?: string
+  // People admitted by a check-in, or tickets in a sale
+  quantity: number
+  amountPence: number
+  source?: string
+  occurredAt: Date
+  // Europe/London calendar day (YYYY-MM-DD)
+  day: string
+}
+
+export interface DailyEventStats {
+  eventId: string
+  date: string
+  views: number
+  uniqueViews: number
+  clicks: number
+  shares: number
+  saves: number
+  rsvps: number
+  cancellations: number
+  checkIns: number
+  ticketsSold: number
+  revenuePence: number
+}
+
+// The same counts summed across every event, one row per day
+export type DailyPlatformStats = Omit<DailyEventStats, 'eventId'>
+
+export interface AnalyticsEventSummary {
+  id: string
+  title: string
+  date: string
+}
+
+export interface AnalyticsStore {
+  readonly backend: 'supabase' | 'memory'
+
+  record(event: MetricEvent): Promise<void>
+
+  /** One day's logged events, in a stable order for paging */
+  listDay(day: string, offset: number, limit: number): Promise<MetricEvent[]>
+
+  /** Insert or replace the rollups for their (event, date) */
+  saveDailyStats(rows: DailyEventStats[]): Promise<void>
+
+  listDailyStats(query: { eventIds?: string[]; from: string; to: string }): Promise<DailyEventStats[]>
+
+  saveDailyPlatformStats(row: DailyPlatformStats): Promise<void>
+
+  listDailyPlatformStats(from: string, to: string): Promise<DailyPlatformStats[]>
+
+  /** Events an organizer submitted, newest first */
+  listEventsSubmittedBy(userId: string): Promise<AnalyticsEventSummary[]>
+}
+
+const PAGE_SIZE = 1000
+
+export class InMemoryAnalyticsStore implements AnalyticsStore {
+  readonly backend = 'memory' as const
+  private log: MetricEvent[] = []
+  private daily = new Map<string, DailyEventStats>()
+  private platform = new Map<string, DailyPlatformStats>()
+
+  // Demo and test events have no submitter unless given here
+  constructor(private submitted: Map<string, AnalyticsEventSummary[]> = new Map()) {}
+
+  async record(event: MetricEvent): Promise<void> {
+    this.log.push({ ...event })
+  }
+
+  async listDay(day: string, offset: number, limit: number): Promise<MetricEvent[]> {
+    return this.log.filter(event => event.day === day).slice(offset, offset + limit).map(event => ({ ...event }))
+  }
+
+  async saveDailyStats(rows: DailyEventStats[]): Promise<void> {
+    for (const row of rows) {
+      this.daily.set(`${row.eventId}|${row.date}`, { ...row })
+    }
+  }
+
+  async listDailyStats(query: { eventIds?: string[]; from: string; to: string }): Promise<DailyEventStats[]> {
+    return [...this.daily.values()]
+      .filter(row => row.date >= query.from && row.date <= query.to)
+      .filter(row => !query.eventIds || query.eventIds.includes(row.eventId))
+      .sort((a, b) => a.date.localeCompare(b.date))
+      .map(row => ({ ...row }))
+  }
+
+  async saveDailyPlatformStats(row: DailyPlatformStats): Promise<void> {
+    this.platform.set(row.date, { ...row })
+  }
+
+  async listDailyPlatformStats(from: string, to: string): Promise<DailyPlatformStats[]> {
+    return [...this.platform.values()]
+      .filter(row => row.date >= from && row.date <= to)
+      .sort((a, b) => a.date.localeCompare(b.date))
+      .map(row => ({ ...row }))
+  }
+
+  async listEventsSubmittedBy(userId: string): Promise<AnalyticsEventSummary[]> {
+    return [...(this.submitted.get(userId) || [])]
+  }
+}
+
+function metricToRow(event: MetricEvent) {
+  return {
+    id: event.id,
+    event_id: event.eventId,
+    occurrence_id: event.occurrenceId ?? null,
+    kind: event.kind,
+    actor_key: event.actorKey ?? null,
+    quantity: event.quantity,
+    amount_pence: event.amountPence,
+    source: event.source ?? null,
+    occurred_at: event.occurredAt.toISOString(),
+    occurred_on: event.day
+  }
+}
+
+function metricFromRow(row: any): MetricEvent {
+  return {
+    id: row.id,
+    eventId: row.event_id,
+    occurrenceId: row.occurrence_id ?? undefined,
+    kind: row.kind,
+    actorKey: row.actor_key ?? undefined,
+    quantity: row.quantity ?? 1,
+    amountPence: row.amount_pence ?? 0,
+    source: row.source ?? undefined,
+    occurredAt: new Date(row.occurred_at),
+    day: row.occurred_on
+  }
+}
+
+function countsToRow(stats: DailyPlatformStats) {
+  return {
+    date: stats.date,
+    views: stats.views,
+    unique_views: stats.uniqueViews,
+    clicks: stats.clicks,
+    shares: stats.shares,
+    saves: stats.saves,
+    rsvps: stats.rsvps,
+    cancellations: stats.cancellations,
+    check_ins: stats.checkIns,
+    tickets_sold: stats.ticketsSold,
+    revenue_pence: stats.revenuePence
+  }
+}
+
+function countsFromRow(row: any): DailyPlatformStats {
+  return {
+    date: row.date,
+    views: row.views ?? 0,
+    uniqueViews: row.unique_views ?? 0,
+    clicks: row.clicks ?? 0,
+    shares: row.shares ?? 0,
+    saves: row.saves ?? 0,
+    rsvps: row.rsvps ?? 0,
+    cancellations: row.cancellations ?? 0,
+    checkIns: row.check_ins ?? 0,
+    ticketsSold: row.tickets_sold ?? 0,
+    revenuePence: row.revenue_pence ?? 0
+  }
+}
+
+export class SupabaseAnalyticsStore implements AnalyticsStore {
+  readonly backend = 'supabase' as const
+
+  constructor(private supabase: SupabaseClient) {}
+
+  async record(event: MetricEvent): Promise<void> {
+    const { error } = await this.supabase.from('event_analytics_log').insert(metricToRow(event))
+
+    if (error) {
+      throw new Error(`Failed to record analytics event: ${error.message}`)
+    }
+  }
+
+  async listDay(day: string, offset: number, limit: number): Promise<MetricEvent[]> {
+    const { data, error } = await this.supabase
+      .from('event_analytics_log')
+      .select('*')
+      .eq('occurred_on', day)
+      .order('id', { ascending: true })
+      .range(offset, offset + limit - 1)
+
+    if (error) {
+      throw new Error(`Failed to list analytics events: ${error.message}`)
+    }
+
+    return (data || []).map(metricFromRow)
+  }
+
+  async saveDailyStats(rows: DailyEventStats[]): Promise<void> {
+    if (rows.length === 0) return
+
+    const { error } = await this.supabase
+      .from('event_analytics')
+      .upsert(rows.map(row => ({
+        event_id: row.eventId,
+        ...countsToRow(row),
+        conversion_rate: row.uniqueViews > 0 ? Math.min(row.rsvps / row.uniqueViews, 9.9999) : 0
+      })), { onConflict: 'event_id,date' })
+
+    if (error) {
+      throw new Error(`Failed to save event analytics: ${error.message}`)
+    }
+  }
+
+  async listDailyStats(query: { eventIds?: string[]; from: string; to: string }): Promise<DailyEventStats[]> {
+    if (query.eventIds && query.eventIds.length === 0) return []
+
+    // Event ranges can exceed one page of results
+    const rows: DailyEventStats[] = []
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      let request = this.supabase
+        .from('event_analytics')
+        .select('*')
+        .gte('date', query.from)
+        .lte('date', query.to)
+      if (query.eventIds) {
+        request = request.in('event_id', query.eventIds)
+      }
+
+      const { data, error } = await request
+        .order('date', { ascending: true })
+        .order('event_id', { ascending: true })
+        .range(offset, offset + PAGE_SIZE - 1)
+
+      if (error) {
+        throw new Error(`Failed to fetch event analytics: ${error.message}`)
+      }
+
+      rows.push(...(data || []).map(row => ({ eventId: row.event_id, ...countsFromRow(row) })))
+      if (!data || data.length < PAGE_SIZE) return rows
+    }
+  }
+
+  async saveDailyPlatformStats(row: DailyPlatformStats): Promise<void> {
+    const { error } = await this.supabase
+      .from('platform_analytics')
+      .upsert(countsToRow(row), { onConflict: 'date' })
+
+    if (error) {
+      throw new Error(`Failed to save platform analytics: ${error.message}`)
+    }
+  }
+
+  async listDailyPlatformStats(from: string, to: string): Promise<DailyPlatformStats[]> {
+    const { data, error } = await this.supabase
+      .from('platform_analytics')
+      .select('*')
+      .gte('date', from)
+      .lte('date', to)
+      .order('date', { ascending: true })
+
+    if (error) {
+      throw new Error(`Failed to fetch platform analytics: ${error.message}`)
+    }
+
+    return (data || []).map(countsFromRow)
+  }
+
+  async listEventsSubmittedBy(userId: string): Promise<AnalyticsEventSummary[]> {
+    const { data, error } = await this.supabase
+      .from('events')
+      .select('id, title, date')
+      .eq('submitted_by', userId)
+      .order('date', { ascending: false })
+      .limit(PAGE_SIZE)
+
+    if (error) {
+      throw new Error(`Failed to fetch organizer events: ${error.message}`)
+    }
+
+    return (data || []).map(row => ({ id: row.id, title: row.title, date: row.date }))
+  }
+}
+
+/**
+ * Pick the Supabase-backed store when credentials are configured,
+ * otherwise fall back to the in-memory store.
+ */
+export function createAnalyticsStore(supabase: SupabaseClient | null = getSupabaseClient()): AnalyticsStore {
+  return supabase ? new SupabaseAnalyticsStore(supabase) : new InMemoryAnalyticsStore()
+}
+
+export default createAnalyticsStore
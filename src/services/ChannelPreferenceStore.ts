@@ -0,0 +1,194 @@
+/**
+ * Channel Preference Store
+ * Per-user choice of notification channels (email, push), topics muted from
+ * unsubscribe links, and the all-channel unsubscribe flag. Push topic and
+ * quiet-hours preferences stay on each device (PushNotificationStore).
+ *
+ * Backends:
+ * - SupabaseChannelPreferenceStore: notification_channel_preferences table (production)
+ * - InMemoryChannelPreferenceStore: process-local stand-in (tests, demo mode)
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js'
+import { getSupabaseClient } from '../lib/supabaseClient.js'
+
+export type NotificationChannel = 'email' | 'push'
+
+export const NOTIFICATION_CHANNELS: NotificationChannel[] = ['email', 'push']
+
+export interface ChannelPreferences {
+  userId: string
+  // Where notification emails go
+  email?: string
+  // Email is opt-in; push already needs a device subscription
+  emailEnabled: boolean
+  pushEnabled: boolean
+  // Topics switched off from an unsubscribe link, on every channel
+  mutedTopics: string[]
+  // Nothing but transactional email (receipts, tickets) on any channel
+  unsubscribedAll: boolean
+  updatedAt: Date
+}
+
+export function defaultChannelPreferences(userId: string, now: Date = new Date()): ChannelPreferences {
+  return { userId, emailEnabled: false, pushEnabled: true, mutedTopics: [], unsubscribedAll: false, updatedAt: now }
+}
+
+/** Whether a user still wants `topic` notifications on `channel` */
+export function allowsChannel(preferences: ChannelPreferences, channel: NotificationChannel, topic?: string): boolean {
+  if (preferences.unsubscribedAll) return false
+  if (topic && preferences.mutedTopics.includes(topic)) return false
+  if (channel === 'email') return preferences.emailEnabled && !!preferences.email
+  return preferences.pushEnabled
+}
+
+export interface ChannelPreferenceStore {
+  readonly backend: 'supabase' | 'memory'
+
+  get(userId: string): Promise<ChannelPreferences | null>
+
+  save(preferences: ChannelPreferences): Promise<void>
+
+  /** Users who have turned `channel` (or `topic`) off, so broadcasts can skip them */
+  listBlockedUserIds(channel: NotificationChannel, topic?: string): Promise<string[]>
+
+  /** Users with an email address who want `topic` by email, optionally limited to `userIds` */
+  listEmailRecipients(topic?: string, userIds?: string[]): Promise<ChannelPreferences[]>
+}
+
+export class InMemoryChannelPreferenceStore implements ChannelPreferenceStore {
+  readonly backend = 'memory' as const
+  private preferences = new Map<string, ChannelPreferences>()
+
+  async get(userId: string): Promise<ChannelPreferences | null> {
+    const preferences = this.preferences.get(userId)
+    return preferences ? { ...preferences, mutedTopics: [...preferences.mutedTopics] } : null
+  }
+
+  async save(preferences: ChannelPreferences): Promise<void> {
+    this.preferences.set(preferences.userId, { ...preferences, mutedTopics: [...preferences.mutedTopics] })
+  }
+
+  async listBlockedUserIds(channel: NotificationChannel, topic?: string): Promise<string[]> {
+    return [...this.preferences.values()]
+      .filter(prefs => !allowsChannel(prefs, channel, topic))
+      .map(prefs => prefs.userId)
+  }
+
+  async listEmailRecipients(topic?: string, userIds?: string[]): Promise<ChannelPreferences[]> {
+    return [...this.preferences.values()]
+      .filter(prefs => allowsChannel(prefs, 'email', topic))
+      .filter(prefs => !userIds || userIds.includes(prefs.userId))
+      .map(prefs => ({ ...prefs, mutedTopics: [...prefs.mutedTopics] }))
+  }
+}
+
+function preferencesToRow(preferences: ChannelPreferences) {
+  return {
+    user_id: preferences.userId,
+    email: preferences.email || null,
+    email_enabled: preferences.emailEnabled,
+    push_enabled: preferences.pushEnabled,
+    muted_topics: preferences.mutedTopics,
+    unsubscribed_all: preferences.unsubscribedAll,
+    updated_at: preferences.updatedAt.toISOString()
+  }
+}
+
+function preferencesFromRow(row: any): ChannelPreferences {
+  return {
+    userId: row.user_id,
+    email: row.email || undefined,
+    emailEnabled: row.email_enabled === true,
+    pushEnabled: row.push_enabled !== false,
+    mutedTopics: row.muted_topics || [],
+    unsubscribedAll: row.unsubscribed_all === true,
+    updatedAt: new Date(row.updated_at)
+  }
+}
+
+const PAGE_SIZE = 1000
+
+export class SupabaseChannelPreferenceStore implements ChannelPreferenceStore {
+  readonly backend = 'supabase' as const
+
+  constructor(private supabase: SupabaseClient) {}
+
+  async get(userId: string): Promise<ChannelPreferences | null> {
+    const { data, error } = await this.supabase
+      .from('notification_channel_preferences')
+      .select('*')
+      .eq('user_id', userId)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Failed to fetch channel preferences: ${error.message}`)
+    }
+
+    return data ? preferencesFromRow(data) : null
+  }
+
+  async save(preferences: ChannelPreferences): Promise<void> {
+    const { error } = await this.supabase
+      .from('notification_channel_preferences')
+      .upsert(preferencesToRow(preferences), { onConflict: 'user_id' })
+
+    if (error) {
+      throw new Error(`Failed to save channel preferences: ${error.message}`)
+    }
+  }
+
+  async listBlockedUserIds(channel: NotificationChannel, topic?: string): Promise<string[]> {
+    const conditions = ['unsubscribed_all.eq.true', channel === 'push' ? 'push_enabled.eq.false' : 'email_enabled.eq.false']
+    if (topic) conditions.push(`muted_topics.cs.{${topic}}`)
+
+    const rows = await this.paginate('user_id', request => request.or(conditions.join(',')))
+    return rows.map(row => row.user_id)
+  }
+
+  async listEmailRecipients(topic?: string, userIds?: string[]): Promise<ChannelPreferences[]> {
+    const rows = await this.paginate('*', request => {
+      let filtered = request
+        .eq('email_enabled', true)
+        .eq('unsubscribed_all', false)
+        .not('email', 'is', null)
+      if (topic) filtered = filtered.not('muted_topics', 'cs', `{${topic}}`)
+      if (userIds) filtered = filtered.in('user_id', userIds)
+      return filtered
+    })
+    return rows.map(preferencesFromRow)
+  }
+
+  private async paginate(columns: string, filter: (request: any) => any): Promise<any[]> {
+    const rows: any[] = []
+
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const request = this.supabase
+        .from('notification_channel_preferences')
+        .select(columns)
+        .order('user_id', { ascending: true })
+        .range(from, from + PAGE_SIZE - 1)
+
+      const { data, error } = await filter(request)
+
+      if (error) {
+        throw new Error(`Failed to fetch channel preferences: ${error.message}`)
+      }
+
+      rows.push(...(data || []))
+      if (!data || data.length < PAGE_SIZE) break
+    }
+
+    return rows
+  }
+}
+
+/**
+ * Pick the Supabase-backed store when credentials are configured,
+ * otherwise fall back to the in-memory store.
+ */
+export function createChannelPreferenceStore(supabase: SupabaseClient | null = getSupabaseClient()): ChannelPreferenceStore {
+  return supabase ? new SupabaseChannelPreferenceStore(supabase) : new InMemoryChannelPreferenceStore()
+}
+
+export default createChannelPreferenceStore
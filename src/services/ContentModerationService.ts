@@ -0,0 +1,212 @@
+/**
+ * Content Moderation Service
+ * IVOR's LLM moderation, shared by the /api/moderate endpoints and anything
+ * that screens user content before publishing it. Events and news are judged
+ * on relevance to Black QTIPOC+ communities; community posts on safety.
+ */
+
+import { LLMGateway, getLLMGateway } from '../lib/llmGateway.js'
+
+export interface ModerationRequest {
+  content: {
+    type: 'event' | 'news' | 'group_post'
+    title: string
+    description: string
+    organizer_name?: string
+    tags?: string[]
+    source_url?: string
+    location?: string
+    event_date?: string
+  }
+  moderation_type: 'event_relevance' | 'news_relevance' | 'community_safety'
+}
+
+export interface ModerationResult {
+  confidence: number // 0-1 scale
+  relevance: 'high' | 'medium' | 'low'
+  quality: 'high' | 'medium' | 'low'
+  liberation_score: number // 0-1 scale
+  reasoning: string
+  recommendation: 'auto-approve' | 'review' | 'reject'
+  processing_time_ms: number
+  flags?: string[] // Any warnings or issues detected
+}
+
+export type ContentModerator = (content: ModerationRequest['content'], moderationType: ModerationRequest['moderation_type']) => Promise<ModerationResult>
+
+/**
+ * Build moderation prompt based on content type
+ */
+export function buildModerationPrompt(content: any, type: string): string {
+  if (type === 'community_safety') {
+    return buildCommunityPrompt(content)
+  }
+
+  const baseContext = `
+You are IVOR, the AI moderator for BLKOUT - a liberation platform for and by Black queer and trans people in the UK.
+
+Your role: Analyze this ${content.type} to determine if it's relevant and valuable for Black QTIPOC+ communities.
+
+Content to analyze:
+- Title: "${content.title}"
+- Description: "${content.description}"
+- Organizer/Source: "${content.organizer_name || 'Unknown'}"
+- Tags: ${content.tags?.join(', ') || 'None'}
+- Location: "${content.location || 'Not specified'}"
+- Source URL: "${content.source_url}"
+${content.event_date ? `- Date: "${content.event_date}"` : ''}
+
+Evaluation criteria:
+
+1. **Relevance** (Is this specifically for Black QTIPOC+ people?):
+   - HIGH: Explicitly mentions Black + LGBTQ+ (e.g., "Black Trans Liberation", "QTIPOC gathering", "African/Caribbean queer community")
+   - MEDIUM: Mentions one but not both (e.g., "Black community event" or "LGBTQ+ gathering" but not specifically for Black people)
+   - LOW: General diversity/inclusion with no specific focus on Black queer/trans people
+
+2. **Quality** (Is this legitimate and safe?):
+   - HIGH: Verified organization (LGBT Foundation, UK Black Pride, Stonewall, known community groups)
+   - MEDIUM: Known local community group or grassroots organization
+   - LOW: Unknown source, suspicious content, potential spam
+
+3. **Liberation Focus** (Does this align with Black queer liberation values?):
+   - HIGH: Explicitly anti-racist, anti-capitalist, community-led, mutual aid, activism, healing, grassroots organizing
+   - MEDIUM: Generally progressive, inclusive, supportive but not explicitly liberation-focused
+   - LOW: Corporate/commercial, apolitical, or potentially harmful to marginalized communities
+
+4. **Red Flags** (Check for these issues):
+   - Fetishization or exoticization of Black bodies
+   - Corporate Pride-washing or rainbow capitalism
+   - TERFs, SWERFs, or other exclusionary groups
+   - "Diversity training" for corporations (not community-focused)
+   - Events requiring high cost that exclude working-class people
+   - Vague descriptions that could be spam
+
+Based on your analysis, provide a confidence score (0-1) and recommendation:
+- confidence ≥0.90 + HIGH relevance + HIGH quality = "auto-approve"
+- confidence 0.70-0.89 + MEDIUM/HIGH relevance = "review" (curator quick check)
+- confidence <0.70 or any red flags = "reject" or "review" (curator deep check)
+
+RESPOND ONLY WITH THIS JSON FORMAT (no other text):
+{
+  "confidence": 0.95,
+  "relevance": "high",
+  "quality": "high",
+  "liberation_score": 0.90,
+  "reasoning": "This event is explicitly for Black trans people, organized by LGBT Foundation Manchester (trusted org with history of serving POC communities). Strong liberation focus on community organizing and self-care. No red flags detected.",
+  "recommendation": "auto-approve",
+  "flags": []
+}
+`
+
+  return baseContext
+}
+
+/**
+ * Log moderation decisions for future training
+ */
+function logModerationDecision(content: any, result: ModerationResult): void {
+  // TODO: Store in database for future fine-tuning
+  // For now, just log to console
+  console.log('[IVOR Moderation]', {
+    title: content.title,
+    confidence: result.confidence,
+    recommendation: result.recommendation,
+    timestamp: new Date().toISOString()
+  })
+}
+
+/**
+ * Prompt for member posts in community spaces, which are judged on safety
+ * rather than relevance: people talk about all sorts in their groups.
+ */
+function buildCommunityPrompt(content: any): string {
+  return `
+You are IVOR, the AI moderator for BLKOUT - a liberation platform for and by Black queer and trans people in the UK.
+
+Your role: Check this post in a members' discussion group before it is published. Members can talk about anything; you are only looking for harm.
+
+Post to check:
+- Title: "${content.title}"
+- Text: "${content.description}"
+
+Look for:
+- Harassment, threats or targeted abuse of another person
+- Racism, anti-Blackness, homophobia, transphobia, misogyny or other hate
+- Sharing someone's private information (addresses, phone numbers, deadnames, outing someone)
+- Spam, scams or unsolicited advertising
+- Sexual content involving anyone who has not consented, or any minor
+- Encouragement of self-harm (a member talking about their own struggles is NOT harm; flag "crisis" so a human can reach out)
+
+Recommendation:
+- "auto-approve": nothing above applies
+- "review": unclear, heated but possibly fine, or a member may be in crisis
+- "reject": clearly harmful
+
+RESPOND ONLY WITH THIS JSON FORMAT (no other text):
+{
+  "confidence": 0.95,
+  "relevance": "high",
+  "quality": "high",
+  "liberation_score": 0.5,
+  "reasoning": "A member sharing an upcoming open mic with the group. Nothing harmful.",
+  "recommendation": "auto-approve",
+  "flags": []
+}
+`
+}
+
+/**
+ * Run content through the moderation model. Throws when no provider answers
+ * or the answer isn't valid JSON; callers decide what a failure means.
+ */
+export async function moderateContent(
+  content: ModerationRequest['content'],
+  moderationType: ModerationRequest['moderation_type'],
+  llm: LLMGateway = getLLMGateway()
+): Promise<ModerationResult & { model_used: string; provider_used: string }> {
+  const startTime = Date.now()
+
+  // AI moderation via the shared LLM gateway (low temperature, JSON output)
+  const completion = await llm.complete({
+    useCase: 'moderation',
+    messages: [
+      {
+        role: 'system',
+        content: 'You are IVOR, an AI moderator for the BLKOUT Liberation Platform. You analyze content for relevance to Black queer and trans communities in the UK. Always respond with valid JSON only.'
+      },
+      {
+        role: 'user',
+        content: buildModerationPrompt(content, moderationType)
+      }
+    ]
+  })
+
+  // Parse AI response
+  const aiResponse = completion.content
+  if (!aiResponse) {
+    throw new Error('No response from AI model')
+  }
+
+  let moderationResult: ModerationResult
+  try {
+    const parsed = JSON.parse(aiResponse)
+    moderationResult = {
+      confidence: parsed.confidence || 0,
+      relevance: parsed.relevance || 'low',
+      quality: parsed.quality || 'low',
+      liberation_score: parsed.liberation_score || 0,
+      reasoning: parsed.reasoning || 'No reasoning provided',
+      recommendation: parsed.recommendation || 'review',
+      processing_time_ms: Date.now() - startTime,
+      flags: parsed.flags || []
+    }
+  } catch (parseError) {
+    console.error('Failed to parse AI response:', aiResponse)
+    throw new Error('Invalid AI response format')
+  }
+
+  // Log moderation for training data collection
+  logModerationDecision(content, moderationResult)
+
+  return { ...moderationResult, model_used: completion.model, provider_used: completion.provider }
+}
@@ -20,11 +20,14 @@ export class ContextualResponseGenerator {
   generateResponse(
     userInput: string,
     journeyContext: JourneyContext,
-    topic?: string
+    topic?: string,
+    retrievedKnowledge?: KnowledgeEntry[]
   ): any {
-    // Get relevant resources and knowledge
+    // Get relevant resources and knowledge (semantic retrieval results take priority when supplied)
     const resources = this.getRelevantResources(journeyContext, topic)
-    const knowledge = this.getRelevantKnowledge(userInput, journeyContext, topic)
+    const knowledge = retrievedKnowledge && retrievedKnowledge.length > 0
+      ? retrievedKnowledge
+      : this.getRelevantKnowledge(userInput, journeyContext, topic)
 
     // Generate stage-appropriate message
     const responseText = this.generateContextualMessage(userInput, journeyContext, resources, knowledge)
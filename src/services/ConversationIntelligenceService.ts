@@ -7,10 +7,10 @@
  * Part of BLKOUT Self-Improving System (Phase 1.3)
  */
 
-import Groq from 'groq-sdk';
 import { SupabaseClient } from '@supabase/supabase-js';
 import { v4 as uuidv4 } from 'uuid';
 import { getSupabaseClient } from '../lib/supabaseClient.js';
+import { LLMGateway, getLLMGateway } from '../lib/llmGateway.js';
 
 export interface ConversationMessage {
   role: 'user' | 'assistant' | 'system';
@@ -50,7 +50,7 @@ export interface ConversationSummary {
 }
 
 export class ConversationIntelligenceService {
-  private groq: Groq | null = null;
+  private llm: LLMGateway;
   private supabase: SupabaseClient | null = null;
   private isAIEnabled: boolean = false;
   private pendingConversations: Map<string, ConversationMessage[]> = new Map();
@@ -66,13 +66,11 @@ export class ConversationIntelligenceService {
       console.log('ConversationIntelligenceService: Running without Supabase (mock mode)');
     }
 
-    // Initialize GROQ
-    if (process.env.GROQ_API_KEY && process.env.GROQ_API_KEY !== 'your-groq-api-key-here') {
-      this.groq = new Groq({
-        apiKey: process.env.GROQ_API_KEY
-      });
+    // Theme extraction goes through the shared LLM gateway
+    this.llm = getLLMGateway();
+    if (this.llm.isAvailable()) {
       this.isAIEnabled = true;
-      console.log('ConversationIntelligenceService: GROQ AI enabled for theme extraction');
+      console.log('ConversationIntelligenceService: AI enabled for theme extraction');
     } else {
       console.log('ConversationIntelligenceService: AI disabled, using keyword-based extraction');
     }
@@ -158,10 +156,10 @@ export class ConversationIntelligenceService {
   }
 
   /**
-   * Extract themes from conversation using GROQ AI
+   * Extract themes from conversation using the LLM gateway
    */
   async extractThemes(messages: ConversationMessage[]): Promise<ExtractedThemes> {
-    if (!this.isAIEnabled || !this.groq || messages.length === 0) {
+    if (!this.isAIEnabled || messages.length === 0) {
       return this.extractThemesKeywordBased(messages);
     }
 
@@ -172,8 +170,8 @@ export class ConversationIntelligenceService {
         .map(m => `${m.role === 'user' ? 'User' : 'IVOR'}: ${m.content}`)
         .join('\n');
 
-      const response = await this.groq.chat.completions.create({
-        model: 'llama-3.3-70b-versatile',
+      const response = await this.llm.complete({
+        useCase: 'theme-extraction',
         messages: [
           {
             role: 'system',
@@ -200,12 +198,10 @@ Respond in valid JSON format only:
             role: 'user',
             content: `Analyze this IVOR conversation:\n\n${conversationText}`
           }
-        ],
-        max_tokens: 500,
-        temperature: 0.3
+        ]
       });
 
-      const responseText = response.choices[0]?.message?.content || '';
+      const responseText = response.content || '';
 
       // Parse JSON response
       const jsonMatch = responseText.match(/\{[\s\S]*\}/);
@@ -3,12 +3,12 @@
  * 3-stage deliberation: Propose → Peer Review → Synthesise
  *
  * Architecture: Karpathy-style council adapted for community platform.
- * Uses GROQ (Llama 3.3 70B) via OpenAI-compatible API.
+ * Uses the shared LLM gateway (Qwen → Groq → local provider chain).
  * ~6 API calls per session, well within free tier.
  */
 
-import OpenAI from 'openai'
 import { getSupabaseClient } from '../lib/supabaseClient.js'
+import { LLMGateway, getLLMGateway } from '../lib/llmGateway.js'
 
 // ── Types ──
 
@@ -107,19 +107,14 @@ Output JSON (one entry per proposal):
 // ── Service ──
 
 export class CouncilService {
-  private ai: OpenAI | null = null
-  private model: string = 'llama-3.3-70b-versatile'
+  private llm: LLMGateway
 
   constructor() {
-    const groqKey = process.env.GROQ_API_KEY
-    if (groqKey && groqKey !== 'your-groq-api-key-here') {
-      this.ai = new OpenAI({
-        apiKey: groqKey,
-        baseURL: 'https://api.groq.com/openai/v1'
-      })
-      console.log('[Council] GROQ AI enabled')
+    this.llm = getLLMGateway()
+    if (this.llm.isAvailable()) {
+      console.log(`[Council] AI enabled (${this.llm.getProviderChain().join(' → ')})`)
     } else {
-      console.log('[Council] No GROQ key — council disabled')
+      console.log('[Council] No LLM provider configured — council disabled')
     }
   }
 
@@ -127,7 +122,7 @@ export class CouncilService {
    * Full council session: propose → review → synthesise
    */
   async convene(useCase: string = 'newsletter', trigger: string = 'manual'): Promise<CouncilVerdict | null> {
-    if (!this.ai) {
+    if (!this.llm.isAvailable()) {
       console.error('[Council] Cannot convene — no AI configured')
       return null
     }
@@ -229,10 +224,8 @@ export class CouncilService {
     const proposals = await Promise.all(
       agentRoles.map(async (role) => {
         try {
-          const response = await this.ai!.chat.completions.create({
-            model: this.model,
-            temperature: 0.7,
-            max_tokens: 800,
+          const response = await this.llm.complete({
+            useCase: 'council-proposal',
             messages: [
               { role: 'system', content: AGENT_PROMPTS[role] },
               { role: 'user', content: `${useCaseInstruction}\n\nCurrent community intelligence:\n${contextSummary}` }
@@ -241,7 +234,7 @@ export class CouncilService {
 
           return {
             agentRole: role,
-            proposal: response.choices[0]?.message?.content || '',
+            proposal: response.content,
             reasoning: `Based on ${context.length} intelligence signals`,
             sources: context.map(c => c.id)
           }
@@ -273,17 +266,16 @@ export class CouncilService {
     const reviews = await Promise.all(
       reviewerRoles.map(async (role) => {
         try {
-          const response = await this.ai!.chat.completions.create({
-            model: this.model,
-            temperature: 0.3, // Lower temp for more consistent scoring
-            max_tokens: 600,
+          // Lower temperature for more consistent scoring (see council-review config)
+          const response = await this.llm.complete({
+            useCase: 'council-review',
             messages: [
               { role: 'system', content: REVIEW_PROMPT },
               { role: 'user', content: `Review these proposals:\n\n${proposalText}` }
             ]
           })
 
-          const content = response.choices[0]?.message?.content || '{}'
+          const content = response.content || '{}'
           const scores = this.parseJSON(content)
 
           return {
@@ -319,17 +311,15 @@ export class CouncilService {
     }).join('\n\n')
 
     try {
-      const response = await this.ai!.chat.completions.create({
-        model: this.model,
-        temperature: 0.5,
-        max_tokens: 1200,
+      const response = await this.llm.complete({
+        useCase: 'council-synthesis',
         messages: [
           { role: 'system', content: CHAIR_PROMPT },
           { role: 'user', content: `Proposals:\n\n${proposalText}\n\nPeer Reviews:\n\n${reviewSummary}` }
         ]
       })
 
-      const content = response.choices[0]?.message?.content || '{}'
+      const content = response.content || '{}'
       const result = this.parseJSON(content)
 
       return {
@@ -0,0 +1,271 @@
+/**
+ * Crisis Triage Service
+ * Structured crisis risk assessment and personal safety plans.
+ *
+ * Screening answers map to a risk tier (emergency / high / moderate / low);
+ * the tier and the user's location decide which resources come first — 999,
+ * the urgent NHS mental health route for their nation, UK-wide crisis lines
+ * and the local and devolved-nation services in UKKnowledgeBase. Safety plans
+ * follow the Stanley-Brown structure: warning signs, coping steps, people to
+ * contact, professional services, a safer environment and reasons for living.
+ */
+
+import { randomUUID } from 'crypto'
+import { UKKnowledgeBase, cityToRegion } from './UKKnowledgeBase.js'
+import { SafetyPlan, SafetyPlanContact, SafetyPlanStore, createSafetyPlanStore } from './SafetyPlanStore.js'
+import {
+  SCREENING_QUESTIONS,
+  PROTECTIVE_FACTORS,
+  HIGH_DISTRESS_SCORE,
+  TIER_ACTIONS,
+  EMERGENCY_SERVICES,
+  UK_WIDE_CRISIS_LINES,
+  NATION_URGENT_ROUTES,
+  DEFAULT_COPING_STRATEGIES,
+  DEFAULT_WARNING_SIGNS,
+  DEFAULT_SAFER_ENVIRONMENT_STEPS,
+  RiskTier,
+  UKNation
+} from '../data/crisisTriage.js'
+import { UKResource, UKLocation } from '../types/journey.js'
+
+const MAX_RESOURCES = 8
+const MAX_PLAN_ITEMS = 10
+const TIER_ORDER: RiskTier[] = ['low', 'moderate', 'high', 'emergency']
+
+export type ScreeningAnswers = Record<string, boolean | number | string | undefined>
+
+export interface CrisisAssessmentInput {
+  answers?: ScreeningAnswers
+  protectiveFactors?: string[]
+  location?: string
+  // Legacy single-field urgency: raises the tier to at least this level
+  urgency?: string
+}
+
+export interface CrisisAssessment {
+  riskTier: RiskTier
+  reasons: string[]
+  protectiveFactors: Array<{ id: string; label: string }>
+  recommendedActions: string[]
+  location: UKLocation
+  nation: UKNation
+  resources: UKResource[]
+  timestamp: string
+}
+
+export interface SafetyPlanInput {
+  riskTier?: RiskTier
+  location?: string
+  warningSigns?: string[]
+  copingStrategies?: string[]
+  contacts?: SafetyPlanContact[]
+  saferEnvironment?: string[]
+  reasonsForLiving?: string[]
+  protectiveFactors?: string[]
+}
+
+function isYes(value: unknown): boolean {
+  if (typeof value === 'boolean') return value
+  if (typeof value === 'number') return value > 0
+  return typeof value === 'string' && ['yes', 'y', 'true'].includes(value.trim().toLowerCase())
+}
+
+function cleanList(values: unknown): string[] {
+  if (!Array.isArray(values)) return []
+  return values
+    .filter((value): value is string => typeof value === 'string' && value.trim().length > 0)
+    .map(value => value.trim())
+    .slice(0, MAX_PLAN_ITEMS)
+}
+
+export function normalizeLocation(location: unknown): UKLocation {
+  return typeof location === 'string' && location in cityToRegion ? location as UKLocation : 'unknown'
+}
+
+export function nationForLocation(location: UKLocation): UKNation {
+  const region = cityToRegion[location]
+  return region === 'scotland' || region === 'wales' || region === 'northern_ireland' ? region : 'england'
+}
+
+/**
+ * Risk tier from screening answers. Immediate danger or a plan with intent is
+ * an emergency; intent or recent suicidal behaviour is high; any suicidal
+ * thoughts, a method, self-harm, feeling unsafe at home or high distress is
+ * moderate.
+ */
+export function determineRiskTier(answers: ScreeningAnswers): { tier: RiskTier; reasons: string[] } {
+  const yes = (id: string) => isYes(answers[id])
+  const distress = Number(answers.distress)
+
+  if (yes('immediate_danger')) return { tier: 'emergency', reasons: ['You are in danger right now or have already hurt yourself'] }
+  if (yes('plan')) return { tier: 'emergency', reasons: ['You have a plan to end your life and intend to carry it out'] }
+
+  const high: string[] = []
+  if (yes('intent')) high.push('You have had some intention of acting on thoughts of suicide')
+  if (yes('recent_behaviour')) high.push('You have done or prepared something to end your life in the past three months')
+  if (high.length > 0) return { tier: 'high', reasons: high }
+
+  const moderate: string[] = []
+  if (yes('suicidal_thoughts')) moderate.push('You have had thoughts of killing yourself')
+  if (yes('method')) moderate.push('You have thought about how you might do it')
+  if (yes('self_harm')) moderate.push('You have hurt yourself recently')
+  if (yes('unsafe_at_home')) moderate.push('You do not feel safe where you live')
+  if (Number.isFinite(distress) && distress >= HIGH_DISTRESS_SCORE) moderate.push('Things feel very overwhelming right now')
+  if (moderate.length > 0) return { tier: 'moderate', reasons: moderate }
+
+  return {
+    tier: 'low',
+    reasons: yes('wish_dead') ? ['You have sometimes wished you were not here'] : []
+  }
+}
+
+function legacyUrgencyTier(urgency: string | undefined): RiskTier {
+  if (urgency === 'emergency') return 'emergency'
+  if (urgency === 'high') return 'high'
+  return 'low'
+}
+
+export class CrisisTriageService {
+  private store: SafetyPlanStore
+  private knowledgeBase: UKKnowledgeBase
+
+  constructor(store?: SafetyPlanStore, knowledgeBase?: UKKnowledgeBase) {
+    this.store = store || createSafetyPlanStore()
+    this.knowledgeBase = knowledgeBase || new UKKnowledgeBase()
+  }
+
+  getScreening() {
+    return { questions: SCREENING_QUESTIONS, protectiveFactors: PROTECTIVE_FACTORS }
+  }
+
+  assess(input: CrisisAssessmentInput): CrisisAssessment {
+    const { tier: screenedTier, reasons } = determineRiskTier(input.answers || {})
+    const legacyTier = legacyUrgencyTier(input.urgency)
+    const riskTier = TIER_ORDER.indexOf(legacyTier) > TIER_ORDER.indexOf(screenedTier) ? legacyTier : screenedTier
+    if (riskTier !== screenedTier) {
+      reasons.push(`You told us this feels ${input.urgency}`)
+    }
+
+    const location = normalizeLocation(input.location)
+    const nation = nationForLocation(location)
+
+    return {
+      riskTier,
+      reasons,
+      protectiveFactors: PROTECTIVE_FACTORS.filter(factor => (input.protectiveFactors || []).includes(factor.id)),
+      recommendedActions: TIER_ACTIONS[riskTier],
+      location,
+      nation,
+      resources: this.routeResources(riskTier, location),
+      timestamp: new Date().toISOString()
+    }
+  }
+
+  /**
+   * Resources in the order someone at this tier should try them: emergency
+   * services first in an emergency, then the nation's urgent NHS route and
+   * 24/7 lines, then devolved-nation and local services.
+   */
+  routeResources(tier: RiskTier, location: UKLocation): UKResource[] {
+    const nation = nationForLocation(location)
+    const region = cityToRegion[location]
+    const ordered: UKResource[] = []
+
+    const emergencyResources = tier === 'low' ? [] : this.knowledgeBase.getEmergencyResources(location)
+
+    if (tier === 'emergency') ordered.push(EMERGENCY_SERVICES)
+    if (tier !== 'low') {
+      ordered.push(...NATION_URGENT_ROUTES[nation])
+      ordered.push(...emergencyResources.filter(r => r.availability.includes('24/7')))
+      ordered.push(...UK_WIDE_CRISIS_LINES)
+    }
+
+    if (nation !== 'england') {
+      ordered.push(...this.knowledgeBase.getResourcesByRegion(region).filter(r => r.phone))
+    }
+    ordered.push(...emergencyResources)
+
+    const stage = tier === 'low' ? 'stabilization' : 'crisis'
+    ordered.push(...this.knowledgeBase.getResourcesByStageAndLocation(stage, location))
+    if (tier === 'low') {
+      ordered.push(...NATION_URGENT_ROUTES[nation])
+    }
+
+    const seen = new Set<string>()
+    return ordered.filter(resource => !seen.has(resource.id) && seen.add(resource.id)).slice(0, MAX_RESOURCES)
+  }
+
+  /**
+   * Build a safety plan from what the user wrote, filling blank sections with
+   * suggestions and professional services routed for their tier and location.
+   */
+  generateSafetyPlan(input: SafetyPlanInput): SafetyPlan {
+    const location = normalizeLocation(input.location)
+    const riskTier = input.riskTier && TIER_ORDER.includes(input.riskTier) ? input.riskTier : 'moderate'
+    const suggestedSections: string[] = []
+
+    const withSuggestions = (section: string, values: unknown, suggestions: string[]) => {
+      const cleaned = cleanList(values)
+      if (cleaned.length > 0) return cleaned
+      suggestedSections.push(section)
+      return suggestions
+    }
+
+    const contacts = (Array.isArray(input.contacts) ? input.contacts : [])
+      .filter(contact => contact && typeof contact.name === 'string' && contact.name.trim())
+      .slice(0, MAX_PLAN_ITEMS)
+      .map(contact => ({
+        name: contact.name.trim(),
+        phone: typeof contact.phone === 'string' ? contact.phone.trim() : undefined,
+        relationship: typeof contact.relationship === 'string' ? contact.relationship.trim() : undefined
+      }))
+
+    const reasonsForLiving = [
+      ...cleanList(input.reasonsForLiving),
+      ...PROTECTIVE_FACTORS.filter(factor => (input.protectiveFactors || []).includes(factor.id)).map(factor => factor.label)
+    ]
+
+    const now = new Date()
+    return {
+      id: randomUUID(),
+      riskTier,
+      location,
+      nation: nationForLocation(location),
+      warningSigns: withSuggestions('warningSigns', input.warningSigns, DEFAULT_WARNING_SIGNS),
+      copingStrategies: withSuggestions('copingStrategies', input.copingStrategies, DEFAULT_COPING_STRATEGIES),
+      contacts,
+      professionalServices: this.routeResources(riskTier === 'low' ? 'moderate' : riskTier, location).map(resource => ({
+        name: resource.title,
+        phone: resource.phone,
+        website: resource.website,
+        availability: resource.availability
+      })),
+      saferEnvironment: withSuggestions('saferEnvironment', input.saferEnvironment, DEFAULT_SAFER_ENVIRONMENT_STEPS),
+      reasonsForLiving,
+      suggestedSections,
+      createdAt: now,
+      updatedAt: now
+    }
+  }
+
+  /** Save as the user's current plan, keeping the original creation date */
+  async saveSafetyPlan(userId: string, plan: SafetyPlan): Promise<SafetyPlan> {
+    const existing = await this.store.getByUser(userId)
+    const saved = {
+      ...plan,
+      id: existing?.id || plan.id,
+      userId,
+      createdAt: existing?.createdAt || plan.createdAt,
+      updatedAt: new Date()
+    }
+    await this.store.save(saved)
+    return saved
+  }
+
+  async getSafetyPlan(userId: string): Promise<SafetyPlan | null> {
+    return this.store.getByUser(userId)
+  }
+}
+
+export default CrisisTriageService
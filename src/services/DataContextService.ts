@@ -5,6 +5,7 @@
  */
 
 import { SupabaseClient } from '@supabase/supabase-js'
+import { expandEventRows, upcomingEventsFilter } from '../lib/recurrence.js'
 
 export interface LiveContext {
   events: string
@@ -70,12 +71,15 @@ export class DataContextService {
   private async getUpcomingEvents(limit: number, location?: string, dateRange?: { from: string, to: string } | null): Promise<string> {
     try {
       const today = new Date().toISOString().split('T')[0]
+      const from = dateRange?.from || today
+      // Recurring events are expanded up to the asked-about period, or two months ahead
+      const to = dateRange?.to || new Date(Date.now() + 60 * 24 * 60 * 60 * 1000).toISOString().split('T')[0]
 
       let query = this.supabase!
         .from('events')
-        .select('title, date, start_time, end_time, location, organizer, description, cost, url, tags')
+        .select('id, title, date, start_time, end_time, location, organizer, description, cost, url, tags, recurrence_rule, recurrence_exdates')
         .eq('status', 'approved')
-        .gte('date', dateRange?.from || today)
+        .or(upcomingEventsFilter(from))
         .order('date', { ascending: true })
         .limit(limit)
 
@@ -95,14 +99,17 @@ export class DataContextService {
         return ''
       }
 
-      return data.map(e => {
+      const occurrences = expandEventRows(data, { from, to }).slice(0, limit)
+
+      return occurrences.map(e => {
         const date = e.date ? new Date(e.date).toLocaleDateString('en-GB', { weekday: 'short', day: 'numeric', month: 'short', year: 'numeric' }) : 'TBC'
         const time = e.start_time ? ` at ${e.start_time}` : ''
         const loc = e.location ? ` — ${e.location}` : ''
         const org = e.organizer ? ` (${e.organizer})` : ''
         const cost = e.cost ? ` [${e.cost}]` : ' [Free]'
         const link = e.url ? ` | ${e.url}` : ''
-        return `- ${e.title} — ${date}${time}${loc}${org}${cost}${link}`
+        const repeats = e.recurrence_rule ? ' (recurring)' : ''
+        return `- ${e.title}${repeats} — ${date}${time}${loc}${org}${cost}${link}`
       }).join('\n')
     } catch (error) {
       console.warn('[DataContext] Events fetch failed:', error)
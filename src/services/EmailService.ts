@@ -0,0 +1,358 @@
+/**
+ * Email Service
+ * The email channel: RSVP confirmations, ticket delivery and journal
+ * download links (transactional, always sent), plus notification email for
+ * users who have opted in to it.
+ *
+ * Transports, picked from the environment by createEmailTransport():
+ * - SMTP (SMTP_HOST) via lib/smtp
+ * - Resend's transactional API (RESEND_API_KEY)
+ * - Local .eml files (EMAIL_TRANSPORT=file), for development and tests
+ * With none configured, sends are logged and skipped.
+ *
+ * Unsubscribe links carry a signed token (lib/unsubscribeTokens); using one
+ * mutes the topic, or everything, on every channel via ChannelPreferenceStore.
+ */
+
+import { promises as fs } from 'fs'
+import path from 'path'
+import { randomUUID } from 'crypto'
+import { buildMimeMessage, sendSmtpMail, SmtpConfig } from '../lib/smtp.js'
+import { createUnsubscribeToken, verifyUnsubscribeToken, UnsubscribeScope } from '../lib/unsubscribeTokens.js'
+import { eventPath } from '../lib/recurrence.js'
+import {
+  ChannelPreferenceStore,
+  ChannelPreferences,
+  defaultChannelPreferences,
+  createChannelPreferenceStore
+} from './ChannelPreferenceStore.js'
+import {
+  RenderedEmail,
+  EmailFooter,
+  rsvpConfirmationEmail,
+  waitlistOfferEmail,
+  ticketDeliveryEmail,
+  journalDownloadEmail,
+  notificationEmail
+} from './EmailTemplates.js'
+
+const DEFAULT_FROM = 'BLKOUT <events@blkoutuk.com>'
+const EMAIL_PATTERN = /^[^\s@<>]+@[^\s@<>]+\.[^\s@<>]+$/
+
+export class EmailError extends Error {
+  constructor(message: string, public readonly status: 400 | 404 = 400) {
+    super(message)
+    this.name = 'EmailError'
+  }
+}
+
+export interface OutgoingEmail {
+  from: string
+  to: string
+  subject: string
+  html: string
+  text: string
+  headers?: Record<string, string>
+}
+
+export interface EmailTransport {
+  readonly name: 'smtp' | 'resend' | 'file'
+  /** Resolves with the provider's message id */
+  send(email: OutgoingEmail): Promise<string>
+}
+
+export interface EmailResult {
+  status: 'sent' | 'skipped' | 'failed'
+  messageId?: string
+  error?: string
+}
+
+export class SmtpEmailTransport implements EmailTransport {
+  readonly name = 'smtp' as const
+
+  constructor(private config: SmtpConfig) {}
+
+  send(email: OutgoingEmail): Promise<string> {
+    return sendSmtpMail(this.config, email.from, email.to, buildMimeMessage(email))
+  }
+}
+
+export class ResendEmailTransport implements EmailTransport {
+  readonly name = 'resend' as const
+
+  constructor(private apiKey: string, private endpoint: string = 'https://api.resend.com/emails') {}
+
+  async send(email: OutgoingEmail): Promise<string> {
+    const response = await fetch(this.endpoint, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${this.apiKey}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({
+        from: email.from,
+        to: [email.to],
+        subject: email.subject,
+        html: email.html,
+        text: email.text,
+        headers: email.headers
+      })
+    })
+
+    const body: any = await response.json().catch(() => ({}))
+    if (!response.ok) {
+      throw new Error(`Resend API error ${response.status}: ${body?.message || response.statusText}`)
+    }
+    return body.id
+  }
+}
+
+/** Writes each message to `dir` as an .eml file instead of sending it */
+export class LocalFileEmailTransport implements EmailTransport {
+  readonly name = 'file' as const
+
+  constructor(private dir: string) {}
+
+  async send(email: OutgoingEmail): Promise<string> {
+    const id = randomUUID()
+    await fs.mkdir(this.dir, { recursive: true })
+    await fs.writeFile(path.join(this.dir, `${Date.now()}-${id}.eml`), buildMimeMessage(email))
+    return id
+  }
+}
+
+export function createEmailTransport(env: NodeJS.ProcessEnv = process.env): EmailTransport | null {
+  if (env.EMAIL_TRANSPORT === 'file') {
+    return new LocalFileEmailTransport(env.EMAIL_OUTBOX_DIR || path.join(process.cwd(), 'tmp', 'outbox'))
+  }
+  if (env.RESEND_API_KEY && env.EMAIL_TRANSPORT !== 'smtp') {
+    return new ResendEmailTransport(env.RESEND_API_KEY)
+  }
+  if (env.SMTP_HOST) {
+    const port = parseInt(env.SMTP_PORT || '587')
+    return new SmtpEmailTransport({
+      host: env.SMTP_HOST,
+      port,
+      secure: env.SMTP_SECURE ? env.SMTP_SECURE === 'true' : port === 465,
+      user: env.SMTP_USER,
+      pass: env.SMTP_PASS
+    })
+  }
+  return null
+}
+
+export interface EmailNotification {
+  title: string
+  body: string
+  url?: string
+}
+
+export class EmailService {
+  constructor(
+    private transport: EmailTransport | null = createEmailTransport(),
+    private channels: ChannelPreferenceStore = createChannelPreferenceStore(),
+    private from: string = process.env.EMAIL_FROM || DEFAULT_FROM,
+    private appUrl: string = process.env.VITE_APP_URL || 'https://blkoutuk.com',
+    private apiUrl: string = process.env.IVOR_PUBLIC_URL || 'https://ivor.blkoutuk.cloud'
+  ) {}
+
+  get backend() {
+    return this.channels.backend
+  }
+
+  isConfigured(): boolean {
+    return this.transport !== null
+  }
+
+  async sendRsvpConfirmation(data: {
+    to: string
+    name?: string
+    eventId: string
+    eventTitle: string
+    when?: string
+    location?: string
+    checkInCode?: string
+    ticketToken?: string
+  }): Promise<EmailResult> {
+    return this.deliver(data.to, rsvpConfirmationEmail({
+      ...data,
+      qrCodeUrl: data.ticketToken ? this.qrCodeUrl(data.ticketToken) : undefined,
+      eventUrl: `${this.appUrl}${eventPath(data.eventId)}`,
+      footer: this.footer()
+    }))
+  }
+
+  async sendWaitlistOffer(data: {
+    to: string
+    name?: string
+    eventId: string
+    eventTitle: string
+    expiresAt: Date
+  }): Promise<EmailResult> {
+    const expires = new Intl.DateTimeFormat('en-GB', { dateStyle: 'medium', timeStyle: 'short', timeZone: 'Europe/London' }).format(data.expiresAt)
+    return this.deliver(data.to, waitlistOfferEmail({
+      ...data,
+      expires,
+      acceptUrl: `${this.appUrl}${eventPath(data.eventId, { waitlist: 'accept' })}`,
+      footer: this.footer()
+    }))
+  }
+
+  async sendTicketDelivery(data: {
+    to: string
+    name?: string
+    orderId: string
+    orderNumber: string
+    tickets: { productName: string; ticketCode: string; quantity: number; ticketToken?: string }[]
+  }): Promise<EmailResult> {
+    return this.deliver(data.to, ticketDeliveryEmail({
+      ...data,
+      tickets: data.tickets.map(ticket => ({
+        ...ticket,
+        qrCodeUrl: ticket.ticketToken ? this.qrCodeUrl(ticket.ticketToken) : undefined
+      })),
+      orderUrl: `${this.appUrl}/shop/order-confirmation?order_id=${data.orderId}`,
+      footer: this.footer()
+    }))
+  }
+
+  async sendJournalDownload(data: {
+    to: string
+    name?: string
+    orderNumber: string
+    // Path under the API (/api/shop/download/...) or a full URL
+    downloadUrl: string
+    expiresAt: Date
+  }): Promise<EmailResult> {
+    return this.deliver(data.to, journalDownloadEmail({
+      ...data,
+      downloadUrl: data.downloadUrl.startsWith('/') ? `${this.apiUrl}${data.downloadUrl}` : data.downloadUrl,
+      footer: this.footer()
+    }))
+  }
+
+  /**
+   * Email a notification to everyone who opted in to email for its topic
+   * (or just `userIds`). Each message carries a one-click unsubscribe link.
+   */
+  async sendNotification(
+    message: EmailNotification,
+    options: { topic?: string; userIds?: string[] } = {}
+  ): Promise<{ sent: number; failed: number; skipped: number }> {
+    const result = { sent: 0, failed: 0, skipped: 0 }
+    const recipients = await this.channels.listEmailRecipients(options.topic, options.userIds)
+
+    for (const recipient of recipients) {
+      const topic = options.topic || 'all'
+      const unsubscribeUrl = this.unsubscribeUrl({ userId: recipient.userId, topic })
+      const outcome = await this.deliver(recipient.email!, notificationEmail({
+        ...message,
+        url: message.url?.startsWith('/') ? `${this.appUrl}${message.url}` : message.url,
+        footer: this.footer(unsubscribeUrl)
+      }), {
+        'List-Unsubscribe': `<${unsubscribeUrl}>`,
+        'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click'
+      })
+      result[outcome.status]++
+    }
+
+    return result
+  }
+
+  async getChannels(userId: string): Promise<ChannelPreferences> {
+    return (await this.channels.get(userId)) || defaultChannelPreferences(userId)
+  }
+
+  async updateChannels(
+    userId: string,
+    changes: Partial<Pick<ChannelPreferences, 'email' | 'emailEnabled' | 'pushEnabled' | 'mutedTopics' | 'unsubscribedAll'>>,
+    now: Date = new Date()
+  ): Promise<ChannelPreferences> {
+    if (changes.email !== undefined && changes.email !== '' && !EMAIL_PATTERN.test(changes.email)) {
+      throw new EmailError('A valid email address is required')
+    }
+    if (changes.mutedTopics !== undefined && (!Array.isArray(changes.mutedTopics) || changes.mutedTopics.some(t => typeof t !== 'string'))) {
+      throw new EmailError('mutedTopics must be a list of topics')
+    }
+
+    const current = await this.getChannels(userId)
+    const updated: ChannelPreferences = {
+      ...current,
+      ...Object.fromEntries(Object.entries(changes).filter(([, value]) => value !== undefined)),
+      userId,
+      email: changes.email === '' ? undefined : changes.email ?? current.email,
+      updatedAt: now
+    }
+    if (updated.emailEnabled && !updated.email) {
+      throw new EmailError('An email address is required to turn on email notifications')
+    }
+
+    await this.channels.save(updated)
+    return updated
+  }
+
+  /** Resolve an unsubscribe token without acting on it (confirmation page) */
+  describeUnsubscribe(token: string): UnsubscribeScope {
+    const scope = verifyUnsubscribeToken(token)
+    if (!scope) {
+      throw new EmailError('This unsubscribe link is invalid', 404)
+    }
+    return scope
+  }
+
+  /** Apply an unsubscribe token: mutes its topic, or everything, on every channel */
+  async unsubscribe(token: string, now: Date = new Date()): Promise<UnsubscribeScope> {
+    const scope = this.describeUnsubscribe(token)
+    const current = await this.getChannels(scope.userId)
+
+    await this.channels.save(scope.topic === 'all'
+      ? { ...current, unsubscribedAll: true, updatedAt: now }
+      : { ...current, mutedTopics: [...new Set([...current.mutedTopics, scope.topic])], updatedAt: now })
+
+    console.log(`📭 [Email] ${scope.userId} unsubscribed from ${scope.topic}`)
+    return scope
+  }
+
+  unsubscribeUrl(scope: UnsubscribeScope): string {
+    return `${this.apiUrl}/api/notifications/unsubscribe/${createUnsubscribeToken(scope)}`
+  }
+
+  // PNG, since most mail clients won't show SVG
+  private qrCodeUrl(ticketToken: string): string {
+    return `${this.apiUrl}/api/rsvp/tickets/${ticketToken}/qr.png`
+  }
+
+  private footer(unsubscribeUrl?: string): EmailFooter {
+    return { preferencesUrl: `${this.appUrl}/notifications`, unsubscribeUrl }
+  }
+
+  private async deliver(to: string, email: RenderedEmail, headers?: Record<string, string>): Promise<EmailResult> {
+    if (!to || !EMAIL_PATTERN.test(to)) {
+      return { status: 'skipped', error: 'no valid recipient address' }
+    }
+    if (!this.transport) {
+      console.warn(`[Email] No email transport configured - "${email.subject}" not sent`)
+      return { status: 'skipped', error: 'email not configured' }
+    }
+
+    try {
+      const messageId = await this.transport.send({ from: this.from, to, headers, ...email })
+      console.log(`📧 [Email] Sent "${email.subject}" via ${this.transport.name}`)
+      return { status: 'sent', messageId }
+    } catch (error: any) {
+      console.error(`[Email] Failed to send "${email.subject}":`, error)
+      return { status: 'failed', error: error?.message || String(error) }
+    }
+  }
+}
+
+let emailService: EmailService | null = null
+
+export function getEmailService(): EmailService {
+  if (!emailService) {
+    emailService = new EmailService()
+  }
+  return emailService
+}
+
+export default EmailService
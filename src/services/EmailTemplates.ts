@@ -0,0 +1,229 @@
+/**
+ * Email Templates
+ * BLKOUT-branded HTML and plain-text bodies for transactional and
+ * notification email. Every template renders both parts from the same
+ * content so the text version never drifts from the HTML one.
+ */
+
+export interface RenderedEmail {
+  subject: string
+  html: string
+  text: string
+}
+
+export interface EmailFooter {
+  // Where the recipient manages channels and topics
+  preferencesUrl: string
+  // One-click unsubscribe; omitted on transactional email
+  unsubscribeUrl?: string
+}
+
+interface EmailContent {
+  subject: string
+  // Shown in inbox previews before the message is opened
+  preheader: string
+  heading: string
+  paragraphs: string[]
+  // Label/value rows, e.g. date and venue
+  details?: [string, string][]
+  // Shown under the details, e.g. ticket QR codes
+  images?: { url: string; alt: string }[]
+  action?: { label: string; url: string }
+  footer: EmailFooter
+}
+
+const BRAND = {
+  ink: '#1a1a1a',
+  gold: '#FFD700',
+  muted: '#666666',
+  paper: '#FFFFFF'
+}
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+function renderHtml(content: EmailContent): string {
+  const paragraphs = content.paragraphs
+    .map(p => `<p style="margin:0 0 16px;line-height:1.5">${escapeHtml(p)}</p>`)
+    .join('')
+  const details = content.details?.length
+    ? `<table role="presentation" style="margin:0 0 16px;border-collapse:collapse">${content.details.map(([label, value]) =>
+      `<tr><td style="padding:4px 16px 4px 0;color:${BRAND.muted}">${escapeHtml(label)}</td><td style="padding:4px 0;font-weight:bold">${escapeHtml(value)}</td></tr>`
+    ).join('')}</table>`
+    : ''
+  const images = (content.images || [])
+    .map(image => `<p style="margin:0 0 16px"><img src="${escapeHtml(image.url)}" alt="${escapeHtml(image.alt)}" width="240" height="240" style="display:block;border:0"></p>`)
+    .join('')
+  const action = content.action
+    ? `<p style="margin:24px 0"><a href="${escapeHtml(content.action.url)}" style="background:${BRAND.gold};color:${BRAND.ink};padding:12px 24px;border-radius:4px;text-decoration:none;font-weight:bold;display:inline-block">${escapeHtml(content.action.label)}</a></p>`
+    : ''
+  const unsubscribe = content.footer.unsubscribeUrl
+    ? ` · <a href="${escapeHtml(content.footer.unsubscribeUrl)}" style="color:${BRAND.muted}">Unsubscribe</a>`
+    : ''
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head><meta charset="utf-8"><meta name="viewport" content="width=device-width,initial-scale=1"><title>${escapeHtml(content.subject)}</title></head>
+<body style="margin:0;padding:0;background:#f4f4f4;font-family:Helvetica,Arial,sans-serif;color:${BRAND.ink}">
+<span style="display:none;max-height:0;overflow:hidden">${escapeHtml(content.preheader)}</span>
+<table role="presentation" width="100%" style="border-collapse:collapse"><tr><td align="center" style="padding:24px 12px">
+<table role="presentation" width="100%" style="max-width:600px;border-collapse:collapse;background:${BRAND.paper}">
+<tr><td style="background:${BRAND.ink};padding:20px 32px;color:${BRAND.gold};font-size:24px;font-weight:bold;letter-spacing:2px">BLKOUT</td></tr>
+<tr><td style="padding:32px">
+<h1 style="margin:0 0 20px;font-size:22px">${escapeHtml(content.heading)}</h1>
+${paragraphs}${details}${images}${action}
+</td></tr>
+<tr><td style="padding:20px 32px;border-top:4px solid ${BRAND.gold};font-size:12px;color:${BRAND.muted};line-height:1.5">
+BLKOUT UK · Community liberation for Black queer men<br>
+<a href="${escapeHtml(content.footer.preferencesUrl)}" style="color:${BRAND.muted}">Email preferences</a>${unsubscribe}
+</td></tr>
+</table>
+</td></tr></table>
+</body>
+</html>`
+}
+
+function renderText(content: EmailContent): string {
+  const lines = ['BLKOUT', '', content.heading, '', ...content.paragraphs.flatMap(p => [p, ''])]
+  if (content.details?.length) {
+    lines.push(...content.details.map(([label, value]) => `${label}: ${value}`), '')
+  }
+  for (const image of content.images || []) {
+    lines.push(`${image.alt}: ${image.url}`, '')
+  }
+  if (content.action) {
+    lines.push(`${content.action.label}: ${content.action.url}`, '')
+  }
+  lines.push('--', 'BLKOUT UK · Community liberation for Black queer men', `Email preferences: ${content.footer.preferencesUrl}`)
+  if (content.footer.unsubscribeUrl) {
+    lines.push(`Unsubscribe: ${content.footer.unsubscribeUrl}`)
+  }
+  return lines.join('\n')
+}
+
+function render(content: EmailContent): RenderedEmail {
+  return { subject: content.subject, html: renderHtml(content), text: renderText(content) }
+}
+
+export function rsvpConfirmationEmail(data: {
+  name?: string
+  eventTitle: string
+  when?: string
+  location?: string
+  checkInCode?: string
+  qrCodeUrl?: string
+  eventUrl: string
+  footer: EmailFooter
+}): RenderedEmail {
+  const details: [string, string][] = []
+  if (data.when) details.push(['When', data.when])
+  if (data.location) details.push(['Where', data.location])
+  if (data.checkInCode) details.push(['Check-in code', data.checkInCode])
+
+  return render({
+    subject: `You're going: ${data.eventTitle}`,
+    preheader: `Your RSVP for ${data.eventTitle} is confirmed`,
+    heading: `See you at ${data.eventTitle}`,
+    paragraphs: [
+      `Hi ${data.name || 'there'}, your place is confirmed.`,
+      data.qrCodeUrl
+        ? 'Show the QR code below at the door.'
+        : data.checkInCode ? 'Show your check-in code at the door.' : 'We\'ll send you a reminder before it starts.'
+    ],
+    details,
+    images: data.qrCodeUrl ? [{ url: data.qrCodeUrl, alt: 'Your ticket QR code' }] : undefined,
+    action: { label: 'View event', url: data.eventUrl },
+    footer: data.footer
+  })
+}
+
+export function waitlistOfferEmail(data: {
+  name?: string
+  eventTitle: string
+  expires: string
+  acceptUrl: string
+  footer: EmailFooter
+}): RenderedEmail {
+  return render({
+    subject: `A place has opened up: ${data.eventTitle}`,
+    preheader: `Claim it by ${data.expires}`,
+    heading: 'You\'re off the waitlist',
+    paragraphs: [
+      `Hi ${data.name || 'there'}, a place has opened up at ${data.eventTitle} and it's being held for you.`,
+      `Accept it by ${data.expires}. After that it passes to the next person waiting.`
+    ],
+    action: { label: 'Accept my place', url: data.acceptUrl },
+    footer: data.footer
+  })
+}
+
+export function ticketDeliveryEmail(data: {
+  name?: string
+  orderNumber: string
+  tickets: { productName: string; ticketCode: string; quantity: number; qrCodeUrl?: string }[]
+  orderUrl: string
+  footer: EmailFooter
+}): RenderedEmail {
+  return render({
+    subject: `Your BLKOUT tickets (order ${data.orderNumber})`,
+    preheader: `${data.tickets.length === 1 ? 'Your ticket is' : 'Your tickets are'} ready`,
+    heading: 'Your tickets are ready',
+    paragraphs: [
+      `Hi ${data.name || 'there'}, thank you for your order. Keep this email: you'll need the ticket codes below to get in.`
+    ],
+    details: data.tickets.map(ticket => [
+      ticket.quantity > 1 ? `${ticket.productName} × ${ticket.quantity}` : ticket.productName,
+      ticket.ticketCode
+    ]),
+    images: data.tickets
+      .filter(ticket => ticket.qrCodeUrl)
+      .map(ticket => ({ url: ticket.qrCodeUrl!, alt: `QR code for ${ticket.productName}` })),
+    action: { label: 'View order', url: data.orderUrl },
+    footer: data.footer
+  })
+}
+
+export function journalDownloadEmail(data: {
+  name?: string
+  orderNumber: string
+  downloadUrl: string
+  expiresAt: Date
+  footer: EmailFooter
+}): RenderedEmail {
+  const expires = new Intl.DateTimeFormat('en-GB', { dateStyle: 'long', timeZone: 'Europe/London' }).format(data.expiresAt)
+
+  return render({
+    subject: 'Your BLKOUT journal is ready to download',
+    preheader: `Download link valid until ${expires}`,
+    heading: 'Your journal is ready',
+    paragraphs: [
+      `Hi ${data.name || 'there'}, your member copy of the journal is waiting for you.`,
+      `The download link works until ${expires}.`
+    ],
+    details: [['Order', data.orderNumber]],
+    action: { label: 'Download the journal', url: data.downloadUrl },
+    footer: data.footer
+  })
+}
+
+export function notificationEmail(data: {
+  title: string
+  body: string
+  url?: string
+  footer: EmailFooter
+}): RenderedEmail {
+  return render({
+    subject: data.title,
+    preheader: data.body.split('\n')[0],
+    heading: data.title,
+    paragraphs: data.body.split('\n').filter(Boolean),
+    action: data.url ? { label: 'Open BLKOUT', url: data.url } : undefined,
+    footer: data.footer
+  })
+}
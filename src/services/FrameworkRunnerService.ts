@@ -0,0 +1,355 @@
+/**
+ * Framework Runner Service
+ * Walks a user through a problem-solving framework one step at a time:
+ * checks each answer against the step's completion criteria, reflects on it
+ * (LLM gateway, rule-based fallback), saves the session so it can be resumed,
+ * and exports a summary once every step is complete.
+ */
+
+import { randomUUID } from 'crypto'
+import { LLMGateway, getLLMGateway } from '../lib/llmGateway.js'
+import { FrameworkSession, FrameworkSessionStore, createFrameworkSessionStore } from './FrameworkSessionStore.js'
+import {
+  PROBLEM_SOLVING_FRAMEWORKS,
+  ProblemSolvingFramework,
+  FrameworkStep,
+  getFramework
+} from '../data/problemSolvingFrameworks.js'
+
+export class FrameworkSessionError extends Error {
+  constructor(message: string, public readonly status: 400 | 403 | 404 | 409 = 400) {
+    super(message)
+    this.name = 'FrameworkSessionError'
+  }
+}
+
+export interface StepSubmission {
+  stepId?: string
+  response: string
+}
+
+export interface StepSubmissionResult {
+  session: ReturnType<FrameworkRunnerService['describeSession']>
+  stepId: string
+  accepted: boolean
+  unmetCriteria: string[]
+  reflection: string | null
+  nextStep: FrameworkStep | null
+  completed: boolean
+}
+
+export type SummaryFormat = 'markdown' | 'html'
+
+export interface FrameworkSummaryExport {
+  filename: string
+  contentType: string
+  body: string
+}
+
+function countWords(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length
+}
+
+/**
+ * Count listed points: lines, bullets or semicolon-separated items,
+ * or comma-separated items when everything is on one line.
+ */
+export function countListItems(text: string): number {
+  const lines = text
+    .split(/\n|;/)
+    .map(line => line.replace(/^\s*(?:[-*•]|\d+[.)])\s*/, '').trim())
+    .filter(Boolean)
+
+  if (lines.length > 1) return lines.length
+  return text.split(',').map(part => part.trim()).filter(Boolean).length
+}
+
+export function checkCompletionCriteria(step: FrameworkStep, response: string): string[] {
+  const unmet: string[] = []
+  const { minWords, minListItems } = step.completionCriteria
+
+  if (minWords && countWords(response) < minWords) {
+    unmet.push(`Write at least ${minWords} words (you have ${countWords(response)})`)
+  }
+  if (minListItems && countListItems(response) < minListItems) {
+    unmet.push(`List at least ${minListItems} separate points, one per line (you have ${countListItems(response)})`)
+  }
+  return unmet
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+const REFLECTION_SYSTEM_PROMPT = `You are IVOR, BLKOUT's community assistant for Black queer people in the UK, helping someone work through a problem-solving framework step by step.
+Reflect back the most important point in their answer in one or two warm, plain sentences, then ask one short question that deepens their thinking on this step.
+Do not lecture, do not move them on to the next step, and keep it under 80 words.`
+
+export class FrameworkRunnerService {
+  private store: FrameworkSessionStore
+  private gateway: LLMGateway
+
+  constructor(store?: FrameworkSessionStore, gateway?: LLMGateway) {
+    this.store = store || createFrameworkSessionStore()
+    this.gateway = gateway || getLLMGateway()
+  }
+
+  listFrameworks() {
+    return PROBLEM_SOLVING_FRAMEWORKS.map(framework => ({
+      id: framework.id,
+      name: framework.name,
+      difficulty: framework.difficulty,
+      estimatedTime: framework.estimatedTime,
+      steps: framework.steps.length,
+      description: framework.description,
+      bestFor: framework.bestFor
+    }))
+  }
+
+  getFramework(frameworkId: string): ProblemSolvingFramework {
+    const framework = getFramework(frameworkId)
+    if (!framework) {
+      throw new FrameworkSessionError(`Unknown framework: ${frameworkId}`, 404)
+    }
+    return framework
+  }
+
+  /**
+   * Start a session, or resume the user's active session for this framework.
+   */
+  async startSession(userId: string, frameworkId: string): Promise<{ session: ReturnType<FrameworkRunnerService['describeSession']>; resumed: boolean }> {
+    this.getFramework(frameworkId)
+
+    const active = (await this.store.listByUser(userId, 'active')).find(s => s.frameworkId === frameworkId)
+    if (active) {
+      return { session: this.describeSession(active), resumed: true }
+    }
+
+    const now = new Date()
+    const session: FrameworkSession = {
+      id: randomUUID(),
+      userId,
+      frameworkId,
+      status: 'active',
+      currentStepIndex: 0,
+      responses: {},
+      startedAt: now,
+      updatedAt: now
+    }
+    await this.store.save(session)
+
+    return { session: this.describeSession(session), resumed: false }
+  }
+
+  async getSession(sessionId: string, userId?: string): Promise<FrameworkSession> {
+    const session = await this.store.get(sessionId)
+    if (!session) {
+      throw new FrameworkSessionError('Framework session not found', 404)
+    }
+    if (userId && session.userId !== userId) {
+      throw new FrameworkSessionError('This framework session belongs to someone else', 403)
+    }
+    return session
+  }
+
+  async listSessions(userId: string, status?: FrameworkSession['status']) {
+    return (await this.store.listByUser(userId, status)).map(session => this.describeSession(session))
+  }
+
+  /**
+   * Answer the current step (or revise an earlier one). Answers that don't
+   * meet the step's completion criteria are returned with guidance and not saved.
+   */
+  async submitStep(sessionId: string, userId: string | undefined, submission: StepSubmission): Promise<StepSubmissionResult> {
+    const session = await this.getSession(sessionId, userId)
+    const framework = this.getFramework(session.frameworkId)
+
+    const stepIndex = submission.stepId
+      ? framework.steps.findIndex(step => step.id === submission.stepId)
+      : Math.min(session.currentStepIndex, framework.steps.length - 1)
+    if (stepIndex === -1) {
+      throw new FrameworkSessionError(`Unknown step for ${framework.name}: ${submission.stepId}`)
+    }
+    if (stepIndex > session.currentStepIndex) {
+      throw new FrameworkSessionError('Complete the earlier steps first', 409)
+    }
+
+    const step = framework.steps[stepIndex]
+    const response = typeof submission.response === 'string' ? submission.response.trim() : ''
+    if (!response) {
+      throw new FrameworkSessionError('A response is required')
+    }
+
+    const nextStep = framework.steps[stepIndex + 1] || null
+    const unmetCriteria = checkCompletionCriteria(step, response)
+    if (unmetCriteria.length > 0) {
+      return {
+        session: this.describeSession(session),
+        stepId: step.id,
+        accepted: false,
+        unmetCriteria,
+        reflection: null,
+        nextStep: null,
+        completed: session.status === 'completed'
+      }
+    }
+
+    const reflection = await this.reflect(framework, step, response, nextStep)
+    const now = new Date()
+    session.responses[step.id] = { response, reflection: reflection.text, reflectionSource: reflection.source, submittedAt: now }
+    session.currentStepIndex = Math.max(session.currentStepIndex, stepIndex + 1)
+    session.updatedAt = now
+
+    if (session.status === 'active' && framework.steps.every(s => session.responses[s.id])) {
+      session.status = 'completed'
+      session.completedAt = now
+    }
+
+    await this.store.save(session)
+
+    return {
+      session: this.describeSession(session),
+      stepId: step.id,
+      accepted: true,
+      unmetCriteria: [],
+      reflection: reflection.text,
+      nextStep: session.status === 'completed' ? null : framework.steps[session.currentStepIndex] || null,
+      completed: session.status === 'completed'
+    }
+  }
+
+  describeSession(session: FrameworkSession) {
+    const framework = this.getFramework(session.frameworkId)
+    const completedSteps = framework.steps.filter(step => session.responses[step.id]).length
+
+    return {
+      id: session.id,
+      userId: session.userId,
+      frameworkId: framework.id,
+      frameworkName: framework.name,
+      status: session.status,
+      progress: Math.round((completedSteps / framework.steps.length) * 100),
+      currentStep: session.status === 'completed' ? null : framework.steps[session.currentStepIndex] || null,
+      steps: framework.steps.map((step, index) => ({
+        id: step.id,
+        title: step.title,
+        status: session.responses[step.id] ? 'complete' : index === session.currentStepIndex ? 'current' : 'upcoming',
+        response: session.responses[step.id]?.response ?? null,
+        reflection: session.responses[step.id]?.reflection ?? null
+      })),
+      startedAt: session.startedAt.toISOString(),
+      updatedAt: session.updatedAt.toISOString(),
+      completedAt: session.completedAt ? session.completedAt.toISOString() : null
+    }
+  }
+
+  /**
+   * Summary of a completed session as Markdown or print-ready HTML
+   * (the HTML carries print styles so browsers can save it as PDF).
+   */
+  exportSummary(session: FrameworkSession, format: SummaryFormat = 'markdown'): FrameworkSummaryExport {
+    if (session.status !== 'completed') {
+      throw new FrameworkSessionError('Summaries are available once every step is complete', 409)
+    }
+
+    const framework = this.getFramework(session.frameworkId)
+    const completedOn = (session.completedAt || session.updatedAt).toISOString().slice(0, 10)
+    const basename = `${framework.id}-${completedOn}`
+
+    if (format === 'html') {
+      const sections = framework.steps.map((step, index) => {
+        const entry = session.responses[step.id]
+        return `<section>
+  <h2>${index + 1}. ${escapeHtml(step.title)}</h2>
+  <p class="description">${escapeHtml(step.description)}</p>
+  <div class="response">${escapeHtml(entry.response).replace(/\n/g, '<br>')}</div>
+  <blockquote>${escapeHtml(entry.reflection)}</blockquote>
+</section>`
+      }).join('\n')
+
+      return {
+        filename: `${basename}.html`,
+        contentType: 'text/html; charset=utf-8',
+        body: `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(framework.name)} — summary</title>
+<style>
+  @page { size: A4; margin: 20mm; }
+  body { font-family: Georgia, serif; color: #1a1a1a; line-height: 1.5; max-width: 720px; margin: 0 auto; }
+  h1 { margin-bottom: 0; }
+  .meta { color: #555; margin-top: 4px; }
+  section { page-break-inside: avoid; margin-top: 24px; }
+  .description { color: #555; font-style: italic; }
+  blockquote { border-left: 3px solid #7b2cbf; margin: 12px 0; padding-left: 12px; color: #333; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(framework.name)}</h1>
+<p class="meta">Completed ${completedOn} with IVOR</p>
+${sections}
+</body>
+</html>
+`
+      }
+    }
+
+    const sections = framework.steps.map((step, index) => {
+      const entry = session.responses[step.id]
+      const reflection = entry.reflection.split('\n').map(line => `> ${line}`).join('\n')
+      return `## ${index + 1}. ${step.title}\n\n_${step.description}_\n\n${entry.response}\n\n${reflection}\n`
+    }).join('\n')
+
+    return {
+      filename: `${basename}.md`,
+      contentType: 'text/markdown; charset=utf-8',
+      body: `# ${framework.name}\n\nCompleted ${completedOn} with IVOR\n\n${sections}`
+    }
+  }
+
+  private async reflect(
+    framework: ProblemSolvingFramework,
+    step: FrameworkStep,
+    response: string,
+    nextStep: FrameworkStep | null
+  ): Promise<{ text: string; source: 'llm' | 'rule-based' }> {
+    const fallback = () => this.ruleBasedReflection(step, response, nextStep)
+
+    if (!this.gateway.isAvailable()) {
+      return { text: fallback(), source: 'rule-based' }
+    }
+
+    const completion = await this.gateway.complete({
+      useCase: 'framework-reflection',
+      messages: [
+        { role: 'system', content: REFLECTION_SYSTEM_PROMPT },
+        {
+          role: 'user',
+          content: `Framework: ${framework.name}\nStep: ${step.title} — ${step.description}\nGuiding questions: ${step.guidingQuestions.join(' ')}\n\nTheir answer:\n${response}`
+        }
+      ],
+      fallback
+    })
+
+    return { text: completion.content.trim(), source: completion.provider === 'rule-based' ? 'rule-based' : 'llm' }
+  }
+
+  private ruleBasedReflection(step: FrameworkStep, response: string, nextStep: FrameworkStep | null): string {
+    const items = countListItems(response)
+    const opening = step.completionCriteria.minListItems
+      ? `You've set out ${items} points for "${step.title}" — that's a solid base to work from.`
+      : `You've put real thought into "${step.title}".`
+
+    return nextStep
+      ? `${opening} Next up is ${nextStep.title.toLowerCase()}: ${nextStep.guidingQuestions[0]}`
+      : `${opening} That completes the framework — take a moment to notice how far you've come.`
+  }
+}
+
+export default FrameworkRunnerService
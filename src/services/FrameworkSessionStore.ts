@@ -0,0 +1,163 @@
+/**
+ * Framework Session Store
+ * Persists per-user problem-solving framework sessions so they can be resumed.
+ *
+ * Backends:
+ * - SupabaseFrameworkSessionStore: framework_sessions table (production)
+ * - InMemoryFrameworkSessionStore: process-local stand-in (tests, demo mode)
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js'
+import { getSupabaseClient } from '../lib/supabaseClient.js'
+
+export interface FrameworkStepResponse {
+  response: string
+  reflection: string
+  reflectionSource: 'llm' | 'rule-based'
+  submittedAt: Date
+}
+
+export interface FrameworkSession {
+  id: string
+  userId: string
+  frameworkId: string
+  status: 'active' | 'completed'
+  currentStepIndex: number
+  responses: Record<string, FrameworkStepResponse>
+  startedAt: Date
+  updatedAt: Date
+  completedAt?: Date
+}
+
+export interface FrameworkSessionStore {
+  readonly backend: 'supabase' | 'memory'
+
+  /** Insert or update a session */
+  save(session: FrameworkSession): Promise<void>
+
+  get(sessionId: string): Promise<FrameworkSession | null>
+
+  /** Sessions for a user, most recently updated first */
+  listByUser(userId: string, status?: FrameworkSession['status']): Promise<FrameworkSession[]>
+}
+
+function cloneSession(session: FrameworkSession): FrameworkSession {
+  return { ...session, responses: { ...session.responses } }
+}
+
+export class InMemoryFrameworkSessionStore implements FrameworkSessionStore {
+  readonly backend = 'memory' as const
+  private sessions = new Map<string, FrameworkSession>()
+
+  async save(session: FrameworkSession): Promise<void> {
+    this.sessions.set(session.id, cloneSession(session))
+  }
+
+  async get(sessionId: string): Promise<FrameworkSession | null> {
+    const session = this.sessions.get(sessionId)
+    return session ? cloneSession(session) : null
+  }
+
+  async listByUser(userId: string, status?: FrameworkSession['status']): Promise<FrameworkSession[]> {
+    return [...this.sessions.values()]
+      .filter(s => s.userId === userId && (!status || s.status === status))
+      .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime())
+      .map(cloneSession)
+  }
+}
+
+function toRow(session: FrameworkSession) {
+  const responses: Record<string, any> = {}
+  for (const [stepId, step] of Object.entries(session.responses)) {
+    responses[stepId] = { ...step, submittedAt: step.submittedAt.toISOString() }
+  }
+
+  return {
+    id: session.id,
+    user_id: session.userId,
+    framework_id: session.frameworkId,
+    status: session.status,
+    current_step_index: session.currentStepIndex,
+    responses,
+    started_at: session.startedAt.toISOString(),
+    updated_at: session.updatedAt.toISOString(),
+    completed_at: session.completedAt ? session.completedAt.toISOString() : null
+  }
+}
+
+function fromRow(row: any): FrameworkSession {
+  const responses: Record<string, FrameworkStepResponse> = {}
+  for (const [stepId, step] of Object.entries<any>(row.responses || {})) {
+    responses[stepId] = { ...step, submittedAt: new Date(step.submittedAt) }
+  }
+
+  return {
+    id: row.id,
+    userId: row.user_id,
+    frameworkId: row.framework_id,
+    status: row.status,
+    currentStepIndex: row.current_step_index,
+    responses,
+    startedAt: new Date(row.started_at),
+    updatedAt: new Date(row.updated_at),
+    completedAt: row.completed_at ? new Date(row.completed_at) : undefined
+  }
+}
+
+export class SupabaseFrameworkSessionStore implements FrameworkSessionStore {
+  readonly backend = 'supabase' as const
+
+  constructor(private supabase: SupabaseClient) {}
+
+  async save(session: FrameworkSession): Promise<void> {
+    const { error } = await this.supabase.from('framework_sessions').upsert(toRow(session), { onConflict: 'id' })
+
+    if (error) {
+      throw new Error(`Failed to save framework session: ${error.message}`)
+    }
+  }
+
+  async get(sessionId: string): Promise<FrameworkSession | null> {
+    const { data, error } = await this.supabase
+      .from('framework_sessions')
+      .select('*')
+      .eq('id', sessionId)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Failed to fetch framework session: ${error.message}`)
+    }
+
+    return data ? fromRow(data) : null
+  }
+
+  async listByUser(userId: string, status?: FrameworkSession['status']): Promise<FrameworkSession[]> {
+    let request = this.supabase
+      .from('framework_sessions')
+      .select('*')
+      .eq('user_id', userId)
+      .order('updated_at', { ascending: false })
+
+    if (status) {
+      request = request.eq('status', status)
+    }
+
+    const { data, error } = await request
+
+    if (error) {
+      throw new Error(`Failed to list framework sessions: ${error.message}`)
+    }
+
+    return (data || []).map(fromRow)
+  }
+}
+
+/**
+ * Pick the Supabase-backed store when credentials are configured,
+ * otherwise fall back to the in-memory store.
+ */
+export function createFrameworkSessionStore(supabase: SupabaseClient | null = getSupabaseClient()): FrameworkSessionStore {
+  return supabase ? new SupabaseFrameworkSessionStore(supabase) : new InMemoryFrameworkSessionStore()
+}
+
+export default createFrameworkSessionStore
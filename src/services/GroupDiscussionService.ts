@@ -0,0 +1,476 @@
+/**
+ * Group Discussion Service
+ * Threaded posts inside community groups. Members start threads and reply;
+ * everything they write is screened by IVOR's community safety moderation
+ * first: approved posts go straight up, doubtful ones wait for a group admin
+ * and rejected ones are never shown. Admins pin threads and take posts down;
+ * members react to posts and report them to the platform moderators' queue.
+ */
+
+import { randomUUID } from 'crypto'
+import { ContentModerator, moderateContent } from './ContentModerationService.js'
+import {
+  GroupDiscussionStore,
+  GroupPost,
+  POST_REACTIONS,
+  PostReaction,
+  PostReport,
+  PostStatus,
+  REPORT_REASONS,
+  ReportReason,
+  ReportStatus,
+  createGroupDiscussionStore
+} from './GroupDiscussionStore.js'
+import { GroupError, GroupService, getGroupService } from './GroupService.js'
+import { Group, Page } from './GroupStore.js'
+
+export const MAX_POST_LENGTH = 5000
+export const MAX_TITLE_LENGTH = 200
+export const MAX_PINNED = 3
+export const FEED_PAGE_SIZE = 20
+export const REPLIES_PAGE_SIZE = 50
+
+export interface PostInput {
+  title?: string
+  body?: string
+}
+
+export interface Feed {
+  // Only on the first page
+  pinned: GroupPost[]
+  threads: GroupPost[]
+  nextCursor: string | null
+  myReactions: Record<string, PostReaction[]>
+}
+
+export class GroupDiscussionService {
+  constructor(
+    private store: GroupDiscussionStore = createGroupDiscussionStore(),
+    private groups: GroupService = getGroupService(),
+    private moderate: ContentModerator = moderateContent
+  ) {}
+
+  get backend(): 'supabase' | 'memory' {
+    return this.store.backend
+  }
+
+  // ============================================
+  // Writing
+  // ============================================
+
+  async createPost(groupIdOrSlug: string, input: PostInput, authorId: string, now: Date = new Date()): Promise<GroupPost> {
+    const group = await this.groups.requireGroup(groupIdOrSlug)
+    await this.groups.requireRole(group.id, authorId, 'member')
+    const { title, body } = this.validate(input, true)
+
+    const post: GroupPost = {
+      id: randomUUID(),
+      groupId: group.id,
+      authorId,
+      title,
+      body,
+      status: 'pending_review',
+      replyCount: 0,
+      lastActivityAt: now,
+      reactionCounts: {},
+      createdAt: now,
+      updatedAt: now
+    }
+    await this.screen(post, group)
+    await this.store.savePost(post)
+
+    console.log(`💬 [Groups] Thread ${post.status}: ${authorId} -> ${group.name}`)
+    return post
+  }
+
+  async reply(groupIdOrSlug: string, postId: string, input: PostInput, authorId: string, now: Date = new Date()): Promise<GroupPost> {
+    const group = await this.groups.requireGroup(groupIdOrSlug)
+    await this.groups.requireRole(group.id, authorId, 'member')
+    const parent = await this.requirePublished(group, postId)
+    const { body } = this.validate({ body: input.body }, false)
+
+    const reply: GroupPost = {
+      id: randomUUID(),
+      groupId: group.id,
+      authorId,
+      threadId: parent.threadId || parent.id,
+      parentId: parent.id,
+      body,
+      status: 'pending_review',
+      replyCount: 0,
+      lastActivityAt: now,
+      reactionCounts: {},
+      createdAt: now,
+      updatedAt: now
+    }
+    await this.screen(reply, group)
+    await this.store.savePost(reply)
+    if (reply.status === 'published') {
+      await this.store.refreshThread(reply.threadId!)
+    }
+    return reply
+  }
+
+  /** Authors edit their own posts; the new text is screened again */
+  async editPost(groupIdOrSlug: string, postId: string, input: PostInput, actorId: string, now: Date = new Date()): Promise<GroupPost> {
+    const group = await this.groups.requireGroup(groupIdOrSlug)
+    await this.groups.requireRole(group.id, actorId, 'member')
+    const post = await this.requirePost(group, postId)
+
+    if (post.authorId !== actorId) {
+      throw new GroupError('Only the author can edit this post', 403)
+    }
+    if (!['published', 'pending_review'].includes(post.status)) {
+      throw new GroupError('This post can no longer be edited', 409)
+    }
+
+    const { title, body } = this.validate({ title: input.title ?? post.title, body: input.body ?? post.body }, !post.threadId)
+    const wasPublished = post.status === 'published'
+    Object.assign(post, { title, body, editedAt: now, updatedAt: now })
+
+    await this.screen(post, group)
+    // A pin doesn't survive the post going back under review
+    if (post.status !== 'published') {
+      post.pinnedAt = undefined
+      post.pinnedBy = undefined
+    }
+    await this.store.savePost(post)
+    if (post.threadId && wasPublished !== (post.status === 'published')) {
+      await this.store.refreshThread(post.threadId)
+    }
+    return post
+  }
+
+  /** Authors delete their own posts; admins remove anyone's */
+  async deletePost(groupIdOrSlug: string, postId: string, actorId: string, now: Date = new Date()): Promise<void> {
+    const group = await this.groups.requireGroup(groupIdOrSlug)
+    const post = await this.requirePost(group, postId)
+
+    if (post.authorId === actorId) {
+      await this.groups.requireRole(group.id, actorId, 'member')
+      await this.takeDown(post, 'deleted', now)
+    } else {
+      await this.groups.requireRole(group.id, actorId, 'admin')
+      await this.takeDown(post, 'removed', now)
+      console.log(`🧹 [Groups] Post removed by ${actorId} in ${group.name}`)
+    }
+  }
+
+  // ============================================
+  // Administration
+  // ============================================
+
+  async pin(groupIdOrSlug: string, postId: string, actorId: string, now: Date = new Date()): Promise<GroupPost> {
+    const group = await this.groups.requireGroup(groupIdOrSlug)
+    await this.groups.requireRole(group.id, actorId, 'admin')
+    const post = await this.requirePublished(group, postId)
+
+    if (post.threadId) {
+      throw new GroupError('Only the first post of a thread can be pinned')
+    }
+    if (post.pinnedAt) return post
+
+    const pinned = await this.store.listThreads(group.id, { pinned: true, limit: MAX_PINNED })
+    if (pinned.length >= MAX_PINNED) {
+      throw new GroupError(`A group can pin at most ${MAX_PINNED} threads`, 409)
+    }
+
+    Object.assign(post, { pinnedAt: now, pinnedBy: actorId, updatedAt: now })
+    await this.store.savePost(post)
+    return post
+  }
+
+  async unpin(groupIdOrSlug: string, postId: string, actorId: string, now: Date = new Date()): Promise<GroupPost> {
+    const group = await this.groups.requireGroup(groupIdOrSlug)
+    await this.groups.requireRole(group.id, actorId, 'admin')
+    const post = await this.requirePost(group, postId)
+
+    if (post.pinnedAt) {
+      Object.assign(post, { pinnedAt: undefined, pinnedBy: undefined, updatedAt: now })
+      await this.store.savePost(post)
+    }
+    return post
+  }
+
+  /** Posts moderation held back, for the group's admins */
+  async pendingPosts(groupIdOrSlug: string, actorId: string, limit = 50): Promise<GroupPost[]> {
+    const group = await this.groups.requireGroup(groupIdOrSlug)
+    await this.groups.requireRole(group.id, actorId, 'admin')
+    return this.store.listPending(group.id, Math.min(limit, 100))
+  }
+
+  async review(groupIdOrSlug: string, postId: string, decision: 'approve' | 'reject', actorId: string, now: Date = new Date()): Promise<GroupPost> {
+    const group = await this.groups.requireGroup(groupIdOrSlug)
+    await this.groups.requireRole(group.id, actorId, 'admin')
+    const post = await this.requirePost(group, postId)
+
+    if (post.status !== 'pending_review') {
+      throw new GroupError('This post isn\'t awaiting review', 409)
+    }
+    if (decision === 'approve' && post.threadId) {
+      const thread = await this.store.getPost(post.threadId)
+      if (thread?.status !== 'published') {
+        throw new GroupError('The thread this reply belongs to is no longer up', 409)
+      }
+    }
+
+    post.status = decision === 'approve' ? 'published' : 'rejected'
+    post.updatedAt = now
+    await this.store.savePost(post)
+    if (post.threadId && post.status === 'published') {
+      await this.store.refreshThread(post.threadId)
+    }
+    return post
+  }
+
+  // ============================================
+  // Reading
+  // ============================================
+
+  /**
+   * Threads, most recently active first. `cursor` is the nextCursor of the
+   * previous page; pinned threads come with the first page only.
+   */
+  async feed(groupIdOrSlug: string, viewerId: string | undefined, query: { cursor?: string; limit?: number } = {}): Promise<Feed> {
+    const group = await this.groups.requireGroup(groupIdOrSlug)
+    await this.groups.requireReadable(group, viewerId)
+
+    const limit = Math.min(Math.max(query.limit || FEED_PAGE_SIZE, 1), 50)
+    const before = query.cursor ? this.parseCursor(query.cursor) : undefined
+
+    const pinned = before ? [] : await this.store.listThreads(group.id, { pinned: true, limit: MAX_PINNED })
+    const page = await this.store.listThreads(group.id, { pinned: false, before, limit: limit + 1 })
+    const threads = page.slice(0, limit)
+
+    return {
+      pinned,
+      threads,
+      nextCursor: page.length > limit ? threads[threads.length - 1].lastActivityAt.toISOString() : null,
+      myReactions: await this.reactionsOf(viewerId, [...pinned, ...threads])
+    }
+  }
+
+  /** A thread's first post and its replies, oldest first, paged by `cursor` */
+  async thread(
+    groupIdOrSlug: string,
+    postId: string,
+    viewerId: string | undefined,
+    query: { cursor?: string; limit?: number } = {}
+  ): Promise<{ post: GroupPost; replies: GroupPost[]; nextCursor: string | null; myReactions: Record<string, PostReaction[]> }> {
+    const group = await this.groups.requireGroup(groupIdOrSlug)
+    await this.groups.requireReadable(group, viewerId)
+    const post = await this.requirePublished(group, postId)
+    const root = post.threadId ? await this.requirePublished(group, post.threadId) : post
+
+    const limit = Math.min(Math.max(query.limit || REPLIES_PAGE_SIZE, 1), 100)
+    const after = query.cursor ? this.parseCursor(query.cursor) : undefined
+    const page = await this.store.listReplies(root.id, { after, limit: limit + 1 })
+    const replies = page.slice(0, limit)
+
+    return {
+      post: root,
+      replies,
+      nextCursor: page.length > limit ? replies[replies.length - 1].createdAt.toISOString() : null,
+      myReactions: await this.reactionsOf(viewerId, [root, ...replies])
+    }
+  }
+
+  // ============================================
+  // Reactions and reports
+  // ============================================
+
+  async react(
+    groupIdOrSlug: string,
+    postId: string,
+    reaction: string,
+    userId: string,
+    present: boolean
+  ): Promise<Partial<Record<PostReaction, number>>> {
+    if (!POST_REACTIONS.includes(reaction as PostReaction)) {
+      throw new GroupError(`reaction must be one of: ${POST_REACTIONS.join(', ')}`)
+    }
+    const group = await this.groups.requireGroup(groupIdOrSlug)
+    await this.groups.requireRole(group.id, userId, 'member')
+    await this.requirePublished(group, postId)
+
+    return this.store.setReaction(postId, userId, reaction as PostReaction, present)
+  }
+
+  /** Anyone who can read a post can report it to the platform moderators */
+  async report(
+    groupIdOrSlug: string,
+    postId: string,
+    input: { reason?: string; description?: string },
+    reporterId: string,
+    now: Date = new Date()
+  ): Promise<PostReport> {
+    if (!REPORT_REASONS.includes(input.reason as ReportReason)) {
+      throw new GroupError(`reason must be one of: ${REPORT_REASONS.join(', ')}`)
+    }
+    const group = await this.groups.requireGroup(groupIdOrSlug)
+    await this.groups.requireReadable(group, reporterId)
+    const post = await this.requirePublished(group, postId)
+
+    const report: PostReport = {
+      id: randomUUID(),
+      postId: post.id,
+      groupId: group.id,
+      reporterId,
+      reason: input.reason as ReportReason,
+      description: input.description?.trim().slice(0, 1000) || undefined,
+      status: 'pending',
+      createdAt: now
+    }
+    if (!(await this.store.createReport(report))) {
+      throw new GroupError('You have already reported this post', 409)
+    }
+
+    console.log(`🚩 [Groups] Post reported (${report.reason}) in ${group.name}`)
+    return report
+  }
+
+  /** The moderators' queue, with the reported posts */
+  async listReports(
+    query: { status?: ReportStatus; limit?: number; offset?: number } = {}
+  ): Promise<Page<PostReport & { post: GroupPost | null }> & { counts: Record<ReportStatus, number> }> {
+    const { items, total } = await this.store.listReports({
+      status: query.status,
+      limit: Math.min(query.limit || 50, 100),
+      offset: query.offset || 0
+    })
+    const withPosts = await Promise.all(items.map(async report => ({ ...report, post: await this.store.getPost(report.postId) })))
+    return { items: withPosts, total, counts: await this.store.countReports() }
+  }
+
+  /**
+   * Moderator decision on a report. Resolving with the remove_post action takes
+   * the post down as well.
+   */
+  async resolveReport(
+    reportId: string,
+    input: { status?: string; resolutionNotes?: string; actionTaken?: string },
+    moderatorId: string,
+    now: Date = new Date()
+  ): Promise<PostReport> {
+    const report = await this.store.getReport(reportId)
+    if (!report) {
+      throw new GroupError('Report not found', 404)
+    }
+    if (!['reviewing', 'resolved', 'dismissed'].includes(input.status || '')) {
+      throw new GroupError('status must be one of: reviewing, resolved, dismissed')
+    }
+
+    report.status = input.status as ReportStatus
+    report.resolutionNotes = input.resolutionNotes ?? report.resolutionNotes
+    report.actionTaken = input.actionTaken ?? report.actionTaken
+    if (report.status !== 'reviewing') {
+      report.resolvedBy = moderatorId
+      report.resolvedAt = now
+    }
+    await this.store.updateReport(report)
+
+    if (report.status === 'resolved' && report.actionTaken === 'remove_post') {
+      const post = await this.store.getPost(report.postId)
+      if (post && post.status === 'published') {
+        await this.takeDown(post, 'removed', now)
+      }
+    }
+    return report
+  }
+
+  // ============================================
+  // Helpers
+  // ============================================
+
+  // Published, held or rejected depending on IVOR's recommendation. If moderation
+  // is unavailable the post waits for an admin rather than going up unscreened.
+  private async screen(post: GroupPost, group: Group): Promise<void> {
+    try {
+      const result = await this.moderate({
+        type: 'group_post',
+        title: post.title || '',
+        description: post.body,
+        tags: group.tags
+      }, 'community_safety')
+
+      post.moderation = {
+        recommendation: result.recommendation,
+        confidence: result.confidence,
+        reasoning: result.reasoning,
+        flags: result.flags || []
+      }
+      post.status = result.recommendation === 'auto-approve' ? 'published'
+        : result.recommendation === 'reject' ? 'rejected'
+          : 'pending_review'
+    } catch (error) {
+      console.error('[Groups] Post moderation failed, holding for review:', error)
+      post.moderation = undefined
+      post.status = 'pending_review'
+    }
+  }
+
+  private async takeDown(post: GroupPost, status: PostStatus, now: Date): Promise<void> {
+    const wasPublished = post.status === 'published'
+    Object.assign(post, { status, pinnedAt: undefined, pinnedBy: undefined, updatedAt: now })
+    await this.store.savePost(post)
+    if (post.threadId && wasPublished) {
+      await this.store.refreshThread(post.threadId)
+    }
+  }
+
+  private validate(input: PostInput, isThread: boolean): { title?: string; body: string } {
+    const body = typeof input.body === 'string' ? input.body.trim() : ''
+    const title = isThread && typeof input.title === 'string' ? input.title.trim() || undefined : undefined
+
+    if (!body) {
+      throw new GroupError('body is required')
+    }
+    if (body.length > MAX_POST_LENGTH) {
+      throw new GroupError(`body must be at most ${MAX_POST_LENGTH} characters`)
+    }
+    if (title && title.length > MAX_TITLE_LENGTH) {
+      throw new GroupError(`title must be at most ${MAX_TITLE_LENGTH} characters`)
+    }
+    return { title, body }
+  }
+
+  private parseCursor(cursor: string): Date {
+    const date = new Date(cursor)
+    if (isNaN(date.getTime())) {
+      throw new GroupError('Invalid cursor')
+    }
+    return date
+  }
+
+  private async requirePost(group: Group, postId: string): Promise<GroupPost> {
+    const post = await this.store.getPost(postId)
+    if (!post || post.groupId !== group.id) {
+      throw new GroupError('Post not found', 404)
+    }
+    return post
+  }
+
+  private async requirePublished(group: Group, postId: string): Promise<GroupPost> {
+    const post = await this.requirePost(group, postId)
+    if (post.status !== 'published') {
+      throw new GroupError('Post not found', 404)
+    }
+    return post
+  }
+
+  private async reactionsOf(viewerId: string | undefined, posts: GroupPost[]): Promise<Record<string, PostReaction[]>> {
+    if (!viewerId || posts.length === 0) return {}
+    return Object.fromEntries(await this.store.listUserReactions(posts.map(p => p.id), viewerId))
+  }
+}
+
+let groupDiscussionService: GroupDiscussionService | null = null
+
+export function getGroupDiscussionService(): GroupDiscussionService {
+  if (!groupDiscussionService) {
+    groupDiscussionService = new GroupDiscussionService()
+  }
+  return groupDiscussionService
+}
+
+export default GroupDiscussionService
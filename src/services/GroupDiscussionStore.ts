@@ -0,0 +1,518 @@
+/**
+ * Group Discussion Store
+ * Posts and replies inside community groups, members' reactions to them, and
+ * the queue of posts members have reported.
+ *
+ * Backends:
+ * - SupabaseGroupDiscussionStore: group_posts, group_post_reactions and
+ *   group_post_reports tables (production)
+ * - InMemoryGroupDiscussionStore: process-local stand-in (tests, demo mode)
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js'
+import { getSupabaseClient } from '../lib/supabaseClient.js'
+import { Page } from './GroupStore.js'
+
+// pending_review: held by moderation for a group admin; removed: taken down by
+// an admin or moderator; deleted: by its author
+export type PostStatus = 'published' | 'pending_review' | 'rejected' | 'removed' | 'deleted'
+
+export const POST_REACTIONS = ['heart', 'fist', 'celebrate', 'hug', 'laugh', 'thinking'] as const
+
+export type PostReaction = typeof POST_REACTIONS[number]
+
+export interface PostModeration {
+  recommendation: 'auto-approve' | 'review' | 'reject'
+  confidence: number
+  reasoning: string
+  flags: string[]
+}
+
+export interface GroupPost {
+  id: string
+  groupId: string
+  authorId: string
+  // The thread a reply belongs to, and the post it answers; both unset for a thread's first post
+  threadId?: string
+  parentId?: string
+  title?: string
+  body: string
+  status: PostStatus
+  moderation?: PostModeration
+  pinnedAt?: Date
+  pinnedBy?: string
+  // Thread starters only: published replies and the time of the latest one
+  replyCount: number
+  lastActivityAt: Date
+  reactionCounts: Partial<Record<PostReaction, number>>
+  editedAt?: Date
+  createdAt: Date
+  updatedAt: Date
+}
+
+export const REPORT_REASONS = ['spam', 'inappropriate', 'misleading', 'harassment', 'safety', 'scam', 'duplicate', 'other'] as const
+
+export type ReportReason = typeof REPORT_REASONS[number]
+
+export type ReportStatus = 'pending' | 'reviewing' | 'resolved' | 'dismissed'
+
+export const REPORT_STATUSES: ReportStatus[] = ['pending', 'reviewing', 'resolved', 'dismissed']
+
+export interface PostReport {
+  id: string
+  postId: string
+  groupId: string
+  reporterId: string
+  reason: ReportReason
+  description?: string
+  status: ReportStatus
+  resolvedBy?: string
+  resolvedAt?: Date
+  resolutionNotes?: string
+  actionTaken?: string
+  createdAt: Date
+}
+
+export interface GroupDiscussionStore {
+  readonly backend: 'supabase' | 'memory'
+
+  /** Insert or update a post */
+  savePost(post: GroupPost): Promise<void>
+
+  getPost(postId: string): Promise<GroupPost | null>
+
+  /**
+   * Published thread starters, most recently active first, optionally only
+   * those active before `before`. Pinned threads are listed on their own.
+   */
+  listThreads(groupId: string, query: { pinned: boolean; before?: Date; limit: number }): Promise<GroupPost[]>
+
+  /** A thread's published replies, oldest first, optionally only those after `after` */
+  listReplies(threadId: string, query: { after?: Date; limit: number }): Promise<GroupPost[]>
+
+  /** Posts and replies held for review, oldest first */
+  listPending(groupId: string, limit: number): Promise<GroupPost[]>
+
+  /** Recount a thread's published replies and its latest activity */
+  refreshThread(threadId: string): Promise<void>
+
+  /** Add or remove a member's reaction; returns the post's new counts */
+  setReaction(postId: string, userId: string, reaction: PostReaction, present: boolean): Promise<Partial<Record<PostReaction, number>>>
+
+  /** The user's reactions to each of the posts */
+  listUserReactions(postIds: string[], userId: string): Promise<Map<string, PostReaction[]>>
+
+  /** Insert a report; false when the reporter already reported the post */
+  createReport(report: PostReport): Promise<boolean>
+
+  getReport(reportId: string): Promise<PostReport | null>
+
+  updateReport(report: PostReport): Promise<void>
+
+  /** Newest first */
+  listReports(query: { status?: ReportStatus; limit: number; offset: number }): Promise<Page<PostReport>>
+
+  countReports(): Promise<Record<ReportStatus, number>>
+}
+
+function copyPost(post: GroupPost): GroupPost {
+  return { ...post, reactionCounts: { ...post.reactionCounts }, moderation: post.moderation && { ...post.moderation } }
+}
+
+export class InMemoryGroupDiscussionStore implements GroupDiscussionStore {
+  readonly backend = 'memory' as const
+  private posts = new Map<string, GroupPost>()
+  private reactions = new Map<string, Set<string>>()
+  private reports = new Map<string, PostReport>()
+
+  async savePost(post: GroupPost): Promise<void> {
+    this.posts.set(post.id, copyPost(post))
+  }
+
+  async getPost(postId: string): Promise<GroupPost | null> {
+    const post = this.posts.get(postId)
+    return post ? copyPost(post) : null
+  }
+
+  async listThreads(groupId: string, query: { pinned: boolean; before?: Date; limit: number }): Promise<GroupPost[]> {
+    return [...this.posts.values()]
+      .filter(p => p.groupId === groupId && !p.threadId && p.status === 'published' && !!p.pinnedAt === query.pinned)
+      .filter(p => !query.before || p.lastActivityAt.getTime() < query.before.getTime())
+      .sort((a, b) => query.pinned
+        ? b.pinnedAt!.getTime() - a.pinnedAt!.getTime()
+        : b.lastActivityAt.getTime() - a.lastActivityAt.getTime())
+      .slice(0, query.limit)
+      .map(copyPost)
+  }
+
+  async listReplies(threadId: string, query: { after?: Date; limit: number }): Promise<GroupPost[]> {
+    return [...this.posts.values()]
+      .filter(p => p.threadId === threadId && p.status === 'published')
+      .filter(p => !query.after || p.createdAt.getTime() > query.after.getTime())
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+      .slice(0, query.limit)
+      .map(copyPost)
+  }
+
+  async listPending(groupId: string, limit: number): Promise<GroupPost[]> {
+    return [...this.posts.values()]
+      .filter(p => p.groupId === groupId && p.status === 'pending_review')
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+      .slice(0, limit)
+      .map(copyPost)
+  }
+
+  async refreshThread(threadId: string): Promise<void> {
+    const thread = this.posts.get(threadId)
+    if (!thread) return
+    const replies = [...this.posts.values()].filter(p => p.threadId === threadId && p.status === 'published')
+    thread.replyCount = replies.length
+    thread.lastActivityAt = new Date(Math.max(thread.createdAt.getTime(), ...replies.map(r => r.createdAt.getTime())))
+  }
+
+  async setReaction(postId: string, userId: string, reaction: PostReaction, present: boolean): Promise<Partial<Record<PostReaction, number>>> {
+    const key = `${postId}:${reaction}`
+    const users = this.reactions.get(key) || new Set<string>()
+    if (present) users.add(userId)
+    else users.delete(userId)
+    this.reactions.set(key, users)
+
+    const post = this.posts.get(postId)!
+    post.reactionCounts = Object.fromEntries(
+      POST_REACTIONS
+        .map(r => [r, this.reactions.get(`${postId}:${r}`)?.size || 0] as const)
+        .filter(([, count]) => count > 0)
+    )
+    return { ...post.reactionCounts }
+  }
+
+  async listUserReactions(postIds: string[], userId: string): Promise<Map<string, PostReaction[]>> {
+    return new Map(postIds.map(postId => [
+      postId,
+      POST_REACTIONS.filter(r => this.reactions.get(`${postId}:${r}`)?.has(userId))
+    ]))
+  }
+
+  async createReport(report: PostReport): Promise<boolean> {
+    if ([...this.reports.values()].some(r => r.postId === report.postId && r.reporterId === report.reporterId)) return false
+    this.reports.set(report.id, { ...report })
+    return true
+  }
+
+  async getReport(reportId: string): Promise<PostReport | null> {
+    const report = this.reports.get(reportId)
+    return report ? { ...report } : null
+  }
+
+  async updateReport(report: PostReport): Promise<void> {
+    this.reports.set(report.id, { ...report })
+  }
+
+  async listReports(query: { status?: ReportStatus; limit: number; offset: number }): Promise<Page<PostReport>> {
+    const matching = [...this.reports.values()]
+      .filter(r => !query.status || r.status === query.status)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+    return { items: matching.slice(query.offset, query.offset + query.limit).map(r => ({ ...r })), total: matching.length }
+  }
+
+  async countReports(): Promise<Record<ReportStatus, number>> {
+    const counts = { pending: 0, reviewing: 0, resolved: 0, dismissed: 0 }
+    this.reports.forEach(r => { counts[r.status]++ })
+    return counts
+  }
+}
+
+function iso(date: Date | undefined): string | null {
+  return date ? date.toISOString() : null
+}
+
+function date(value: string | null): Date | undefined {
+  return value ? new Date(value) : undefined
+}
+
+function postToRow(post: GroupPost) {
+  return {
+    id: post.id,
+    group_id: post.groupId,
+    author_id: post.authorId,
+    thread_id: post.threadId ?? null,
+    parent_id: post.parentId ?? null,
+    title: post.title ?? null,
+    body: post.body,
+    status: post.status,
+    moderation: post.moderation ?? null,
+    pinned_at: iso(post.pinnedAt),
+    pinned_by: post.pinnedBy ?? null,
+    edited_at: iso(post.editedAt),
+    created_at: post.createdAt.toISOString(),
+    updated_at: post.updatedAt.toISOString()
+  }
+}
+
+function postFromRow(row: any): GroupPost {
+  return {
+    id: row.id,
+    groupId: row.group_id,
+    authorId: row.author_id,
+    threadId: row.thread_id ?? undefined,
+    parentId: row.parent_id ?? undefined,
+    title: row.title ?? undefined,
+    body: row.body,
+    status: row.status,
+    moderation: row.moderation ?? undefined,
+    pinnedAt: date(row.pinned_at),
+    pinnedBy: row.pinned_by ?? undefined,
+    replyCount: row.reply_count ?? 0,
+    lastActivityAt: new Date(row.last_activity_at),
+    reactionCounts: row.reaction_counts || {},
+    editedAt: date(row.edited_at),
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at)
+  }
+}
+
+function reportFromRow(row: any): PostReport {
+  return {
+    id: row.id,
+    postId: row.post_id,
+    groupId: row.group_id,
+    reporterId: row.reporter_id,
+    reason: row.reason,
+    description: row.description ?? undefined,
+    status: row.status,
+    resolvedBy: row.resolved_by ?? undefined,
+    resolvedAt: date(row.resolved_at),
+    resolutionNotes: row.resolution_notes ?? undefined,
+    actionTaken: row.action_taken ?? undefined,
+    createdAt: new Date(row.created_at)
+  }
+}
+
+export class SupabaseGroupDiscussionStore implements GroupDiscussionStore {
+  readonly backend = 'supabase' as const
+
+  constructor(private supabase: SupabaseClient) {}
+
+  async savePost(post: GroupPost): Promise<void> {
+    // reply_count, last_activity_at and reaction_counts are kept by refreshThread and setReaction
+    const { error } = await this.supabase
+      .from('group_posts')
+      .upsert({ ...postToRow(post), last_activity_at: post.lastActivityAt.toISOString() }, { onConflict: 'id' })
+
+    if (error) {
+      throw new Error(`Failed to save group post: ${error.message}`)
+    }
+  }
+
+  async getPost(postId: string): Promise<GroupPost | null> {
+    const { data, error } = await this.supabase.from('group_posts').select('*').eq('id', postId).maybeSingle()
+
+    if (error) {
+      throw new Error(`Failed to fetch group post: ${error.message}`)
+    }
+
+    return data ? postFromRow(data) : null
+  }
+
+  async listThreads(groupId: string, query: { pinned: boolean; before?: Date; limit: number }): Promise<GroupPost[]> {
+    let request = this.supabase
+      .from('group_posts')
+      .select('*')
+      .eq('group_id', groupId)
+      .is('thread_id', null)
+      .eq('status', 'published')
+
+    request = query.pinned
+      ? request.not('pinned_at', 'is', null).order('pinned_at', { ascending: false })
+      : request.is('pinned_at', null).order('last_activity_at', { ascending: false })
+    if (query.before) request = request.lt('last_activity_at', query.before.toISOString())
+
+    const { data, error } = await request.limit(query.limit)
+
+    if (error) {
+      throw new Error(`Failed to list group threads: ${error.message}`)
+    }
+
+    return (data || []).map(postFromRow)
+  }
+
+  async listReplies(threadId: string, query: { after?: Date; limit: number }): Promise<GroupPost[]> {
+    let request = this.supabase
+      .from('group_posts')
+      .select('*')
+      .eq('thread_id', threadId)
+      .eq('status', 'published')
+      .order('created_at', { ascending: true })
+
+    if (query.after) request = request.gt('created_at', query.after.toISOString())
+
+    const { data, error } = await request.limit(query.limit)
+
+    if (error) {
+      throw new Error(`Failed to list replies: ${error.message}`)
+    }
+
+    return (data || []).map(postFromRow)
+  }
+
+  async listPending(groupId: string, limit: number): Promise<GroupPost[]> {
+    const { data, error } = await this.supabase
+      .from('group_posts')
+      .select('*')
+      .eq('group_id', groupId)
+      .eq('status', 'pending_review')
+      .order('created_at', { ascending: true })
+      .limit(limit)
+
+    if (error) {
+      throw new Error(`Failed to list posts awaiting review: ${error.message}`)
+    }
+
+    return (data || []).map(postFromRow)
+  }
+
+  async refreshThread(threadId: string): Promise<void> {
+    // refresh_group_thread recounts from group_posts in one statement, so racing replies can't undercount
+    const { error } = await this.supabase.rpc('refresh_group_thread', { p_thread_id: threadId })
+
+    if (error) {
+      throw new Error(`Failed to refresh thread: ${error.message}`)
+    }
+  }
+
+  async setReaction(postId: string, userId: string, reaction: PostReaction, present: boolean): Promise<Partial<Record<PostReaction, number>>> {
+    const { error } = present
+      ? await this.supabase
+        .from('group_post_reactions')
+        .upsert({ post_id: postId, user_id: userId, reaction }, { onConflict: 'post_id,user_id,reaction', ignoreDuplicates: true })
+      : await this.supabase
+        .from('group_post_reactions')
+        .delete()
+        .eq('post_id', postId)
+        .eq('user_id', userId)
+        .eq('reaction', reaction)
+
+    if (error) {
+      throw new Error(`Failed to save reaction: ${error.message}`)
+    }
+
+    // refresh_group_post_reactions recounts into group_posts.reaction_counts and returns them
+    const { data, error: countError } = await this.supabase.rpc('refresh_group_post_reactions', { p_post_id: postId })
+
+    if (countError) {
+      throw new Error(`Failed to count reactions: ${countError.message}`)
+    }
+
+    return data || {}
+  }
+
+  async listUserReactions(postIds: string[], userId: string): Promise<Map<string, PostReaction[]>> {
+    const result = new Map<string, PostReaction[]>(postIds.map(id => [id, []]))
+    if (postIds.length === 0) return result
+
+    const { data, error } = await this.supabase
+      .from('group_post_reactions')
+      .select('post_id, reaction')
+      .eq('user_id', userId)
+      .in('post_id', postIds)
+
+    if (error) {
+      throw new Error(`Failed to fetch reactions: ${error.message}`)
+    }
+
+    for (const row of data || []) {
+      result.get(row.post_id)?.push(row.reaction)
+    }
+    return result
+  }
+
+  async createReport(report: PostReport): Promise<boolean> {
+    const { error } = await this.supabase.from('group_post_reports').insert({
+      id: report.id,
+      post_id: report.postId,
+      group_id: report.groupId,
+      reporter_id: report.reporterId,
+      reason: report.reason,
+      description: report.description ?? null,
+      status: report.status,
+      created_at: report.createdAt.toISOString()
+    })
+
+    if (error) {
+      if (error.code === '23505') return false
+      throw new Error(`Failed to save report: ${error.message}`)
+    }
+    return true
+  }
+
+  async getReport(reportId: string): Promise<PostReport | null> {
+    const { data, error } = await this.supabase.from('group_post_reports').select('*').eq('id', reportId).maybeSingle()
+
+    if (error) {
+      throw new Error(`Failed to fetch report: ${error.message}`)
+    }
+
+    return data ? reportFromRow(data) : null
+  }
+
+  async updateReport(report: PostReport): Promise<void> {
+    const { error } = await this.supabase
+      .from('group_post_reports')
+      .update({
+        status: report.status,
+        resolved_by: report.resolvedBy ?? null,
+        resolved_at: iso(report.resolvedAt),
+        resolution_notes: report.resolutionNotes ?? null,
+        action_taken: report.actionTaken ?? null
+      })
+      .eq('id', report.id)
+
+    if (error) {
+      throw new Error(`Failed to update report: ${error.message}`)
+    }
+  }
+
+  async listReports(query: { status?: ReportStatus; limit: number; offset: number }): Promise<Page<PostReport>> {
+    let request = this.supabase
+      .from('group_post_reports')
+      .select('*', { count: 'exact' })
+      .order('created_at', { ascending: false })
+      .range(query.offset, query.offset + query.limit - 1)
+
+    if (query.status) request = request.eq('status', query.status)
+
+    const { data, count, error } = await request
+
+    if (error) {
+      throw new Error(`Failed to list reports: ${error.message}`)
+    }
+
+    return { items: (data || []).map(reportFromRow), total: count ?? 0 }
+  }
+
+  async countReports(): Promise<Record<ReportStatus, number>> {
+    const counts = await Promise.all(REPORT_STATUSES.map(async status => {
+      const { count, error } = await this.supabase
+        .from('group_post_reports')
+        .select('id', { count: 'exact', head: true })
+        .eq('status', status)
+
+      if (error) {
+        throw new Error(`Failed to count reports: ${error.message}`)
+      }
+      return [status, count ?? 0] as const
+    }))
+
+    return Object.fromEntries(counts) as Record<ReportStatus, number>
+  }
+}
+
+/**
+ * Pick the Supabase-backed store when credentials are configured,
+ * otherwise fall back to the in-memory store.
+ */
+export function createGroupDiscussionStore(supabase: SupabaseClient | null = getSupabaseClient()): GroupDiscussionStore {
+  return supabase ? new SupabaseGroupDiscussionStore(supabase) : new InMemoryGroupDiscussionStore()
+}
+
+export default createGroupDiscussionStore
@@ -0,0 +1,135 @@
+/**
+ * Group Event Service
+ * Events owned by a community group. Group members can submit events for the
+ * group; those from owners and admins are published straight away rather than
+ * waiting in the platform moderation queue. When a group event is published
+ * its members are notified through the notification queue.
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js'
+import { getSupabaseClient } from '../lib/supabaseClient.js'
+import { EVENT_TIMEZONE, eventPath, expandEventRows, upcomingEventsFilter } from '../lib/recurrence.js'
+import { GroupService, getGroupService } from './GroupService.js'
+import { Group } from './GroupStore.js'
+import { NotificationQueueService, getNotificationQueueService } from './NotificationQueueService.js'
+
+// Recurring group events are listed this far ahead by default
+export const GROUP_EVENTS_DEFAULT_DAYS = 90
+
+export interface GroupEventRow {
+  id: string
+  title: string
+  date: string
+  start_time?: string | null
+  group_id?: string | null
+  submitted_by?: string | null
+  [field: string]: any
+}
+
+export interface GroupEventSource {
+  /** A group's approved events running on or after `from` and starting by `to` */
+  listGroupEvents(groupId: string, from: string, to: string, limit: number): Promise<GroupEventRow[]>
+}
+
+export class SupabaseGroupEventSource implements GroupEventSource {
+  constructor(private supabase: SupabaseClient) {}
+
+  async listGroupEvents(groupId: string, from: string, to: string, limit: number): Promise<GroupEventRow[]> {
+    const { data, error } = await this.supabase
+      .from('events')
+      .select('*')
+      .eq('group_id', groupId)
+      .eq('status', 'approved')
+      .or(upcomingEventsFilter(from))
+      .lte('date', to)
+      .order('date', { ascending: true })
+      .limit(limit)
+
+    if (error) {
+      throw new Error(`Failed to fetch group events: ${error.message}`)
+    }
+
+    return (data || []) as unknown as GroupEventRow[]
+  }
+}
+
+export class GroupEventService {
+  constructor(
+    private groups: GroupService = getGroupService(),
+    private events: GroupEventSource | null = getSupabaseClient() ? new SupabaseGroupEventSource(getSupabaseClient()!) : null,
+    private queue: Pick<NotificationQueueService, 'enqueue'> = getNotificationQueueService()
+  ) {}
+
+  /**
+   * Check that `userId` may submit an event for the group, and whether it
+   * skips the moderation queue (owners and admins)
+   */
+  async authorizeSubmission(groupIdOrSlug: string, userId: string | undefined): Promise<{ group: Group; autoApprove: boolean }> {
+    const group = await this.groups.requireGroup(groupIdOrSlug)
+    const membership = await this.groups.requireRole(group.id, userId, 'member')
+    return { group, autoApprove: membership.role !== 'member' }
+  }
+
+  /**
+   * The group's upcoming events, with each occurrence of a recurring event
+   * listed separately. Private and hidden groups' events are for members.
+   */
+  async upcoming(
+    groupIdOrSlug: string,
+    viewerId: string | undefined,
+    query: { days?: number; limit?: number } = {},
+    now: Date = new Date()
+  ): Promise<{ group: Group; events: any[] }> {
+    const group = await this.groups.requireGroup(groupIdOrSlug)
+    await this.groups.requireReadable(group, viewerId)
+    if (!this.events) return { group, events: [] }
+
+    const days = Math.min(Math.max(query.days || GROUP_EVENTS_DEFAULT_DAYS, 1), 366)
+    const limit = Math.min(Math.max(query.limit || 50, 1), 100)
+    const from = now.toISOString().split('T')[0]
+    const to = new Date(now.getTime() + days * 24 * 60 * 60 * 1000).toISOString().split('T')[0]
+
+    const rows = await this.events.listGroupEvents(group.id, from, to, 100)
+    return { group, events: expandEventRows(rows, { from, to }).slice(0, limit) }
+  }
+
+  /**
+   * Tell the group's members about a newly published event. The submitter
+   * isn't told about their own event; the dedupe key stops a second
+   * approval notifying anyone twice. Returns how many members were queued.
+   */
+  async notifyMembers(event: GroupEventRow, now: Date = new Date()): Promise<number> {
+    if (!event.group_id) return 0
+
+    const group = await this.groups.requireGroup(event.group_id)
+    const userIds = (await this.groups.activeMemberIds(group.id)).filter(id => id !== event.submitted_by)
+    if (userIds.length === 0) return 0
+
+    const when = new Intl.DateTimeFormat('en-GB', { weekday: 'long', day: 'numeric', month: 'long', timeZone: EVENT_TIMEZONE })
+      .format(new Date(event.date.length === 10 ? `${event.date}T12:00:00Z` : event.date))
+
+    const { items, duplicates } = await this.queue.enqueue({
+      userIds,
+      topic: 'events',
+      title: `📅 New in ${group.name}`,
+      body: `${event.title} — ${when}`,
+      url: eventPath(event.id),
+      data: { eventId: event.id, groupId: group.id, type: 'group-event' },
+      dedupeKey: `group-event:${event.id}`
+    }, now)
+
+    console.log(`📅 [Groups] Notified ${items.length - duplicates} member(s) of ${group.name} about ${event.title}`)
+    return items.length - duplicates
+  }
+}
+
+let groupEventService: GroupEventService | null = null
+
+export function getGroupEventService(): GroupEventService {
+  if (!groupEventService) {
+    groupEventService = new GroupEventService()
+  }
+  return groupEventService
+}
+
+export default GroupEventService
@@ -0,0 +1,527 @@
+/**
+ * Group Service
+ * Community groups with owner/admin/member roles. Public groups with an open
+ * policy take members straight away; an approval policy (always the case for
+ * private groups) queues join requests for an admin; invite-only groups take
+ * members through expiring invite links. Admins remove and ban members;
+ * every membership change is written to the group's audit log.
+ */
+
+import { randomBytes, randomUUID } from 'crypto'
+import {
+  GROUP_JOIN_POLICIES,
+  GROUP_VISIBILITIES,
+  Group,
+  GroupAuditAction,
+  GroupAuditEntry,
+  GroupInvite,
+  GroupJoinPolicy,
+  GroupQuery,
+  GroupRole,
+  GroupStore,
+  GroupVisibility,
+  Membership,
+  MembershipStatus,
+  Page,
+  createGroupStore
+} from './GroupStore.js'
+
+export const DEFAULT_INVITE_HOURS = 7 * 24
+export const MAX_INVITE_HOURS = 30 * 24
+
+export class GroupError extends Error {
+  constructor(message: string, public readonly status: 400 | 403 | 404 | 409 = 400) {
+    super(message)
+    this.name = 'GroupError'
+  }
+}
+
+export interface GroupInput {
+  name?: string
+  description?: string
+  coverImage?: string
+  visibility?: GroupVisibility
+  joinPolicy?: GroupJoinPolicy
+  category?: string
+  tags?: string[]
+  locationFocus?: string
+  guidelines?: string
+}
+
+export type JoinOutcome = 'joined' | 'requested' | 'already_member' | 'already_requested'
+
+const ROLE_RANK: Record<GroupRole, number> = { member: 0, admin: 1, owner: 2 }
+const MEMBER_BATCH_SIZE = 500
+
+export function slugify(name: string): string {
+  return name.toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/(^-|-$)/g, '')
+}
+
+export class GroupService {
+  constructor(private store: GroupStore = createGroupStore()) {}
+
+  get backend() {
+    return this.store.backend
+  }
+
+  // ============================================
+  // Groups
+  // ============================================
+
+  async create(input: GroupInput, createdBy: string, now: Date = new Date()): Promise<Group> {
+    const name = (input.name || '').trim()
+    if (!name) {
+      throw new GroupError('Name is required')
+    }
+
+    const visibility = this.requireVisibility(input.visibility || 'public')
+    const group: Group = {
+      id: randomUUID(),
+      name,
+      slug: slugify(name),
+      description: input.description || undefined,
+      coverImage: input.coverImage || undefined,
+      visibility,
+      joinPolicy: this.joinPolicyFor(visibility, input.joinPolicy || 'open'),
+      category: input.category || 'Social',
+      tags: Array.isArray(input.tags) ? input.tags.map(String) : [],
+      locationFocus: input.locationFocus || 'UK-wide',
+      guidelines: input.guidelines || undefined,
+      memberCount: 0,
+      eventCount: 0,
+      createdBy,
+      createdAt: now,
+      updatedAt: now
+    }
+
+    if (!group.slug) {
+      throw new GroupError('Name needs at least one letter or number')
+    }
+    if (!(await this.store.createGroup(group))) {
+      throw new GroupError('A group with a similar name already exists', 409)
+    }
+
+    await this.store.saveMembership({ groupId: group.id, userId: createdBy, role: 'owner', status: 'active', joinedAt: now })
+    await this.audit(group.id, 'created', createdBy, undefined, undefined, now)
+
+    console.log(`🏴 [Groups] Created: ${group.name}`)
+    return { ...group, memberCount: 1 }
+  }
+
+  /** Settings changes by an owner or admin */
+  async update(groupIdOrSlug: string, changes: GroupInput, actorId: string, now: Date = new Date()): Promise<Group> {
+    const group = await this.requireGroup(groupIdOrSlug)
+    await this.requireRole(group.id, actorId, 'admin')
+
+    if (changes.name !== undefined) {
+      if (!changes.name.trim()) throw new GroupError('Name is required')
+      group.name = changes.name.trim()
+    }
+    if (changes.description !== undefined) group.description = changes.description || undefined
+    if (changes.coverImage !== undefined) group.coverImage = changes.coverImage || undefined
+    if (changes.category !== undefined) group.category = changes.category || undefined
+    if (changes.tags !== undefined) group.tags = Array.isArray(changes.tags) ? changes.tags.map(String) : []
+    if (changes.locationFocus !== undefined) group.locationFocus = changes.locationFocus || undefined
+    if (changes.guidelines !== undefined) group.guidelines = changes.guidelines || undefined
+    if (changes.visibility !== undefined) group.visibility = this.requireVisibility(changes.visibility)
+    group.joinPolicy = this.joinPolicyFor(group.visibility, changes.joinPolicy ?? group.joinPolicy)
+    group.updatedAt = now
+
+    await this.store.updateGroup(group)
+    await this.audit(group.id, 'updated', actorId, undefined, { fields: Object.keys(changes) }, now)
+    return group
+  }
+
+  /**
+   * A group as `viewerId` may see it. Hidden groups don't exist to anyone
+   * but their members; the viewer's own membership comes back alongside.
+   */
+  async get(groupIdOrSlug: string, viewerId?: string): Promise<{ group: Group; admins: Membership[]; membership: Membership | null }> {
+    const group = await this.requireGroup(groupIdOrSlug)
+    const membership = viewerId ? await this.store.getMembership(group.id, viewerId) : null
+
+    if (group.visibility === 'hidden' && membership?.status !== 'active') {
+      throw new GroupError('Group not found', 404)
+    }
+
+    const [owners, admins] = await Promise.all([
+      this.store.listMemberships(group.id, { status: 'active', role: 'owner' }),
+      this.store.listMemberships(group.id, { status: 'active', role: 'admin' })
+    ])
+    return { group, admins: [...owners.items, ...admins.items], membership }
+  }
+
+  list(query: GroupQuery = {}): Promise<Page<Group>> {
+    return this.store.listGroups(query)
+  }
+
+  /** Groups the user is an active member of, or has asked to join */
+  async listForUser(userId: string): Promise<{ group: Group; membership: Membership }[]> {
+    const memberships = await this.store.listUserMemberships(userId)
+    return memberships.filter(({ membership }) => membership.status !== 'banned')
+  }
+
+  // ============================================
+  // Joining and leaving
+  // ============================================
+
+  async join(groupIdOrSlug: string, userId: string, now: Date = new Date()): Promise<{ outcome: JoinOutcome; membership: Membership; group: Group }> {
+    const group = await this.requireGroup(groupIdOrSlug)
+    const existing = await this.store.getMembership(group.id, userId)
+
+    if (existing?.status === 'banned') {
+      throw new GroupError('You can no longer join this group', 403)
+    }
+    if (existing) {
+      return { outcome: existing.status === 'active' ? 'already_member' : 'already_requested', membership: existing, group }
+    }
+    if (group.joinPolicy === 'invite' || group.visibility === 'hidden') {
+      throw new GroupError('This group is invite only', 403)
+    }
+
+    const membership: Membership = {
+      groupId: group.id,
+      userId,
+      role: 'member',
+      status: group.joinPolicy === 'open' ? 'active' : 'pending',
+      joinedAt: now
+    }
+    await this.store.saveMembership(membership)
+    await this.audit(group.id, membership.status === 'active' ? 'joined' : 'requested', userId, undefined, undefined, now)
+
+    console.log(`👥 [Groups] ${membership.status === 'active' ? 'Joined' : 'Requested'}: ${userId} -> ${group.name}`)
+    return { outcome: membership.status === 'active' ? 'joined' : 'requested', membership, group }
+  }
+
+  async leave(groupIdOrSlug: string, userId: string, now: Date = new Date()): Promise<void> {
+    const group = await this.requireGroup(groupIdOrSlug)
+    const membership = await this.store.getMembership(group.id, userId)
+
+    if (!membership || membership.status === 'banned') {
+      throw new GroupError('Not a member of this group')
+    }
+    if (membership.role === 'owner') {
+      throw new GroupError('Group owner cannot leave. Transfer ownership first.')
+    }
+
+    await this.store.deleteMembership(group.id, userId)
+    // Withdrawing a join request isn't worth a line in the log
+    if (membership.status === 'active') {
+      await this.audit(group.id, 'left', userId, undefined, undefined, now)
+    }
+    console.log(`👋 [Groups] Left: ${userId} <- ${group.name}`)
+  }
+
+  // ============================================
+  // Administration
+  // ============================================
+
+  async members(
+    groupIdOrSlug: string,
+    viewerId: string | undefined,
+    query: { status?: MembershipStatus; limit?: number; offset?: number } = {}
+  ): Promise<Page<Membership>> {
+    const group = await this.requireGroup(groupIdOrSlug)
+    const status = query.status || 'active'
+
+    if (status !== 'active') {
+      // Join requests and bans are for admins
+      await this.requireRole(group.id, viewerId, 'admin')
+    } else {
+      await this.requireReadable(group, viewerId)
+    }
+
+    return this.store.listMemberships(group.id, { status, limit: query.limit, offset: query.offset })
+  }
+
+  async approve(groupIdOrSlug: string, userId: string, actorId: string, now: Date = new Date()): Promise<Membership> {
+    const group = await this.requireGroup(groupIdOrSlug)
+    await this.requireRole(group.id, actorId, 'admin')
+    const membership = await this.requirePending(group.id, userId)
+
+    membership.status = 'active'
+    membership.joinedAt = now
+    await this.store.saveMembership(membership)
+    await this.audit(group.id, 'approved', actorId, userId, undefined, now)
+    return membership
+  }
+
+  async reject(groupIdOrSlug: string, userId: string, actorId: string, now: Date = new Date()): Promise<void> {
+    const group = await this.requireGroup(groupIdOrSlug)
+    await this.requireRole(group.id, actorId, 'admin')
+    await this.requirePending(group.id, userId)
+
+    await this.store.deleteMembership(group.id, userId)
+    await this.audit(group.id, 'rejected', actorId, userId, undefined, now)
+  }
+
+  async remove(groupIdOrSlug: string, userId: string, actorId: string, now: Date = new Date()): Promise<void> {
+    const group = await this.requireGroup(groupIdOrSlug)
+    const target = await this.requireOutranked(group.id, userId, actorId)
+
+    if (target.status !== 'active') {
+      throw new GroupError('Member not found', 404)
+    }
+
+    await this.store.deleteMembership(group.id, userId)
+    await this.audit(group.id, 'removed', actorId, userId, undefined, now)
+  }
+
+  /** Remove someone and stop them rejoining; works on non-members too */
+  async ban(groupIdOrSlug: string, userId: string, actorId: string, reason?: string, now: Date = new Date()): Promise<Membership> {
+    const group = await this.requireGroup(groupIdOrSlug)
+    const existing = await this.store.getMembership(group.id, userId)
+
+    if (existing) {
+      await this.requireOutranked(group.id, userId, actorId)
+    } else {
+      await this.requireRole(group.id, actorId, 'admin')
+    }
+    if (existing?.status === 'banned') return existing
+
+    const membership: Membership = { groupId: group.id, userId, role: 'member', status: 'banned', joinedAt: existing?.joinedAt || now }
+    await this.store.saveMembership(membership)
+    await this.audit(group.id, 'banned', actorId, userId, reason ? { reason } : undefined, now)
+    return membership
+  }
+
+  async unban(groupIdOrSlug: string, userId: string, actorId: string, now: Date = new Date()): Promise<void> {
+    const group = await this.requireGroup(groupIdOrSlug)
+    await this.requireRole(group.id, actorId, 'admin')
+    const membership = await this.store.getMembership(group.id, userId)
+
+    if (membership?.status !== 'banned') {
+      throw new GroupError('User is not banned from this group', 404)
+    }
+
+    // Lifting a ban doesn't make them a member again
+    await this.store.deleteMembership(group.id, userId)
+    await this.audit(group.id, 'unbanned', actorId, userId, undefined, now)
+  }
+
+  /**
+   * Owners make and unmake admins; making someone else owner hands the group
+   * over, and the previous owner stays on as an admin.
+   */
+  async setRole(groupIdOrSlug: string, userId: string, role: GroupRole, actorId: string, now: Date = new Date()): Promise<Membership> {
+    const group = await this.requireGroup(groupIdOrSlug)
+    if (!(role in ROLE_RANK)) {
+      throw new GroupError(`role must be one of: ${Object.keys(ROLE_RANK).join(', ')}`)
+    }
+
+    const actor = await this.requireRole(group.id, actorId, 'owner')
+    const target = await this.store.getMembership(group.id, userId)
+    if (!target || target.status !== 'active') {
+      throw new GroupError('Member not found', 404)
+    }
+    if (userId === actorId) {
+      throw new GroupError('Transfer ownership to another member instead')
+    }
+    if (target.role === role) return target
+
+    const previousRole = target.role
+    target.role = role
+    await this.store.saveMembership(target)
+    if (role === 'owner') {
+      await this.store.saveMembership({ ...actor, role: 'admin' })
+    }
+    await this.audit(group.id, 'role_changed', actorId, userId, { from: previousRole, to: role }, now)
+    return target
+  }
+
+  async auditLog(groupIdOrSlug: string, actorId: string, limit = 100): Promise<GroupAuditEntry[]> {
+    const group = await this.requireGroup(groupIdOrSlug)
+    await this.requireRole(group.id, actorId, 'admin')
+    return this.store.listAudit(group.id, Math.min(limit, 500))
+  }
+
+  // ============================================
+  // Invite links
+  // ============================================
+
+  async createInvite(
+    groupIdOrSlug: string,
+    actorId: string,
+    options: { expiresInHours?: number; maxUses?: number } = {},
+    now: Date = new Date()
+  ): Promise<GroupInvite> {
+    const group = await this.requireGroup(groupIdOrSlug)
+    await this.requireRole(group.id, actorId, 'admin')
+
+    const hours = options.expiresInHours ?? DEFAULT_INVITE_HOURS
+    if (!(hours > 0) || hours > MAX_INVITE_HOURS) {
+      throw new GroupError(`expiresInHours must be between 1 and ${MAX_INVITE_HOURS}`)
+    }
+    if (options.maxUses !== undefined && (!Number.isInteger(options.maxUses) || options.maxUses < 1)) {
+      throw new GroupError('maxUses must be a positive whole number')
+    }
+
+    const invite: GroupInvite = {
+      id: randomUUID(),
+      groupId: group.id,
+      code: randomBytes(12).toString('base64url'),
+      createdBy: actorId,
+      expiresAt: new Date(now.getTime() + hours * 60 * 60 * 1000),
+      maxUses: options.maxUses,
+      uses: 0,
+      createdAt: now
+    }
+    await this.store.createInvite(invite)
+    await this.audit(group.id, 'invite_created', actorId, undefined, { inviteId: invite.id, expiresAt: invite.expiresAt, maxUses: invite.maxUses }, now)
+    return invite
+  }
+
+  async listInvites(groupIdOrSlug: string, actorId: string): Promise<GroupInvite[]> {
+    const group = await this.requireGroup(groupIdOrSlug)
+    await this.requireRole(group.id, actorId, 'admin')
+    return this.store.listInvites(group.id)
+  }
+
+  async revokeInvite(groupIdOrSlug: string, inviteId: string, actorId: string, now: Date = new Date()): Promise<void> {
+    const group = await this.requireGroup(groupIdOrSlug)
+    await this.requireRole(group.id, actorId, 'admin')
+
+    if (!(await this.store.revokeInvite(group.id, inviteId, now))) {
+      throw new GroupError('Invite not found', 404)
+    }
+    await this.audit(group.id, 'invite_revoked', actorId, undefined, { inviteId }, now)
+  }
+
+  /** What an invite link shows before it is accepted */
+  async previewInvite(code: string, now: Date = new Date()): Promise<{ group: Group; expiresAt: Date }> {
+    const invite = await this.requireUsableInvite(code, now)
+    return { group: await this.requireGroup(invite.groupId), expiresAt: invite.expiresAt }
+  }
+
+  /** Join through an invite link, skipping approval */
+  async acceptInvite(code: string, userId: string, now: Date = new Date()): Promise<{ outcome: JoinOutcome; membership: Membership; group: Group }> {
+    const invite = await this.requireUsableInvite(code, now)
+    const group = await this.requireGroup(invite.groupId)
+    const existing = await this.store.getMembership(group.id, userId)
+
+    if (existing?.status === 'banned') {
+      throw new GroupError('You can no longer join this group', 403)
+    }
+    if (existing?.status === 'active') {
+      return { outcome: 'already_member', membership: existing, group }
+    }
+    if (!(await this.store.useInvite(invite.id, now))) {
+      throw new GroupError('This invite has expired', 404)
+    }
+
+    const membership: Membership = { groupId: group.id, userId, role: 'member', status: 'active', joinedAt: now }
+    await this.store.saveMembership(membership)
+    await this.audit(group.id, 'joined', userId, undefined, { inviteId: invite.id }, now)
+
+    console.log(`👥 [Groups] Joined by invite: ${userId} -> ${group.name}`)
+    return { outcome: 'joined', membership, group }
+  }
+
+  // ============================================
+  // Helpers
+  // ============================================
+
+  /** The caller's active membership, when it carries at least `role` */
+  async requireRole(groupId: string, userId: string | undefined, role: GroupRole): Promise<Membership> {
+    const membership = userId ? await this.store.getMembership(groupId, userId) : null
+    if (!membership || membership.status !== 'active') {
+      throw new GroupError('Only members of this group can do that', 403)
+    }
+    if (ROLE_RANK[membership.role] < ROLE_RANK[role]) {
+      throw new GroupError(`Only group ${role}s can do that`, 403)
+    }
+    return membership
+  }
+
+  /** Anyone can see inside a public group; private and hidden ones are for members */
+  async requireReadable(group: Group, viewerId: string | undefined): Promise<void> {
+    if (group.visibility !== 'public') {
+      await this.requireRole(group.id, viewerId, 'member')
+    }
+  }
+
+  /** Everyone with an active membership, for notifying the whole group */
+  async activeMemberIds(groupId: string): Promise<string[]> {
+    const userIds: string[] = []
+    for (let offset = 0; ; offset += MEMBER_BATCH_SIZE) {
+      const { items } = await this.store.listMemberships(groupId, { status: 'active', limit: MEMBER_BATCH_SIZE, offset })
+      userIds.push(...items.map(m => m.userId))
+      if (items.length < MEMBER_BATCH_SIZE) return userIds
+    }
+  }
+
+  async requireGroup(groupIdOrSlug: string): Promise<Group> {
+    const group = await this.store.getGroup(groupIdOrSlug)
+    if (!group) {
+      throw new GroupError('Group not found', 404)
+    }
+    return group
+  }
+
+  // Admins act on members; only the owner acts on admins
+  private async requireOutranked(groupId: string, userId: string, actorId: string): Promise<Membership> {
+    const actor = await this.requireRole(groupId, actorId, 'admin')
+    const target = await this.store.getMembership(groupId, userId)
+    if (!target) {
+      throw new GroupError('Member not found', 404)
+    }
+    if (userId === actorId) {
+      throw new GroupError('You can\'t do that to yourself')
+    }
+    if (ROLE_RANK[target.role] >= ROLE_RANK[actor.role]) {
+      throw new GroupError(target.role === 'owner' ? 'The group owner can\'t be removed' : 'Only the group owner can do that to an admin', 403)
+    }
+    return target
+  }
+
+  private async requirePending(groupId: string, userId: string): Promise<Membership> {
+    const membership = await this.store.getMembership(groupId, userId)
+    if (membership?.status !== 'pending') {
+      throw new GroupError('Join request not found', 404)
+    }
+    return membership
+  }
+
+  private async requireUsableInvite(code: string, now: Date): Promise<GroupInvite> {
+    const invite = code ? await this.store.getInviteByCode(code) : null
+    if (!invite || invite.revokedAt || invite.expiresAt.getTime() <= now.getTime() ||
+      (invite.maxUses !== undefined && invite.uses >= invite.maxUses)) {
+      throw new GroupError('This invite has expired', 404)
+    }
+    return invite
+  }
+
+  private requireVisibility(visibility: string): GroupVisibility {
+    if (!GROUP_VISIBILITIES.includes(visibility as GroupVisibility)) {
+      throw new GroupError(`visibility must be one of: ${GROUP_VISIBILITIES.join(', ')}`)
+    }
+    return visibility as GroupVisibility
+  }
+
+  // Anyone walking into a private or hidden group would defeat the point
+  private joinPolicyFor(visibility: GroupVisibility, joinPolicy: string): GroupJoinPolicy {
+    if (!GROUP_JOIN_POLICIES.includes(joinPolicy as GroupJoinPolicy)) {
+      throw new GroupError(`joinPolicy must be one of: ${GROUP_JOIN_POLICIES.join(', ')}`)
+    }
+    if (visibility === 'hidden') return 'invite'
+    if (visibility === 'private' && joinPolicy === 'open') return 'approval'
+    return joinPolicy as GroupJoinPolicy
+  }
+
+  private audit(groupId: string, action: GroupAuditAction, actorId: string, targetUserId?: string, details?: Record<string, any>, now: Date = new Date()) {
+    return this.store.appendAudit({ groupId, action, actorId, targetUserId, details, createdAt: now })
+  }
+}
+
+let groupService: GroupService | null = null
+
+export function getGroupService(): GroupService {
+  if (!groupService) {
+    groupService = new GroupService()
+  }
+  return groupService
+}
+
+export default GroupService
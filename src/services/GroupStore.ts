@@ -0,0 +1,625 @@
+/**
+ * Group Store
+ * Community groups, their memberships, invite links and the audit log of
+ * membership changes.
+ *
+ * Backends:
+ * - SupabaseGroupStore: community_groups, group_memberships, group_invites and
+ *   group_audit_log tables (production)
+ * - InMemoryGroupStore: process-local stand-in (tests, demo mode)
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js'
+import { getSupabaseClient } from '../lib/supabaseClient.js'
+
+// public: listed, anyone can see members; private: listed, members only see
+// inside; hidden: reachable by invite only
+export type GroupVisibility = 'public' | 'private' | 'hidden'
+
+export const GROUP_VISIBILITIES: GroupVisibility[] = ['public', 'private', 'hidden']
+
+// open: join straight away; approval: an admin approves each request; invite: invite link only
+export type GroupJoinPolicy = 'open' | 'approval' | 'invite'
+
+export const GROUP_JOIN_POLICIES: GroupJoinPolicy[] = ['open', 'approval', 'invite']
+
+export type GroupRole = 'member' | 'admin' | 'owner'
+
+export const GROUP_ROLES: GroupRole[] = ['member', 'admin', 'owner']
+
+// pending: join request awaiting approval; banned: removed and can't rejoin
+export type MembershipStatus = 'pending' | 'active' | 'banned'
+
+export interface Group {
+  id: string
+  name: string
+  slug: string
+  description?: string
+  coverImage?: string
+  visibility: GroupVisibility
+  joinPolicy: GroupJoinPolicy
+  category?: string
+  tags: string[]
+  locationFocus?: string
+  guidelines?: string
+  memberCount: number
+  eventCount: number
+  createdBy: string
+  createdAt: Date
+  updatedAt: Date
+}
+
+export interface Membership {
+  groupId: string
+  userId: string
+  role: GroupRole
+  status: MembershipStatus
+  joinedAt: Date
+}
+
+export interface GroupInvite {
+  id: string
+  groupId: string
+  code: string
+  createdBy: string
+  expiresAt: Date
+  // Unlimited when unset
+  maxUses?: number
+  uses: number
+  revokedAt?: Date
+  createdAt: Date
+}
+
+export type GroupAuditAction =
+  | 'created'
+  | 'updated'
+  | 'joined'
+  | 'requested'
+  | 'approved'
+  | 'rejected'
+  | 'left'
+  | 'removed'
+  | 'banned'
+  | 'unbanned'
+  | 'role_changed'
+  | 'invite_created'
+  | 'invite_revoked'
+
+export interface GroupAuditEntry {
+  groupId: string
+  action: GroupAuditAction
+  actorId: string
+  // The member the change was made to, when not the actor
+  targetUserId?: string
+  details?: Record<string, any>
+  createdAt: Date
+}
+
+export interface GroupQuery {
+  // Defaults to the listed visibilities, public and private
+  visibility?: GroupVisibility[]
+  category?: string
+  location?: string
+  search?: string
+  limit?: number
+  offset?: number
+}
+
+export interface Page<T> {
+  items: T[]
+  total: number
+}
+
+export interface GroupStore {
+  readonly backend: 'supabase' | 'memory'
+
+  /** Insert a new group; false when the slug is taken */
+  createGroup(group: Group): Promise<boolean>
+
+  updateGroup(group: Group): Promise<void>
+
+  /** By id or slug */
+  getGroup(idOrSlug: string): Promise<Group | null>
+
+  /** Most members first */
+  listGroups(query?: GroupQuery): Promise<Page<Group>>
+
+  getMembership(groupId: string, userId: string): Promise<Membership | null>
+
+  /** Insert or update the user's membership of the group */
+  saveMembership(membership: Membership): Promise<void>
+
+  deleteMembership(groupId: string, userId: string): Promise<void>
+
+  /** Owners, then admins, then members; longest-standing first */
+  listMemberships(groupId: string, query: { status: MembershipStatus; role?: GroupRole; limit?: number; offset?: number }): Promise<Page<Membership>>
+
+  /** A user's memberships of any status, with their groups */
+  listUserMemberships(userId: string): Promise<{ membership: Membership; group: Group }[]>
+
+  createInvite(invite: GroupInvite): Promise<void>
+
+  getInviteByCode(code: string): Promise<GroupInvite | null>
+
+  /** Unrevoked invites, newest first */
+  listInvites(groupId: string): Promise<GroupInvite[]>
+
+  /**
+   * Count one use of an invite, unless it is revoked, expired or used up.
+   * Returns false when it can't be used; concurrent uses can't exceed maxUses.
+   */
+  useInvite(inviteId: string, now: Date): Promise<boolean>
+
+  revokeInvite(groupId: string, inviteId: string, now: Date): Promise<boolean>
+
+  appendAudit(entry: GroupAuditEntry): Promise<void>
+
+  /** Newest first */
+  listAudit(groupId: string, limit: number): Promise<GroupAuditEntry[]>
+}
+
+const ROLE_ORDER: Record<GroupRole, number> = { owner: 0, admin: 1, member: 2 }
+
+function inviteUsable(invite: GroupInvite, now: Date): boolean {
+  return !invite.revokedAt &&
+    invite.expiresAt.getTime() > now.getTime() &&
+    (invite.maxUses === undefined || invite.uses < invite.maxUses)
+}
+
+export class InMemoryGroupStore implements GroupStore {
+  readonly backend = 'memory' as const
+  private groups = new Map<string, Group>()
+  private memberships = new Map<string, Membership>()
+  private invites = new Map<string, GroupInvite>()
+  private audit: GroupAuditEntry[] = []
+
+  private key(groupId: string, userId: string): string {
+    return `${groupId}:${userId}`
+  }
+
+  // Member counts follow active memberships, as the database trigger keeps them
+  private adjustCount(groupId: string, before: Membership | undefined, after: Membership | undefined): void {
+    const group = this.groups.get(groupId)
+    if (!group) return
+    group.memberCount += Number(after?.status === 'active') - Number(before?.status === 'active')
+  }
+
+  async createGroup(group: Group): Promise<boolean> {
+    if ([...this.groups.values()].some(g => g.slug === group.slug)) return false
+    this.groups.set(group.id, { ...group, tags: [...group.tags] })
+    return true
+  }
+
+  async updateGroup(group: Group): Promise<void> {
+    const current = this.groups.get(group.id)
+    // The count belongs to the memberships, not to whoever last saved the group
+    this.groups.set(group.id, { ...group, tags: [...group.tags], memberCount: current?.memberCount ?? group.memberCount })
+  }
+
+  async getGroup(idOrSlug: string): Promise<Group | null> {
+    const group = this.groups.get(idOrSlug) || [...this.groups.values()].find(g => g.slug === idOrSlug)
+    return group ? { ...group, tags: [...group.tags] } : null
+  }
+
+  async listGroups(query: GroupQuery = {}): Promise<Page<Group>> {
+    const visibility = query.visibility || ['public', 'private']
+    const search = query.search?.toLowerCase()
+    const matching = [...this.groups.values()]
+      .filter(g => visibility.includes(g.visibility))
+      .filter(g => !query.category || g.category === query.category)
+      .filter(g => !query.location || g.locationFocus?.toLowerCase().includes(query.location.toLowerCase()))
+      .filter(g => !search || g.name.toLowerCase().includes(search) || !!g.description?.toLowerCase().includes(search))
+      .sort((a, b) => b.memberCount - a.memberCount)
+
+    const offset = query.offset ?? 0
+    return {
+      items: matching.slice(offset, offset + (query.limit ?? Infinity)).map(g => ({ ...g, tags: [...g.tags] })),
+      total: matching.length
+    }
+  }
+
+  async getMembership(groupId: string, userId: string): Promise<Membership | null> {
+    const membership = this.memberships.get(this.key(groupId, userId))
+    return membership ? { ...membership } : null
+  }
+
+  async saveMembership(membership: Membership): Promise<void> {
+    const key = this.key(membership.groupId, membership.userId)
+    this.adjustCount(membership.groupId, this.memberships.get(key), membership)
+    this.memberships.set(key, { ...membership })
+  }
+
+  async deleteMembership(groupId: string, userId: string): Promise<void> {
+    const key = this.key(groupId, userId)
+    this.adjustCount(groupId, this.memberships.get(key), undefined)
+    this.memberships.delete(key)
+  }
+
+  async listMemberships(groupId: string, query: { status: MembershipStatus; role?: GroupRole; limit?: number; offset?: number }): Promise<Page<Membership>> {
+    const matching = [...this.memberships.values()]
+      .filter(m => m.groupId === groupId && m.status === query.status && (!query.role || m.role === query.role))
+      .sort((a, b) => ROLE_ORDER[a.role] - ROLE_ORDER[b.role] || a.joinedAt.getTime() - b.joinedAt.getTime())
+
+    const offset = query.offset ?? 0
+    return {
+      items: matching.slice(offset, offset + (query.limit ?? Infinity)).map(m => ({ ...m })),
+      total: matching.length
+    }
+  }
+
+  async listUserMemberships(userId: string): Promise<{ membership: Membership; group: Group }[]> {
+    return [...this.memberships.values()]
+      .filter(m => m.userId === userId && this.groups.has(m.groupId))
+      .map(m => ({ membership: { ...m }, group: { ...this.groups.get(m.groupId)! } }))
+  }
+
+  async createInvite(invite: GroupInvite): Promise<void> {
+    this.invites.set(invite.id, { ...invite })
+  }
+
+  async getInviteByCode(code: string): Promise<GroupInvite | null> {
+    const invite = [...this.invites.values()].find(i => i.code === code)
+    return invite ? { ...invite } : null
+  }
+
+  async listInvites(groupId: string): Promise<GroupInvite[]> {
+    return [...this.invites.values()]
+      .filter(i => i.groupId === groupId && !i.revokedAt)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .map(i => ({ ...i }))
+  }
+
+  async useInvite(inviteId: string, now: Date): Promise<boolean> {
+    const invite = this.invites.get(inviteId)
+    if (!invite || !inviteUsable(invite, now)) return false
+    invite.uses++
+    return true
+  }
+
+  async revokeInvite(groupId: string, inviteId: string, now: Date): Promise<boolean> {
+    const invite = this.invites.get(inviteId)
+    if (!invite || invite.groupId !== groupId || invite.revokedAt) return false
+    invite.revokedAt = now
+    return true
+  }
+
+  async appendAudit(entry: GroupAuditEntry): Promise<void> {
+    this.audit.push({ ...entry })
+  }
+
+  async listAudit(groupId: string, limit: number): Promise<GroupAuditEntry[]> {
+    return this.audit
+      .filter(e => e.groupId === groupId)
+      .reverse()
+      .slice(0, limit)
+      .map(e => ({ ...e }))
+  }
+}
+
+function date(value: string | null): Date | undefined {
+  return value ? new Date(value) : undefined
+}
+
+function groupToRow(group: Group) {
+  return {
+    id: group.id,
+    name: group.name,
+    slug: group.slug,
+    description: group.description ?? null,
+    cover_image: group.coverImage ?? null,
+    visibility: group.visibility,
+    join_policy: group.joinPolicy,
+    category: group.category ?? null,
+    tags: group.tags,
+    location_focus: group.locationFocus ?? null,
+    community_guidelines: group.guidelines ?? null,
+    created_by: group.createdBy,
+    created_at: group.createdAt.toISOString(),
+    updated_at: group.updatedAt.toISOString()
+  }
+}
+
+function groupFromRow(row: any): Group {
+  return {
+    id: row.id,
+    name: row.name,
+    slug: row.slug,
+    description: row.description ?? undefined,
+    coverImage: row.cover_image ?? undefined,
+    visibility: row.visibility,
+    joinPolicy: row.join_policy,
+    category: row.category ?? undefined,
+    tags: row.tags || [],
+    locationFocus: row.location_focus ?? undefined,
+    guidelines: row.community_guidelines ?? undefined,
+    memberCount: row.member_count ?? 0,
+    eventCount: row.event_count ?? 0,
+    createdBy: row.created_by,
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at)
+  }
+}
+
+function membershipFromRow(row: any): Membership {
+  return {
+    groupId: row.group_id,
+    userId: row.user_id,
+    role: row.role,
+    status: row.status,
+    joinedAt: new Date(row.joined_at)
+  }
+}
+
+function inviteFromRow(row: any): GroupInvite {
+  return {
+    id: row.id,
+    groupId: row.group_id,
+    code: row.code,
+    createdBy: row.created_by,
+    expiresAt: new Date(row.expires_at),
+    maxUses: row.max_uses ?? undefined,
+    uses: row.uses,
+    revokedAt: date(row.revoked_at),
+    createdAt: new Date(row.created_at)
+  }
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+// PostgREST `or` values can't carry commas or parentheses unquoted
+function likePattern(value: string): string {
+  return `"%${value.replace(/["\\]/g, '')}%"`
+}
+
+export class SupabaseGroupStore implements GroupStore {
+  readonly backend = 'supabase' as const
+
+  constructor(private supabase: SupabaseClient) {}
+
+  async createGroup(group: Group): Promise<boolean> {
+    const { error } = await this.supabase.from('community_groups').insert(groupToRow(group))
+
+    if (error) {
+      if (error.code === '23505') return false
+      throw new Error(`Failed to create group: ${error.message}`)
+    }
+    return true
+  }
+
+  async updateGroup(group: Group): Promise<void> {
+    const { id, created_at, created_by, ...changes } = groupToRow(group)
+    const { error } = await this.supabase.from('community_groups').update(changes).eq('id', id)
+
+    if (error) {
+      throw new Error(`Failed to update group: ${error.message}`)
+    }
+  }
+
+  async getGroup(idOrSlug: string): Promise<Group | null> {
+    // id is a UUID column; comparing a slug against it would be a type error
+    const column = UUID_PATTERN.test(idOrSlug) ? 'id' : 'slug'
+    const { data, error } = await this.supabase.from('community_groups').select('*').eq(column, idOrSlug).maybeSingle()
+
+    if (error) {
+      throw new Error(`Failed to fetch group: ${error.message}`)
+    }
+
+    return data ? groupFromRow(data) : null
+  }
+
+  async listGroups(query: GroupQuery = {}): Promise<Page<Group>> {
+    const offset = query.offset ?? 0
+    let request = this.supabase
+      .from('community_groups')
+      .select('*', { count: 'exact' })
+      .in('visibility', query.visibility || ['public', 'private'])
+      .order('member_count', { ascending: false })
+
+    if (query.category) request = request.eq('category', query.category)
+    if (query.location) request = request.ilike('location_focus', `%${query.location}%`)
+    if (query.search) request = request.or(`name.ilike.${likePattern(query.search)},description.ilike.${likePattern(query.search)}`)
+    if (query.limit) request = request.range(offset, offset + query.limit - 1)
+
+    const { data, count, error } = await request
+
+    if (error) {
+      throw new Error(`Failed to list groups: ${error.message}`)
+    }
+
+    return { items: (data || []).map(groupFromRow), total: count ?? 0 }
+  }
+
+  async getMembership(groupId: string, userId: string): Promise<Membership | null> {
+    const { data, error } = await this.supabase
+      .from('group_memberships')
+      .select('*')
+      .eq('group_id', groupId)
+      .eq('user_id', userId)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Failed to fetch membership: ${error.message}`)
+    }
+
+    return data ? membershipFromRow(data) : null
+  }
+
+  async saveMembership(membership: Membership): Promise<void> {
+    const { error } = await this.supabase.from('group_memberships').upsert({
+      group_id: membership.groupId,
+      user_id: membership.userId,
+      role: membership.role,
+      status: membership.status,
+      joined_at: membership.joinedAt.toISOString()
+    }, { onConflict: 'group_id,user_id' })
+
+    if (error) {
+      throw new Error(`Failed to save membership: ${error.message}`)
+    }
+  }
+
+  async deleteMembership(groupId: string, userId: string): Promise<void> {
+    const { error } = await this.supabase.from('group_memberships').delete().eq('group_id', groupId).eq('user_id', userId)
+
+    if (error) {
+      throw new Error(`Failed to delete membership: ${error.message}`)
+    }
+  }
+
+  async listMemberships(groupId: string, query: { status: MembershipStatus; role?: GroupRole; limit?: number; offset?: number }): Promise<Page<Membership>> {
+    const offset = query.offset ?? 0
+    let request = this.supabase
+      .from('group_memberships')
+      .select('*', { count: 'exact' })
+      .eq('group_id', groupId)
+      .eq('status', query.status)
+      // role_rank: owner 0, admin 1, member 2 (generated column)
+      .order('role_rank', { ascending: true })
+      .order('joined_at', { ascending: true })
+
+    if (query.role) request = request.eq('role', query.role)
+    if (query.limit) request = request.range(offset, offset + query.limit - 1)
+
+    const { data, count, error } = await request
+
+    if (error) {
+      throw new Error(`Failed to list memberships: ${error.message}`)
+    }
+
+    return { items: (data || []).map(membershipFromRow), total: count ?? 0 }
+  }
+
+  async listUserMemberships(userId: string): Promise<{ membership: Membership; group: Group }[]> {
+    const { data, error } = await this.supabase
+      .from('group_memberships')
+      .select('*, community_groups (*)')
+      .eq('user_id', userId)
+
+    if (error) {
+      throw new Error(`Failed to list user memberships: ${error.message}`)
+    }
+
+    return (data || [])
+      .filter((row: any) => row.community_groups)
+      .map((row: any) => ({ membership: membershipFromRow(row), group: groupFromRow(row.community_groups) }))
+  }
+
+  async createInvite(invite: GroupInvite): Promise<void> {
+    const { error } = await this.supabase.from('group_invites').insert({
+      id: invite.id,
+      group_id: invite.groupId,
+      code: invite.code,
+      created_by: invite.createdBy,
+      expires_at: invite.expiresAt.toISOString(),
+      max_uses: invite.maxUses ?? null,
+      uses: invite.uses,
+      created_at: invite.createdAt.toISOString()
+    })
+
+    if (error) {
+      throw new Error(`Failed to create invite: ${error.message}`)
+    }
+  }
+
+  async getInviteByCode(code: string): Promise<GroupInvite | null> {
+    const { data, error } = await this.supabase.from('group_invites').select('*').eq('code', code).maybeSingle()
+
+    if (error) {
+      throw new Error(`Failed to fetch invite: ${error.message}`)
+    }
+
+    return data ? inviteFromRow(data) : null
+  }
+
+  async listInvites(groupId: string): Promise<GroupInvite[]> {
+    const { data, error } = await this.supabase
+      .from('group_invites')
+      .select('*')
+      .eq('group_id', groupId)
+      .is('revoked_at', null)
+      .order('created_at', { ascending: false })
+
+    if (error) {
+      throw new Error(`Failed to list invites: ${error.message}`)
+    }
+
+    return (data || []).map(inviteFromRow)
+  }
+
+  async useInvite(inviteId: string, now: Date): Promise<boolean> {
+    // use_group_invite increments under a row lock, checking revocation, expiry and max_uses
+    const { data, error } = await this.supabase.rpc('use_group_invite', {
+      p_invite_id: inviteId,
+      p_now: now.toISOString()
+    })
+
+    if (error) {
+      throw new Error(`Failed to use invite: ${error.message}`)
+    }
+
+    return data === true
+  }
+
+  async revokeInvite(groupId: string, inviteId: string, now: Date): Promise<boolean> {
+    const { data, error } = await this.supabase
+      .from('group_invites')
+      .update({ revoked_at: now.toISOString() })
+      .eq('id', inviteId)
+      .eq('group_id', groupId)
+      .is('revoked_at', null)
+      .select('id')
+
+    if (error) {
+      throw new Error(`Failed to revoke invite: ${error.message}`)
+    }
+
+    return (data || []).length > 0
+  }
+
+  async appendAudit(entry: GroupAuditEntry): Promise<void> {
+    const { error } = await this.supabase.from('group_audit_log').insert({
+      group_id: entry.groupId,
+      action: entry.action,
+      actor_id: entry.actorId,
+      target_user_id: entry.targetUserId ?? null,
+      details: entry.details ?? {},
+      created_at: entry.createdAt.toISOString()
+    })
+
+    if (error) {
+      throw new Error(`Failed to write group audit log: ${error.message}`)
+    }
+  }
+
+  async listAudit(groupId: string, limit: number): Promise<GroupAuditEntry[]> {
+    const { data, error } = await this.supabase
+      .from('group_audit_log')
+      .select('*')
+      .eq('group_id', groupId)
+      .order('created_at', { ascending: false })
+      .limit(limit)
+
+    if (error) {
+      throw new Error(`Failed to fetch group audit log: ${error.message}`)
+    }
+
+    return (data || []).map((row: any) => ({
+      groupId: row.group_id,
+      action: row.action,
+      actorId: row.actor_id,
+      targetUserId: row.target_user_id ?? undefined,
+      details: row.details || undefined,
+      createdAt: new Date(row.created_at)
+    }))
+  }
+}
+
+/**
+ * Pick the Supabase-backed store when credentials are configured,
+ * otherwise fall back to the in-memory store.
+ */
+export function createGroupStore(supabase: SupabaseClient | null = getSupabaseClient()): GroupStore {
+  return supabase ? new SupabaseGroupStore(supabase) : new InMemoryGroupStore()
+}
+
+export default createGroupStore
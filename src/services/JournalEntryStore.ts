@@ -0,0 +1,149 @@
+/**
+ * Journal Entry Store
+ * Persists personal journal entries. Title and content are encrypted at rest
+ * (AES-256-GCM, JOURNAL_ENCRYPTION_KEY); sentiment is stored in the clear so
+ * mood trends can be queried without decrypting entries.
+ *
+ * Backends:
+ * - SupabaseJournalEntryStore: journal_entries table (production)
+ * - InMemoryJournalEntryStore: process-local stand-in (tests, demo mode)
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js'
+import { getSupabaseClient } from '../lib/supabaseClient.js'
+import { encryptText, decryptText, parseEncryptionKey } from '../lib/encryption.js'
+import { JournalSentiment } from './JournalSentimentAnalyzer.js'
+
+export interface JournalEntry {
+  id: string
+  userId: string
+  title?: string
+  content: string
+  // Mood the writer picked themselves, if any
+  mood?: string
+  tags: string[]
+  // Day of the 90-day programme the entry answered
+  promptDay?: number
+  sentiment: JournalSentiment
+  wordCount: number
+  createdAt: Date
+}
+
+export interface JournalEntryQuery {
+  since?: Date
+  limit?: number
+}
+
+export interface JournalEntryStore {
+  readonly backend: 'supabase' | 'memory'
+
+  save(entry: JournalEntry): Promise<void>
+
+  /** Entries for a user, newest first */
+  getEntries(userId: string, query?: JournalEntryQuery): Promise<JournalEntry[]>
+}
+
+export class InMemoryJournalEntryStore implements JournalEntryStore {
+  readonly backend = 'memory' as const
+  private entries = new Map<string, JournalEntry[]>()
+
+  async save(entry: JournalEntry): Promise<void> {
+    const history = this.entries.get(entry.userId) || []
+    history.push(entry)
+    history.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+    this.entries.set(entry.userId, history)
+  }
+
+  async getEntries(userId: string, query: JournalEntryQuery = {}): Promise<JournalEntry[]> {
+    const history = (this.entries.get(userId) || []).filter(e => !query.since || e.createdAt >= query.since)
+    return query.limit ? history.slice(0, query.limit) : history
+  }
+}
+
+export class SupabaseJournalEntryStore implements JournalEntryStore {
+  readonly backend = 'supabase' as const
+
+  constructor(private supabase: SupabaseClient, private key: Buffer) {}
+
+  async save(entry: JournalEntry): Promise<void> {
+    const { error } = await this.supabase.from('journal_entries').insert({
+      id: entry.id,
+      user_id: entry.userId,
+      title_encrypted: entry.title ? encryptText(entry.title, this.key) : null,
+      content_encrypted: encryptText(entry.content, this.key),
+      mood: entry.mood || null,
+      tags: entry.tags,
+      prompt_day: entry.promptDay ?? null,
+      sentiment_label: entry.sentiment.label,
+      sentiment_score: entry.sentiment.score,
+      emotions: entry.sentiment.emotions,
+      sentiment_source: entry.sentiment.source,
+      word_count: entry.wordCount,
+      created_at: entry.createdAt.toISOString()
+    })
+
+    if (error) {
+      throw new Error(`Failed to save journal entry: ${error.message}`)
+    }
+  }
+
+  async getEntries(userId: string, query: JournalEntryQuery = {}): Promise<JournalEntry[]> {
+    let request = this.supabase
+      .from('journal_entries')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+
+    if (query.since) {
+      request = request.gte('created_at', query.since.toISOString())
+    }
+    if (query.limit) {
+      request = request.limit(query.limit)
+    }
+
+    const { data, error } = await request
+
+    if (error) {
+      throw new Error(`Failed to fetch journal entries: ${error.message}`)
+    }
+
+    return (data || []).map((row: any) => ({
+      id: row.id,
+      userId: row.user_id,
+      title: row.title_encrypted ? decryptText(row.title_encrypted, this.key) : undefined,
+      content: decryptText(row.content_encrypted, this.key),
+      mood: row.mood || undefined,
+      tags: row.tags || [],
+      promptDay: row.prompt_day ?? undefined,
+      sentiment: {
+        label: row.sentiment_label,
+        score: Number(row.sentiment_score),
+        emotions: row.emotions || [],
+        source: row.sentiment_source
+      },
+      wordCount: row.word_count,
+      createdAt: new Date(row.created_at)
+    }))
+  }
+}
+
+/**
+ * Use Supabase when credentials and an encryption key are configured. Without a
+ * key entries are never written to the database in plaintext; they are kept in
+ * memory instead.
+ */
+export function createJournalEntryStore(
+  supabase: SupabaseClient | null = getSupabaseClient(),
+  encryptionKey: string | undefined = process.env.JOURNAL_ENCRYPTION_KEY
+): JournalEntryStore {
+  const key = parseEncryptionKey(encryptionKey)
+  if (supabase && key) {
+    return new SupabaseJournalEntryStore(supabase, key)
+  }
+  if (supabase) {
+    console.warn('[Journal] JOURNAL_ENCRYPTION_KEY not set - journal entries will not be persisted')
+  }
+  return new InMemoryJournalEntryStore()
+}
+
+export default createJournalEntryStore
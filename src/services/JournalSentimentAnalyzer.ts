@@ -0,0 +1,177 @@
+/**
+ * Journal Sentiment Analyzer
+ * Scores journal entries for mood trends.
+ *
+ * Uses the LLM gateway (journal-sentiment use case) when a provider is
+ * configured, falling back to a weighted lexicon scorer that handles
+ * negation ("not happy"), intensifiers ("really tired") and contrast
+ * ("...but I'm hopeful"), so one stray word no longer decides the label.
+ */
+
+import { LLMGateway, getLLMGateway } from '../lib/llmGateway.js'
+
+export type SentimentLabel = 'positive' | 'neutral' | 'challenging' | 'mixed'
+
+export interface JournalSentiment {
+  label: SentimentLabel
+  // -1 (very challenging) to 1 (very positive)
+  score: number
+  emotions: string[]
+  source: 'llm' | 'lexicon'
+}
+
+// Word → [valence (-3..3), emotion]
+const LEXICON: Record<string, [number, string]> = {
+  grateful: [3, 'gratitude'], thankful: [3, 'gratitude'], blessed: [2, 'gratitude'], appreciate: [2, 'gratitude'],
+  happy: [3, 'joy'], joy: [3, 'joy'], joyful: [3, 'joy'], excited: [2, 'joy'], fun: [2, 'joy'], laughed: [2, 'joy'],
+  love: [3, 'love'], loved: [3, 'love'], cared: [2, 'love'], held: [1, 'love'],
+  amazing: [3, 'joy'], wonderful: [3, 'joy'], great: [2, 'joy'], good: [1, 'joy'], nice: [1, 'joy'],
+  proud: [3, 'pride'], confident: [2, 'pride'], strong: [2, 'pride'], brave: [2, 'pride'],
+  hopeful: [2, 'hope'], hope: [2, 'hope'], optimistic: [2, 'hope'],
+  calm: [2, 'calm'], peaceful: [2, 'calm'], relaxed: [2, 'calm'], rested: [2, 'calm'], safe: [2, 'calm'],
+  connected: [2, 'belonging'], belong: [2, 'belonging'], supported: [2, 'belonging'], seen: [1, 'belonging'],
+  free: [2, 'freedom'], liberated: [3, 'freedom'],
+  sad: [-2, 'sadness'], unhappy: [-2, 'sadness'], down: [-1, 'sadness'], cried: [-2, 'sadness'], crying: [-2, 'sadness'],
+  depressed: [-3, 'sadness'], hopeless: [-3, 'sadness'], empty: [-2, 'sadness'], grief: [-2, 'sadness'], miss: [-1, 'sadness'],
+  anxious: [-2, 'anxiety'], anxiety: [-2, 'anxiety'], worried: [-2, 'anxiety'], worry: [-2, 'anxiety'], scared: [-2, 'anxiety'],
+  afraid: [-2, 'anxiety'], panic: [-3, 'anxiety'], nervous: [-1, 'anxiety'], overwhelmed: [-2, 'anxiety'], stress: [-2, 'anxiety'], stressed: [-2, 'anxiety'],
+  angry: [-2, 'anger'], furious: [-3, 'anger'], frustrated: [-2, 'anger'], annoyed: [-1, 'anger'], hate: [-3, 'anger'], rage: [-3, 'anger'],
+  lonely: [-2, 'loneliness'], alone: [-1, 'loneliness'], isolated: [-2, 'loneliness'], rejected: [-2, 'loneliness'], invisible: [-2, 'loneliness'],
+  tired: [-1, 'exhaustion'], exhausted: [-2, 'exhaustion'], drained: [-2, 'exhaustion'], burnt: [-2, 'exhaustion'], burnout: [-2, 'exhaustion'],
+  hurt: [-2, 'hurt'], ashamed: [-2, 'shame'], shame: [-2, 'shame'], guilty: [-2, 'shame'], worthless: [-3, 'shame'],
+  difficult: [-1, 'struggle'], hard: [-1, 'struggle'], struggle: [-2, 'struggle'], struggling: [-2, 'struggle'], awful: [-3, 'struggle'], terrible: [-3, 'struggle'],
+  unsafe: [-2, 'anxiety'], discriminated: [-2, 'hurt'], harassed: [-3, 'hurt']
+}
+
+const NEGATORS = new Set(['not', 'no', 'never', 'nothing', 'hardly', "don't", "didn't", "isn't", "wasn't", "can't", "couldn't", "won't", 'dont', 'didnt', 'isnt', 'wasnt', 'cant'])
+const INTENSIFIERS: Record<string, number> = { very: 1.5, really: 1.5, so: 1.4, extremely: 1.8, incredibly: 1.8, totally: 1.5, quite: 1.2, bit: 0.6, slightly: 0.6, little: 0.7 }
+const CONTRASTS = new Set(['but', 'however', 'though', 'yet'])
+
+// Negation reaches this many tokens ahead
+const NEGATION_WINDOW = 3
+// Normalisation constant: score = sum / sqrt(sum² + α)
+const ALPHA = 15
+
+function tokenize(content: string): string[] {
+  return content.toLowerCase().replace(/’/g, "'").match(/[a-z']+|[.!?;]/g) || []
+}
+
+/**
+ * Lexicon-based sentiment for when no LLM is available.
+ */
+export function scoreSentimentLexicon(content: string): JournalSentiment {
+  const tokens = tokenize(content || '')
+  let positive = 0
+  let negative = 0
+  const emotionWeights = new Map<string, number>()
+
+  let negateFor = 0
+  let intensity = 1
+  let clauseWeight = 1
+
+  for (const token of tokens) {
+    if (/^[.!?;]$/.test(token)) {
+      negateFor = 0
+      intensity = 1
+      clauseWeight = 1
+      continue
+    }
+    if (CONTRASTS.has(token)) {
+      // What follows "but" usually carries the writer's real feeling
+      positive *= 0.5
+      negative *= 0.5
+      clauseWeight = 1.5
+      negateFor = 0
+      continue
+    }
+    if (NEGATORS.has(token)) {
+      negateFor = NEGATION_WINDOW
+      continue
+    }
+    if (INTENSIFIERS[token]) {
+      intensity = INTENSIFIERS[token]
+      continue
+    }
+
+    const entry = LEXICON[token]
+    if (entry) {
+      let valence = entry[0] * intensity * clauseWeight
+      if (negateFor > 0) {
+        // "not happy" is weaker than "sad"; "not sad" is only mildly positive
+        valence = -valence * 0.5
+      } else {
+        emotionWeights.set(entry[1], (emotionWeights.get(entry[1]) || 0) + Math.abs(valence))
+      }
+
+      if (valence > 0) positive += valence
+      else negative += -valence
+      intensity = 1
+    }
+
+    if (negateFor > 0) negateFor--
+  }
+
+  const sum = positive - negative
+  const score = Math.round((sum / Math.sqrt(sum * sum + ALPHA)) * 100) / 100
+  const emotions = [...emotionWeights.entries()].sort((a, b) => b[1] - a[1]).slice(0, 3).map(([emotion]) => emotion)
+
+  let label: SentimentLabel = 'neutral'
+  const weaker = Math.min(positive, negative)
+  const stronger = Math.max(positive, negative)
+  if (weaker >= 2 && weaker / stronger >= 0.5) {
+    label = 'mixed'
+  } else if (score >= 0.2) {
+    label = 'positive'
+  } else if (score <= -0.2) {
+    label = 'challenging'
+  }
+
+  return { label, score, emotions, source: 'lexicon' }
+}
+
+const SENTIMENT_SYSTEM_PROMPT = `You read private journal entries written by Black queer people in the UK and rate their overall mood.
+Reply with JSON only: {"label": "positive" | "neutral" | "challenging" | "mixed", "score": number from -1 to 1, "emotions": up to 3 single-word emotions}.
+"challenging" means the writer is going through something hard; "mixed" means both hard and hopeful feelings are strongly present. Do not add commentary.`
+
+const LABELS: SentimentLabel[] = ['positive', 'neutral', 'challenging', 'mixed']
+
+export class JournalSentimentAnalyzer {
+  constructor(private gateway: LLMGateway = getLLMGateway()) {}
+
+  async analyze(content: string): Promise<JournalSentiment> {
+    if (!content || !content.trim()) {
+      return { label: 'neutral', score: 0, emotions: [], source: 'lexicon' }
+    }
+    if (!this.gateway.isAvailable()) {
+      return scoreSentimentLexicon(content)
+    }
+
+    try {
+      const completion = await this.gateway.complete({
+        useCase: 'journal-sentiment',
+        messages: [
+          { role: 'system', content: SENTIMENT_SYSTEM_PROMPT },
+          { role: 'user', content: content.slice(0, 4000) }
+        ]
+      })
+
+      const parsed = JSON.parse(completion.content)
+      const score = Number(parsed.score)
+      if (!LABELS.includes(parsed.label) || !Number.isFinite(score)) {
+        throw new Error('Unexpected sentiment response shape')
+      }
+
+      return {
+        label: parsed.label,
+        score: Math.max(-1, Math.min(1, Math.round(score * 100) / 100)),
+        emotions: Array.isArray(parsed.emotions) ? parsed.emotions.map(String).slice(0, 3) : [],
+        source: 'llm'
+      }
+    } catch (error) {
+      console.warn('[Journal] LLM sentiment failed, using lexicon:', error instanceof Error ? error.message : error)
+      return scoreSentimentLexicon(content)
+    }
+  }
+}
+
+export default JournalSentimentAnalyzer
@@ -1,5 +1,7 @@
 import { createClient } from '@supabase/supabase-js'
 import crypto from 'crypto'
+import { getEmailService } from './EmailService.js'
+import { JOURNAL_PROMPTS, JOURNAL_PROGRAMME_DAYS, JournalPrompt, getJournalPromptForDay } from '../data/journalPrompts.js'
 
 // Initialize Supabase client
 const supabase = createClient(
@@ -97,6 +99,17 @@ export class JournalService {
 
       console.log(`✅ Member ${userId} claimed digital journal benefit`)
 
+      // The link is in the response too, so a failed email doesn't fail the claim
+      if (user.user.email) {
+        await getEmailService().sendJournalDownload({
+          to: user.user.email,
+          name: user.user.user_metadata?.full_name,
+          orderNumber,
+          downloadUrl: `/api/shop/download/${downloadToken}`,
+          expiresAt
+        })
+      }
+
       return {
         download_url: `/api/shop/download/${downloadToken}`,
         expires_at: orderItem.download_expires_at,
@@ -279,60 +292,19 @@ export class JournalService {
   /**
    * Get journal content prompts for a specific day
    */
-  async getJournalPrompt(day: number): Promise<{
-    day: number
-    week: number
-    theme: string
-    prompt: string
-    category: string
-  }> {
-    // Mock journal prompts (would be stored in database or JSON file)
-    const prompts = this.get90DayPrompts()
-
-    if (day < 1 || day > 90) {
-      throw new Error('Day must be between 1 and 90')
+  async getJournalPrompt(day: number): Promise<JournalPrompt> {
+    if (day < 1 || day > JOURNAL_PROGRAMME_DAYS) {
+      throw new Error(`Day must be between 1 and ${JOURNAL_PROGRAMME_DAYS}`)
     }
 
-    return prompts[day - 1]
+    return getJournalPromptForDay(day)!
   }
 
   /**
    * Get all 90-day journal prompts
-   * TODO: Move this to database or external JSON file
    */
-  private get90DayPrompts() {
-    // Simplified example - would have 90 unique prompts
-    const themes = [
-      { week: 1, theme: 'Self-Discovery', category: 'Identity' },
-      { week: 2, theme: 'Community Connection', category: 'Relationships' },
-      { week: 3, theme: 'Ancestors & Legacy', category: 'Heritage' },
-      { week: 4, theme: 'Joy & Celebration', category: 'Wellness' },
-      { week: 5, theme: 'Boundaries & Protection', category: 'Self-Care' },
-      { week: 6, theme: 'Activism & Action', category: 'Liberation' },
-      { week: 7, theme: 'Rest & Restoration', category: 'Wellness' },
-      { week: 8, theme: 'Relationships & Love', category: 'Connection' },
-      { week: 9, theme: 'Creativity & Expression', category: 'Identity' },
-      { week: 10, theme: 'Healing & Growth', category: 'Transformation' },
-      { week: 11, theme: 'Future Vision', category: 'Purpose' },
-      { week: 12, theme: 'Liberation Practice', category: 'Freedom' }
-    ]
-
-    const prompts = []
-
-    for (let day = 1; day <= 90; day++) {
-      const weekIndex = Math.floor((day - 1) / 7) % 12
-      const theme = themes[weekIndex]
-
-      prompts.push({
-        day,
-        week: theme.week,
-        theme: theme.theme,
-        category: theme.category,
-        prompt: `Day ${day}: ${theme.theme} - What does this theme mean to you today?`
-      })
-    }
-
-    return prompts
+  get90DayPrompts(): JournalPrompt[] {
+    return JOURNAL_PROMPTS
   }
 }
 
@@ -0,0 +1,297 @@
+/**
+ * Journaling Service
+ * Personal in-app journaling: persisted entries with sentiment, prompts
+ * personalised from the 90-day programme, and mood trends over time.
+ *
+ * A user's programme day advances with each distinct day they journal, so
+ * missed days never skip a prompt. The day's prompt is then adapted to their
+ * most recent journey stage and the sentiment of their recent entries —
+ * rewritten by the LLM gateway when available, otherwise by rule.
+ */
+
+import { randomUUID } from 'crypto'
+import { LLMGateway, getLLMGateway } from '../lib/llmGateway.js'
+import { JournalEntry, JournalEntryStore, createJournalEntryStore } from './JournalEntryStore.js'
+import { JournalSentimentAnalyzer, SentimentLabel } from './JournalSentimentAnalyzer.js'
+import { JourneyHistoryStore, createJourneyHistoryStore } from './JourneyHistoryStore.js'
+import { JOURNAL_PROGRAMME_DAYS, getJournalPromptForDay } from '../data/journalPrompts.js'
+import { JourneyStage } from '../types/journey.js'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const RECENT_SENTIMENT_DAYS = 7
+// Average sentiment beyond these bounds changes the prompt's tone
+const LOW_MOOD_THRESHOLD = -0.3
+const HIGH_MOOD_THRESHOLD = 0.3
+// Difference between halves of a trend window that counts as a direction
+const TREND_DELTA = 0.15
+
+export interface JournalEntryInput {
+  title?: string
+  content: string
+  mood?: string
+  tags?: string[]
+  promptDay?: number
+}
+
+export type PromptTone = 'gentle' | 'steady' | 'celebratory'
+
+export interface PersonalizedPrompt {
+  id: string
+  day: number
+  week: number
+  theme: string
+  category: string
+  prompt: string
+  basePrompt: string
+  tone: PromptTone
+  difficulty: 'gentle' | 'moderate' | 'deep'
+  intentedOutcome: string
+  journeyStage: JourneyStage | null
+  recentSentiment: { averageScore: number; entries: number } | null
+  source: 'llm' | 'programme'
+}
+
+export interface SentimentTrendPoint {
+  period: string
+  averageScore: number
+  entries: number
+  dominantLabel: SentimentLabel
+  emotions: string[]
+}
+
+export interface SentimentTrend {
+  days: number
+  bucket: 'day' | 'week'
+  points: SentimentTrendPoint[]
+  averageScore: number | null
+  direction: 'improving' | 'declining' | 'steady' | 'insufficient-data'
+  labelCounts: Record<SentimentLabel, number>
+}
+
+export class JournalValidationError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'JournalValidationError'
+  }
+}
+
+function dateKey(date: Date): string {
+  return date.toISOString().slice(0, 10)
+}
+
+function weekKey(date: Date): string {
+  // Monday of the entry's week (UTC)
+  const monday = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()))
+  monday.setUTCDate(monday.getUTCDate() - ((monday.getUTCDay() + 6) % 7))
+  return dateKey(monday)
+}
+
+function average(values: number[]): number {
+  return Math.round((values.reduce((sum, v) => sum + v, 0) / values.length) * 100) / 100
+}
+
+function mostCommon<T>(values: T[]): T[] {
+  const counts = new Map<T, number>()
+  for (const value of values) counts.set(value, (counts.get(value) || 0) + 1)
+  return [...counts.entries()].sort((a, b) => b[1] - a[1]).map(([value]) => value)
+}
+
+const PROMPT_SYSTEM_PROMPT = `You adapt daily journal prompts for BLKOUT's 90-day liberation journal, written for Black queer people in the UK.
+Rewrite the given prompt in one or two warm, plain sentences that keep its theme. Match the requested tone:
+- gentle: the person is going through a hard time; keep it small, safe and grounding, never probing trauma
+- steady: an everyday reflective prompt
+- celebratory: invite them to notice and build on what is going well
+Reply with the prompt only.`
+
+export class JournalingService {
+  private store: JournalEntryStore
+  private sentimentAnalyzer: JournalSentimentAnalyzer
+  private journeyHistoryStore: JourneyHistoryStore
+  private gateway: LLMGateway
+
+  constructor(
+    store?: JournalEntryStore,
+    journeyHistoryStore?: JourneyHistoryStore,
+    gateway?: LLMGateway,
+    sentimentAnalyzer?: JournalSentimentAnalyzer
+  ) {
+    this.store = store || createJournalEntryStore()
+    this.journeyHistoryStore = journeyHistoryStore || createJourneyHistoryStore()
+    this.gateway = gateway || getLLMGateway()
+    this.sentimentAnalyzer = sentimentAnalyzer || new JournalSentimentAnalyzer(this.gateway)
+  }
+
+  getStorageBackend(): 'supabase' | 'memory' {
+    return this.store.backend
+  }
+
+  async createEntry(userId: string, input: JournalEntryInput): Promise<JournalEntry> {
+    if (!input || typeof input.content !== 'string' || !input.content.trim()) {
+      throw new JournalValidationError('Entry content is required')
+    }
+
+    const content = input.content.trim()
+    const entry: JournalEntry = {
+      id: randomUUID(),
+      userId,
+      title: input.title?.trim() || undefined,
+      content,
+      mood: input.mood,
+      tags: Array.isArray(input.tags) ? input.tags.map(String) : [],
+      promptDay: Number.isInteger(input.promptDay) && input.promptDay >= 1 && input.promptDay <= JOURNAL_PROGRAMME_DAYS
+        ? input.promptDay
+        : undefined,
+      sentiment: await this.sentimentAnalyzer.analyze(content),
+      wordCount: content.split(/\s+/).filter(Boolean).length,
+      createdAt: new Date()
+    }
+
+    await this.store.save(entry)
+    return entry
+  }
+
+  async getEntries(userId: string, limit = 50): Promise<JournalEntry[]> {
+    return this.store.getEntries(userId, { limit })
+  }
+
+  /**
+   * Position in the 90-day programme: one step per distinct day journaled
+   * before today, wrapping after day 90.
+   */
+  async getProgrammeDay(userId: string, now: Date = new Date()): Promise<number> {
+    const today = dateKey(now)
+    const entries = await this.store.getEntries(userId)
+    const pastDays = new Set(entries.map(e => dateKey(e.createdAt)).filter(day => day !== today))
+    return (pastDays.size % JOURNAL_PROGRAMME_DAYS) + 1
+  }
+
+  async getPersonalizedPrompt(userId: string, now: Date = new Date()): Promise<PersonalizedPrompt> {
+    const day = await this.getProgrammeDay(userId, now)
+    const base = getJournalPromptForDay(day)!
+
+    const [history, recentEntries] = await Promise.all([
+      this.journeyHistoryStore.getHistory(userId, { limit: 1 }).catch(() => []),
+      this.store.getEntries(userId, { since: new Date(now.getTime() - RECENT_SENTIMENT_DAYS * DAY_MS) })
+    ])
+
+    const journeyStage = history.length > 0 ? history[history.length - 1].stage : null
+    const recentSentiment = recentEntries.length > 0
+      ? { averageScore: average(recentEntries.map(e => e.sentiment.score)), entries: recentEntries.length }
+      : null
+
+    const tone = this.chooseTone(journeyStage, recentSentiment?.averageScore ?? null)
+    const programmePrompt = this.composePrompt(base.prompt, tone, journeyStage)
+
+    let prompt = programmePrompt
+    let source: PersonalizedPrompt['source'] = 'programme'
+    if (this.gateway.isAvailable()) {
+      const completion = await this.gateway.complete({
+        useCase: 'journal-prompt',
+        messages: [
+          { role: 'system', content: PROMPT_SYSTEM_PROMPT },
+          {
+            role: 'user',
+            content: `Theme: ${base.theme}\nPrompt: ${base.prompt}\nTone: ${tone}\nJourney stage: ${journeyStage || 'unknown'}`
+          }
+        ],
+        fallback: () => programmePrompt
+      })
+      prompt = completion.content.trim() || programmePrompt
+      source = completion.provider === 'rule-based' ? 'programme' : 'llm'
+    }
+
+    return {
+      id: `journal-day-${day}`,
+      day,
+      week: base.week,
+      theme: base.theme,
+      category: `${base.theme} & ${base.category}`,
+      prompt,
+      basePrompt: base.prompt,
+      tone,
+      difficulty: tone === 'gentle' ? 'gentle' : base.week > 8 ? 'deep' : 'moderate',
+      intentedOutcome: this.describeOutcome(tone, base.theme),
+      journeyStage,
+      recentSentiment,
+      source
+    }
+  }
+
+  async getSentimentTrend(userId: string, days = 30, bucket: 'day' | 'week' = 'day', now: Date = new Date()): Promise<SentimentTrend> {
+    const entries = (await this.store.getEntries(userId, { since: new Date(now.getTime() - days * DAY_MS) }))
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+
+    const buckets = new Map<string, JournalEntry[]>()
+    for (const entry of entries) {
+      const key = bucket === 'week' ? weekKey(entry.createdAt) : dateKey(entry.createdAt)
+      buckets.set(key, [...(buckets.get(key) || []), entry])
+    }
+
+    const points: SentimentTrendPoint[] = [...buckets.entries()].map(([period, group]) => ({
+      period,
+      averageScore: average(group.map(e => e.sentiment.score)),
+      entries: group.length,
+      dominantLabel: mostCommon(group.map(e => e.sentiment.label))[0],
+      emotions: mostCommon(group.flatMap(e => e.sentiment.emotions)).slice(0, 3)
+    }))
+
+    const labelCounts: Record<SentimentLabel, number> = { positive: 0, neutral: 0, challenging: 0, mixed: 0 }
+    for (const entry of entries) labelCounts[entry.sentiment.label]++
+
+    return {
+      days,
+      bucket,
+      points,
+      averageScore: entries.length > 0 ? average(entries.map(e => e.sentiment.score)) : null,
+      direction: this.trendDirection(points),
+      labelCounts
+    }
+  }
+
+  private chooseTone(stage: JourneyStage | null, averageScore: number | null): PromptTone {
+    if (stage === 'crisis' || stage === 'stabilization') return 'gentle'
+    if (averageScore !== null && averageScore <= LOW_MOOD_THRESHOLD) return 'gentle'
+    if (averageScore !== null && averageScore >= HIGH_MOOD_THRESHOLD) return 'celebratory'
+    return 'steady'
+  }
+
+  private composePrompt(basePrompt: string, tone: PromptTone, stage: JourneyStage | null): string {
+    if (tone === 'gentle') {
+      return `Go gently today. ${basePrompt} If that feels like too much, write about one small thing that helped you get through this week.`
+    }
+
+    const parts = [basePrompt]
+    if (tone === 'celebratory') {
+      parts.push('Notice what is going well right now and what is making it possible.')
+    }
+    if (stage === 'community_healing' || stage === 'advocacy') {
+      parts.push('How does this connect to the people and community around you?')
+    }
+    return parts.join(' ')
+  }
+
+  private describeOutcome(tone: PromptTone, theme: string): string {
+    switch (tone) {
+      case 'gentle':
+        return 'Offer a small, safe moment of reflection and grounding'
+      case 'celebratory':
+        return `Build on current momentum while exploring ${theme.toLowerCase()}`
+      default:
+        return `Deepen reflection on ${theme.toLowerCase()}`
+    }
+  }
+
+  private trendDirection(points: SentimentTrendPoint[]): SentimentTrend['direction'] {
+    if (points.length < 2) return 'insufficient-data'
+
+    const middle = Math.floor(points.length / 2)
+    const earlier = average(points.slice(0, middle).map(p => p.averageScore))
+    const later = average(points.slice(points.length - middle).map(p => p.averageScore))
+
+    if (later - earlier >= TREND_DELTA) return 'improving'
+    if (earlier - later >= TREND_DELTA) return 'declining'
+    return 'steady'
+  }
+}
+
+export default JournalingService
@@ -4,9 +4,24 @@ import { ContextualResponseGenerator } from './ContextualResponseGenerator.js'
 import { TrustScoreService } from './TrustScoreService.js'
 import ConversationService from '../conversationService.js'
 import { DataContextService } from './DataContextService.js'
-import { JourneyContext, JourneyResponse, JourneyStage } from '../types/journey.js'
+import { DEFAULT_JOURNEY_RETENTION_DAYS, JourneyHistoryStore, createJourneyHistoryStore, toStageSequence } from './JourneyHistoryStore.js'
+import { KnowledgeRetrievalService, getKnowledgeRetrievalService } from './KnowledgeRetrievalService.js'
+import { JourneyContext, JourneyHistoryEntry, JourneyResponse, JourneyStage, KnowledgeEntry, UKLocation, UKResource } from '../types/journey.js'
 import { randomUUID } from 'crypto'
 
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Most recent entries read per message; stage inference only weighs the last
+// month of them, while progression looks back across the whole retention window
+const JOURNEY_HISTORY_LIMIT = 500
+
+export class JourneyHistoryError extends Error {
+  constructor(message: string, public readonly status: 400 = 400) {
+    super(message)
+    this.name = 'JourneyHistoryError'
+  }
+}
+
 /**
  * Journey-Aware Conversation Service
  * Orchestrates the complete journey-aware experience integrating all components
@@ -18,50 +33,70 @@ export class JourneyAwareConversationService {
   private trustScoreService: TrustScoreService
   private conversationService: ConversationService
   private dataContextService: DataContextService | null
-  private userJourneyHistory: Map<string, JourneyStage[]>
-
-  constructor(conversationService: ConversationService, dataContextService?: DataContextService) {
+  private journeyHistoryStore: JourneyHistoryStore
+  private knowledgeRetrieval: KnowledgeRetrievalService
+
+  constructor(
+    conversationService: ConversationService,
+    dataContextService?: DataContextService,
+    journeyHistoryStore?: JourneyHistoryStore,
+    knowledgeRetrieval?: KnowledgeRetrievalService
+  ) {
     this.journeyDetector = new JourneyStageDetector()
     this.knowledgeBase = new UKKnowledgeBase()
     this.responseGenerator = new ContextualResponseGenerator()
     this.trustScoreService = new TrustScoreService()
     this.conversationService = conversationService
     this.dataContextService = dataContextService || null
-    this.userJourneyHistory = new Map()
+    this.journeyHistoryStore = journeyHistoryStore || createJourneyHistoryStore()
+    this.knowledgeRetrieval = knowledgeRetrieval || getKnowledgeRetrievalService()
   }
 
   /**
-   * Generate journey-aware response with full context analysis
+   * Generate journey-aware response with full context analysis.
+   * When `onToken` is given the response text is streamed through it as it is
+   * generated; the resolved JourneyResponse still carries the full text.
    */
   async generateJourneyAwareResponse(
     message: string,
     userContext: any = {},
-    sessionId: string = 'default'
+    sessionId: string = 'default',
+    onToken?: (token: string) => void
   ): Promise<JourneyResponse> {
+    let streamedText = false
+    const emit = onToken
+      ? (token: string) => {
+          streamedText = true
+          onToken(token)
+        }
+      : undefined
+
     try {
       // Get user's journey history
       const userId = userContext.userId || 'anonymous'
-      const previousStages = this.userJourneyHistory.get(userId) || []
+      const history = await this.loadJourneyHistory(userId)
+      const previousStages = toStageSequence(history)
 
       // Detect current journey stage and context
       const journeyContext = this.journeyDetector.detectJourneyStage(
         message,
         previousStages,
-        userContext
+        userContext,
+        history
       )
 
       // Update user journey history
-      this.updateJourneyHistory(userId, journeyContext.stage)
+      await this.updateJourneyHistory(userId, sessionId, journeyContext)
 
       // Extract topic for better resource matching
       const topic = this.extractTopicFromMessage(message)
 
-      // Get relevant UK resources for this topic/stage
+      // Get relevant UK resources and knowledge for this message/stage
       const location = userContext.location || 'unknown'
-      const relevantResources = this.knowledgeBase.getResourcesByStageAndLocation(
-        journeyContext.stage,
+      const { resources: relevantResources, knowledge: relevantKnowledge } = await this.retrieveRelevant(
+        message,
+        journeyContext,
         location,
-        journeyContext.emotionalState === 'overwhelmed' ? 'emergency' : undefined,
         topic
       )
 
@@ -90,21 +125,36 @@ export class JourneyAwareConversationService {
           lastInteraction: new Date()
         }
 
-        // Use GROQ AI with journey context + live data
-        responseText = await this.conversationService.generateAIResponse(
-          message,
-          conversationContext,
-          relevantResources,
-          liveDataPrompt
-        )
+        // Use the LLM gateway with journey context + live data
+        if (emit) {
+          responseText = ''
+          for await (const token of this.conversationService.streamAIResponse(
+            message,
+            conversationContext,
+            relevantResources,
+            liveDataPrompt
+          )) {
+            responseText += token
+            emit(token)
+          }
+        } else {
+          responseText = await this.conversationService.generateAIResponse(
+            message,
+            conversationContext,
+            relevantResources,
+            liveDataPrompt
+          )
+        }
       } else {
         // Fallback to pattern-matching
         const baseResponse = this.responseGenerator.generateResponse(
           message,
           journeyContext,
-          topic
+          topic,
+          relevantKnowledge
         )
         responseText = baseResponse.response
+        emit?.(responseText)
       }
 
       // Build journey response with trust scores
@@ -112,7 +162,7 @@ export class JourneyAwareConversationService {
         response: responseText,
         journeyContext,
         resources: relevantResources.slice(0, 5),
-        knowledge: [],
+        knowledge: relevantKnowledge.slice(0, 3),
         nextStageGuidance: '',
         followUpRequired: false,
         resourcesProvided: relevantResources.map(r => r.title)
@@ -132,27 +182,32 @@ export class JourneyAwareConversationService {
       return response
 
     } catch (error) {
+      // Part of the reply has already gone out; a fallback can't replace it
+      if (streamedText) throw error
+
       console.error('Error generating journey-aware response:', error)
 
       // Be honest about system limitations rather than providing generic responses
       console.log('🚨 System fallback triggered due to error - providing honest limitation response')
-      return this.generateFallbackResponse(message, userContext)
+      const fallback = this.generateFallbackResponse(message, userContext)
+      onToken?.(fallback.response)
+      return fallback
     }
   }
 
   /**
    * Get user's journey progression over time
    */
-  getUserJourneyProgression(userId: string): JourneyStage[] {
-    return this.userJourneyHistory.get(userId) || []
+  async getUserJourneyProgression(userId: string): Promise<JourneyStage[]> {
+    return toStageSequence(await this.loadJourneyHistory(userId))
   }
 
   /**
    * Check if user might be ready for next journey stage
    */
-  assessNextStageReadiness(userId: string, currentContext: JourneyContext): boolean {
-    const history = this.getUserJourneyProgression(userId)
-    
+  async assessNextStageReadiness(userId: string, currentContext: JourneyContext): Promise<boolean> {
+    const history = await this.getUserJourneyProgression(userId)
+
     // Stability indicators
     if (currentContext.stage === 'crisis' && history.filter(s => s === 'crisis').length < 3) {
       return false // Need more crisis support first
@@ -200,25 +255,102 @@ export class JourneyAwareConversationService {
   }
 
   /**
-   * Update user journey history
+   * Hybrid semantic/keyword retrieval filtered by stage and location, falling
+   * back to the stage/location/category lookup when nothing matches
    */
-  private updateJourneyHistory(userId: string, currentStage: JourneyStage): void {
-    if (!this.userJourneyHistory.has(userId)) {
-      this.userJourneyHistory.set(userId, [])
+  private async retrieveRelevant(
+    message: string,
+    journeyContext: JourneyContext,
+    location: UKLocation,
+    topic: string
+  ): Promise<{ resources: UKResource[]; knowledge: KnowledgeEntry[] }> {
+    const emergency = journeyContext.emotionalState === 'overwhelmed'
+    const options = { stage: journeyContext.stage, location, limit: 8 }
+
+    const [resources, knowledge] = await Promise.all([
+      this.knowledgeRetrieval.searchResources(message, { ...options, emergencyOnly: emergency }),
+      this.knowledgeRetrieval.searchKnowledge(message, { ...options, limit: 3 })
+    ])
+
+    return {
+      resources: resources.length > 0
+        ? resources
+        : this.knowledgeBase.getResourcesByStageAndLocation(journeyContext.stage, location, emergency ? 'emergency' : undefined, topic),
+      knowledge
     }
+  }
 
-    const history = this.userJourneyHistory.get(userId)!
-    
-    // Only add if it's a different stage or been a while since last entry
-    const lastStage = history[history.length - 1]
-    if (lastStage !== currentStage) {
-      history.push(currentStage)
-      
-      // Keep last 20 journey stages to prevent memory bloat
-      if (history.length > 20) {
-        history.shift()
-      }
+  /**
+   * Load the user's stage history, degrading to an empty history if the store is unavailable
+   */
+  private async loadJourneyHistory(userId: string): Promise<JourneyHistoryEntry[]> {
+    if (userId === 'anonymous') return []
+
+    try {
+      return await this.journeyHistoryStore.getHistory(userId, { limit: JOURNEY_HISTORY_LIMIT })
+    } catch (error) {
+      console.warn('[JourneyAware] Journey history unavailable, continuing without:', error)
+      return []
+    }
+  }
+
+  /**
+   * Update user journey history.
+   * Anonymous users share one id, so their detections are not recorded.
+   */
+  private async updateJourneyHistory(userId: string, sessionId: string, journeyContext: JourneyContext): Promise<void> {
+    if (userId === 'anonymous') return
+
+    try {
+      await this.journeyHistoryStore.record(userId, journeyContext, sessionId)
+    } catch (error) {
+      console.error('Error recording journey history:', error)
+    }
+  }
+
+  /**
+   * A user's own stored journey history and how long it is kept
+   */
+  async getJourneyHistory(userId: string) {
+    const [entries, retentionDays] = await Promise.all([
+      this.journeyHistoryStore.getHistory(userId),
+      this.journeyHistoryStore.getRetention(userId)
+    ])
+
+    return {
+      retentionDays,
+      maxRetentionDays: DEFAULT_JOURNEY_RETENTION_DAYS,
+      stages: toStageSequence(entries),
+      entries
+    }
+  }
+
+  /**
+   * Shorten (or restore) how long a user's history is kept. Entries already
+   * outside the new window are deleted straight away, not at the next purge.
+   */
+  async setJourneyHistoryRetention(userId: string, days: number, now: Date = new Date()) {
+    if (!Number.isInteger(days) || days < 1 || days > DEFAULT_JOURNEY_RETENTION_DAYS) {
+      throw new JourneyHistoryError(`days must be a whole number from 1 to ${DEFAULT_JOURNEY_RETENTION_DAYS}`)
     }
+
+    await this.journeyHistoryStore.setRetention(userId, days)
+    const removed = await this.journeyHistoryStore.deleteHistory(userId, new Date(now.getTime() - days * DAY_MS))
+    return { retentionDays: days, removed }
+  }
+
+  /**
+   * Delete all of a user's journey history; their retention setting is kept
+   */
+  async deleteJourneyHistory(userId: string) {
+    return { removed: await this.journeyHistoryStore.deleteHistory(userId) }
+  }
+
+  /**
+   * Remove journey history older than each user's retention window
+   */
+  async purgeExpiredJourneyHistory(): Promise<number> {
+    return this.journeyHistoryStore.purgeExpired()
   }
 
   /**
@@ -527,7 +659,7 @@ I'd rather point you somewhere useful than pretend I can help when my systems ar
       responseGenerator: 'operational',
       trustScoreService: 'operational',
       conversationService: this.conversationService.isAIAvailable() ? 'operational' : 'fallback_mode',
-      userJourneyHistory: this.userJourneyHistory.size,
+      journeyHistoryBackend: this.journeyHistoryStore.backend,
       trustScoring: {
         cacheSize: trustSystemHealth.cacheSize,
         lastValidation: trustSystemHealth.lastValidationRun
@@ -0,0 +1,250 @@
+/**
+ * Journey History Store
+ * Persists every detected JourneyContext so stage progression survives
+ * restarts and is shared across instances.
+ *
+ * Backends:
+ * - SupabaseJourneyHistoryStore: journey_history table (production)
+ * - InMemoryJourneyHistoryStore: process-local stand-in (tests, demo mode)
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js'
+import { getSupabaseClient } from '../lib/supabaseClient.js'
+import { JourneyContext, JourneyHistoryEntry, JourneyStage } from '../types/journey.js'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export const DEFAULT_JOURNEY_RETENTION_DAYS = parseInt(process.env.JOURNEY_HISTORY_RETENTION_DAYS || '365', 10)
+
+export interface JourneyHistoryQuery {
+  since?: Date
+  limit?: number
+}
+
+export interface JourneyHistoryStore {
+  readonly backend: 'supabase' | 'memory'
+
+  /** Record a detected journey context for a user */
+  record(userId: string, context: JourneyContext, sessionId?: string, detectedAt?: Date): Promise<void>
+
+  /** Entries inside the user's retention window, oldest first */
+  getHistory(userId: string, query?: JourneyHistoryQuery): Promise<JourneyHistoryEntry[]>
+
+  /** Set how many days of history are kept for a user */
+  setRetention(userId: string, days: number): Promise<void>
+
+  getRetention(userId: string): Promise<number>
+
+  /** Delete a user's entries, or only those detected before `before`; returns rows removed */
+  deleteHistory(userId: string, before?: Date): Promise<number>
+
+  /** Delete entries older than each user's retention window; returns rows removed */
+  purgeExpired(now?: Date): Promise<number>
+}
+
+/**
+ * Collapse a history into its stage sequence (consecutive repeats removed),
+ * matching the shape JourneyContext.previousStages has always had.
+ */
+export function toStageSequence(entries: JourneyHistoryEntry[]): JourneyStage[] {
+  const stages: JourneyStage[] = []
+  for (const entry of entries) {
+    if (stages[stages.length - 1] !== entry.stage) {
+      stages.push(entry.stage)
+    }
+  }
+  return stages
+}
+
+function retentionCutoff(days: number, now: Date = new Date()): Date {
+  return new Date(now.getTime() - days * DAY_MS)
+}
+
+function toEntry(userId: string, context: JourneyContext, sessionId: string | undefined, detectedAt: Date): JourneyHistoryEntry {
+  return {
+    userId,
+    sessionId,
+    stage: context.stage,
+    emotionalState: context.emotionalState,
+    urgencyLevel: context.urgencyLevel,
+    location: context.location,
+    communityConnection: context.communityConnection,
+    detectedAt
+  }
+}
+
+export class InMemoryJourneyHistoryStore implements JourneyHistoryStore {
+  readonly backend = 'memory' as const
+  private entries = new Map<string, JourneyHistoryEntry[]>()
+  private retention = new Map<string, number>()
+
+  async record(userId: string, context: JourneyContext, sessionId?: string, detectedAt: Date = new Date()): Promise<void> {
+    const history = this.entries.get(userId) || []
+    history.push(toEntry(userId, context, sessionId, detectedAt))
+    history.sort((a, b) => a.detectedAt.getTime() - b.detectedAt.getTime())
+    this.entries.set(userId, history)
+  }
+
+  async getHistory(userId: string, query: JourneyHistoryQuery = {}): Promise<JourneyHistoryEntry[]> {
+    const cutoff = retentionCutoff(await this.getRetention(userId))
+    const since = query.since && query.since > cutoff ? query.since : cutoff
+
+    const history = (this.entries.get(userId) || []).filter(e => e.detectedAt >= since)
+    return query.limit ? history.slice(-query.limit) : history
+  }
+
+  async setRetention(userId: string, days: number): Promise<void> {
+    this.retention.set(userId, days)
+  }
+
+  async getRetention(userId: string): Promise<number> {
+    return this.retention.get(userId) ?? DEFAULT_JOURNEY_RETENTION_DAYS
+  }
+
+  async deleteHistory(userId: string, before?: Date): Promise<number> {
+    const history = this.entries.get(userId) || []
+    const kept = before ? history.filter(e => e.detectedAt >= before) : []
+
+    if (kept.length === 0) {
+      this.entries.delete(userId)
+    } else {
+      this.entries.set(userId, kept)
+    }
+    return history.length - kept.length
+  }
+
+  async purgeExpired(now: Date = new Date()): Promise<number> {
+    let removed = 0
+    for (const [userId, history] of this.entries) {
+      const cutoff = retentionCutoff(await this.getRetention(userId), now)
+      const kept = history.filter(e => e.detectedAt >= cutoff)
+      removed += history.length - kept.length
+
+      if (kept.length === 0) {
+        this.entries.delete(userId)
+      } else {
+        this.entries.set(userId, kept)
+      }
+    }
+    return removed
+  }
+}
+
+export class SupabaseJourneyHistoryStore implements JourneyHistoryStore {
+  readonly backend = 'supabase' as const
+
+  constructor(private supabase: SupabaseClient) {}
+
+  async record(userId: string, context: JourneyContext, sessionId?: string, detectedAt: Date = new Date()): Promise<void> {
+    const { error } = await this.supabase.from('journey_history').insert({
+      user_id: userId,
+      session_id: sessionId || null,
+      stage: context.stage,
+      emotional_state: context.emotionalState,
+      urgency_level: context.urgencyLevel,
+      location: context.location,
+      community_connection: context.communityConnection,
+      detected_at: detectedAt.toISOString()
+    })
+
+    if (error) {
+      throw new Error(`Failed to record journey history: ${error.message}`)
+    }
+  }
+
+  async getHistory(userId: string, query: JourneyHistoryQuery = {}): Promise<JourneyHistoryEntry[]> {
+    const cutoff = retentionCutoff(await this.getRetention(userId))
+    const since = query.since && query.since > cutoff ? query.since : cutoff
+
+    // Newest first so the limit keeps the most recent entries, then reverse
+    let request = this.supabase
+      .from('journey_history')
+      .select('user_id, session_id, stage, emotional_state, urgency_level, location, community_connection, detected_at')
+      .eq('user_id', userId)
+      .gte('detected_at', since.toISOString())
+      .order('detected_at', { ascending: false })
+
+    if (query.limit) {
+      request = request.limit(query.limit)
+    }
+
+    const { data, error } = await request
+
+    if (error) {
+      throw new Error(`Failed to fetch journey history: ${error.message}`)
+    }
+
+    return (data || []).reverse().map((row: any) => ({
+      userId: row.user_id,
+      sessionId: row.session_id || undefined,
+      stage: row.stage,
+      emotionalState: row.emotional_state,
+      urgencyLevel: row.urgency_level,
+      location: row.location,
+      communityConnection: row.community_connection,
+      detectedAt: new Date(row.detected_at)
+    }))
+  }
+
+  async setRetention(userId: string, days: number): Promise<void> {
+    const { error } = await this.supabase
+      .from('journey_history_retention')
+      .upsert({ user_id: userId, retention_days: days, updated_at: new Date().toISOString() }, { onConflict: 'user_id' })
+
+    if (error) {
+      throw new Error(`Failed to set journey history retention: ${error.message}`)
+    }
+  }
+
+  async getRetention(userId: string): Promise<number> {
+    const { data } = await this.supabase
+      .from('journey_history_retention')
+      .select('retention_days')
+      .eq('user_id', userId)
+      .maybeSingle()
+
+    return data?.retention_days ?? DEFAULT_JOURNEY_RETENTION_DAYS
+  }
+
+  async deleteHistory(userId: string, before?: Date): Promise<number> {
+    let request = this.supabase
+      .from('journey_history')
+      .delete({ count: 'exact' })
+      .eq('user_id', userId)
+
+    if (before) {
+      request = request.lt('detected_at', before.toISOString())
+    }
+
+    const { count, error } = await request
+
+    if (error) {
+      throw new Error(`Failed to delete journey history: ${error.message}`)
+    }
+
+    return count ?? 0
+  }
+
+  async purgeExpired(now: Date = new Date()): Promise<number> {
+    const { data, error } = await this.supabase.rpc('purge_expired_journey_history', {
+      p_default_days: DEFAULT_JOURNEY_RETENTION_DAYS,
+      p_now: now.toISOString()
+    })
+
+    if (error) {
+      throw new Error(`Failed to purge journey history: ${error.message}`)
+    }
+
+    return typeof data === 'number' ? data : 0
+  }
+}
+
+/**
+ * Pick the Supabase-backed store when credentials are configured,
+ * otherwise fall back to the in-memory store.
+ */
+export function createJourneyHistoryStore(supabase: SupabaseClient | null = getSupabaseClient()): JourneyHistoryStore {
+  return supabase ? new SupabaseJourneyHistoryStore(supabase) : new InMemoryJourneyHistoryStore()
+}
+
+export default createJourneyHistoryStore
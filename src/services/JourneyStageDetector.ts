@@ -1,4 +1,9 @@
-import { JourneyStage, EmotionalState, UrgencyLevel, CommunityConnectionLevel, UKLocation, JourneyContext, JourneyIndicators } from '../types/journey.js'
+import { JourneyStage, EmotionalState, UrgencyLevel, CommunityConnectionLevel, UKLocation, JourneyContext, JourneyIndicators, JourneyHistoryEntry } from '../types/journey.js'
+
+const HOUR_MS = 60 * 60 * 1000
+
+// How far back history can still carry a stage forward
+export const STAGE_HISTORY_DAYS = 30
 
 /**
  * Journey Stage Detection Engine
@@ -115,12 +120,16 @@ export class JourneyStageDetector {
   }
 
   /**
-   * Detect journey stage from user input and context
+   * Detect journey stage from user input and context.
+   * `history` is the user's timestamped stage history (oldest first); when the
+   * message itself carries no clear indicators it decides the stage instead of
+   * the blanket 'growth' default.
    */
   detectJourneyStage(
     userInput: string,
     previousStages: JourneyStage[] = [],
-    userProfile: any = {}
+    userProfile: any = {},
+    history: JourneyHistoryEntry[] = []
   ): JourneyContext {
     const lowerInput = userInput.toLowerCase()
     const words = lowerInput.split(/\s+/)
@@ -146,12 +155,38 @@ export class JourneyStageDetector {
     const topStage = Object.entries(stageScores)
       .reduce((a, b) => stageScores[a[0]] > stageScores[b[0]] ? a : b)[0] as JourneyStage
 
-    // Default to growth if no clear indicators
-    const finalStage = stageScores[topStage] < 0.3 ? 'growth' : topStage
+    // No clear indicators: lean on the user's recent history, else default to growth
+    const finalStage = stageScores[topStage] < 0.3 ? this.inferStageFromHistory(history) : topStage
 
     return this.createJourneyContext(finalStage, lowerInput, userProfile, previousStages)
   }
 
+  /**
+   * Infer a stage from longitudinal history when the message is ambiguous.
+   * A crisis in the last 72 hours means follow-up is stabilisation, not growth;
+   * otherwise the stage seen most over the last 30 days (recent entries weighted
+   * higher) carries forward. Crisis is never carried forward on its own.
+   */
+  private inferStageFromHistory(history: JourneyHistoryEntry[], now: Date = new Date()): JourneyStage {
+    if (history.length === 0) return 'growth'
+
+    const ageHours = (entry: JourneyHistoryEntry) => (now.getTime() - entry.detectedAt.getTime()) / HOUR_MS
+
+    const recentCrisis = history.some(entry => entry.stage === 'crisis' && ageHours(entry) <= 72)
+    if (recentCrisis) return 'stabilization'
+
+    const weights: Partial<Record<JourneyStage, number>> = {}
+    for (const entry of history) {
+      const age = ageHours(entry)
+      if (entry.stage === 'crisis' || age > STAGE_HISTORY_DAYS * 24) continue
+      // Halve an entry's influence for every week it ages
+      weights[entry.stage] = (weights[entry.stage] || 0) + Math.pow(0.5, age / (7 * 24))
+    }
+
+    const ranked = Object.entries(weights).sort((a, b) => b[1] - a[1])
+    return ranked.length > 0 ? ranked[0][0] as JourneyStage : 'growth'
+  }
+
   /**
    * Calculate score for a specific journey stage
    */
@@ -0,0 +1,306 @@
+/**
+ * Knowledge Retrieval Service
+ * Hybrid keyword + semantic search over every UKResource and KnowledgeEntry
+ * from all regional providers, with journey stage, location and kind filters.
+ *
+ * Each document is embedded once and kept in a KnowledgeVectorStore; before
+ * searching, the index is compared with the providers' current content and
+ * only new or changed documents are re-embedded (stale ones are removed).
+ * Without real embeddings (no OPENAI_API_KEY) ranking is keyword-only — the
+ * mock embeddings carry no meaning.
+ */
+
+import { createHash } from 'crypto'
+import EmbeddingService from '../embeddingService.js'
+import { UKKnowledgeBase, cityToRegion } from './UKKnowledgeBase.js'
+import {
+  KnowledgeVectorStore,
+  KnowledgeDocumentKind,
+  IndexedKnowledgeDocument,
+  createKnowledgeVectorStore,
+  matchesFilter
+} from './KnowledgeVectorStore.js'
+import { JourneyStage, KnowledgeEntry, UKLocation, UKResource } from '../types/journey.js'
+
+// Share of the final score taken by semantic similarity when embeddings are real
+const SEMANTIC_WEIGHT = 0.65
+// Vector candidates fetched per requested result, before hybrid re-ranking
+const CANDIDATE_MULTIPLIER = 5
+const MAX_EMBEDDING_CHARS = 8000
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'with', 'you', 'your', 'are', 'can', 'how', 'what', 'where', 'who', 'any',
+  'need', 'help', 'about', 'get', 'have', 'has', 'this', 'that', 'from', 'there', 'near', 'me', 'my'
+])
+
+export interface Embedder {
+  generateEmbedding(text: string): Promise<number[]>
+  generateBatchEmbeddings(texts: string[]): Promise<number[][]>
+  isEmbeddingAvailable(): boolean
+}
+
+export interface KnowledgeSearchOptions {
+  stage?: JourneyStage
+  location?: UKLocation
+  kind?: KnowledgeDocumentKind
+  emergencyOnly?: boolean
+  limit?: number
+}
+
+export interface KnowledgeSearchResult {
+  kind: KnowledgeDocumentKind
+  id: string
+  title: string
+  score: number
+  semanticScore: number
+  keywordScore: number
+  resource?: UKResource
+  entry?: KnowledgeEntry
+}
+
+export interface IndexSyncResult {
+  embedded: number
+  removed: number
+  unchanged: number
+}
+
+interface SourceDocument {
+  id: string
+  kind: KnowledgeDocumentKind
+  sourceId: string
+  title: string
+  text: string
+  // Category, tags and specializations: weighted above body text
+  labels: string
+  journeyStages: JourneyStage[]
+  locations: UKLocation[]
+  emergency: boolean
+  contentHash: string
+  resource?: UKResource
+  entry?: KnowledgeEntry
+}
+
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z0-9+]+/g) || []).filter(token => token.length > 2 && !STOP_WORDS.has(token))
+}
+
+/**
+ * Share of query terms found in the document, with title matches counting
+ * double and category/tag/specialization matches one and a half times.
+ */
+export function keywordScore(queryTokens: string[], document: Pick<SourceDocument, 'title' | 'labels' | 'text'>): number {
+  if (queryTokens.length === 0) return 0
+
+  const title = new Set(tokenize(document.title))
+  const labels = new Set(tokenize(document.labels))
+  const body = new Set(tokenize(document.text))
+
+  let score = 0
+  for (const token of new Set(queryTokens)) {
+    if (title.has(token)) score += 2
+    else if (labels.has(token)) score += 1.5
+    else if (body.has(token)) score += 1
+  }
+  return Math.min(1, score / (new Set(queryTokens).size * 2))
+}
+
+/** The location itself, anywhere else in its region, and UK-wide listings */
+export function locationsInScope(location: UKLocation): UKLocation[] {
+  const region = cityToRegion[location]
+  const sameRegion = region === 'nationwide'
+    ? []
+    : (Object.keys(cityToRegion) as UKLocation[]).filter(other => cityToRegion[other] === region)
+  return [...new Set<UKLocation>([location, ...sameRegion, 'unknown'])]
+}
+
+function hash(text: string): string {
+  return createHash('sha256').update(text).digest('hex').slice(0, 32)
+}
+
+function resourceDocument(resource: UKResource): SourceDocument {
+  const labels = [resource.category, ...resource.specializations].join(', ')
+  const text = `${resource.title}. ${resource.description}. ${labels}. ${resource.availability}`
+  return {
+    id: `resource:${resource.id}`,
+    kind: 'resource',
+    sourceId: resource.id,
+    title: resource.title,
+    text,
+    labels,
+    journeyStages: resource.journeyStages,
+    locations: resource.locations,
+    emergency: resource.emergency,
+    contentHash: hash(text),
+    resource
+  }
+}
+
+function knowledgeDocument(entry: KnowledgeEntry): SourceDocument {
+  const labels = [entry.category, ...entry.tags].join(', ')
+  const text = `${entry.title}. ${entry.content}. ${labels}`
+  return {
+    id: `knowledge:${entry.id}`,
+    kind: 'knowledge',
+    sourceId: entry.id,
+    title: entry.title,
+    text,
+    labels,
+    journeyStages: entry.journeyStages,
+    locations: entry.location,
+    emergency: false,
+    contentHash: hash(text),
+    entry
+  }
+}
+
+export class KnowledgeRetrievalService {
+  private knowledgeBase: UKKnowledgeBase
+  private store: KnowledgeVectorStore
+  private embedder: Embedder
+  private documents = new Map<string, SourceDocument>()
+  private syncedFingerprint: string | null = null
+  private syncing: Promise<IndexSyncResult> | null = null
+
+  constructor(knowledgeBase?: UKKnowledgeBase, store?: KnowledgeVectorStore, embedder?: Embedder) {
+    this.knowledgeBase = knowledgeBase || new UKKnowledgeBase()
+    this.store = store || createKnowledgeVectorStore()
+    this.embedder = embedder || new EmbeddingService()
+  }
+
+  isSemanticEnabled(): boolean {
+    return this.embedder.isEmbeddingAvailable()
+  }
+
+  /**
+   * Bring the vector index in line with the providers' current content.
+   * A no-op when nothing has changed since the last sync.
+   */
+  async ensureIndex(): Promise<IndexSyncResult> {
+    const documents = this.loadDocuments()
+    const fingerprint = hash([...documents.values()].map(doc => `${doc.id}:${doc.contentHash}`).sort().join('|'))
+
+    if (!this.isSemanticEnabled() || fingerprint === this.syncedFingerprint) {
+      return { embedded: 0, removed: 0, unchanged: documents.size }
+    }
+    if (this.syncing) return this.syncing
+
+    this.syncing = this.syncIndex(documents)
+      .then(result => {
+        this.syncedFingerprint = fingerprint
+        console.log(`[Knowledge] Index synced: ${result.embedded} embedded, ${result.removed} removed, ${result.unchanged} unchanged`)
+        return result
+      })
+      .finally(() => {
+        this.syncing = null
+      })
+    return this.syncing
+  }
+
+  async search(query: string, options: KnowledgeSearchOptions = {}): Promise<KnowledgeSearchResult[]> {
+    const limit = options.limit || 5
+    const filter = {
+      kind: options.kind,
+      stage: options.stage,
+      locations: options.location ? locationsInScope(options.location) : undefined
+    }
+
+    const candidates = [...this.loadDocuments().values()]
+      .filter(doc => matchesFilter(doc, filter) && (!options.emergencyOnly || doc.emergency))
+
+    const semanticScores = await this.semanticScores(query, filter, limit)
+    const queryTokens = tokenize(query)
+    const semanticWeight = semanticScores ? SEMANTIC_WEIGHT : 0
+
+    return candidates
+      .map(doc => {
+        const semantic = Math.max(0, semanticScores?.get(doc.id) ?? 0)
+        const keyword = keywordScore(queryTokens, doc)
+        return {
+          kind: doc.kind,
+          id: doc.sourceId,
+          title: doc.title,
+          score: Math.round((semanticWeight * semantic + (1 - semanticWeight) * keyword) * 1000) / 1000,
+          semanticScore: Math.round(semantic * 1000) / 1000,
+          keywordScore: Math.round(keyword * 1000) / 1000,
+          resource: doc.resource,
+          entry: doc.entry
+        }
+      })
+      .filter(result => result.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit)
+  }
+
+  async searchResources(query: string, options: Omit<KnowledgeSearchOptions, 'kind'> = {}): Promise<UKResource[]> {
+    return (await this.search(query, { ...options, kind: 'resource' })).map(result => result.resource!)
+  }
+
+  async searchKnowledge(query: string, options: Omit<KnowledgeSearchOptions, 'kind' | 'emergencyOnly'> = {}): Promise<KnowledgeEntry[]> {
+    return (await this.search(query, { ...options, kind: 'knowledge' })).map(result => result.entry!)
+  }
+
+  private loadDocuments(): Map<string, SourceDocument> {
+    const documents = [
+      ...this.knowledgeBase.getAllResources().map(resourceDocument),
+      ...this.knowledgeBase.getAllKnowledgeEntries().map(knowledgeDocument)
+    ]
+    // Providers can list the same resource; the first listing wins
+    this.documents = new Map()
+    for (const doc of documents) {
+      if (!this.documents.has(doc.id)) this.documents.set(doc.id, doc)
+    }
+    return this.documents
+  }
+
+  private async syncIndex(documents: Map<string, SourceDocument>): Promise<IndexSyncResult> {
+    const indexed = await this.store.getContentHashes()
+    const changed = [...documents.values()].filter(doc => indexed.get(doc.id) !== doc.contentHash)
+    const stale = [...indexed.keys()].filter(id => !documents.has(id))
+
+    if (changed.length > 0) {
+      const embeddings = await this.embedder.generateBatchEmbeddings(changed.map(doc => doc.text.slice(0, MAX_EMBEDDING_CHARS)))
+      const rows: IndexedKnowledgeDocument[] = changed.map((doc, i) => ({
+        id: doc.id,
+        kind: doc.kind,
+        sourceId: doc.sourceId,
+        journeyStages: doc.journeyStages,
+        locations: doc.locations,
+        contentHash: doc.contentHash,
+        embedding: embeddings[i]
+      }))
+      await this.store.upsert(rows)
+    }
+    await this.store.remove(stale)
+
+    return { embedded: changed.length, removed: stale.length, unchanged: documents.size - changed.length }
+  }
+
+  /** Semantic similarity by document id, or null when ranking falls back to keywords */
+  private async semanticScores(
+    query: string,
+    filter: Parameters<KnowledgeVectorStore['search']>[2],
+    limit: number
+  ): Promise<Map<string, number> | null> {
+    if (!this.isSemanticEnabled() || !query.trim()) return null
+
+    try {
+      await this.ensureIndex()
+      const embedding = await this.embedder.generateEmbedding(query)
+      const matches = await this.store.search(embedding, limit * CANDIDATE_MULTIPLIER, filter)
+      return new Map(matches.map(match => [match.id, match.similarity]))
+    } catch (error) {
+      console.warn('[Knowledge] Semantic search unavailable, using keyword ranking:', error)
+      return null
+    }
+  }
+}
+
+let retrievalService: KnowledgeRetrievalService | null = null
+
+export function getKnowledgeRetrievalService(): KnowledgeRetrievalService {
+  if (!retrievalService) {
+    retrievalService = new KnowledgeRetrievalService()
+  }
+  return retrievalService
+}
+
+export default KnowledgeRetrievalService
@@ -0,0 +1,181 @@
+/**
+ * Knowledge Vector Store
+ * Embeddings for every UKResource and KnowledgeEntry, searchable by cosine
+ * similarity with journey stage, location and kind filters.
+ *
+ * Backends:
+ * - PgVectorKnowledgeStore: knowledge_embeddings table + match_knowledge_embeddings() (production)
+ * - InMemoryKnowledgeVectorStore: in-process index (tests, demo mode)
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js'
+import { getSupabaseClient } from '../lib/supabaseClient.js'
+import { JourneyStage, UKLocation } from '../types/journey.js'
+
+const UPSERT_BATCH_SIZE = 100
+
+export type KnowledgeDocumentKind = 'resource' | 'knowledge'
+
+export interface IndexedKnowledgeDocument {
+  // `<kind>:<source id>`
+  id: string
+  kind: KnowledgeDocumentKind
+  sourceId: string
+  journeyStages: JourneyStage[]
+  locations: UKLocation[]
+  // Hash of the embedded text; unchanged documents are not re-embedded
+  contentHash: string
+  embedding: number[]
+}
+
+export interface VectorSearchFilter {
+  kind?: KnowledgeDocumentKind
+  stage?: JourneyStage
+  // Document matches if it lists any of these locations
+  locations?: UKLocation[]
+}
+
+export interface VectorMatch {
+  id: string
+  similarity: number
+}
+
+export interface KnowledgeVectorStore {
+  readonly backend: 'pgvector' | 'memory'
+
+  /** Content hash of every indexed document, by id */
+  getContentHashes(): Promise<Map<string, string>>
+
+  upsert(documents: IndexedKnowledgeDocument[]): Promise<void>
+
+  remove(ids: string[]): Promise<void>
+
+  search(embedding: number[], limit: number, filter?: VectorSearchFilter): Promise<VectorMatch[]>
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length) return 0
+
+  let dot = 0
+  let magnitudeA = 0
+  let magnitudeB = 0
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i]
+    magnitudeA += a[i] * a[i]
+    magnitudeB += b[i] * b[i]
+  }
+
+  return magnitudeA === 0 || magnitudeB === 0 ? 0 : dot / (Math.sqrt(magnitudeA) * Math.sqrt(magnitudeB))
+}
+
+export function matchesFilter(
+  document: Pick<IndexedKnowledgeDocument, 'kind' | 'journeyStages' | 'locations'>,
+  filter: VectorSearchFilter = {}
+): boolean {
+  if (filter.kind && document.kind !== filter.kind) return false
+  if (filter.stage && !document.journeyStages.includes(filter.stage)) return false
+  if (filter.locations && !document.locations.some(location => filter.locations!.includes(location))) return false
+  return true
+}
+
+export class InMemoryKnowledgeVectorStore implements KnowledgeVectorStore {
+  readonly backend = 'memory' as const
+  private documents = new Map<string, IndexedKnowledgeDocument>()
+
+  async getContentHashes(): Promise<Map<string, string>> {
+    return new Map([...this.documents.values()].map(doc => [doc.id, doc.contentHash]))
+  }
+
+  async upsert(documents: IndexedKnowledgeDocument[]): Promise<void> {
+    for (const document of documents) {
+      this.documents.set(document.id, document)
+    }
+  }
+
+  async remove(ids: string[]): Promise<void> {
+    for (const id of ids) {
+      this.documents.delete(id)
+    }
+  }
+
+  async search(embedding: number[], limit: number, filter?: VectorSearchFilter): Promise<VectorMatch[]> {
+    return [...this.documents.values()]
+      .filter(doc => matchesFilter(doc, filter))
+      .map(doc => ({ id: doc.id, similarity: cosineSimilarity(embedding, doc.embedding) }))
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, limit)
+  }
+}
+
+export class PgVectorKnowledgeStore implements KnowledgeVectorStore {
+  readonly backend = 'pgvector' as const
+
+  constructor(private supabase: SupabaseClient) {}
+
+  async getContentHashes(): Promise<Map<string, string>> {
+    const { data, error } = await this.supabase.from('knowledge_embeddings').select('id, content_hash')
+
+    if (error) {
+      throw new Error(`Failed to read knowledge index: ${error.message}`)
+    }
+
+    return new Map((data || []).map(row => [row.id, row.content_hash]))
+  }
+
+  async upsert(documents: IndexedKnowledgeDocument[]): Promise<void> {
+    for (let i = 0; i < documents.length; i += UPSERT_BATCH_SIZE) {
+      const rows = documents.slice(i, i + UPSERT_BATCH_SIZE).map(doc => ({
+        id: doc.id,
+        kind: doc.kind,
+        source_id: doc.sourceId,
+        journey_stages: doc.journeyStages,
+        locations: doc.locations,
+        content_hash: doc.contentHash,
+        embedding: doc.embedding,
+        updated_at: new Date().toISOString()
+      }))
+
+      const { error } = await this.supabase.from('knowledge_embeddings').upsert(rows, { onConflict: 'id' })
+
+      if (error) {
+        throw new Error(`Failed to index knowledge: ${error.message}`)
+      }
+    }
+  }
+
+  async remove(ids: string[]): Promise<void> {
+    if (ids.length === 0) return
+
+    const { error } = await this.supabase.from('knowledge_embeddings').delete().in('id', ids)
+
+    if (error) {
+      throw new Error(`Failed to remove stale knowledge: ${error.message}`)
+    }
+  }
+
+  async search(embedding: number[], limit: number, filter: VectorSearchFilter = {}): Promise<VectorMatch[]> {
+    const { data, error } = await this.supabase.rpc('match_knowledge_embeddings', {
+      query_embedding: embedding,
+      match_count: limit,
+      filter_kind: filter.kind ?? null,
+      filter_stage: filter.stage ?? null,
+      filter_locations: filter.locations ?? null
+    })
+
+    if (error) {
+      throw new Error(`Knowledge search failed: ${error.message}`)
+    }
+
+    return (data || []).map((row: any) => ({ id: row.id, similarity: row.similarity }))
+  }
+}
+
+/**
+ * Pick the pgvector-backed store when Supabase is configured,
+ * otherwise fall back to the in-process index.
+ */
+export function createKnowledgeVectorStore(supabase: SupabaseClient | null = getSupabaseClient()): KnowledgeVectorStore {
+  return supabase ? new PgVectorKnowledgeStore(supabase) : new InMemoryKnowledgeVectorStore()
+}
+
+export default createKnowledgeVectorStore
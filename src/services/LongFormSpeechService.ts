@@ -0,0 +1,261 @@
+/**
+ * Long-Form Speech Service
+ * Voices text too long for a single TTS call (lesson content, long replies).
+ *
+ * Text is cleaned of markdown and emoji, split at sentence boundaries into
+ * chunks, and synthesised a few chunks at a time. Chunks are yielded in order
+ * as soon as each one and everything before it is ready, so a streaming
+ * response can start playback while later chunks are still rendering.
+ * Each chunk is cached on its own, so edited lessons only re-render the
+ * sentences that changed.
+ */
+
+export const MAX_LONG_FORM_CHARS = 60000
+export const DEFAULT_CHUNK_CHARS = 400
+export const DEFAULT_CONCURRENCY = 3
+
+export interface SpeechChunkCache {
+  get(key: string): Promise<Buffer | null>
+  put(key: string, audio: Buffer): Promise<void>
+}
+
+export type ChunkSynthesizer = (text: string) => Promise<{ audio: Buffer; source: string }>
+
+export interface SpeechChunk {
+  index: number
+  total: number
+  text: string
+  audio: Buffer
+  source: string
+  cached: boolean
+}
+
+export interface LongFormSpeechOptions {
+  maxChunkChars?: number
+  concurrency?: number
+}
+
+interface WavParts {
+  format: Buffer
+  data: Buffer
+}
+
+/**
+ * Turn chat/lesson markdown into plain prose for TTS. Paragraph breaks are
+ * kept; bullets and headings become sentences; paralinguistic tags like
+ * [sigh] survive.
+ */
+export function prepareForSpeech(text: string): string {
+  return text
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/`{1,3}([^`]*)`{1,3}/g, '$1')
+    .replace(/\*{1,3}([^*\n]+)\*{1,3}/g, '$1')
+    .replace(/_{1,2}([^_\n]+)_{1,2}/g, '$1')
+    .replace(/^\s{0,3}#{1,6}\s+/gm, '')
+    .replace(/^\s*(?:[-*•]|\d+[.)])\s+(.+?)\s*$/gm, (_line, item: string) => (/[.!?:;]$/.test(item) ? item : `${item}.`))
+    .replace(/\p{Extended_Pictographic}️?/gu, '')
+    .replace(/[ \t]+/g, ' ')
+    .replace(/ *\n */g, '\n')
+    // Headings and list lines end without punctuation; give TTS a pause
+    .replace(/([^\s.!?:;,])\n/g, '$1.\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+}
+
+function splitOversized(sentence: string, maxChars: number): string[] {
+  if (sentence.length <= maxChars) return [sentence]
+
+  // Prefer clause boundaries, then fall back to word boundaries
+  const pieces = sentence.split(/(?<=[,;:])\s+/)
+  const words = pieces.some(piece => piece.length > maxChars) ? sentence.split(/\s+/) : pieces
+  const parts: string[] = []
+  let current = ''
+  for (const word of words) {
+    if (current && current.length + word.length + 1 > maxChars) {
+      parts.push(current)
+      current = ''
+    }
+    current = current ? `${current} ${word}` : word
+    while (current.length > maxChars) {
+      parts.push(current.slice(0, maxChars))
+      current = current.slice(maxChars)
+    }
+  }
+  if (current) parts.push(current)
+  return parts
+}
+
+/**
+ * Sentence-aware chunks of at most maxChars. Sentences are packed together
+ * up to the limit but never across a paragraph break.
+ */
+export function chunkText(text: string, maxChars: number = DEFAULT_CHUNK_CHARS): string[] {
+  const chunks: string[] = []
+
+  for (const paragraph of text.split(/\n\s*\n/)) {
+    const sentences = paragraph
+      .replace(/\s+/g, ' ')
+      .trim()
+      .split(/(?<=[.!?…]["'”’)]?)\s+/)
+      .filter(Boolean)
+      .flatMap(sentence => splitOversized(sentence, maxChars))
+
+    let current = ''
+    for (const sentence of sentences) {
+      if (current && current.length + sentence.length + 1 > maxChars) {
+        chunks.push(current)
+        current = ''
+      }
+      current = current ? `${current} ${sentence}` : sentence
+    }
+    if (current) chunks.push(current)
+  }
+
+  return chunks
+}
+
+export function parseWav(audio: Buffer): WavParts | null {
+  if (audio.length < 12 || audio.toString('latin1', 0, 4) !== 'RIFF' || audio.toString('latin1', 8, 12) !== 'WAVE') {
+    return null
+  }
+
+  let format: Buffer | null = null
+  let offset = 12
+  while (offset + 8 <= audio.length) {
+    const id = audio.toString('latin1', offset, offset + 4)
+    const size = audio.readUInt32LE(offset + 4)
+    const body = audio.subarray(offset + 8, Math.min(audio.length, offset + 8 + size))
+    if (id === 'fmt ') format = body
+    // Streamed WAVs declare an oversized data chunk; take whatever is there
+    if (id === 'data') return format ? { format, data: body } : null
+    offset += 8 + size + (size % 2)
+  }
+  return null
+}
+
+function wavHeader(format: Buffer, dataLength: number): Buffer {
+  const header = Buffer.alloc(12 + 8 + format.length + 8)
+  header.write('RIFF', 0, 'latin1')
+  header.writeUInt32LE(Math.min(0xffffffff, 4 + 8 + format.length + 8 + dataLength), 4)
+  header.write('WAVE', 8, 'latin1')
+  header.write('fmt ', 12, 'latin1')
+  header.writeUInt32LE(format.length, 16)
+  format.copy(header, 20)
+  header.write('data', 20 + format.length, 'latin1')
+  header.writeUInt32LE(Math.min(0xffffffff, dataLength), 24 + format.length)
+  return header
+}
+
+/** MP3 frames concatenate cleanly once every ID3 tag but the first is removed */
+function stripId3(audio: Buffer): Buffer {
+  if (audio.length < 10 || audio.toString('latin1', 0, 3) !== 'ID3') return audio
+  // Tag size is a 28-bit "syncsafe" integer
+  const size = (audio[6] << 21) | (audio[7] << 14) | (audio[8] << 7) | audio[9]
+  return audio.subarray(10 + size)
+}
+
+export function audioContentType(audio: Buffer): string {
+  return parseWav(audio) ? 'audio/wav' : 'audio/mpeg'
+}
+
+/**
+ * Bytes to write for one chunk of a streamed response. A WAV stream gets a
+ * header with an open-ended length followed by each chunk's samples.
+ */
+export function streamPiece(audio: Buffer, index: number): Buffer {
+  const wav = parseWav(audio)
+  if (wav) {
+    return index === 0 ? Buffer.concat([wavHeader(wav.format, 0xffffffff), wav.data]) : wav.data
+  }
+  return index === 0 ? audio : stripId3(audio)
+}
+
+/** Join chunk audio into one file (WAV samples under one header, or MP3 frames) */
+export function stitchAudio(chunks: Buffer[]): Buffer {
+  if (chunks.length === 1) return chunks[0]
+
+  const wavs = chunks.map(parseWav)
+  if (wavs.every(Boolean) && wavs.every(wav => wav!.format.equals(wavs[0]!.format))) {
+    const data = Buffer.concat(wavs.map(wav => wav!.data))
+    return Buffer.concat([wavHeader(wavs[0]!.format, data.length), data])
+  }
+
+  return Buffer.concat(chunks.map((chunk, i) => (i === 0 ? chunk : stripId3(chunk))))
+}
+
+export class LongFormSpeechService {
+  private maxChunkChars: number
+  private concurrency: number
+
+  constructor(
+    private synthesize: ChunkSynthesizer,
+    private cache: SpeechChunkCache | null = null,
+    options: LongFormSpeechOptions = {}
+  ) {
+    this.maxChunkChars = options.maxChunkChars || DEFAULT_CHUNK_CHARS
+    this.concurrency = Math.max(1, options.concurrency || DEFAULT_CONCURRENCY)
+  }
+
+  chunk(text: string): string[] {
+    return chunkText(prepareForSpeech(text), this.maxChunkChars)
+  }
+
+  /**
+   * Synthesised chunks in reading order. At most `concurrency` chunks are in
+   * flight, counting ahead of the one being yielded.
+   */
+  async *synthesizeChunks(text: string, cacheKeyFor: (chunk: string) => string): AsyncGenerator<SpeechChunk> {
+    const chunks = this.chunk(text)
+    const pending: Promise<SpeechChunk>[] = []
+
+    const start = (index: number) => {
+      const promise = this.renderChunk(chunks[index], index, chunks.length, cacheKeyFor(chunks[index]))
+      // Failures surface when the chunk is awaited in order; don't report them early
+      promise.catch(() => {})
+      pending[index] = promise
+    }
+
+    for (let i = 0; i < chunks.length; i++) {
+      for (let ahead = pending.length; ahead < Math.min(chunks.length, i + this.concurrency); ahead++) {
+        start(ahead)
+      }
+      yield await pending[i]
+    }
+  }
+
+  /** Every chunk, stitched into one audio file */
+  async synthesizeAll(text: string, cacheKeyFor: (chunk: string) => string) {
+    const chunks: SpeechChunk[] = []
+    for await (const chunk of this.synthesizeChunks(text, cacheKeyFor)) {
+      chunks.push(chunk)
+    }
+
+    return {
+      audio: stitchAudio(chunks.map(chunk => chunk.audio)),
+      chunks: chunks.length,
+      cachedChunks: chunks.filter(chunk => chunk.cached).length,
+      sources: [...new Set(chunks.map(chunk => chunk.source))]
+    }
+  }
+
+  private async renderChunk(text: string, index: number, total: number, cacheKey: string): Promise<SpeechChunk> {
+    if (this.cache) {
+      try {
+        const cached = await this.cache.get(cacheKey)
+        if (cached) return { index, total, text, audio: cached, source: 'cache', cached: true }
+      } catch (error) {
+        console.warn(`[Voice] Chunk cache read failed for ${cacheKey}:`, error)
+      }
+    }
+
+    const { audio, source } = await this.synthesize(text)
+
+    if (this.cache) {
+      this.cache.put(cacheKey, audio).catch(error => console.warn(`[Voice] Chunk cache write failed for ${cacheKey}:`, error))
+    }
+
+    return { index, total, text, audio, source, cached: false }
+  }
+}
+
+export default LongFormSpeechService
@@ -0,0 +1,371 @@
+/**
+ * Notification Queue Service
+ * Everything the platform sends goes through the durable notification queue:
+ * admin sends, event reminders and scheduled announcements. The scheduler
+ * drains it; PushNotificationService does the delivery, and EmailService
+ * sends a copy to users who opted in to email.
+ *
+ * - Dedupe keys stop the same notification being queued twice
+ * - Event reminders are generated 24h and 1h before events people RSVP'd to
+ * - Users with digest mode on get their low-priority notifications merged
+ *   into one daily message instead
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js'
+import { getSupabaseClient } from '../lib/supabaseClient.js'
+import {
+  NotificationQueueItem,
+  NotificationQueueStore,
+  NotificationPriority,
+  QueueQuery,
+  createNotificationQueueStore
+} from './NotificationQueueStore.js'
+import { PushNotificationService, PushMessage, NotificationError, getPushNotificationService } from './PushNotificationService.js'
+import { wantsTopic } from './PushNotificationStore.js'
+import { EmailService, getEmailService } from './EmailService.js'
+import { EVENT_TIMEZONE, eventPath, expandEventRows, upcomingEventsFilter, zonedTimeToUtc } from '../lib/recurrence.js'
+
+export { zonedTimeToUtc }
+
+export const DEFAULT_QUEUE_MAX_ATTEMPTS = 3
+// First retry after 5 minutes, doubling each time
+const RETRY_BASE_MS = 5 * 60 * 1000
+// An item still `sending` after this long was abandoned mid-send (e.g. a restart)
+const STALE_SENDING_MS = 15 * 60 * 1000
+const QUEUE_BATCH_SIZE = 50
+const DIGEST_BATCH_SIZE = 1000
+// Reminders are queued this far ahead of their send time, so each cron run only looks at the next window
+const REMINDER_QUEUE_AHEAD_MS = 30 * 60 * 1000
+const HOUR_MS = 60 * 60 * 1000
+const DIGEST_MAX_LINES = 5
+
+export interface EnqueueInput {
+  // One item per user; omit for a broadcast to everyone subscribed to the topic
+  userIds?: string[]
+  topic?: string
+  title: string
+  body: string
+  url?: string
+  data?: Record<string, unknown>
+  priority?: NotificationPriority
+  scheduledAt?: Date
+  // With several users, each user's item gets `${dedupeKey}:${userId}`
+  dedupeKey?: string
+}
+
+export interface QueueRunResult {
+  attempted: number
+  sent: number
+  retrying: number
+  failed: number
+}
+
+export interface EventAttendance {
+  eventId: string
+  title: string
+  startsAt: Date
+  userId: string
+}
+
+/** Confirmed RSVPs for events starting inside a window */
+export interface EventAttendanceSource {
+  listAttendance(from: Date, to: Date): Promise<EventAttendance[]>
+}
+
+export function retryDelayMs(attempts: number): number {
+  return RETRY_BASE_MS * 2 ** Math.max(0, attempts - 1)
+}
+
+export class SupabaseEventAttendanceSource implements EventAttendanceSource {
+  constructor(private supabase: SupabaseClient) {}
+
+  async listAttendance(from: Date, to: Date): Promise<EventAttendance[]> {
+    const fromDate = from.toISOString().split('T')[0]
+    const toDate = to.toISOString().split('T')[0]
+    const { data: events, error } = await this.supabase
+      .from('events')
+      .select('id, title, date, start_time, recurrence_rule, recurrence_exdates')
+      .eq('status', 'approved')
+      .or(upcomingEventsFilter(fromDate))
+      .lte('date', toDate)
+
+    if (error) {
+      throw new Error(`Failed to fetch upcoming events: ${error.message}`)
+    }
+
+    // RSVPs to a recurring event are per occurrence, keyed by occurrence id
+    const upcoming = new Map<string, { title: string; startsAt: Date }>()
+    for (const event of expandEventRows(events || [], { from: fromDate, to: toDate })) {
+      // No start time: treat as a daytime event starting at 9am
+      const startsAt = zonedTimeToUtc(event.date, event.start_time || '09:00')
+      if (startsAt && startsAt > from && startsAt <= to) {
+        upcoming.set(event.occurrence_id, { title: event.title, startsAt })
+      }
+    }
+    if (upcoming.size === 0) return []
+
+    const { data: rsvps, error: rsvpError } = await this.supabase
+      .from('event_rsvps')
+      .select('event_id, user_id')
+      .in('event_id', [...upcoming.keys()])
+      .eq('status', 'confirmed')
+
+    if (rsvpError) {
+      throw new Error(`Failed to fetch RSVPs: ${rsvpError.message}`)
+    }
+
+    return (rsvps || []).map(rsvp => ({ eventId: rsvp.event_id, userId: rsvp.user_id, ...upcoming.get(rsvp.event_id)! }))
+  }
+}
+
+function reminderKey(eventId: string, userId: string, kind: '24h' | '1h'): string {
+  return `event-reminder:${eventId}:${userId}:${kind}`
+}
+
+export class NotificationQueueService {
+  constructor(
+    private store: NotificationQueueStore = createNotificationQueueStore(),
+    private push: PushNotificationService = getPushNotificationService(),
+    private attendance: EventAttendanceSource | null = getSupabaseClient() ? new SupabaseEventAttendanceSource(getSupabaseClient()!) : null,
+    private email: EmailService | null = getEmailService()
+  ) {}
+
+  /**
+   * Queue a notification. Low-priority items for users in digest mode are
+   * held for the daily digest.
+   */
+  async enqueue(input: EnqueueInput, now: Date = new Date()): Promise<{ items: NotificationQueueItem[]; duplicates: number }> {
+    if (!input.title || !input.body) {
+      throw new NotificationError('Title and body required')
+    }
+    const scheduledAt = input.scheduledAt || now
+    if (Number.isNaN(scheduledAt.getTime())) {
+      throw new NotificationError('scheduledAt must be a valid date')
+    }
+
+    const priority = input.priority || 'normal'
+    const recipients: (string | undefined)[] = input.userIds?.length ? [...new Set(input.userIds)] : [undefined]
+    const items: NotificationQueueItem[] = []
+    let duplicates = 0
+
+    for (const userId of recipients) {
+      const digest = priority === 'low' && !!userId && (await this.push.getPreferences({ userId })).digest === true
+
+      const { item, duplicate } = await this.store.enqueue({
+        userId,
+        topic: input.topic || 'general',
+        title: input.title,
+        body: input.body,
+        url: input.url,
+        data: input.data,
+        priority,
+        scheduledAt,
+        dedupeKey: input.dedupeKey && userId && recipients.length > 1 ? `${input.dedupeKey}:${userId}` : input.dedupeKey,
+        digest,
+        maxAttempts: DEFAULT_QUEUE_MAX_ATTEMPTS
+      }, now)
+
+      items.push(item)
+      if (duplicate) duplicates++
+    }
+
+    return { items, duplicates }
+  }
+
+  /** Send every due item that isn't waiting for a digest; called by the scheduler */
+  async processDue(now: Date = new Date()): Promise<QueueRunResult> {
+    const result: QueueRunResult = { attempted: 0, sent: 0, retrying: 0, failed: 0 }
+    const due = await this.store.claimDue(now, new Date(now.getTime() - STALE_SENDING_MS), QUEUE_BATCH_SIZE, false)
+
+    for (const item of due) {
+      result.attempted++
+      const outcome = await this.sendItems([item], {
+        title: item.title,
+        body: item.body,
+        url: item.url,
+        // /send keeps a custom icon in data
+        icon: typeof item.data?.icon === 'string' ? item.data.icon : undefined,
+        data: { ...item.data, queueItemId: item.id }
+      }, item.topic, item.userId, item.priority, now)
+      result[outcome]++
+    }
+
+    return result
+  }
+
+  /**
+   * Merge each digest user's held notifications into one message; called
+   * once a day by the scheduler.
+   */
+  async sendDigests(now: Date = new Date()): Promise<{ users: number; items: number }> {
+    const held: NotificationQueueItem[] = []
+    for (;;) {
+      const batch = await this.store.claimDue(now, new Date(now.getTime() - STALE_SENDING_MS), DIGEST_BATCH_SIZE, true)
+      held.push(...batch)
+      if (batch.length < DIGEST_BATCH_SIZE) break
+    }
+
+    const byUser = new Map<string, NotificationQueueItem[]>()
+    for (const item of held) {
+      byUser.set(item.userId!, [...(byUser.get(item.userId!) || []), item])
+    }
+
+    for (const [userId, items] of byUser) {
+      // Respect topics switched off since the items were queued
+      const preferences = await this.push.getPreferences({ userId })
+      const wanted = items.filter(item => wantsTopic(preferences, item.topic))
+      const lines = wanted.slice(0, DIGEST_MAX_LINES).map(item => `• ${item.title}`)
+      if (wanted.length > DIGEST_MAX_LINES) lines.push(`…and ${wanted.length - DIGEST_MAX_LINES} more`)
+
+      if (wanted.length === 0) {
+        for (const item of items) {
+          await this.store.save({ ...item, status: 'cancelled', updatedAt: now })
+        }
+        continue
+      }
+
+      await this.sendItems(items, {
+        title: wanted.length === 1 ? wanted[0].title : `Your BLKOUT digest: ${wanted.length} updates`,
+        body: wanted.length === 1 ? wanted[0].body : lines.join('\n'),
+        url: wanted.length === 1 ? wanted[0].url : '/notifications',
+        data: { type: 'digest', queueItemIds: wanted.map(item => item.id) }
+      }, undefined, userId, 'low', now)
+    }
+
+    return { users: byUser.size, items: held.length }
+  }
+
+  /**
+   * Queue 24h and 1h reminders for confirmed RSVPs whose reminder time is
+   * near. Dedupe keys make repeated runs harmless.
+   */
+  async scheduleEventReminders(now: Date = new Date()): Promise<number> {
+    if (!this.attendance) return 0
+
+    const attendance = await this.attendance.listAttendance(now, new Date(now.getTime() + 24 * HOUR_MS + REMINDER_QUEUE_AHEAD_MS))
+    let queued = 0
+
+    for (const { eventId, title, startsAt, userId } of attendance) {
+      const untilStart = startsAt.getTime() - now.getTime()
+      const when = new Intl.DateTimeFormat('en-GB', { weekday: 'long', hour: '2-digit', minute: '2-digit', timeZone: EVENT_TIMEZONE }).format(startsAt)
+
+      const reminders = [
+        // An RSVP made in the last couple of hours only gets the 1h reminder
+        { kind: '24h' as const, lead: 24 * HOUR_MS, skip: untilStart < 2 * HOUR_MS, body: `${title} is on ${when}`, priority: 'normal' as const },
+        { kind: '1h' as const, lead: HOUR_MS, skip: false, body: `Starting soon: ${title}`, priority: 'high' as const }
+      ]
+
+      for (const reminder of reminders) {
+        const sendAt = startsAt.getTime() - reminder.lead
+        if (reminder.skip || sendAt > now.getTime() + REMINDER_QUEUE_AHEAD_MS) continue
+
+        const { duplicates } = await this.enqueue({
+          userIds: [userId],
+          topic: 'reminders',
+          title: '🏴‍☠️ BLKOUT Event Reminder',
+          body: reminder.body,
+          url: eventPath(eventId),
+          data: { eventId, type: 'event-reminder', reminderType: reminder.kind },
+          priority: reminder.priority,
+          scheduledAt: new Date(Math.max(sendAt, now.getTime())),
+          dedupeKey: reminderKey(eventId, userId, reminder.kind)
+        }, now)
+        if (duplicates === 0) queued++
+      }
+    }
+
+    return queued
+  }
+
+  /** Drop pending reminders when someone cancels their RSVP */
+  cancelEventReminders(eventId: string, userId: string, now: Date = new Date()): Promise<number> {
+    return this.store.cancelByDedupeKeys([reminderKey(eventId, userId, '24h'), reminderKey(eventId, userId, '1h')], now)
+  }
+
+  async cancel(itemId: string, now: Date = new Date()): Promise<NotificationQueueItem> {
+    const item = await this.get(itemId)
+    if (item.status !== 'pending') {
+      throw new NotificationError(`A ${item.status} notification cannot be cancelled`, 409)
+    }
+
+    item.status = 'cancelled'
+    item.updatedAt = now
+    await this.store.save(item)
+    return item
+  }
+
+  async get(itemId: string): Promise<NotificationQueueItem> {
+    const item = await this.store.get(itemId)
+    if (!item) {
+      throw new NotificationError('Queued notification not found', 404)
+    }
+    return item
+  }
+
+  list(query: QueueQuery = {}): Promise<NotificationQueueItem[]> {
+    return this.store.list(query)
+  }
+
+  /** Send one message on behalf of queue items and record the outcome on each */
+  private async sendItems(
+    items: NotificationQueueItem[],
+    message: PushMessage,
+    topic: string | undefined,
+    userId: string | undefined,
+    priority: NotificationPriority,
+    now: Date
+  ): Promise<'sent' | 'retrying' | 'failed'> {
+    try {
+      const summary = await this.push.send(message, {
+        topic,
+        userIds: userId ? [userId] : undefined,
+        urgency: priority === 'high' ? 'high' : priority === 'low' ? 'low' : 'normal'
+      }, now)
+
+      // Email goes out once push has; a failed email doesn't put the item up for retry
+      if (this.email) {
+        const emailed = await this.email.sendNotification(message, { topic, userIds: userId ? [userId] : undefined }).catch(error => {
+          console.error('[Notifications] Email copy failed:', error)
+          return null
+        })
+        if (emailed?.sent) console.log(`📧 [Notifications] Emailed ${emailed.sent} recipient(s)`)
+      }
+
+      for (const item of items) {
+        await this.store.save({ ...item, status: 'sent', attempts: item.attempts + 1, notificationId: summary.notificationId, lastError: undefined, sentAt: now, updatedAt: now })
+      }
+      return 'sent'
+    } catch (error: any) {
+      const message = error?.message || String(error)
+      let outcome: 'retrying' | 'failed' = 'failed'
+
+      for (const item of items) {
+        const attempts = item.attempts + 1
+        const retry = attempts < item.maxAttempts
+        if (retry) outcome = 'retrying'
+        await this.store.save({
+          ...item,
+          status: retry ? 'pending' : 'failed',
+          attempts,
+          scheduledAt: retry ? new Date(now.getTime() + retryDelayMs(attempts)) : item.scheduledAt,
+          lastError: message,
+          updatedAt: now
+        })
+      }
+
+      console.error(`[Notifications] Queue send failed (${items.map(item => item.id).join(', ')}): ${message}`)
+      return outcome
+    }
+  }
+}
+
+let notificationQueueService: NotificationQueueService | null = null
+
+export function getNotificationQueueService(): NotificationQueueService {
+  if (!notificationQueueService) {
+    notificationQueueService = new NotificationQueueService()
+  }
+  return notificationQueueService
+}
+
+export default NotificationQueueService
@@ -0,0 +1,319 @@
+/**
+ * Notification Queue Store
+ * Durable queue of notifications waiting to go out: scheduled time, priority,
+ * dedupe key and attempt count per item. Items addressed to one user can be
+ * held for that user's daily digest.
+ *
+ * Backends:
+ * - SupabaseNotificationQueueStore: notification_queue table (production)
+ * - InMemoryNotificationQueueStore: process-local stand-in (tests, demo mode)
+ */
+
+import { randomUUID } from 'crypto'
+import { SupabaseClient } from '@supabase/supabase-js'
+import { getSupabaseClient } from '../lib/supabaseClient.js'
+
+export type NotificationPriority = 'high' | 'normal' | 'low'
+
+export const NOTIFICATION_PRIORITIES: NotificationPriority[] = ['high', 'normal', 'low']
+
+export type QueueItemStatus = 'pending' | 'sending' | 'sent' | 'failed' | 'cancelled'
+
+export interface NotificationQueueItem {
+  id: string
+  // Recipient; unset means everyone subscribed to the topic
+  userId?: string
+  topic: string
+  title: string
+  body: string
+  url?: string
+  data?: Record<string, unknown>
+  priority: NotificationPriority
+  scheduledAt: Date
+  // A second item with the same key is not queued while this one is live
+  dedupeKey?: string
+  // Held for the recipient's daily digest instead of being sent on its own
+  digest: boolean
+  status: QueueItemStatus
+  attempts: number
+  maxAttempts: number
+  lastError?: string
+  // notification_log entry the item went out in
+  notificationId?: string
+  createdAt: Date
+  updatedAt: Date
+  sentAt?: Date
+}
+
+export type NewQueueItem = Omit<NotificationQueueItem, 'id' | 'status' | 'attempts' | 'createdAt' | 'updatedAt'>
+
+export interface QueueQuery {
+  status?: QueueItemStatus
+  userId?: string
+  limit?: number
+}
+
+export interface NotificationQueueStore {
+  readonly backend: 'supabase' | 'memory'
+
+  /** Queue an item, or return the live item already holding its dedupe key */
+  enqueue(item: NewQueueItem, now: Date): Promise<{ item: NotificationQueueItem; duplicate: boolean }>
+
+  save(item: NotificationQueueItem): Promise<void>
+
+  get(id: string): Promise<NotificationQueueItem | null>
+
+  /** Newest first */
+  list(query?: QueueQuery): Promise<NotificationQueueItem[]>
+
+  /**
+   * Move due items to `sending` and return them, highest priority first.
+   * `digest` picks digest items instead of ordinary ones. Items left in
+   * `sending` since before staleBefore (a crash mid-send) are claimed again.
+   */
+  claimDue(now: Date, staleBefore: Date, limit: number, digest: boolean): Promise<NotificationQueueItem[]>
+
+  /** Cancel pending items by dedupe key; returns how many were cancelled */
+  cancelByDedupeKeys(keys: string[], now: Date): Promise<number>
+}
+
+const PRIORITY_RANK: Record<NotificationPriority, number> = { high: 0, normal: 1, low: 2 }
+
+function isLive(item: NotificationQueueItem): boolean {
+  return item.status !== 'cancelled'
+}
+
+export class InMemoryNotificationQueueStore implements NotificationQueueStore {
+  readonly backend = 'memory' as const
+  private items = new Map<string, NotificationQueueItem>()
+
+  async enqueue(input: NewQueueItem, now: Date): Promise<{ item: NotificationQueueItem; duplicate: boolean }> {
+    if (input.dedupeKey) {
+      const existing = [...this.items.values()].find(item => item.dedupeKey === input.dedupeKey && isLive(item))
+      if (existing) return { item: { ...existing }, duplicate: true }
+    }
+
+    const item: NotificationQueueItem = { ...input, id: randomUUID(), status: 'pending', attempts: 0, createdAt: now, updatedAt: now }
+    this.items.set(item.id, item)
+    return { item: { ...item }, duplicate: false }
+  }
+
+  async save(item: NotificationQueueItem): Promise<void> {
+    this.items.set(item.id, { ...item })
+  }
+
+  async get(id: string): Promise<NotificationQueueItem | null> {
+    const item = this.items.get(id)
+    return item ? { ...item } : null
+  }
+
+  async list(query: QueueQuery = {}): Promise<NotificationQueueItem[]> {
+    return [...this.items.values()]
+      .filter(item => (!query.status || item.status === query.status) && (!query.userId || item.userId === query.userId))
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .slice(0, query.limit ?? Infinity)
+      .map(item => ({ ...item }))
+  }
+
+  async claimDue(now: Date, staleBefore: Date, limit: number, digest: boolean): Promise<NotificationQueueItem[]> {
+    const due = [...this.items.values()]
+      .filter(item => item.digest === digest && (
+        (item.status === 'pending' && item.scheduledAt.getTime() <= now.getTime()) ||
+        (item.status === 'sending' && item.updatedAt.getTime() <= staleBefore.getTime())
+      ))
+      .sort((a, b) => PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority] || a.scheduledAt.getTime() - b.scheduledAt.getTime())
+      .slice(0, limit)
+
+    for (const item of due) {
+      item.status = 'sending'
+      item.updatedAt = now
+    }
+    return due.map(item => ({ ...item }))
+  }
+
+  async cancelByDedupeKeys(keys: string[], now: Date): Promise<number> {
+    let cancelled = 0
+    for (const item of this.items.values()) {
+      if (item.dedupeKey && keys.includes(item.dedupeKey) && item.status === 'pending') {
+        item.status = 'cancelled'
+        item.updatedAt = now
+        cancelled++
+      }
+    }
+    return cancelled
+  }
+}
+
+function toRow(item: NotificationQueueItem) {
+  return {
+    id: item.id,
+    user_id: item.userId ?? null,
+    topic: item.topic,
+    title: item.title,
+    body: item.body,
+    url: item.url ?? null,
+    data: item.data ?? {},
+    priority: item.priority,
+    scheduled_at: item.scheduledAt.toISOString(),
+    dedupe_key: item.dedupeKey ?? null,
+    digest: item.digest,
+    status: item.status,
+    attempts: item.attempts,
+    max_attempts: item.maxAttempts,
+    last_error: item.lastError ?? null,
+    notification_id: item.notificationId ?? null,
+    created_at: item.createdAt.toISOString(),
+    updated_at: item.updatedAt.toISOString(),
+    sent_at: item.sentAt ? item.sentAt.toISOString() : null
+  }
+}
+
+function fromRow(row: any): NotificationQueueItem {
+  return {
+    id: row.id,
+    userId: row.user_id ?? undefined,
+    topic: row.topic,
+    title: row.title,
+    body: row.body,
+    url: row.url ?? undefined,
+    data: row.data && Object.keys(row.data).length > 0 ? row.data : undefined,
+    priority: row.priority,
+    scheduledAt: new Date(row.scheduled_at),
+    dedupeKey: row.dedupe_key ?? undefined,
+    digest: row.digest,
+    status: row.status,
+    attempts: row.attempts,
+    maxAttempts: row.max_attempts,
+    lastError: row.last_error ?? undefined,
+    notificationId: row.notification_id ?? undefined,
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at),
+    sentAt: row.sent_at ? new Date(row.sent_at) : undefined
+  }
+}
+
+export class SupabaseNotificationQueueStore implements NotificationQueueStore {
+  readonly backend = 'supabase' as const
+
+  constructor(private supabase: SupabaseClient) {}
+
+  async enqueue(input: NewQueueItem, now: Date): Promise<{ item: NotificationQueueItem; duplicate: boolean }> {
+    const item: NotificationQueueItem = { ...input, id: randomUUID(), status: 'pending', attempts: 0, createdAt: now, updatedAt: now }
+    const { error } = await this.supabase.from('notification_queue').insert(toRow(item))
+
+    if (!error) return { item, duplicate: false }
+
+    // Unique violation on the live dedupe key: hand back the item that holds it
+    if (error.code === '23505' && input.dedupeKey) {
+      const { data, error: lookupError } = await this.supabase
+        .from('notification_queue')
+        .select('*')
+        .eq('dedupe_key', input.dedupeKey)
+        .neq('status', 'cancelled')
+        .maybeSingle()
+
+      if (lookupError) {
+        throw new Error(`Failed to fetch queued notification: ${lookupError.message}`)
+      }
+      if (data) return { item: fromRow(data), duplicate: true }
+    }
+
+    throw new Error(`Failed to queue notification: ${error.message}`)
+  }
+
+  async save(item: NotificationQueueItem): Promise<void> {
+    const { error } = await this.supabase.from('notification_queue').upsert(toRow(item), { onConflict: 'id' })
+
+    if (error) {
+      throw new Error(`Failed to save queued notification: ${error.message}`)
+    }
+  }
+
+  async get(id: string): Promise<NotificationQueueItem | null> {
+    const { data, error } = await this.supabase.from('notification_queue').select('*').eq('id', id).maybeSingle()
+
+    if (error) {
+      throw new Error(`Failed to fetch queued notification: ${error.message}`)
+    }
+
+    return data ? fromRow(data) : null
+  }
+
+  async list(query: QueueQuery = {}): Promise<NotificationQueueItem[]> {
+    let request = this.supabase
+      .from('notification_queue')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(query.limit ?? 100)
+
+    if (query.status) request = request.eq('status', query.status)
+    if (query.userId) request = request.eq('user_id', query.userId)
+
+    const { data, error } = await request
+
+    if (error) {
+      throw new Error(`Failed to list queued notifications: ${error.message}`)
+    }
+
+    return (data || []).map(fromRow)
+  }
+
+  async claimDue(now: Date, staleBefore: Date, limit: number, digest: boolean): Promise<NotificationQueueItem[]> {
+    const { data: candidates, error: selectError } = await this.supabase
+      .from('notification_queue')
+      .select('id')
+      .eq('digest', digest)
+      .or(`and(status.eq.pending,scheduled_at.lte.${now.toISOString()}),and(status.eq.sending,updated_at.lte.${staleBefore.toISOString()})`)
+      .order('priority_rank', { ascending: true })
+      .order('scheduled_at', { ascending: true })
+      .limit(limit)
+
+    if (selectError) {
+      throw new Error(`Failed to find due notifications: ${selectError.message}`)
+    }
+
+    const ids = (candidates || []).map(row => row.id)
+    if (ids.length === 0) return []
+
+    // Conditional update: another instance claiming the same rows gets none back
+    const { data, error } = await this.supabase
+      .from('notification_queue')
+      .update({ status: 'sending', updated_at: now.toISOString() })
+      .in('id', ids)
+      .or(`status.eq.pending,and(status.eq.sending,updated_at.lte.${staleBefore.toISOString()})`)
+      .select('*')
+
+    if (error) {
+      throw new Error(`Failed to claim notifications: ${error.message}`)
+    }
+
+    return (data || []).map(fromRow)
+  }
+
+  async cancelByDedupeKeys(keys: string[], now: Date): Promise<number> {
+    if (keys.length === 0) return 0
+
+    const { data, error } = await this.supabase
+      .from('notification_queue')
+      .update({ status: 'cancelled', updated_at: now.toISOString() })
+      .in('dedupe_key', keys)
+      .eq('status', 'pending')
+      .select('id')
+
+    if (error) {
+      throw new Error(`Failed to cancel queued notifications: ${error.message}`)
+    }
+
+    return (data || []).length
+  }
+}
+
+/**
+ * Pick the Supabase-backed store when credentials are configured,
+ * otherwise fall back to the in-memory store.
+ */
+export function createNotificationQueueStore(supabase: SupabaseClient | null = getSupabaseClient()): NotificationQueueStore {
+  return supabase ? new SupabaseNotificationQueueStore(supabase) : new InMemoryNotificationQueueStore()
+}
+
+export default createNotificationQueueStore
@@ -0,0 +1,465 @@
+/**
+ * Organizer Service
+ * Organizer profiles and the verified badge. Organizers apply for
+ * verification with evidence of their community work; a moderator approves
+ * or rejects the application, and can later revoke the badge. Verified
+ * organizers hold the platform organizer role.
+ *
+ * An event's owner brings in collaborators with a role scoped to what they
+ * need: co-hosts edit and run the event, check-in volunteers work the door and
+ * analysts see the numbers. Collaborators are invited and only join once they
+ * accept.
+ */
+
+import { randomUUID } from 'crypto'
+import { parseOccurrenceId } from '../lib/recurrence.js'
+import { Page } from './GroupStore.js'
+import {
+  Collaborator,
+  CollaboratorRole,
+  EVIDENCE_TYPES,
+  EvidenceType,
+  OrganizerProfile,
+  OrganizerStore,
+  VerificationEvidence,
+  VerificationRequest,
+  VerificationStatus,
+  createOrganizerStore
+} from './OrganizerStore.js'
+
+export const MAX_EVIDENCE_ITEMS = 10
+
+export type EventPermission = 'edit' | 'manage_rsvps' | 'check_in' | 'view_analytics'
+
+export const ROLE_PERMISSIONS: Record<CollaboratorRole, EventPermission[]> = {
+  owner: ['edit', 'manage_rsvps', 'check_in', 'view_analytics'],
+  co_host: ['edit', 'manage_rsvps', 'check_in', 'view_analytics'],
+  check_in: ['check_in'],
+  analyst: ['view_analytics']
+}
+
+// Roles an owner can hand out; there is one owner per event
+export const INVITABLE_ROLES: CollaboratorRole[] = ['co_host', 'check_in', 'analyst']
+
+export class OrganizerError extends Error {
+  constructor(message: string, public readonly status: 400 | 403 | 404 | 409 = 400) {
+    super(message)
+    this.name = 'OrganizerError'
+  }
+}
+
+export interface ProfileInput {
+  displayName?: string
+  bio?: string
+  avatarUrl?: string
+  websiteUrl?: string
+  socialLinks?: Record<string, string>
+  // Admin only
+  canCreateEvents?: boolean
+  canFeatureEvents?: boolean
+  canModerate?: boolean
+  maxEventsPerMonth?: number
+}
+
+const ADMIN_FIELDS: (keyof ProfileInput)[] = ['canCreateEvents', 'canFeatureEvents', 'canModerate', 'maxEventsPerMonth']
+
+export class OrganizerService {
+  constructor(private store: OrganizerStore = createOrganizerStore()) {}
+
+  get backend() {
+    return this.store.backend
+  }
+
+  // ============================================
+  // Profiles
+  // ============================================
+
+  /** The user's profile, or the defaults a new organizer starts with */
+  async getProfile(userId: string, now: Date = new Date()): Promise<OrganizerProfile> {
+    return (await this.store.getProfile(userId)) || this.defaultProfile(userId, now)
+  }
+
+  /** Organizers edit their own details; only admins change permissions and limits */
+  async updateProfile(userId: string, changes: ProfileInput, asAdmin: boolean, now: Date = new Date()): Promise<OrganizerProfile> {
+    if (!asAdmin && ADMIN_FIELDS.some(field => changes[field] !== undefined)) {
+      throw new OrganizerError('Only admins can change organizer permissions', 403)
+    }
+
+    const profile = await this.getProfile(userId, now)
+
+    if (changes.displayName !== undefined) {
+      if (!String(changes.displayName).trim()) throw new OrganizerError('displayName is required')
+      profile.displayName = String(changes.displayName).trim().slice(0, 100)
+    }
+    if (changes.bio !== undefined) profile.bio = changes.bio ? String(changes.bio).slice(0, 2000) : undefined
+    if (changes.avatarUrl !== undefined) profile.avatarUrl = changes.avatarUrl ? this.requireUrl(changes.avatarUrl, 'avatarUrl') : undefined
+    if (changes.websiteUrl !== undefined) profile.websiteUrl = changes.websiteUrl ? this.requireUrl(changes.websiteUrl, 'websiteUrl') : undefined
+    if (changes.socialLinks !== undefined) {
+      if (typeof changes.socialLinks !== 'object' || changes.socialLinks === null || Array.isArray(changes.socialLinks)) {
+        throw new OrganizerError('socialLinks must be an object of platform to URL')
+      }
+      profile.socialLinks = Object.fromEntries(
+        Object.entries(changes.socialLinks).map(([platform, url]) => [platform, this.requireUrl(url, `socialLinks.${platform}`)])
+      )
+    }
+    if (changes.canCreateEvents !== undefined) profile.canCreateEvents = !!changes.canCreateEvents
+    if (changes.canFeatureEvents !== undefined) profile.canFeatureEvents = !!changes.canFeatureEvents
+    if (changes.canModerate !== undefined) profile.canModerate = !!changes.canModerate
+    if (changes.maxEventsPerMonth !== undefined) {
+      const max = Number(changes.maxEventsPerMonth)
+      if (!Number.isInteger(max) || max < 0) throw new OrganizerError('maxEventsPerMonth must be a whole number')
+      profile.maxEventsPerMonth = max
+    }
+    profile.updatedAt = now
+
+    await this.store.saveProfile(profile)
+    console.log(`📝 [Organizer] Profile updated: ${userId}`)
+    return profile
+  }
+
+  // ============================================
+  // Verification
+  // ============================================
+
+  async applyForVerification(
+    userId: string,
+    input: { evidence?: unknown; notes?: string },
+    now: Date = new Date()
+  ): Promise<VerificationRequest> {
+    const profile = await this.getProfile(userId, now)
+    if (profile.isVerified) {
+      throw new OrganizerError('You are already a verified organizer', 409)
+    }
+
+    const request: VerificationRequest = {
+      id: randomUUID(),
+      userId,
+      evidence: this.requireEvidence(input.evidence),
+      notes: input.notes ? String(input.notes).slice(0, 2000) : undefined,
+      status: 'pending',
+      createdAt: now
+    }
+    if (!(await this.store.createVerification(request))) {
+      throw new OrganizerError('You already have a verification request waiting for review', 409)
+    }
+
+    // An application makes the organizer's profile real, if it wasn't already
+    if (!(await this.store.getProfile(userId))) {
+      await this.store.saveProfile(profile)
+    }
+
+    console.log(`🔍 [Organizer] Verification requested: ${userId}`)
+    return request
+  }
+
+  /** The user's most recent application and whether they hold the badge */
+  async verificationStatus(userId: string): Promise<{ isVerified: boolean; request: VerificationRequest | null }> {
+    const [profile, request] = await Promise.all([this.store.getProfile(userId), this.store.getLatestVerification(userId)])
+    return { isVerified: !!profile?.isVerified, request }
+  }
+
+  listVerifications(query: { status?: VerificationStatus; limit?: number; offset?: number } = {}): Promise<Page<VerificationRequest>> {
+    return this.store.listVerifications({
+      status: query.status,
+      limit: Math.min(query.limit || 50, 100),
+      offset: query.offset || 0
+    })
+  }
+
+  async reviewVerification(
+    requestId: string,
+    decision: 'approve' | 'reject',
+    reviewerId: string,
+    notes?: string,
+    now: Date = new Date()
+  ): Promise<VerificationRequest> {
+    const request = await this.store.getVerification(requestId)
+    if (!request) {
+      throw new OrganizerError('Verification request not found', 404)
+    }
+    if (request.status !== 'pending') {
+      throw new OrganizerError(`This request was already ${request.status}`, 409)
+    }
+    if (request.userId === reviewerId) {
+      throw new OrganizerError('You can\'t review your own verification request', 403)
+    }
+
+    Object.assign(request, {
+      status: decision === 'approve' ? 'approved' : 'rejected',
+      reviewedBy: reviewerId,
+      reviewedAt: now,
+      reviewNotes: notes || undefined
+    })
+    await this.store.updateVerification(request)
+
+    if (decision === 'approve') {
+      const profile = await this.getProfile(request.userId, now)
+      Object.assign(profile, { isVerified: true, verifiedAt: now, verifiedBy: reviewerId, verificationNotes: notes || undefined, updatedAt: now })
+      await this.store.saveProfile(profile)
+      await this.store.setOrganizerRole(request.userId, true, reviewerId)
+    }
+
+    console.log(`${decision === 'approve' ? '✅' : '❌'} [Organizer] Verification ${request.status}: ${request.userId}`)
+    return request
+  }
+
+  /** Take the badge and the organizer role away from a verified organizer */
+  async revokeVerification(userId: string, moderatorId: string, reason: string | undefined, now: Date = new Date()): Promise<OrganizerProfile> {
+    if (!reason || !String(reason).trim()) {
+      throw new OrganizerError('A reason is required to revoke verification')
+    }
+    const profile = await this.store.getProfile(userId)
+    if (!profile?.isVerified) {
+      throw new OrganizerError('This organizer isn\'t verified', 404)
+    }
+
+    Object.assign(profile, { isVerified: false, verifiedAt: undefined, verifiedBy: undefined, verificationNotes: undefined, updatedAt: now })
+    await this.store.saveProfile(profile)
+    await this.store.setOrganizerRole(userId, false)
+
+    const request = await this.store.getLatestVerification(userId)
+    if (request?.status === 'approved') {
+      Object.assign(request, { status: 'revoked', revokedBy: moderatorId, revokedAt: now, revocationReason: String(reason).trim() })
+      await this.store.updateVerification(request)
+    }
+
+    console.log(`🚫 [Organizer] Verification revoked: ${userId}`)
+    return profile
+  }
+
+  // ============================================
+  // Collaborators
+  // ============================================
+
+  /** The event's team, for anyone on it */
+  async listCollaborators(eventId: string, actorId: string): Promise<Collaborator[]> {
+    const seriesId = this.seriesOf(eventId)
+    await this.requireTeamMember(seriesId, actorId)
+    return this.store.listCollaborators(seriesId)
+  }
+
+  /** Owners invite people by user id; the invitation waits for them to accept */
+  async invite(
+    eventId: string,
+    actorId: string,
+    input: { userId?: string; email?: string; role?: string },
+    now: Date = new Date()
+  ): Promise<Collaborator> {
+    const seriesId = this.seriesOf(eventId)
+    await this.requireOwner(seriesId, actorId)
+
+    if (!input.userId) {
+      throw new OrganizerError('userId is required')
+    }
+    const role = (input.role || 'co_host') as CollaboratorRole
+    if (!INVITABLE_ROLES.includes(role)) {
+      throw new OrganizerError(`role must be one of: ${INVITABLE_ROLES.join(', ')}`)
+    }
+    if (input.userId === actorId) {
+      throw new OrganizerError('You already run this event')
+    }
+
+    const existing = await this.store.findCollaborator(seriesId, input.userId)
+    if (existing?.status === 'active') {
+      throw new OrganizerError('Already a collaborator on this event', 409)
+    }
+
+    // Asking again after a decline, or changing a pending invitation's role, reuses the row
+    const collaborator: Collaborator = {
+      id: existing?.id || randomUUID(),
+      eventId: seriesId,
+      userId: input.userId,
+      email: input.email || existing?.email,
+      role,
+      status: 'invited',
+      invitedBy: actorId,
+      createdAt: now
+    }
+    await this.store.saveCollaborator(collaborator)
+
+    console.log(`👥 [Organizer] Collaborator invited: ${collaborator.userId} to ${seriesId} as ${role}`)
+    return collaborator
+  }
+
+  listInvitations(userId: string): Promise<Collaborator[]> {
+    return this.store.listInvitations(userId)
+  }
+
+  async respondToInvitation(collaboratorId: string, userId: string, accept: boolean, now: Date = new Date()): Promise<Collaborator> {
+    const collaborator = await this.store.getCollaborator(collaboratorId)
+    if (!collaborator || collaborator.userId !== userId || collaborator.status !== 'invited') {
+      throw new OrganizerError('Invitation not found', 404)
+    }
+
+    collaborator.status = accept ? 'active' : 'declined'
+    collaborator.acceptedAt = accept ? now : undefined
+    await this.store.saveCollaborator(collaborator)
+    return collaborator
+  }
+
+  async changeRole(eventId: string, collaboratorId: string, role: string, actorId: string): Promise<Collaborator> {
+    const seriesId = this.seriesOf(eventId)
+    await this.requireOwner(seriesId, actorId)
+    const collaborator = await this.requireCollaborator(seriesId, collaboratorId)
+
+    if (!INVITABLE_ROLES.includes(role as CollaboratorRole)) {
+      throw new OrganizerError(`role must be one of: ${INVITABLE_ROLES.join(', ')}`)
+    }
+    if (collaborator.role === 'owner') {
+      throw new OrganizerError('The event owner\'s role can\'t be changed', 403)
+    }
+
+    collaborator.role = role as CollaboratorRole
+    await this.store.saveCollaborator(collaborator)
+    return collaborator
+  }
+
+  /** Owners remove anyone else; collaborators can step down themselves */
+  async removeCollaborator(eventId: string, collaboratorId: string, actorId: string): Promise<void> {
+    const seriesId = this.seriesOf(eventId)
+    const collaborator = await this.requireCollaborator(seriesId, collaboratorId)
+
+    if (collaborator.role === 'owner') {
+      throw new OrganizerError('The event owner can\'t be removed', 403)
+    }
+    if (collaborator.userId !== actorId) {
+      await this.requireOwner(seriesId, actorId)
+    }
+
+    await this.store.deleteCollaborator(collaborator.id)
+    console.log(`👥 [Organizer] Collaborator removed: ${collaborator.userId} from ${seriesId}`)
+  }
+
+  /** Whether the user may do `permission` for the event (or any occurrence of it) */
+  async can(eventId: string, userId: string | undefined, permission: EventPermission): Promise<boolean> {
+    if (!userId) return false
+    const role = await this.roleOn(this.seriesOf(eventId), userId)
+    return !!role && ROLE_PERMISSIONS[role].includes(permission)
+  }
+
+  async requirePermission(eventId: string, userId: string | undefined, permission: EventPermission): Promise<void> {
+    if (!(await this.can(eventId, userId, permission))) {
+      throw new OrganizerError('You don\'t have permission to do that for this event', 403)
+    }
+  }
+
+  // ============================================
+  // Helpers
+  // ============================================
+
+  /**
+   * The user's active role on the event. Whoever submitted the event becomes
+   * its owner the first time it is asked.
+   */
+  private async roleOn(seriesId: string, userId: string, now: Date = new Date()): Promise<CollaboratorRole | null> {
+    const collaborator = await this.store.findCollaborator(seriesId, userId)
+    if (collaborator?.status === 'active') return collaborator.role
+
+    if (!collaborator && (await this.store.getEventSubmitter(seriesId)) === userId) {
+      await this.store.saveCollaborator({
+        id: randomUUID(),
+        eventId: seriesId,
+        userId,
+        role: 'owner',
+        status: 'active',
+        acceptedAt: now,
+        createdAt: now
+      })
+      return 'owner'
+    }
+    return null
+  }
+
+  private async requireTeamMember(seriesId: string, userId: string): Promise<CollaboratorRole> {
+    const role = await this.roleOn(seriesId, userId)
+    if (!role) {
+      throw new OrganizerError('Only the event\'s organizers can do that', 403)
+    }
+    return role
+  }
+
+  private async requireOwner(seriesId: string, userId: string): Promise<void> {
+    if ((await this.requireTeamMember(seriesId, userId)) !== 'owner') {
+      throw new OrganizerError('Only the event owner can manage collaborators', 403)
+    }
+  }
+
+  private async requireCollaborator(seriesId: string, collaboratorId: string): Promise<Collaborator> {
+    const collaborator = await this.store.getCollaborator(collaboratorId)
+    if (!collaborator || collaborator.eventId !== seriesId) {
+      throw new OrganizerError('Collaborator not found', 404)
+    }
+    return collaborator
+  }
+
+  // A team runs the whole series; permissions on one date come from it
+  private seriesOf(eventId: string): string {
+    return parseOccurrenceId(eventId).eventId
+  }
+
+  private requireEvidence(evidence: unknown): VerificationEvidence[] {
+    const items = Array.isArray(evidence) ? evidence : []
+    if (items.length === 0) {
+      throw new OrganizerError('At least one piece of evidence is required')
+    }
+    if (items.length > MAX_EVIDENCE_ITEMS) {
+      throw new OrganizerError(`At most ${MAX_EVIDENCE_ITEMS} pieces of evidence`)
+    }
+
+    return items.map((item: any) => {
+      if (!EVIDENCE_TYPES.includes(item?.type)) {
+        throw new OrganizerError(`evidence type must be one of: ${EVIDENCE_TYPES.join(', ')}`)
+      }
+      if (!item.url && !item.description) {
+        throw new OrganizerError('Each piece of evidence needs a url or a description')
+      }
+      return {
+        type: item.type as EvidenceType,
+        url: item.url ? this.requireUrl(item.url, 'evidence url') : undefined,
+        description: item.description ? String(item.description).slice(0, 1000) : undefined
+      }
+    })
+  }
+
+  private requireUrl(value: unknown, field: string): string {
+    try {
+      const url = new URL(String(value))
+      if (url.protocol === 'https:' || url.protocol === 'http:') return url.toString()
+    } catch {
+      // Falls through to the error below
+    }
+    throw new OrganizerError(`${field} must be an http(s) URL`)
+  }
+
+  private defaultProfile(userId: string, now: Date): OrganizerProfile {
+    return {
+      id: randomUUID(),
+      userId,
+      displayName: 'New Organizer',
+      socialLinks: {},
+      isVerified: false,
+      canCreateEvents: true,
+      canFeatureEvents: false,
+      canModerate: false,
+      maxEventsPerMonth: 10,
+      totalEvents: 0,
+      totalAttendees: 0,
+      averageRating: 0,
+      liberationScore: 50,
+      communityImpactScore: 50,
+      createdAt: now,
+      updatedAt: now
+    }
+  }
+}
+
+let organizerService: OrganizerService | null = null
+
+export function getOrganizerService(): OrganizerService {
+  if (!organizerService) {
+    organizerService = new OrganizerService()
+  }
+  return organizerService
+}
+
+export default OrganizerService
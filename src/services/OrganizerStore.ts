@@ -0,0 +1,526 @@
+/**
+ * Organizer Store
+ * Organizer profiles, verification applications and the people each event's
+ * owner has brought in to help run it.
+ *
+ * Backends:
+ * - SupabaseOrganizerStore: event_organizers, organizer_verifications,
+ *   event_collaborators and user_roles tables (production)
+ * - InMemoryOrganizerStore: process-local stand-in (tests, demo mode)
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js'
+import { getSupabaseClient } from '../lib/supabaseClient.js'
+import { Page } from './GroupStore.js'
+
+export interface OrganizerProfile {
+  id: string
+  userId: string
+  displayName: string
+  bio?: string
+  avatarUrl?: string
+  websiteUrl?: string
+  socialLinks: Record<string, string>
+  isVerified: boolean
+  verifiedAt?: Date
+  verifiedBy?: string
+  verificationNotes?: string
+  canCreateEvents: boolean
+  canFeatureEvents: boolean
+  canModerate: boolean
+  maxEventsPerMonth: number
+  totalEvents: number
+  totalAttendees: number
+  averageRating: number
+  liberationScore: number
+  communityImpactScore: number
+  createdAt: Date
+  updatedAt: Date
+}
+
+export const EVIDENCE_TYPES = ['website', 'social', 'past_event', 'press', 'reference', 'other'] as const
+
+export type EvidenceType = typeof EVIDENCE_TYPES[number]
+
+export interface VerificationEvidence {
+  type: EvidenceType
+  url?: string
+  description?: string
+}
+
+// revoked: approved once, then withdrawn by a moderator
+export type VerificationStatus = 'pending' | 'approved' | 'rejected' | 'revoked'
+
+export const VERIFICATION_STATUSES: VerificationStatus[] = ['pending', 'approved', 'rejected', 'revoked']
+
+export interface VerificationRequest {
+  id: string
+  userId: string
+  evidence: VerificationEvidence[]
+  notes?: string
+  status: VerificationStatus
+  reviewedBy?: string
+  reviewedAt?: Date
+  reviewNotes?: string
+  revokedBy?: string
+  revokedAt?: Date
+  revocationReason?: string
+  createdAt: Date
+}
+
+// owner: the event's organizer; co_host: edits and runs the event with them;
+// check_in: door volunteers; analyst: sees the numbers
+export type CollaboratorRole = 'owner' | 'co_host' | 'check_in' | 'analyst'
+
+export type CollaboratorStatus = 'invited' | 'active' | 'declined'
+
+export interface Collaborator {
+  id: string
+  eventId: string
+  userId: string
+  email?: string
+  role: CollaboratorRole
+  status: CollaboratorStatus
+  invitedBy?: string
+  acceptedAt?: Date
+  createdAt: Date
+}
+
+export interface OrganizerStore {
+  readonly backend: 'supabase' | 'memory'
+
+  getProfile(userId: string): Promise<OrganizerProfile | null>
+
+  /** Insert or update a profile */
+  saveProfile(profile: OrganizerProfile): Promise<void>
+
+  /** Insert an application; false when the user already has one pending */
+  createVerification(request: VerificationRequest): Promise<boolean>
+
+  getVerification(requestId: string): Promise<VerificationRequest | null>
+
+  /** The user's most recent application */
+  getLatestVerification(userId: string): Promise<VerificationRequest | null>
+
+  updateVerification(request: VerificationRequest): Promise<void>
+
+  /** Oldest first, so the queue is worked in order */
+  listVerifications(query: { status?: VerificationStatus; limit: number; offset: number }): Promise<Page<VerificationRequest>>
+
+  /** Grant or take away the platform organizer role */
+  setOrganizerRole(userId: string, granted: boolean, grantedBy?: string): Promise<void>
+
+  getCollaborator(collaboratorId: string): Promise<Collaborator | null>
+
+  findCollaborator(eventId: string, userId: string): Promise<Collaborator | null>
+
+  /** Insert or update a collaborator */
+  saveCollaborator(collaborator: Collaborator): Promise<void>
+
+  deleteCollaborator(collaboratorId: string): Promise<void>
+
+  /** Everyone invited to or helping with the event, owner first */
+  listCollaborators(eventId: string): Promise<Collaborator[]>
+
+  /** Invitations waiting for the user's answer, newest first */
+  listInvitations(userId: string): Promise<Collaborator[]>
+
+  /** Who submitted the event, if it was submitted signed in */
+  getEventSubmitter(eventId: string): Promise<string | null>
+}
+
+const ROLE_ORDER: Record<CollaboratorRole, number> = { owner: 0, co_host: 1, check_in: 2, analyst: 3 }
+
+function byRoleThenAge(a: Collaborator, b: Collaborator): number {
+  return ROLE_ORDER[a.role] - ROLE_ORDER[b.role] || a.createdAt.getTime() - b.createdAt.getTime()
+}
+
+export class InMemoryOrganizerStore implements OrganizerStore {
+  readonly backend = 'memory' as const
+  private profiles = new Map<string, OrganizerProfile>()
+  private verifications = new Map<string, VerificationRequest>()
+  private collaborators = new Map<string, Collaborator>()
+  readonly organizerRoles = new Set<string>()
+
+  // Demo and test events have no submitter unless given one here
+  constructor(private submitters: Map<string, string> = new Map()) {}
+
+  async getProfile(userId: string): Promise<OrganizerProfile | null> {
+    const profile = this.profiles.get(userId)
+    return profile ? { ...profile, socialLinks: { ...profile.socialLinks } } : null
+  }
+
+  async saveProfile(profile: OrganizerProfile): Promise<void> {
+    this.profiles.set(profile.userId, { ...profile, socialLinks: { ...profile.socialLinks } })
+  }
+
+  async createVerification(request: VerificationRequest): Promise<boolean> {
+    if ([...this.verifications.values()].some(r => r.userId === request.userId && r.status === 'pending')) return false
+    this.verifications.set(request.id, { ...request })
+    return true
+  }
+
+  async getVerification(requestId: string): Promise<VerificationRequest | null> {
+    const request = this.verifications.get(requestId)
+    return request ? { ...request } : null
+  }
+
+  async getLatestVerification(userId: string): Promise<VerificationRequest | null> {
+    const [latest] = [...this.verifications.values()]
+      .filter(r => r.userId === userId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+    return latest ? { ...latest } : null
+  }
+
+  async updateVerification(request: VerificationRequest): Promise<void> {
+    this.verifications.set(request.id, { ...request })
+  }
+
+  async listVerifications(query: { status?: VerificationStatus; limit: number; offset: number }): Promise<Page<VerificationRequest>> {
+    const matching = [...this.verifications.values()]
+      .filter(r => !query.status || r.status === query.status)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+    return { items: matching.slice(query.offset, query.offset + query.limit).map(r => ({ ...r })), total: matching.length }
+  }
+
+  async setOrganizerRole(userId: string, granted: boolean): Promise<void> {
+    if (granted) this.organizerRoles.add(userId)
+    else this.organizerRoles.delete(userId)
+  }
+
+  async getCollaborator(collaboratorId: string): Promise<Collaborator | null> {
+    const collaborator = this.collaborators.get(collaboratorId)
+    return collaborator ? { ...collaborator } : null
+  }
+
+  async findCollaborator(eventId: string, userId: string): Promise<Collaborator | null> {
+    const collaborator = [...this.collaborators.values()].find(c => c.eventId === eventId && c.userId === userId)
+    return collaborator ? { ...collaborator } : null
+  }
+
+  async saveCollaborator(collaborator: Collaborator): Promise<void> {
+    this.collaborators.set(collaborator.id, { ...collaborator })
+  }
+
+  async deleteCollaborator(collaboratorId: string): Promise<void> {
+    this.collaborators.delete(collaboratorId)
+  }
+
+  async listCollaborators(eventId: string): Promise<Collaborator[]> {
+    return [...this.collaborators.values()]
+      .filter(c => c.eventId === eventId)
+      .sort(byRoleThenAge)
+      .map(c => ({ ...c }))
+  }
+
+  async listInvitations(userId: string): Promise<Collaborator[]> {
+    return [...this.collaborators.values()]
+      .filter(c => c.userId === userId && c.status === 'invited')
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .map(c => ({ ...c }))
+  }
+
+  async getEventSubmitter(eventId: string): Promise<string | null> {
+    return this.submitters.get(eventId) ?? null
+  }
+}
+
+function iso(date: Date | undefined): string | null {
+  return date ? date.toISOString() : null
+}
+
+function date(value: string | null): Date | undefined {
+  return value ? new Date(value) : undefined
+}
+
+function profileFromRow(row: any): OrganizerProfile {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    displayName: row.display_name,
+    bio: row.bio ?? undefined,
+    avatarUrl: row.avatar_url ?? undefined,
+    websiteUrl: row.website_url ?? undefined,
+    socialLinks: row.social_links || {},
+    isVerified: !!row.is_verified,
+    verifiedAt: date(row.verified_at),
+    verifiedBy: row.verified_by ?? undefined,
+    verificationNotes: row.verification_notes ?? undefined,
+    canCreateEvents: row.can_create_events ?? true,
+    canFeatureEvents: !!row.can_feature_events,
+    canModerate: !!row.can_moderate,
+    maxEventsPerMonth: row.max_events_per_month ?? 10,
+    totalEvents: row.total_events ?? 0,
+    totalAttendees: row.total_attendees ?? 0,
+    averageRating: Number(row.average_rating ?? 0),
+    liberationScore: row.liberation_score ?? 50,
+    communityImpactScore: row.community_impact_score ?? 50,
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at)
+  }
+}
+
+function verificationFromRow(row: any): VerificationRequest {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    evidence: row.evidence || [],
+    notes: row.notes ?? undefined,
+    status: row.status,
+    reviewedBy: row.reviewed_by ?? undefined,
+    reviewedAt: date(row.reviewed_at),
+    reviewNotes: row.review_notes ?? undefined,
+    revokedBy: row.revoked_by ?? undefined,
+    revokedAt: date(row.revoked_at),
+    revocationReason: row.revocation_reason ?? undefined,
+    createdAt: new Date(row.created_at)
+  }
+}
+
+function verificationToRow(request: VerificationRequest) {
+  return {
+    id: request.id,
+    user_id: request.userId,
+    evidence: request.evidence,
+    notes: request.notes ?? null,
+    status: request.status,
+    reviewed_by: request.reviewedBy ?? null,
+    reviewed_at: iso(request.reviewedAt),
+    review_notes: request.reviewNotes ?? null,
+    revoked_by: request.revokedBy ?? null,
+    revoked_at: iso(request.revokedAt),
+    revocation_reason: request.revocationReason ?? null,
+    created_at: request.createdAt.toISOString()
+  }
+}
+
+function collaboratorFromRow(row: any): Collaborator {
+  return {
+    id: row.id,
+    eventId: row.event_id,
+    userId: row.user_id,
+    email: row.email ?? undefined,
+    role: row.role,
+    status: row.status,
+    invitedBy: row.invited_by ?? undefined,
+    acceptedAt: date(row.accepted_at),
+    createdAt: new Date(row.created_at)
+  }
+}
+
+export class SupabaseOrganizerStore implements OrganizerStore {
+  readonly backend = 'supabase' as const
+
+  constructor(private supabase: SupabaseClient) {}
+
+  async getProfile(userId: string): Promise<OrganizerProfile | null> {
+    const { data, error } = await this.supabase.from('event_organizers').select('*').eq('user_id', userId).maybeSingle()
+
+    if (error) {
+      throw new Error(`Failed to fetch organizer profile: ${error.message}`)
+    }
+
+    return data ? profileFromRow(data) : null
+  }
+
+  async saveProfile(profile: OrganizerProfile): Promise<void> {
+    // total_events and the other stats are kept by database triggers
+    const { error } = await this.supabase.from('event_organizers').upsert({
+      id: profile.id,
+      user_id: profile.userId,
+      display_name: profile.displayName,
+      bio: profile.bio ?? null,
+      avatar_url: profile.avatarUrl ?? null,
+      website_url: profile.websiteUrl ?? null,
+      social_links: profile.socialLinks,
+      is_verified: profile.isVerified,
+      verified_at: iso(profile.verifiedAt),
+      verified_by: profile.verifiedBy ?? null,
+      verification_notes: profile.verificationNotes ?? null,
+      can_create_events: profile.canCreateEvents,
+      can_feature_events: profile.canFeatureEvents,
+      can_moderate: profile.canModerate,
+      max_events_per_month: profile.maxEventsPerMonth,
+      created_at: profile.createdAt.toISOString(),
+      updated_at: profile.updatedAt.toISOString()
+    }, { onConflict: 'user_id' })
+
+    if (error) {
+      throw new Error(`Failed to save organizer profile: ${error.message}`)
+    }
+  }
+
+  async createVerification(request: VerificationRequest): Promise<boolean> {
+    const { error } = await this.supabase.from('organizer_verifications').insert(verificationToRow(request))
+
+    if (error) {
+      // One pending application per user (partial unique index)
+      if (error.code === '23505') return false
+      throw new Error(`Failed to save verification request: ${error.message}`)
+    }
+    return true
+  }
+
+  async getVerification(requestId: string): Promise<VerificationRequest | null> {
+    const { data, error } = await this.supabase.from('organizer_verifications').select('*').eq('id', requestId).maybeSingle()
+
+    if (error) {
+      throw new Error(`Failed to fetch verification request: ${error.message}`)
+    }
+
+    return data ? verificationFromRow(data) : null
+  }
+
+  async getLatestVerification(userId: string): Promise<VerificationRequest | null> {
+    const { data, error } = await this.supabase
+      .from('organizer_verifications')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Failed to fetch verification request: ${error.message}`)
+    }
+
+    return data ? verificationFromRow(data) : null
+  }
+
+  async updateVerification(request: VerificationRequest): Promise<void> {
+    const { error } = await this.supabase
+      .from('organizer_verifications')
+      .update(verificationToRow(request))
+      .eq('id', request.id)
+
+    if (error) {
+      throw new Error(`Failed to update verification request: ${error.message}`)
+    }
+  }
+
+  async listVerifications(query: { status?: VerificationStatus; limit: number; offset: number }): Promise<Page<VerificationRequest>> {
+    let request = this.supabase
+      .from('organizer_verifications')
+      .select('*', { count: 'exact' })
+      .order('created_at', { ascending: true })
+      .range(query.offset, query.offset + query.limit - 1)
+
+    if (query.status) request = request.eq('status', query.status)
+
+    const { data, count, error } = await request
+
+    if (error) {
+      throw new Error(`Failed to list verification requests: ${error.message}`)
+    }
+
+    return { items: (data || []).map(verificationFromRow), total: count ?? 0 }
+  }
+
+  async setOrganizerRole(userId: string, granted: boolean, grantedBy?: string): Promise<void> {
+    const { error } = granted
+      ? await this.supabase
+        .from('user_roles')
+        .upsert({ user_id: userId, role: 'organizer', granted_by: grantedBy ?? null }, { onConflict: 'user_id,role', ignoreDuplicates: true })
+      : await this.supabase.from('user_roles').delete().eq('user_id', userId).eq('role', 'organizer')
+
+    if (error) {
+      throw new Error(`Failed to update organizer role: ${error.message}`)
+    }
+  }
+
+  async getCollaborator(collaboratorId: string): Promise<Collaborator | null> {
+    const { data, error } = await this.supabase.from('event_collaborators').select('*').eq('id', collaboratorId).maybeSingle()
+
+    if (error) {
+      throw new Error(`Failed to fetch collaborator: ${error.message}`)
+    }
+
+    return data ? collaboratorFromRow(data) : null
+  }
+
+  async findCollaborator(eventId: string, userId: string): Promise<Collaborator | null> {
+    const { data, error } = await this.supabase
+      .from('event_collaborators')
+      .select('*')
+      .eq('event_id', eventId)
+      .eq('user_id', userId)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Failed to fetch collaborator: ${error.message}`)
+    }
+
+    return data ? collaboratorFromRow(data) : null
+  }
+
+  async saveCollaborator(collaborator: Collaborator): Promise<void> {
+    const { error } = await this.supabase.from('event_collaborators').upsert({
+      id: collaborator.id,
+      event_id: collaborator.eventId,
+      user_id: collaborator.userId,
+      email: collaborator.email ?? null,
+      role: collaborator.role,
+      status: collaborator.status,
+      invited_by: collaborator.invitedBy ?? null,
+      accepted_at: iso(collaborator.acceptedAt),
+      created_at: collaborator.createdAt.toISOString()
+    }, { onConflict: 'id' })
+
+    if (error) {
+      throw new Error(`Failed to save collaborator: ${error.message}`)
+    }
+  }
+
+  async deleteCollaborator(collaboratorId: string): Promise<void> {
+    const { error } = await this.supabase.from('event_collaborators').delete().eq('id', collaboratorId)
+
+    if (error) {
+      throw new Error(`Failed to remove collaborator: ${error.message}`)
+    }
+  }
+
+  async listCollaborators(eventId: string): Promise<Collaborator[]> {
+    const { data, error } = await this.supabase.from('event_collaborators').select('*').eq('event_id', eventId)
+
+    if (error) {
+      throw new Error(`Failed to list collaborators: ${error.message}`)
+    }
+
+    return (data || []).map(collaboratorFromRow).sort(byRoleThenAge)
+  }
+
+  async listInvitations(userId: string): Promise<Collaborator[]> {
+    const { data, error } = await this.supabase
+      .from('event_collaborators')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('status', 'invited')
+      .order('created_at', { ascending: false })
+
+    if (error) {
+      throw new Error(`Failed to list invitations: ${error.message}`)
+    }
+
+    return (data || []).map(collaboratorFromRow)
+  }
+
+  async getEventSubmitter(eventId: string): Promise<string | null> {
+    const { data, error } = await this.supabase.from('events').select('submitted_by').eq('id', eventId).maybeSingle()
+
+    if (error) {
+      throw new Error(`Failed to fetch event: ${error.message}`)
+    }
+
+    return data?.submitted_by ?? null
+  }
+}
+
+/**
+ * Pick the Supabase-backed store when credentials are configured,
+ * otherwise fall back to the in-memory store.
+ */
+export function createOrganizerStore(supabase: SupabaseClient | null = getSupabaseClient()): OrganizerStore {
+  return supabase ? new SupabaseOrganizerStore(supabase) : new InMemoryOrganizerStore()
+}
+
+export default createOrganizerStore
@@ -1,5 +1,8 @@
 import Stripe from 'stripe'
 import { createClient } from '@supabase/supabase-js'
+import { getEmailService } from './EmailService.js'
+import { createTicketToken } from '../lib/ticketTokens.js'
+import { trackEventMetric } from './AnalyticsService.js'
 
 // Initialize Stripe with UK configuration
 const stripe = new Stripe(process.env.STRIPE_SECRET_KEY || '', {
@@ -260,23 +263,60 @@ export class PaymentService {
     try {
       const { data: orderItems } = await supabase
         .from('shop_order_items')
-        .select('id, product_id, product_type, quantity')
+        .select('id, product_id, product_type, product_name, quantity, price_gbp, shop_products (event_id)')
         .eq('order_id', orderId)
         .eq('product_type', 'ticket')
 
       if (!orderItems || orderItems.length === 0) return
 
+      const tickets: { productName: string; ticketCode: string; quantity: number; ticketToken?: string }[] = []
       for (const item of orderItems) {
-        // Generate unique ticket codes (would integrate with QR code generation)
+        // Human-readable code for the organiser's list; the signed token is what gets scanned
         const ticketCode = `BLKOUT-${Date.now()}-${Math.random().toString(36).substring(7).toUpperCase()}`
+        const eventId: string | undefined = (item.shop_products as any)?.event_id
+        const ticketToken = eventId
+          ? createTicketToken({ ticketId: item.id, eventId, kind: 'ticket', admits: item.quantity || 1, issuedAt: new Date() })
+          : undefined
+
+        if (!eventId) {
+          console.warn(`Ticket product ${item.product_id} has no event - no QR ticket issued`)
+        }
 
         await supabase
           .from('shop_order_items')
           .update({
             ticket_code: ticketCode,
+            ticket_token: ticketToken || null,
+            event_id: eventId || null,
             fulfillment_status: 'digital_sent'
           })
           .eq('id', item.id)
+
+        if (eventId) {
+          await trackEventMetric(eventId, 'ticket_sale', {
+            actorKey: orderId,
+            quantity: item.quantity || 1,
+            amountPence: Math.round(parseFloat(item.price_gbp || '0') * 100) * (item.quantity || 1)
+          })
+        }
+
+        tickets.push({ productName: item.product_name || 'Event ticket', ticketCode, quantity: item.quantity || 1, ticketToken })
+      }
+
+      const { data: order } = await supabase
+        .from('shop_orders')
+        .select('order_number, customer_email, customer_name')
+        .eq('id', orderId)
+        .single()
+
+      if (order?.customer_email) {
+        await getEmailService().sendTicketDelivery({
+          to: order.customer_email,
+          name: order.customer_name,
+          orderId,
+          orderNumber: order.order_number,
+          tickets
+        })
       }
 
       console.log(`Processed ${orderItems.length} ticket deliveries for order ${orderId}`)
@@ -0,0 +1,333 @@
+/**
+ * Push Notification Service
+ * Web Push delivery for /api/notifications: subscription management, topic
+ * and quiet-hours filtering from each device's stored preferences, and
+ * batched delivery with bounded concurrency.
+ *
+ * Every send gets a notification_log entry up front; delivery then runs in
+ * the background, recording one result per subscription and pruning
+ * subscriptions the push service reports as gone (404/410).
+ *
+ * Users who turned push off, muted the topic or unsubscribed from everything
+ * (ChannelPreferenceStore, shared with email) are left out before sending.
+ */
+
+import {
+  WebPushOptions,
+  WebPushResponse,
+  WebPushSubscription,
+  MAX_PAYLOAD_BYTES,
+  getVapidDetails,
+  sendWebPush
+} from '../lib/webPush.js'
+import {
+  PushNotificationStore,
+  PushSubscriptionRecord,
+  NotificationPreferences,
+  NotificationDelivery,
+  NotificationCounts,
+  NotificationLogEntry,
+  QuietHours,
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  createPushNotificationStore
+} from './PushNotificationStore.js'
+import { ChannelPreferenceStore, createChannelPreferenceStore } from './ChannelPreferenceStore.js'
+
+// Push services rate-limit per sender; this keeps a community-wide send polite
+export const DEFAULT_DELIVERY_CONCURRENCY = 10
+const DELIVERY_LOG_BATCH = 500
+const DEFAULT_TIMEZONE = 'Europe/London'
+
+export type PushSender = (subscription: WebPushSubscription, payload: string, options: WebPushOptions) => Promise<WebPushResponse>
+
+export class NotificationError extends Error {
+  constructor(message: string, public readonly status: 400 | 404 | 409 = 400) {
+    super(message)
+    this.name = 'NotificationError'
+  }
+}
+
+export interface PushMessage {
+  title: string
+  body: string
+  icon?: string
+  badge?: string
+  url?: string
+  data?: Record<string, unknown>
+}
+
+export interface PushSendOptions {
+  // Preference key the message belongs to (events, news, community, reminders); others reach everyone
+  topic?: string
+  // Only these users' devices
+  userIds?: string[]
+  urgency?: WebPushOptions['urgency']
+  ttl?: number
+  // Safety alerts go out even during a device's quiet hours
+  ignoreQuietHours?: boolean
+}
+
+export interface PushDeliverySummary extends NotificationCounts {
+  notificationId: string
+  targeted: number
+}
+
+export interface QueuedNotification {
+  notificationId: string
+  targeted: number
+  // Resolves when every subscription has been tried
+  delivery: Promise<PushDeliverySummary>
+}
+
+function minutesOfDay(value: string): number | null {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value || '')
+  if (!match || Number(match[1]) > 23 || Number(match[2]) > 59) return null
+  return Number(match[1]) * 60 + Number(match[2])
+}
+
+/** Whether `now` falls inside a device's quiet hours, in its own timezone */
+export function isInQuietHours(quietHours: QuietHours | null | undefined, now: Date = new Date()): boolean {
+  if (!quietHours) return false
+  const start = minutesOfDay(quietHours.start)
+  const end = minutesOfDay(quietHours.end)
+  if (start === null || end === null || start === end) return false
+
+  let local: number
+  try {
+    const parts = new Intl.DateTimeFormat('en-GB', {
+      timeZone: quietHours.timezone || DEFAULT_TIMEZONE,
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23'
+    }).formatToParts(now)
+    local = Number(parts.find(p => p.type === 'hour')!.value) * 60 + Number(parts.find(p => p.type === 'minute')!.value)
+  } catch {
+    // Unknown timezone: don't hold messages back
+    return false
+  }
+
+  return start < end ? local >= start && local < end : local >= start || local < end
+}
+
+function defaultSender(): PushSender | null {
+  const vapid = getVapidDetails()
+  return vapid ? (subscription, payload, options) => sendWebPush(subscription, payload, vapid, options) : null
+}
+
+export class PushNotificationService {
+  constructor(
+    private store: PushNotificationStore = createPushNotificationStore(),
+    private sender: PushSender | null = defaultSender(),
+    private concurrency: number = DEFAULT_DELIVERY_CONCURRENCY,
+    private channels: ChannelPreferenceStore = createChannelPreferenceStore()
+  ) {}
+
+  get backend() {
+    return this.store.backend
+  }
+
+  /** False when VAPID keys are missing: sends are logged but nothing is delivered */
+  isConfigured(): boolean {
+    return this.sender !== null
+  }
+
+  async subscribe(input: { endpoint: string; p256dh: string; auth: string; userId?: string; preferences?: NotificationPreferences }) {
+    if (!input.endpoint || !input.p256dh || !input.auth) {
+      throw new NotificationError('Push subscription endpoint and keys required')
+    }
+    try {
+      new URL(input.endpoint)
+    } catch {
+      throw new NotificationError('Push subscription endpoint must be a URL')
+    }
+
+    const existing = await this.store.getSubscription(input.endpoint)
+    const now = new Date()
+    const subscription: PushSubscriptionRecord = {
+      userId: input.userId || existing?.userId || 'anonymous',
+      endpoint: input.endpoint,
+      p256dh: input.p256dh,
+      auth: input.auth,
+      preferences: input.preferences || existing?.preferences || { ...DEFAULT_NOTIFICATION_PREFERENCES },
+      createdAt: existing?.createdAt || now,
+      updatedAt: now
+    }
+    await this.store.saveSubscription(subscription)
+    return subscription
+  }
+
+  async unsubscribe(endpoint: string): Promise<boolean> {
+    return (await this.store.removeSubscriptions([endpoint])) > 0
+  }
+
+  async getPreferences(match: { endpoint?: string; userId?: string }): Promise<NotificationPreferences> {
+    const subscription = match.endpoint
+      ? await this.store.getSubscription(match.endpoint)
+      : (await this.store.listSubscriptions({ userIds: [match.userId!] }))[0]
+    return subscription?.preferences || { ...DEFAULT_NOTIFICATION_PREFERENCES }
+  }
+
+  async updatePreferences(match: { endpoint?: string; userId?: string }, preferences: NotificationPreferences) {
+    if (preferences.quietHours && (minutesOfDay(preferences.quietHours.start) === null || minutesOfDay(preferences.quietHours.end) === null)) {
+      throw new NotificationError('quietHours start and end must be HH:MM')
+    }
+    return this.store.updatePreferences(match, preferences)
+  }
+
+  /**
+   * Log the notification and start delivering it without waiting: the
+   * returned `delivery` promise settles once every device has been tried.
+   */
+  async queue(message: PushMessage, options: PushSendOptions = {}, now: Date = new Date()): Promise<QueuedNotification> {
+    const payload = this.buildPayload(message)
+    const blocked = new Set(await this.channels.listBlockedUserIds('push', options.topic))
+    const targets = (await this.store.listSubscriptions({ topic: options.topic, userIds: options.userIds }))
+      .filter(target => !blocked.has(target.userId))
+
+    const entry = await this.store.createLogEntry({
+      title: message.title,
+      body: message.body,
+      topic: options.topic || 'general',
+      sentCount: targets.length
+    })
+
+    const delivery = this.deliver(entry, targets, payload, options, now).catch(error => {
+      console.error(`[Notifications] Delivery of ${entry.id} failed:`, error)
+      return { notificationId: entry.id, targeted: targets.length, successCount: 0, failureCount: targets.length, prunedCount: 0, skippedCount: 0 }
+    })
+
+    return { notificationId: entry.id, targeted: targets.length, delivery }
+  }
+
+  /** Send and wait for every delivery (cron jobs, tests) */
+  async send(message: PushMessage, options: PushSendOptions = {}, now: Date = new Date()): Promise<PushDeliverySummary> {
+    return (await this.queue(message, options, now)).delivery
+  }
+
+  async getNotification(notificationId: string): Promise<{ notification: NotificationLogEntry; deliveries: NotificationDelivery[] }> {
+    const notification = await this.store.getLogEntry(notificationId)
+    if (!notification) {
+      throw new NotificationError('Notification not found', 404)
+    }
+    return { notification, deliveries: await this.store.getDeliveries(notificationId) }
+  }
+
+  async getStats() {
+    const recentNotifications = await this.store.recentLogEntries(10)
+    return {
+      totalSubscriptions: await this.store.countSubscriptions(),
+      notificationsSent: recentNotifications.reduce((sum, entry) => sum + entry.successCount, 0),
+      recentNotifications
+    }
+  }
+
+  private buildPayload(message: PushMessage): string {
+    if (!message.title || !message.body) {
+      throw new NotificationError('Title and body required')
+    }
+
+    const payload = JSON.stringify({
+      title: message.title,
+      body: message.body,
+      icon: message.icon || '/pwa-192x192.png',
+      badge: message.badge || '/favicon-32x32.png',
+      data: { url: message.url || '/', ...message.data }
+    })
+    if (Buffer.byteLength(payload) > MAX_PAYLOAD_BYTES) {
+      throw new NotificationError(`Notification is too large to push (limit ${MAX_PAYLOAD_BYTES} bytes)`)
+    }
+    return payload
+  }
+
+  private async deliver(
+    entry: NotificationLogEntry,
+    targets: PushSubscriptionRecord[],
+    payload: string,
+    options: PushSendOptions,
+    now: Date
+  ): Promise<PushDeliverySummary> {
+    const counts: NotificationCounts = { successCount: 0, failureCount: 0, prunedCount: 0, skippedCount: 0 }
+
+    if (!this.sender) {
+      console.warn(`[Notifications] Web Push not configured (VAPID keys missing) - ${targets.length} deliveries skipped`)
+      counts.skippedCount = targets.length
+      await this.store.completeLogEntry(entry.id, counts)
+      return { notificationId: entry.id, targeted: targets.length, ...counts }
+    }
+
+    const deliveries: NotificationDelivery[] = []
+    let next = 0
+    const worker = async () => {
+      while (next < targets.length) {
+        deliveries.push(await this.deliverOne(entry.id, targets[next++], payload, options, now))
+      }
+    }
+    await Promise.all(Array.from({ length: Math.min(this.concurrency, targets.length) }, worker))
+
+    for (const delivery of deliveries) {
+      if (delivery.status === 'sent') counts.successCount++
+      else if (delivery.status === 'failed') counts.failureCount++
+      else if (delivery.status === 'pruned') counts.prunedCount++
+      else counts.skippedCount++
+    }
+
+    const gone = deliveries.filter(d => d.status === 'pruned').map(d => d.endpoint)
+    await this.store.removeSubscriptions(gone)
+
+    for (let i = 0; i < deliveries.length; i += DELIVERY_LOG_BATCH) {
+      await this.store.recordDeliveries(deliveries.slice(i, i + DELIVERY_LOG_BATCH))
+    }
+    await this.store.completeLogEntry(entry.id, counts)
+
+    console.log(`🔔 [Notifications] ${entry.id}: ${counts.successCount} sent, ${counts.failureCount} failed, ${counts.prunedCount} pruned, ${counts.skippedCount} in quiet hours`)
+    return { notificationId: entry.id, targeted: targets.length, ...counts }
+  }
+
+  private async deliverOne(
+    notificationId: string,
+    target: PushSubscriptionRecord,
+    payload: string,
+    options: PushSendOptions,
+    now: Date
+  ): Promise<NotificationDelivery> {
+    const delivery: NotificationDelivery = {
+      notificationId,
+      endpoint: target.endpoint,
+      userId: target.userId,
+      status: 'sent',
+      attemptedAt: now
+    }
+
+    if (!options.ignoreQuietHours && isInQuietHours(target.preferences?.quietHours, now)) {
+      return { ...delivery, status: 'skipped', error: 'quiet hours' }
+    }
+
+    try {
+      const response = await this.sender!(target, payload, { ttl: options.ttl, urgency: options.urgency })
+      delivery.statusCode = response.statusCode
+
+      if (response.statusCode === 404 || response.statusCode === 410) {
+        delivery.status = 'pruned'
+      } else if (response.statusCode < 200 || response.statusCode >= 300) {
+        delivery.status = 'failed'
+        delivery.error = response.body.substring(0, 500) || `Push service returned ${response.statusCode}`
+      }
+    } catch (error: any) {
+      delivery.status = 'failed'
+      delivery.error = error?.message || String(error)
+    }
+
+    return delivery
+  }
+}
+
+let pushNotificationService: PushNotificationService | null = null
+
+export function getPushNotificationService(): PushNotificationService {
+  if (!pushNotificationService) {
+    pushNotificationService = new PushNotificationService()
+  }
+  return pushNotificationService
+}
+
+export default PushNotificationService
@@ -0,0 +1,458 @@
+/**
+ * Push Notification Store
+ * Web Push subscriptions with their topic/quiet-hours preferences, the
+ * notification log, and one delivery row per subscription per notification.
+ *
+ * Backends:
+ * - SupabasePushNotificationStore: notification_subscriptions, notification_log
+ *   and notification_deliveries tables (production)
+ * - InMemoryPushNotificationStore: process-local stand-in (tests, demo mode)
+ */
+
+import { randomUUID } from 'crypto'
+import { SupabaseClient } from '@supabase/supabase-js'
+import { getSupabaseClient } from '../lib/supabaseClient.js'
+
+export type NotificationTopic = 'events' | 'news' | 'community' | 'reminders'
+
+export const NOTIFICATION_TOPICS: NotificationTopic[] = ['events', 'news', 'community', 'reminders']
+
+export interface QuietHours {
+  // 24-hour "HH:MM" local times; a window may run past midnight (22:00 → 07:00)
+  start: string
+  end: string
+  timezone?: string
+}
+
+export type NotificationPreferences = Partial<Record<NotificationTopic, boolean>> & {
+  quietHours?: QuietHours | null
+  // Hold low-priority notifications for one daily digest
+  digest?: boolean
+}
+
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  events: true,
+  news: true,
+  community: true,
+  reminders: true
+}
+
+export interface PushSubscriptionRecord {
+  userId: string
+  endpoint: string
+  p256dh: string
+  auth: string
+  preferences: NotificationPreferences
+  createdAt: Date
+  updatedAt: Date
+}
+
+export interface SubscriptionFilter {
+  // Only subscriptions that have not switched this topic off
+  topic?: string
+  userIds?: string[]
+}
+
+export type DeliveryStatus = 'sent' | 'failed' | 'pruned' | 'skipped'
+
+export interface NotificationDelivery {
+  notificationId: string
+  endpoint: string
+  userId: string
+  status: DeliveryStatus
+  statusCode?: number
+  error?: string
+  attemptedAt: Date
+}
+
+export interface NotificationLogEntry {
+  id: string
+  title: string
+  body: string
+  topic: string
+  // Subscriptions targeted
+  sentCount: number
+  successCount: number
+  failureCount: number
+  prunedCount: number
+  skippedCount: number
+  createdAt: Date
+  completedAt?: Date
+}
+
+export type NotificationCounts = Pick<NotificationLogEntry, 'successCount' | 'failureCount' | 'prunedCount' | 'skippedCount'>
+
+export interface PushNotificationStore {
+  readonly backend: 'supabase' | 'memory'
+
+  /** Insert or replace the subscription for an endpoint */
+  saveSubscription(subscription: PushSubscriptionRecord): Promise<void>
+
+  getSubscription(endpoint: string): Promise<PushSubscriptionRecord | null>
+
+  listSubscriptions(filter?: SubscriptionFilter): Promise<PushSubscriptionRecord[]>
+
+  /** Returns how many subscriptions were removed */
+  removeSubscriptions(endpoints: string[]): Promise<number>
+
+  /** Set preferences on a device, or on every device a user has */
+  updatePreferences(match: { endpoint?: string; userId?: string }, preferences: NotificationPreferences): Promise<number>
+
+  countSubscriptions(): Promise<number>
+
+  createLogEntry(entry: Pick<NotificationLogEntry, 'title' | 'body' | 'topic' | 'sentCount'>): Promise<NotificationLogEntry>
+
+  completeLogEntry(id: string, counts: NotificationCounts): Promise<void>
+
+  getLogEntry(id: string): Promise<NotificationLogEntry | null>
+
+  recentLogEntries(limit: number): Promise<NotificationLogEntry[]>
+
+  recordDeliveries(deliveries: NotificationDelivery[]): Promise<void>
+
+  getDeliveries(notificationId: string): Promise<NotificationDelivery[]>
+}
+
+/** Topics outside the preference keys (e.g. general) reach everyone */
+export function wantsTopic(preferences: NotificationPreferences, topic: string | undefined): boolean {
+  if (!topic || !NOTIFICATION_TOPICS.includes(topic as NotificationTopic)) return true
+  return preferences[topic as NotificationTopic] !== false
+}
+
+export class InMemoryPushNotificationStore implements PushNotificationStore {
+  readonly backend = 'memory' as const
+  private subscriptions = new Map<string, PushSubscriptionRecord>()
+  private log = new Map<string, NotificationLogEntry>()
+  private deliveries: NotificationDelivery[] = []
+
+  async saveSubscription(subscription: PushSubscriptionRecord): Promise<void> {
+    this.subscriptions.set(subscription.endpoint, { ...subscription })
+  }
+
+  async getSubscription(endpoint: string): Promise<PushSubscriptionRecord | null> {
+    const subscription = this.subscriptions.get(endpoint)
+    return subscription ? { ...subscription } : null
+  }
+
+  async listSubscriptions(filter: SubscriptionFilter = {}): Promise<PushSubscriptionRecord[]> {
+    return [...this.subscriptions.values()]
+      .filter(sub => wantsTopic(sub.preferences, filter.topic))
+      .filter(sub => !filter.userIds || filter.userIds.includes(sub.userId))
+      .map(sub => ({ ...sub }))
+  }
+
+  async removeSubscriptions(endpoints: string[]): Promise<number> {
+    return endpoints.filter(endpoint => this.subscriptions.delete(endpoint)).length
+  }
+
+  async updatePreferences(match: { endpoint?: string; userId?: string }, preferences: NotificationPreferences): Promise<number> {
+    let updated = 0
+    for (const sub of this.subscriptions.values()) {
+      if ((match.endpoint && sub.endpoint === match.endpoint) || (match.userId && sub.userId === match.userId)) {
+        sub.preferences = { ...preferences }
+        sub.updatedAt = new Date()
+        updated++
+      }
+    }
+    return updated
+  }
+
+  async countSubscriptions(): Promise<number> {
+    return this.subscriptions.size
+  }
+
+  async createLogEntry(entry: Pick<NotificationLogEntry, 'title' | 'body' | 'topic' | 'sentCount'>): Promise<NotificationLogEntry> {
+    const logEntry: NotificationLogEntry = {
+      ...entry,
+      id: randomUUID(),
+      successCount: 0,
+      failureCount: 0,
+      prunedCount: 0,
+      skippedCount: 0,
+      createdAt: new Date()
+    }
+    this.log.set(logEntry.id, logEntry)
+    return { ...logEntry }
+  }
+
+  async completeLogEntry(id: string, counts: NotificationCounts): Promise<void> {
+    const entry = this.log.get(id)
+    if (entry) Object.assign(entry, counts, { completedAt: new Date() })
+  }
+
+  async getLogEntry(id: string): Promise<NotificationLogEntry | null> {
+    const entry = this.log.get(id)
+    return entry ? { ...entry } : null
+  }
+
+  async recentLogEntries(limit: number): Promise<NotificationLogEntry[]> {
+    return [...this.log.values()]
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .slice(0, limit)
+      .map(entry => ({ ...entry }))
+  }
+
+  async recordDeliveries(deliveries: NotificationDelivery[]): Promise<void> {
+    this.deliveries.push(...deliveries.map(d => ({ ...d })))
+  }
+
+  async getDeliveries(notificationId: string): Promise<NotificationDelivery[]> {
+    return this.deliveries.filter(d => d.notificationId === notificationId).map(d => ({ ...d }))
+  }
+}
+
+// PostgREST returns at most this many rows per request
+const PAGE_SIZE = 1000
+
+function subscriptionFromRow(row: any): PushSubscriptionRecord {
+  return {
+    userId: row.user_id,
+    endpoint: row.endpoint,
+    p256dh: row.p256dh,
+    auth: row.auth,
+    preferences: row.preferences || { ...DEFAULT_NOTIFICATION_PREFERENCES },
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at)
+  }
+}
+
+function logFromRow(row: any): NotificationLogEntry {
+  return {
+    id: row.id,
+    title: row.title,
+    body: row.body,
+    topic: row.topic,
+    sentCount: row.sent_count ?? 0,
+    successCount: row.success_count ?? 0,
+    failureCount: row.failure_count ?? 0,
+    prunedCount: row.pruned_count ?? 0,
+    skippedCount: row.skipped_count ?? 0,
+    createdAt: new Date(row.created_at),
+    completedAt: row.completed_at ? new Date(row.completed_at) : undefined
+  }
+}
+
+function deliveryFromRow(row: any): NotificationDelivery {
+  return {
+    notificationId: row.notification_id,
+    endpoint: row.endpoint,
+    userId: row.user_id,
+    status: row.status,
+    statusCode: row.status_code ?? undefined,
+    error: row.error ?? undefined,
+    attemptedAt: new Date(row.attempted_at)
+  }
+}
+
+export class SupabasePushNotificationStore implements PushNotificationStore {
+  readonly backend = 'supabase' as const
+
+  constructor(private supabase: SupabaseClient) {}
+
+  async saveSubscription(subscription: PushSubscriptionRecord): Promise<void> {
+    const { error } = await this.supabase.from('notification_subscriptions').upsert({
+      user_id: subscription.userId,
+      endpoint: subscription.endpoint,
+      p256dh: subscription.p256dh,
+      auth: subscription.auth,
+      preferences: subscription.preferences,
+      created_at: subscription.createdAt.toISOString(),
+      updated_at: subscription.updatedAt.toISOString()
+    }, { onConflict: 'endpoint' })
+
+    if (error) {
+      throw new Error(`Failed to save push subscription: ${error.message}`)
+    }
+  }
+
+  async getSubscription(endpoint: string): Promise<PushSubscriptionRecord | null> {
+    const { data, error } = await this.supabase
+      .from('notification_subscriptions')
+      .select('*')
+      .eq('endpoint', endpoint)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Failed to fetch push subscription: ${error.message}`)
+    }
+
+    return data ? subscriptionFromRow(data) : null
+  }
+
+  async listSubscriptions(filter: SubscriptionFilter = {}): Promise<PushSubscriptionRecord[]> {
+    const subscriptions: PushSubscriptionRecord[] = []
+
+    for (let from = 0; ; from += PAGE_SIZE) {
+      let request = this.supabase
+        .from('notification_subscriptions')
+        .select('*')
+        .order('created_at', { ascending: true })
+        .range(from, from + PAGE_SIZE - 1)
+
+      if (filter.topic && NOTIFICATION_TOPICS.includes(filter.topic as NotificationTopic)) {
+        // Missing keys count as opted in
+        request = request.or(`preferences->>${filter.topic}.is.null,preferences->>${filter.topic}.neq.false`)
+      }
+      if (filter.userIds) request = request.in('user_id', filter.userIds)
+
+      const { data, error } = await request
+
+      if (error) {
+        throw new Error(`Failed to list push subscriptions: ${error.message}`)
+      }
+
+      subscriptions.push(...(data || []).map(subscriptionFromRow))
+      if (!data || data.length < PAGE_SIZE) break
+    }
+
+    return subscriptions
+  }
+
+  async removeSubscriptions(endpoints: string[]): Promise<number> {
+    if (endpoints.length === 0) return 0
+
+    const { data, error } = await this.supabase
+      .from('notification_subscriptions')
+      .delete()
+      .in('endpoint', endpoints)
+      .select('endpoint')
+
+    if (error) {
+      throw new Error(`Failed to remove push subscriptions: ${error.message}`)
+    }
+
+    return (data || []).length
+  }
+
+  async updatePreferences(match: { endpoint?: string; userId?: string }, preferences: NotificationPreferences): Promise<number> {
+    let request = this.supabase
+      .from('notification_subscriptions')
+      .update({ preferences, updated_at: new Date().toISOString() })
+
+    if (match.endpoint) request = request.eq('endpoint', match.endpoint)
+    if (match.userId) request = request.eq('user_id', match.userId)
+
+    const { data, error } = await request.select('endpoint')
+
+    if (error) {
+      throw new Error(`Failed to update notification preferences: ${error.message}`)
+    }
+
+    return (data || []).length
+  }
+
+  async countSubscriptions(): Promise<number> {
+    const { count, error } = await this.supabase
+      .from('notification_subscriptions')
+      .select('id', { count: 'exact', head: true })
+
+    if (error) {
+      throw new Error(`Failed to count push subscriptions: ${error.message}`)
+    }
+
+    return count || 0
+  }
+
+  async createLogEntry(entry: Pick<NotificationLogEntry, 'title' | 'body' | 'topic' | 'sentCount'>): Promise<NotificationLogEntry> {
+    const { data, error } = await this.supabase
+      .from('notification_log')
+      .insert({
+        title: entry.title,
+        body: entry.body,
+        topic: entry.topic,
+        sent_count: entry.sentCount,
+        created_at: new Date().toISOString()
+      })
+      .select('*')
+      .single()
+
+    if (error) {
+      throw new Error(`Failed to log notification: ${error.message}`)
+    }
+
+    return logFromRow(data)
+  }
+
+  async completeLogEntry(id: string, counts: NotificationCounts): Promise<void> {
+    const { error } = await this.supabase
+      .from('notification_log')
+      .update({
+        success_count: counts.successCount,
+        failure_count: counts.failureCount,
+        pruned_count: counts.prunedCount,
+        skipped_count: counts.skippedCount,
+        completed_at: new Date().toISOString()
+      })
+      .eq('id', id)
+
+    if (error) {
+      throw new Error(`Failed to update notification log: ${error.message}`)
+    }
+  }
+
+  async getLogEntry(id: string): Promise<NotificationLogEntry | null> {
+    const { data, error } = await this.supabase.from('notification_log').select('*').eq('id', id).maybeSingle()
+
+    if (error) {
+      throw new Error(`Failed to fetch notification log: ${error.message}`)
+    }
+
+    return data ? logFromRow(data) : null
+  }
+
+  async recentLogEntries(limit: number): Promise<NotificationLogEntry[]> {
+    const { data, error } = await this.supabase
+      .from('notification_log')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(limit)
+
+    if (error) {
+      throw new Error(`Failed to fetch notification log: ${error.message}`)
+    }
+
+    return (data || []).map(logFromRow)
+  }
+
+  async recordDeliveries(deliveries: NotificationDelivery[]): Promise<void> {
+    if (deliveries.length === 0) return
+
+    const { error } = await this.supabase.from('notification_deliveries').insert(deliveries.map(d => ({
+      notification_id: d.notificationId,
+      endpoint: d.endpoint,
+      user_id: d.userId,
+      status: d.status,
+      status_code: d.statusCode ?? null,
+      error: d.error ?? null,
+      attempted_at: d.attemptedAt.toISOString()
+    })))
+
+    if (error) {
+      throw new Error(`Failed to record notification deliveries: ${error.message}`)
+    }
+  }
+
+  async getDeliveries(notificationId: string): Promise<NotificationDelivery[]> {
+    const { data, error } = await this.supabase
+      .from('notification_deliveries')
+      .select('*')
+      .eq('notification_id', notificationId)
+      .order('attempted_at', { ascending: true })
+
+    if (error) {
+      throw new Error(`Failed to fetch notification deliveries: ${error.message}`)
+    }
+
+    return (data || []).map(deliveryFromRow)
+  }
+}
+
+/**
+ * Pick the Supabase-backed store when credentials are configured,
+ * otherwise fall back to the in-memory store.
+ */
+export function createPushNotificationStore(supabase: SupabaseClient | null = getSupabaseClient()): PushNotificationStore {
+  return supabase ? new SupabasePushNotificationStore(supabase) : new InMemoryPushNotificationStore()
+}
+
+export default createPushNotificationStore
@@ -0,0 +1,125 @@
+/**
+ * Safety Plan Store
+ * Persists each user's current personal safety plan; saving again replaces it.
+ *
+ * Backends:
+ * - SupabaseSafetyPlanStore: safety_plans table (production)
+ * - InMemorySafetyPlanStore: process-local stand-in (tests, demo mode)
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js'
+import { getSupabaseClient } from '../lib/supabaseClient.js'
+import { RiskTier, UKNation } from '../data/crisisTriage.js'
+import { UKLocation } from '../types/journey.js'
+
+export interface SafetyPlanContact {
+  name: string
+  phone?: string
+  relationship?: string
+}
+
+export interface SafetyPlanService {
+  name: string
+  phone?: string
+  website?: string
+  availability: string
+}
+
+export interface SafetyPlan {
+  id: string
+  userId?: string
+  riskTier: RiskTier
+  location: UKLocation
+  nation: UKNation
+  warningSigns: string[]
+  copingStrategies: string[]
+  contacts: SafetyPlanContact[]
+  professionalServices: SafetyPlanService[]
+  saferEnvironment: string[]
+  reasonsForLiving: string[]
+  // Sections filled from IVOR's suggestions because the user left them blank
+  suggestedSections: string[]
+  createdAt: Date
+  updatedAt: Date
+}
+
+export interface SafetyPlanStore {
+  readonly backend: 'supabase' | 'memory'
+
+  /** Save the plan as the user's current plan */
+  save(plan: SafetyPlan & { userId: string }): Promise<void>
+
+  getByUser(userId: string): Promise<SafetyPlan | null>
+}
+
+export class InMemorySafetyPlanStore implements SafetyPlanStore {
+  readonly backend = 'memory' as const
+  private plans = new Map<string, SafetyPlan>()
+
+  async save(plan: SafetyPlan & { userId: string }): Promise<void> {
+    this.plans.set(plan.userId, { ...plan })
+  }
+
+  async getByUser(userId: string): Promise<SafetyPlan | null> {
+    const plan = this.plans.get(userId)
+    return plan ? { ...plan } : null
+  }
+}
+
+export class SupabaseSafetyPlanStore implements SafetyPlanStore {
+  readonly backend = 'supabase' as const
+
+  constructor(private supabase: SupabaseClient) {}
+
+  async save(plan: SafetyPlan & { userId: string }): Promise<void> {
+    const { id, userId, riskTier, location, nation, createdAt, updatedAt, ...sections } = plan
+    const { error } = await this.supabase.from('safety_plans').upsert({
+      id,
+      user_id: userId,
+      risk_tier: riskTier,
+      location,
+      nation,
+      plan: sections,
+      created_at: createdAt.toISOString(),
+      updated_at: updatedAt.toISOString()
+    }, { onConflict: 'user_id' })
+
+    if (error) {
+      throw new Error(`Failed to save safety plan: ${error.message}`)
+    }
+  }
+
+  async getByUser(userId: string): Promise<SafetyPlan | null> {
+    const { data, error } = await this.supabase
+      .from('safety_plans')
+      .select('*')
+      .eq('user_id', userId)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Failed to fetch safety plan: ${error.message}`)
+    }
+    if (!data) return null
+
+    return {
+      ...data.plan,
+      id: data.id,
+      userId: data.user_id,
+      riskTier: data.risk_tier,
+      location: data.location,
+      nation: data.nation,
+      createdAt: new Date(data.created_at),
+      updatedAt: new Date(data.updated_at)
+    }
+  }
+}
+
+/**
+ * Pick the Supabase-backed store when credentials are configured,
+ * otherwise fall back to the in-memory store.
+ */
+export function createSafetyPlanStore(supabase: SupabaseClient | null = getSupabaseClient()): SafetyPlanStore {
+  return supabase ? new SupabaseSafetyPlanStore(supabase) : new InMemorySafetyPlanStore()
+}
+
+export default createSafetyPlanStore
@@ -0,0 +1,240 @@
+/**
+ * Social Platform Adapters
+ * One adapter per platform behind a common interface, so the publisher never
+ * deals with platform APIs directly.
+ *
+ * Adapters:
+ * - LinkedInAdapter: Posts API as the BLKOUT organisation
+ * - InstagramAdapter: Graph API container + publish (image posts only)
+ * - BlueskyAdapter: AT Protocol app-password session + createRecord
+ * - MastodonAdapter: statuses API on our instance
+ * - LocalSocialAdapter: records posts in memory (tests, SOCIAL_PUBLISH_DRY_RUN)
+ */
+
+import { SocialPlatform, SocialPost, SOCIAL_PLATFORMS } from './SocialPostStore.js'
+
+const REQUEST_TIMEOUT_MS = 30000
+
+export interface PublishResult {
+  platformPostId: string
+  url?: string
+}
+
+export interface SocialPlatformAdapter {
+  readonly platform: SocialPlatform
+  // Post length limit, in characters (Bluesky counts graphemes; close enough for Latin text)
+  readonly maxLength: number
+  readonly requiresImage: boolean
+
+  /** Whether credentials are present; unconfigured platforms fail every attempt */
+  isConfigured(): boolean
+
+  publish(post: SocialPost): Promise<PublishResult>
+}
+
+async function expectOk(response: Response, platform: string): Promise<any> {
+  if (!response.ok) {
+    const errText = await response.text().catch(() => '')
+    throw new Error(`${platform} returned ${response.status}: ${errText.substring(0, 200)}`)
+  }
+  return response.status === 204 ? {} : response.json().catch(() => ({}))
+}
+
+export class LinkedInAdapter implements SocialPlatformAdapter {
+  readonly platform = 'linkedin' as const
+  readonly maxLength = 3000
+  readonly requiresImage = false
+
+  constructor(
+    private accessToken = process.env.LINKEDIN_ACCESS_TOKEN,
+    // urn:li:organization:<id>
+    private authorUrn = process.env.LINKEDIN_AUTHOR_URN
+  ) {}
+
+  isConfigured(): boolean {
+    return !!(this.accessToken && this.authorUrn)
+  }
+
+  async publish(post: SocialPost): Promise<PublishResult> {
+    const response = await fetch('https://api.linkedin.com/rest/posts', {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${this.accessToken}`,
+        'Content-Type': 'application/json',
+        'LinkedIn-Version': process.env.LINKEDIN_API_VERSION || '202410',
+        'X-Restli-Protocol-Version': '2.0.0'
+      },
+      body: JSON.stringify({
+        author: this.authorUrn,
+        commentary: post.content,
+        visibility: 'PUBLIC',
+        distribution: { feedDistribution: 'MAIN_FEED', targetEntities: [], thirdPartyDistributionChannels: [] },
+        lifecycleState: 'PUBLISHED',
+        isReshareDisabledByAuthor: false
+      }),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+    })
+
+    await expectOk(response, 'LinkedIn')
+    // The new post's URN comes back in a header, not the body
+    const urn = response.headers.get('x-restli-id') || ''
+    return { platformPostId: urn, url: urn ? `https://www.linkedin.com/feed/update/${urn}` : undefined }
+  }
+}
+
+export class InstagramAdapter implements SocialPlatformAdapter {
+  readonly platform = 'instagram' as const
+  readonly maxLength = 2200
+  readonly requiresImage = true
+
+  constructor(
+    private accessToken = process.env.INSTAGRAM_ACCESS_TOKEN,
+    private accountId = process.env.INSTAGRAM_ACCOUNT_ID,
+    private graphUrl = 'https://graph.facebook.com/v21.0'
+  ) {}
+
+  isConfigured(): boolean {
+    return !!(this.accessToken && this.accountId)
+  }
+
+  async publish(post: SocialPost): Promise<PublishResult> {
+    const container = await expectOk(await fetch(`${this.graphUrl}/${this.accountId}/media`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ image_url: post.imageUrl, caption: post.content, access_token: this.accessToken }),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+    }), 'Instagram')
+
+    const published = await expectOk(await fetch(`${this.graphUrl}/${this.accountId}/media_publish`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ creation_id: container.id, access_token: this.accessToken }),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+    }), 'Instagram')
+
+    const media = await fetch(`${this.graphUrl}/${published.id}?fields=permalink&access_token=${this.accessToken}`, {
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+    }).then(res => (res.ok ? res.json() : {})).catch(() => ({}))
+
+    return { platformPostId: published.id, url: (media as any).permalink }
+  }
+}
+
+export class BlueskyAdapter implements SocialPlatformAdapter {
+  readonly platform = 'bluesky' as const
+  readonly maxLength = 300
+  readonly requiresImage = false
+
+  constructor(
+    private handle = process.env.BLUESKY_HANDLE,
+    private appPassword = process.env.BLUESKY_APP_PASSWORD,
+    private serviceUrl = process.env.BLUESKY_SERVICE_URL || 'https://bsky.social'
+  ) {}
+
+  isConfigured(): boolean {
+    return !!(this.handle && this.appPassword)
+  }
+
+  async publish(post: SocialPost): Promise<PublishResult> {
+    const session = await expectOk(await fetch(`${this.serviceUrl}/xrpc/com.atproto.server.createSession`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ identifier: this.handle, password: this.appPassword }),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+    }), 'Bluesky')
+
+    const record = await expectOk(await fetch(`${this.serviceUrl}/xrpc/com.atproto.repo.createRecord`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${session.accessJwt}` },
+      body: JSON.stringify({
+        repo: session.did,
+        collection: 'app.bsky.feed.post',
+        record: { $type: 'app.bsky.feed.post', text: post.content, createdAt: new Date().toISOString(), langs: ['en-GB'] }
+      }),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+    }), 'Bluesky')
+
+    const rkey = String(record.uri || '').split('/').pop()
+    return { platformPostId: record.uri, url: rkey ? `https://bsky.app/profile/${this.handle}/post/${rkey}` : undefined }
+  }
+}
+
+export class MastodonAdapter implements SocialPlatformAdapter {
+  readonly platform = 'mastodon' as const
+  readonly maxLength = 500
+  readonly requiresImage = false
+
+  constructor(
+    private instanceUrl = process.env.MASTODON_INSTANCE_URL,
+    private accessToken = process.env.MASTODON_ACCESS_TOKEN
+  ) {}
+
+  isConfigured(): boolean {
+    return !!(this.instanceUrl && this.accessToken)
+  }
+
+  async publish(post: SocialPost): Promise<PublishResult> {
+    const status = await expectOk(await fetch(`${this.instanceUrl}/api/v1/statuses`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${this.accessToken}`,
+        'Content-Type': 'application/json',
+        // Mastodon drops a repeat of the same key, so a retry after a lost response can't double-post
+        'Idempotency-Key': post.id
+      },
+      body: JSON.stringify({ status: post.content, visibility: 'public', language: 'en' }),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+    }), 'Mastodon')
+
+    return { platformPostId: status.id, url: status.url }
+  }
+}
+
+/**
+ * Publishes nowhere: keeps every post it is given. Set `failures` to make the
+ * next N publishes throw.
+ */
+export class LocalSocialAdapter implements SocialPlatformAdapter {
+  readonly requiresImage: boolean
+  published: SocialPost[] = []
+  failures = 0
+
+  constructor(readonly platform: SocialPlatform, readonly maxLength = 5000, requiresImage = false) {
+    this.requiresImage = requiresImage
+  }
+
+  isConfigured(): boolean {
+    return true
+  }
+
+  async publish(post: SocialPost): Promise<PublishResult> {
+    if (this.failures > 0) {
+      this.failures--
+      throw new Error(`${this.platform} is unavailable (local adapter)`)
+    }
+    this.published.push({ ...post })
+    const platformPostId = `local-${this.platform}-${this.published.length}`
+    return { platformPostId, url: `https://example.invalid/${this.platform}/${platformPostId}` }
+  }
+}
+
+export type SocialAdapterMap = Record<SocialPlatform, SocialPlatformAdapter>
+
+/**
+ * Real adapters, or local ones with the same limits when
+ * SOCIAL_PUBLISH_DRY_RUN=true (staging, demos).
+ */
+export function createSocialAdapters(dryRun = process.env.SOCIAL_PUBLISH_DRY_RUN === 'true'): SocialAdapterMap {
+  const adapters: SocialAdapterMap = {
+    linkedin: new LinkedInAdapter(),
+    instagram: new InstagramAdapter(),
+    bluesky: new BlueskyAdapter(),
+    mastodon: new MastodonAdapter()
+  }
+  if (!dryRun) return adapters
+
+  for (const platform of SOCIAL_PLATFORMS) {
+    adapters[platform] = new LocalSocialAdapter(platform, adapters[platform].maxLength, adapters[platform].requiresImage)
+  }
+  return adapters
+}
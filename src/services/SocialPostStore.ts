@@ -0,0 +1,360 @@
+/**
+ * Social Post Store
+ * The social content calendar: every post with its approval/publishing state,
+ * plus a log of each publish attempt for retry and error reporting.
+ *
+ * Backends:
+ * - SupabaseSocialPostStore: social_posts + social_post_attempts tables (production)
+ * - InMemorySocialPostStore: process-local stand-in (tests, demo mode)
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js'
+import { getSupabaseClient } from '../lib/supabaseClient.js'
+
+export type SocialPlatform = 'linkedin' | 'instagram' | 'bluesky' | 'mastodon'
+
+export const SOCIAL_PLATFORMS: SocialPlatform[] = ['linkedin', 'instagram', 'bluesky', 'mastodon']
+
+// draft → approved → scheduled → posting → posted; a failed attempt goes back
+// to scheduled for a retry until the attempts run out, then failed
+export type SocialPostStatus = 'draft' | 'approved' | 'scheduled' | 'posting' | 'posted' | 'failed' | 'cancelled'
+
+export const SOCIAL_POST_STATUSES: SocialPostStatus[] = ['draft', 'approved', 'scheduled', 'posting', 'posted', 'failed', 'cancelled']
+
+export interface SocialPost {
+  id: string
+  platform: SocialPlatform
+  content: string
+  imageUrl?: string
+  status: SocialPostStatus
+  // Where the post came from: the admin calendar, the n8n content webhook, or an emergency post
+  source: 'manual' | 'n8n' | 'emergency'
+  urgent: boolean
+  scheduledFor?: Date
+  // When the publisher will next pick the post up (scheduledFor, or a retry time)
+  nextAttemptAt?: Date
+  attempts: number
+  maxAttempts: number
+  lastError?: string
+  platformPostId?: string
+  platformUrl?: string
+  createdBy?: string
+  approvedBy?: string
+  approvedAt?: Date
+  postedAt?: Date
+  createdAt: Date
+  updatedAt: Date
+}
+
+export interface SocialPostAttempt {
+  postId: string
+  platform: SocialPlatform
+  attempt: number
+  status: 'posted' | 'failed'
+  error?: string
+  platformPostId?: string
+  attemptedAt: Date
+}
+
+export interface SocialPostQuery {
+  status?: SocialPostStatus
+  platform?: SocialPlatform
+  // Calendar window on scheduledFor (or createdAt for unscheduled posts)
+  from?: Date
+  to?: Date
+  limit?: number
+}
+
+export interface SocialPostStore {
+  readonly backend: 'supabase' | 'memory'
+
+  /** Insert or update a post */
+  save(post: SocialPost): Promise<void>
+
+  get(postId: string): Promise<SocialPost | null>
+
+  /** Calendar order: scheduled time (or creation time), earliest first */
+  list(query?: SocialPostQuery): Promise<SocialPost[]>
+
+  /**
+   * Move due scheduled posts (and posts stuck in `posting` since before
+   * staleBefore) to `posting` and return them. A post is only ever claimed once.
+   */
+  claimDue(now: Date, staleBefore: Date, limit: number): Promise<SocialPost[]>
+
+  recordAttempt(attempt: SocialPostAttempt): Promise<void>
+
+  /** A post's attempts, oldest first */
+  getAttempts(postId: string): Promise<SocialPostAttempt[]>
+
+  /** Most recent failed attempts across all posts */
+  getRecentFailures(limit: number): Promise<SocialPostAttempt[]>
+}
+
+function calendarTime(post: SocialPost): number {
+  return (post.scheduledFor || post.createdAt).getTime()
+}
+
+function matchesQuery(post: SocialPost, query: SocialPostQuery): boolean {
+  if (query.status && post.status !== query.status) return false
+  if (query.platform && post.platform !== query.platform) return false
+  if (query.from && calendarTime(post) < query.from.getTime()) return false
+  if (query.to && calendarTime(post) > query.to.getTime()) return false
+  return true
+}
+
+export class InMemorySocialPostStore implements SocialPostStore {
+  readonly backend = 'memory' as const
+  private posts = new Map<string, SocialPost>()
+  private attempts: SocialPostAttempt[] = []
+
+  async save(post: SocialPost): Promise<void> {
+    this.posts.set(post.id, { ...post })
+  }
+
+  async get(postId: string): Promise<SocialPost | null> {
+    const post = this.posts.get(postId)
+    return post ? { ...post } : null
+  }
+
+  async list(query: SocialPostQuery = {}): Promise<SocialPost[]> {
+    return [...this.posts.values()]
+      .filter(post => matchesQuery(post, query))
+      .sort((a, b) => calendarTime(a) - calendarTime(b))
+      .slice(0, query.limit ?? Infinity)
+      .map(post => ({ ...post }))
+  }
+
+  async claimDue(now: Date, staleBefore: Date, limit: number): Promise<SocialPost[]> {
+    const due = [...this.posts.values()]
+      .filter(post =>
+        (post.status === 'scheduled' && post.nextAttemptAt && post.nextAttemptAt.getTime() <= now.getTime()) ||
+        (post.status === 'posting' && post.updatedAt.getTime() <= staleBefore.getTime())
+      )
+      .sort((a, b) => Number(b.urgent) - Number(a.urgent) || (a.nextAttemptAt?.getTime() ?? 0) - (b.nextAttemptAt?.getTime() ?? 0))
+      .slice(0, limit)
+
+    for (const post of due) {
+      post.status = 'posting'
+      post.updatedAt = now
+    }
+    return due.map(post => ({ ...post }))
+  }
+
+  async recordAttempt(attempt: SocialPostAttempt): Promise<void> {
+    this.attempts.push({ ...attempt })
+  }
+
+  async getAttempts(postId: string): Promise<SocialPostAttempt[]> {
+    return this.attempts.filter(a => a.postId === postId).map(a => ({ ...a }))
+  }
+
+  async getRecentFailures(limit: number): Promise<SocialPostAttempt[]> {
+    return this.attempts
+      .filter(a => a.status === 'failed')
+      .sort((a, b) => b.attemptedAt.getTime() - a.attemptedAt.getTime())
+      .slice(0, limit)
+      .map(a => ({ ...a }))
+  }
+}
+
+function iso(date: Date | undefined): string | null {
+  return date ? date.toISOString() : null
+}
+
+function toRow(post: SocialPost) {
+  return {
+    id: post.id,
+    platform: post.platform,
+    content: post.content,
+    image_url: post.imageUrl ?? null,
+    status: post.status,
+    source: post.source,
+    urgent: post.urgent,
+    scheduled_for: iso(post.scheduledFor),
+    next_attempt_at: iso(post.nextAttemptAt),
+    attempts: post.attempts,
+    max_attempts: post.maxAttempts,
+    last_error: post.lastError ?? null,
+    platform_post_id: post.platformPostId ?? null,
+    platform_url: post.platformUrl ?? null,
+    created_by: post.createdBy ?? null,
+    approved_by: post.approvedBy ?? null,
+    approved_at: iso(post.approvedAt),
+    posted_at: iso(post.postedAt),
+    created_at: post.createdAt.toISOString(),
+    updated_at: post.updatedAt.toISOString()
+  }
+}
+
+function date(value: string | null): Date | undefined {
+  return value ? new Date(value) : undefined
+}
+
+function fromRow(row: any): SocialPost {
+  return {
+    id: row.id,
+    platform: row.platform,
+    content: row.content,
+    imageUrl: row.image_url ?? undefined,
+    status: row.status,
+    source: row.source,
+    urgent: row.urgent,
+    scheduledFor: date(row.scheduled_for),
+    nextAttemptAt: date(row.next_attempt_at),
+    attempts: row.attempts,
+    maxAttempts: row.max_attempts,
+    lastError: row.last_error ?? undefined,
+    platformPostId: row.platform_post_id ?? undefined,
+    platformUrl: row.platform_url ?? undefined,
+    createdBy: row.created_by ?? undefined,
+    approvedBy: row.approved_by ?? undefined,
+    approvedAt: date(row.approved_at),
+    postedAt: date(row.posted_at),
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at)
+  }
+}
+
+function attemptFromRow(row: any): SocialPostAttempt {
+  return {
+    postId: row.post_id,
+    platform: row.platform,
+    attempt: row.attempt,
+    status: row.status,
+    error: row.error ?? undefined,
+    platformPostId: row.platform_post_id ?? undefined,
+    attemptedAt: new Date(row.attempted_at)
+  }
+}
+
+export class SupabaseSocialPostStore implements SocialPostStore {
+  readonly backend = 'supabase' as const
+
+  constructor(private supabase: SupabaseClient) {}
+
+  async save(post: SocialPost): Promise<void> {
+    const { error } = await this.supabase.from('social_posts').upsert(toRow(post), { onConflict: 'id' })
+
+    if (error) {
+      throw new Error(`Failed to save social post: ${error.message}`)
+    }
+  }
+
+  async get(postId: string): Promise<SocialPost | null> {
+    const { data, error } = await this.supabase.from('social_posts').select('*').eq('id', postId).maybeSingle()
+
+    if (error) {
+      throw new Error(`Failed to fetch social post: ${error.message}`)
+    }
+
+    return data ? fromRow(data) : null
+  }
+
+  async list(query: SocialPostQuery = {}): Promise<SocialPost[]> {
+    let request = this.supabase
+      .from('social_posts')
+      .select('*')
+      .order('calendar_at', { ascending: true })
+
+    if (query.status) request = request.eq('status', query.status)
+    if (query.platform) request = request.eq('platform', query.platform)
+    if (query.from) request = request.gte('calendar_at', query.from.toISOString())
+    if (query.to) request = request.lte('calendar_at', query.to.toISOString())
+    if (query.limit) request = request.limit(query.limit)
+
+    const { data, error } = await request
+
+    if (error) {
+      throw new Error(`Failed to list social posts: ${error.message}`)
+    }
+
+    return (data || []).map(fromRow)
+  }
+
+  async claimDue(now: Date, staleBefore: Date, limit: number): Promise<SocialPost[]> {
+    const { data: candidates, error: selectError } = await this.supabase
+      .from('social_posts')
+      .select('id')
+      .or(`and(status.eq.scheduled,next_attempt_at.lte.${now.toISOString()}),and(status.eq.posting,updated_at.lte.${staleBefore.toISOString()})`)
+      .order('urgent', { ascending: false })
+      .order('next_attempt_at', { ascending: true })
+      .limit(limit)
+
+    if (selectError) {
+      throw new Error(`Failed to find due social posts: ${selectError.message}`)
+    }
+
+    const ids = (candidates || []).map(row => row.id)
+    if (ids.length === 0) return []
+
+    // Conditional update: another instance claiming the same rows gets none back
+    const { data, error } = await this.supabase
+      .from('social_posts')
+      .update({ status: 'posting', updated_at: now.toISOString() })
+      .in('id', ids)
+      .or(`status.eq.scheduled,and(status.eq.posting,updated_at.lte.${staleBefore.toISOString()})`)
+      .select('*')
+
+    if (error) {
+      throw new Error(`Failed to claim social posts: ${error.message}`)
+    }
+
+    return (data || []).map(fromRow)
+  }
+
+  async recordAttempt(attempt: SocialPostAttempt): Promise<void> {
+    const { error } = await this.supabase.from('social_post_attempts').insert({
+      post_id: attempt.postId,
+      platform: attempt.platform,
+      attempt: attempt.attempt,
+      status: attempt.status,
+      error: attempt.error ?? null,
+      platform_post_id: attempt.platformPostId ?? null,
+      attempted_at: attempt.attemptedAt.toISOString()
+    })
+
+    if (error) {
+      throw new Error(`Failed to log social post attempt: ${error.message}`)
+    }
+  }
+
+  async getAttempts(postId: string): Promise<SocialPostAttempt[]> {
+    const { data, error } = await this.supabase
+      .from('social_post_attempts')
+      .select('*')
+      .eq('post_id', postId)
+      .order('attempted_at', { ascending: true })
+
+    if (error) {
+      throw new Error(`Failed to fetch social post attempts: ${error.message}`)
+    }
+
+    return (data || []).map(attemptFromRow)
+  }
+
+  async getRecentFailures(limit: number): Promise<SocialPostAttempt[]> {
+    const { data, error } = await this.supabase
+      .from('social_post_attempts')
+      .select('*')
+      .eq('status', 'failed')
+      .order('attempted_at', { ascending: false })
+      .limit(limit)
+
+    if (error) {
+      throw new Error(`Failed to fetch social post failures: ${error.message}`)
+    }
+
+    return (data || []).map(attemptFromRow)
+  }
+}
+
+/**
+ * Pick the Supabase-backed store when credentials are configured,
+ * otherwise fall back to the in-memory store.
+ */
+export function createSocialPostStore(supabase: SupabaseClient | null = getSupabaseClient()): SocialPostStore {
+  return supabase ? new SupabaseSocialPostStore(supabase) : new InMemorySocialPostStore()
+}
+
+export default createSocialPostStore
@@ -0,0 +1,405 @@
+/**
+ * Social Publishing Service
+ * Native replacement for the n8n posting workflows: a persisted content
+ * calendar where posts are drafted, approved, scheduled and then published
+ * by the scheduler through per-platform adapters.
+ *
+ * Failed publishes are retried with exponential backoff up to maxAttempts;
+ * every attempt is logged so the dashboard can show what is retrying and why.
+ */
+
+import { randomUUID } from 'crypto'
+import {
+  SocialPost,
+  SocialPostStore,
+  SocialPostQuery,
+  SocialPostAttempt,
+  SocialPlatform,
+  SocialPostStatus,
+  SOCIAL_PLATFORMS,
+  SOCIAL_POST_STATUSES,
+  createSocialPostStore
+} from './SocialPostStore.js'
+import { SocialAdapterMap, createSocialAdapters } from './SocialPlatformAdapters.js'
+
+export const DEFAULT_MAX_ATTEMPTS = 4
+// First retry after 5 minutes, doubling each time
+const RETRY_BASE_MS = 5 * 60 * 1000
+// A post still `posting` after this long was abandoned mid-publish (e.g. a restart)
+const STALE_POSTING_MS = 15 * 60 * 1000
+const PUBLISH_BATCH_SIZE = 20
+
+export class SocialPublishingError extends Error {
+  constructor(message: string, public readonly status: 400 | 404 | 409 = 400) {
+    super(message)
+    this.name = 'SocialPublishingError'
+  }
+}
+
+export interface SocialDraftInput {
+  platforms: SocialPlatform[]
+  content: string
+  imageUrl?: string
+  createdBy?: string
+  source?: SocialPost['source']
+  // Optional: approval is still required before the post is scheduled
+  scheduledFor?: Date
+}
+
+export interface PublishRunResult {
+  attempted: number
+  posted: number
+  retrying: number
+  failed: number
+}
+
+export interface PublisherStatus {
+  lastRunAt?: Date
+  lastRun?: PublishRunResult
+  lastError?: string
+}
+
+export function retryDelayMs(attempts: number): number {
+  return RETRY_BASE_MS * 2 ** Math.max(0, attempts - 1)
+}
+
+export class SocialPublishingService {
+  private publisher: PublisherStatus = {}
+
+  constructor(
+    private store: SocialPostStore = createSocialPostStore(),
+    private adapters: SocialAdapterMap = createSocialAdapters()
+  ) {}
+
+  /** Platform limits and whether each one has credentials */
+  getPlatforms() {
+    return SOCIAL_PLATFORMS.map(platform => ({
+      platform,
+      configured: this.adapters[platform].isConfigured(),
+      maxLength: this.adapters[platform].maxLength,
+      requiresImage: this.adapters[platform].requiresImage
+    }))
+  }
+
+  /** One draft per platform, each checked against that platform's limits */
+  async createDrafts(input: SocialDraftInput, now: Date = new Date()): Promise<SocialPost[]> {
+    const platforms = [...new Set(input.platforms)]
+    if (platforms.length === 0) {
+      throw new SocialPublishingError('At least one platform is required')
+    }
+
+    const drafts = platforms.map(platform => {
+      const post: SocialPost = {
+        id: randomUUID(),
+        platform: this.requirePlatform(platform),
+        content: (input.content || '').trim(),
+        imageUrl: input.imageUrl || undefined,
+        status: 'draft',
+        source: input.source || 'manual',
+        urgent: false,
+        scheduledFor: input.scheduledFor,
+        attempts: 0,
+        maxAttempts: DEFAULT_MAX_ATTEMPTS,
+        createdBy: input.createdBy,
+        createdAt: now,
+        updatedAt: now
+      }
+      this.validateContent(post)
+      return post
+    })
+
+    for (const draft of drafts) {
+      await this.store.save(draft)
+    }
+    return drafts
+  }
+
+  /** Edit copy or image; an approved post goes back to draft for re-approval */
+  async updateDraft(postId: string, changes: { content?: string; imageUrl?: string | null; scheduledFor?: Date }, now: Date = new Date()) {
+    const post = await this.requirePost(postId)
+    this.requireStatus(post, ['draft', 'approved'], 'edited')
+
+    if (changes.content !== undefined) post.content = changes.content.trim()
+    if (changes.imageUrl !== undefined) post.imageUrl = changes.imageUrl || undefined
+    if (changes.scheduledFor !== undefined) post.scheduledFor = changes.scheduledFor
+    this.validateContent(post)
+
+    post.status = 'draft'
+    post.approvedBy = undefined
+    post.approvedAt = undefined
+    post.updatedAt = now
+    await this.store.save(post)
+    return post
+  }
+
+  async approve(postId: string, approvedBy: string | undefined, now: Date = new Date()) {
+    const post = await this.requirePost(postId)
+    this.requireStatus(post, ['draft'], 'approved')
+
+    post.status = 'approved'
+    post.approvedBy = approvedBy
+    post.approvedAt = now
+    post.updatedAt = now
+    await this.store.save(post)
+    return post
+  }
+
+  /** Queue an approved post for the publisher; defaults to its planned time, or now */
+  async schedule(postId: string, scheduledFor?: Date, now: Date = new Date()) {
+    const post = await this.requirePost(postId)
+    this.requireStatus(post, ['approved', 'scheduled'], 'scheduled')
+
+    const at = scheduledFor || post.scheduledFor || now
+    if (Number.isNaN(at.getTime())) {
+      throw new SocialPublishingError('scheduledFor must be a valid date')
+    }
+
+    post.status = 'scheduled'
+    post.scheduledFor = at
+    post.nextAttemptAt = at
+    post.updatedAt = now
+    await this.store.save(post)
+    return post
+  }
+
+  async cancel(postId: string, now: Date = new Date()) {
+    const post = await this.requirePost(postId)
+    this.requireStatus(post, ['draft', 'approved', 'scheduled', 'failed'], 'cancelled')
+
+    post.status = 'cancelled'
+    post.nextAttemptAt = undefined
+    post.updatedAt = now
+    await this.store.save(post)
+    return post
+  }
+
+  /** Give a failed post a fresh set of attempts, starting now */
+  async retry(postId: string, now: Date = new Date()) {
+    const post = await this.requirePost(postId)
+    this.requireStatus(post, ['failed'], 'retried')
+
+    post.status = 'scheduled'
+    post.attempts = 0
+    post.nextAttemptAt = now
+    post.updatedAt = now
+    await this.store.save(post)
+    return post
+  }
+
+  /**
+   * Approve and schedule posts for immediate publishing, then publish them
+   * straight away rather than waiting for the scheduler.
+   */
+  async publishUrgent(input: Omit<SocialDraftInput, 'scheduledFor'>, now: Date = new Date()) {
+    const drafts = await this.createDrafts({ ...input, source: 'emergency' }, now)
+    const posts: SocialPost[] = []
+
+    for (const draft of drafts) {
+      draft.status = 'scheduled'
+      draft.urgent = true
+      draft.approvedBy = input.createdBy
+      draft.approvedAt = now
+      draft.scheduledFor = now
+      draft.nextAttemptAt = now
+      await this.store.save(draft)
+    }
+
+    await this.publishDue(now)
+    for (const draft of drafts) {
+      posts.push((await this.store.get(draft.id))!)
+    }
+    return posts
+  }
+
+  /** Publish every post that is due; called by the scheduler */
+  async publishDue(now: Date = new Date()): Promise<PublishRunResult> {
+    const result: PublishRunResult = { attempted: 0, posted: 0, retrying: 0, failed: 0 }
+
+    try {
+      const due = await this.store.claimDue(now, new Date(now.getTime() - STALE_POSTING_MS), PUBLISH_BATCH_SIZE)
+
+      for (const post of due) {
+        result.attempted++
+        const outcome = await this.publishOne(post, now)
+        result[outcome]++
+      }
+
+      this.publisher = { lastRunAt: now, lastRun: result }
+    } catch (error: any) {
+      this.publisher = { lastRunAt: now, lastRun: result, lastError: error.message }
+      throw error
+    }
+
+    return result
+  }
+
+  /**
+   * Outcome reported by an n8n posting workflow for a post it published
+   * itself (legacy path while n8n workflows are retired).
+   */
+  async recordExternalOutcome(
+    postId: string,
+    outcome: { status: 'posted' | 'failed'; platformPostId?: string; error?: string },
+    now: Date = new Date()
+  ) {
+    const post = await this.requirePost(postId)
+    this.requireStatus(post, ['approved', 'scheduled', 'posting', 'failed'], `marked ${outcome.status}`)
+
+    post.attempts++
+    post.status = outcome.status
+    post.nextAttemptAt = undefined
+    post.updatedAt = now
+    if (outcome.status === 'posted') {
+      post.platformPostId = outcome.platformPostId
+      post.postedAt = now
+      post.lastError = undefined
+    } else {
+      post.lastError = outcome.error || 'Reported failed by n8n'
+    }
+    await this.store.save(post)
+    await this.logAttempt(post, outcome.status, now, post.lastError)
+    return post
+  }
+
+  async getPost(postId: string): Promise<{ post: SocialPost; attempts: SocialPostAttempt[] }> {
+    const post = await this.requirePost(postId)
+    return { post, attempts: await this.store.getAttempts(postId) }
+  }
+
+  getCalendar(query: SocialPostQuery = {}): Promise<SocialPost[]> {
+    return this.store.list(query)
+  }
+
+  /** Counts by status, today's posts, what is retrying and the latest failures */
+  async getDashboard(now: Date = new Date()) {
+    const posts = await this.store.list()
+    const startOfDay = new Date(now)
+    startOfDay.setUTCHours(0, 0, 0, 0)
+
+    const byStatus = Object.fromEntries(SOCIAL_POST_STATUSES.map(status => [status, 0])) as Record<SocialPostStatus, number>
+    for (const post of posts) byStatus[post.status]++
+
+    const retrying = posts
+      .filter(post => post.status === 'scheduled' && post.attempts > 0)
+      .map(post => ({
+        id: post.id,
+        platform: post.platform,
+        attempts: post.attempts,
+        maxAttempts: post.maxAttempts,
+        nextAttemptAt: post.nextAttemptAt,
+        lastError: post.lastError
+      }))
+
+    const posted = posts.filter(post => post.status === 'posted')
+    const attemptedPosts = posted.length + byStatus.failed
+
+    return {
+      byStatus,
+      postsToday: posted.filter(post => post.postedAt && post.postedAt >= startOfDay).length,
+      totalPosts: posted.length,
+      errors: byStatus.failed,
+      errorRate: attemptedPosts > 0 ? Math.round((byStatus.failed / attemptedPosts) * 1000) / 1000 : 0,
+      retrying,
+      recentFailures: await this.store.getRecentFailures(10),
+      platforms: this.getPlatforms(),
+      publisher: this.publisher
+    }
+  }
+
+  private async publishOne(post: SocialPost, now: Date): Promise<'posted' | 'retrying' | 'failed'> {
+    const adapter = this.adapters[post.platform]
+    post.attempts++
+
+    try {
+      if (!adapter.isConfigured()) {
+        throw new Error(`${post.platform} is not configured`)
+      }
+      const published = await adapter.publish(post)
+
+      post.status = 'posted'
+      post.platformPostId = published.platformPostId
+      post.platformUrl = published.url
+      post.postedAt = now
+      post.nextAttemptAt = undefined
+      post.lastError = undefined
+      post.updatedAt = now
+      await this.store.save(post)
+      await this.logAttempt(post, 'posted', now)
+      console.log(`[Social] Posted ${post.id} to ${post.platform}`)
+      return 'posted'
+    } catch (error: any) {
+      const message = error?.message || String(error)
+      const retry = post.attempts < post.maxAttempts
+
+      post.status = retry ? 'scheduled' : 'failed'
+      post.nextAttemptAt = retry ? new Date(now.getTime() + retryDelayMs(post.attempts)) : undefined
+      post.lastError = message
+      post.updatedAt = now
+      await this.store.save(post)
+      await this.logAttempt(post, 'failed', now, message)
+      console.error(`[Social] ${post.platform} attempt ${post.attempts}/${post.maxAttempts} failed for ${post.id}: ${message}`)
+      return retry ? 'retrying' : 'failed'
+    }
+  }
+
+  private async logAttempt(post: SocialPost, status: SocialPostAttempt['status'], now: Date, error?: string) {
+    try {
+      await this.store.recordAttempt({
+        postId: post.id,
+        platform: post.platform,
+        attempt: post.attempts,
+        status,
+        error,
+        platformPostId: post.platformPostId,
+        attemptedAt: now
+      })
+    } catch (logError) {
+      console.error('[Social] Failed to log publish attempt:', logError)
+    }
+  }
+
+  private validateContent(post: SocialPost) {
+    const adapter = this.adapters[post.platform]
+    if (!post.content) {
+      throw new SocialPublishingError('Post content is required')
+    }
+    if ([...post.content].length > adapter.maxLength) {
+      throw new SocialPublishingError(`${post.platform} posts must be ${adapter.maxLength} characters or less`)
+    }
+    if (adapter.requiresImage && !post.imageUrl) {
+      throw new SocialPublishingError(`${post.platform} posts need an imageUrl`)
+    }
+  }
+
+  private requirePlatform(platform: string): SocialPlatform {
+    if (!SOCIAL_PLATFORMS.includes(platform as SocialPlatform)) {
+      throw new SocialPublishingError(`Unknown platform: ${platform}. Use one of ${SOCIAL_PLATFORMS.join(', ')}`)
+    }
+    return platform as SocialPlatform
+  }
+
+  private async requirePost(postId: string): Promise<SocialPost> {
+    const post = await this.store.get(postId)
+    if (!post) {
+      throw new SocialPublishingError('Post not found', 404)
+    }
+    return post
+  }
+
+  private requireStatus(post: SocialPost, allowed: SocialPostStatus[], action: string) {
+    if (!allowed.includes(post.status)) {
+      throw new SocialPublishingError(`A ${post.status} post cannot be ${action}`, 409)
+    }
+  }
+}
+
+let socialPublishingService: SocialPublishingService | null = null
+
+export function getSocialPublishingService(): SocialPublishingService {
+  if (!socialPublishingService) {
+    socialPublishingService = new SocialPublishingService()
+  }
+  return socialPublishingService
+}
+
+export default SocialPublishingService
@@ -0,0 +1,205 @@
+/**
+ * Speech-to-Text Service
+ * Transcribes voice input for IVOR through a pluggable backend.
+ *
+ * Backends:
+ * - WhisperTranscriptionBackend: any OpenAI-compatible Whisper server
+ *   (faster-whisper-server, whisper.cpp, LocalAI) at WHISPER_URL, self-hosted on Coolify
+ * - Anything implementing TranscriptionBackend (tests, alternative engines)
+ */
+
+export type AudioFormat = 'webm' | 'ogg' | 'wav' | 'mp3'
+
+// Whisper servers cap uploads at 25MB
+export const MAX_AUDIO_BYTES = 25 * 1024 * 1024
+
+const WHISPER_URL = process.env.WHISPER_URL || 'https://whisper.blkoutuk.cloud'
+const WHISPER_MODEL = process.env.WHISPER_MODEL || 'whisper-1'
+const WHISPER_TIMEOUT_MS = 60000
+
+const MIME_TYPES: Record<AudioFormat, string> = {
+  webm: 'audio/webm',
+  ogg: 'audio/ogg',
+  wav: 'audio/wav',
+  mp3: 'audio/mpeg'
+}
+
+const MIME_FORMATS: Record<string, AudioFormat> = {
+  'audio/webm': 'webm',
+  'video/webm': 'webm', // some browsers label audio-only MediaRecorder output as video
+  'audio/ogg': 'ogg',
+  'application/ogg': 'ogg',
+  'audio/wav': 'wav',
+  'audio/wave': 'wav',
+  'audio/x-wav': 'wav',
+  'audio/vnd.wave': 'wav',
+  'audio/mpeg': 'mp3',
+  'audio/mp3': 'mp3'
+}
+
+export interface AudioUpload {
+  data: Buffer
+  format: AudioFormat
+  filename?: string
+}
+
+export interface TranscriptionOptions {
+  // ISO-639-1 hint; Whisper detects the language when omitted
+  language?: string
+  // Vocabulary hint, e.g. names and community terms Whisper tends to mishear
+  prompt?: string
+}
+
+export interface BackendTranscription {
+  text: string
+  language?: string
+  durationSeconds?: number
+}
+
+export interface Transcription extends BackendTranscription {
+  backend: string
+  format: AudioFormat
+}
+
+export interface TranscriptionBackend {
+  readonly name: string
+
+  transcribe(audio: AudioUpload, options?: TranscriptionOptions): Promise<BackendTranscription>
+
+  isHealthy(): Promise<boolean>
+}
+
+export class SpeechToTextError extends Error {
+  constructor(message: string, public readonly status: 400 | 413 | 415 | 422 | 502 = 400) {
+    super(message)
+    this.name = 'SpeechToTextError'
+  }
+}
+
+/**
+ * Audio format from the declared content type, then the file extension,
+ * then the container's magic bytes. Null when it is none of webm/ogg/wav/mp3.
+ */
+export function detectAudioFormat(data: Buffer, contentType?: string, filename?: string): AudioFormat | null {
+  const mime = (contentType || '').split(';')[0].trim().toLowerCase()
+  if (MIME_FORMATS[mime]) return MIME_FORMATS[mime]
+
+  const extension = filename?.split('.').pop()?.toLowerCase()
+  if (extension === 'webm' || extension === 'ogg' || extension === 'wav' || extension === 'mp3') return extension
+  if (extension === 'oga' || extension === 'opus') return 'ogg'
+
+  if (data.length >= 4 && data.readUInt32BE(0) === 0x1a45dfa3) return 'webm'
+  if (data.subarray(0, 4).toString('latin1') === 'OggS') return 'ogg'
+  if (data.subarray(0, 4).toString('latin1') === 'RIFF' && data.subarray(8, 12).toString('latin1') === 'WAVE') return 'wav'
+  if (data.subarray(0, 3).toString('latin1') === 'ID3' || (data[0] === 0xff && (data[1] & 0xe0) === 0xe0)) return 'mp3'
+
+  return null
+}
+
+export class WhisperTranscriptionBackend implements TranscriptionBackend {
+  readonly name = 'whisper'
+
+  constructor(
+    private baseUrl: string = WHISPER_URL,
+    private model: string = WHISPER_MODEL,
+    private apiKey: string | undefined = process.env.WHISPER_API_KEY
+  ) {}
+
+  async transcribe(audio: AudioUpload, options: TranscriptionOptions = {}): Promise<BackendTranscription> {
+    const form = new FormData()
+    form.append('file', new Blob([audio.data], { type: MIME_TYPES[audio.format] }), audio.filename || `voice.${audio.format}`)
+    form.append('model', this.model)
+    form.append('response_format', 'verbose_json')
+    if (options.language) form.append('language', options.language)
+    if (options.prompt) form.append('prompt', options.prompt)
+
+    const response = await fetch(`${this.baseUrl}/v1/audio/transcriptions`, {
+      method: 'POST',
+      headers: this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : undefined,
+      body: form,
+      signal: AbortSignal.timeout(WHISPER_TIMEOUT_MS)
+    })
+
+    if (!response.ok) {
+      const errText = await response.text().catch(() => '')
+      throw new Error(`Whisper returned ${response.status}: ${errText.substring(0, 200)}`)
+    }
+
+    const result: any = await response.json()
+    return {
+      text: typeof result.text === 'string' ? result.text.trim() : '',
+      language: result.language,
+      durationSeconds: typeof result.duration === 'number' ? result.duration : undefined
+    }
+  }
+
+  async isHealthy(): Promise<boolean> {
+    try {
+      const response = await fetch(`${this.baseUrl}/health`, { signal: AbortSignal.timeout(5000) })
+      return response.ok
+    } catch {
+      return false
+    }
+  }
+}
+
+export class SpeechToTextService {
+  constructor(private backend: TranscriptionBackend = new WhisperTranscriptionBackend()) {}
+
+  get backendName(): string {
+    return this.backend.name
+  }
+
+  isHealthy(): Promise<boolean> {
+    return this.backend.isHealthy()
+  }
+
+  /**
+   * Validate an uploaded recording and transcribe it.
+   * Throws SpeechToTextError for bad input, an unreachable backend or silence.
+   */
+  async transcribe(
+    data: Buffer,
+    upload: { contentType?: string; filename?: string } & TranscriptionOptions = {}
+  ): Promise<Transcription> {
+    if (!data || data.length === 0) {
+      throw new SpeechToTextError('Audio is required')
+    }
+    if (data.length > MAX_AUDIO_BYTES) {
+      throw new SpeechToTextError(`Audio must be ${MAX_AUDIO_BYTES / (1024 * 1024)}MB or less`, 413)
+    }
+
+    const format = detectAudioFormat(data, upload.contentType, upload.filename)
+    if (!format) {
+      throw new SpeechToTextError('Unsupported audio format; send webm, ogg, wav or mp3', 415)
+    }
+
+    let result: BackendTranscription
+    try {
+      result = await this.backend.transcribe(
+        { data, format, filename: upload.filename },
+        { language: upload.language, prompt: upload.prompt }
+      )
+    } catch (error) {
+      console.error(`[Voice] ${this.backend.name} transcription failed:`, error)
+      throw new SpeechToTextError('Transcription service unavailable', 502)
+    }
+
+    if (!result.text.trim()) {
+      throw new SpeechToTextError('No speech detected in the recording', 422)
+    }
+
+    return { ...result, text: result.text.trim(), backend: this.backend.name, format }
+  }
+}
+
+let speechToTextService: SpeechToTextService | null = null
+
+export function getSpeechToTextService(): SpeechToTextService {
+  if (!speechToTextService) {
+    speechToTextService = new SpeechToTextService()
+  }
+  return speechToTextService
+}
+
+export default SpeechToTextService
@@ -0,0 +1,221 @@
+/**
+ * Ticket Check-In Store
+ * One row per ticket that has been let in, whichever door device scanned it,
+ * plus the lookups that say whether a validly signed ticket has since been
+ * cancelled or refunded.
+ *
+ * Backends:
+ * - SupabaseTicketCheckInStore: ticket_checkins table, unique on ticket_id so
+ *   two devices scanning the same ticket can't both record it (production)
+ * - InMemoryTicketCheckInStore: process-local, reading RSVPs from the RSVP
+ *   routes' demo-mode map (tests, demo mode)
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js'
+import { getSupabaseClient } from '../lib/supabaseClient.js'
+import { TicketKind } from '../lib/ticketTokens.js'
+
+export interface CheckIn {
+  ticketId: string
+  eventId: string
+  kind: TicketKind
+  admits: number
+  // When the ticket was scanned at the door, which for offline devices is before it reaches us
+  scannedAt: Date
+  deviceId?: string
+  recordedAt: Date
+}
+
+export interface TicketCheckInStore {
+  readonly backend: 'supabase' | 'memory'
+
+  /** Record a check-in unless the ticket already has one; returns the check-in that stands */
+  record(checkIn: CheckIn): Promise<{ checkIn: CheckIn; recorded: boolean }>
+
+  list(eventId: string): Promise<CheckIn[]>
+
+  /** Whether the RSVP was cancelled or the ticket's order refunded since it was issued */
+  isRevoked(kind: TicketKind, ticketId: string): Promise<boolean>
+
+  /** Every revoked ticket id for an event, for door devices working offline */
+  listRevoked(eventId: string): Promise<string[]>
+}
+
+const REVOKED_ORDER_STATUSES = ['refunded', 'cancelled', 'failed']
+
+function toRow(checkIn: CheckIn) {
+  return {
+    ticket_id: checkIn.ticketId,
+    event_id: checkIn.eventId,
+    kind: checkIn.kind,
+    admits: checkIn.admits,
+    scanned_at: checkIn.scannedAt.toISOString(),
+    device_id: checkIn.deviceId || null,
+    recorded_at: checkIn.recordedAt.toISOString()
+  }
+}
+
+function fromRow(row: any): CheckIn {
+  return {
+    ticketId: row.ticket_id,
+    eventId: row.event_id,
+    kind: row.kind,
+    admits: row.admits,
+    scannedAt: new Date(row.scanned_at),
+    deviceId: row.device_id || undefined,
+    recordedAt: new Date(row.recorded_at)
+  }
+}
+
+export class InMemoryTicketCheckInStore implements TicketCheckInStore {
+  readonly backend = 'memory' as const
+  private checkIns = new Map<string, CheckIn>()
+
+  /** @param rsvps event_rsvps-shaped rows keyed `${eventId}_${userId}` */
+  constructor(private rsvps: Map<string, any> = new Map()) {}
+
+  async record(checkIn: CheckIn): Promise<{ checkIn: CheckIn; recorded: boolean }> {
+    const existing = this.checkIns.get(checkIn.ticketId)
+    if (existing) return { checkIn: existing, recorded: false }
+
+    this.checkIns.set(checkIn.ticketId, checkIn)
+    const rsvp = checkIn.kind === 'rsvp' ? this.findRsvp(checkIn.ticketId) : undefined
+    if (rsvp) Object.assign(rsvp, { checked_in: true, checked_in_at: checkIn.scannedAt.toISOString() })
+    return { checkIn, recorded: true }
+  }
+
+  async list(eventId: string): Promise<CheckIn[]> {
+    return [...this.checkIns.values()].filter(c => c.eventId === eventId)
+  }
+
+  async isRevoked(kind: TicketKind, ticketId: string): Promise<boolean> {
+    // Paid tickets have no in-memory order to refund
+    if (kind !== 'rsvp') return false
+    const rsvp = this.findRsvp(ticketId)
+    return !rsvp || rsvp.status !== 'confirmed'
+  }
+
+  async listRevoked(eventId: string): Promise<string[]> {
+    return [...this.rsvps.values()].filter(r => r.event_id === eventId && r.status !== 'confirmed').map(r => r.id)
+  }
+
+  private findRsvp(id: string) {
+    return [...this.rsvps.values()].find(r => r.id === id)
+  }
+}
+
+export class SupabaseTicketCheckInStore implements TicketCheckInStore {
+  readonly backend = 'supabase' as const
+
+  constructor(private supabase: SupabaseClient) {}
+
+  async record(checkIn: CheckIn): Promise<{ checkIn: CheckIn; recorded: boolean }> {
+    const { error } = await this.supabase.from('ticket_checkins').insert(toRow(checkIn))
+
+    if (error) {
+      // Unique violation: another scan got there first
+      if (error.code === '23505') {
+        const { data, error: lookupError } = await this.supabase
+          .from('ticket_checkins')
+          .select('*')
+          .eq('ticket_id', checkIn.ticketId)
+          .single()
+
+        if (lookupError) {
+          throw new Error(`Failed to fetch check-in: ${lookupError.message}`)
+        }
+        return { checkIn: fromRow(data), recorded: false }
+      }
+      throw new Error(`Failed to record check-in: ${error.message}`)
+    }
+
+    // Keep the RSVP's own flag in step for the attendee list and capacity views
+    if (checkIn.kind === 'rsvp') {
+      const { error: rsvpError } = await this.supabase
+        .from('event_rsvps')
+        .update({ checked_in: true, checked_in_at: checkIn.scannedAt.toISOString() })
+        .eq('id', checkIn.ticketId)
+
+      if (rsvpError) {
+        console.error('[Tickets] Failed to mark RSVP checked in:', rsvpError.message)
+      }
+    }
+
+    return { checkIn, recorded: true }
+  }
+
+  async list(eventId: string): Promise<CheckIn[]> {
+    const { data, error } = await this.supabase
+      .from('ticket_checkins')
+      .select('*')
+      .eq('event_id', eventId)
+      .order('scanned_at', { ascending: true })
+
+    if (error) {
+      throw new Error(`Failed to list check-ins: ${error.message}`)
+    }
+
+    return (data || []).map(fromRow)
+  }
+
+  async isRevoked(kind: TicketKind, ticketId: string): Promise<boolean> {
+    if (kind === 'rsvp') {
+      const { data, error } = await this.supabase
+        .from('event_rsvps')
+        .select('status')
+        .eq('id', ticketId)
+        .maybeSingle()
+
+      if (error) {
+        throw new Error(`Failed to fetch RSVP: ${error.message}`)
+      }
+      return data?.status !== 'confirmed'
+    }
+
+    const { data, error } = await this.supabase
+      .from('shop_order_items')
+      .select('id, shop_orders!inner (status)')
+      .eq('id', ticketId)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Failed to fetch ticket: ${error.message}`)
+    }
+    const order: any = data?.shop_orders
+    return !data || REVOKED_ORDER_STATUSES.includes(order?.status)
+  }
+
+  async listRevoked(eventId: string): Promise<string[]> {
+    const [rsvps, tickets] = await Promise.all([
+      this.supabase
+        .from('event_rsvps')
+        .select('id')
+        .eq('event_id', eventId)
+        .neq('status', 'confirmed'),
+      this.supabase
+        .from('shop_order_items')
+        .select('id, shop_orders!inner (status)')
+        .eq('event_id', eventId)
+        .in('shop_orders.status', REVOKED_ORDER_STATUSES)
+    ])
+
+    if (rsvps.error) {
+      throw new Error(`Failed to list cancelled RSVPs: ${rsvps.error.message}`)
+    }
+    if (tickets.error) {
+      throw new Error(`Failed to list refunded tickets: ${tickets.error.message}`)
+    }
+
+    return [...(rsvps.data || []), ...(tickets.data || [])].map(row => row.id)
+  }
+}
+
+/**
+ * Pick the Supabase-backed store when credentials are configured,
+ * otherwise fall back to the in-memory store.
+ */
+export function createTicketCheckInStore(supabase: SupabaseClient | null = getSupabaseClient()): TicketCheckInStore {
+  return supabase ? new SupabaseTicketCheckInStore(supabase) : new InMemoryTicketCheckInStore()
+}
+
+export default createTicketCheckInStore
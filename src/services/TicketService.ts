@@ -0,0 +1,175 @@
+/**
+ * Ticket Service
+ * Renders the signed QR tickets issued for free RSVPs and paid tickets, and
+ * checks them in at the door.
+ *
+ * A door device can scan online (one check-in per request) or offline: it
+ * downloads the roster and public key beforehand, verifies signatures and
+ * tracks admissions locally, then syncs its scans when it reconnects. Every
+ * ticket is let in once across all devices; a synced scan for a ticket
+ * another device already admitted comes back flagged for the organiser.
+ */
+
+import { JsonWebKey } from 'crypto'
+import { TicketKind, ticketPublicKeyJwk, verifyTicketToken } from '../lib/ticketTokens.js'
+import { encodeQr, renderQrPng, renderQrSvg } from '../lib/qrCode.js'
+import { CheckIn, TicketCheckInStore, createTicketCheckInStore } from './TicketCheckInStore.js'
+import { trackEventMetric } from './AnalyticsService.js'
+
+export const MAX_SYNC_SCANS = 500
+
+export class TicketError extends Error {
+  constructor(message: string, public readonly status: 400 | 404 = 400) {
+    super(message)
+    this.name = 'TicketError'
+  }
+}
+
+export type CheckInStatus = 'admitted' | 'already_checked_in' | 'invalid' | 'wrong_event' | 'revoked'
+
+export interface CheckInResult {
+  status: CheckInStatus
+  ticketId?: string
+  kind?: TicketKind
+  admits?: number
+  // The check-in that stands for this ticket, which may be another device's
+  checkedInAt?: Date
+  deviceId?: string
+}
+
+export interface OfflineScan {
+  token: string
+  scannedAt: Date
+}
+
+export interface SyncResult {
+  results: (CheckInResult & { token: string })[]
+  admitted: number
+  // Admitted offline by this device after another device had already let the ticket in
+  conflicts: number
+  rejected: number
+}
+
+export class TicketService {
+  constructor(private store: TicketCheckInStore = createTicketCheckInStore()) {}
+
+  get backend() {
+    return this.store.backend
+  }
+
+  /** The QR code for a ticket this service signed */
+  renderQr(token: string, format: 'svg' | 'png'): { contentType: string; body: string | Buffer } {
+    if (!verifyTicketToken(token)) {
+      throw new TicketError('Ticket not recognised', 404)
+    }
+
+    const matrix = encodeQr(token)
+    return format === 'svg'
+      ? { contentType: 'image/svg+xml', body: renderQrSvg(matrix) }
+      : { contentType: 'image/png', body: renderQrPng(matrix) }
+  }
+
+  async checkIn(eventId: string, token: string, scan: { scannedAt?: Date; deviceId?: string } = {}, now: Date = new Date()): Promise<CheckInResult> {
+    const claims = verifyTicketToken(token)
+    if (!claims) return { status: 'invalid' }
+
+    const ticket = { ticketId: claims.ticketId, kind: claims.kind, admits: claims.admits }
+    if (claims.eventId !== eventId) return { status: 'wrong_event', ...ticket }
+    if (await this.store.isRevoked(claims.kind, claims.ticketId)) return { status: 'revoked', ...ticket }
+
+    return this.admit({ ...ticket, eventId, scannedAt: scan.scannedAt || now, deviceId: scan.deviceId, recordedAt: now })
+  }
+
+  /**
+   * Check in a confirmed RSVP found by its check-in code or attendee rather
+   * than a scanned ticket. It is recorded like a scan, so the RSVP's QR
+   * ticket can't let anyone in again afterwards.
+   */
+  checkInRsvp(
+    eventId: string,
+    rsvp: { id: string; guestCount?: number },
+    scan: { deviceId?: string } = {},
+    now: Date = new Date()
+  ): Promise<CheckInResult> {
+    return this.admit({
+      ticketId: rsvp.id,
+      kind: 'rsvp',
+      admits: 1 + (rsvp.guestCount || 0),
+      eventId,
+      scannedAt: now,
+      deviceId: scan.deviceId,
+      recordedAt: now
+    })
+  }
+
+  private async admit(attempt: CheckIn): Promise<CheckInResult> {
+    const { checkIn, recorded } = await this.store.record(attempt)
+
+    if (recorded) {
+      console.log(`✅ [Tickets] ${attempt.kind} ${attempt.ticketId} checked in at ${attempt.eventId}`)
+      await trackEventMetric(attempt.eventId, 'check_in', { actorKey: attempt.ticketId, quantity: attempt.admits, occurredAt: checkIn.scannedAt })
+    }
+
+    return {
+      status: recorded ? 'admitted' : 'already_checked_in',
+      ticketId: attempt.ticketId,
+      kind: attempt.kind,
+      admits: attempt.admits,
+      checkedInAt: checkIn.scannedAt,
+      deviceId: checkIn.deviceId
+    }
+  }
+
+  /** Reconcile scans a door device made offline, earliest first */
+  async sync(eventId: string, deviceId: string, scans: OfflineScan[], now: Date = new Date()): Promise<SyncResult> {
+    if (!deviceId) {
+      throw new TicketError('deviceId required')
+    }
+    if (scans.length > MAX_SYNC_SCANS) {
+      throw new TicketError(`At most ${MAX_SYNC_SCANS} scans per sync`)
+    }
+    if (scans.some(scan => !scan.token || isNaN(scan.scannedAt.getTime()))) {
+      throw new TicketError('Each scan needs a token and a valid scannedAt')
+    }
+
+    const result: SyncResult = { results: [], admitted: 0, conflicts: 0, rejected: 0 }
+    const ordered = [...scans].sort((a, b) => a.scannedAt.getTime() - b.scannedAt.getTime())
+
+    for (const scan of ordered) {
+      // A device clock running ahead can't date a scan into the future
+      const scannedAt = scan.scannedAt > now ? now : scan.scannedAt
+      const outcome = await this.checkIn(eventId, scan.token, { scannedAt, deviceId }, now)
+      result.results.push({ token: scan.token, ...outcome })
+
+      if (outcome.status === 'admitted') result.admitted++
+      else if (outcome.status === 'already_checked_in') result.conflicts++
+      else result.rejected++
+    }
+
+    console.log(`🔄 [Tickets] Synced ${scans.length} scan(s) from ${deviceId} for ${eventId}: ${result.conflicts} conflict(s)`)
+    return result
+  }
+
+  /** What a door device needs to keep checking people in with no connection */
+  async roster(eventId: string, now: Date = new Date()): Promise<{
+    eventId: string
+    publicKey: JsonWebKey
+    checkedIn: CheckIn[]
+    revoked: string[]
+    generatedAt: Date
+  }> {
+    const [checkedIn, revoked] = await Promise.all([this.store.list(eventId), this.store.listRevoked(eventId)])
+    return { eventId, publicKey: ticketPublicKeyJwk(), checkedIn, revoked, generatedAt: now }
+  }
+}
+
+let ticketService: TicketService | null = null
+
+export function getTicketService(): TicketService {
+  if (!ticketService) {
+    ticketService = new TicketService()
+  }
+  return ticketService
+}
+
+export default TicketService
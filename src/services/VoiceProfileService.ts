@@ -0,0 +1,176 @@
+/**
+ * Voice Profile Service
+ * Chooses Chatterbox delivery settings (exaggeration, pacing, temperature and
+ * which paralinguistic tags are voiced) from the journey context detected for
+ * the message IVOR is answering.
+ *
+ * Crisis responses — crisis stage, crisis emotion or emergency urgency — always
+ * use the calm, slow profile whatever else the context says.
+ *
+ * Chat responses register their journey context by responseId, so a client
+ * can ask for audio with just the id it got back from /api/chat. The registry
+ * is per process and short-lived; unknown ids fall back to the default voice.
+ */
+
+import { EmotionalState, JourneyStage, UrgencyLevel } from '../types/journey.js'
+
+const RESPONSE_CONTEXT_TTL_MS = 60 * 60 * 1000
+const MAX_REMEMBERED_RESPONSES = 5000
+
+// Chatterbox exaggeration range that still sounds natural
+const MIN_EXAGGERATION = 0.25
+const MAX_EXAGGERATION = 1.0
+
+const DEFAULT_EXAGGERATION = parseFloat(process.env.CHATTERBOX_EMOTION || '0.6')
+
+export interface VoiceContext {
+  stage?: JourneyStage
+  emotionalState?: EmotionalState
+  urgencyLevel?: UrgencyLevel
+}
+
+export interface VoiceSettings {
+  exaggeration: number
+  // Chatterbox classifier-free guidance: lower is slower, more deliberate delivery
+  cfgWeight: number
+  temperature: number
+  speed: number
+  // Paralinguistic tags ([sigh], [chuckle], ...) voiced in this profile; null keeps every tag
+  allowedTags: string[] | null
+}
+
+export interface VoiceProfile extends VoiceSettings {
+  name: string
+  // Part of the audio cache key, so each text/profile variant is cached separately
+  key: string
+}
+
+const CRISIS_SETTINGS: VoiceSettings = { exaggeration: 0.3, cfgWeight: 0.3, temperature: 0.5, speed: 0.85, allowedTags: [] }
+
+const DEFAULT_SETTINGS: VoiceSettings = { exaggeration: DEFAULT_EXAGGERATION, cfgWeight: 0.5, temperature: 0.8, speed: 1, allowedTags: null }
+
+const EMOTION_SETTINGS: Record<Exclude<EmotionalState, 'crisis'>, VoiceSettings> = {
+  overwhelmed: { exaggeration: 0.4, cfgWeight: 0.35, temperature: 0.6, speed: 0.9, allowedTags: [] },
+  stressed: { exaggeration: 0.45, cfgWeight: 0.4, temperature: 0.65, speed: 0.92, allowedTags: ['sigh'] },
+  uncertain: { exaggeration: 0.5, cfgWeight: 0.45, temperature: 0.7, speed: 0.95, allowedTags: ['sigh'] },
+  calm: { exaggeration: 0.5, cfgWeight: 0.5, temperature: 0.75, speed: 1, allowedTags: ['sigh', 'chuckle'] },
+  hopeful: { exaggeration: 0.6, cfgWeight: 0.5, temperature: 0.8, speed: 1, allowedTags: ['chuckle'] },
+  joyful: { exaggeration: 0.75, cfgWeight: 0.5, temperature: 0.8, speed: 1.05, allowedTags: ['laugh', 'chuckle'] },
+  excited: { exaggeration: 0.8, cfgWeight: 0.55, temperature: 0.8, speed: 1.05, allowedTags: ['laugh', 'chuckle'] }
+}
+
+// Nudges on top of the emotion's settings
+const STAGE_ADJUSTMENTS: Partial<Record<JourneyStage, { exaggeration: number; speed: number }>> = {
+  stabilization: { exaggeration: -0.05, speed: -0.03 },
+  advocacy: { exaggeration: 0.1, speed: 0 }
+}
+
+const EMOTIONAL_STATES: EmotionalState[] = ['calm', 'stressed', 'excited', 'overwhelmed', 'joyful', 'uncertain', 'crisis', 'hopeful']
+const JOURNEY_STAGES: JourneyStage[] = ['crisis', 'stabilization', 'growth', 'community_healing', 'advocacy']
+const URGENCY_LEVELS: UrgencyLevel[] = ['emergency', 'high', 'medium', 'low']
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+function profileKey(name: string, settings: VoiceSettings): string {
+  const tags = settings.allowedTags === null ? '*' : settings.allowedTags.join('+')
+  return `${name}-${settings.exaggeration}-${settings.cfgWeight}-${settings.temperature}-${settings.speed}-${tags}`
+}
+
+function toProfile(name: string, settings: VoiceSettings): VoiceProfile {
+  return { name, key: profileKey(name, settings), ...settings }
+}
+
+/**
+ * Accept a JourneyContext as returned by /api/chat. The chat error fallback
+ * uses `emotion`/`urgency`, so those keys are read too; unknown values are dropped.
+ */
+export function normalizeVoiceContext(raw: any): VoiceContext | undefined {
+  if (!raw || typeof raw !== 'object') return undefined
+
+  const emotion = raw.emotionalState ?? raw.emotion
+  const urgency = raw.urgencyLevel ?? raw.urgency
+  const context: VoiceContext = {
+    stage: JOURNEY_STAGES.includes(raw.stage) ? raw.stage : undefined,
+    emotionalState: EMOTIONAL_STATES.includes(emotion) ? emotion : undefined,
+    urgencyLevel: URGENCY_LEVELS.includes(urgency) ? urgency : undefined
+  }
+
+  return context.stage || context.emotionalState || context.urgencyLevel ? context : undefined
+}
+
+export function isCrisisContext(context: VoiceContext): boolean {
+  return context.stage === 'crisis' || context.emotionalState === 'crisis' || context.urgencyLevel === 'emergency'
+}
+
+export function selectVoiceProfile(context?: VoiceContext): VoiceProfile {
+  if (!context) return toProfile('default', DEFAULT_SETTINGS)
+  if (isCrisisContext(context)) return toProfile('crisis', CRISIS_SETTINGS)
+
+  const emotion = context.emotionalState && context.emotionalState !== 'crisis' ? context.emotionalState : undefined
+  const base = emotion ? EMOTION_SETTINGS[emotion] : DEFAULT_SETTINGS
+  const adjustment = context.stage ? STAGE_ADJUSTMENTS[context.stage] : undefined
+
+  const settings: VoiceSettings = {
+    ...base,
+    exaggeration: round(Math.min(MAX_EXAGGERATION, Math.max(MIN_EXAGGERATION, base.exaggeration + (adjustment?.exaggeration ?? 0)))),
+    speed: round(base.speed + (adjustment?.speed ?? 0))
+  }
+
+  return toProfile([emotion || 'default', context.stage].filter(Boolean).join('-'), settings)
+}
+
+/** Remove paralinguistic tags the profile doesn't voice, e.g. a [laugh] in a crisis reply */
+export function applyParalinguisticTags(text: string, profile: VoiceSettings): string {
+  if (profile.allowedTags === null) return text
+
+  return text
+    .replace(/\[([a-z ]+)\]/gi, (tag, name: string) => (profile.allowedTags!.includes(name.trim().toLowerCase()) ? tag : ''))
+    .replace(/ {2,}/g, ' ')
+    .trim()
+}
+
+export class VoiceProfileService {
+  private responseContexts = new Map<string, { context: VoiceContext; expiresAt: number }>()
+
+  /** Remember the journey context a chat response was generated for */
+  rememberResponse(responseId: string | undefined, rawContext: any, now: number = Date.now()): void {
+    const context = normalizeVoiceContext(rawContext)
+    if (!responseId || !context) return
+
+    // Maps iterate in insertion order, so the first key is the oldest
+    if (this.responseContexts.size >= MAX_REMEMBERED_RESPONSES) {
+      this.responseContexts.delete(this.responseContexts.keys().next().value as string)
+    }
+    this.responseContexts.set(responseId, { context, expiresAt: now + RESPONSE_CONTEXT_TTL_MS })
+  }
+
+  contextForResponse(responseId: string, now: number = Date.now()): VoiceContext | undefined {
+    const remembered = this.responseContexts.get(responseId)
+    if (!remembered) return undefined
+    if (remembered.expiresAt <= now) {
+      this.responseContexts.delete(responseId)
+      return undefined
+    }
+    return remembered.context
+  }
+
+  /** An explicit journeyContext wins over one remembered for the responseId */
+  resolve(options: { journeyContext?: any; responseId?: string }): { profile: VoiceProfile; context?: VoiceContext } {
+    const context = normalizeVoiceContext(options.journeyContext)
+      ?? (options.responseId ? this.contextForResponse(options.responseId) : undefined)
+    return { profile: selectVoiceProfile(context), context }
+  }
+}
+
+let voiceProfileService: VoiceProfileService | null = null
+
+export function getVoiceProfileService(): VoiceProfileService {
+  if (!voiceProfileService) {
+    voiceProfileService = new VoiceProfileService()
+  }
+  return voiceProfileService
+}
+
+export default VoiceProfileService
@@ -0,0 +1,191 @@
+/**
+ * Waitlist Service
+ * Moves people off an event's waitlist when places free up: a cancellation,
+ * a capacity increase, or the scheduler clearing stale RSVPs.
+ *
+ * Promotion is first-come-first-served and comes as an offer: the place is
+ * held for the promoted person until the offer window closes, then passes to
+ * the next person waiting. Each step (offered, confirmed, lapsed) is sent as
+ * a notification, with offers and confirmations also emailed.
+ */
+
+import { WaitlistEntry, WaitlistStore, createWaitlistStore } from './WaitlistStore.js'
+import { NotificationQueueService, getNotificationQueueService } from './NotificationQueueService.js'
+import { EmailService, getEmailService } from './EmailService.js'
+import { createTicketToken } from '../lib/ticketTokens.js'
+import { eventPath } from '../lib/recurrence.js'
+
+export const DEFAULT_OFFER_WINDOW_HOURS = 12
+
+export class WaitlistError extends Error {
+  constructor(message: string, public readonly status: 404 | 409 = 409) {
+    super(message)
+    this.name = 'WaitlistError'
+  }
+}
+
+export interface OfferExpiryResult {
+  expired: number
+  offered: number
+}
+
+function formatDeadline(date: Date): string {
+  return new Intl.DateTimeFormat('en-GB', { weekday: 'short', hour: '2-digit', minute: '2-digit', timeZone: 'Europe/London' }).format(date)
+}
+
+export class WaitlistService {
+  constructor(
+    private store: WaitlistStore = createWaitlistStore(),
+    private queue: NotificationQueueService | null = getNotificationQueueService(),
+    private email: EmailService | null = getEmailService(),
+    private offerWindowMs: number = (parseFloat(process.env.WAITLIST_OFFER_HOURS || '') || DEFAULT_OFFER_WINDOW_HOURS) * 60 * 60 * 1000
+  ) {}
+
+  get backend() {
+    return this.store.backend
+  }
+
+  /** Offer any free places to the front of the waitlist */
+  async promote(eventId: string, now: Date = new Date()): Promise<WaitlistEntry[]> {
+    const offers = await this.store.promote(eventId, new Date(now.getTime() + this.offerWindowMs), now)
+    if (offers.length === 0) return offers
+
+    const eventTitle = (await this.store.eventTitle(eventId)) || 'an event you\'re waiting for'
+    for (const offer of offers) {
+      await this.notify(offer, {
+        title: '🎟️ A place has opened up',
+        body: `You're off the waitlist for ${eventTitle}. Accept by ${formatDeadline(offer.offerExpiresAt!)} to keep it.`,
+        priority: 'high',
+        kind: 'offered'
+      }, now)
+
+      // Every offer is already made, so one failed email mustn't stop the rest being sent
+      if (offer.attendeeEmail && this.email) {
+        try {
+          await this.email.sendWaitlistOffer({
+            to: offer.attendeeEmail,
+            name: offer.attendeeName,
+            eventId,
+            eventTitle,
+            expiresAt: offer.offerExpiresAt!
+          })
+        } catch (error) {
+          console.error(`[Waitlist] Failed to email offer to ${offer.userId}:`, error)
+        }
+      }
+    }
+
+    console.log(`🎟️ [Waitlist] ${offers.length} offer(s) made for ${eventId}`)
+    return offers
+  }
+
+  async accept(eventId: string, userId: string, now: Date = new Date()): Promise<WaitlistEntry> {
+    const confirmed = await this.store.acceptOffer(eventId, userId, now)
+    if (!confirmed) {
+      const entry = await this.store.get(eventId, userId)
+      if (!entry) throw new WaitlistError('RSVP not found', 404)
+      if (entry.status === 'confirmed') return entry
+      throw new WaitlistError(entry.status === 'offered' || entry.status === 'offer_expired'
+        ? 'This offer has expired'
+        : 'There is no open offer for this RSVP')
+    }
+
+    const eventTitle = (await this.store.eventTitle(eventId)) || 'your BLKOUT event'
+    await this.notify(confirmed, { title: '✅ You\'re going', body: `Your place at ${eventTitle} is confirmed.`, priority: 'normal', kind: 'confirmed' }, now)
+    // The place is already confirmed; a failed email is logged, not reported as a failed accept
+    if (confirmed.attendeeEmail && this.email) {
+      try {
+        await this.email.sendRsvpConfirmation({
+          to: confirmed.attendeeEmail,
+          name: confirmed.attendeeName,
+          eventId,
+          eventTitle,
+          checkInCode: confirmed.checkInCode,
+          ticketToken: createTicketToken({
+            ticketId: confirmed.id,
+            eventId,
+            kind: 'rsvp',
+            admits: 1 + confirmed.guestCount,
+            issuedAt: now
+          })
+        })
+      } catch (error) {
+        console.error(`[Waitlist] Failed to email confirmation to ${confirmed.userId}:`, error)
+      }
+    }
+
+    console.log(`🎟️ [Waitlist] Offer accepted: ${eventId}`)
+    return confirmed
+  }
+
+  /** Turn down an offer; the place goes to the next person */
+  async decline(eventId: string, userId: string, now: Date = new Date()): Promise<WaitlistEntry[]> {
+    if (!(await this.store.declineOffer(eventId, userId, now))) {
+      throw new WaitlistError('There is no open offer for this RSVP')
+    }
+    return this.promote(eventId, now)
+  }
+
+  /** Lapse offers past their window and pass each place on; called by the scheduler */
+  async expireOffers(now: Date = new Date()): Promise<OfferExpiryResult> {
+    const expired = await this.store.expireOffers(now)
+
+    for (const entry of expired) {
+      await this.notify(entry, {
+        title: 'Waitlist offer expired',
+        body: 'The place we held for you has passed to the next person waiting.',
+        priority: 'normal',
+        kind: 'expired'
+      }, now)
+    }
+
+    let offered = 0
+    for (const eventId of new Set(expired.map(entry => entry.eventId))) {
+      offered += (await this.promote(eventId, now)).length
+    }
+
+    return { expired: expired.length, offered }
+  }
+
+  async status(eventId: string, userId: string): Promise<{ entry: WaitlistEntry; position: number | null }> {
+    const entry = await this.store.get(eventId, userId)
+    if (!entry) {
+      throw new WaitlistError('RSVP not found', 404)
+    }
+    return { entry, position: await this.store.position(eventId, userId) }
+  }
+
+  private async notify(
+    entry: WaitlistEntry,
+    message: { title: string; body: string; priority: 'high' | 'normal'; kind: string },
+    now: Date
+  ) {
+    if (!this.queue) return
+    try {
+      await this.queue.enqueue({
+        userIds: [entry.userId],
+        topic: 'events',
+        title: message.title,
+        body: message.body,
+        url: eventPath(entry.eventId),
+        data: { eventId: entry.eventId, type: 'waitlist', transition: message.kind },
+        priority: message.priority,
+        // One notification per transition, even if a promotion is retried
+        dedupeKey: `waitlist:${entry.eventId}:${entry.userId}:${message.kind}:${entry.offerExpiresAt?.getTime() ?? now.getTime()}`
+      }, now)
+    } catch (error) {
+      console.error(`[Waitlist] Failed to queue ${message.kind} notification:`, error)
+    }
+  }
+}
+
+let waitlistService: WaitlistService | null = null
+
+export function getWaitlistService(): WaitlistService {
+  if (!waitlistService) {
+    waitlistService = new WaitlistService()
+  }
+  return waitlistService
+}
+
+export default WaitlistService
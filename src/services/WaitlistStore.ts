@@ -0,0 +1,263 @@
+/**
+ * Waitlist Store
+ * Offers, acceptances and expiry for event waitlists, on top of the
+ * event_rsvps and event_capacity rows the RSVP routes write.
+ *
+ * Backends:
+ * - SupabaseWaitlistStore: promote_waitlist / expire_waitlist_offers functions,
+ *   which lock the event's capacity row so concurrent promotions can't
+ *   over-fill an event (production)
+ * - InMemoryWaitlistStore: works on the RSVP routes' demo-mode maps; each
+ *   operation runs without awaiting, so it is atomic within the process
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js'
+import { getSupabaseClient } from '../lib/supabaseClient.js'
+import { parseOccurrenceId } from '../lib/recurrence.js'
+
+/** An event_rsvps row as the waitlist sees it */
+export interface WaitlistEntry {
+  id: string
+  eventId: string
+  userId: string
+  status: string
+  attendeeName?: string
+  attendeeEmail?: string
+  guestCount: number
+  checkInCode?: string
+  offerExpiresAt?: Date
+  createdAt: Date
+}
+
+export interface WaitlistStore {
+  readonly backend: 'supabase' | 'memory'
+
+  /** Offer free places to the front of the event's waitlist, in order; returns the new offers */
+  promote(eventId: string, offerExpiresAt: Date, now: Date): Promise<WaitlistEntry[]>
+
+  /** Confirm an offer that is still open; null when there is none */
+  acceptOffer(eventId: string, userId: string, now: Date): Promise<WaitlistEntry | null>
+
+  /** Give up an open offer; returns whether there was one */
+  declineOffer(eventId: string, userId: string, now: Date): Promise<boolean>
+
+  /** Lapse every offer whose window has closed; returns them */
+  expireOffers(now: Date): Promise<WaitlistEntry[]>
+
+  get(eventId: string, userId: string): Promise<WaitlistEntry | null>
+
+  /** 1-based place in the queue, or null when not waiting */
+  position(eventId: string, userId: string): Promise<number | null>
+
+  eventTitle(eventId: string): Promise<string | null>
+}
+
+function entryFromRow(row: any): WaitlistEntry {
+  return {
+    id: row.id,
+    eventId: row.event_id,
+    userId: row.user_id,
+    status: row.status,
+    attendeeName: row.attendee_name || undefined,
+    attendeeEmail: row.attendee_email || undefined,
+    guestCount: row.guest_count || 0,
+    checkInCode: row.check_in_code || undefined,
+    offerExpiresAt: row.offer_expires_at ? new Date(row.offer_expires_at) : undefined,
+    createdAt: new Date(row.created_at)
+  }
+}
+
+function byQueueOrder(a: any, b: any): number {
+  return new Date(a.created_at).getTime() - new Date(b.created_at).getTime() || String(a.id).localeCompare(String(b.id))
+}
+
+export class InMemoryWaitlistStore implements WaitlistStore {
+  readonly backend = 'memory' as const
+
+  /**
+   * @param rsvps event_rsvps-shaped rows keyed `${eventId}_${userId}`
+   * @param capacity event_capacity-shaped rows keyed by event id
+   */
+  constructor(
+    private rsvps: Map<string, any> = new Map(),
+    private capacity: Map<string, any> = new Map()
+  ) {}
+
+  async promote(eventId: string, offerExpiresAt: Date, now: Date): Promise<WaitlistEntry[]> {
+    const capacity = this.capacity.get(eventId)
+    if (!capacity) return []
+
+    const rows = [...this.rsvps.values()].filter(r => r.event_id === eventId)
+    let free = capacity.max_capacity
+      ? capacity.max_capacity - rows
+        .filter(r => r.status === 'confirmed' || r.status === 'offered')
+        .reduce((sum, r) => sum + 1 + (r.guest_count || 0), 0)
+      : Infinity
+
+    const offers: WaitlistEntry[] = []
+    for (const row of rows.filter(r => r.status === 'waitlist').sort(byQueueOrder)) {
+      if (free < 1 + (row.guest_count || 0)) break
+      free -= 1 + (row.guest_count || 0)
+      Object.assign(row, { status: 'offered', offered_at: now.toISOString(), offer_expires_at: offerExpiresAt.toISOString(), updated_at: now.toISOString() })
+      offers.push(entryFromRow(row))
+    }
+    return offers
+  }
+
+  async acceptOffer(eventId: string, userId: string, now: Date): Promise<WaitlistEntry | null> {
+    const row = this.rsvps.get(`${eventId}_${userId}`)
+    if (!row || row.status !== 'offered' || new Date(row.offer_expires_at) <= now) return null
+    Object.assign(row, { status: 'confirmed', updated_at: now.toISOString() })
+    return entryFromRow(row)
+  }
+
+  async declineOffer(eventId: string, userId: string, now: Date): Promise<boolean> {
+    const row = this.rsvps.get(`${eventId}_${userId}`)
+    if (!row || row.status !== 'offered') return false
+    Object.assign(row, { status: 'cancelled', updated_at: now.toISOString() })
+    return true
+  }
+
+  async expireOffers(now: Date): Promise<WaitlistEntry[]> {
+    const expired = [...this.rsvps.values()].filter(r => r.status === 'offered' && new Date(r.offer_expires_at) <= now)
+    for (const row of expired) {
+      Object.assign(row, { status: 'offer_expired', updated_at: now.toISOString() })
+    }
+    return expired.map(entryFromRow)
+  }
+
+  async get(eventId: string, userId: string): Promise<WaitlistEntry | null> {
+    const row = this.rsvps.get(`${eventId}_${userId}`)
+    return row ? entryFromRow(row) : null
+  }
+
+  async position(eventId: string, userId: string): Promise<number | null> {
+    const queue = [...this.rsvps.values()].filter(r => r.event_id === eventId && r.status === 'waitlist').sort(byQueueOrder)
+    const index = queue.findIndex(r => r.user_id === userId)
+    return index === -1 ? null : index + 1
+  }
+
+  async eventTitle(): Promise<string | null> {
+    return null
+  }
+}
+
+export class SupabaseWaitlistStore implements WaitlistStore {
+  readonly backend = 'supabase' as const
+
+  constructor(private supabase: SupabaseClient) {}
+
+  async promote(eventId: string, offerExpiresAt: Date): Promise<WaitlistEntry[]> {
+    const { data, error } = await this.supabase.rpc('promote_waitlist', {
+      p_event_id: eventId,
+      p_offer_expires_at: offerExpiresAt.toISOString()
+    })
+
+    if (error) {
+      throw new Error(`Failed to promote waitlist: ${error.message}`)
+    }
+
+    return (data || []).map(entryFromRow)
+  }
+
+  async acceptOffer(eventId: string, userId: string, now: Date): Promise<WaitlistEntry | null> {
+    // Conditional update: only an offer still open at `now` can be taken
+    const { data, error } = await this.supabase
+      .from('event_rsvps')
+      .update({ status: 'confirmed', updated_at: now.toISOString() })
+      .eq('event_id', eventId)
+      .eq('user_id', userId)
+      .eq('status', 'offered')
+      .gt('offer_expires_at', now.toISOString())
+      .select()
+
+    if (error) {
+      throw new Error(`Failed to accept waitlist offer: ${error.message}`)
+    }
+
+    return data?.[0] ? entryFromRow(data[0]) : null
+  }
+
+  async declineOffer(eventId: string, userId: string, now: Date): Promise<boolean> {
+    const { data, error } = await this.supabase
+      .from('event_rsvps')
+      .update({ status: 'cancelled', updated_at: now.toISOString() })
+      .eq('event_id', eventId)
+      .eq('user_id', userId)
+      .eq('status', 'offered')
+      .select('id')
+
+    if (error) {
+      throw new Error(`Failed to decline waitlist offer: ${error.message}`)
+    }
+
+    return (data || []).length > 0
+  }
+
+  async expireOffers(now: Date): Promise<WaitlistEntry[]> {
+    const { data, error } = await this.supabase.rpc('expire_waitlist_offers', { p_now: now.toISOString() })
+
+    if (error) {
+      throw new Error(`Failed to expire waitlist offers: ${error.message}`)
+    }
+
+    return (data || []).map(entryFromRow)
+  }
+
+  async get(eventId: string, userId: string): Promise<WaitlistEntry | null> {
+    const { data, error } = await this.supabase
+      .from('event_rsvps')
+      .select('*')
+      .eq('event_id', eventId)
+      .eq('user_id', userId)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Failed to fetch RSVP: ${error.message}`)
+    }
+
+    return data ? entryFromRow(data) : null
+  }
+
+  async position(eventId: string, userId: string): Promise<number | null> {
+    const entry = await this.get(eventId, userId)
+    if (!entry || entry.status !== 'waitlist') return null
+
+    const { count, error } = await this.supabase
+      .from('event_rsvps')
+      .select('id', { count: 'exact', head: true })
+      .eq('event_id', eventId)
+      .eq('status', 'waitlist')
+      .lt('created_at', entry.createdAt.toISOString())
+
+    if (error) {
+      throw new Error(`Failed to fetch waitlist position: ${error.message}`)
+    }
+
+    return (count || 0) + 1
+  }
+
+  async eventTitle(eventId: string): Promise<string | null> {
+    const { data, error } = await this.supabase
+      .from('events')
+      .select('title')
+      .eq('id', parseOccurrenceId(eventId).eventId)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Failed to fetch event: ${error.message}`)
+    }
+
+    return data?.title || null
+  }
+}
+
+/**
+ * Pick the Supabase-backed store when credentials are configured,
+ * otherwise fall back to the in-memory store.
+ */
+export function createWaitlistStore(supabase: SupabaseClient | null = getSupabaseClient()): WaitlistStore {
+  return supabase ? new SupabaseWaitlistStore(supabase) : new InMemoryWaitlistStore()
+}
+
+export default createWaitlistStore
@@ -0,0 +1,342 @@
+/**
+ * Wellness Assessment Service
+ * Scores the 15-section wellness assessment defined in data/wellnessAssessment.ts,
+ * derives insights from low/high sections, maps growth areas to UKKnowledgeBase
+ * resources and learning modules, and persists results for progress tracking.
+ *
+ * Scoring is deterministic: each answer (1–5, flipped when reverse-scored) is
+ * normalised to 0–100 and averaged by question weight; the overall score is
+ * the section-weighted average of each section's most recent result.
+ */
+
+import { randomUUID } from 'crypto'
+import { SupabaseClient } from '@supabase/supabase-js'
+import { getSupabaseClient } from '../lib/supabaseClient.js'
+import { UKKnowledgeBase } from './UKKnowledgeBase.js'
+import { WellnessResult, WellnessResultStore, WellnessRecommendation, createWellnessResultStore } from './WellnessResultStore.js'
+import {
+  WELLNESS_SECTIONS,
+  WELLNESS_SCALE,
+  STRENGTH_THRESHOLD,
+  GROWTH_THRESHOLD,
+  WellnessSection,
+  getWellnessSection
+} from '../data/wellnessAssessment.js'
+import { JourneyStage, UKLocation } from '../types/journey.js'
+
+export type WellnessAnswersInput = Record<string, number | string> | Array<{ questionId: string; value: number | string }>
+
+export type WellnessBand = 'strength' | 'steady' | 'growth'
+
+export interface SectionScore {
+  sectionId: string
+  title: string
+  score: number
+  band: WellnessBand
+  answered: number
+  totalQuestions: number
+  // Lowest-scoring questions after reverse scoring, for targeted insights
+  lowestQuestions: string[]
+}
+
+export interface WellnessSubmission {
+  userId?: string
+  sectionId: string
+  answers: WellnessAnswersInput
+  location?: UKLocation
+}
+
+export interface WellnessProgress {
+  overallScore: number | null
+  sectionsCompleted: number
+  totalSections: number
+  strengths: string[]
+  growthAreas: string[]
+  sections: Array<{ sectionId: string; title: string; score: number; band: WellnessBand; completedAt: string }>
+  history: Array<{ sectionId: string; score: number; completedAt: string }>
+  nextSection: string | null
+  lastUpdated: string | null
+}
+
+export class WellnessAssessmentError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'WellnessAssessmentError'
+  }
+}
+
+const MAX_RESOURCES_PER_SECTION = 3
+const MAX_MODULES_PER_SECTION = 2
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10
+}
+
+export function bandFor(score: number): WellnessBand {
+  if (score >= STRENGTH_THRESHOLD) return 'strength'
+  if (score < GROWTH_THRESHOLD) return 'growth'
+  return 'steady'
+}
+
+/**
+ * Normalise answers to questionId → 1..5, dropping unknown questions and
+ * out-of-range values.
+ */
+export function normalizeAnswers(section: WellnessSection, input: WellnessAnswersInput): Record<string, number> {
+  const entries = Array.isArray(input)
+    ? input.map(item => [item.questionId, item.value] as const)
+    : Object.entries(input || {})
+
+  const known = new Set(section.questions.map(q => q.id))
+  const answers: Record<string, number> = {}
+  for (const [questionId, raw] of entries) {
+    const value = Number(raw)
+    if (known.has(questionId) && Number.isFinite(value) && value >= WELLNESS_SCALE.min && value <= WELLNESS_SCALE.max) {
+      answers[questionId] = value
+    }
+  }
+  return answers
+}
+
+export function scoreSection(section: WellnessSection, answers: Record<string, number>): SectionScore {
+  const range = WELLNESS_SCALE.max - WELLNESS_SCALE.min
+  let weighted = 0
+  let totalWeight = 0
+  const itemScores: Array<{ text: string; score: number }> = []
+
+  for (const question of section.questions) {
+    const value = answers[question.id]
+    if (value === undefined) continue
+
+    const oriented = question.reverse ? WELLNESS_SCALE.max + WELLNESS_SCALE.min - value : value
+    const itemScore = ((oriented - WELLNESS_SCALE.min) / range) * 100
+    const weight = question.weight ?? 1
+
+    weighted += itemScore * weight
+    totalWeight += weight
+    itemScores.push({ text: question.text, score: itemScore })
+  }
+
+  if (totalWeight === 0) {
+    throw new WellnessAssessmentError(`No valid answers for section ${section.id}`)
+  }
+
+  const score = round(weighted / totalWeight)
+  const lowest = Math.min(...itemScores.map(i => i.score))
+
+  return {
+    sectionId: section.id,
+    title: section.title,
+    score,
+    band: bandFor(score),
+    answered: itemScores.length,
+    totalQuestions: section.questions.length,
+    lowestQuestions: lowest < GROWTH_THRESHOLD ? itemScores.filter(i => i.score === lowest).map(i => i.text) : []
+  }
+}
+
+/**
+ * Section-weighted average of the latest result per section.
+ */
+export function calculateOverallScore(latestBySection: Map<string, WellnessResult>): number | null {
+  let weighted = 0
+  let totalWeight = 0
+  for (const section of WELLNESS_SECTIONS) {
+    const result = latestBySection.get(section.id)
+    if (!result) continue
+    weighted += result.score * section.weight
+    totalWeight += section.weight
+  }
+  return totalWeight > 0 ? round(weighted / totalWeight) : null
+}
+
+export function generateSectionInsights(section: WellnessSection, sectionScore: SectionScore): string[] {
+  const insights: string[] = []
+
+  if (sectionScore.band === 'strength') {
+    insights.push(section.strengthInsight)
+  } else if (sectionScore.band === 'growth') {
+    insights.push(section.growthInsight)
+  } else {
+    insights.push(`${section.title} is broadly steady, with some room to build.`)
+  }
+
+  for (const text of sectionScore.lowestQuestions) {
+    insights.push(`"${text}" stood out as the hardest area in ${section.title.toLowerCase()}.`)
+  }
+
+  if (sectionScore.answered < sectionScore.totalQuestions) {
+    insights.push(`Based on ${sectionScore.answered} of ${sectionScore.totalQuestions} questions — answering the rest will sharpen this picture.`)
+  }
+
+  return insights
+}
+
+export class WellnessAssessmentService {
+  private store: WellnessResultStore
+  private knowledgeBase: UKKnowledgeBase
+  private supabase: SupabaseClient | null
+
+  constructor(
+    store?: WellnessResultStore,
+    knowledgeBase?: UKKnowledgeBase,
+    supabase: SupabaseClient | null = getSupabaseClient()
+  ) {
+    this.store = store || createWellnessResultStore(supabase)
+    this.knowledgeBase = knowledgeBase || new UKKnowledgeBase()
+    this.supabase = supabase
+  }
+
+  getSections(): WellnessSection[] {
+    return WELLNESS_SECTIONS
+  }
+
+  /**
+   * Score one section, persist it for signed-in users and suggest the next section.
+   */
+  async submitSection(submission: WellnessSubmission) {
+    const section = getWellnessSection(submission.sectionId)
+    if (!section) {
+      throw new WellnessAssessmentError(`Unknown wellness section: ${submission.sectionId}`)
+    }
+
+    const answers = normalizeAnswers(section, submission.answers)
+    const sectionScore = scoreSection(section, answers)
+
+    const result: WellnessResult = {
+      id: randomUUID(),
+      userId: submission.userId || 'anonymous',
+      sectionId: section.id,
+      score: sectionScore.score,
+      answers,
+      insights: generateSectionInsights(section, sectionScore),
+      recommendations: await this.recommend(section, sectionScore, submission.location || 'unknown'),
+      completedAt: new Date()
+    }
+
+    let completed = new Set<string>([section.id])
+    if (submission.userId && submission.userId !== 'anonymous') {
+      await this.store.save(result)
+      const history = await this.store.getResults(submission.userId)
+      completed = new Set(history.map(r => r.sectionId))
+    }
+
+    return {
+      assessment: { ...result, band: sectionScore.band, completedAt: result.completedAt.toISOString() },
+      nextSection: this.getNextSection(section.id, completed)
+    }
+  }
+
+  async getProgress(userId: string): Promise<WellnessProgress> {
+    const history = await this.store.getResults(userId)
+
+    const latestBySection = new Map<string, WellnessResult>()
+    for (const result of history) {
+      latestBySection.set(result.sectionId, result)
+    }
+
+    const sections = WELLNESS_SECTIONS
+      .filter(section => latestBySection.has(section.id))
+      .map(section => {
+        const result = latestBySection.get(section.id)!
+        return {
+          sectionId: section.id,
+          title: section.title,
+          score: result.score,
+          band: bandFor(result.score),
+          completedAt: result.completedAt.toISOString()
+        }
+      })
+
+    const byScore = [...sections].sort((a, b) => b.score - a.score)
+    const last = history[history.length - 1]
+
+    return {
+      overallScore: calculateOverallScore(latestBySection),
+      sectionsCompleted: sections.length,
+      totalSections: WELLNESS_SECTIONS.length,
+      strengths: byScore.filter(s => s.band === 'strength').map(s => s.title),
+      growthAreas: byScore.filter(s => s.band === 'growth').reverse().map(s => s.title),
+      sections,
+      history: history.map(r => ({ sectionId: r.sectionId, score: r.score, completedAt: r.completedAt.toISOString() })),
+      nextSection: this.getNextSection(last?.sectionId, new Set(latestBySection.keys())),
+      lastUpdated: last ? last.completedAt.toISOString() : null
+    }
+  }
+
+  /**
+   * The next section in assessment order the user hasn't completed, wrapping
+   * around after the current one.
+   */
+  getNextSection(currentSectionId: string | undefined, completed: Set<string> = new Set()): string | null {
+    const ids = WELLNESS_SECTIONS.map(s => s.id)
+    const start = currentSectionId ? ids.indexOf(currentSectionId) + 1 : 0
+    for (let offset = 0; offset < ids.length; offset++) {
+      const id = ids[(start + offset) % ids.length]
+      if (id !== currentSectionId && !completed.has(id)) return id
+    }
+    return null
+  }
+
+  /**
+   * Strength sections get no recommendations; steady and growth sections get
+   * practices, knowledge base resources and learning modules for their area.
+   */
+  private async recommend(section: WellnessSection, sectionScore: SectionScore, location: UKLocation): Promise<WellnessRecommendation[]> {
+    if (sectionScore.band === 'strength') return []
+
+    const practices: WellnessRecommendation[] = section.practices.map((practice, index) => ({
+      type: 'practice',
+      id: `${section.id}-practice-${index + 1}`,
+      title: practice,
+      sectionId: section.id
+    }))
+
+    // Lower scores lean toward stabilising support rather than growth resources
+    const stage: JourneyStage = sectionScore.band === 'growth' ? 'stabilization' : 'growth'
+    const seen = new Set<string>()
+    const resources: WellnessRecommendation[] = []
+    for (const category of section.resourceCategories) {
+      for (const resource of this.knowledgeBase.getResourcesByStageAndLocation(stage, location, undefined, category)) {
+        if (seen.has(resource.id) || resources.length >= MAX_RESOURCES_PER_SECTION) continue
+        seen.add(resource.id)
+        resources.push({
+          type: 'resource',
+          id: resource.id,
+          title: resource.title,
+          description: resource.description,
+          url: resource.website,
+          sectionId: section.id
+        })
+      }
+    }
+
+    return [...practices, ...resources, ...(await this.findLearningModules(section))]
+  }
+
+  private async findLearningModules(section: WellnessSection): Promise<WellnessRecommendation[]> {
+    if (!this.supabase || section.learningCategories.length === 0) return []
+
+    const { data, error } = await this.supabase
+      .from('learning_modules')
+      .select('id, title, description')
+      .eq('is_published', true)
+      .in('category', section.learningCategories)
+      .limit(MAX_MODULES_PER_SECTION)
+
+    if (error) {
+      console.warn('[Wellness] Learning module lookup failed:', error.message)
+      return []
+    }
+
+    return (data || []).map((module: any) => ({
+      type: 'learning-module' as const,
+      id: module.id,
+      title: module.title,
+      description: module.description,
+      sectionId: section.id
+    }))
+  }
+}
+
+export default WellnessAssessmentService
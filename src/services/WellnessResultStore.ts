@@ -0,0 +1,113 @@
+/**
+ * Wellness Result Store
+ * Persists scored wellness assessment sections so progress is real history
+ * rather than a mock snapshot.
+ *
+ * Backends:
+ * - SupabaseWellnessResultStore: wellness_assessment_results table (production)
+ * - InMemoryWellnessResultStore: process-local stand-in (tests, demo mode)
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js'
+import { getSupabaseClient } from '../lib/supabaseClient.js'
+
+export interface WellnessRecommendation {
+  type: 'resource' | 'learning-module' | 'practice'
+  id: string
+  title: string
+  description?: string
+  url?: string
+  sectionId: string
+}
+
+export interface WellnessResult {
+  id: string
+  userId: string
+  sectionId: string
+  score: number
+  answers: Record<string, number>
+  insights: string[]
+  recommendations: WellnessRecommendation[]
+  completedAt: Date
+}
+
+export interface WellnessResultStore {
+  readonly backend: 'supabase' | 'memory'
+
+  save(result: WellnessResult): Promise<void>
+
+  /** All results for a user, oldest first */
+  getResults(userId: string): Promise<WellnessResult[]>
+}
+
+export class InMemoryWellnessResultStore implements WellnessResultStore {
+  readonly backend = 'memory' as const
+  private results = new Map<string, WellnessResult[]>()
+
+  async save(result: WellnessResult): Promise<void> {
+    const history = this.results.get(result.userId) || []
+    history.push(result)
+    history.sort((a, b) => a.completedAt.getTime() - b.completedAt.getTime())
+    this.results.set(result.userId, history)
+  }
+
+  async getResults(userId: string): Promise<WellnessResult[]> {
+    return [...(this.results.get(userId) || [])]
+  }
+}
+
+export class SupabaseWellnessResultStore implements WellnessResultStore {
+  readonly backend = 'supabase' as const
+
+  constructor(private supabase: SupabaseClient) {}
+
+  async save(result: WellnessResult): Promise<void> {
+    const { error } = await this.supabase.from('wellness_assessment_results').insert({
+      id: result.id,
+      user_id: result.userId,
+      section_id: result.sectionId,
+      score: result.score,
+      answers: result.answers,
+      insights: result.insights,
+      recommendations: result.recommendations,
+      completed_at: result.completedAt.toISOString()
+    })
+
+    if (error) {
+      throw new Error(`Failed to save wellness result: ${error.message}`)
+    }
+  }
+
+  async getResults(userId: string): Promise<WellnessResult[]> {
+    const { data, error } = await this.supabase
+      .from('wellness_assessment_results')
+      .select('id, user_id, section_id, score, answers, insights, recommendations, completed_at')
+      .eq('user_id', userId)
+      .order('completed_at', { ascending: true })
+
+    if (error) {
+      throw new Error(`Failed to fetch wellness results: ${error.message}`)
+    }
+
+    return (data || []).map((row: any) => ({
+      id: row.id,
+      userId: row.user_id,
+      sectionId: row.section_id,
+      score: Number(row.score),
+      answers: row.answers || {},
+      insights: row.insights || [],
+      recommendations: row.recommendations || [],
+      completedAt: new Date(row.completed_at)
+    }))
+  }
+}
+
+/**
+ * Pick the Supabase-backed store when credentials are configured,
+ * otherwise fall back to the in-memory store.
+ */
+export function createWellnessResultStore(supabase: SupabaseClient | null = getSupabaseClient()): WellnessResultStore {
+  return supabase ? new SupabaseWellnessResultStore(supabase) : new InMemoryWellnessResultStore()
+}
+
+export default createWellnessResultStore
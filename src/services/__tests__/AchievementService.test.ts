@@ -0,0 +1,75 @@
+/**
+ * Achievement Service - Test Suite
+ * Europe/London streaks, rule evaluation, idempotent unlocking and the
+ * activity-backed progress summary, using the in-memory activity store.
+ */
+
+import { describe, beforeEach, test, expect } from '@jest/globals';
+import { AchievementService, computeStreak, londonDateKey } from '../AchievementService.js';
+import { InMemoryActivityStore } from '../ActivityStore.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('London-time streaks', () => {
+  test('counts a late-night BST entry on the London calendar day', () => {
+    // 23:30 UTC on 14 June is 00:30 on 15 June in London
+    expect(londonDateKey(new Date('2026-06-14T23:30:00Z'))).toBe('2026-06-15');
+    expect(londonDateKey(new Date('2026-01-14T23:30:00Z'))).toBe('2026-01-14');
+  });
+
+  test('keeps the current streak alive until the end of today', () => {
+    const now = new Date('2026-03-10T12:00:00Z');
+    const dates = [1, 2, 3].map(daysAgo => new Date(now.getTime() - daysAgo * DAY_MS));
+
+    expect(computeStreak(dates, now)).toEqual({ current: 3, longest: 3 });
+  });
+
+  test('tracks the longest run separately from a broken current streak', () => {
+    const now = new Date('2026-03-20T12:00:00Z');
+    const dates = [10, 9, 8, 7, 2].map(daysAgo => new Date(now.getTime() - daysAgo * DAY_MS));
+
+    expect(computeStreak(dates, now)).toEqual({ current: 0, longest: 4 });
+  });
+});
+
+describe('AchievementService', () => {
+  let store: InMemoryActivityStore;
+  let service: AchievementService;
+
+  beforeEach(() => {
+    store = new InMemoryActivityStore();
+    service = new AchievementService(store);
+  });
+
+  test('unlocks an achievement once and ignores repeated events', async () => {
+    const first = await service.recordActivity('user-1', 'event_check_in', { sourceId: 'event-1' });
+    const repeat = await service.recordActivity('user-1', 'event_check_in', { sourceId: 'event-1' });
+
+    expect(first.unlocked.map(a => a.id)).toEqual(['first-check-in']);
+    expect(repeat).toEqual({ recorded: false, unlocked: [] });
+    expect(await service.evaluate('user-1')).toEqual([]);
+    expect(await store.getUnlocked('user-1')).toHaveLength(1);
+  });
+
+  test('unlocks the week streak from seven London days of journaling', async () => {
+    const now = Date.now();
+    for (let daysAgo = 6; daysAgo >= 0; daysAgo--) {
+      await service.recordActivity('user-1', 'journal_entry', { sourceId: `entry-${daysAgo}`, occurredAt: new Date(now - daysAgo * DAY_MS) });
+    }
+
+    const achievements = await service.getAchievements('user-1');
+
+    expect(achievements.recent.map(a => a.id)).toEqual(expect.arrayContaining(['first-journal-entry', 'week-streak']));
+    expect(achievements.progress.find(a => a.id === 'month-streak')).toMatchObject({ current: 7, target: 30 });
+  });
+
+  test('builds progress and the activity feed from recorded events', async () => {
+    await service.recordActivity('user-1', 'group_joined', { sourceId: 'group-1', occurredAt: new Date(Date.now() - DAY_MS) });
+    await service.recordActivity('user-1', 'quiz_passed', { sourceId: 'module-1', metadata: { score: 90 } });
+
+    const progress = await service.getProgress('user-1');
+
+    expect(progress).toMatchObject({ groupsJoined: 1, quizzesPassed: 1, journalEntries: 0, achievementsUnlocked: 2, activeDayStreak: 2 });
+    expect(progress.recentActivity[0]).toMatchObject({ type: 'quiz_passed', action: 'Passed a learning quiz', metadata: { score: 90 } });
+  });
+});
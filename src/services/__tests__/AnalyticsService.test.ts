@@ -0,0 +1,68 @@
+/**
+ * Analytics Service - Test Suite
+ * Logging event activity, rolling it up into daily aggregates and reading
+ * the aggregates back as trends and view → RSVP → check-in funnels.
+ */
+
+import { describe, test, expect, beforeEach } from '@jest/globals';
+import { AnalyticsError, AnalyticsService } from '../AnalyticsService.js';
+import { InMemoryAnalyticsStore } from '../AnalyticsStore.js';
+
+const NOW = new Date('2026-10-19T12:00:00Z');
+const YESTERDAY = new Date('2026-10-18T12:00:00Z');
+
+describe('AnalyticsService', () => {
+  let service: AnalyticsService;
+
+  beforeEach(() => {
+    service = new AnalyticsService(new InMemoryAnalyticsStore(new Map([
+      ['amara', [{ id: 'evt-1', title: 'Liberation Gathering', date: '2026-10-25' }, { id: 'evt-2', title: 'Quiet Night', date: '2026-11-01' }]]
+    ])));
+  });
+
+  test('rolls a day\'s activity up into a view → RSVP → check-in funnel', async () => {
+    for (const actorKey of ['kofi', 'kofi', 'jay', 'sam', 'anon_1']) {
+      await service.track({ eventId: 'evt-1', kind: 'view', actorKey }, YESTERDAY);
+    }
+    await service.track({ eventId: 'evt-1', kind: 'rsvp', actorKey: 'kofi' }, YESTERDAY);
+    await service.track({ eventId: 'evt-1', kind: 'rsvp', actorKey: 'jay' }, YESTERDAY);
+    await service.track({ eventId: 'evt-1', kind: 'rsvp_cancelled', actorKey: 'jay' }, YESTERDAY);
+    await service.track({ eventId: 'evt-1', kind: 'ticket_sale', quantity: 2, amountPence: 1000 }, YESTERDAY);
+    await service.track({ eventId: 'evt-1', kind: 'check_in', quantity: 2 }, YESTERDAY);
+
+    const { events, platform } = await service.aggregateDay('2026-10-18');
+    expect(events).toBe(1);
+    expect(platform).toMatchObject({ views: 5, uniqueViews: 4, rsvps: 2, cancellations: 1, ticketsSold: 2, revenuePence: 1000, checkIns: 2 });
+
+    const report = await service.eventReport('evt-1', { days: 7 }, NOW);
+    expect(report.funnel).toEqual([
+      { step: 'viewed', count: 4, rate: null },
+      { step: 'registered', count: 3, rate: 0.75 },
+      { step: 'checked_in', count: 2, rate: 0.6667 }
+    ]);
+    expect(report.trends).toHaveLength(7);
+    expect(report.trends[6]).toEqual({ date: '2026-10-18', views: 5, rsvps: 2, checkIns: 2, ticketsSold: 2 });
+  });
+
+  test('counts occurrences against their series and rejects unknown actions', async () => {
+    const logged = await service.track({ eventId: 'evt-1~2026-10-25', kind: 'click' }, YESTERDAY);
+    expect(logged).toMatchObject({ eventId: 'evt-1', occurrenceId: 'evt-1~2026-10-25', day: '2026-10-18' });
+
+    const error = await service.track({ eventId: 'evt-1', kind: 'like' as any }, NOW).then(() => null, (e: unknown) => e);
+    expect(error).toBeInstanceOf(AnalyticsError);
+  });
+
+  test('reports across an organizer\'s events with each event\'s own totals', async () => {
+    await service.track({ eventId: 'evt-1', kind: 'view', actorKey: 'kofi' }, YESTERDAY);
+    await service.track({ eventId: 'evt-2', kind: 'view', actorKey: 'kofi' }, YESTERDAY);
+    await service.track({ eventId: 'evt-2', kind: 'view', actorKey: 'jay' }, YESTERDAY);
+    await service.track({ eventId: 'evt-3', kind: 'view', actorKey: 'jay' }, YESTERDAY);
+    await service.aggregateRecent(NOW);
+
+    const report = await service.organizerReport('amara', { days: 30 }, NOW);
+
+    expect(report.totals.views).toBe(3);
+    expect(report.events.map(event => [event.id, event.totals.views])).toEqual([['evt-2', 2], ['evt-1', 1]]);
+    expect(report.to).toBe('2026-10-18');
+  });
+});
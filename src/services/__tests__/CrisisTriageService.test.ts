@@ -0,0 +1,88 @@
+/**
+ * Crisis Triage Service - Test Suite
+ * Risk tiers from screening answers, nation-aware resource routing and
+ * safety plan generation and storage, using the in-memory plan store.
+ */
+
+import { describe, beforeEach, test, expect } from '@jest/globals';
+import { CrisisTriageService, determineRiskTier, nationForLocation } from '../CrisisTriageService.js';
+import { InMemorySafetyPlanStore } from '../SafetyPlanStore.js';
+
+describe('determineRiskTier', () => {
+  test('treats immediate danger or a plan as an emergency', () => {
+    expect(determineRiskTier({ immediate_danger: true }).tier).toBe('emergency');
+    expect(determineRiskTier({ suicidal_thoughts: 'yes', plan: 'yes' }).tier).toBe('emergency');
+  });
+
+  test('treats intent or recent behaviour as high risk', () => {
+    expect(determineRiskTier({ suicidal_thoughts: true, intent: true }).tier).toBe('high');
+    expect(determineRiskTier({ recent_behaviour: true }).tier).toBe('high');
+  });
+
+  test('treats thoughts, self-harm, an unsafe home or high distress as moderate', () => {
+    expect(determineRiskTier({ suicidal_thoughts: true }).tier).toBe('moderate');
+    expect(determineRiskTier({ unsafe_at_home: true }).tier).toBe('moderate');
+    expect(determineRiskTier({ distress: 8 }).tier).toBe('moderate');
+  });
+
+  test('is low when nothing concerning is reported', () => {
+    expect(determineRiskTier({ wish_dead: false, distress: 3 })).toEqual({ tier: 'low', reasons: [] });
+  });
+});
+
+describe('CrisisTriageService', () => {
+  let store: InMemorySafetyPlanStore;
+  let service: CrisisTriageService;
+
+  beforeEach(() => {
+    store = new InMemorySafetyPlanStore();
+    service = new CrisisTriageService(store);
+  });
+
+  test('puts 999 first in an emergency', () => {
+    const assessment = service.assess({ answers: { immediate_danger: true }, location: 'london' });
+
+    expect(assessment.resources[0].phone).toBe('999');
+    expect(assessment.recommendedActions[0]).toContain('999');
+  });
+
+  test('routes to the devolved nation\'s urgent line and services', () => {
+    expect(nationForLocation('cardiff')).toBe('wales');
+
+    const assessment = service.assess({ answers: { suicidal_thoughts: true }, location: 'cardiff' });
+    const ids = assessment.resources.map(r => r.id);
+
+    expect(assessment.nation).toBe('wales');
+    expect(ids[0]).toBe('nhs-111-wales-press-2');
+    expect(ids).toContain('lgbt-cymru-helpline');
+    expect(ids).not.toContain('nhs-111-mental-health');
+  });
+
+  test('honours the legacy urgency field as a minimum tier', () => {
+    const assessment = service.assess({ urgency: 'emergency', location: 'somewhere' });
+
+    expect(assessment.riskTier).toBe('emergency');
+    expect(assessment.location).toBe('unknown');
+  });
+
+  test('fills blank plan sections with suggestions and saves one plan per user', async () => {
+    const plan = service.generateSafetyPlan({
+      riskTier: 'high',
+      location: 'glasgow',
+      copingStrategies: ['Call my sister', '  '],
+      contacts: [{ name: 'Marcus', phone: '07700 900123' }],
+      protectiveFactors: ['trusted_person']
+    });
+
+    expect(plan.copingStrategies).toEqual(['Call my sister']);
+    expect(plan.suggestedSections).toEqual(['warningSigns', 'saferEnvironment']);
+    expect(plan.reasonsForLiving).toContain('There is someone I trust that I can talk to');
+    expect(plan.professionalServices[0].name).toBe('NHS 24 Mental Health Hub');
+
+    const first = await service.saveSafetyPlan('user-1', plan);
+    const second = await service.saveSafetyPlan('user-1', service.generateSafetyPlan({ riskTier: 'low' }));
+
+    expect(second.id).toBe(first.id);
+    expect((await service.getSafetyPlan('user-1'))?.riskTier).toBe('low');
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * Framework Runner Service - Test Suite
+ * Completion criteria, resumable sessions, step ordering and summary export,
+ * using the in-memory session store and no LLM.
+ */
+
+import { describe, beforeEach, test, expect } from '@jest/globals';
+import { FrameworkRunnerService, FrameworkSessionError, countListItems } from '../FrameworkRunnerService.js';
+import { InMemoryFrameworkSessionStore } from '../FrameworkSessionStore.js';
+import { LLMGateway } from '../../lib/llmGateway.js';
+import { getFramework } from '../../data/problemSolvingFrameworks.js';
+
+const SMART_ANSWERS: Record<string, string> = {
+  specific: 'I want to run a monthly peer support circle for Black queer men in Manchester because there is nothing like it locally.',
+  measurable: 'Three circles held with at least six people coming back more than once.',
+  achievable: 'I have a free room at the community centre, two friends who will co-facilitate, and a small grant; the risk is burnout.',
+  relevant: 'It connects to my belief that we heal in community and not on our own.',
+  'time-bound': '- First circle by March\n- Third circle by May'
+};
+
+describe('countListItems', () => {
+  test('counts lines, bullets, semicolons and single-line commas', () => {
+    expect(countListItems('- one\n- two\n- three')).toBe(3);
+    expect(countListItems('1. one\n2) two')).toBe(2);
+    expect(countListItems('one; two; three; four')).toBe(4);
+    expect(countListItems('rent, bills, travel')).toBe(3);
+  });
+});
+
+describe('FrameworkRunnerService', () => {
+  let store: InMemoryFrameworkSessionStore;
+  let service: FrameworkRunnerService;
+
+  beforeEach(() => {
+    store = new InMemoryFrameworkSessionStore();
+    service = new FrameworkRunnerService(store, new LLMGateway([]));
+  });
+
+  test('lists every framework with its step count', () => {
+    const frameworks = service.listFrameworks();
+
+    expect(frameworks).toHaveLength(5);
+    expect(frameworks.find(f => f.id === 'cost-benefit-analysis')?.steps).toBe(6);
+  });
+
+  test('resumes the active session instead of starting another', async () => {
+    const first = await service.startSession('user-1', 'smart-goals');
+    await service.submitStep(first.session.id, 'user-1', { response: SMART_ANSWERS.specific });
+
+    const second = await service.startSession('user-1', 'smart-goals');
+
+    expect(first.resumed).toBe(false);
+    expect(second.resumed).toBe(true);
+    expect(second.session.id).toBe(first.session.id);
+    expect(second.session.currentStep?.id).toBe('measurable');
+  });
+
+  test('returns unmet criteria without saving a short answer', async () => {
+    const { session } = await service.startSession('user-1', 'smart-goals');
+
+    const result = await service.submitStep(session.id, 'user-1', { response: 'Get fitter' });
+
+    expect(result.accepted).toBe(false);
+    expect(result.unmetCriteria[0]).toContain('at least 20 words');
+    expect((await store.get(session.id))?.responses).toEqual({});
+  });
+
+  test('accepts an answer with a rule-based reflection and moves on', async () => {
+    const { session } = await service.startSession('user-1', 'smart-goals');
+
+    const result = await service.submitStep(session.id, 'user-1', { response: SMART_ANSWERS.specific });
+
+    expect(result.accepted).toBe(true);
+    expect(result.reflection).toContain(getFramework('smart-goals')!.steps[1].guidingQuestions[0]);
+    expect(result.nextStep?.id).toBe('measurable');
+    expect(result.session.progress).toBe(20);
+  });
+
+  test('refuses to skip ahead or let someone else continue the session', async () => {
+    const { session } = await service.startSession('user-1', 'smart-goals');
+
+    await expect(service.submitStep(session.id, 'user-1', { stepId: 'relevant', response: SMART_ANSWERS.relevant }))
+      .rejects.toMatchObject({ status: 409 });
+    await expect(service.submitStep(session.id, 'user-2', { response: SMART_ANSWERS.specific }))
+      .rejects.toBeInstanceOf(FrameworkSessionError);
+  });
+
+  test('completes the session and exports Markdown and print-ready HTML', async () => {
+    const { session } = await service.startSession('user-1', 'smart-goals');
+    await expect(service.getSession(session.id).then(s => service.exportSummary(s))).rejects.toMatchObject({ status: 409 });
+
+    let result;
+    for (const step of getFramework('smart-goals')!.steps) {
+      result = await service.submitStep(session.id, 'user-1', { response: SMART_ANSWERS[step.id] });
+    }
+
+    expect(result!.completed).toBe(true);
+
+    const completed = await service.getSession(session.id, 'user-1');
+    const markdown = service.exportSummary(completed, 'markdown');
+    const html = service.exportSummary(completed, 'html');
+
+    expect(markdown.filename).toMatch(/^smart-goals-\d{4}-\d{2}-\d{2}\.md$/);
+    expect(markdown.body).toContain('## 5. Time-bound');
+    expect(markdown.body).toContain(SMART_ANSWERS.relevant);
+    expect(html.body).toContain('@page');
+    expect(html.body).toContain('- First circle by March<br>- Third circle by May');
+  });
+});
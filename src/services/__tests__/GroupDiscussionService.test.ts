@@ -0,0 +1,115 @@
+/**
+ * Group Discussion Service - Test Suite
+ * Moderation before publication, threads and replies, pinning, the paged feed,
+ * reactions and reports.
+ */
+
+import { describe, test, expect, beforeEach } from '@jest/globals';
+import { GroupDiscussionService } from '../GroupDiscussionService.js';
+import { InMemoryGroupDiscussionStore } from '../GroupDiscussionStore.js';
+import { GroupError, GroupService } from '../GroupService.js';
+import { InMemoryGroupStore } from '../GroupStore.js';
+import { ContentModerator, ModerationResult } from '../ContentModerationService.js';
+
+const NOW = new Date('2026-10-19T12:00:00Z');
+const minutes = (n: number) => new Date(NOW.getTime() + n * 60 * 1000);
+
+// Rejects anything mentioning "slur", holds anything mentioning "unsure", fails on "outage"
+const moderator: ContentModerator = async (content) => {
+  if (content.description.includes('outage')) throw new Error('Groq unavailable');
+  const recommendation: ModerationResult['recommendation'] = content.description.includes('slur') ? 'reject'
+    : content.description.includes('unsure') ? 'review' : 'auto-approve';
+  return {
+    confidence: 0.9,
+    relevance: 'high',
+    quality: 'high',
+    liberation_score: 0.8,
+    reasoning: 'test',
+    recommendation,
+    processing_time_ms: 1
+  };
+};
+
+describe('GroupDiscussionService', () => {
+  let groups: GroupService;
+  let discussions: GroupDiscussionService;
+  let groupId: string;
+
+  beforeEach(async () => {
+    groups = new GroupService(new InMemoryGroupStore());
+    discussions = new GroupDiscussionService(new InMemoryGroupDiscussionStore(), groups, moderator);
+    groupId = (await groups.create({ name: 'Leeds Book Club' }, 'amara', NOW)).id;
+    await groups.join(groupId, 'kofi', NOW);
+  });
+
+  const rejects = async (promise: Promise<unknown>, status: number) => {
+    const error = await promise.then(() => null, (e: unknown) => e);
+    expect(error).toBeInstanceOf(GroupError);
+    expect((error as GroupError).status).toBe(status);
+  };
+
+  test('publishes, holds or rejects posts on the moderation recommendation', async () => {
+    const published = await discussions.createPost(groupId, { title: 'This month', body: 'Reading Giovanni\'s Room' }, 'kofi', NOW);
+    const held = await discussions.createPost(groupId, { body: 'unsure about this one' }, 'kofi', NOW);
+    const rejected = await discussions.createPost(groupId, { body: 'a slur' }, 'kofi', NOW);
+    const unscreened = await discussions.createPost(groupId, { body: 'posted during an outage' }, 'kofi', NOW);
+
+    expect([published.status, held.status, rejected.status, unscreened.status])
+      .toEqual(['published', 'pending_review', 'rejected', 'pending_review']);
+    await rejects(discussions.createPost(groupId, { body: 'hello' }, 'stranger', NOW), 403);
+
+    // Only admins see and decide held posts
+    await rejects(discussions.pendingPosts(groupId, 'kofi'), 403);
+    expect((await discussions.pendingPosts(groupId, 'amara')).map(p => p.id)).toEqual([held.id, unscreened.id]);
+    await discussions.review(groupId, held.id, 'approve', 'amara', minutes(5));
+
+    const feed = await discussions.feed(groupId, undefined);
+    expect(feed.threads.map(p => p.id)).toEqual([published.id, held.id]);
+  });
+
+  test('threads replies, keeps the feed in activity order and pages through it', async () => {
+    const first = await discussions.createPost(groupId, { body: 'first' }, 'kofi', minutes(1));
+    const second = await discussions.createPost(groupId, { body: 'second' }, 'kofi', minutes(2));
+    const third = await discussions.createPost(groupId, { body: 'third' }, 'kofi', minutes(3));
+
+    const reply = await discussions.reply(groupId, first.id, { body: 'a reply' }, 'amara', minutes(4));
+    const nested = await discussions.reply(groupId, reply.id, { body: 'a reply to the reply' }, 'kofi', minutes(5));
+    expect([nested.threadId, nested.parentId]).toEqual([first.id, reply.id]);
+
+    await discussions.pin(groupId, third.id, 'amara', minutes(6));
+    await rejects(discussions.pin(groupId, reply.id, 'amara', NOW), 400);
+
+    const page1 = await discussions.feed(groupId, 'kofi', { limit: 1 });
+    expect(page1.pinned.map(p => p.id)).toEqual([third.id]);
+    expect(page1.threads.map(p => [p.id, p.replyCount])).toEqual([[first.id, 2]]);
+    const page2 = await discussions.feed(groupId, 'kofi', { limit: 1, cursor: page1.nextCursor! });
+    expect(page2.pinned).toEqual([]);
+    expect(page2.threads.map(p => p.id)).toEqual([second.id]);
+    expect(page2.nextCursor).toBeNull();
+
+    await rejects(discussions.deletePost(groupId, reply.id, 'kofi', NOW), 403);
+    await discussions.deletePost(groupId, reply.id, 'amara', minutes(7));
+    const thread = await discussions.thread(groupId, first.id, 'kofi');
+    expect(thread.post.replyCount).toBe(1);
+    expect(thread.replies.map(p => p.id)).toEqual([nested.id]);
+  });
+
+  test('counts reactions per member and sends reports to the moderators', async () => {
+    const post = await discussions.createPost(groupId, { body: 'Who is coming Saturday?' }, 'kofi', NOW);
+
+    await discussions.react(groupId, post.id, 'heart', 'amara', true);
+    await discussions.react(groupId, post.id, 'heart', 'amara', true);
+    await discussions.react(groupId, post.id, 'fist', 'kofi', true);
+    expect(await discussions.react(groupId, post.id, 'heart', 'kofi', true)).toEqual({ heart: 2, fist: 1 });
+    expect(await discussions.react(groupId, post.id, 'fist', 'kofi', false)).toEqual({ heart: 2 });
+    await rejects(discussions.react(groupId, post.id, 'thumbsdown', 'kofi', true), 400);
+    expect((await discussions.feed(groupId, 'amara')).myReactions[post.id]).toEqual(['heart']);
+
+    const report = await discussions.report(groupId, post.id, { reason: 'spam' }, 'visitor', NOW);
+    await rejects(discussions.report(groupId, post.id, { reason: 'spam' }, 'visitor', NOW), 409);
+    expect((await discussions.listReports({ status: 'pending' })).counts.pending).toBe(1);
+
+    await discussions.resolveReport(report.id, { status: 'resolved', actionTaken: 'remove_post' }, 'mod', NOW);
+    expect((await discussions.feed(groupId, 'amara')).threads).toEqual([]);
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * Group Event Service - Test Suite
+ * Who may submit group events, which skip moderation, listing a group's
+ * events and notifying members when one is published.
+ */
+
+import { describe, test, expect, beforeEach } from '@jest/globals';
+import { GroupEventRow, GroupEventService } from '../GroupEventService.js';
+import { GroupError, GroupService } from '../GroupService.js';
+import { InMemoryGroupStore } from '../GroupStore.js';
+import { EnqueueInput } from '../NotificationQueueService.js';
+
+const NOW = new Date('2026-10-19T12:00:00Z');
+
+describe('GroupEventService', () => {
+  let groups: GroupService;
+  let rows: GroupEventRow[];
+  let queued: EnqueueInput[];
+  let service: GroupEventService;
+
+  beforeEach(() => {
+    groups = new GroupService(new InMemoryGroupStore());
+    rows = [];
+    queued = [];
+    service = new GroupEventService(
+      groups,
+      { listGroupEvents: async (groupId) => rows.filter(row => row.group_id === groupId) },
+      {
+        enqueue: async (input) => {
+          queued.push(input);
+          return { items: (input.userIds || []).map(id => ({ id } as any)), duplicates: 0 };
+        }
+      }
+    );
+  });
+
+  test('lets members submit group events and publishes those from admins', async () => {
+    const group = await groups.create({ name: 'BLKOUT Leeds' }, 'amara', NOW);
+    await groups.join(group.id, 'kofi', NOW);
+
+    expect((await service.authorizeSubmission(group.slug, 'amara')).autoApprove).toBe(true);
+    expect((await service.authorizeSubmission(group.slug, 'kofi')).autoApprove).toBe(false);
+
+    const error = await service.authorizeSubmission(group.slug, 'stranger').then(() => null, (e: unknown) => e);
+    expect((error as GroupError).status).toBe(403);
+  });
+
+  test('lists each occurrence of a group\'s events, for members only when private', async () => {
+    const group = await groups.create({ name: 'Quiet Circle', visibility: 'private' }, 'amara', NOW);
+    rows.push({
+      id: 'evt-1',
+      title: 'Monthly check-in',
+      date: '2026-10-21',
+      group_id: group.id,
+      recurrence_rule: 'FREQ=WEEKLY;COUNT=3',
+      recurrence_exdates: []
+    });
+
+    const { events } = await service.upcoming(group.id, 'amara', {}, NOW);
+    expect(events.map(e => e.occurrence_id)).toEqual(['evt-1~2026-10-21', 'evt-1~2026-10-28', 'evt-1~2026-11-04']);
+
+    const error = await service.upcoming(group.id, undefined, {}, NOW).then(() => null, (e: unknown) => e);
+    expect((error as GroupError).status).toBe(403);
+  });
+
+  test('notifies members other than the submitter about a published event', async () => {
+    const group = await groups.create({ name: 'BLKOUT Bristol' }, 'amara', NOW);
+    await groups.join(group.id, 'kofi', NOW);
+    await groups.join(group.id, 'jay', NOW);
+
+    const notified = await service.notifyMembers({ id: 'evt-2', title: 'Picnic', date: '2026-10-24', group_id: group.id, submitted_by: 'kofi' }, NOW);
+
+    expect(notified).toBe(2);
+    expect(queued[0].userIds!.sort()).toEqual(['amara', 'jay']);
+    expect(queued[0]).toMatchObject({ topic: 'events', title: '📅 New in BLKOUT Bristol', body: 'Picnic — Saturday 24 October', dedupeKey: 'group-event:evt-2' });
+    expect(await service.notifyMembers({ id: 'evt-3', title: 'Not a group event', date: '2026-10-24' }, NOW)).toBe(0);
+  });
+});
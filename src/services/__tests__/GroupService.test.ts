@@ -0,0 +1,108 @@
+/**
+ * Group Service - Test Suite
+ * Roles, join requests for private groups, invite links, removals and bans,
+ * and the audit log those changes leave behind.
+ */
+
+import { describe, test, expect, beforeEach } from '@jest/globals';
+import { GroupError, GroupService } from '../GroupService.js';
+import { InMemoryGroupStore } from '../GroupStore.js';
+
+const NOW = new Date('2026-10-19T12:00:00Z');
+const HOUR = 60 * 60 * 1000;
+
+describe('GroupService', () => {
+  let service: GroupService;
+
+  beforeEach(() => {
+    service = new GroupService(new InMemoryGroupStore());
+  });
+
+  const rejects = async (promise: Promise<unknown>, status: number) => {
+    const error = await promise.then(() => null, (e: unknown) => e);
+    expect(error).toBeInstanceOf(GroupError);
+    expect((error as GroupError).status).toBe(status);
+  };
+
+  test('queues join requests for private groups until an admin decides', async () => {
+    const group = await service.create({ name: 'Trans Joy Circle', visibility: 'private', joinPolicy: 'open' }, 'amara', NOW);
+    expect(group.joinPolicy).toBe('approval');
+
+    expect((await service.join(group.slug, 'kofi', NOW)).outcome).toBe('requested');
+    expect((await service.join(group.slug, 'jay', NOW)).outcome).toBe('requested');
+
+    // Private members and requests aren't for outsiders or ordinary members
+    await rejects(service.members(group.id, undefined), 403);
+    await rejects(service.approve(group.id, 'jay', 'kofi', NOW), 403);
+
+    await service.approve(group.id, 'kofi', 'amara', NOW);
+    await service.reject(group.id, 'jay', 'amara', NOW);
+
+    const members = await service.members(group.id, 'kofi');
+    expect(members.items.map(m => [m.userId, m.role])).toEqual([['amara', 'owner'], ['kofi', 'member']]);
+    expect((await service.get(group.id)).group.memberCount).toBe(2);
+    expect((await service.members(group.id, 'amara', { status: 'pending' })).total).toBe(0);
+  });
+
+  test('admits through invite links until they expire, run out or are revoked', async () => {
+    const group = await service.create({ name: 'Hidden Elders', visibility: 'hidden' }, 'amara', NOW);
+    await rejects(service.join(group.id, 'kofi', NOW), 403);
+    await rejects(service.get(group.id, 'kofi'), 404);
+
+    const invite = await service.createInvite(group.id, 'amara', { expiresInHours: 24, maxUses: 1 }, NOW);
+    expect((await service.previewInvite(invite.code, NOW)).group.name).toBe('Hidden Elders');
+
+    expect((await service.acceptInvite(invite.code, 'kofi', NOW)).outcome).toBe('joined');
+    await rejects(service.acceptInvite(invite.code, 'jay', NOW), 404);
+
+    const open = await service.createInvite(group.id, 'amara', { expiresInHours: 24 }, NOW);
+    await rejects(service.acceptInvite(open.code, 'jay', new Date(NOW.getTime() + 25 * HOUR)), 404);
+    await service.revokeInvite(group.id, open.id, 'amara', NOW);
+    await rejects(service.acceptInvite(open.code, 'jay', NOW), 404);
+    expect(await service.listInvites(group.id, 'amara')).toHaveLength(1);
+  });
+
+  test('lets admins remove and ban members but not each other', async () => {
+    const group = await service.create({ name: 'Manchester Reading Room' }, 'amara', NOW);
+    for (const userId of ['kofi', 'jay', 'sam']) {
+      await service.join(group.id, userId, NOW);
+    }
+    await service.setRole(group.id, 'kofi', 'admin', 'amara', NOW);
+    await service.setRole(group.id, 'jay', 'admin', 'amara', NOW);
+
+    await rejects(service.remove(group.id, 'jay', 'kofi', NOW), 403);
+    await rejects(service.ban(group.id, 'amara', 'kofi', undefined, NOW), 403);
+
+    await service.remove(group.id, 'sam', 'kofi', NOW);
+    expect((await service.join(group.id, 'sam', NOW)).outcome).toBe('joined');
+
+    await service.ban(group.id, 'sam', 'kofi', 'harassment', NOW);
+    await rejects(service.join(group.id, 'sam', NOW), 403);
+    const invite = await service.createInvite(group.id, 'kofi', {}, NOW);
+    await rejects(service.acceptInvite(invite.code, 'sam', NOW), 403);
+
+    await service.unban(group.id, 'sam', 'kofi', NOW);
+    expect((await service.join(group.id, 'sam', NOW)).outcome).toBe('joined');
+
+    const log = await service.auditLog(group.id, 'jay');
+    expect(log.slice(0, 4).map(e => [e.action, e.actorId, e.targetUserId])).toEqual([
+      ['joined', 'sam', undefined],
+      ['unbanned', 'kofi', 'sam'],
+      ['invite_created', 'kofi', undefined],
+      ['banned', 'kofi', 'sam']
+    ]);
+    expect(log[3].details).toEqual({ reason: 'harassment' });
+  });
+
+  test('hands the group over when the owner makes someone else owner', async () => {
+    const group = await service.create({ name: 'Birmingham Ballroom' }, 'amara', NOW);
+    await service.join(group.id, 'kofi', NOW);
+
+    await rejects(service.leave(group.id, 'amara', NOW), 400);
+    await service.setRole(group.id, 'kofi', 'owner', 'amara', NOW);
+    await service.leave(group.id, 'amara', NOW);
+
+    const { admins } = await service.get(group.id);
+    expect(admins.map(m => [m.userId, m.role])).toEqual([['kofi', 'owner']]);
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * Journaling Service - Test Suite
+ * Lexicon sentiment, encryption at rest, programme position, personalised
+ * prompt tone and mood trends, using in-memory stores and no LLM.
+ */
+
+import { describe, beforeEach, test, expect } from '@jest/globals';
+import { JournalingService } from '../JournalingService.js';
+import { InMemoryJournalEntryStore, JournalEntry } from '../JournalEntryStore.js';
+import { InMemoryJourneyHistoryStore } from '../JourneyHistoryStore.js';
+import { scoreSentimentLexicon } from '../JournalSentimentAnalyzer.js';
+import { LLMGateway } from '../../lib/llmGateway.js';
+import { encryptText, decryptText, parseEncryptionKey, EncryptionError } from '../../lib/encryption.js';
+import { JourneyContext } from '../../types/journey.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function entryOn(userId: string, daysAgo: number, score: number, now = Date.now()): JournalEntry {
+  return {
+    id: `entry-${daysAgo}-${score}`,
+    userId,
+    content: 'entry',
+    tags: [],
+    sentiment: { label: score > 0 ? 'positive' : 'challenging', score, emotions: [], source: 'lexicon' },
+    wordCount: 1,
+    createdAt: new Date(now - daysAgo * DAY_MS)
+  };
+}
+
+describe('scoreSentimentLexicon', () => {
+  test('scores clearly positive and challenging entries', () => {
+    expect(scoreSentimentLexicon('I feel so grateful and proud today.').label).toBe('positive');
+    expect(scoreSentimentLexicon('Exhausted, lonely and really anxious.').label).toBe('challenging');
+  });
+
+  test('handles negation', () => {
+    const result = scoreSentimentLexicon("I'm not happy with how today went.");
+
+    expect(result.score).toBeLessThan(0);
+  });
+
+  test('recognises mixed feelings', () => {
+    expect(scoreSentimentLexicon('I feel proud and happy about the exhibition. I am also exhausted and anxious about money.').label).toBe('mixed');
+  });
+
+  test('weights what follows a contrast', () => {
+    expect(scoreSentimentLexicon('I felt isolated at work, but I am hopeful and grateful for my friends.').label).toBe('positive');
+  });
+
+  test('returns neutral with no emotional language', () => {
+    expect(scoreSentimentLexicon('Went to the shop and cooked dinner.').label).toBe('neutral');
+  });
+});
+
+describe('encryption at rest', () => {
+  const key = parseEncryptionKey('a'.repeat(64))!;
+
+  test('round-trips text and never stores plaintext', () => {
+    const ciphertext = encryptText('my private thoughts', key);
+
+    expect(ciphertext).not.toContain('private');
+    expect(decryptText(ciphertext, key)).toBe('my private thoughts');
+  });
+
+  test('rejects the wrong key', () => {
+    const ciphertext = encryptText('my private thoughts', key);
+
+    expect(() => decryptText(ciphertext, parseEncryptionKey('b'.repeat(64))!)).toThrow(EncryptionError);
+  });
+});
+
+describe('JournalingService', () => {
+  let store: InMemoryJournalEntryStore;
+  let journeyHistory: InMemoryJourneyHistoryStore;
+  let service: JournalingService;
+
+  beforeEach(() => {
+    store = new InMemoryJournalEntryStore();
+    journeyHistory = new InMemoryJourneyHistoryStore();
+    service = new JournalingService(store, journeyHistory, new LLMGateway([]));
+  });
+
+  test('persists entries with sentiment and word count', async () => {
+    await service.createEntry('user-1', { content: 'Feeling hopeful about the new group.', tags: ['community'] });
+
+    const [entry] = await service.getEntries('user-1');
+
+    expect(entry.sentiment.label).toBe('positive');
+    expect(entry.wordCount).toBe(6);
+    expect(entry.tags).toEqual(['community']);
+  });
+
+  test('advances one programme day per distinct day journaled', async () => {
+    const now = Date.now();
+    await store.save(entryOn('user-1', 3, 0.2, now));
+    await store.save(entryOn('user-1', 1, 0.2, now));
+    await store.save(entryOn('user-1', 1, 0.4, now));
+    await store.save(entryOn('user-1', 0, 0.4, now));
+
+    expect(await service.getProgrammeDay('user-1', new Date(now))).toBe(3);
+  });
+
+  test('gentles the prompt after a recent crisis', async () => {
+    const crisis: JourneyContext = {
+      stage: 'crisis',
+      emotionalState: 'overwhelmed',
+      urgencyLevel: 'high',
+      location: 'london',
+      communityConnection: 'isolated',
+      firstTime: false,
+      returningUser: true,
+      resourceAccessPreference: 'phone'
+    };
+    await journeyHistory.record('user-1', crisis);
+
+    const prompt = await service.getPersonalizedPrompt('user-1');
+
+    expect(prompt.day).toBe(1);
+    expect(prompt.tone).toBe('gentle');
+    expect(prompt.journeyStage).toBe('crisis');
+    expect(prompt.prompt).toContain(prompt.basePrompt);
+    expect(prompt.source).toBe('programme');
+  });
+
+  test('celebrates a run of positive entries', async () => {
+    await store.save(entryOn('user-1', 1, 0.6));
+    await store.save(entryOn('user-1', 2, 0.5));
+
+    const prompt = await service.getPersonalizedPrompt('user-1');
+
+    expect(prompt.tone).toBe('celebratory');
+    expect(prompt.recentSentiment).toEqual({ averageScore: 0.55, entries: 2 });
+  });
+
+  test('reports an improving mood trend', async () => {
+    const now = Date.now();
+    for (const [daysAgo, score] of [[6, -0.6], [5, -0.4], [2, 0.3], [1, 0.5]]) {
+      await store.save(entryOn('user-1', daysAgo, score, now));
+    }
+
+    const trend = await service.getSentimentTrend('user-1', 30, 'day', new Date(now));
+
+    expect(trend.points).toHaveLength(4);
+    expect(trend.direction).toBe('improving');
+    expect(trend.labelCounts).toMatchObject({ positive: 2, challenging: 2 });
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * Journey-Aware Conversation Service - Test Suite
+ * Streamed replies: a failure before any text falls back to the honest
+ * limitation response, while one after text has streamed is passed on.
+ * Users viewing, shortening and deleting their own journey history.
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { JourneyAwareConversationService, JourneyHistoryError } from '../JourneyAwareConversationService.js';
+import { InMemoryJourneyHistoryStore } from '../JourneyHistoryStore.js';
+import { JourneyContext } from '../../types/journey.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// The store reads history against the real clock, so entries are placed relative to it
+const NOW = new Date();
+
+const growth: JourneyContext = {
+  stage: 'growth',
+  emotionalState: 'calm',
+  urgencyLevel: 'low',
+  location: 'london',
+  communityConnection: 'exploring',
+  firstTime: false,
+  returningUser: true,
+  resourceAccessPreference: 'flexible'
+};
+
+function fakeConversationService(stream: () => AsyncGenerator<string>): any {
+  return {
+    isAIAvailable: () => true,
+    streamAIResponse: stream
+  };
+}
+
+describe('JourneyAwareConversationService', () => {
+  test('passes on a failure once part of the reply has streamed', async () => {
+    const service = new JourneyAwareConversationService(fakeConversationService(async function* () {
+      yield 'Hello';
+      throw new Error('socket hang up');
+    }), undefined, new InMemoryJourneyHistoryStore());
+
+    const tokens: string[] = [];
+    const error = await service.generateJourneyAwareResponse('hi there', { userId: 'user-1' }, 'session-1', token => tokens.push(token))
+      .then(() => null, (e: unknown) => e);
+
+    expect((error as Error).message).toBe('socket hang up');
+    expect(tokens).toEqual(['Hello']);
+  });
+
+  test('streams the fallback when nothing has been sent yet', async () => {
+    const service = new JourneyAwareConversationService(fakeConversationService(async function* () {
+      throw new Error('connection refused');
+    }), undefined, new InMemoryJourneyHistoryStore());
+
+    const tokens: string[] = [];
+    const response = await service.generateJourneyAwareResponse('hi there', { userId: 'user-1' }, 'session-1', token => tokens.push(token));
+
+    expect(tokens).toEqual([response.response]);
+  });
+
+  test('lets a user shorten their retention, deleting what falls outside it, or delete everything', async () => {
+    const store = new InMemoryJourneyHistoryStore();
+    const service = new JourneyAwareConversationService(fakeConversationService(async function* () {}), undefined, store);
+    await store.record('user-1', growth, undefined, new Date(NOW.getTime() - 60 * DAY_MS));
+    await store.record('user-1', { ...growth, stage: 'advocacy' }, undefined, new Date(NOW.getTime() - 2 * DAY_MS));
+    await store.record('user-2', growth, undefined, new Date(NOW.getTime() - 60 * DAY_MS));
+
+    const tooLong = await service.setJourneyHistoryRetention('user-1', 5000, NOW).then(() => null, (e: unknown) => e);
+    expect(tooLong).toBeInstanceOf(JourneyHistoryError);
+
+    expect(await service.setJourneyHistoryRetention('user-1', 30, NOW)).toEqual({ retentionDays: 30, removed: 1 });
+    expect(await service.getJourneyHistory('user-1')).toMatchObject({ retentionDays: 30, stages: ['advocacy'] });
+
+    expect(await service.deleteJourneyHistory('user-1')).toEqual({ removed: 1 });
+    expect((await service.getJourneyHistory('user-1')).entries).toEqual([]);
+    expect(await store.getHistory('user-2')).toHaveLength(1);
+  });
+});
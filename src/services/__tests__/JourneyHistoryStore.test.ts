@@ -0,0 +1,135 @@
+/**
+ * Journey History Store - Test Suite
+ * Covers the in-memory store used in tests and demo mode, and the
+ * detector's use of longitudinal history for ambiguous messages.
+ */
+
+import { describe, beforeEach, test, expect } from '@jest/globals';
+import { InMemoryJourneyHistoryStore, toStageSequence } from '../JourneyHistoryStore.js';
+import { JourneyStageDetector } from '../JourneyStageDetector.js';
+import { JourneyContext, JourneyStage } from '../../types/journey.js';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+function contextFor(stage: JourneyStage): JourneyContext {
+  return {
+    stage,
+    emotionalState: 'calm',
+    urgencyLevel: 'low',
+    location: 'london',
+    communityConnection: 'exploring',
+    firstTime: false,
+    returningUser: true,
+    resourceAccessPreference: 'flexible'
+  };
+}
+
+describe('InMemoryJourneyHistoryStore', () => {
+  let store: InMemoryJourneyHistoryStore;
+
+  beforeEach(() => {
+    store = new InMemoryJourneyHistoryStore();
+  });
+
+  test('returns entries oldest first with timestamps', async () => {
+    const now = Date.now();
+    await store.record('user-1', contextFor('growth'), 'session-b', new Date(now - HOUR_MS));
+    await store.record('user-1', contextFor('crisis'), 'session-a', new Date(now - 2 * HOUR_MS));
+
+    const history = await store.getHistory('user-1');
+
+    expect(history.map(e => e.stage)).toEqual(['crisis', 'growth']);
+    expect(history[0].sessionId).toBe('session-a');
+    expect(history[0].detectedAt).toBeInstanceOf(Date);
+  });
+
+  test('keeps users separate', async () => {
+    await store.record('user-1', contextFor('advocacy'));
+
+    expect(await store.getHistory('user-2')).toEqual([]);
+  });
+
+  test('limit keeps the most recent entries', async () => {
+    const now = Date.now();
+    const stages: JourneyStage[] = ['crisis', 'stabilization', 'growth'];
+    for (let i = 0; i < stages.length; i++) {
+      await store.record('user-1', contextFor(stages[i]), undefined, new Date(now - (3 - i) * HOUR_MS));
+    }
+
+    const history = await store.getHistory('user-1', { limit: 2 });
+
+    expect(history.map(e => e.stage)).toEqual(['stabilization', 'growth']);
+  });
+
+  test('hides and purges entries outside the per-user retention window', async () => {
+    const now = Date.now();
+    await store.setRetention('user-1', 7);
+    await store.record('user-1', contextFor('crisis'), undefined, new Date(now - 10 * DAY_MS));
+    await store.record('user-1', contextFor('growth'), undefined, new Date(now - DAY_MS));
+    await store.record('user-2', contextFor('crisis'), undefined, new Date(now - 10 * DAY_MS));
+
+    expect((await store.getHistory('user-1')).map(e => e.stage)).toEqual(['growth']);
+
+    const removed = await store.purgeExpired();
+
+    expect(removed).toBe(1);
+    expect(await store.getHistory('user-2')).toHaveLength(1);
+  });
+
+  test('toStageSequence collapses consecutive repeats', async () => {
+    const now = Date.now();
+    const stages: JourneyStage[] = ['crisis', 'crisis', 'stabilization', 'crisis'];
+    for (let i = 0; i < stages.length; i++) {
+      await store.record('user-1', contextFor(stages[i]), undefined, new Date(now - (10 - i) * HOUR_MS));
+    }
+
+    expect(toStageSequence(await store.getHistory('user-1'))).toEqual(['crisis', 'stabilization', 'crisis']);
+  });
+});
+
+describe('JourneyStageDetector with journey history', () => {
+  const detector = new JourneyStageDetector();
+  const ambiguousMessage = 'hello again';
+
+  test('defaults to growth without history', () => {
+    const context = detector.detectJourneyStage(ambiguousMessage, [], {}, []);
+
+    expect(context.stage).toBe('growth');
+    expect(context.firstTime).toBe(true);
+  });
+
+  test('follows a recent crisis with stabilization', async () => {
+    const store = new InMemoryJourneyHistoryStore();
+    await store.record('user-1', contextFor('crisis'), undefined, new Date(Date.now() - 12 * HOUR_MS));
+    const history = await store.getHistory('user-1');
+
+    const context = detector.detectJourneyStage(ambiguousMessage, toStageSequence(history), {}, history);
+
+    expect(context.stage).toBe('stabilization');
+    expect(context.returningUser).toBe(true);
+  });
+
+  test('carries forward the dominant recent stage', async () => {
+    const store = new InMemoryJourneyHistoryStore();
+    const now = Date.now();
+    await store.record('user-1', contextFor('growth'), undefined, new Date(now - 20 * DAY_MS));
+    await store.record('user-1', contextFor('community_healing'), undefined, new Date(now - 2 * DAY_MS));
+    await store.record('user-1', contextFor('community_healing'), undefined, new Date(now - DAY_MS));
+    const history = await store.getHistory('user-1');
+
+    const context = detector.detectJourneyStage(ambiguousMessage, toStageSequence(history), {}, history);
+
+    expect(context.stage).toBe('community_healing');
+  });
+
+  test('clear message indicators still take precedence over history', async () => {
+    const store = new InMemoryJourneyHistoryStore();
+    await store.record('user-1', contextFor('advocacy'), undefined, new Date(Date.now() - HOUR_MS));
+    const history = await store.getHistory('user-1');
+
+    const context = detector.detectJourneyStage('I want to end it all', toStageSequence(history), {}, history);
+
+    expect(context.stage).toBe('crisis');
+  });
+});
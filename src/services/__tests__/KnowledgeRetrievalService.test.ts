@@ -0,0 +1,121 @@
+/**
+ * Knowledge Retrieval Service - Test Suite
+ * Hybrid ranking, stage/location filters and incremental index rebuilds,
+ * using the in-process vector store and a concept-based fake embedder.
+ */
+
+import { describe, beforeEach, test, expect, jest } from '@jest/globals';
+import { KnowledgeRetrievalService, Embedder, locationsInScope } from '../KnowledgeRetrievalService.js';
+import { InMemoryKnowledgeVectorStore } from '../KnowledgeVectorStore.js';
+import { UKKnowledgeBase } from '../UKKnowledgeBase.js';
+import { KnowledgeEntry, UKResource } from '../../types/journey.js';
+
+// Each dimension is a concept; words embed onto the concepts they belong to
+const CONCEPTS: string[][] = [
+  ['housing', 'homeless', 'evicted', 'eviction', 'rent', 'landlord', 'shelter'],
+  ['mental', 'therapy', 'counselling', 'depressed', 'anxiety', 'low'],
+  ['hiv', 'prep', 'sexual', 'testing'],
+  ['crisis', 'suicidal', 'emergency']
+];
+
+class ConceptEmbedder implements Embedder {
+  calls = 0;
+
+  isEmbeddingAvailable() {
+    return true;
+  }
+
+  async generateEmbedding(text: string) {
+    const words = text.toLowerCase().match(/[a-z]+/g) || [];
+    return CONCEPTS.map(concept => words.filter(word => concept.includes(word)).length);
+  }
+
+  async generateBatchEmbeddings(texts: string[]) {
+    this.calls += texts.length;
+    return Promise.all(texts.map(text => this.generateEmbedding(text)));
+  }
+}
+
+function resource(id: string, title: string, description: string, overrides: Partial<UKResource> = {}): UKResource {
+  return {
+    id,
+    title,
+    description,
+    category: 'Support',
+    journeyStages: ['crisis', 'stabilization'],
+    locations: ['unknown'],
+    specializations: [],
+    accessRequirements: [],
+    cost: 'free',
+    culturalCompetency: { lgbtqSpecific: true, blackSpecific: false, transSpecific: false, disabilityAware: false },
+    emergency: false,
+    availability: 'weekdays',
+    languages: ['English'],
+    ...overrides
+  };
+}
+
+function fakeKnowledgeBase(resources: UKResource[], entries: KnowledgeEntry[] = []): UKKnowledgeBase {
+  return {
+    getAllResources: () => resources,
+    getAllKnowledgeEntries: () => entries
+  } as unknown as UKKnowledgeBase;
+}
+
+describe('KnowledgeRetrievalService', () => {
+  let resources: UKResource[];
+  let store: InMemoryKnowledgeVectorStore;
+  let embedder: ConceptEmbedder;
+  let service: KnowledgeRetrievalService;
+
+  beforeEach(() => {
+    resources = [
+      resource('shelter', 'Shelter', 'Advice if you are homeless or facing eviction from a landlord'),
+      resource('mindout', 'MindOut', 'LGBTQ+ counselling and therapy for anxiety'),
+      resource('glasgow-centre', 'Glasgow LGBT Centre', 'Drop-in housing advice', { locations: ['glasgow'] }),
+      resource('growth-group', 'Rent Party Collective', 'Social group', { journeyStages: ['growth'] })
+    ];
+    store = new InMemoryKnowledgeVectorStore();
+    embedder = new ConceptEmbedder();
+    service = new KnowledgeRetrievalService(fakeKnowledgeBase(resources), store, embedder);
+  });
+
+  test('finds related resources with no shared keywords', async () => {
+    const [top] = await service.search('I have been evicted', { kind: 'resource', stage: 'crisis', location: 'london' });
+
+    expect(top.id).toBe('shelter');
+    expect(top.keywordScore).toBe(0);
+    expect(top.semanticScore).toBeGreaterThan(0.5);
+  });
+
+  test('filters by stage and by location scope', async () => {
+    const results = await service.searchResources('housing rent advice', { stage: 'stabilization', location: 'london' });
+    const ids = results.map(r => r.id);
+
+    expect(ids).toContain('shelter');
+    expect(ids).not.toContain('glasgow-centre');
+    expect(ids).not.toContain('growth-group');
+    expect(locationsInScope('glasgow')).toEqual(['glasgow', 'unknown']);
+  });
+
+  test('only re-embeds documents that changed and drops removed ones', async () => {
+    expect(await service.ensureIndex()).toEqual({ embedded: 4, removed: 0, unchanged: 0 });
+    expect(await service.ensureIndex()).toEqual({ embedded: 0, removed: 0, unchanged: 4 });
+
+    resources[0] = { ...resources[0], description: 'Housing advice and emergency shelter' };
+    resources.pop();
+
+    expect(await service.ensureIndex()).toEqual({ embedded: 1, removed: 1, unchanged: 2 });
+    expect(embedder.calls).toBe(5);
+  });
+
+  test('falls back to keyword ranking when embeddings are unavailable', async () => {
+    jest.spyOn(embedder, 'isEmbeddingAvailable').mockReturnValue(false);
+
+    const results = await service.search('counselling', { kind: 'resource' });
+
+    expect(results.map(r => r.id)).toEqual(['mindout']);
+    expect(results[0].semanticScore).toBe(0);
+    expect(embedder.calls).toBe(0);
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * Long-Form Speech Service - Test Suite
+ * Markdown clean-up, sentence chunking, ordered synthesis with bounded
+ * concurrency, per-chunk caching and WAV/MP3 stitching.
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import {
+  LongFormSpeechService,
+  SpeechChunkCache,
+  prepareForSpeech,
+  chunkText,
+  stitchAudio,
+  streamPiece,
+  parseWav
+} from '../LongFormSpeechService.js';
+
+function wav(samples: number[]): Buffer {
+  const format = Buffer.alloc(16);
+  format.writeUInt16LE(1, 0); // PCM
+  format.writeUInt16LE(1, 2); // mono
+  format.writeUInt32LE(16000, 4);
+  format.writeUInt32LE(16000, 8);
+  format.writeUInt16LE(1, 12);
+  format.writeUInt16LE(8, 14);
+  const data = Buffer.from(samples);
+  const header = Buffer.alloc(44);
+  header.write('RIFF', 0, 'latin1');
+  header.writeUInt32LE(36 + data.length, 4);
+  header.write('WAVE', 8, 'latin1');
+  header.write('fmt ', 12, 'latin1');
+  header.writeUInt32LE(16, 16);
+  format.copy(header, 20);
+  header.write('data', 36, 'latin1');
+  header.writeUInt32LE(data.length, 40);
+  return Buffer.concat([header, data]);
+}
+
+class MemoryChunkCache implements SpeechChunkCache {
+  entries = new Map<string, Buffer>();
+
+  async get(key: string) {
+    return this.entries.get(key) || null;
+  }
+
+  async put(key: string, audio: Buffer) {
+    this.entries.set(key, audio);
+  }
+}
+
+describe('prepareForSpeech and chunkText', () => {
+  test('turns lesson markdown into speakable sentences', () => {
+    const lesson = '\n**Knowing your rights**\n\nYou have rights at work.\n\n💭 **Reflect on this:**\n  • What would you do\n  • Who could you ask?\n';
+
+    expect(prepareForSpeech(lesson)).toBe(
+      'Knowing your rights.\n\nYou have rights at work.\n\nReflect on this:\nWhat would you do.\nWho could you ask?'
+    );
+  });
+
+  test('packs whole sentences up to the limit and splits overlong ones', () => {
+    const chunks = chunkText('One two three. Four five six! Seven eight nine?\n\nTen.', 30);
+
+    expect(chunks).toEqual(['One two three. Four five six!', 'Seven eight nine?', 'Ten.']);
+    expect(chunkText('a'.repeat(25) + ', ' + 'b'.repeat(25), 30)).toEqual(['a'.repeat(25) + ',', 'b'.repeat(25)]);
+    expect(chunkText('word '.repeat(40), 30).every(chunk => chunk.length <= 30)).toBe(true);
+  });
+});
+
+describe('LongFormSpeechService', () => {
+  test('yields chunks in order with at most `concurrency` in flight', async () => {
+    let inFlight = 0;
+    let peak = 0;
+    let calls = 0;
+    const service = new LongFormSpeechService(async text => {
+      inFlight++;
+      peak = Math.max(peak, inFlight);
+      // Later chunks finish first
+      await new Promise(resolve => setTimeout(resolve, [30, 10, 5][calls++]));
+      inFlight--;
+      return { audio: Buffer.from(text), source: 'test' };
+    }, null, { maxChunkChars: 13, concurrency: 2 });
+
+    const texts: string[] = [];
+    for await (const chunk of service.synthesizeChunks('Sentence one. Two. Three. Four. Five.', text => text)) {
+      texts.push(chunk.text);
+    }
+
+    expect(texts).toEqual(['Sentence one.', 'Two. Three.', 'Four. Five.']);
+    expect(peak).toBe(2);
+  });
+
+  test('reuses cached chunks and only synthesises new sentences', async () => {
+    const cache = new MemoryChunkCache();
+    const synthesised: string[] = [];
+    const service = new LongFormSpeechService(async text => {
+      synthesised.push(text);
+      return { audio: Buffer.from(`[${text}]`), source: 'chatterbox' };
+    }, cache, { maxChunkChars: 13 });
+
+    await service.synthesizeAll('First line. Second line.', text => `k-${text}`);
+    await new Promise(resolve => setImmediate(resolve));
+    const result = await service.synthesizeAll('First line. Changed line.', text => `k-${text}`);
+
+    expect(synthesised).toEqual(['First line.', 'Second line.', 'Changed line.']);
+    expect(result).toMatchObject({ chunks: 2, cachedChunks: 1, sources: ['cache', 'chatterbox'] });
+    expect(result.audio.toString()).toBe('[First line.][Changed line.]');
+  });
+});
+
+describe('stitchAudio and streamPiece', () => {
+  test('joins WAV samples under a single header', () => {
+    const stitched = stitchAudio([wav([1, 2]), wav([3]), wav([4, 5])]);
+
+    expect(parseWav(stitched)!.data).toEqual(Buffer.from([1, 2, 3, 4, 5]));
+    expect(stitched.readUInt32LE(4)).toBe(stitched.length - 8);
+  });
+
+  test('strips repeated ID3 tags from MP3 chunks', () => {
+    const id3 = Buffer.concat([Buffer.from('ID3'), Buffer.from([4, 0, 0, 0, 0, 0, 2]), Buffer.from('xx')]);
+    const frames = Buffer.from([0xff, 0xfb, 0x90]);
+
+    expect(stitchAudio([Buffer.concat([id3, frames]), Buffer.concat([id3, frames])]))
+      .toEqual(Buffer.concat([id3, frames, frames]));
+    expect(streamPiece(Buffer.concat([id3, frames]), 1)).toEqual(frames);
+    expect(parseWav(streamPiece(wav([7, 8]), 0))!.data).toEqual(Buffer.from([7, 8]));
+    expect(streamPiece(wav([9]), 3)).toEqual(Buffer.from([9]));
+  });
+});
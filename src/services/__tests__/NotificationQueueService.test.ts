@@ -0,0 +1,122 @@
+/**
+ * Notification Queue Service - Test Suite
+ * Scheduled delivery, dedupe keys, retries, automatic event reminders and
+ * daily digests, with Web Push delivery faked.
+ */
+
+import { describe, test, expect, beforeEach } from '@jest/globals';
+import { NotificationQueueService, EventAttendance, zonedTimeToUtc } from '../NotificationQueueService.js';
+import { InMemoryNotificationQueueStore } from '../NotificationQueueStore.js';
+import { InMemoryPushNotificationStore } from '../PushNotificationStore.js';
+import { PushNotificationService, PushSender } from '../PushNotificationService.js';
+
+const NOW = new Date('2026-10-19T12:00:00Z');
+const HOUR = 60 * 60 * 1000;
+
+describe('NotificationQueueService', () => {
+  let queueStore: InMemoryNotificationQueueStore;
+  let push: PushNotificationService;
+  let delivered: { endpoint: string; payload: any }[];
+  let failSends: boolean;
+  let attendance: EventAttendance[];
+  let service: NotificationQueueService;
+
+  beforeEach(async () => {
+    delivered = [];
+    failSends = false;
+    attendance = [];
+    const sender: PushSender = async (subscription, payload) => {
+      delivered.push({ endpoint: subscription.endpoint, payload: JSON.parse(payload) });
+      return { statusCode: 201, body: '' };
+    };
+    const pushStore = new InMemoryPushNotificationStore();
+    const originalCreate = pushStore.createLogEntry.bind(pushStore);
+    pushStore.createLogEntry = async entry => {
+      if (failSends) throw new Error('database unavailable');
+      return originalCreate(entry);
+    };
+    push = new PushNotificationService(pushStore, sender);
+    for (const userId of ['amara', 'kofi']) {
+      await push.subscribe({ endpoint: `https://push.example/${userId}`, p256dh: 'key', auth: 'secret', userId });
+    }
+
+    queueStore = new InMemoryNotificationQueueStore();
+    service = new NotificationQueueService(queueStore, push, { listAttendance: async () => attendance });
+  });
+
+  test('sends scheduled items once due, highest priority first', async () => {
+    await service.enqueue({ title: 'Later', body: 'Tomorrow', scheduledAt: new Date(NOW.getTime() + HOUR) }, NOW);
+    await service.enqueue({ title: 'Normal', body: 'Now', userIds: ['amara'] }, NOW);
+    await service.enqueue({ title: 'Urgent', body: 'Now', userIds: ['amara'], priority: 'high' }, NOW);
+
+    expect(await service.processDue(NOW)).toMatchObject({ attempted: 2, sent: 2 });
+    expect(delivered.map(d => d.payload.title)).toEqual(['Urgent', 'Normal']);
+
+    expect(await service.processDue(new Date(NOW.getTime() + HOUR))).toMatchObject({ sent: 1 });
+    expect(delivered.filter(d => d.payload.title === 'Later')).toHaveLength(2);
+  });
+
+  test('ignores a second item with the same dedupe key', async () => {
+    const first = await service.enqueue({ title: 'Vigil', body: 'Tonight', dedupeKey: 'vigil' }, NOW);
+    const second = await service.enqueue({ title: 'Vigil', body: 'Tonight', dedupeKey: 'vigil' }, NOW);
+
+    expect(second).toMatchObject({ duplicates: 1 });
+    expect(second.items[0].id).toBe(first.items[0].id);
+
+    await service.cancel(first.items[0].id, NOW);
+    expect(await service.enqueue({ title: 'Vigil', body: 'Moved', dedupeKey: 'vigil' }, NOW)).toMatchObject({ duplicates: 0 });
+  });
+
+  test('retries with backoff when a send fails, then gives up', async () => {
+    failSends = true;
+    const { items: [item] } = await service.enqueue({ title: 'Update', body: 'News', userIds: ['kofi'] }, NOW);
+
+    expect(await service.processDue(NOW)).toMatchObject({ retrying: 1 });
+    let current = await service.get(item.id);
+    expect(current).toMatchObject({ status: 'pending', attempts: 1, lastError: 'database unavailable' });
+    expect(current.scheduledAt.getTime()).toBe(NOW.getTime() + 5 * 60 * 1000);
+
+    await service.processDue(current.scheduledAt);
+    current = await service.get(item.id);
+    expect(await service.processDue(current.scheduledAt)).toMatchObject({ failed: 1 });
+    expect(await service.get(item.id)).toMatchObject({ status: 'failed', attempts: 3 });
+  });
+
+  test('queues 24h and 1h reminders for RSVPs as they come due', async () => {
+    const startsAt = new Date(NOW.getTime() + 24 * HOUR + 10 * 60 * 1000);
+    attendance = [{ eventId: 'event-1', title: 'Black Joy Picnic', startsAt, userId: 'amara' }];
+
+    expect(await service.scheduleEventReminders(NOW)).toBe(1);
+    expect(await service.scheduleEventReminders(NOW)).toBe(0);
+
+    const [dayBefore] = await service.list();
+    expect(dayBefore).toMatchObject({ userId: 'amara', topic: 'reminders', dedupeKey: 'event-reminder:event-1:amara:24h' });
+    expect(dayBefore.scheduledAt.getTime()).toBe(startsAt.getTime() - 24 * HOUR);
+
+    const hourBefore = new Date(startsAt.getTime() - HOUR - 20 * 60 * 1000);
+    expect(await service.scheduleEventReminders(hourBefore)).toBe(1);
+    expect(await service.cancelEventReminders('event-1', 'amara', hourBefore)).toBe(2);
+  });
+
+  test('merges low-priority notifications into one daily digest', async () => {
+    await push.updatePreferences({ userId: 'kofi' }, { events: true, news: true, community: true, reminders: true, digest: true });
+
+    for (const title of ['New article', 'Forum reply', 'Group update']) {
+      await service.enqueue({ title, body: 'Details', userIds: ['kofi', 'amara'], priority: 'low', topic: 'community' }, NOW);
+    }
+
+    await service.processDue(NOW);
+    expect(delivered.filter(d => d.endpoint.endsWith('/kofi'))).toHaveLength(0);
+    expect(delivered.filter(d => d.endpoint.endsWith('/amara'))).toHaveLength(3);
+
+    expect(await service.sendDigests(new Date(NOW.getTime() + 20 * HOUR))).toEqual({ users: 1, items: 3 });
+    const digest = delivered.filter(d => d.endpoint.endsWith('/kofi'));
+    expect(digest).toHaveLength(1);
+    expect(digest[0].payload).toMatchObject({ title: 'Your BLKOUT digest: 3 updates', body: '• New article\n• Forum reply\n• Group update' });
+  });
+
+  test('converts UK event times to UTC across daylight saving', () => {
+    expect(zonedTimeToUtc('2026-07-01', '19:00')!.toISOString()).toBe('2026-07-01T18:00:00.000Z');
+    expect(zonedTimeToUtc('2026-12-01', '19:00')!.toISOString()).toBe('2026-12-01T19:00:00.000Z');
+  });
+});
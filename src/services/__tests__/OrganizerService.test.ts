@@ -0,0 +1,75 @@
+/**
+ * Organizer Service - Test Suite
+ * Verification applications and their review, revoking the badge, and
+ * event collaborators invited into role-scoped permissions.
+ */
+
+import { describe, test, expect, beforeEach } from '@jest/globals';
+import { OrganizerError, OrganizerService } from '../OrganizerService.js';
+import { InMemoryOrganizerStore } from '../OrganizerStore.js';
+
+const NOW = new Date('2026-10-19T12:00:00Z');
+
+describe('OrganizerService', () => {
+  let store: InMemoryOrganizerStore;
+  let service: OrganizerService;
+
+  beforeEach(() => {
+    store = new InMemoryOrganizerStore(new Map([['evt-1', 'amara']]));
+    service = new OrganizerService(store);
+  });
+
+  test('verifies an organizer once a moderator approves their evidence', async () => {
+    const request = await service.applyForVerification('amara', {
+      evidence: [{ type: 'website', url: 'https://blkoutleeds.org' }]
+    }, NOW);
+
+    const again = await service.applyForVerification('amara', { evidence: [{ type: 'press', url: 'https://example.com' }] }, NOW)
+      .then(() => null, (e: unknown) => e);
+    expect((again as OrganizerError).status).toBe(409);
+
+    const own = await service.reviewVerification(request.id, 'approve', 'amara', undefined, NOW).then(() => null, (e: unknown) => e);
+    expect((own as OrganizerError).status).toBe(403);
+
+    await service.reviewVerification(request.id, 'approve', 'mod-1', 'Known to the Leeds chapter', NOW);
+
+    expect((await service.getProfile('amara')).isVerified).toBe(true);
+    expect(store.organizerRoles.has('amara')).toBe(true);
+    expect((await service.verificationStatus('amara')).request?.status).toBe('approved');
+  });
+
+  test('revokes the badge and the organizer role, with a reason', async () => {
+    const request = await service.applyForVerification('kofi', { evidence: [{ type: 'past_event', description: 'Pride picnic 2025' }] }, NOW);
+    await service.reviewVerification(request.id, 'approve', 'mod-1', undefined, NOW);
+
+    const noReason = await service.revokeVerification('kofi', 'mod-1', '', NOW).then(() => null, (e: unknown) => e);
+    expect((noReason as OrganizerError).status).toBe(400);
+
+    const profile = await service.revokeVerification('kofi', 'mod-1', 'Events misrepresented', NOW);
+
+    expect(profile.isVerified).toBe(false);
+    expect(store.organizerRoles.has('kofi')).toBe(false);
+    expect((await service.verificationStatus('kofi')).request).toMatchObject({ status: 'revoked', revocationReason: 'Events misrepresented' });
+  });
+
+  test('grants a collaborator only their role\'s permissions once they accept', async () => {
+    const invitation = await service.invite('evt-1', 'amara', { userId: 'jay', role: 'check_in' }, NOW);
+    expect(await service.can('evt-1', 'jay', 'check_in')).toBe(false);
+
+    const notOwner = await service.invite('evt-1', 'jay', { userId: 'sam', role: 'analyst' }, NOW).then(() => null, (e: unknown) => e);
+    expect((notOwner as OrganizerError).status).toBe(403);
+
+    await service.respondToInvitation(invitation.id, 'jay', true, NOW);
+
+    expect(await service.can('evt-1~2026-10-21', 'jay', 'check_in')).toBe(true);
+    expect(await service.can('evt-1', 'jay', 'manage_rsvps')).toBe(false);
+    expect(await service.can('evt-1', 'jay', 'edit')).toBe(false);
+    expect(await service.can('evt-1', 'jay', 'view_analytics')).toBe(false);
+    expect(await service.can('evt-1', 'amara', 'view_analytics')).toBe(true);
+    expect((await service.listCollaborators('evt-1', 'jay')).map(c => c.role)).toEqual(['owner', 'check_in']);
+
+    const coHost = await service.invite('evt-1', 'amara', { userId: 'sam', role: 'co_host' }, NOW);
+    await service.respondToInvitation(coHost.id, 'sam', true, NOW);
+    expect(await service.can('evt-1', 'sam', 'edit')).toBe(true);
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * Push Notification Service - Test Suite
+ * aes128gcm payload encryption and VAPID signing, topic and quiet-hours
+ * filtering, bounded-concurrency delivery and pruning of expired subscriptions.
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { createDecipheriv, createECDH, createPublicKey, hkdfSync, randomBytes, verify } from 'crypto';
+import { encryptPayload, createVapidAuthorization, generateVapidKeys } from '../../lib/webPush.js';
+import { PushNotificationService, PushSender, isInQuietHours } from '../PushNotificationService.js';
+import { InMemoryPushNotificationStore } from '../PushNotificationStore.js';
+
+const NOW = new Date('2026-10-19T12:00:00Z');
+
+function browserKeys() {
+  const ecdh = createECDH('prime256v1');
+  ecdh.generateKeys();
+  return { ecdh, p256dh: ecdh.getPublicKey().toString('base64url'), auth: randomBytes(16).toString('base64url') };
+}
+
+async function subscribe(service: PushNotificationService, endpoint: string, userId: string, preferences?: object) {
+  const keys = browserKeys();
+  await service.subscribe({ endpoint, p256dh: keys.p256dh, auth: keys.auth, userId, preferences });
+}
+
+describe('webPush', () => {
+  test('encrypts a payload the browser can decrypt (RFC 8291)', () => {
+    const browser = browserKeys();
+    const body = encryptPayload({ endpoint: 'https://push.example/1', ...browser }, Buffer.from('{"title":"Hi"}'));
+
+    const salt = body.subarray(0, 16);
+    const keyLength = body.readUInt8(20);
+    const serverPublicKey = body.subarray(21, 21 + keyLength);
+    const ciphertext = body.subarray(21 + keyLength);
+
+    const keyInfo = Buffer.concat([Buffer.from('WebPush: info\0'), browser.ecdh.getPublicKey(), serverPublicKey]);
+    const ikm = Buffer.from(hkdfSync('sha256', browser.ecdh.computeSecret(serverPublicKey), Buffer.from(browser.auth, 'base64url'), keyInfo, 32));
+    const key = Buffer.from(hkdfSync('sha256', ikm, salt, Buffer.from('Content-Encoding: aes128gcm\0'), 16));
+    const nonce = Buffer.from(hkdfSync('sha256', ikm, salt, Buffer.from('Content-Encoding: nonce\0'), 12));
+
+    const decipher = createDecipheriv('aes-128-gcm', key, nonce);
+    decipher.setAuthTag(ciphertext.subarray(-16));
+    const plaintext = Buffer.concat([decipher.update(ciphertext.subarray(0, -16)), decipher.final()]);
+
+    expect(body.readUInt32BE(16)).toBe(4096);
+    expect(plaintext.toString()).toBe('{"title":"Hi"}\u0002');
+  });
+
+  test('signs a VAPID token for the push service origin', () => {
+    const vapid = { subject: 'mailto:events@blkoutuk.com', ...generateVapidKeys() };
+    const header = createVapidAuthorization('https://fcm.googleapis.com/fcm/send/abc', vapid, NOW);
+
+    const [, token, publicKey] = /^vapid t=([^,]+), k=(.+)$/.exec(header)!;
+    const [head, claims, signature] = token.split('.');
+    const point = Buffer.from(publicKey, 'base64url');
+    const key = createPublicKey({
+      key: { kty: 'EC', crv: 'P-256', x: point.subarray(1, 33).toString('base64url'), y: point.subarray(33).toString('base64url') },
+      format: 'jwk'
+    });
+
+    expect(JSON.parse(Buffer.from(claims, 'base64url').toString())).toMatchObject({ aud: 'https://fcm.googleapis.com', sub: vapid.subject });
+    expect(verify('sha256', Buffer.from(`${head}.${claims}`), { key, dsaEncoding: 'ieee-p1363' }, Buffer.from(signature, 'base64url'))).toBe(true);
+  });
+});
+
+describe('PushNotificationService', () => {
+  test('respects topic preferences and quiet hours', async () => {
+    const sent: string[] = [];
+    const sender: PushSender = async subscription => {
+      sent.push(subscription.endpoint);
+      return { statusCode: 201, body: '' };
+    };
+    const service = new PushNotificationService(new InMemoryPushNotificationStore(), sender);
+
+    await subscribe(service, 'https://push.example/a', 'a');
+    await subscribe(service, 'https://push.example/b', 'b', { reminders: false });
+    // 12:00 UTC is 13:00 in London
+    await subscribe(service, 'https://push.example/c', 'c', { quietHours: { start: '12:30', end: '14:00' } });
+
+    const summary = await service.send({ title: 'Reminder', body: 'Tonight' }, { topic: 'reminders' }, NOW);
+
+    expect(sent).toEqual(['https://push.example/a']);
+    expect(summary).toMatchObject({ targeted: 2, successCount: 1, skippedCount: 1 });
+    expect(await service.send({ title: 'Alert', body: 'Now' }, { ignoreQuietHours: true }, NOW)).toMatchObject({ successCount: 3 });
+  });
+
+  test('treats overnight quiet hours as one window', () => {
+    const quiet = { start: '22:00', end: '07:00', timezone: 'UTC' };
+
+    expect(isInQuietHours(quiet, new Date('2026-10-19T23:30:00Z'))).toBe(true);
+    expect(isInQuietHours(quiet, new Date('2026-10-19T06:59:00Z'))).toBe(true);
+    expect(isInQuietHours(quiet, new Date('2026-10-19T07:00:00Z'))).toBe(false);
+  });
+
+  test('delivers with bounded concurrency, records results and prunes gone subscriptions', async () => {
+    const store = new InMemoryPushNotificationStore();
+    let inFlight = 0;
+    let peak = 0;
+    const sender: PushSender = async subscription => {
+      inFlight++;
+      peak = Math.max(peak, inFlight);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      inFlight--;
+      if (subscription.endpoint.endsWith('/gone')) return { statusCode: 410, body: '' };
+      if (subscription.endpoint.endsWith('/broken')) return { statusCode: 500, body: 'upstream error' };
+      return { statusCode: 201, body: '' };
+    };
+    const service = new PushNotificationService(store, sender, 3);
+
+    for (let i = 0; i < 8; i++) await subscribe(service, `https://push.example/${i}`, `user-${i}`);
+    await subscribe(service, 'https://push.example/gone', 'old');
+    await subscribe(service, 'https://push.example/broken', 'flaky');
+
+    const queued = await service.queue({ title: 'Community update', body: 'News' }, {}, NOW);
+    const summary = await queued.delivery;
+
+    expect(peak).toBe(3);
+    expect(summary).toMatchObject({ targeted: 10, successCount: 8, failureCount: 1, prunedCount: 1 });
+    expect(await store.getSubscription('https://push.example/gone')).toBeNull();
+
+    const { notification, deliveries } = await service.getNotification(queued.notificationId);
+    expect(notification).toMatchObject({ sentCount: 10, successCount: 8, prunedCount: 1 });
+    expect(deliveries.find(d => d.userId === 'flaky')).toMatchObject({ status: 'failed', statusCode: 500, error: 'upstream error' });
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * Social Publishing Service - Test Suite
+ * Draft → approved → scheduled → posted transitions, platform limits,
+ * retry with backoff and dashboard reporting, using local adapters.
+ */
+
+import { describe, test, expect, beforeEach } from '@jest/globals';
+import { SocialPublishingService, SocialPublishingError, retryDelayMs } from '../SocialPublishingService.js';
+import { InMemorySocialPostStore } from '../SocialPostStore.js';
+import { LocalSocialAdapter, SocialAdapterMap } from '../SocialPlatformAdapters.js';
+
+const NOW = new Date('2026-10-19T09:00:00Z');
+
+function minutesLater(minutes: number): Date {
+  return new Date(NOW.getTime() + minutes * 60 * 1000);
+}
+
+describe('SocialPublishingService', () => {
+  let adapters: SocialAdapterMap;
+  let service: SocialPublishingService;
+
+  beforeEach(() => {
+    adapters = {
+      linkedin: new LocalSocialAdapter('linkedin', 3000),
+      instagram: new LocalSocialAdapter('instagram', 2200, true),
+      bluesky: new LocalSocialAdapter('bluesky', 300),
+      mastodon: new LocalSocialAdapter('mastodon', 500)
+    };
+    service = new SocialPublishingService(new InMemorySocialPostStore(), adapters);
+  });
+
+  test('publishes a post only once it is approved, scheduled and due', async () => {
+    const [post] = await service.createDrafts({ platforms: ['mastodon'], content: 'Pride picnic on Saturday' }, NOW);
+
+    await expect(service.schedule(post.id, NOW, NOW)).rejects.toMatchObject({ status: 409 });
+    await service.approve(post.id, 'admin-1', NOW);
+    await service.schedule(post.id, minutesLater(30), NOW);
+
+    expect(await service.publishDue(minutesLater(10))).toMatchObject({ attempted: 0 });
+    expect(await service.publishDue(minutesLater(30))).toEqual({ attempted: 1, posted: 1, retrying: 0, failed: 0 });
+
+    const { post: posted, attempts } = await service.getPost(post.id);
+    expect(posted).toMatchObject({ status: 'posted', approvedBy: 'admin-1', platformPostId: 'local-mastodon-1' });
+    expect(attempts).toHaveLength(1);
+    expect((adapters.mastodon as LocalSocialAdapter).published[0].content).toBe('Pride picnic on Saturday');
+  });
+
+  test('checks content against each platform before drafting', async () => {
+    await expect(service.createDrafts({ platforms: ['bluesky'], content: 'x'.repeat(301) }, NOW))
+      .rejects.toThrow('bluesky posts must be 300 characters or less');
+    await expect(service.createDrafts({ platforms: ['instagram'], content: 'No picture' }, NOW))
+      .rejects.toThrow(SocialPublishingError);
+    await expect(service.createDrafts({ platforms: ['twitter' as any], content: 'Hello' }, NOW))
+      .rejects.toThrow('Unknown platform: twitter');
+
+    const drafts = await service.createDrafts({ platforms: ['linkedin', 'bluesky'], content: 'Hello' }, NOW);
+    expect(drafts.map(d => d.status)).toEqual(['draft', 'draft']);
+  });
+
+  test('editing an approved post sends it back for approval', async () => {
+    const [post] = await service.createDrafts({ platforms: ['linkedin'], content: 'First copy' }, NOW);
+    await service.approve(post.id, 'admin-1', NOW);
+
+    const edited = await service.updateDraft(post.id, { content: 'Second copy' }, NOW);
+
+    expect(edited).toMatchObject({ status: 'draft', content: 'Second copy', approvedBy: undefined });
+  });
+
+  test('retries failures with backoff, then marks the post failed', async () => {
+    const bluesky = adapters.bluesky as LocalSocialAdapter;
+    bluesky.failures = 10;
+    const [post] = await service.createDrafts({ platforms: ['bluesky'], content: 'Vigil tonight' }, NOW);
+    await service.approve(post.id, 'admin-1', NOW);
+    await service.schedule(post.id, NOW, NOW);
+
+    expect(await service.publishDue(NOW)).toMatchObject({ retrying: 1 });
+    let { post: current } = await service.getPost(post.id);
+    expect(current.nextAttemptAt).toEqual(new Date(NOW.getTime() + retryDelayMs(1)));
+
+    let at = NOW;
+    for (let attempt = 2; attempt <= 4; attempt++) {
+      at = current.nextAttemptAt!;
+      await service.publishDue(at);
+      current = (await service.getPost(post.id)).post;
+    }
+
+    expect(retryDelayMs(3)).toBe(4 * retryDelayMs(1));
+    expect(current).toMatchObject({ status: 'failed', attempts: 4, lastError: 'bluesky is unavailable (local adapter)' });
+
+    // A manual retry starts a fresh set of attempts
+    bluesky.failures = 0;
+    await service.retry(post.id, at);
+    expect(await service.publishDue(at)).toMatchObject({ posted: 1 });
+  });
+
+  test('reports status counts, retries and recent failures on the dashboard', async () => {
+    (adapters.linkedin as LocalSocialAdapter).failures = 1;
+    const posts = await service.publishUrgent({ platforms: ['linkedin', 'mastodon'], content: 'Venue change' }, NOW);
+    await service.createDrafts({ platforms: ['bluesky'], content: 'Next week' }, NOW);
+
+    expect(posts.map(p => p.status)).toEqual(['scheduled', 'posted']);
+
+    const dashboard = await service.getDashboard(NOW);
+    expect(dashboard.byStatus).toMatchObject({ draft: 1, scheduled: 1, posted: 1 });
+    expect(dashboard.postsToday).toBe(1);
+    expect(dashboard.retrying).toEqual([expect.objectContaining({ platform: 'linkedin', attempts: 1 })]);
+    expect(dashboard.recentFailures).toHaveLength(1);
+    expect(dashboard.publisher.lastRun).toEqual({ attempted: 2, posted: 1, retrying: 1, failed: 0 });
+  });
+});
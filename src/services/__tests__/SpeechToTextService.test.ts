@@ -0,0 +1,132 @@
+/**
+ * Speech-to-Text Service - Test Suite
+ * Upload validation and format detection with a fake backend, and the
+ * Whisper backend's OpenAI-compatible request against a mocked fetch.
+ */
+
+import { describe, beforeEach, afterEach, test, expect, jest } from '@jest/globals';
+import {
+  SpeechToTextService,
+  SpeechToTextError,
+  TranscriptionBackend,
+  WhisperTranscriptionBackend,
+  detectAudioFormat,
+  MAX_AUDIO_BYTES
+} from '../SpeechToTextService.js';
+import { parseMultipartForm } from '../../lib/multipart.js';
+
+const OGG = Buffer.concat([Buffer.from('OggS'), Buffer.alloc(64)]);
+const WAV = Buffer.concat([Buffer.from('RIFF'), Buffer.alloc(4), Buffer.from('WAVE'), Buffer.alloc(64)]);
+
+class FakeBackend implements TranscriptionBackend {
+  readonly name = 'fake';
+  text = 'I have been feeling really low this week';
+  calls: { format: string; language?: string }[] = [];
+
+  async transcribe(audio: { format: string }, options: { language?: string } = {}) {
+    this.calls.push({ format: audio.format, language: options.language });
+    return { text: `  ${this.text}  `, language: 'en' };
+  }
+
+  async isHealthy() {
+    return true;
+  }
+}
+
+describe('SpeechToTextService', () => {
+  let backend: FakeBackend;
+  let service: SpeechToTextService;
+
+  beforeEach(() => {
+    backend = new FakeBackend();
+    service = new SpeechToTextService(backend);
+  });
+
+  test('detects formats from content type, extension or magic bytes', () => {
+    expect(detectAudioFormat(Buffer.alloc(8), 'audio/webm;codecs=opus')).toBe('webm');
+    expect(detectAudioFormat(Buffer.alloc(8), 'application/octet-stream', 'note.mp3')).toBe('mp3');
+    expect(detectAudioFormat(OGG, 'application/octet-stream')).toBe('ogg');
+    expect(detectAudioFormat(WAV)).toBe('wav');
+    expect(detectAudioFormat(Buffer.from('not audio at all'), 'text/plain')).toBeNull();
+  });
+
+  test('transcribes through the backend and trims the transcript', async () => {
+    const result = await service.transcribe(OGG, { contentType: 'audio/ogg', language: 'en' });
+
+    expect(result).toEqual({
+      text: 'I have been feeling really low this week',
+      language: 'en',
+      backend: 'fake',
+      format: 'ogg'
+    });
+    expect(backend.calls).toEqual([{ format: 'ogg', language: 'en' }]);
+  });
+
+  test('rejects empty, oversized, unsupported and silent recordings', async () => {
+    const statusOf = (promise: Promise<unknown>) =>
+      promise.then(() => null, (error: SpeechToTextError) => error.status);
+
+    expect(await statusOf(service.transcribe(Buffer.alloc(0)))).toBe(400);
+    expect(await statusOf(service.transcribe(Buffer.alloc(MAX_AUDIO_BYTES + 1), { contentType: 'audio/wav' }))).toBe(413);
+    expect(await statusOf(service.transcribe(Buffer.from('plain text'), { contentType: 'text/plain' }))).toBe(415);
+
+    backend.text = '   ';
+    expect(await statusOf(service.transcribe(WAV))).toBe(422);
+    expect(backend.calls).toHaveLength(1);
+  });
+
+  test('reports an unreachable backend as a 502', async () => {
+    jest.spyOn(backend, 'transcribe').mockRejectedValue(new Error('ECONNREFUSED'));
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    await expect(service.transcribe(WAV)).rejects.toMatchObject({ status: 502 });
+  });
+});
+
+describe('WhisperTranscriptionBackend', () => {
+  let fetchMock: jest.SpiedFunction<typeof fetch>;
+
+  beforeEach(() => {
+    fetchMock = jest.spyOn(global, 'fetch').mockResolvedValue(
+      new Response(JSON.stringify({ text: 'Hello IVOR', language: 'english', duration: 2.4 }), { status: 200 })
+    );
+  });
+
+  afterEach(() => {
+    fetchMock.mockRestore();
+  });
+
+  test('posts the recording to /v1/audio/transcriptions', async () => {
+    const whisper = new WhisperTranscriptionBackend('http://whisper.test', 'small', 'secret');
+
+    const result = await whisper.transcribe({ data: OGG, format: 'ogg' }, { language: 'en' });
+
+    expect(result).toEqual({ text: 'Hello IVOR', language: 'english', durationSeconds: 2.4 });
+    const [url, init] = fetchMock.mock.calls[0] as [string, RequestInit];
+    const form = init.body as FormData;
+    expect(url).toBe('http://whisper.test/v1/audio/transcriptions');
+    expect(init.headers).toEqual({ Authorization: 'Bearer secret' });
+    expect(form.get('model')).toBe('small');
+    expect(form.get('language')).toBe('en');
+    expect((form.get('file') as File).name).toBe('voice.ogg');
+  });
+});
+
+describe('parseMultipartForm', () => {
+  test('splits fields and files', () => {
+    const boundary = 'XyZ';
+    const body = Buffer.concat([
+      Buffer.from(`--${boundary}\r\nContent-Disposition: form-data; name="mode"\r\n\r\nchat\r\n`),
+      Buffer.from(`--${boundary}\r\nContent-Disposition: form-data; name="audio"; filename="clip.wav"\r\nContent-Type: audio/wav\r\n\r\n`),
+      WAV,
+      Buffer.from(`\r\n--${boundary}--\r\n`)
+    ]);
+
+    const form = parseMultipartForm(body, `multipart/form-data; boundary=${boundary}`);
+
+    expect(form.fields).toEqual({ mode: 'chat' });
+    expect(form.files).toHaveLength(1);
+    expect(form.files[0]).toMatchObject({ field: 'audio', filename: 'clip.wav', contentType: 'audio/wav' });
+    expect(form.files[0].data.equals(WAV)).toBe(true);
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * Ticket Service - Test Suite
+ * Signed QR tickets: the QR encoding, signature checks, one check-in per
+ * ticket, and reconciling scans a door device made offline.
+ */
+
+import { describe, test, expect, beforeEach } from '@jest/globals';
+import { generateKeyPairSync } from 'crypto';
+import { TicketService } from '../TicketService.js';
+import { InMemoryTicketCheckInStore } from '../TicketCheckInStore.js';
+import { createTicketToken, verifyTicketToken } from '../../lib/ticketTokens.js';
+import { encodeQr, reedSolomonDivisor, reedSolomonRemainder, renderQrPng } from '../../lib/qrCode.js';
+
+const NOW = new Date('2026-10-19T19:00:00Z');
+const MINUTE = 60 * 1000;
+
+describe('QR encoding', () => {
+  test('computes Reed-Solomon error correction for the ISO 18004 example', () => {
+    // "HELLO WORLD" at version 1-M
+    const data = [32, 91, 11, 120, 209, 114, 220, 77, 67, 64, 236, 17, 236, 17, 236, 17];
+    expect(reedSolomonRemainder(data, reedSolomonDivisor(10))).toEqual([196, 35, 39, 119, 235, 215, 231, 226, 93, 23]);
+  });
+
+  test('sizes the symbol to the token and writes matching format information', () => {
+    const token = createTicketToken({ ticketId: 'rsvp-1', eventId: 'event-1', kind: 'rsvp', admits: 1, issuedAt: NOW });
+    const matrix = encodeQr(token);
+    const size = matrix.length;
+    expect(size).toBe(53); // version 9
+
+    // Both copies of the format bits agree, and carry error correction level M
+    let nearFinder = 0;
+    let split = 0;
+    const first = [...[0, 1, 2, 3, 4, 5, 7, 8].map(y => matrix[y][8]), ...[7, 5, 4, 3, 2, 1, 0].map(x => matrix[8][x])];
+    const second = [...Array.from({ length: 8 }, (_, i) => matrix[8][size - 1 - i]), ...Array.from({ length: 7 }, (_, i) => matrix[size - 7 + i][8])];
+    first.forEach((dark, i) => { nearFinder |= (dark ? 1 : 0) << i; });
+    second.forEach((dark, i) => { split |= (dark ? 1 : 0) << i; });
+    expect(split).toBe(nearFinder);
+    expect((nearFinder ^ 0x5412) >>> 13).toBe(0);
+  });
+
+  test('renders a PNG', () => {
+    const png = renderQrPng(encodeQr('BLKOUT'), { scale: 2 });
+    expect(png.subarray(1, 4).toString()).toBe('PNG');
+    // (21 modules + 8 quiet zone) × 2 pixels
+    expect(png.readUInt32BE(16)).toBe(58);
+  });
+});
+
+describe('TicketService', () => {
+  let rsvps: Map<string, any>;
+  let service: TicketService;
+
+  const ticketFor = (ticketId: string, eventId = 'event-1', admits = 1) =>
+    createTicketToken({ ticketId, eventId, kind: 'rsvp', admits, issuedAt: NOW });
+
+  beforeEach(() => {
+    rsvps = new Map([
+      ['event-1_amara', { id: 'rsvp-amara', event_id: 'event-1', user_id: 'amara', status: 'confirmed', guest_count: 1 }],
+      ['event-1_kofi', { id: 'rsvp-kofi', event_id: 'event-1', user_id: 'kofi', status: 'confirmed', guest_count: 0 }],
+      ['event-1_jay', { id: 'rsvp-jay', event_id: 'event-1', user_id: 'jay', status: 'cancelled', guest_count: 0 }]
+    ]);
+    service = new TicketService(new InMemoryTicketCheckInStore(rsvps));
+  });
+
+  test('refuses tampered, foreign and wrong-event tickets', async () => {
+    const token = ticketFor('rsvp-amara', 'event-1', 2);
+    expect(verifyTicketToken(token)).toMatchObject({ ticketId: 'rsvp-amara', admits: 2 });
+
+    const [payload, signature] = token.split('.');
+    const forged = Buffer.from(JSON.stringify({ ...JSON.parse(Buffer.from(payload, 'base64url').toString()), a: 6 })).toString('base64url');
+    const otherKey = generateKeyPairSync('ed25519').privateKey;
+
+    expect(await service.checkIn('event-1', `${forged}.${signature}`)).toEqual({ status: 'invalid' });
+    expect(await service.checkIn('event-1', createTicketToken({ ticketId: 'rsvp-amara', eventId: 'event-1', kind: 'rsvp', admits: 2, issuedAt: NOW }, otherKey))).toEqual({ status: 'invalid' });
+    expect(await service.checkIn('event-2', token)).toMatchObject({ status: 'wrong_event' });
+    expect(await service.checkIn('event-1', ticketFor('rsvp-jay'))).toMatchObject({ status: 'revoked' });
+  });
+
+  test('lets each ticket in once', async () => {
+    const token = ticketFor('rsvp-amara', 'event-1', 2);
+
+    const [first, second] = await Promise.all([
+      service.checkIn('event-1', token, { deviceId: 'door-a' }, NOW),
+      service.checkIn('event-1', token, { deviceId: 'door-b' }, NOW)
+    ]);
+
+    expect(first).toMatchObject({ status: 'admitted', admits: 2 });
+    expect(second).toMatchObject({ status: 'already_checked_in', deviceId: 'door-a', checkedInAt: NOW });
+    expect(rsvps.get('event-1_amara')).toMatchObject({ checked_in: true });
+  });
+
+  test('refuses the QR ticket of an RSVP already checked in by code', async () => {
+    const byCode = await service.checkInRsvp('event-1', { id: 'rsvp-amara', guestCount: 1 }, { deviceId: 'front-desk' }, NOW);
+    expect(byCode).toMatchObject({ status: 'admitted', admits: 2 });
+    expect(rsvps.get('event-1_amara')).toMatchObject({ checked_in: true });
+
+    const scanned = await service.checkIn('event-1', ticketFor('rsvp-amara', 'event-1', 2), { deviceId: 'door-a' }, NOW);
+    expect(scanned).toMatchObject({ status: 'already_checked_in', deviceId: 'front-desk' });
+  });
+
+  test('reconciles offline scans against check-ins from other devices', async () => {
+    await service.checkIn('event-1', ticketFor('rsvp-kofi'), { deviceId: 'door-a' }, new Date(NOW.getTime() - 10 * MINUTE));
+
+    const result = await service.sync('event-1', 'door-b', [
+      { token: ticketFor('rsvp-amara'), scannedAt: new Date(NOW.getTime() - 5 * MINUTE) },
+      { token: ticketFor('rsvp-kofi'), scannedAt: new Date(NOW.getTime() - 2 * MINUTE) },
+      { token: 'not-a-ticket', scannedAt: new Date(NOW.getTime() - MINUTE) },
+      // Device clock ahead of ours
+      { token: ticketFor('rsvp-amara'), scannedAt: new Date(NOW.getTime() + 30 * MINUTE) }
+    ], NOW);
+
+    expect(result).toMatchObject({ admitted: 1, conflicts: 2, rejected: 1 });
+    expect(result.results.map(r => r.status)).toEqual(['admitted', 'already_checked_in', 'invalid', 'already_checked_in']);
+    expect(result.results[1]).toMatchObject({ deviceId: 'door-a' });
+
+    const roster = await service.roster('event-1', NOW);
+    expect(roster.checkedIn.map(c => c.ticketId).sort()).toEqual(['rsvp-amara', 'rsvp-kofi']);
+    expect(roster.revoked).toEqual(['rsvp-jay']);
+    expect(roster.publicKey).toMatchObject({ kty: 'OKP', crv: 'Ed25519' });
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * Voice Profile Service - Test Suite
+ * Journey context to Chatterbox delivery settings, the crisis override,
+ * tag filtering and responseId lookups.
+ */
+
+import { describe, beforeEach, test, expect } from '@jest/globals';
+import {
+  VoiceProfileService,
+  selectVoiceProfile,
+  applyParalinguisticTags,
+  normalizeVoiceContext
+} from '../VoiceProfileService.js';
+
+describe('selectVoiceProfile', () => {
+  test('always uses the calm, slow profile for crisis responses', () => {
+    const profiles = [
+      selectVoiceProfile({ stage: 'crisis', emotionalState: 'joyful' }),
+      selectVoiceProfile({ stage: 'advocacy', emotionalState: 'excited', urgencyLevel: 'emergency' }),
+      selectVoiceProfile({ emotionalState: 'crisis' })
+    ];
+
+    for (const profile of profiles) {
+      expect(profile.name).toBe('crisis');
+      expect(profile.speed).toBeLessThan(1);
+      expect(profile.allowedTags).toEqual([]);
+    }
+  });
+
+  test('maps emotion to delivery and nudges it by stage', () => {
+    const joyful = selectVoiceProfile({ stage: 'growth', emotionalState: 'joyful' });
+    const overwhelmed = selectVoiceProfile({ stage: 'stabilization', emotionalState: 'overwhelmed' });
+    const advocacy = selectVoiceProfile({ stage: 'advocacy', emotionalState: 'joyful' });
+
+    expect(joyful.name).toBe('joyful-growth');
+    expect(joyful.exaggeration).toBeGreaterThan(overwhelmed.exaggeration);
+    expect(overwhelmed.speed).toBeLessThan(joyful.speed);
+    expect(advocacy.exaggeration).toBeCloseTo(joyful.exaggeration + 0.1);
+    expect(advocacy.key).not.toBe(joyful.key);
+  });
+
+  test('falls back to the default profile without context', () => {
+    expect(selectVoiceProfile().name).toBe('default');
+    expect(selectVoiceProfile().allowedTags).toBeNull();
+  });
+});
+
+describe('applyParalinguisticTags', () => {
+  test('keeps only the tags the profile voices', () => {
+    const profile = selectVoiceProfile({ emotionalState: 'stressed' });
+
+    expect(applyParalinguisticTags('[sigh] That sounds hard. [laugh] We can work on it.', profile))
+      .toBe('[sigh] That sounds hard. We can work on it.');
+    expect(applyParalinguisticTags('[chuckle] Hi', selectVoiceProfile())).toBe('[chuckle] Hi');
+  });
+});
+
+describe('VoiceProfileService', () => {
+  let service: VoiceProfileService;
+
+  beforeEach(() => {
+    service = new VoiceProfileService();
+  });
+
+  test('reads the fallback chat context keys', () => {
+    expect(normalizeVoiceContext({ stage: 'growth', emotion: 'hopeful', urgency: 'low' }))
+      .toEqual({ stage: 'growth', emotionalState: 'hopeful', urgencyLevel: 'low' });
+    expect(normalizeVoiceContext({ stage: 'nonsense' })).toBeUndefined();
+  });
+
+  test('resolves a remembered responseId until it expires', () => {
+    const now = Date.now();
+    service.rememberResponse('resp-1', { stage: 'crisis', emotionalState: 'overwhelmed', urgencyLevel: 'high' }, now);
+
+    expect(service.resolve({ responseId: 'resp-1' }).profile.name).toBe('crisis');
+    expect(service.resolve({ responseId: 'resp-1', journeyContext: { emotionalState: 'calm' } }).profile.name).toBe('calm');
+    expect(service.contextForResponse('resp-1', now + 2 * 60 * 60 * 1000)).toBeUndefined();
+    expect(service.resolve({ responseId: 'unknown' }).profile.name).toBe('default');
+  });
+});
@@ -0,0 +1,120 @@
+/**
+ * Waitlist Service - Test Suite
+ * First-come-first-served promotion, offer acceptance and expiry, and the
+ * notifications queued for each step, against the in-memory store.
+ */
+
+import { describe, test, expect, beforeEach } from '@jest/globals';
+import { WaitlistService } from '../WaitlistService.js';
+import { InMemoryWaitlistStore } from '../WaitlistStore.js';
+import { NotificationQueueService } from '../NotificationQueueService.js';
+import { InMemoryNotificationQueueStore } from '../NotificationQueueStore.js';
+import { PushNotificationService } from '../PushNotificationService.js';
+import { InMemoryPushNotificationStore } from '../PushNotificationStore.js';
+import { InMemoryChannelPreferenceStore } from '../ChannelPreferenceStore.js';
+
+const NOW = new Date('2026-10-19T12:00:00Z');
+const HOUR = 60 * 60 * 1000;
+
+describe('WaitlistService', () => {
+  let rsvps: Map<string, any>;
+  let capacity: Map<string, any>;
+  let queue: NotificationQueueService;
+  let service: WaitlistService;
+
+  const rsvp = (userId: string, status: string, minutesAgo: number, guestCount = 0) => {
+    rsvps.set(`event-1_${userId}`, {
+      id: `rsvp-${userId}`,
+      event_id: 'event-1',
+      user_id: userId,
+      status,
+      guest_count: guestCount,
+      created_at: new Date(NOW.getTime() - minutesAgo * 60 * 1000).toISOString()
+    });
+  };
+  const statusOf = (userId: string) => rsvps.get(`event-1_${userId}`).status;
+
+  beforeEach(() => {
+    rsvps = new Map();
+    capacity = new Map([['event-1', { event_id: 'event-1', max_capacity: 2 }]]);
+    const push = new PushNotificationService(new InMemoryPushNotificationStore(), null, 10, new InMemoryChannelPreferenceStore());
+    queue = new NotificationQueueService(new InMemoryNotificationQueueStore(), push, null, null);
+    service = new WaitlistService(new InMemoryWaitlistStore(rsvps, capacity), queue, null, 12 * HOUR);
+
+    rsvp('amara', 'confirmed', 60);
+    rsvp('kofi', 'confirmed', 50);
+    rsvp('jay', 'waitlist', 40);
+    rsvp('tunde', 'waitlist', 30);
+  });
+
+  test('offers a freed place to the longest-waiting person only', async () => {
+    expect(await service.promote('event-1', NOW)).toEqual([]);
+
+    rsvps.get('event-1_amara').status = 'cancelled';
+    // Two promotions racing for the same freed place hand it out once
+    const [offers, raced] = await Promise.all([service.promote('event-1', NOW), service.promote('event-1', NOW)]);
+
+    expect(offers.map(o => o.userId)).toEqual(['jay']);
+    expect(offers[0].offerExpiresAt).toEqual(new Date(NOW.getTime() + 12 * HOUR));
+    expect(raced).toEqual([]);
+    expect(statusOf('tunde')).toBe('waitlist');
+
+    const [notification] = await queue.list({ userId: 'jay' });
+    expect(notification).toMatchObject({ priority: 'high', topic: 'events', data: { transition: 'offered' } });
+  });
+
+  test('keeps strict queue order when the next party is too big for the free place', async () => {
+    rsvp('jay', 'waitlist', 40, 2);
+    rsvps.get('event-1_amara').status = 'cancelled';
+
+    expect(await service.promote('event-1', NOW)).toEqual([]);
+    expect(await service.status('event-1', 'tunde')).toMatchObject({ position: 2 });
+  });
+
+  test('confirms an accepted offer, and refuses one that has expired', async () => {
+    rsvps.get('event-1_amara').status = 'cancelled';
+    await service.promote('event-1', NOW);
+
+    expect(await service.accept('event-1', 'jay', new Date(NOW.getTime() + HOUR))).toMatchObject({ status: 'confirmed' });
+    expect(await queue.list({ userId: 'jay' })).toHaveLength(2);
+
+    rsvps.get('event-1_kofi').status = 'cancelled';
+    await service.promote('event-1', NOW);
+    await expect(service.accept('event-1', 'tunde', new Date(NOW.getTime() + 13 * HOUR))).rejects.toThrow('This offer has expired');
+  });
+
+  test('passes a lapsed or declined offer to the next person', async () => {
+    rsvp('ife', 'waitlist', 20);
+    rsvps.get('event-1_amara').status = 'cancelled';
+    await service.promote('event-1', NOW);
+
+    expect(await service.expireOffers(new Date(NOW.getTime() + 12 * HOUR))).toEqual({ expired: 1, offered: 1 });
+    expect(statusOf('jay')).toBe('offer_expired');
+    expect(statusOf('tunde')).toBe('offered');
+
+    const next = await service.decline('event-1', 'tunde', new Date(NOW.getTime() + 13 * HOUR));
+    expect(next.map(o => o.userId)).toEqual(['ife']);
+    await expect(service.decline('event-1', 'tunde', NOW)).rejects.toThrow('no open offer');
+  });
+
+  test('emails every offer even when one send fails', async () => {
+    const emailed: string[] = [];
+    const email = {
+      sendWaitlistOffer: async ({ to }: { to: string }) => {
+        emailed.push(to);
+        if (emailed.length === 1) throw new Error('SMTP connection closed');
+        return { status: 'sent' };
+      }
+    };
+    service = new WaitlistService(new InMemoryWaitlistStore(rsvps, capacity), queue, email as any, 12 * HOUR);
+    rsvps.get('event-1_jay').attendee_email = 'jay@example.com';
+    rsvps.get('event-1_tunde').attendee_email = 'tunde@example.com';
+
+    rsvps.get('event-1_amara').status = 'cancelled';
+    rsvps.get('event-1_kofi').status = 'cancelled';
+    const offers = await service.promote('event-1', NOW);
+
+    expect(offers.map(o => o.userId)).toEqual(['jay', 'tunde']);
+    expect(emailed).toEqual(['jay@example.com', 'tunde@example.com']);
+  });
+});
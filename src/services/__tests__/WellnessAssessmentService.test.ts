@@ -0,0 +1,106 @@
+/**
+ * Wellness Assessment Service - Test Suite
+ * Deterministic section scoring (weights, reverse-scored items), insights,
+ * recommendations and persisted progress via the in-memory store.
+ */
+
+import { describe, beforeEach, test, expect } from '@jest/globals';
+import { WellnessAssessmentService, WellnessAssessmentError, scoreSection, normalizeAnswers } from '../WellnessAssessmentService.js';
+import { InMemoryWellnessResultStore } from '../WellnessResultStore.js';
+import { WELLNESS_SECTIONS, getWellnessSection } from '../../data/wellnessAssessment.js';
+
+const mentalHealth = getWellnessSection('mental-emotional-health')!;
+
+describe('scoreSection', () => {
+  test('defines fifteen sections', () => {
+    expect(WELLNESS_SECTIONS).toHaveLength(15);
+    expect(new Set(WELLNESS_SECTIONS.map(s => s.id)).size).toBe(15);
+  });
+
+  test('flips reverse-scored items', () => {
+    // Agree with positives, disagree with the reverse-scored negatives
+    const best = scoreSection(mentalHealth, { 'meh-1': 5, 'meh-2': 5, 'meh-3': 1, 'meh-4': 1 });
+    const worst = scoreSection(mentalHealth, { 'meh-1': 1, 'meh-2': 1, 'meh-3': 5, 'meh-4': 5 });
+
+    expect(best.score).toBe(100);
+    expect(best.band).toBe('strength');
+    expect(worst.score).toBe(0);
+    expect(worst.band).toBe('growth');
+  });
+
+  test('weights questions and is deterministic', () => {
+    // meh-1 (weight 1) at 100, meh-2 (weight 1.5) at 0 → 100 / 2.5 = 40
+    const answers = { 'meh-1': 5, 'meh-2': 1 };
+
+    expect(scoreSection(mentalHealth, answers).score).toBe(40);
+    expect(scoreSection(mentalHealth, answers).score).toBe(40);
+  });
+
+  test('ignores unknown questions and out-of-range values', () => {
+    const answers = normalizeAnswers(mentalHealth, [
+      { questionId: 'meh-1', value: '4' },
+      { questionId: 'meh-2', value: 9 },
+      { questionId: 'not-a-question', value: 3 }
+    ]);
+
+    expect(answers).toEqual({ 'meh-1': 4 });
+  });
+
+  test('rejects a section with no valid answers', () => {
+    expect(() => scoreSection(mentalHealth, {})).toThrow(WellnessAssessmentError);
+  });
+});
+
+describe('WellnessAssessmentService', () => {
+  let service: WellnessAssessmentService;
+
+  beforeEach(() => {
+    service = new WellnessAssessmentService(new InMemoryWellnessResultStore(), undefined, null);
+  });
+
+  test('derives growth insights and recommendations for a low section', async () => {
+    const { assessment, nextSection } = await service.submitSection({
+      userId: 'user-1',
+      sectionId: 'housing-stability',
+      answers: { 'hs-1': 2, 'hs-2': 2, 'hs-3': 5 },
+      location: 'london'
+    });
+
+    expect(assessment.band).toBe('growth');
+    expect(assessment.insights[0]).toBe(getWellnessSection('housing-stability')!.growthInsight);
+    expect(assessment.recommendations.some(r => r.type === 'practice')).toBe(true);
+    expect(assessment.recommendations.some(r => r.type === 'resource')).toBe(true);
+    expect(nextSection).toBe('community-belonging');
+  });
+
+  test('strength sections get no recommendations', async () => {
+    const { assessment } = await service.submitSection({
+      userId: 'user-1',
+      sectionId: 'mental-emotional-health',
+      answers: { 'meh-1': 5, 'meh-2': 5, 'meh-3': 1, 'meh-4': 1 }
+    });
+
+    expect(assessment.recommendations).toEqual([]);
+  });
+
+  test('progress reflects persisted history and the latest retake', async () => {
+    await service.submitSection({ userId: 'user-1', sectionId: 'mental-emotional-health', answers: { 'meh-1': 1, 'meh-2': 1 } });
+    await service.submitSection({ userId: 'user-1', sectionId: 'rest-recreation', answers: { 'rr-1': 5, 'rr-2': 5, 'rr-3': 1 } });
+    await service.submitSection({ userId: 'user-1', sectionId: 'mental-emotional-health', answers: { 'meh-1': 5, 'meh-2': 5 } });
+
+    const progress = await service.getProgress('user-1');
+
+    expect(progress.sectionsCompleted).toBe(2);
+    expect(progress.totalSections).toBe(15);
+    expect(progress.history).toHaveLength(3);
+    expect(progress.overallScore).toBe(100);
+    expect(progress.strengths).toEqual(['Mental & emotional health', 'Rest & recreation']);
+    expect(progress.nextSection).toBe('identity-authenticity');
+  });
+
+  test('anonymous submissions are scored but not stored', async () => {
+    await service.submitSection({ sectionId: 'sexual-health', answers: { 'sh-1': 3 } });
+
+    expect((await service.getProgress('anonymous')).sectionsCompleted).toBe(0);
+  });
+});
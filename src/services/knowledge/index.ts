@@ -87,6 +87,20 @@ export class UKKnowledgeBase {
     return providers.flatMap(provider => provider.getKnowledgeEntries())
   }
 
+  /**
+   * Every resource from every regional provider
+   */
+  getAllResources(): UKResource[] {
+    return [...this.allResources]
+  }
+
+  /**
+   * Every knowledge entry from every regional provider
+   */
+  getAllKnowledgeEntries(): KnowledgeEntry[] {
+    return [...this.allKnowledgeEntries]
+  }
+
   /**
    * Get the region for a given city/location
    */
@@ -60,6 +60,18 @@ export interface JourneyContext {
   resourceAccessPreference: 'phone' | 'online' | 'in_person' | 'flexible'
 }
 
+// A single timestamped journey detection, as kept by the journey history store
+export interface JourneyHistoryEntry {
+  userId: string
+  sessionId?: string
+  stage: JourneyStage
+  emotionalState: EmotionalState
+  urgencyLevel: UrgencyLevel
+  location: UKLocation
+  communityConnection: CommunityConnectionLevel
+  detectedAt: Date
+}
+
 export interface UKResource {
   id: string
   title: string